@@ -96,9 +96,17 @@ const CheckoutSuccessPage = lazy(() =>
 const CheckoutCancelPage = lazy(() =>
   import('./pages/shop/CheckoutCancelPage').then((m) => ({ default: m.CheckoutCancelPage }))
 );
+const StockAlertUnsubscribePage = lazy(() =>
+  import('./pages/shop/StockAlertUnsubscribePage').then((m) => ({
+    default: m.StockAlertUnsubscribePage,
+  }))
+);
 const EventCancelPage = lazy(() =>
   import('./pages/community/EventCancelPage').then((m) => ({ default: m.EventCancelPage }))
 );
+const EventClaimPage = lazy(() =>
+  import('./pages/community/EventClaimPage').then((m) => ({ default: m.EventClaimPage }))
+);
 const WaitlistAdminPage = lazy(() =>
   import('./pages/members/WaitlistAdminPage').then((m) => ({ default: m.WaitlistAdminPage }))
 );
@@ -242,10 +250,12 @@ function AppMainInner({
               <Route path="/login/member" element={<MemberLoginPage />} />
               <Route path="/login/shop" element={<ShopLoginPage />} />
               <Route path="/shop" element={<ShopPage />} />
+              <Route path="/shop/unsubscribe" element={<StockAlertUnsubscribePage />} />
               <Route path="/shop/:slug" element={<ProductPage />} />
               <Route path="/checkout/success" element={<CheckoutSuccessPage />} />
               <Route path="/checkout/cancel" element={<CheckoutCancelPage />} />
               <Route path="/event/cancel" element={<EventCancelPage />} />
+              <Route path="/event/claim" element={<EventClaimPage />} />
               <Route path="/admin/waitlist" element={<WaitlistAdminPage />} />
               <Route path="/admin/analytics" element={<AnalyticsDashboardPage />} />
               <Route path="/guide/analytics" element={<GuideAnalyticsPage />} />
@@ -5,6 +5,16 @@ import { Resend } from 'resend';
 import crypto from 'crypto';
 import { checkRateLimit } from '../lib/rateLimit.js';
 import { handleGuideRidePlanningAction } from '../lib/guideRidePlanning.js';
+import { holdsOfferedSpot, offerNextWaitlistSpot } from '../lib/waitlistOffers.js';
+import { notifyNoShowRestrictions } from '../lib/noShowPolicy.js';
+import { summarizeOrderHistory } from '../lib/orderHistory.js';
+import { sendOrderShippedEmail } from '../lib/orderNotifications.js';
+import {
+  ORDER_CARRIERS,
+  isShopOrderStatus,
+  markShippingEmailSent,
+  updateShopOrderStatus,
+} from '../lib/shopOrders.js';
 
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY =
@@ -35,6 +45,7 @@ const FIELD_VALIDATORS: Record<string, (v: unknown) => boolean> = {
   lifetime_value:           (v) => typeof v === 'number' && v >= 0,
   avg_order_value:          (v) => v === null || (typeof v === 'number' && v >= 0),
   last_order_date:          (v) => v === null || (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)),
+  no_show_forgiven_at:      (v) => v === null || (typeof v === 'string' && !Number.isNaN(Date.parse(v))),
   tags:                     (v) => Array.isArray(v) && (v as unknown[]).every((t) => typeof t === 'string' && t.length <= 100),
   order_history:            (v) => Array.isArray(v),
 };
@@ -55,6 +66,10 @@ const EDITABLE_FIELDS = new Set(Object.keys(FIELD_VALIDATORS));
  *     Body: { registrationId }
  *   "admin-send-participant-email" — send a personal email to a participant
  *     Body: { registrationId, subject, message }
+ *   "admin-promote-from-waitlist" — confirm a waitlisted registration now (skips any claim offer)
+ *     Body: { registrationId }
+ *   "admin-order-status" — move a shop order along (emails the customer when it is shipped)
+ *     Body: { orderId, status, carrier?, trackingNumber? }
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -118,6 +133,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (action === 'admin-no-show') return handleNoShow(req, res, adminClient);
   if (action === 'admin-send-participant-email') return handleSendParticipantEmail(req, res, adminClient);
   if (action === 'admin-promote-from-waitlist') return handlePromoteFromWaitlist(req, res, adminClient);
+  if (action === 'admin-order-status') return handleOrderStatus(req, res, adminClient);
 
   return handleUpdate(req, res, adminClient);
 }
@@ -241,24 +257,12 @@ async function handleMerge(
         (b.date || '').localeCompare(a.date || '')
     );
 
-    // Recalculate metrics
-    const orderCount = mergedHistory.length;
-    const lifetimeValue =
-      Math.round(
-        mergedHistory.reduce(
-          (sum: number, o: { total?: number | string }) => sum + (parseFloat(String(o.total)) || 0),
-          0
-        ) * 100
-      ) / 100;
-    const avgOrderValue = orderCount > 0 ? Math.round((lifetimeValue / orderCount) * 100) / 100 : 0;
-    const lastOrderDate = mergedHistory.reduce(
-      (latest: string | null, o: { date?: string }) => {
-        if (!o.date) return latest;
-        const d = String(o.date).substring(0, 10);
-        return !latest || d > latest ? d : latest;
-      },
-      target.last_order_date || null
-    );
+    // Recalculate metrics (refunded and disputed orders as in lib/orderHistory.ts)
+    const orderTotals = summarizeOrderHistory(mergedHistory);
+    const lastOrderDate =
+      target.last_order_date && (!orderTotals.last_order_date || target.last_order_date > orderTotals.last_order_date)
+        ? target.last_order_date
+        : orderTotals.last_order_date;
 
     // Fill in missing fields from source
     const fillableFields = [
@@ -291,9 +295,7 @@ async function handleMerge(
         ...fieldUpdates,
         alternate_emails: mergedAlternates,
         order_history: mergedHistory,
-        order_count: orderCount,
-        lifetime_value: lifetimeValue,
-        avg_order_value: avgOrderValue,
+        ...orderTotals,
         last_order_date: lastOrderDate,
         tags: mergedTags,
         is_member: isMember,
@@ -328,7 +330,7 @@ async function handleMerge(
       profile: updated,
       merged: {
         newOrders: newOrders.length,
-        totalOrders: orderCount,
+        totalOrders: orderTotals.order_count,
         alternateEmails: mergedAlternates,
       },
     });
@@ -411,7 +413,9 @@ async function handleRemoveParticipant(
 
   const { data: reg, error: regError } = await adminClient
     .from('registrations')
-    .select('id, event_id, ride_level, user_id, email, first_name, is_waitlist, cancelled_at')
+    .select(
+      'id, event_id, ride_level, user_id, email, first_name, is_waitlist, cancelled_at, occurrence_date, waitlist_offer_expires_at'
+    )
     .eq('id', registrationId)
     .single();
 
@@ -430,52 +434,15 @@ async function handleRemoveParticipant(
     return res.status(500).json({ error: 'Failed to cancel registration' });
   }
 
-  // Promote next waitlisted person only if the cancelled registration was confirmed (not waitlist)
+  // Pass the spot on only if the cancelled registration held one (confirmed or an open offer)
   let promoted = false;
-  if (!reg.is_waitlist && RESEND_API_KEY) {
-    const { data: nextWaitlist } = await adminClient
-      .from('registrations')
-      .select('id, user_id, email, first_name, ride_level')
-      .eq('event_id', eventId)
-      .eq('ride_level', reg.ride_level)
-      .eq('is_waitlist', true)
-      .is('cancelled_at', null)
-      .order('waitlist_joined_at', { ascending: true })
-      .limit(1)
-      .maybeSingle();
-
-    if (nextWaitlist) {
-      const newCancelToken = crypto.randomBytes(24).toString('base64url');
-      const newCancelTokenHash = crypto.createHash('sha256').update(newCancelToken).digest('hex');
-      await adminClient
-        .from('registrations')
-        .update({ is_waitlist: false, waitlist_promoted_at: now, cancel_token_hash: newCancelTokenHash })
-        .eq('id', nextWaitlist.id);
-
-      let toEmail: string | null = nextWaitlist.email ?? null;
-      if (!toEmail && nextWaitlist.user_id) {
-        const { data: profile } = await adminClient.from('profiles').select('email').eq('id', nextWaitlist.user_id).single();
-        toEmail = profile?.email ?? null;
-      }
-
-      if (toEmail) {
-        try {
-          const eventTitle = await fetchEventTitle(eventId);
-          const cancelUrl = `${BASE_URL}/cancel?token=${newCancelToken}`;
-          const resend = new Resend(RESEND_API_KEY);
-          await resend.emails.send({
-            from: FROM_EMAIL,
-            to: toEmail,
-            subject: `You're in! ${eventTitle} - ${formatRideLevel(nextWaitlist.ride_level)}`,
-            html: buildPromotedHtml(eventTitle, nextWaitlist.ride_level, cancelUrl),
-            text: buildPromotedText(eventTitle, nextWaitlist.ride_level, cancelUrl),
-          });
-        } catch (emailErr) {
-          console.warn('[admin-remove-participant] Waitlist promotion email failed:', emailErr);
-        }
-      }
-      promoted = true;
-    }
+  if (!reg.is_waitlist || holdsOfferedSpot(reg)) {
+    const result = await offerNextWaitlistSpot(adminClient, {
+      eventId,
+      rideLevel: reg.ride_level,
+      occurrenceDate: reg.occurrence_date ?? null,
+    });
+    promoted = result !== null;
   }
 
   return res.status(200).json({ success: true, promoted });
@@ -512,6 +479,8 @@ async function handleNoShow(
     return res.status(500).json({ error: 'Failed to mark registration as no-show' });
   }
 
+  await notifyNoShowRestrictions(adminClient, [registrationId]);
+
   return res.status(200).json({ success: true });
 }
 
@@ -546,6 +515,7 @@ async function handlePromoteFromWaitlist(
       is_waitlist: false,
       waitlist_joined_at: null,
       waitlist_promoted_at: now,
+      waitlist_offer_token_hash: null,
       cancel_token_hash: newCancelTokenHash,
       cancel_token_issued_at: now,
     })
@@ -634,6 +604,56 @@ async function handleSendParticipantEmail(
   return res.status(200).json({ success: true });
 }
 
+// ─── Shop order status action ─────────────────────────────────────────────────
+
+async function handleOrderStatus(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  adminClient: SupabaseClient<any>
+) {
+  const body = req.body as {
+    orderId?: string;
+    status?: string;
+    carrier?: string | null;
+    trackingNumber?: string | null;
+  };
+  const orderId = typeof body?.orderId === 'string' ? body.orderId.trim() : null;
+  if (!orderId) return res.status(400).json({ error: 'Missing orderId' });
+  if (!isShopOrderStatus(body.status)) return res.status(400).json({ error: 'Invalid status' });
+
+  try {
+    const result = await updateShopOrderStatus(adminClient, orderId, {
+      status: body.status,
+      carrier: typeof body.carrier === 'string' ? body.carrier : null,
+      trackingNumber: typeof body.trackingNumber === 'string' ? body.trackingNumber : null,
+    });
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+    const { order, shippedNow } = result.value;
+    if (shippedNow) {
+      const emailResult = await sendOrderShippedEmail({
+        customerEmail: order.email,
+        customerName: order.customerName,
+        orderReference: order.stripeSessionId,
+        items: order.items,
+        carrierLabel: order.carrier ? (ORDER_CARRIERS[order.carrier]?.label ?? null) : null,
+        trackingNumber: order.trackingNumber,
+        trackingUrl: order.trackingUrl,
+        siteUrl: BASE_URL,
+      });
+      if (emailResult.success && !emailResult.skipped) {
+        order.shippingEmailSentAt = await markShippingEmailSent(adminClient, order.id);
+      } else if (!emailResult.success) {
+        console.error('[admin-order-status] Shipping email failed:', emailResult.error);
+      }
+    }
+    return res.status(200).json({ order });
+  } catch (err) {
+    console.error('[admin-order-status] Update error:', err);
+    return res.status(500).json({ error: 'Failed to update order' });
+  }
+}
+
 // ─── Profile lookup (unauthenticated) ────────────────────────────────────────
 
 async function handleProfileLookup(req: NextApiRequest, res: NextApiResponse) {
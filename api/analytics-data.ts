@@ -3,6 +3,8 @@ import { checkRateLimit } from '../lib/rateLimit.js';
 import { requireGuideAuth } from '../lib/adminGuideAuth.js';
 import { handleEventParticipation } from '../lib/analytics/eventParticipation.js';
 import { handleWebsiteAnalytics } from '../lib/analytics/websiteAnalytics.js';
+import { evaluateNoShowRestriction, getNoShowPolicy } from '../lib/noShowPolicy.js';
+import { isShopOrderStatus, listShopOrders } from '../lib/shopOrders.js';
 import { bucketize, aggregateByMonth, countByArea } from '../utils/dataTransformations.js';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -27,6 +29,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.query.section === 'website') {
     return handleWebsiteAnalytics(req, res);
   }
+  if (req.query.section === 'orders') {
+    const status = req.query.status;
+    try {
+      const orders = await listShopOrders(adminClient, {
+        status: status === 'all' || isShopOrderStatus(status) ? status : 'open',
+      });
+      return res.status(200).json({ orders });
+    } catch (err) {
+      console.error('Shop orders error:', err);
+      return res.status(500).json({ error: 'Failed to load shop orders' });
+    }
+  }
 
   try {
     // Fetch all profiles
@@ -66,6 +80,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       subscription_cancel_at_period_end,
       membership_source,
       membership_plans,
+      membership_tier,
+      household_owner_id,
       member_since,
       avg_order_value,
       order_history,
@@ -77,7 +93,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       email_count,
       last_email_open,
       last_email_click,
-      last_page_view
+      last_page_view,
+      no_show_forgiven_at
     `);
 
     if (profilesError) throw profilesError;
@@ -97,8 +114,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Enrich profiles
+    // No-shows recent enough to count towards (or keep up) a no-show restriction
     const now = new Date();
+    const noShowPolicy = getNoShowPolicy();
+    const noShowsByUser: Record<string, string[]> = {};
+    if (noShowPolicy) {
+      const since = new Date(
+        now.getTime() - (noShowPolicy.windowDays + noShowPolicy.penaltyDays) * 24 * 60 * 60 * 1000
+      );
+      const { data: noShowRows } = await adminClient
+        .from('registrations')
+        .select('user_id, no_show_at')
+        .not('user_id', 'is', null)
+        .not('no_show_at', 'is', null)
+        .is('cancelled_at', null)
+        .gte('no_show_at', since.toISOString());
+      (noShowRows ?? []).forEach((r) => {
+        (noShowsByUser[r.user_id] ??= []).push(r.no_show_at);
+      });
+    }
+
+    // Enrich profiles
     const enrichedProfiles = profiles.map((p) => {
       const daysUntilExpiration = p.membership_expiration
         ? Math.ceil(
@@ -106,9 +142,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           )
         : null;
 
+      const noShowTimes = (noShowsByUser[p.id] ?? []).filter(
+        (t) => !p.no_show_forgiven_at || Date.parse(t) > Date.parse(p.no_show_forgiven_at)
+      );
+      const windowStart = noShowPolicy
+        ? now.getTime() - noShowPolicy.windowDays * 24 * 60 * 60 * 1000
+        : now.getTime();
+      const noShowRestriction = noShowPolicy
+        ? evaluateNoShowRestriction(noShowTimes, noShowPolicy, now)
+        : null;
+
       return {
         ...p,
         event_participation_count: eventCountByUser[p.id] || 0,
+        recent_no_show_count: noShowTimes.filter((t) => Date.parse(t) > windowStart).length,
+        no_show_restriction: noShowRestriction
+          ? { penalty: noShowRestriction.penalty, until: noShowRestriction.until }
+          : null,
         days_until_expiration: daysUntilExpiration,
         is_at_risk:
           daysUntilExpiration !== null && daysUntilExpiration <= 30 && daysUntilExpiration > 0,
@@ -1,54 +1,91 @@
-// Combined event API: capacity (GET), signup (POST action=signup), cancel (POST action=cancel)
+// Combined event API: capacity (GET), level routes (GET view=routes), own rides (GET view=my-rides), calendar feeds (GET view=calendar), signup (POST action=signup), cancel (POST action=cancel)
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
 import crypto from 'crypto';
 import { Redis } from '@upstash/redis';
 import { hasActiveMembership } from '../lib/membership.js';
-// ─── ICS calendar generator (inlined to avoid module resolution issues in Vercel functions) ───
-function _icsParseTime(raw: string): { h: number; m: number } | null {
-  const s = raw.trim().toLowerCase();
-  const ampm = s.endsWith('am') || s.endsWith('pm') ? s.slice(-2) : null;
-  const core = ampm ? s.slice(0, -2).trim() : s;
-  const parts = core.split(':');
-  let h = parseInt(parts[0], 10);
-  const m = parts[1] != null ? parseInt(parts[1], 10) : 0;
-  if (Number.isNaN(h) || Number.isNaN(m)) return null;
-  if (ampm === 'pm' && h < 12) h += 12;
-  if (ampm === 'am' && h === 12) h = 0;
-  return { h, m };
-}
-function _icsP(n: number): string { return String(n).padStart(2, '0'); }
-function _icsEscape(s: string): string {
-  return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
-}
-function _icsFold(line: string): string {
-  const out: string[] = [];
-  while (line.length > 75) { out.push(line.slice(0, 75)); line = ' ' + line.slice(75); }
-  out.push(line);
-  return out.join('\r\n');
-}
-function generateIcs(event: { title: string; date: string; time?: string; durationMinutes?: number; location?: string; description?: string }): string {
-  const parsed = event.time ? _icsParseTime(event.time) : null;
-  const sh = parsed?.h ?? 0; const sm = parsed?.m ?? 0;
-  const dur = event.durationMinutes ?? 120;
-  const endTotalM = sh * 60 + sm + dur;
-  const eh = Math.floor(endTotalM / 60) % 24; const em = endTotalM % 60;
-  const d = event.date.replace(/-/g, '');
-  const dtstart = parsed ? `DTSTART;TZID=Europe/Berlin:${d}T${_icsP(sh)}${_icsP(sm)}00` : `DTSTART;VALUE=DATE:${d}`;
-  const dtend = parsed ? `DTEND;TZID=Europe/Berlin:${d}T${_icsP(eh)}${_icsP(em)}00` : `DTEND;VALUE=DATE:${d}`;
-  const now = new Date();
-  const dtstamp = `${now.getUTCFullYear()}${_icsP(now.getUTCMonth()+1)}${_icsP(now.getUTCDate())}T${_icsP(now.getUTCHours())}${_icsP(now.getUTCMinutes())}${_icsP(now.getUTCSeconds())}Z`;
-  const uid = `${Date.now()}-${Math.random().toString(36).slice(2)}@kandiegang.com`;
-  return [
-    'BEGIN:VCALENDAR','VERSION:2.0','PRODID:-//Kandie Gang//Event//EN','CALSCALE:GREGORIAN','METHOD:PUBLISH',
-    'BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${dtstamp}`, dtstart, dtend,
-    _icsFold(`SUMMARY:${_icsEscape(event.title)}`),
-    event.location ? _icsFold(`LOCATION:${_icsEscape(event.location)}`) : '',
-    event.description ? _icsFold(`DESCRIPTION:${_icsEscape(event.description)}`) : '',
-    'END:VEVENT','END:VCALENDAR',
-  ].filter(l => l !== '').join('\r\n');
-}
+import { memberEarlyAccessDays, type TieredMembershipLike } from '../lib/membershipTiers.js';
+import {
+  formatEmergencyNotes,
+  hasSharedEmergencyInfo,
+  isEmergencyInfoWindowOpen,
+  rideDateKey,
+  type EmergencyInfo,
+} from '../lib/guideAccess.js';
+import {
+  formatOccurrenceTitle,
+  getEventRecurrence,
+  isOccurrenceDate,
+  scopeToOccurrence,
+  shiftToOccurrence,
+  type EventRecurrence,
+} from '../lib/recurrence.js';
+import { CURRENT_WAIVER_VERSION, isCurrentWaiverVersion } from '../lib/waivers.js';
+import { summarizeGpx, type RouteSummary } from '../lib/gpx.js';
+import { generateIcs, generateIcsCalendar } from '../lib/ics.js';
+import { normalizeEventType } from '../lib/eventType.js';
+import { isTurnstileRequired, verifyTurnstile } from '../lib/turnstile.js';
+import {
+  buildPersonalFeedEntries,
+  buildPublicFeedEntries,
+  parseFeedFilter,
+  rideUid,
+  type FeedEvent,
+  type FeedRegistration,
+  type LevelCancellation,
+} from '../lib/calendarFeed.js';
+import { getOrSetMemoryCache } from '../lib/serverMemoryCache.js';
+import {
+  buildRosterCsv,
+  buildRosterSheetHtml,
+  buildRosterVcards,
+  isRosterFormat,
+  rosterContentType,
+  rosterFilename,
+  type RosterEntry,
+} from '../lib/rosterExport.js';
+import {
+  claimWaitlistOffer,
+  fetchRideMeta,
+  holdsOfferedSpot,
+  offerNextWaitlistSpot,
+  sweepExpiredWaitlistOffers,
+  sweepWaitlistOffersIfDue,
+} from '../lib/waitlistOffers.js';
+import {
+  buildWaitlistStanding,
+  countFreedSpots,
+  formatWaitlistChance,
+  formatWaitlistPosition,
+  getWaitlistPlace,
+  type WaitlistStanding,
+} from '../lib/waitlistOdds.js';
+import {
+  buildSeasonStats,
+  getPastStatus,
+  getUpcomingStatus,
+  isPastRide,
+  type MyRide,
+  type MyRideRegistration,
+  type PastRide,
+  type UpcomingRide,
+} from '../lib/myRides.js';
+import {
+  describeNoShowRestriction,
+  fetchNoShowRestriction,
+  getNoShowPolicy,
+  joinsWaitlist,
+  notifyNoShowRestrictions,
+  type NoShowRestriction,
+} from '../lib/noShowPolicy.js';
+import {
+  levelGuideIds,
+  loadPlannedGuides,
+  plannedGuideCounts,
+  type PlannedEventGuides,
+} from '../lib/guideEventSync.js';
+import { cancelRideLevel, type LevelCancellationResult } from '../lib/rideLevelNotices.js';
 
 // ─── Shared constants ─────────────────────────────────────────────────────────
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
@@ -64,9 +101,9 @@ const WP_GRAPHQL_URL =
   process.env.WP_GRAPHQL_URL ||
   'https://wp-origin.kandiegang.com/graphql';
 const FLINTA_EARLY_DAYS = Number(process.env.FLINTA_EARLY_DAYS ?? 7);
+// Standard and household members; reduced members have their own (lib/membershipTiers.ts).
 const MEMBER_EARLY_DAYS = Number(process.env.MEMBER_EARLY_DAYS ?? 5);
 const PLACES_PER_GUIDE = 7;
-const TURNSTILE_SECRET_KEY = process.env.TURNSTILE_SECRET_KEY;
 
 // ─── Rate limiting ────────────────────────────────────────────────────────────
 type RateLimitOptions = { windowMs: number; max: number; keyPrefix: string };
@@ -142,29 +179,6 @@ function hashToken(token: string): string {
   return crypto.createHash('sha256').update(token).digest('hex');
 }
 
-async function verifyTurnstile(token: string, remoteIp: string): Promise<boolean> {
-  if (!TURNSTILE_SECRET_KEY) {
-    console.warn('[event] Turnstile secret key not configured');
-    return true;
-  }
-  try {
-    const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        secret: TURNSTILE_SECRET_KEY,
-        response: token,
-        remoteip: remoteIp,
-      }),
-    });
-    const data = await response.json();
-    return data.success === true;
-  } catch (error) {
-    console.error('[event] Turnstile verification failed:', error);
-    return false;
-  }
-}
-
 // ─── WordPress fetch ──────────────────────────────────────────────────────────
 type EventAccessData = {
   publicReleaseDate?: string | null;
@@ -172,10 +186,11 @@ type EventAccessData = {
   workshopCapacity?: number | null;
   guideCounts: Record<string, number>;
   registrationCode?: string | null;
+  recurrence: EventRecurrence | null;
 };
 
 async function fetchEventAccessData(eventId: number): Promise<EventAccessData | null> {
-  const query = `query GetRideEventAccess($id: ID!) { rideEvent(id: $id, idType: DATABASE_ID) { publicReleaseDate eventDetails { isFlintaOnly workshopCapacity registrationCode level1 { guides { nodes { id } } } level2 { guides { nodes { id } } } level2plus { guides { nodes { id } } } level3 { guides { nodes { id } } } gravelGuides { nodes { id } } } } }`;
+  const query = `query GetRideEventAccess($id: ID!) { rideEvent(id: $id, idType: DATABASE_ID) { publicReleaseDate eventDetails { eventDate repeatingEvent repeatUntil recurrenceRule recurrenceExceptions isFlintaOnly workshopCapacity registrationCode level1 { guides { nodes { id } } } level2 { guides { nodes { id } } } level2plus { guides { nodes { id } } } level3 { guides { nodes { id } } } gravelGuides { nodes { id } } } } }`;
   const body = JSON.stringify({ query, variables: { id: eventId } });
   let lastError: unknown;
   for (let attempt = 0; attempt < 2; attempt++) {
@@ -212,6 +227,7 @@ async function fetchEventAccessData(eventId: number): Promise<EventAccessData |
           typeof details.registrationCode === 'string' && details.registrationCode.trim()
             ? details.registrationCode.trim()
             : null,
+        recurrence: getEventRecurrence(details),
       };
     } catch (err) {
       lastError = err;
@@ -235,10 +251,6 @@ async function fetchEventMeta(eventId: number): Promise<{ title: string; link: s
   };
 }
 
-async function fetchEventTitle(eventId: number): Promise<string> {
-  return (await fetchEventMeta(eventId)).title;
-}
-
 function isWithinWindow(now: Date, target: Date, daysBefore: number): boolean {
   const windowStart = new Date(target.getTime() - daysBefore * 24 * 60 * 60 * 1000);
   return now >= windowStart && now < target;
@@ -251,6 +263,42 @@ function getCapacityForLevel(rideLevel: string, access: EventAccessData): number
   return guideCount * PLACES_PER_GUIDE;
 }
 
+// ─── Recurring series helpers ─────────────────────────────────────────────────
+function parseOccurrenceDate(raw: unknown): string | null {
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? trimmed : null;
+}
+
+/** Returns an error message when the date does not belong to the event's series, else null. */
+function validateOccurrence(access: EventAccessData, occurrenceDate: string | null): string | null {
+  if (!access.recurrence) return occurrenceDate ? 'This event does not repeat' : null;
+  if (!occurrenceDate) return 'Missing occurrence date for recurring event';
+  if (!isOccurrenceDate(access.recurrence, occurrenceDate)) return 'Invalid occurrence date';
+  return null;
+}
+
+/**
+ * Guide actions act on one date of an event: check it against the series as signup does.
+ * Returns the error response to send, or null when the date is valid.
+ */
+async function checkGuideOccurrence(
+  eventId: number,
+  occurrenceDate: string | null
+): Promise<{ status: number; error: string } | null> {
+  let access: EventAccessData | null;
+  try {
+    access = await fetchEventAccessData(eventId);
+  } catch (err) {
+    console.error('[guide] Event fetch error:', err);
+    return { status: 502, error: 'Unable to load event' };
+  }
+  if (!access) return { status: 404, error: 'Event not found' };
+  const error = validateOccurrence(access, occurrenceDate);
+  return error ? { status: 400, error } : null;
+}
+
 // ─── Email builders ───────────────────────────────────────────────────────────
 function escapeHtml(str: string): string {
   return str
@@ -294,50 +342,75 @@ function buildConfirmationText(eventTitle: string, rideLevel: string): string {
   ].join('\n');
 }
 
-function buildWaitlistHtml(eventTitle: string, rideLevel: string, eventUrl?: string): string {
+function waitlistStandingLines(standing?: WaitlistStanding | null): string[] {
+  if (!standing) return [];
+  return [formatWaitlistPosition(standing), formatWaitlistChance(standing)].filter(
+    (line): line is string => Boolean(line)
+  );
+}
+
+function buildWaitlistHtml(
+  eventTitle: string,
+  rideLevel: string,
+  eventUrl?: string,
+  standing?: WaitlistStanding | null
+): string {
   const safeTitle = escapeHtml(eventTitle);
+  const standingRows = waitlistStandingLines(standing)
+    .map(
+      (line) =>
+        `<tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">${escapeHtml(line)}</p></td></tr>`
+    )
+    .join('');
   const safeLevel = escapeHtml(formatRideLevel(rideLevel));
   const safeUrl = eventUrl ? escapeHtml(eventUrl) : undefined;
   const pill = safeUrl
     ? `<a href="${safeUrl}" target="_blank" rel="noopener noreferrer" style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);text-decoration:none;padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${safeLevel}</a>`
     : `<span style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${safeLevel}</span>`;
-  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?waitlist" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">You're on the waitlist!</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">We added you to the waitlist for:</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center">${pill}</td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">If a spot opens, we'll email you right away.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">Need to leave? Use the link below.</p></td></tr><tr><td align="center" style="padding:0px 40px 40px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);"><a href="{{CANCEL_URL}}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Leave the waitlist</a>.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?waitlist" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?waitlist" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?waitlist" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?waitlist" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">You're on the waitlist!</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">We added you to the waitlist for:</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center">${pill}</td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr>${standingRows}<tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">If a spot opens, we'll email you right away.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">Need to leave? Use the link below.</p></td></tr><tr><td align="center" style="padding:0px 40px 40px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);"><a href="{{CANCEL_URL}}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Leave the waitlist</a>.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?waitlist" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?waitlist" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?waitlist" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
 }
 
-function buildWaitlistText(eventTitle: string, rideLevel: string): string {
+function buildWaitlistText(eventTitle: string, rideLevel: string, standing?: WaitlistStanding | null): string {
+  const standingLines = waitlistStandingLines(standing);
   return [
     'You are on the waitlist',
     '',
     'We added you to the waitlist for:',
     `${eventTitle} - ${formatRideLevel(rideLevel)}`,
     '',
+    ...(standingLines.length > 0 ? [...standingLines, ''] : []),
     'If a spot opens, we will email you right away.',
     'Leave the waitlist:',
     '{{CANCEL_URL}}',
   ].join('\n');
 }
 
-function buildPromotedHtml(eventTitle: string, rideLevel: string, cancelUrl: string): string {
-  const safeTitle = escapeHtml(eventTitle);
-  const safeLevel = escapeHtml(formatRideLevel(rideLevel));
-  const safeCancel = escapeHtml(cancelUrl);
-  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?spotopened" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">A spot opened up!</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">You are now confirmed for:</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center"><span style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${safeLevel}</span></td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">Need to cancel? Use the link below.</p></td></tr><tr><td align="center" style="padding:0px 40px 40px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);"><a href="${safeCancel}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Cancel my spot</a>.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?spotopened" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?spotopened" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?spotopened" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
-}
-
-function buildPromotedText(eventTitle: string, rideLevel: string, cancelUrl: string): string {
-  return [
-    'A spot opened up',
-    '',
-    'You are now confirmed for:',
-    `${eventTitle} - ${formatRideLevel(rideLevel)}`,
-    '',
-    'Need to cancel? Use this link:',
-    cancelUrl,
-  ].join('\n');
+/** Guides of the published ride plan linked to the event; null when there is none (or on error). */
+async function fetchPlannedGuides(
+  adminClient: SupabaseClient<any>,
+  eventId: number,
+  occurrenceDate: string | null
+): Promise<PlannedEventGuides | null> {
+  try {
+    return await loadPlannedGuides(adminClient, eventId, occurrenceDate);
+  } catch (err) {
+    console.warn('[event] Planned guides lookup failed:', err);
+    return null;
+  }
 }
 
 // ─── Guide cancel helpers ─────────────────────────────────────────────────────
-async function fetchLevelGuideIds(eventId: number, rideLevel: string): Promise<number[]> {
+/** Guides of a level: from the published ride plan when it covers the level, else WordPress. */
+async function fetchLevelGuideIds(
+  adminClient: SupabaseClient<any>,
+  eventId: number,
+  rideLevel: string,
+  occurrenceDate: string | null
+): Promise<number[]> {
+  const planned = await fetchPlannedGuides(adminClient, eventId, occurrenceDate);
+  const plannedLevel = planned?.guides[rideLevel as keyof PlannedEventGuides['guides']];
+  if (plannedLevel) return levelGuideIds(plannedLevel);
+
   const query = `query GetEventLevelGuides($id: ID!) {
     rideEvent(id: $id, idType: DATABASE_ID) {
       eventDetails {
@@ -366,36 +439,62 @@ async function fetchLevelGuideIds(eventId: number, rideLevel: string): Promise<n
   }
 }
 
-function buildRideCancelledHtml(
-  eventTitle: string,
-  rideLevel: string,
-  reason: string,
-  eventUrl?: string
-): string {
-  const safeTitle = escapeHtml(eventTitle);
-  const levelLabel = escapeHtml(formatRideLevel(rideLevel));
-  const safeReason = escapeHtml(reason);
-  const safeUrl = eventUrl ? escapeHtml(eventUrl) : undefined;
-  const pill = safeUrl
-    ? `<a href="${safeUrl}" target="_blank" rel="noopener noreferrer" style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);text-decoration:none;padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${levelLabel}</a>`
-    : `<span style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${levelLabel}</span>`;
-  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?ridecancelled" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">Your ride has been cancelled.</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">We're sorry to let you know that the following ride has been cancelled:</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center">${pill}</td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="left" style="padding:0px 40px 24px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(100,100,105);margin:0 0 4px 0;text-transform:uppercase;letter-spacing:0.08em;">Reason</p><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${safeReason}</p></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">If you have any questions, just reply to this email — we're always happy to help.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?ridecancelled" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?ridecancelled" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?ridecancelled" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+// ─── Emergency info helpers ───────────────────────────────────────────────────
+/**
+ * Emergency info is stricter than the other guide actions: the caller must be explicitly assigned
+ * to the level (no fallback when WordPress lists no guides) and it is ride day or the day after.
+ */
+function canSeeEmergencyInfo(guideIds: number[], wpUserId: number, rideDate: string | null): boolean {
+  return guideIds.includes(wpUserId) && isEmergencyInfoWindowOpen(rideDate, new Date());
 }
 
-function buildRideCancelledText(eventTitle: string, rideLevel: string, reason: string): string {
-  return [
-    'Your ride has been cancelled',
-    '',
-    "We're sorry to let you know that the following ride has been cancelled:",
-    `${eventTitle} - ${formatRideLevel(rideLevel)}`,
-    '',
-    'Reason:',
-    reason,
-    '',
-    "If you have any questions, just reply to this email — we're always happy to help.",
-    '',
-    "Kandie Gang — It's a love story 💜",
-  ].join('\n');
+/**
+ * Consented emergency info of the confirmed riders among `registrations`, keyed by registration id.
+ * Writes one audit row per rider handed out; if the audit insert fails nothing is returned.
+ */
+async function loadEmergencyInfo(
+  adminClient: SupabaseClient<any>,
+  registrations: Array<{ id: string; user_id: string | null; is_waitlist?: boolean | null }>,
+  scope: { viewerId: string; eventId: number; rideLevel: string; occurrenceDate: string | null; context: string }
+): Promise<Map<string, EmergencyInfo>> {
+  const result = new Map<string, EmergencyInfo>();
+  const confirmed = registrations.filter((r) => r.is_waitlist !== true && r.user_id);
+  if (confirmed.length === 0) return result;
+
+  const userIds = [...new Set(confirmed.map((r) => r.user_id as string))];
+  const { data: profiles, error: profilesError } = await adminClient
+    .from('profiles')
+    .select('id, emergency_contact_name, emergency_contact_phone, medical_notes, emergency_info_consent_at')
+    .in('id', userIds);
+  if (profilesError) {
+    console.error('[emergency-info] Profiles fetch error:', profilesError);
+    return result;
+  }
+  const byUser = new Map<string, EmergencyInfo>((profiles ?? []).map((p) => [p.id as string, p]));
+
+  const logRows: Record<string, unknown>[] = [];
+  for (const reg of confirmed) {
+    const info = byUser.get(reg.user_id as string);
+    if (!hasSharedEmergencyInfo(info)) continue;
+    result.set(reg.id, info as EmergencyInfo);
+    logRows.push({
+      viewer_id: scope.viewerId,
+      subject_user_id: reg.user_id,
+      registration_id: reg.id,
+      event_id: scope.eventId,
+      ride_level: scope.rideLevel,
+      occurrence_date: scope.occurrenceDate,
+      context: scope.context,
+    });
+  }
+  if (logRows.length === 0) return result;
+
+  const { error: logError } = await adminClient.from('emergency_info_access_log').insert(logRows);
+  if (logError) {
+    console.error('[emergency-info] Audit log insert failed:', logError);
+    return new Map();
+  }
+  return result;
 }
 
 function buildGuideMessageHtml(
@@ -460,90 +559,48 @@ async function handleGuideCancelLevel(req: VercelRequest, res: VercelResponse) {
     return res.status(403).json({ error: 'Guide access required' });
   }
 
-  const body = req.body as { eventId?: string | number; rideLevel?: string; reason?: string };
+  const body = req.body as {
+    eventId?: string | number;
+    rideLevel?: string;
+    reason?: string;
+    occurrenceDate?: string;
+  };
   const eventIdRaw = body?.eventId;
   const eventId =
     typeof eventIdRaw === 'string' ? Number(eventIdRaw) : (eventIdRaw as number | undefined);
   const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel.trim() : null;
   const reason = typeof body?.reason === 'string' ? body.reason.trim() : null;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
   if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
   if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
   if (!reason || reason.length < 3) return res.status(400).json({ error: 'A cancellation reason is required' });
+  const occurrenceError = await checkGuideOccurrence(eventId, occurrenceDate);
+  if (occurrenceError) return res.status(occurrenceError.status).json({ error: occurrenceError.error });
 
-  const guideIds = await fetchLevelGuideIds(eventId, rideLevel);
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
   if (guideIds.length > 0 && !guideIds.includes(Number(callerProfile.wp_user_id))) {
     return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
   }
 
-  const { data: existing } = await adminClient
-    .from('ride_level_cancellations')
-    .select('id')
-    .eq('event_id', eventId)
-    .eq('ride_level', rideLevel)
-    .maybeSingle();
-  if (existing) return res.status(409).json({ error: 'This ride level has already been cancelled' });
-
-  const { error: insertError } = await adminClient.from('ride_level_cancellations').insert({
-    event_id: eventId,
-    ride_level: rideLevel,
-    cancelled_by: user.id,
-    reason,
-  });
-  if (insertError) {
-    console.error('[guide-cancel-level] Insert error:', insertError);
-    return res.status(500).json({ error: 'Failed to record cancellation' });
-  }
-
-  const { data: registrations, error: regsError } = await adminClient
-    .from('registrations')
-    .select('id, user_id, email, first_name, ride_level')
-    .eq('event_id', eventId)
-    .eq('ride_level', rideLevel)
-    .is('cancelled_at', null);
-  if (regsError) {
-    console.error('[guide-cancel-level] Registrations fetch error:', regsError);
-    return res.status(500).json({ error: 'Failed to fetch registrations' });
-  }
-
-  const registrationList = registrations ?? [];
-  if (registrationList.length > 0) {
-    await adminClient
-      .from('registrations')
-      .update({ cancelled_at: new Date().toISOString() })
-      .in('id', registrationList.map((r) => r.id));
+  let result: LevelCancellationResult;
+  try {
+    result = await cancelRideLevel(adminClient, {
+      eventId,
+      rideLevel,
+      occurrenceDate,
+      reason,
+      cancelledBy: user.id,
+    });
+  } catch (err) {
+    console.error('[guide-cancel-level] Cancellation failed:', err);
+    return res.status(500).json({ error: 'Failed to cancel ride level' });
   }
-
-  const { title: eventTitle, link: eventUrl } = await fetchEventMeta(eventId);
-
-  let emailsSent = 0;
-  if (RESEND_API_KEY && registrationList.length > 0) {
-    const resend = new Resend(RESEND_API_KEY);
-    const userIds = registrationList.filter((r) => !r.email && r.user_id).map((r) => r.user_id as string);
-    let profileEmails: Record<string, string> = {};
-    if (userIds.length > 0) {
-      const { data: profiles } = await adminClient.from('profiles').select('id, email').in('id', userIds);
-      (profiles ?? []).forEach((p) => { if (p.email) profileEmails[p.id] = p.email; });
-    }
-    for (const reg of registrationList) {
-      const to = reg.email ?? (reg.user_id ? profileEmails[reg.user_id] : null);
-      if (!to) continue;
-      try {
-        await resend.emails.send({
-          from: FROM_EMAIL,
-          to,
-          subject: `Your ${eventTitle} - ${formatRideLevel(rideLevel)} ride has been cancelled`,
-          html: buildRideCancelledHtml(eventTitle, rideLevel, reason, eventUrl),
-          text: buildRideCancelledText(eventTitle, rideLevel, reason),
-        });
-        emailsSent++;
-      } catch (emailErr) {
-        console.warn('[guide-cancel-level] Email send error for', to, emailErr);
-      }
-    }
+  if (result.status === 'already-cancelled') {
+    return res.status(409).json({ error: 'This ride level has already been cancelled' });
   }
 
-  return res.status(200).json({ success: true, cancelledCount: registrationList.length, emailsSent });
+  return res.status(200).json({ success: true, cancelledCount: result.cancelledCount, emailsSent: result.emailsSent });
 }
 
 async function handleGuideMessageParticipants(req: VercelRequest, res: VercelResponse) {
@@ -576,28 +633,37 @@ async function handleGuideMessageParticipants(req: VercelRequest, res: VercelRes
     return res.status(403).json({ error: 'Guide access required' });
   }
 
-  const body = req.body as { eventId?: string | number; rideLevel?: string; message?: string };
+  const body = req.body as {
+    eventId?: string | number;
+    rideLevel?: string;
+    message?: string;
+    occurrenceDate?: string;
+  };
   const eventIdRaw = body?.eventId;
   const eventId =
     typeof eventIdRaw === 'string' ? Number(eventIdRaw) : (eventIdRaw as number | undefined);
   const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel.trim() : null;
   const message = typeof body?.message === 'string' ? body.message.trim() : null;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
   if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
   if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
   if (!message || message.length < 3) return res.status(400).json({ error: 'A message is required' });
 
-  const guideIds = await fetchLevelGuideIds(eventId, rideLevel);
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
   if (guideIds.length > 0 && !guideIds.includes(Number(callerProfile.wp_user_id))) {
     return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
   }
 
-  const { data: registrations, error: regsError } = await adminClient
-    .from('registrations')
-    .select('id, user_id, email, first_name, ride_level')
-    .eq('event_id', eventId)
-    .eq('ride_level', rideLevel)
-    .is('cancelled_at', null);
+  const { data: registrations, error: regsError } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, user_id, email, first_name, ride_level')
+      .eq('event_id', eventId)
+      .eq('ride_level', rideLevel)
+      .is('cancelled_at', null),
+    occurrenceDate
+  );
   if (regsError) {
     console.error('[guide-message-participants] Registrations fetch error:', regsError);
     return res.status(500).json({ error: 'Failed to fetch registrations' });
@@ -608,7 +674,8 @@ async function handleGuideMessageParticipants(req: VercelRequest, res: VercelRes
     return res.status(200).json({ success: true, emailsSent: 0 });
   }
 
-  const { title: eventTitle, link: eventUrl } = await fetchEventMeta(eventId);
+  const { title: baseTitle, link: eventUrl } = await fetchEventMeta(eventId);
+  const eventTitle = formatOccurrenceTitle(baseTitle, occurrenceDate);
 
   let emailsSent = 0;
   if (RESEND_API_KEY) {
@@ -675,6 +742,7 @@ async function handleGuideCheckIn(req: VercelRequest, res: VercelResponse) {
     rideLevel?: string;
     registrationId?: string;
     present?: boolean;
+    occurrenceDate?: string;
   };
   const eventIdRaw = body?.eventId;
   const eventId =
@@ -683,24 +751,31 @@ async function handleGuideCheckIn(req: VercelRequest, res: VercelResponse) {
   const registrationId =
     typeof body?.registrationId === 'string' ? body.registrationId.trim() : null;
   const present = Boolean(body?.present);
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
   if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
   if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
   if (!registrationId) return res.status(400).json({ error: 'Missing registrationId' });
+  const occurrenceError = await checkGuideOccurrence(eventId, occurrenceDate);
+  if (occurrenceError) return res.status(occurrenceError.status).json({ error: occurrenceError.error });
 
-  const guideIds = await fetchLevelGuideIds(eventId, rideLevel);
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
   if (guideIds.length > 0 && !guideIds.includes(Number(callerProfile.wp_user_id))) {
     return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
   }
 
   const { data: reg, error: regError } = await adminClient
     .from('registrations')
-    .select('id, event_id, ride_level, is_waitlist, cancelled_at')
+    .select('id, event_id, ride_level, occurrence_date, is_waitlist, cancelled_at')
     .eq('id', registrationId)
     .single();
 
   if (regError || !reg) return res.status(404).json({ error: 'Registration not found' });
-  if (Number(reg.event_id) !== eventId || reg.ride_level !== rideLevel) {
+  if (
+    Number(reg.event_id) !== eventId ||
+    reg.ride_level !== rideLevel ||
+    (reg.occurrence_date ?? null) !== occurrenceDate
+  ) {
     return res.status(404).json({ error: 'Registration not found' });
   }
   if (reg.cancelled_at) return res.status(400).json({ error: 'Cannot check in a cancelled registration' });
@@ -754,146 +829,938 @@ async function handleGuideFinalizeAttendance(req: VercelRequest, res: VercelResp
     return res.status(403).json({ error: 'Guide access required' });
   }
 
-  const body = req.body as { eventId?: string | number; rideLevel?: string };
+  const body = req.body as { eventId?: string | number; rideLevel?: string; occurrenceDate?: string };
   const eventIdRaw = body?.eventId;
   const eventId =
     typeof eventIdRaw === 'string' ? Number(eventIdRaw) : (eventIdRaw as number | undefined);
   const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel.trim() : null;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
   if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
   if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
+  const occurrenceError = await checkGuideOccurrence(eventId, occurrenceDate);
+  if (occurrenceError) return res.status(occurrenceError.status).json({ error: occurrenceError.error });
 
-  const guideIds = await fetchLevelGuideIds(eventId, rideLevel);
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
   if (guideIds.length > 0 && !guideIds.includes(Number(callerProfile.wp_user_id))) {
     return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
   }
 
   const now = new Date().toISOString();
-  const { data: updated, error: updateError } = await adminClient
-    .from('registrations')
-    .update({ no_show_at: now })
-    .eq('event_id', eventId)
-    .eq('ride_level', rideLevel)
-    .or('is_waitlist.is.null,is_waitlist.eq.false')
-    .is('cancelled_at', null)
-    .is('checked_in_at', null)
-    .is('no_show_at', null)
-    .select('id');
+  const { data: updated, error: updateError } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .update({ no_show_at: now })
+      .eq('event_id', eventId)
+      .eq('ride_level', rideLevel)
+      .or('is_waitlist.is.null,is_waitlist.eq.false')
+      .is('cancelled_at', null)
+      .is('checked_in_at', null)
+      .is('no_show_at', null),
+    occurrenceDate
+  ).select('id');
 
   if (updateError) {
     console.error('[guide-finalize-attendance] Update error:', updateError);
     return res.status(500).json({ error: 'Failed to finalize attendance' });
   }
 
+  await notifyNoShowRestrictions(adminClient, (updated ?? []).map((row) => row.id));
+
   return res.status(200).json({ success: true, noShowsMarked: (updated ?? []).length });
 }
 
-// ─── Capacity handler (GET) ───────────────────────────────────────────────────
-async function handleCapacity(req: VercelRequest, res: VercelResponse) {
-  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 60, keyPrefix: 'event-capacity' })))
-    return;
+async function handleGuideEmergencyInfo(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!bearerToken) return res.status(401).json({ error: 'Authentication required' });
 
-  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-    return res.status(500).json({ error: 'Capacity lookup is not configured' });
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Server configuration error' });
   }
 
-  const eventIdRaw = req.query.eventId;
-  const eventId = Array.isArray(eventIdRaw) ? eventIdRaw[0] : eventIdRaw;
-  const eventIdNumber = eventId ? Number(eventId) : NaN;
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+  const {
+    data: { user },
+    error: userError,
+  } = await anonClient.auth.getUser(bearerToken);
+  if (userError || !user) return res.status(401).json({ error: 'Invalid or expired token' });
 
-  if (!eventId || Number.isNaN(eventIdNumber)) {
-    return res.status(400).json({ error: 'Missing or invalid eventId' });
-  }
+  const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
 
-  try {
-    const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-      auth: { autoRefreshToken: false, persistSession: false },
-    });
+  const { data: callerProfile } = await adminClient
+    .from('profiles')
+    .select('is_guide, wp_user_id')
+    .eq('id', user.id)
+    .single();
 
-    const { data, error } = await adminClient
-      .from('registrations')
-      .select('ride_level, is_waitlist')
-      .eq('event_id', eventIdNumber)
-      .is('cancelled_at', null);
+  if (!callerProfile?.is_guide || !callerProfile?.wp_user_id) {
+    return res.status(403).json({ error: 'Guide access required' });
+  }
 
-    if (error) {
-      console.error('[event-capacity] Query error:', error);
-      return res.status(500).json({ error: error.message || 'Failed to load capacity' });
-    }
+  const body = req.body as { eventId?: string | number; rideLevel?: string; occurrenceDate?: string };
+  const eventIdRaw = body?.eventId;
+  const eventId =
+    typeof eventIdRaw === 'string' ? Number(eventIdRaw) : (eventIdRaw as number | undefined);
+  const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel.trim() : null;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
-    const counts: Record<string, number> = {};
-    const rows = Array.isArray(data) ? data : [];
-    rows.forEach((row) => {
-      if (row.is_waitlist === true) return;
-      const level =
-        typeof row.ride_level === 'string' && row.ride_level.trim() ? row.ride_level : 'workshop';
-      counts[level] = (counts[level] ?? 0) + 1;
-    });
+  if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
+  if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
 
-    let hasRegistrationCode = false;
-    try {
-      const access = await fetchEventAccessData(eventIdNumber);
-      hasRegistrationCode = Boolean(access?.registrationCode);
-    } catch {
-      // Non-fatal; capacity data is still useful without this
-    }
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
+  if (!guideIds.includes(Number(callerProfile.wp_user_id))) {
+    return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
+  }
 
-    return res.status(200).json({ eventId: eventIdNumber, total: rows.length, counts, hasRegistrationCode });
-  } catch (err) {
-    console.error('[event-capacity] Error:', err);
-    return res.status(500).json({ error: 'Failed to load capacity' });
+  const meta = await fetchRideMeta(eventId);
+  if (!canSeeEmergencyInfo(guideIds, Number(callerProfile.wp_user_id), occurrenceDate ?? meta.date)) {
+    return res.status(403).json({ error: 'Emergency info is only available on ride day and the day after' });
   }
-}
 
-// ─── Signup handler (POST, action=signup) ─────────────────────────────────────
-type EventSignupBody = {
-  action?: string;
-  eventId?: string | number;
-  rideLevel?: string;
-  eventType?: string;
-  flintaAttested?: boolean;
-  eventTitle?: string;
-  eventUrl?: string;
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  turnstileToken?: string;
-  registrationCode?: string;
-  /** "YYYY-MM-DD" */
-  eventDate?: string;
-  /** "HH:MM" 24h */
-  eventTime?: string;
-  /** Human-readable meeting point */
-  eventLocation?: string;
-};
+  const { data: registrations, error: regsError } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, user_id, is_waitlist')
+      .eq('event_id', eventId)
+      .eq('ride_level', rideLevel)
+      .or('is_waitlist.is.null,is_waitlist.eq.false')
+      .is('cancelled_at', null),
+    occurrenceDate
+  );
+  if (regsError) {
+    console.error('[guide-emergency-info] Registrations fetch error:', regsError);
+    return res.status(500).json({ error: 'Failed to fetch registrations' });
+  }
 
-function isMissingFlintaColumnError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') return false;
-  const err = error as { code?: string; message?: string; details?: string; hint?: string };
-  const code = (err.code || '').toUpperCase();
-  if (code === 'PGRST204' || code === '42703') return true;
-  const text = `${err.message || ''} ${err.details || ''} ${err.hint || ''}`.toLowerCase();
-  return text.includes('flinta_attested') && (text.includes('column') || text.includes('schema'));
-}
+  const emergencyInfo = await loadEmergencyInfo(adminClient, registrations ?? [], {
+    viewerId: user.id,
+    eventId,
+    rideLevel,
+    occurrenceDate,
+    context: 'roster',
+  });
 
-async function handleSignup(req: VercelRequest, res: VercelResponse) {
-  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 20, keyPrefix: 'event-signup' })))
-    return;
+  const entries = [...emergencyInfo.entries()].map(([registrationId, info]) => ({
+    registrationId,
+    contactName: info.emergency_contact_name?.trim() || null,
+    contactPhone: info.emergency_contact_phone?.trim() || null,
+    medicalNotes: info.medical_notes?.trim() || null,
+  }));
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  return res.status(200).json({ success: true, entries });
+}
 
+async function handleGuideExportRoster(req: VercelRequest, res: VercelResponse) {
   const authHeader = req.headers.authorization;
-  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-  const isGuestSignup = !token;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!bearerToken) return res.status(401).json({ error: 'Authentication required' });
 
-  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
     return res.status(500).json({ error: 'Server configuration error' });
   }
-  if (!SUPABASE_SERVICE_ROLE_KEY) {
-    return res.status(500).json({ error: 'Event signup is not configured' });
-  }
 
-  const body = req.body as EventSignupBody;
-  const eventIdRaw = body?.eventId;
-  const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel : null;
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+  const {
+    data: { user },
+    error: userError,
+  } = await anonClient.auth.getUser(bearerToken);
+  if (userError || !user) return res.status(401).json({ error: 'Invalid or expired token' });
+
+  const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  const { data: callerProfile } = await adminClient
+    .from('profiles')
+    .select('is_guide, wp_user_id')
+    .eq('id', user.id)
+    .single();
+
+  if (!callerProfile?.is_guide || !callerProfile?.wp_user_id) {
+    return res.status(403).json({ error: 'Guide access required' });
+  }
+
+  const body = req.body as {
+    eventId?: string | number;
+    rideLevel?: string;
+    occurrenceDate?: string;
+    format?: string;
+  };
+  const eventIdRaw = body?.eventId;
+  const eventId =
+    typeof eventIdRaw === 'string' ? Number(eventIdRaw) : (eventIdRaw as number | undefined);
+  const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel.trim() : null;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
+  const format = body?.format;
+
+  if (!eventId || Number.isNaN(eventId)) return res.status(400).json({ error: 'Missing or invalid eventId' });
+  if (!rideLevel) return res.status(400).json({ error: 'Missing rideLevel' });
+  if (!isRosterFormat(format)) return res.status(400).json({ error: 'Invalid export format' });
+  const occurrenceError = await checkGuideOccurrence(eventId, occurrenceDate);
+  if (occurrenceError) return res.status(occurrenceError.status).json({ error: occurrenceError.error });
+
+  const guideIds = await fetchLevelGuideIds(adminClient, eventId, rideLevel, occurrenceDate);
+  if (guideIds.length > 0 && !guideIds.includes(Number(callerProfile.wp_user_id))) {
+    return res.status(403).json({ error: 'You are not assigned as a guide for this level' });
+  }
+
+  const { data: registrations, error: regsError } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, user_id, email, first_name, last_name, is_waitlist, waitlist_joined_at, created_at, flinta_attested, checked_in_at')
+      .eq('event_id', eventId)
+      .eq('ride_level', rideLevel)
+      .is('cancelled_at', null)
+      .order('created_at', { ascending: true }),
+    occurrenceDate
+  );
+  if (regsError) {
+    console.error('[guide-export-roster] Registrations fetch error:', regsError);
+    return res.status(500).json({ error: 'Failed to fetch registrations' });
+  }
+
+  const registrationList = registrations ?? [];
+  const userIds = registrationList.filter((r) => !r.email && r.user_id).map((r) => r.user_id as string);
+  const profileEmails: Record<string, string> = {};
+  if (userIds.length > 0) {
+    const { data: profiles } = await adminClient.from('profiles').select('id, email').in('id', userIds);
+    (profiles ?? []).forEach((p) => { if (p.email) profileEmails[p.id] = p.email; });
+  }
+
+  const waiverVersions: Record<string, string> = {};
+  if (registrationList.length > 0) {
+    const { data: acceptances, error: waiverError } = await adminClient
+      .from('waiver_acceptances')
+      .select('registration_id, waiver_version')
+      .in('registration_id', registrationList.map((r) => r.id));
+    if (waiverError) console.warn('[guide-export-roster] Waiver lookup failed:', waiverError);
+    (acceptances ?? []).forEach((a) => { if (a.registration_id) waiverVersions[a.registration_id] = a.waiver_version; });
+  }
+
+  const waitlistOrder = registrationList
+    .filter((r) => r.is_waitlist === true)
+    .sort((a, b) =>
+      String(a.waitlist_joined_at ?? a.created_at).localeCompare(String(b.waitlist_joined_at ?? b.created_at))
+    )
+    .map((r) => r.id);
+
+  const meta = await fetchRideMeta(eventId);
+  const rideDate = occurrenceDate ?? meta.date;
+  const emergencyInfo = canSeeEmergencyInfo(guideIds, Number(callerProfile.wp_user_id), rideDate)
+    ? await loadEmergencyInfo(adminClient, registrationList, {
+        viewerId: user.id,
+        eventId,
+        rideLevel,
+        occurrenceDate,
+        context: `export-${format}`,
+      })
+    : new Map<string, EmergencyInfo>();
+
+  const entries: RosterEntry[] = registrationList.map((r) => ({
+    firstName: r.first_name ?? null,
+    lastName: r.last_name ?? null,
+    email: r.email ?? (r.user_id ? profileEmails[r.user_id] ?? null : null),
+    isWaitlist: r.is_waitlist === true,
+    waitlistPosition: r.is_waitlist === true ? waitlistOrder.indexOf(r.id) + 1 : null,
+    flintaAttested: r.flinta_attested === true,
+    checkedIn: Boolean(r.checked_in_at),
+    emergencyNotes: formatEmergencyNotes(emergencyInfo.get(r.id)),
+    waiverVersion: waiverVersions[r.id] ?? null,
+  }));
+
+  const header = {
+    eventTitle: formatOccurrenceTitle(meta.title, occurrenceDate),
+    levelLabel: formatRideLevel(rideLevel),
+    rideDate,
+    rideTime: meta.time,
+  };
+
+  const content =
+    format === 'csv'
+      ? buildRosterCsv(entries)
+      : format === 'vcard'
+        ? buildRosterVcards(header, entries)
+        : buildRosterSheetHtml(header, entries);
+
+  res.setHeader('Content-Type', rosterContentType(format));
+  res.setHeader('Content-Disposition', `attachment; filename="${rosterFilename(header, format)}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  return res.status(200).send(content);
+}
+
+// ─── Route handler (GET ?view=routes) ────────────────────────────────────────
+const GPX_MAX_BYTES = 5 * 1024 * 1024;
+const ROUTE_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+async function fetchLevelGpxUrls(eventId: number): Promise<Record<string, string>> {
+  const query = `query GetEventLevelGpx($id: ID!) {
+    rideEvent(id: $id, idType: DATABASE_ID) {
+      eventDetails {
+        level1 { gpxFile { node { mediaItemUrl } } }
+        level2 { gpxFile { node { mediaItemUrl } } }
+        level2plus { gpxFile { node { mediaItemUrl } } }
+        level3 { gpxFile { node { mediaItemUrl } } }
+      }
+    }
+  }`;
+  const response = await fetch(WP_GRAPHQL_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables: { id: eventId } }),
+    signal: AbortSignal.timeout(7000),
+  });
+  if (!response.ok) throw new Error(`WordPress query failed: ${response.status}`);
+  const json = await response.json().catch(() => ({}));
+  const details = json?.data?.rideEvent?.eventDetails ?? {};
+  const urls: Record<string, string> = {};
+  for (const levelKey of ['level1', 'level2', 'level2plus', 'level3']) {
+    const url = details[levelKey]?.gpxFile?.node?.mediaItemUrl;
+    if (typeof url === 'string' && url.trim()) urls[levelKey] = url.trim();
+  }
+  return urls;
+}
+
+/**
+ * Null when the file has no usable track (cached like a summary). Throws when the file could not
+ * be fetched, which is not cached, so the next request tries again.
+ */
+async function fetchRouteSummary(gpxUrl: string): Promise<RouteSummary | null> {
+  const { value } = await getOrSetMemoryCache(`gpx:${gpxUrl}`, ROUTE_CACHE_TTL_MS, async () => {
+    const response = await fetch(gpxUrl, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) throw new Error(`GPX fetch failed: ${response.status}`);
+    if (Number(response.headers.get('content-length') ?? 0) > GPX_MAX_BYTES) return null;
+    const xml = await response.text();
+    if (xml.length > GPX_MAX_BYTES) return null;
+    return summarizeGpx(xml);
+  });
+  return value;
+}
+
+async function handleRoutes(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 30, keyPrefix: 'event-routes' })))
+    return;
+
+  const eventIdRaw = req.query.eventId;
+  const eventId = Number(Array.isArray(eventIdRaw) ? eventIdRaw[0] : eventIdRaw);
+  if (!eventId || Number.isNaN(eventId)) {
+    return res.status(400).json({ error: 'Missing or invalid eventId' });
+  }
+
+  let gpxUrls: Record<string, string>;
+  try {
+    gpxUrls = await fetchLevelGpxUrls(eventId);
+  } catch (err) {
+    console.error('[event-routes] Event fetch error:', err);
+    return res.status(502).json({ error: 'Unable to load event routes' });
+  }
+
+  const routes: Record<string, RouteSummary> = {};
+  let fetchFailed = false;
+  for (const [levelKey, gpxUrl] of Object.entries(gpxUrls)) {
+    try {
+      const summary = await fetchRouteSummary(gpxUrl);
+      if (summary) routes[levelKey] = summary;
+    } catch (err) {
+      console.warn('[event-routes] GPX fetch failed for', gpxUrl, err);
+      fetchFailed = true;
+    }
+  }
+
+  // A route missing after a failed fetch should show up again soon, not in an hour.
+  res.setHeader(
+    'Cache-Control',
+    fetchFailed ? 'public, s-maxage=60' : 'public, s-maxage=3600, stale-while-revalidate=86400'
+  );
+  return res.status(200).json({ routes });
+}
+
+// ─── Waitlist standing (capacity GET + signup) ───────────────────────────────
+const WAITLIST_HISTORY_DAYS = 365;
+/** Waitlists younger than this may belong to rides that have not happened yet. */
+const WAITLIST_HISTORY_SETTLE_DAYS = 7;
+const WAITLIST_HISTORY_TTL_MS = 60 * 60 * 1000;
+
+/** Confirmed cancellations per past full ride of a level (see lib/waitlistOdds). */
+async function fetchFreedSpotHistory(adminClient: SupabaseClient<any>, rideLevel: string): Promise<number[]> {
+  const { value } = await getOrSetMemoryCache(`waitlist-history:${rideLevel}`, WAITLIST_HISTORY_TTL_MS, async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const { data: waitlisted, error } = await adminClient
+      .from('registrations')
+      .select('event_id, occurrence_date')
+      .eq('ride_level', rideLevel)
+      .gte('waitlist_joined_at', new Date(now - WAITLIST_HISTORY_DAYS * day).toISOString())
+      .lt('waitlist_joined_at', new Date(now - WAITLIST_HISTORY_SETTLE_DAYS * day).toISOString());
+    if (error) {
+      console.warn('[event-waitlist] History query failed:', error);
+      return [];
+    }
+    const eventIds = Array.from(new Set((waitlisted ?? []).map((row) => row.event_id as number)));
+    if (eventIds.length === 0) return [];
+
+    const [{ data: cancellations }, { data: cancelledLevels }] = await Promise.all([
+      adminClient
+        .from('registrations')
+        .select('event_id, occurrence_date')
+        .eq('ride_level', rideLevel)
+        .in('event_id', eventIds)
+        .or('is_waitlist.is.null,is_waitlist.eq.false')
+        .not('cancelled_at', 'is', null),
+      adminClient
+        .from('ride_level_cancellations')
+        .select('event_id, occurrence_date')
+        .eq('ride_level', rideLevel)
+        .in('event_id', eventIds),
+    ]);
+    return countFreedSpots(waitlisted ?? [], cancellations ?? [], cancelledLevels ?? []);
+  });
+  return value;
+}
+
+/** Queue place and historical chance for one waitlisted registration; null when it is not waitlisted. */
+async function getWaitlistStanding(
+  adminClient: SupabaseClient<any>,
+  params: { eventId: number; rideLevel: string; occurrenceDate: string | null; registrationId: string }
+): Promise<WaitlistStanding | null> {
+  const { data: queue, error } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, waitlist_joined_at, created_at, waitlist_offer_lapsed_at')
+      .eq('event_id', params.eventId)
+      .eq('ride_level', params.rideLevel)
+      .eq('is_waitlist', true)
+      .is('cancelled_at', null),
+    params.occurrenceDate
+  );
+  if (error) {
+    console.warn('[event-waitlist] Queue query failed:', error);
+    return null;
+  }
+  const place = getWaitlistPlace(queue ?? [], params.registrationId);
+  if (!place) return null;
+  return buildWaitlistStanding(place, await fetchFreedSpotHistory(adminClient, params.rideLevel));
+}
+
+/** Standings of the signed-in caller's waitlisted registrations, keyed by ride level. */
+async function getCallerWaitlistStandings(
+  req: VercelRequest,
+  adminClient: SupabaseClient<any>,
+  eventId: number,
+  occurrenceDate: string | null
+): Promise<Record<string, WaitlistStanding> | undefined> {
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!bearerToken || !SUPABASE_ANON_KEY) return undefined;
+
+  const anonClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY);
+  const {
+    data: { user },
+  } = await anonClient.auth.getUser(bearerToken);
+  if (!user) return undefined;
+
+  const { data: own } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, ride_level')
+      .eq('event_id', eventId)
+      .eq('user_id', user.id)
+      .eq('is_waitlist', true)
+      .is('cancelled_at', null),
+    occurrenceDate
+  );
+  const standings: Record<string, WaitlistStanding> = {};
+  for (const row of own ?? []) {
+    const standing = await getWaitlistStanding(adminClient, {
+      eventId,
+      rideLevel: row.ride_level,
+      occurrenceDate,
+      registrationId: row.id,
+    });
+    if (standing) standings[row.ride_level] = standing;
+  }
+  return standings;
+}
+
+// ─── My rides handler (GET ?view=my-rides) ───────────────────────────────────
+const MY_RIDES_LIMIT = 500;
+
+type MyRideEventMeta = {
+  title: string;
+  link: string;
+  date: string | null;
+  time: string | null;
+  location: string | null;
+};
+
+async function fetchEventsMetaBatch(eventIds: number[]): Promise<Record<number, MyRideEventMeta>> {
+  if (eventIds.length === 0) return {};
+  const aliases = eventIds
+    .map(
+      (id) =>
+        `e${id}: rideEvent(id: "${id}", idType: DATABASE_ID) { title link eventDetails { eventDate rideTime workshopStartTime meetingPoint { name street city } } }`
+    )
+    .join('\n    ');
+  try {
+    const response = await fetch(WP_GRAPHQL_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: `{ ${aliases} }` }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) return {};
+    const json = await response.json().catch(() => ({}));
+    const data = json?.data ?? {};
+    const result: Record<number, MyRideEventMeta> = {};
+    for (const id of eventIds) {
+      const entry = data[`e${id}`];
+      if (!entry) continue;
+      const details = entry.eventDetails ?? {};
+      const meetingPoint = details.meetingPoint ?? {};
+      result[id] = {
+        title: entry.title || `Event #${id}`,
+        link: entry.link || `${BASE_URL}/community`,
+        date: typeof details.eventDate === 'string' ? details.eventDate.split('T')[0] : null,
+        time: details.workshopStartTime?.trim() || details.rideTime?.trim() || null,
+        location:
+          [meetingPoint.name, [meetingPoint.street, meetingPoint.city].filter(Boolean).join(', ')]
+            .filter(Boolean)
+            .join(', ') || null,
+      };
+    }
+    return result;
+  } catch (err) {
+    console.warn('[event-my-rides] Event meta fetch failed:', err);
+    return {};
+  }
+}
+
+async function handleMyRides(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 30, keyPrefix: 'event-my-rides' })))
+    return;
+
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!bearerToken) return res.status(401).json({ error: 'Authentication required' });
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+  const {
+    data: { user },
+    error: userError,
+  } = await anonClient.auth.getUser(bearerToken);
+  if (userError || !user) return res.status(401).json({ error: 'Invalid or expired token' });
+
+  const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  const { data, error } = await adminClient
+    .from('registrations')
+    .select(
+      'id, event_id, ride_level, occurrence_date, is_waitlist, waitlist_promoted_at, waitlist_offer_expires_at, cancelled_at, checked_in_at, no_show_at'
+    )
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(MY_RIDES_LIMIT);
+  if (error) {
+    console.error('[event-my-rides] Query error:', error);
+    return res.status(500).json({ error: 'Failed to load your rides' });
+  }
+
+  const rows = (data ?? []) as MyRideRegistration[];
+  const metaById = await fetchEventsMetaBatch(Array.from(new Set(rows.map((row) => row.event_id))));
+  const now = new Date();
+  const todayKey = rideDateKey(now);
+  const upcoming: UpcomingRide[] = [];
+  const past: PastRide[] = [];
+
+  for (const row of rows) {
+    const meta = metaById[row.event_id];
+    const date = row.occurrence_date ?? meta?.date ?? null;
+    const ride: MyRide = {
+      registrationId: row.id,
+      eventId: row.event_id,
+      rideLevel: row.ride_level || 'workshop',
+      occurrenceDate: row.occurrence_date,
+      title: formatOccurrenceTitle(meta?.title ?? `Event #${row.event_id}`, row.occurrence_date),
+      link: meta?.link ?? null,
+      date,
+      time: meta?.time ?? null,
+      location: meta?.location ?? null,
+    };
+    if (isPastRide(date, todayKey)) {
+      past.push({ ...ride, status: getPastStatus(row) });
+      continue;
+    }
+    if (row.cancelled_at) continue;
+    const status = getUpcomingStatus(row, now);
+    let waitlistPosition: number | null = null;
+    if (status === 'waitlist') {
+      const standing = await getWaitlistStanding(adminClient, {
+        eventId: row.event_id,
+        rideLevel: ride.rideLevel,
+        occurrenceDate: row.occurrence_date,
+        registrationId: row.id,
+      });
+      waitlistPosition = standing?.position ?? null;
+    }
+    upcoming.push({ ...ride, status, waitlistPosition });
+  }
+
+  const byDate = (a: MyRide, b: MyRide) => String(a.date ?? '').localeCompare(String(b.date ?? ''));
+  upcoming.sort(byDate);
+  past.sort((a, b) => byDate(b, a));
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  return res.status(200).json({ upcoming, past, seasons: buildSeasonStats(past) });
+}
+
+// ─── Calendar feed (GET ?view=calendar, POST action=calendar-feed-token) ─────
+const FEED_EVENTS_TTL_MS = 15 * 60 * 1000;
+/** Rides stay in the feed this long after they happened, so calendars don't drop them right away. */
+const FEED_PAST_DAYS = 14;
+const FEED_MAX_EVENTS = 100;
+const FEED_LEVEL_KEYS = ['level1', 'level2', 'level2plus', 'level3'];
+
+function feedWindowStart(now: Date): string {
+  return rideDateKey(new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000));
+}
+
+function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
+
+async function fetchFeedEvents(): Promise<FeedEvent[]> {
+  const { value } = await getOrSetMemoryCache('calendar-feed-events', FEED_EVENTS_TTL_MS, async () => {
+    const guides = '{ guides { nodes { id } } }';
+    const query = `query GetCalendarFeedEvents($first: Int!) { rideEvents(first: $first) { nodes { databaseId title link eventDetails { primaryType rideCategory eventDate rideTime workshopStartTime repeatingEvent repeatUntil recurrenceRule recurrenceExceptions meetingPoint { name street city } level1 ${guides} level2 ${guides} level2plus ${guides} level3 ${guides} gravelGuides { nodes { id } } } } } }`;
+    const response = await fetch(WP_GRAPHQL_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables: { first: FEED_MAX_EVENTS } }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) throw new Error(`WordPress query failed: ${response.status}`);
+    const json = await response.json();
+    if (json?.errors) throw new Error('WordPress query error');
+
+    const events: FeedEvent[] = [];
+    for (const node of json?.data?.rideEvents?.nodes ?? []) {
+      const details = node?.eventDetails ?? {};
+      const date = typeof details.eventDate === 'string' ? details.eventDate.split('T')[0] : null;
+      if (!node?.databaseId || !date) continue;
+      const type = normalizeEventType(details.primaryType);
+      const rawCategory = Array.isArray(details.rideCategory) ? details.rideCategory[0] : details.rideCategory;
+      const isGravel = type !== 'workshop' && String(rawCategory ?? '').toLowerCase().includes('gravel');
+      const levels =
+        type === 'workshop'
+          ? []
+          : isGravel
+            ? (details.gravelGuides?.nodes?.length ?? 0) > 0 ? ['gravel'] : []
+            : FEED_LEVEL_KEYS.filter((level) => (details[level]?.guides?.nodes?.length ?? 0) > 0);
+      const meetingPoint = details.meetingPoint ?? {};
+      events.push({
+        eventId: node.databaseId,
+        title: node.title || 'Kandie Gang Event',
+        link: node.link || null,
+        date,
+        time: details.workshopStartTime?.trim() || details.rideTime?.trim() || null,
+        location:
+          [meetingPoint.name, [meetingPoint.street, meetingPoint.city].filter(Boolean).join(', ')]
+            .filter(Boolean)
+            .join(', ') || null,
+        type,
+        levels,
+        recurrence: getEventRecurrence(details),
+      });
+    }
+    return events;
+  });
+  return value;
+}
+
+async function fetchLevelCancellations(
+  adminClient: SupabaseClient<any>,
+  eventIds: number[]
+): Promise<LevelCancellation[]> {
+  if (eventIds.length === 0) return [];
+  const { data, error } = await adminClient
+    .from('ride_level_cancellations')
+    .select('event_id, ride_level, occurrence_date, reason')
+    .in('event_id', eventIds);
+  if (error) {
+    console.warn('[event-calendar] Cancellations query failed:', error);
+    return [];
+  }
+  return (data ?? []) as LevelCancellation[];
+}
+
+function sendCalendar(res: VercelResponse, ics: string, cacheControl: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="kandie-gang.ics"');
+  res.setHeader('Cache-Control', cacheControl);
+  return res.status(200).send(ics);
+}
+
+async function handleCalendarFeed(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 30, keyPrefix: 'event-calendar' })))
+    return;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Calendar feed is not configured' });
+  }
+  const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  let events: FeedEvent[];
+  try {
+    events = await fetchFeedEvents();
+  } catch (err) {
+    console.error('[event-calendar] Event fetch error:', err);
+    return res.status(502).json({ error: 'Unable to load events' });
+  }
+  const from = feedWindowStart(new Date());
+  const cancellations = await fetchLevelCancellations(
+    adminClient,
+    events.map((event) => event.eventId)
+  );
+
+  const tokenRaw = req.query.token;
+  const token = (Array.isArray(tokenRaw) ? tokenRaw[0] : tokenRaw)?.trim();
+  if (!token) {
+    const filter = parseFeedFilter(req.query);
+    const entries = buildPublicFeedEntries(events, cancellations, filter, from);
+    const name = [
+      'Kandie Gang',
+      filter.level ? formatRideLevel(filter.level) : null,
+      filter.type ? `${filter.type}s` : 'rides',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return sendCalendar(
+      res,
+      generateIcsCalendar(entries, { name }),
+      'public, s-maxage=900, stale-while-revalidate=3600'
+    );
+  }
+
+  const { data: profile } = await adminClient
+    .from('profiles')
+    .select('id')
+    .eq('calendar_feed_token_hash', hashToken(token))
+    .maybeSingle();
+  if (!profile) return res.status(404).json({ error: 'Unknown calendar feed' });
+
+  const { data: registrations, error } = await adminClient
+    .from('registrations')
+    .select('event_id, ride_level, occurrence_date, is_waitlist, cancelled_at')
+    .eq('user_id', profile.id)
+    // Newest first, so a rider past the limit loses old rides from the feed, not upcoming ones.
+    .order('created_at', { ascending: false })
+    .limit(MY_RIDES_LIMIT);
+  if (error) {
+    console.error('[event-calendar] Registrations query error:', error);
+    return res.status(500).json({ error: 'Failed to load your rides' });
+  }
+  const eventsById = Object.fromEntries(events.map((event) => [event.eventId, event]));
+  const entries = buildPersonalFeedEntries(
+    (registrations ?? []) as FeedRegistration[],
+    eventsById,
+    cancellations,
+    from
+  );
+  return sendCalendar(res, generateIcsCalendar(entries, { name: 'My Kandie Gang rides' }), 'private, max-age=900');
+}
+
+async function handleCalendarFeedToken(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  if (!bearerToken) return res.status(401).json({ error: 'Authentication required' });
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+  const {
+    data: { user },
+    error: userError,
+  } = await anonClient.auth.getUser(bearerToken);
+  if (userError || !user) return res.status(401).json({ error: 'Invalid or expired token' });
+
+  const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  const body = req.body as { revoke?: boolean };
+  // Creating a new link always replaces the old one; only the hash is stored.
+  const token = body?.revoke ? null : crypto.randomBytes(24).toString('base64url');
+  const hash = token ? hashToken(token) : null;
+  const { error } = await adminClient
+    .from('profiles')
+    .update({
+      calendar_feed_token_hash: hash,
+      calendar_feed_token_created_at: hash ? new Date().toISOString() : null,
+    })
+    .eq('id', user.id);
+  if (error) {
+    console.error('[event-calendar] Token update error:', error);
+    return res.status(500).json({ error: 'Failed to update calendar link' });
+  }
+  if (!token) return res.status(200).json({ success: true });
+
+  const url = `${BASE_URL}/calendar/${token}.ics`;
+  return res.status(200).json({ success: true, url, webcalUrl: toWebcalUrl(url) });
+}
+
+// ─── Capacity handler (GET) ───────────────────────────────────────────────────
+async function handleCapacity(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 60, keyPrefix: 'event-capacity' })))
+    return;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Capacity lookup is not configured' });
+  }
+
+  const eventIdRaw = req.query.eventId;
+  const eventId = Array.isArray(eventIdRaw) ? eventIdRaw[0] : eventIdRaw;
+  const eventIdNumber = eventId ? Number(eventId) : NaN;
+
+  if (!eventId || Number.isNaN(eventIdNumber)) {
+    return res.status(400).json({ error: 'Missing or invalid eventId' });
+  }
+  const occurrenceDate = parseOccurrenceDate(req.query.occurrence);
+
+  try {
+    const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    await sweepExpiredWaitlistOffers(adminClient, { eventId: eventIdNumber });
+    // Now and then pass on lapsed offers of other events too; the cron only runs daily.
+    await sweepWaitlistOffersIfDue(adminClient);
+
+    const { data, error } = await scopeToOccurrence(
+      adminClient
+        .from('registrations')
+        .select('ride_level, is_waitlist, waitlist_offer_expires_at')
+        .eq('event_id', eventIdNumber)
+        .is('cancelled_at', null),
+      occurrenceDate
+    );
+
+    if (error) {
+      console.error('[event-capacity] Query error:', error);
+      return res.status(500).json({ error: error.message || 'Failed to load capacity' });
+    }
+
+    const counts: Record<string, number> = {};
+    const rows = Array.isArray(data) ? data : [];
+    rows.forEach((row) => {
+      // Spots held by an open waitlist offer are taken until the offer lapses
+      if (row.is_waitlist === true && !holdsOfferedSpot(row)) return;
+      const level =
+        typeof row.ride_level === 'string' && row.ride_level.trim() ? row.ride_level : 'workshop';
+      counts[level] = (counts[level] ?? 0) + 1;
+    });
+
+    let hasRegistrationCode = false;
+    try {
+      const access = await fetchEventAccessData(eventIdNumber);
+      hasRegistrationCode = Boolean(access?.registrationCode);
+    } catch {
+      // Non-fatal; capacity data is still useful without this
+    }
+
+    const planned = await fetchPlannedGuides(adminClient, eventIdNumber, occurrenceDate);
+
+    let waitlist: Record<string, WaitlistStanding> | undefined;
+    try {
+      waitlist = await getCallerWaitlistStandings(req, adminClient, eventIdNumber, occurrenceDate);
+    } catch (err) {
+      // Non-fatal; the caller just doesn't see their waitlist position
+      console.warn('[event-capacity] Waitlist standing failed:', err);
+    }
+
+    return res
+      .status(200)
+      .json({
+        eventId: eventIdNumber,
+        occurrenceDate,
+        total: rows.length,
+        counts,
+        hasRegistrationCode,
+        waitlist,
+        // Levels staffed by a published ride plan; the event page shows these guides instead
+        plannedGuides: planned?.guides ?? null,
+      });
+  } catch (err) {
+    console.error('[event-capacity] Error:', err);
+    return res.status(500).json({ error: 'Failed to load capacity' });
+  }
+}
+
+// ─── Signup handler (POST, action=signup) ─────────────────────────────────────
+type EventSignupBody = {
+  action?: string;
+  eventId?: string | number;
+  rideLevel?: string;
+  eventType?: string;
+  flintaAttested?: boolean;
+  eventTitle?: string;
+  eventUrl?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  turnstileToken?: string;
+  registrationCode?: string;
+  /** "YYYY-MM-DD" */
+  eventDate?: string;
+  /** "HH:MM" 24h */
+  eventTime?: string;
+  /** Human-readable meeting point */
+  eventLocation?: string;
+  /** "YYYY-MM-DD" — required for recurring series, one registration per occurrence */
+  occurrenceDate?: string;
+  /** Waiver version the rider accepted in the signup form; must be the current one */
+  waiverVersion?: string;
+};
+
+function isMissingFlintaColumnError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const err = error as { code?: string; message?: string; details?: string; hint?: string };
+  const code = (err.code || '').toUpperCase();
+  if (code === 'PGRST204' || code === '42703') return true;
+  const text = `${err.message || ''} ${err.details || ''} ${err.hint || ''}`.toLowerCase();
+  return text.includes('flinta_attested') && (text.includes('column') || text.includes('schema'));
+}
+
+async function handleSignup(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 20, keyPrefix: 'event-signup' })))
+    return;
+
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  const isGuestSignup = !token;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  if (!SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Event signup is not configured' });
+  }
+
+  const body = req.body as EventSignupBody;
+  const eventIdRaw = body?.eventId;
+  const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel : null;
   const eventType = typeof body?.eventType === 'string' ? body.eventType : null;
   const eventTitle =
     typeof body?.eventTitle === 'string' ? body.eventTitle.trim() : 'Kandie Gang Event';
@@ -907,6 +1774,7 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
   const guestEmail = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
   const turnstileToken = typeof body?.turnstileToken === 'string' ? body.turnstileToken : '';
   const eventId = typeof eventIdRaw === 'string' ? Number(eventIdRaw) : eventIdRaw;
+  const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
   if (!eventId || Number.isNaN(eventId as number)) {
     return res.status(400).json({ error: 'Missing or invalid eventId' });
@@ -924,6 +1792,12 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
   if (eventTitle.length > 200) {
     return res.status(400).json({ error: 'Event title is too long (max 200 characters)' });
   }
+  if (!isCurrentWaiverVersion(body?.waiverVersion)) {
+    return res.status(400).json({
+      error: 'Please accept the current ride waiver to sign up.',
+      waiverVersion: CURRENT_WAIVER_VERSION,
+    });
+  }
 
   if (isGuestSignup) {
     if (!guestEmail) return res.status(400).json({ error: 'Email is required for guest signup' });
@@ -934,7 +1808,7 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
     if (guestEmail.length > 255) {
       return res.status(400).json({ error: 'Email is too long (max 255 characters)' });
     }
-    if (TURNSTILE_SECRET_KEY && !turnstileToken) {
+    if (isTurnstileRequired() && !turnstileToken) {
       return res.status(400).json({ error: 'Bot verification required' });
     }
     if (turnstileToken) {
@@ -956,6 +1830,7 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
     let userId: string | null = null;
     let userEmail: string | null = null;
     let isMember = false;
+    let memberProfile: TieredMembershipLike = null;
 
     if (isGuestSignup) {
       userEmail = guestEmail;
@@ -970,7 +1845,7 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
       userId = user.id;
       const { data: profile, error: profileError } = await adminClient
         .from('profiles')
-        .select('is_member, email')
+        .select('is_member, membership_expiration, stripe_subscription_status, membership_tier, email')
         .eq('id', user.id)
         .single();
       if (profileError) {
@@ -978,6 +1853,7 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
         return res.status(500).json({ error: 'Failed to verify membership' });
       }
       isMember = hasActiveMembership(profile);
+      memberProfile = profile;
       userEmail = profile?.email ?? user.email ?? null;
     }
 
@@ -991,6 +1867,15 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
     }
     if (!access) return res.status(404).json({ error: 'Event not found' });
 
+    const occurrenceError = validateOccurrence(access, occurrenceDate);
+    if (occurrenceError) return res.status(400).json({ error: occurrenceError });
+
+    // A published ride plan sets the guides (and so the places) of the levels it covers
+    const planned = await fetchPlannedGuides(adminClient, eventId as number, occurrenceDate);
+    if (planned) {
+      access = { ...access, guideCounts: { ...access.guideCounts, ...plannedGuideCounts(planned.guides) } };
+    }
+
     const isFlintaOnly = Boolean(access.isFlintaOnly);
     if (isFlintaOnly && !flintaAttested) {
       return res.status(403).json({ error: 'This event is FLINTA only.' });
@@ -1007,12 +1892,29 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
       }
     }
 
+    const noShowPolicy = getNoShowPolicy();
+    const noShowRestriction: NoShowRestriction | null = await fetchNoShowRestriction(
+      adminClient,
+      { userId, email: userEmail },
+      noShowPolicy
+    );
+
     const now = new Date();
-    const releaseDate = access.publicReleaseDate ? new Date(access.publicReleaseDate) : null;
+    // Each occurrence opens with the same lead time as the first ride of the series.
+    const releaseDateRaw =
+      access.publicReleaseDate && access.recurrence && occurrenceDate
+        ? shiftToOccurrence(access.publicReleaseDate, access.recurrence.startDate, occurrenceDate)
+        : access.publicReleaseDate;
+    const releaseDate = releaseDateRaw ? new Date(releaseDateRaw) : null;
     const hasReleaseDate = Boolean(releaseDate && !Number.isNaN(releaseDate.getTime()));
     if (hasReleaseDate && releaseDate) {
       const isPublic = now >= releaseDate;
-      const inMemberWindow = isWithinWindow(now, releaseDate, MEMBER_EARLY_DAYS);
+      // Members open at their tier's early access; for everyone else the longest member window.
+      const inMemberWindow = isWithinWindow(
+        now,
+        releaseDate,
+        memberEarlyAccessDays(memberProfile, MEMBER_EARLY_DAYS)
+      );
       const inFlintaWindow = isWithinWindow(now, releaseDate, FLINTA_EARLY_DAYS);
       if (!isPublic) {
         if (inMemberWindow && !isMember && !flintaAttested) {
@@ -1024,15 +1926,25 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
         if (!inMemberWindow && !inFlintaWindow) {
           return res.status(403).json({ error: 'Registration and waitlist are not open yet.' });
         }
+        // Early access is the privilege a no-show restriction takes away.
+        if (noShowRestriction?.penalty === 'early-access' && noShowPolicy) {
+          return res.status(403).json({
+            error: describeNoShowRestriction(noShowRestriction, noShowPolicy),
+            noShowRestrictedUntil: noShowRestriction.until,
+          });
+        }
       }
     }
 
-    let existingQuery = adminClient
-      .from('registrations')
-      .select('id, is_waitlist')
-      .eq('event_id', eventId)
-      .eq('ride_level', rideLevel)
-      .is('cancelled_at', null);
+    let existingQuery = scopeToOccurrence(
+      adminClient
+        .from('registrations')
+        .select('id, is_waitlist')
+        .eq('event_id', eventId)
+        .eq('ride_level', rideLevel)
+        .is('cancelled_at', null),
+      occurrenceDate
+    );
     if (userId) {
       existingQuery = existingQuery.eq('user_id', userId);
     } else {
@@ -1059,63 +1971,120 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
       last_name: lastName,
       flinta_attested: flintaAttested,
     };
+    if (occurrenceDate) insertPayload.occurrence_date = occurrenceDate;
 
+    await sweepWaitlistOffersIfDue(adminClient);
     const capacity = getCapacityForLevel(rideLevel, access);
-    let waitlisted = false;
+    let taken: number | null = null;
     if (capacity != null) {
-      const { count, error: countError } = await adminClient
-        .from('registrations')
-        .select('id', { count: 'exact', head: true })
-        .eq('event_id', eventId)
-        .eq('ride_level', rideLevel)
-        .or('is_waitlist.is.null,is_waitlist.eq.false')
-        .is('cancelled_at', null);
+      // Lapse stale offers first so their held spots go to the waitlist, not to this signup.
+      await sweepExpiredWaitlistOffers(adminClient, { eventId: Number(eventId) });
+      const { count, error: countError } = await scopeToOccurrence(
+        adminClient
+          .from('registrations')
+          .select('id', { count: 'exact', head: true })
+          .eq('event_id', eventId)
+          .eq('ride_level', rideLevel)
+          .or(
+            `is_waitlist.is.null,is_waitlist.eq.false,waitlist_offer_expires_at.gt.${now.toISOString()}`
+          )
+          .is('cancelled_at', null),
+        occurrenceDate
+      );
       if (countError) {
         console.error('Event signup capacity error:', countError);
         return res.status(500).json({ error: 'Unable to verify capacity' });
       }
-      if (typeof count === 'number' && count >= capacity) waitlisted = true;
+      taken = count;
     }
+    const waitlisted = joinsWaitlist(capacity, taken, noShowRestriction);
 
     insertPayload.is_waitlist = waitlisted;
     if (waitlisted) insertPayload.waitlist_joined_at = new Date().toISOString();
 
-    let { error: insertError } = await adminClient.from('registrations').insert(insertPayload);
+    let { data: inserted, error: insertError } = await adminClient
+      .from('registrations')
+      .insert(insertPayload)
+      .select('id')
+      .single();
     if (insertError && isMissingFlintaColumnError(insertError)) {
       delete insertPayload.flinta_attested;
-      const fallbackInsert = await adminClient.from('registrations').insert(insertPayload);
+      const fallbackInsert = await adminClient
+        .from('registrations')
+        .insert(insertPayload)
+        .select('id')
+        .single();
+      inserted = fallbackInsert.data;
       insertError = fallbackInsert.error;
     }
 
-    if (insertError) {
+    if (insertError || !inserted) {
       console.error('Event signup insert error:', insertError);
-      return res.status(500).json({ error: insertError.message || 'Failed to save signup' });
+      return res.status(500).json({ error: insertError?.message || 'Failed to save signup' });
+    }
+
+    // Insurance needs proof of acceptance for every participant: no record, no registration.
+    const { error: waiverError } = await adminClient.from('waiver_acceptances').insert({
+      waiver_version: CURRENT_WAIVER_VERSION,
+      registration_id: inserted.id,
+      event_id: eventId,
+      ride_level: rideLevel,
+      occurrence_date: occurrenceDate,
+      user_id: userId,
+      email: userEmail,
+      first_name: firstName,
+      last_name: lastName,
+      ip_address: getClientIp(req),
+      user_agent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'].slice(0, 500) : null,
+    });
+    if (waiverError) {
+      console.error('Event signup waiver acceptance error:', waiverError);
+      await adminClient.from('registrations').delete().eq('id', inserted.id);
+      return res.status(500).json({ error: 'Failed to record waiver acceptance' });
+    }
+
+    let waitlist: WaitlistStanding | null = null;
+    if (waitlisted) {
+      try {
+        waitlist = await getWaitlistStanding(adminClient, {
+          eventId: Number(eventId),
+          rideLevel,
+          occurrenceDate,
+          registrationId: inserted.id,
+        });
+      } catch (err) {
+        console.warn('[event-signup] Waitlist standing failed:', err);
+      }
     }
 
     if (RESEND_API_KEY && userEmail) {
       try {
         const resend = new Resend(RESEND_API_KEY);
         const cancelUrl = `${BASE_URL}/event/cancel?token=${encodeURIComponent(cancelToken)}`;
+        const emailTitle = formatOccurrenceTitle(eventTitle, occurrenceDate);
+        const calendarDate = occurrenceDate ?? eventDate;
         const html = waitlisted
-          ? buildWaitlistHtml(eventTitle, rideLevel, eventUrl).replace('{{CANCEL_URL}}', cancelUrl)
-          : buildConfirmationHtml(eventTitle, rideLevel, eventUrl).replace('{{CANCEL_URL}}', cancelUrl);
+          ? buildWaitlistHtml(emailTitle, rideLevel, eventUrl, waitlist).replace('{{CANCEL_URL}}', cancelUrl)
+          : buildConfirmationHtml(emailTitle, rideLevel, eventUrl).replace('{{CANCEL_URL}}', cancelUrl);
         const text = waitlisted
-          ? buildWaitlistText(eventTitle, rideLevel).replace('{{CANCEL_URL}}', cancelUrl)
-          : buildConfirmationText(eventTitle, rideLevel).replace('{{CANCEL_URL}}', cancelUrl);
+          ? buildWaitlistText(emailTitle, rideLevel, waitlist).replace('{{CANCEL_URL}}', cancelUrl)
+          : buildConfirmationText(emailTitle, rideLevel).replace('{{CANCEL_URL}}', cancelUrl);
 
         // Attach ICS calendar file for confirmed (non-waitlist) signups only
         const attachments =
-          !waitlisted && eventDate
+          !waitlisted && calendarDate
             ? [
                 {
                   filename: 'kandie-gang-event.ics',
                   content: Buffer.from(
                     generateIcs({
                       title: `${eventTitle} – ${formatRideLevel(rideLevel)}`,
-                      date: eventDate,
+                      date: calendarDate,
                       time: eventTime,
                       location: eventLocation,
                       description: eventUrl,
+                      // Same UID as the personal calendar feed, so subscribers don't get a duplicate
+                      uid: rideUid(Number(eventId), occurrenceDate, rideLevel),
                     })
                   ).toString('base64'),
                   content_type: 'text/calendar',
@@ -1136,7 +2105,18 @@ async function handleSignup(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    return res.status(200).json({ success: true, waitlisted });
+    return res.status(200).json({
+      success: true,
+      waitlisted,
+      waitlist,
+      noShowRestriction:
+        noShowRestriction && noShowPolicy
+          ? {
+              until: noShowRestriction.until,
+              message: describeNoShowRestriction(noShowRestriction, noShowPolicy),
+            }
+          : null,
+    });
   } catch (err) {
     console.error('event-signup error:', err);
     return res.status(500).json({ error: 'Failed to save signup' });
@@ -1163,10 +2143,16 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
       return res.status(500).json({ error: 'Event cancellation is not configured' });
     }
 
-    const body = req.body as { action?: string; eventId?: string | number; rideLevel?: string };
+    const body = req.body as {
+      action?: string;
+      eventId?: string | number;
+      rideLevel?: string;
+      occurrenceDate?: string;
+    };
     const eventIdRaw = body?.eventId;
     const rideLevel = typeof body?.rideLevel === 'string' ? body.rideLevel : null;
     const eventId = typeof eventIdRaw === 'string' ? Number(eventIdRaw) : eventIdRaw;
+    const occurrenceDate = parseOccurrenceDate(body?.occurrenceDate);
 
     if (!eventId || Number.isNaN(eventId as number)) {
       return res.status(400).json({ error: 'Missing or invalid eventId' });
@@ -1187,14 +2173,17 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
         auth: { autoRefreshToken: false, persistSession: false },
       });
 
-      const { data, error } = await adminClient
-        .from('registrations')
-        .update({ cancelled_at: new Date().toISOString() })
-        .eq('event_id', Number(eventId))
-        .eq('ride_level', rideLevel)
-        .eq('user_id', user.id)
-        .is('cancelled_at', null)
-        .select('id, is_waitlist, cancel_token_hash')
+      const { data, error } = await scopeToOccurrence(
+        adminClient
+          .from('registrations')
+          .update({ cancelled_at: new Date().toISOString() })
+          .eq('event_id', Number(eventId))
+          .eq('ride_level', rideLevel)
+          .eq('user_id', user.id)
+          .is('cancelled_at', null),
+        occurrenceDate
+      )
+        .select('id, is_waitlist, waitlist_offer_expires_at')
         .limit(1)
         .maybeSingle();
 
@@ -1206,60 +2195,12 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
         return res.status(404).json({ error: 'Registration not found or already cancelled' });
       }
 
-      if (data.is_waitlist !== true) {
-        const { data: nextInLine } = await adminClient
-          .from('registrations')
-          .select('id, user_id, email, ride_level')
-          .eq('event_id', Number(eventId))
-          .eq('ride_level', rideLevel)
-          .eq('is_waitlist', true)
-          .is('cancelled_at', null)
-          .order('waitlist_joined_at', { ascending: true })
-          .limit(1)
-          .maybeSingle();
-
-        if (nextInLine) {
-          const { token: newCancelToken, hash: newCancelTokenHash } = createCancelToken();
-          await adminClient
-            .from('registrations')
-            .update({
-              is_waitlist: false,
-              waitlist_promoted_at: new Date().toISOString(),
-              cancel_token_hash: newCancelTokenHash,
-              cancel_token_issued_at: new Date().toISOString(),
-            })
-            .eq('id', nextInLine.id);
-
-          if (RESEND_API_KEY) {
-            try {
-              const resend = new Resend(RESEND_API_KEY);
-              let recipientEmail: string | null = null;
-              if (nextInLine.email) {
-                recipientEmail = nextInLine.email;
-              } else if (nextInLine.user_id) {
-                const { data: profile } = await adminClient
-                  .from('profiles')
-                  .select('email')
-                  .eq('id', nextInLine.user_id)
-                  .single();
-                recipientEmail = profile?.email ?? null;
-              }
-              if (recipientEmail) {
-                const eventTitle = await fetchEventTitle(Number(eventId));
-                const cancelUrl = `${BASE_URL}/event/cancel?token=${encodeURIComponent(newCancelToken)}`;
-                await resend.emails.send({
-                  from: FROM_EMAIL,
-                  to: recipientEmail,
-                  subject: 'A spot opened up for your event',
-                  html: buildPromotedHtml(eventTitle, nextInLine.ride_level, cancelUrl),
-                  text: buildPromotedText(eventTitle, nextInLine.ride_level, cancelUrl),
-                });
-              }
-            } catch (emailErr) {
-              console.warn('Waitlist promotion email failed:', emailErr);
-            }
-          }
-        }
+      if (data.is_waitlist !== true || holdsOfferedSpot(data)) {
+        await offerNextWaitlistSpot(adminClient, {
+          eventId: Number(eventId),
+          rideLevel,
+          occurrenceDate,
+        });
       }
 
       return res.status(200).json({ success: true });
@@ -1293,7 +2234,7 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
       .update({ cancelled_at: new Date().toISOString() })
       .eq('cancel_token_hash', tokenHash)
       .is('cancelled_at', null)
-      .select('id, event_id, ride_level')
+      .select('id, event_id, ride_level, occurrence_date, is_waitlist, waitlist_offer_expires_at')
       .limit(1)
       .maybeSingle();
 
@@ -1305,60 +2246,12 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Cancellation link is invalid or already used' });
     }
 
-    if (data?.event_id && data?.ride_level) {
-      const { data: nextInLine } = await adminClient
-        .from('registrations')
-        .select('id, user_id, email, ride_level')
-        .eq('event_id', data.event_id)
-        .eq('ride_level', data.ride_level)
-        .eq('is_waitlist', true)
-        .is('cancelled_at', null)
-        .order('waitlist_joined_at', { ascending: true })
-        .limit(1)
-        .maybeSingle();
-
-      if (nextInLine) {
-        const { token: newCancelToken, hash: newCancelTokenHash } = createCancelToken();
-        await adminClient
-          .from('registrations')
-          .update({
-            is_waitlist: false,
-            waitlist_promoted_at: new Date().toISOString(),
-            cancel_token_hash: newCancelTokenHash,
-            cancel_token_issued_at: new Date().toISOString(),
-          })
-          .eq('id', nextInLine.id);
-
-        if (RESEND_API_KEY) {
-          try {
-            const resend = new Resend(RESEND_API_KEY);
-            let recipientEmail: string | null = null;
-            if (nextInLine.email) {
-              recipientEmail = nextInLine.email;
-            } else if (nextInLine.user_id) {
-              const { data: profile } = await adminClient
-                .from('profiles')
-                .select('email')
-                .eq('id', nextInLine.user_id)
-                .single();
-              recipientEmail = profile?.email ?? null;
-            }
-            if (recipientEmail) {
-              const eventTitle = await fetchEventTitle(Number(data.event_id));
-              const cancelUrl = `${BASE_URL}/event/cancel?token=${encodeURIComponent(newCancelToken)}`;
-              await resend.emails.send({
-                from: FROM_EMAIL,
-                to: recipientEmail,
-                subject: 'A spot opened up for your event',
-                html: buildPromotedHtml(eventTitle, nextInLine.ride_level, cancelUrl),
-                text: buildPromotedText(eventTitle, nextInLine.ride_level, cancelUrl),
-              });
-            }
-          } catch (emailErr) {
-            console.warn('Waitlist promotion email failed:', emailErr);
-          }
-        }
-      }
+    if (data.event_id && data.ride_level && (data.is_waitlist !== true || holdsOfferedSpot(data))) {
+      await offerNextWaitlistSpot(adminClient, {
+        eventId: Number(data.event_id),
+        rideLevel: data.ride_level,
+        occurrenceDate: data.occurrence_date ?? null,
+      });
     }
 
     return res.status(200).json({ success: true });
@@ -1368,17 +2261,64 @@ async function handleCancel(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// ─── Waitlist offer claim (POST, action=claim-offer) ─────────────────────────
+async function handleClaimOffer(req: VercelRequest, res: VercelResponse) {
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 20, keyPrefix: 'event-claim' })))
+    return;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ error: 'Waitlist offers are not configured' });
+  }
+
+  const body = req.body as { action?: string; token?: string };
+  const token = typeof body?.token === 'string' ? body.token.trim() : '';
+  if (!token) return res.status(400).json({ error: 'Missing claim token' });
+
+  try {
+    const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const result = await claimWaitlistOffer(adminClient, token);
+    if (result.status === 'expired') {
+      return res
+        .status(410)
+        .json({ error: 'This offer has expired and was passed on to the next rider.' });
+    }
+    if (result.status === 'invalid') {
+      return res.status(404).json({ error: 'Claim link is invalid or already used' });
+    }
+    return res.status(200).json({
+      success: true,
+      eventId: result.eventId,
+      rideLevel: result.rideLevel,
+      occurrenceDate: result.occurrenceDate,
+    });
+  } catch (err) {
+    console.error('event-claim-offer error:', err);
+    return res.status(500).json({ error: 'Failed to claim spot' });
+  }
+}
+
 // ─── Main handler ─────────────────────────────────────────────────────────────
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method === 'GET') return handleCapacity(req, res);
+  if (req.method === 'GET') {
+    if (req.query.view === 'routes') return handleRoutes(req, res);
+    if (req.query.view === 'my-rides') return handleMyRides(req, res);
+    if (req.query.view === 'calendar') return handleCalendarFeed(req, res);
+    return handleCapacity(req, res);
+  }
   if (req.method === 'POST') {
     const action = (req.body as Record<string, unknown>)?.action;
     if (action === 'signup') return handleSignup(req, res);
     if (action === 'cancel') return handleCancel(req, res);
+    if (action === 'claim-offer') return handleClaimOffer(req, res);
     if (action === 'guide-cancel-level') return handleGuideCancelLevel(req, res);
     if (action === 'guide-message-participants') return handleGuideMessageParticipants(req, res);
     if (action === 'guide-checkin') return handleGuideCheckIn(req, res);
     if (action === 'guide-finalize-attendance') return handleGuideFinalizeAttendance(req, res);
+    if (action === 'guide-export-roster') return handleGuideExportRoster(req, res);
+    if (action === 'guide-emergency-info') return handleGuideEmergencyInfo(req, res);
+    if (action === 'calendar-feed-token') return handleCalendarFeedToken(req, res);
     return res.status(400).json({ error: 'Invalid or missing action' });
   }
   return res.status(405).json({ error: 'Method not allowed' });
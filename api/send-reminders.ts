@@ -2,10 +2,25 @@
 // Runs once daily at 07:00 UTC via Vercel Cron. The 17–41h window covers all
 // events starting anytime the following calendar day. The reminder_sent_at
 // guard ensures each participant receives exactly one reminder per registration.
+// Registrations for a recurring series carry their own occurrence_date, which
+// takes precedence over the series' first eventDate.
+// The same run sweeps lapsed waitlist claim offers (see lib/waitlistOffers.ts) as a
+// backstop for the lazy sweeps done by api/event.ts, and emails back-in-stock sign-ups whose
+// variant is available again (see lib/stockNotifications.ts), which picks up WordPress restocks.
+// It also opens the guide planning weeks each ride slot needs (see lib/rideSlots.ts) and closes
+// guide swap requests nobody took before the ride (see lib/guideSwaps.ts).
+// With ?job=membership (second cron, 08:00 UTC) it sends membership renewal reminders and
+// failed-payment emails instead (see lib/membershipRenewals.ts).
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
 import crypto from 'crypto';
+import { sweepExpiredWaitlistOffers } from '../lib/waitlistOffers.js';
+import { sendMembershipEmails } from '../lib/membershipRenewals.js';
+import { getStockLevels } from '../lib/stockLedger.js';
+import { notifyRestockedVariants } from '../lib/stockNotifications.js';
+import { openRidePlanWeeks } from '../lib/rideSlots.js';
+import { closeExpiredSwapRequests } from '../lib/guideSwaps.js';
 
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -174,18 +189,56 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     auth: { autoRefreshToken: false, persistSession: false },
   });
 
+  if (req.query.job === 'membership') {
+    try {
+      return res.status(200).json(await sendMembershipEmails(adminClient));
+    } catch (err) {
+      console.error('[send-reminders] Membership emails failed:', err);
+      return res.status(500).json({ error: 'Membership email job failed' });
+    }
+  }
+
+  let offersLapsed = 0;
+  try {
+    offersLapsed = await sweepExpiredWaitlistOffers(adminClient);
+  } catch (err) {
+    console.error('[send-reminders] Waitlist offer sweep failed:', err);
+  }
+
+  let restockEmails = 0;
+  try {
+    const stock = await getStockLevels(adminClient);
+    if (stock) restockEmails = (await notifyRestockedVariants(adminClient, stock, BASE_URL)).sent;
+  } catch (err) {
+    console.error('[send-reminders] Back-in-stock emails failed:', err);
+  }
+
+  let planWeeksOpened = 0;
+  try {
+    planWeeksOpened = await openRidePlanWeeks(adminClient, utcDateOffset(0));
+  } catch (err) {
+    console.error('[send-reminders] Opening planning weeks failed:', err);
+  }
+
+  let swapRequestsClosed = 0;
+  try {
+    swapRequestsClosed = await closeExpiredSwapRequests(adminClient, utcDateOffset(0));
+  } catch (err) {
+    console.error('[send-reminders] Closing swap requests failed:', err);
+  }
+
   try {
     // Fetch all confirmed, non-reminded registrations
     const { data: registrations, error: regError } = await adminClient
       .from('registrations')
-      .select('id, event_id, ride_level, user_id, email, first_name, cancel_token_hash')
+      .select('id, event_id, ride_level, user_id, email, first_name, cancel_token_hash, occurrence_date')
       .eq('is_waitlist', false)
       .is('cancelled_at', null)
       .is('reminder_sent_at', null);
 
     if (regError) throw regError;
     if (!registrations || registrations.length === 0) {
-      return res.status(200).json({ sent: 0, message: 'No pending reminders' });
+      return res.status(200).json({ sent: 0, offersLapsed, restockEmails, planWeeksOpened, swapRequestsClosed, message: 'No pending reminders' });
     }
 
     // Get unique event IDs and fetch their dates from WordPress
@@ -195,23 +248,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Filter to events happening tomorrow: compare calendar dates in UTC so the
     // check is immune to the exact time the cron fires.
     const tomorrowUtc = utcDateOffset(1);
+    const rideDateOf = (reg: { event_id: number | string; occurrence_date: string | null }) =>
+      reg.occurrence_date ?? wpMeta[Number(reg.event_id)]?.date ?? '';
 
-    const qualifyingEventIds = new Set(
-      eventIds.filter((id) => {
-        const meta = wpMeta[id];
-        return meta?.date === tomorrowUtc;
-      })
+    const qualifying = registrations.filter(
+      (r) => wpMeta[Number(r.event_id)] && rideDateOf(r) === tomorrowUtc
     );
+    const qualifyingEventIds = new Set(qualifying.map((r) => Number(r.event_id)));
 
-    if (qualifyingEventIds.size === 0) {
-      return res.status(200).json({ sent: 0, message: 'No events in reminder window' });
+    if (qualifying.length === 0) {
+      return res.status(200).json({ sent: 0, offersLapsed, restockEmails, planWeeksOpened, swapRequestsClosed, message: 'No events in reminder window' });
     }
 
     // Resolve emails for authenticated users via profiles
     const userIds = [
       ...new Set(
-        registrations
-          .filter((r) => qualifyingEventIds.has(Number(r.event_id)) && r.user_id && !r.email)
+        qualifying
+          .filter((r) => r.user_id && !r.email)
           .map((r) => r.user_id as string)
       ),
     ];
@@ -229,11 +282,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     let failed = 0;
     const now_iso = new Date().toISOString();
 
-    for (const reg of registrations) {
-      const eventId = Number(reg.event_id);
-      if (!qualifyingEventIds.has(eventId)) continue;
-
-      const meta = wpMeta[eventId];
+    for (const reg of qualifying) {
+      const meta = wpMeta[Number(reg.event_id)];
+      const rideDate = rideDateOf(reg);
       const toEmail: string | null = reg.email ?? (reg.user_id ? (profileEmails[reg.user_id] ?? null) : null);
       if (!toEmail) continue;
 
@@ -262,9 +313,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         await resend.emails.send({
           from: FROM_EMAIL,
           to: toEmail,
-          subject: `Reminder: ${meta.title} is ${eventTimingLabel(meta.date)}`,
-          html: buildReminderHtml(reg.first_name, meta.title, reg.ride_level, meta.date, eventUrl, cancelUrl, eventTimingLabel(meta.date)),
-          text: buildReminderText(reg.first_name, meta.title, reg.ride_level, meta.date, eventUrl, cancelUrl, eventTimingLabel(meta.date)),
+          subject: `Reminder: ${meta.title} is ${eventTimingLabel(rideDate)}`,
+          html: buildReminderHtml(reg.first_name, meta.title, reg.ride_level, rideDate, eventUrl, cancelUrl, eventTimingLabel(rideDate)),
+          text: buildReminderText(reg.first_name, meta.title, reg.ride_level, rideDate, eventUrl, cancelUrl, eventTimingLabel(rideDate)),
         });
         sent++;
       } catch (emailErr) {
@@ -275,7 +326,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    return res.status(200).json({ sent, failed, eventsInWindow: qualifyingEventIds.size });
+    return res.status(200).json({ sent, failed, offersLapsed, restockEmails, planWeeksOpened, swapRequestsClosed, eventsInWindow: qualifyingEventIds.size });
   } catch (err) {
     console.error('[send-reminders] Error:', err);
     return res.status(500).json({ error: 'Reminder job failed' });
@@ -1,25 +1,87 @@
-// Combined Stripe API: checkout session (POST action=checkout), portal session (POST action=portal)
+// Combined Stripe API: checkout session (POST action=checkout), portal session (POST action=portal),
+// gift membership redemption (POST action=redeem-gift), households (POST action=household,
+// household-invite, household-accept, household-remove, household-revoke), shop stock levels
+// (GET view=stock), the caller's shop orders (GET view=orders), invoice PDFs (GET view=invoice),
+// back-in-stock sign-ups (POST action=notify-stock, action=stock-unsubscribe)
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Stripe from 'stripe';
+import crypto from 'crypto';
 import { createClient } from '@supabase/supabase-js';
+import { hasActiveMembership } from '../lib/membership.js';
+import { getMembershipPerks, membershipTierForPrice } from '../lib/membershipTiers.js';
+import {
+  acceptHouseholdInvite,
+  createHouseholdInvite,
+  getHousehold,
+  removeHouseholdMember,
+  revokeHouseholdInvite,
+} from '../lib/households.js';
+import { sendHouseholdInviteEmail, sendMemberWelcomeEmail } from '../lib/memberWelcomeEmail.js';
+import { getVariantStripePriceId } from '../lib/products.js';
+import { fetchShopCatalog } from '../lib/shopCatalog.js';
+import { listCustomerOrders } from '../lib/shopOrders.js';
+import { getShopInvoice } from '../lib/invoices.js';
+import { renderInvoicePdf } from '../lib/invoicePdf.js';
+import {
+  CLUB_MEMBERSHIP_SLUG,
+  GIFT_MEMBERSHIP_SLUG,
+  calculateShippingCents,
+  getShippingRate,
+  isClubMembershipOnly,
+  shippingCountries,
+} from '../lib/shipping.js';
+import {
+  GIFT_MESSAGE_FIELD,
+  GIFT_RECIPIENT_EMAIL_FIELD,
+  isPlausibleEmail,
+  redeemGiftMembership,
+} from '../lib/giftMemberships.js';
+import {
+  describeCampaignBlock,
+  describeCampaignLimit,
+  getCampaignAccess,
+  linkCampaignPurchases,
+  remainingCampaignAllowance,
+  reserveCampaignPurchases,
+  settleCampaignPurchases,
+  type CampaignPurchaseItem,
+  type ReserveCampaignResult,
+  type ShopCampaign,
+} from '../lib/shopCampaigns.js';
+import {
+  checkoutSessionExpiry,
+  describeStockShortages,
+  linkStockReservation,
+  readStockLevels,
+  releaseStock,
+  reserveStock,
+  type ReserveStockResult,
+} from '../lib/stockLedger.js';
+import {
+  createStockNotification,
+  findCatalogVariant,
+  unsubscribeStockNotifications,
+} from '../lib/stockNotifications.js';
+import { checkRateLimit, getClientIp } from '../lib/rateLimit.js';
+import { isTurnstileRequired, verifyTurnstile } from '../lib/turnstile.js';
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://kandiegang.com';
+/** Limited drops are not sold while the member's limit cannot be checked. */
+const CAMPAIGN_LIMIT_UNAVAILABLE = 'Could not check the drop limit right now. Please try again.';
+const STOCK_UNAVAILABLE = 'Could not check stock right now. Please try again.';
 
 const stripe = stripeSecretKey
   ? new Stripe(stripeSecretKey, { apiVersion: '2026-01-28.clover' })
   : null;
 
-const CLUB_MEMBERSHIP_SLUG = 'kandie-gang-cycling-club-membership';
-function isClubMembershipOnly<T extends { productSlug: string }>(items: T[]): boolean {
-  return items.length > 0 && items.every((i) => i.productSlug === CLUB_MEMBERSHIP_SLUG);
-}
-
-const STICKER_SET_SLUG = 'kandie-gang-sticker-set';
-function isStickerSetOnly<T extends { productSlug: string }>(items: T[]): boolean {
-  return items.length > 0 && items.every((i) => i.productSlug === STICKER_SET_SLUG);
+function getAdminClient() {
+  if (!supabaseUrl || !supabaseServiceKey) return null;
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
 }
 
 type LineItemInput = {
@@ -43,6 +105,49 @@ function isLineItemInput(x: unknown): x is LineItemInput {
   );
 }
 
+type CheckoutCustomer = {
+  userId: string | null;
+  isMember: boolean;
+  /** Tier perks (lib/membershipTiers.ts): member prices and members-only products. */
+  memberPrices: boolean;
+  membersOnlyContent: boolean;
+};
+
+/**
+ * Who is checking out, from the Supabase access token. Anonymous callers pay public prices;
+ * null means a token was sent but is no longer valid.
+ */
+async function getCheckoutCustomer(req: VercelRequest): Promise<CheckoutCustomer | null> {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  const adminClient = getAdminClient();
+  if (!token || !adminClient) {
+    return { userId: null, isMember: false, memberPrices: false, membersOnlyContent: false };
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await adminClient.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .select('is_member, membership_expiration, stripe_subscription_status, membership_tier')
+    .eq('id', user.id)
+    .maybeSingle();
+  if (profileError) {
+    console.error('[stripe-checkout] Failed to load profile for member pricing:', profileError);
+  }
+  const perks = getMembershipPerks(profile);
+  return {
+    userId: user.id,
+    isMember: hasActiveMembership(profile),
+    memberPrices: perks?.memberShopPrices === true,
+    membersOnlyContent: perks?.membersOnlyContent === true,
+  };
+}
+
 function stripeErrorMessage(err: unknown): string {
   if (err && typeof err === 'object' && 'type' in err) {
     const stripeErr = err as { type?: string; code?: string; message?: string };
@@ -68,7 +173,7 @@ async function handleCheckout(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (!stripe) {
     return sendResponse(500, {
@@ -119,10 +224,104 @@ async function handleCheckout(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    const customer = await getCheckoutCustomer(req);
+    if (!customer) {
+      return sendResponse(401, { error: 'Your session has expired. Please log in again.' });
+    }
+
+    // Re-derive each line's price from WordPress: members whose tier has member prices get the
+    // member price where there is one, everyone else the public price, whatever the basket sent.
+    const catalog = await fetchShopCatalog();
+    if (catalog.size === 0) {
+      return sendResponse(503, {
+        error: 'The shop is temporarily unavailable. Please try again in a moment.',
+      });
+    }
+    for (const item of lineItems) {
+      const entry = catalog.get(item.priceId);
+      if (!entry) {
+        return sendResponse(400, {
+          error: `${item.productTitle} is no longer available. Please remove it from your basket.`,
+        });
+      }
+      if (entry.membersOnly && !customer.membersOnlyContent) {
+        return sendResponse(403, { error: `${item.productTitle} is only available to members.` });
+      }
+      item.priceId = getVariantStripePriceId(entry, customer.memberPrices);
+      // The slug decides shipping, membership grants and gifts: take it from WordPress too.
+      if (entry.slug) item.productSlug = entry.slug;
+    }
+
+    // The membership price bought decides the tier the webhook grants.
+    const membershipItem = lineItems.find((i) => i.productSlug === CLUB_MEMBERSHIP_SLUG);
+    const membershipTier = membershipItem ? membershipTierForPrice(membershipItem.priceId) : null;
+
+    // A gift checkout collects one recipient, so one gift membership per checkout.
+    const giftQuantity = lineItems
+      .filter((i) => i.productSlug === GIFT_MEMBERSHIP_SLUG)
+      .reduce((sum, i) => sum + i.quantity, 0);
+    if (giftQuantity > 1) {
+      return sendResponse(400, {
+        error: 'Gift memberships are bought one at a time. Please check out each gift separately.',
+      });
+    }
+
+    // Drops: only inside their window (members from early access on), at most memberLimit units
+    // per account over the whole drop, and the member coupon applied automatically.
+    const now = new Date();
+    const campaignProducts = new Map<
+      string,
+      { title: string; campaign: ShopCampaign; quantity: number }
+    >();
+    for (const item of lineItems) {
+      const entry = catalog.get(item.priceId);
+      if (!entry?.campaign) continue;
+      const existing = campaignProducts.get(entry.productId);
+      if (existing) existing.quantity += item.quantity;
+      else {
+        campaignProducts.set(entry.productId, {
+          title: entry.title,
+          campaign: entry.campaign,
+          quantity: item.quantity,
+        });
+      }
+    }
+    for (const { title, campaign } of campaignProducts.values()) {
+      const blocked = describeCampaignBlock(
+        title,
+        getCampaignAccess(campaign, customer.isMember, now),
+        customer.isMember
+      );
+      if (blocked) return sendResponse(403, { error: blocked });
+    }
+    const limitedItems: CampaignPurchaseItem[] = Array.from(campaignProducts).flatMap(
+      ([productId, { quantity, campaign }]) => {
+        const memberLimit = remainingCampaignAllowance(campaign, 0);
+        return memberLimit == null ? [] : [{ productId, quantity, memberLimit }];
+      }
+    );
+    const campaignClient = limitedItems.length > 0 ? getAdminClient() : null;
+    if (limitedItems.length > 0 && !customer.userId) {
+      return sendResponse(401, {
+        error: 'Limited drops are only sold to signed-in customers. Please log in to continue.',
+      });
+    }
+    if (limitedItems.length > 0 && !campaignClient) {
+      console.error('[stripe-checkout] Missing Supabase configuration for drop limits');
+      return sendResponse(503, { error: CAMPAIGN_LIMIT_UNAVAILABLE });
+    }
+    const memberCouponId = customer.isMember
+      ? Array.from(campaignProducts.values())
+          .map(({ campaign }) => campaign.memberCouponId?.trim())
+          .find(Boolean)
+      : undefined;
+
     let mode: 'payment' | 'subscription' = 'payment';
     const priceIds = Array.from(new Set(lineItems.map((i) => i.priceId)));
+    const prices = new Map<string, Stripe.Price>();
     for (let i = 0; i < priceIds.length; i++) {
       const price = await stripe.prices.retrieve(priceIds[i]);
+      prices.set(priceIds[i], price);
       const isRecurring = price.type === 'recurring';
       const itemMode = isRecurring ? 'subscription' : 'payment';
       if (i === 0) {
@@ -141,46 +340,43 @@ async function handleCheckout(req: VercelRequest, res: VercelResponse) {
     const successUrl = `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`;
     const cancelUrl = `${baseUrl}/shop`;
 
-    const FREE_SHIPPING_THRESHOLD = 99;
-    const SHIPPING_DE_CENTS = 590;
-    const SHIPPING_EU_CENTS = 990;
-    const SHIPPING_STICKER_SET_CENTS = 150;
-    const shippingOption = (body.shippingOption as string) || 'de';
-    const subtotal = typeof body.subtotal === 'number' ? body.subtotal : undefined;
-    const cartIsMembershipOnly = isClubMembershipOnly(lineItems);
-    const cartIsStickerSetOnly = isStickerSetOnly(lineItems);
-
-    let shippingAmountCents = 0;
-    if (subtotal != null && subtotal > 0 && !cartIsMembershipOnly) {
-      if (shippingOption === 'pickup') {
-        shippingAmountCents = 0;
-      } else if (cartIsStickerSetOnly) {
-        shippingAmountCents = SHIPPING_STICKER_SET_CENTS;
-      } else if (subtotal >= FREE_SHIPPING_THRESHOLD) {
-        shippingAmountCents = 0;
-      } else if (shippingOption === 'eu') {
-        shippingAmountCents = SHIPPING_EU_CENTS;
-      } else {
-        shippingAmountCents = SHIPPING_DE_CENTS;
-      }
+    // The shipping line is charged in the basket's currency; Stripe needs one currency per session.
+    const currencies = new Set(Array.from(prices.values(), (price) => price.currency));
+    if (currencies.size > 1) {
+      return sendResponse(400, {
+        error: 'Basket mixes prices in different currencies. Please checkout separately.',
+      });
     }
+    const currency = currencies.values().next().value ?? 'eur';
 
-    const shippingLabels: Record<string, string> = {
-      de: 'Shipping (Standard – Germany)',
-      eu: 'Shipping (Standard – EU)',
-      pickup: 'Shipping (Local pickup)',
-    };
-    const shippingLabel = shippingLabels[shippingOption] || shippingLabels.de;
+    const subtotalCents = lineItems.reduce(
+      (sum, i) => sum + (prices.get(i.priceId)?.unit_amount ?? 0) * i.quantity,
+      0
+    );
+    const shippingRate = getShippingRate(body.shippingOption as string | undefined);
+    const shippingAmountCents = calculateShippingCents(
+      shippingRate.option,
+      subtotalCents,
+      lineItems
+    );
+
+    // Shipped orders collect an address in the option's countries (VAT follows the destination).
+    const allowedCountries = isClubMembershipOnly(lineItems)
+      ? null
+      : shippingCountries(shippingRate.option);
 
     const lineItemsForSession: Stripe.Checkout.SessionCreateParams.LineItem[] = lineItems.map(
       ({ priceId, quantity }) => ({ price: priceId, quantity })
     );
-    if (subtotal != null) {
+    if (!isClubMembershipOnly(lineItems)) {
       lineItemsForSession.push({
         price_data: {
-          currency: 'eur',
+          currency,
           product_data: {
-            name: shippingAmountCents === 0 ? `${shippingLabel} – Free` : shippingLabel,
+            name:
+              shippingAmountCents === 0
+                ? `${shippingRate.checkoutLabel} – Free`
+                : shippingRate.checkoutLabel,
           },
           unit_amount: shippingAmountCents,
         },
@@ -188,22 +384,144 @@ async function handleCheckout(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: lineItemsForSession,
-      mode,
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      metadata: {
-        productIds: lineItems.map((i) => i.productId).join(','),
-        productTitles: lineItems.map((i) => i.productTitle).join('|'),
-        productSlugs: lineItems.map((i) => i.productSlug).join(','),
-        userId: (userId as string) || 'guest',
-        ...(shippingOption && { shippingOption: String(shippingOption) }),
-      },
-      customer_email: (userEmail as string) || undefined,
-      allow_promotion_codes: true,
-    });
+    // Count and hold limited drop units in one step, so parallel checkouts of the same member
+    // cannot pass a limit. Paid or released by the webhook, like the stock reservation.
+    const campaignReservation = campaignClient && customer.userId ? crypto.randomUUID() : null;
+    const releaseCampaignHold = async () => {
+      if (!campaignClient || !campaignReservation) return;
+      await settleCampaignPurchases(
+        campaignClient,
+        { reference: campaignReservation },
+        'released'
+      ).catch((releaseErr) =>
+        console.error('[stripe-checkout] Failed to release drop purchases:', releaseErr)
+      );
+    };
+    if (campaignClient && campaignReservation && customer.userId) {
+      let held: ReserveCampaignResult;
+      try {
+        held = await reserveCampaignPurchases(campaignClient, {
+          userId: customer.userId,
+          reference: campaignReservation,
+          items: limitedItems,
+          expiresAt: new Date(checkoutSessionExpiry() * 1000),
+        });
+      } catch (holdErr) {
+        console.error('[stripe-checkout] Drop limits not checked:', holdErr);
+        return sendResponse(503, { error: CAMPAIGN_LIMIT_UNAVAILABLE });
+      }
+      if (!held.ok) {
+        const { productId, remaining } = held.shortages[0];
+        const { title, campaign } = campaignProducts.get(productId)!;
+        return sendResponse(409, {
+          error: describeCampaignLimit(title, Number(campaign.memberLimit), remaining),
+        });
+      }
+    }
+
+    // Hold the basket's stock for as long as the session is open (committed or released by the
+    // webhook). Membership subscriptions are not stock items.
+    const adminClient = mode === 'payment' ? getAdminClient() : null;
+    if (mode === 'payment' && !adminClient) {
+      console.error('[stripe-checkout] Missing Supabase configuration for the stock ledger');
+      await releaseCampaignHold();
+      return sendResponse(503, { error: STOCK_UNAVAILABLE });
+    }
+    const stockReservation = adminClient ? crypto.randomUUID() : null;
+    if (adminClient && stockReservation) {
+      let reservation: ReserveStockResult;
+      try {
+        reservation = await reserveStock(
+          adminClient,
+          stockReservation,
+          lineItems,
+          new Date(checkoutSessionExpiry() * 1000)
+        );
+      } catch (reserveErr) {
+        console.error('[stripe-checkout] Stock not reserved:', reserveErr);
+        await releaseCampaignHold();
+        return sendResponse(503, { error: STOCK_UNAVAILABLE });
+      }
+      if (!reservation.ok) {
+        await releaseCampaignHold();
+        return sendResponse(409, {
+          error: describeStockShortages(reservation.shortages),
+          shortages: reservation.shortages,
+        });
+      }
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: lineItemsForSession,
+        mode,
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        metadata: {
+          productIds: lineItems.map((i) => i.productId).join(','),
+          productTitles: lineItems.map((i) => i.productTitle).join('|'),
+          productSlugs: lineItems.map((i) => i.productSlug).join(','),
+          userId: customer.userId || (userId as string) || 'guest',
+          shippingOption: shippingRate.option,
+          ...(stockReservation && { stockReservation }),
+          ...(campaignReservation && { campaignReservation }),
+          ...(membershipTier && { membershipTier }),
+        },
+        // Computed right before creating the session so it stays inside Stripe's 30 min minimum.
+        ...(stockReservation && { expires_at: checkoutSessionExpiry() }),
+        ...(allowedCountries && {
+          shipping_address_collection: {
+            allowed_countries:
+              allowedCountries as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[],
+          },
+        }),
+        customer_email: (userEmail as string) || undefined,
+        ...(giftQuantity > 0 && {
+          custom_fields: [
+            {
+              key: GIFT_RECIPIENT_EMAIL_FIELD,
+              label: { type: 'custom', custom: "Recipient's email" },
+              type: 'text',
+              text: { maximum_length: 255 },
+            },
+            {
+              key: GIFT_MESSAGE_FIELD,
+              label: { type: 'custom', custom: 'Gift message (optional)' },
+              type: 'text',
+              text: { maximum_length: 255 },
+              optional: true,
+            },
+          ],
+        }),
+        // Stripe takes either a fixed discount or customer-entered promotion codes, not both.
+        ...(memberCouponId
+          ? { discounts: [{ coupon: memberCouponId }] }
+          : { allow_promotion_codes: true }),
+      });
+    } catch (err) {
+      if (adminClient && stockReservation) {
+        await releaseStock(adminClient, stockReservation).catch((releaseErr) =>
+          console.error('[stripe-checkout] Failed to release stock reservation:', releaseErr)
+        );
+      }
+      await releaseCampaignHold();
+      throw err;
+    }
+
+    if (adminClient && stockReservation) {
+      await linkStockReservation(adminClient, stockReservation, {
+        id: session.id,
+        expiresAt: new Date(session.expires_at * 1000),
+      });
+    }
+    if (campaignClient && campaignReservation) {
+      await linkCampaignPurchases(campaignClient, campaignReservation, {
+        id: session.id,
+        expiresAt: new Date(session.expires_at * 1000),
+      });
+    }
 
     return sendResponse(200, { sessionId: session.id, url: session.url });
   } catch (err) {
@@ -227,7 +545,14 @@ async function handlePortal(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: 'Server configuration error' });
   }
 
-  const { userId } = req.body;
+  // Signed-in callers (members settings) are identified by their token; `userId` in the body is
+  // the legacy form.
+  let userId: string | null = req.body?.userId ?? null;
+  if (req.headers.authorization) {
+    const customer = await getCheckoutCustomer(req);
+    if (!customer?.userId) return res.status(401).json({ error: 'Unauthorized' });
+    userId = customer.userId;
+  }
   if (!userId) return res.status(401).json({ error: 'Unauthorized - userId required' });
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey, {
@@ -260,16 +585,297 @@ async function handlePortal(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// ─── Gift membership redemption ───────────────────────────────────────────────
+async function handleRedeemGift(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for gift redemption');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  // Codes can be guessed: few tries per address and per account.
+  if (
+    !(await checkRateLimit(req, res, { windowMs: 15 * 60_000, max: 10, keyPrefix: 'redeem-gift' }))
+  ) {
+    return;
+  }
+  const customer = await getCheckoutCustomer(req);
+  if (!customer?.userId) {
+    return res.status(401).json({ error: 'Please log in to redeem your gift.' });
+  }
+  if (
+    !(await checkRateLimit(req, res, {
+      windowMs: 60 * 60_000,
+      max: 10,
+      keyPrefix: 'redeem-gift-user',
+      identifier: customer.userId,
+    }))
+  ) {
+    return;
+  }
+
+  const code = (req.body as Record<string, unknown>)?.code;
+  const result = await redeemGiftMembership(
+    adminClient,
+    typeof code === 'string' ? code : '',
+    customer.userId,
+    new Date().toISOString().slice(0, 10)
+  );
+  if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+  const { data: profile } = await adminClient
+    .from('profiles')
+    .select('email')
+    .eq('id', customer.userId)
+    .maybeSingle();
+  if (profile?.email) {
+    const emailResult = await sendMemberWelcomeEmail({
+      to: profile.email,
+      memberSince: result.memberSince,
+      membershipExpiration: result.membershipExpiration,
+    });
+    if (!emailResult.success) {
+      console.error(
+        '[stripe-checkout] Welcome email after gift redemption failed:',
+        emailResult.error
+      );
+    }
+  }
+  return res.status(200).json({
+    memberSince: result.memberSince,
+    membershipExpiration: result.membershipExpiration,
+  });
+}
+
+// ─── Households ───────────────────────────────────────────────────────────────
+async function handleHousehold(req: VercelRequest, res: VercelResponse, action: string) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for households');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  const customer = await getCheckoutCustomer(req);
+  if (!customer?.userId) {
+    return res.status(401).json({ error: 'Please log in to manage your household.' });
+  }
+  const userId = customer.userId;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof body[key] === 'string' ? (body[key] as string).trim() : '');
+
+  try {
+    if (action === 'household-invite') {
+      const email = text('email');
+      if (!isPlausibleEmail(email)) {
+        return res.status(400).json({ error: 'Please enter a valid email address.' });
+      }
+      const result = await createHouseholdInvite(adminClient, userId, email);
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+      const emailResult = await sendHouseholdInviteEmail({
+        to: email,
+        token: result.value.token,
+        ownerName: result.value.ownerName,
+      });
+      if (!emailResult.success) {
+        console.error('[stripe-checkout] Household invite email failed:', emailResult.error);
+      }
+    } else if (action === 'household-accept') {
+      const result = await acceptHouseholdInvite(adminClient, text('token'), userId);
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+    } else if (action === 'household-remove') {
+      // Owners remove a member; a member removes themselves from their owner's household.
+      const memberId = text('memberId') || userId;
+      const household = await getHousehold(adminClient, userId);
+      const ownerId =
+        memberId === userId && household.role === 'member' ? household.owner.id : userId;
+      const result = await removeHouseholdMember(adminClient, ownerId, memberId);
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+    } else if (action === 'household-revoke') {
+      const result = await revokeHouseholdInvite(adminClient, userId, text('inviteId'));
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+    }
+    return res.status(200).json({ household: await getHousehold(adminClient, userId) });
+  } catch (err) {
+    console.error(`[stripe-checkout] ${action} failed:`, err);
+    return res.status(500).json({ error: 'Could not update your household. Please try again.' });
+  }
+}
+
+// ─── Stock levels handler ─────────────────────────────────────────────────────
+async function handleStock(_req: VercelRequest, res: VercelResponse) {
+  const adminClient = getAdminClient();
+  const stock = adminClient ? await readStockLevels(adminClient) : null;
+  if (!adminClient || !stock) return res.status(503).json({ error: 'Stock levels unavailable' });
+  res.setHeader('Cache-Control', 'public, s-maxage=30, stale-while-revalidate=60');
+  return res.status(200).json({ stock });
+}
+
+// ─── Back-in-stock sign-ups ───────────────────────────────────────────────────
+async function handleNotifyStock(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for stock notifications');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  if (!(await checkRateLimit(req, res, { windowMs: 60_000, max: 10, keyPrefix: 'notify-stock' }))) {
+    return;
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const sku = typeof body.sku === 'string' ? body.sku.trim() : '';
+  const customer = await getCheckoutCustomer(req);
+  if (!customer) {
+    return res.status(401).json({ error: 'Your session has expired. Please log in again.' });
+  }
+
+  let email = typeof body.email === 'string' ? body.email.trim() : '';
+  if (customer.userId) {
+    const { data: profile } = await adminClient
+      .from('profiles')
+      .select('email')
+      .eq('id', customer.userId)
+      .maybeSingle();
+    email = profile?.email ?? email;
+  } else {
+    const turnstileToken = typeof body.turnstileToken === 'string' ? body.turnstileToken : '';
+    if (isTurnstileRequired() && !turnstileToken) {
+      return res.status(400).json({ error: 'Bot verification required' });
+    }
+    if (turnstileToken && !(await verifyTurnstile(turnstileToken, getClientIp(req)))) {
+      return res.status(403).json({ error: 'Bot verification failed. Please try again.' });
+    }
+  }
+  if (!isPlausibleEmail(email)) {
+    return res.status(400).json({ error: 'Please enter a valid email address.' });
+  }
+
+  try {
+    const entry = findCatalogVariant(await fetchShopCatalog(), sku);
+    if (!entry) return res.status(404).json({ error: 'This product could not be found.' });
+    const result = await createStockNotification(adminClient, entry, {
+      email,
+      userId: customer.userId,
+      consent: body.consent,
+    });
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(200).json({ alreadyWaiting: result.value.alreadyWaiting });
+  } catch (err) {
+    console.error('[stripe-checkout] notify-stock failed:', err);
+    return res.status(500).json({ error: 'Could not save your sign-up. Please try again.' });
+  }
+}
+
+/** From the unsubscribe page (JSON body) or a mail client's one-click POST (token in the URL). */
+async function handleStockUnsubscribe(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for stock notifications');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  const bodyToken = (req.body as Record<string, unknown> | undefined)?.token;
+  const token =
+    typeof bodyToken === 'string'
+      ? bodyToken
+      : typeof req.query.token === 'string'
+        ? req.query.token
+        : '';
+  try {
+    const result = await unsubscribeStockNotifications(adminClient, token.trim());
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(200).json({ unsubscribed: true });
+  } catch (err) {
+    console.error('[stripe-checkout] stock-unsubscribe failed:', err);
+    return res.status(500).json({ error: 'Could not unsubscribe. Please try again.' });
+  }
+}
+
+// ─── Customer orders ──────────────────────────────────────────────────────────
+async function handleOrders(req: VercelRequest, res: VercelResponse) {
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for orders');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  const customer = await getCheckoutCustomer(req);
+  if (!customer?.userId) {
+    return res.status(401).json({ error: 'Please log in to see your orders.' });
+  }
+  try {
+    const { data: profile } = await adminClient
+      .from('profiles')
+      .select('email')
+      .eq('id', customer.userId)
+      .maybeSingle();
+    const orders = await listCustomerOrders(adminClient, customer.userId, profile?.email ?? null);
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ orders });
+  } catch (err) {
+    console.error('[stripe-checkout] Loading orders failed:', err);
+    return res.status(500).json({ error: 'Could not load your orders.' });
+  }
+}
+
+// ─── Invoice PDFs ─────────────────────────────────────────────────────────────
+/** Linked from the order confirmation and the order lists; the token in the link is the key. */
+async function handleInvoice(req: VercelRequest, res: VercelResponse) {
+  const adminClient = getAdminClient();
+  if (!adminClient) {
+    console.error('[stripe-checkout] Missing Supabase configuration for invoices');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  const number = typeof req.query.number === 'string' ? req.query.number.trim() : '';
+  const token = typeof req.query.token === 'string' ? req.query.token.trim() : '';
+  try {
+    const invoice = await getShopInvoice(adminClient, number, token);
+    if (!invoice) return res.status(404).json({ error: 'Invoice not found.' });
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="Kandie-Gang-Invoice-${invoice.invoiceNumber}.pdf"`
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).send(renderInvoicePdf(invoice));
+  } catch (err) {
+    console.error('[stripe-checkout] Loading invoice failed:', err);
+    return res.status(500).json({ error: 'Could not load the invoice.' });
+  }
+}
+
 // ─── Main handler ─────────────────────────────────────────────────────────────
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method === 'GET' && req.query.view === 'stock') return handleStock(req, res);
+  if (req.method === 'GET' && req.query.view === 'orders') return handleOrders(req, res);
+  if (req.method === 'GET' && req.query.view === 'invoice') return handleInvoice(req, res);
   if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST');
+    res.setHeader('Allow', 'GET, POST');
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const action = (req.body as Record<string, unknown>)?.action;
+  const action = (req.body as Record<string, unknown>)?.action ?? req.query.action;
   if (action === 'checkout') return handleCheckout(req, res);
   if (action === 'portal') return handlePortal(req, res);
+  if (action === 'redeem-gift') return handleRedeemGift(req, res);
+  if (action === 'notify-stock') return handleNotifyStock(req, res);
+  if (action === 'stock-unsubscribe') return handleStockUnsubscribe(req, res);
+  if (
+    action === 'household' ||
+    action === 'household-invite' ||
+    action === 'household-accept' ||
+    action === 'household-remove' ||
+    action === 'household-revoke'
+  ) {
+    return handleHousehold(req, res, action);
+  }
   return res.status(400).json({ error: 'Invalid or missing action' });
 }
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import { checkRateLimit } from '../lib/rateLimit.js';
+import { summarizeOrderHistory } from '../lib/orderHistory.js';
 
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY =
@@ -384,26 +385,13 @@ async function syncInvoicesForCustomerIds(
 
     mergedHistory.sort((a: any, b: any) => (a.date || '').localeCompare(b.date || ''));
 
-    const orderCount = mergedHistory.length;
-    const lifetimeValue =
-      Math.round(
-        mergedHistory.reduce((sum: number, o: any) => sum + (parseFloat(o.total) || 0), 0) * 100
-      ) / 100;
-    const avgOrderValue =
-      orderCount > 0 ? Math.round((lifetimeValue / orderCount) * 100) / 100 : 0;
-    const lastOrderDate = mergedHistory.reduce<string | null>(
-      (latest: string | null, o: any) =>
-        !o.date ? latest : !latest || o.date > latest ? o.date : latest,
-      null
-    );
+    // Refunded and disputed orders keep their adjustments (see lib/orderHistory.ts).
+    const orderTotals = summarizeOrderHistory(mergedHistory);
     const customerSince: string | null = existingCustomerSince ?? mergedHistory[0]?.date ?? null;
 
     const updatePayload: Record<string, unknown> = {
       order_history: mergedHistory,
-      order_count: orderCount,
-      lifetime_value: lifetimeValue,
-      avg_order_value: avgOrderValue,
-      last_order_date: lastOrderDate,
+      ...orderTotals,
       customer_since: customerSince,
     };
 
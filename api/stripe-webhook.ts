@@ -1,19 +1,45 @@
 // Migrated from /api/stripe-webhook.ts to Next.js API route
 import type { NextApiRequest, NextApiResponse } from 'next';
 import Stripe from 'stripe';
-import { createClient } from '@supabase/supabase-js';
-import { sendMemberWelcomeEmail } from '../lib/memberWelcomeEmail.js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { sendGiftMembershipEmail, sendMemberWelcomeEmail } from '../lib/memberWelcomeEmail.js';
 import {
+  GIFT_MESSAGE_FIELD,
+  GIFT_RECIPIENT_EMAIL_FIELD,
+  isPlausibleEmail,
+  issueGiftMembership,
+  markGiftEmailSent,
+  revokeGiftMembership,
+} from '../lib/giftMemberships.js';
+import {
+  applyDispute,
+  applyRefund,
+  shortenMembershipExpiration,
+  summarizeOrderHistory,
+  type DisputeOutcome,
+} from '../lib/orderHistory.js';
+import {
+  sendDiscordOrderAdjustmentNotification,
   sendDiscordOrderNotification,
   sendOrderConfirmationEmail,
   sendOrderInternalNotificationEmail,
   type OrderNotificationItem,
   type OrderNotificationParams,
 } from '../lib/orderNotifications.js';
+import { commitStock, getStockLevels, releaseStock } from '../lib/stockLedger.js';
+import { notifyRestockedVariants } from '../lib/stockNotifications.js';
+import { releaseRefundedCampaignPurchases, settleCampaignPurchases } from '../lib/shopCampaigns.js';
+import { fromMinorUnits } from '../lib/money.js';
+import { membershipTierForPrice, parseMembershipTier } from '../lib/membershipTiers.js';
+import { getShopOrderBySession, isShopOrderCheckout, recordShopOrder } from '../lib/shopOrders.js';
+import { issueShopInvoice } from '../lib/invoices.js';
 
 const CLUB_MEMBERSHIP_SLUG = 'kandie-gang-cycling-club-membership';
+const GIFT_MEMBERSHIP_SLUG = 'kandie-gang-cycling-club-gift-membership';
 const CLUB_PLAN_NAME = 'Kandie Gang Cycling Club Membership';
 const ORDER_NOTIFICATIONS_SENT_AT_METADATA_KEY = 'order_notifications_sent_at';
+const MEMBERSHIP_REVOKED_AT_METADATA_KEY = 'membership_revoked_at';
+const MEMBERSHIP_PERIOD_DAYS = 365;
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -33,6 +59,14 @@ function isClubMembershipPurchase(productSlugs: string | null | undefined): bool
     .includes(CLUB_MEMBERSHIP_SLUG);
 }
 
+function isGiftMembershipPurchase(productSlugs: string | null | undefined): boolean {
+  if (!productSlugs || typeof productSlugs !== 'string') return false;
+  return productSlugs
+    .split(',')
+    .map((s) => s.trim())
+    .includes(GIFT_MEMBERSHIP_SLUG);
+}
+
 function toDateString(d: Date): string {
   return d.toISOString().slice(0, 10);
 }
@@ -86,9 +120,31 @@ async function buildOrderNotificationParams(
     paymentStatus: session.payment_status ?? null,
     stripeDashboardUrl: stripeDashboardSessionUrl(session),
     siteUrl,
+    ...(await findCheckoutInvoice(session, siteUrl)),
   };
 }
 
+/** Invoice link for the confirmation email, once recordCheckoutShopOrder has issued it. */
+async function findCheckoutInvoice(
+  session: Stripe.Checkout.Session,
+  siteUrl: string
+): Promise<Pick<OrderNotificationParams, 'invoiceNumber' | 'invoiceUrl'>> {
+  if (!isShopOrderCheckout(session.metadata?.productSlugs) || !supabaseUrl || !supabaseServiceKey) {
+    return {};
+  }
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  try {
+    const order = await getShopOrderBySession(supabase, session.id);
+    if (!order?.invoiceUrl) return {};
+    return { invoiceNumber: order.invoiceNumber, invoiceUrl: `${siteUrl}${order.invoiceUrl}` };
+  } catch (err) {
+    console.error('[stripe-webhook] Loading invoice for order notifications failed:', err);
+    return {};
+  }
+}
+
 function buildInvoiceOrderNotificationParams(invoice: Stripe.Invoice): OrderNotificationParams {
   const items: OrderNotificationItem[] = ((invoice as any).lines?.data ?? []).map(
     (lineItem: any) => ({
@@ -364,6 +420,7 @@ async function handleSubscriptionEvent(event: Stripe.Event, res: NextApiResponse
     subscription_cancel_at_period_end: (subscription as any).cancel_at_period_end ?? null,
     is_member: isMember,
     membership_source: 'supabase',
+    membership_tier: membershipTierForPrice(firstItem?.price?.id),
   };
 
   // Update expiration date
@@ -431,7 +488,7 @@ async function handleInvoicePaymentSucceeded(event: Stripe.Event, res: NextApiRe
     const status = (subscription as any).status;
 
     // ── Order history tracking ──────────────────────────────────────────────
-    const amountPaid = ((invoice as any).amount_paid ?? 0) / 100;
+    const amountPaid = fromMinorUnits((invoice as any).amount_paid ?? 0, (invoice as any).currency);
     const orderDate = new Date((invoice as any).created * 1000).toISOString().split('T')[0];
     const productNames: string[] = ((invoice as any).lines?.data ?? [])
       .map((l: any) => l.description)
@@ -462,14 +519,7 @@ async function handleInvoicePaymentSucceeded(event: Stripe.Event, res: NextApiRe
             },
           ];
 
-    const orderCount = mergedHistory.length;
-    const lifetimeValue =
-      Math.round(mergedHistory.reduce((sum, o) => sum + (parseFloat(o.total) || 0), 0) * 100) / 100;
-    const avgOrderValue = orderCount > 0 ? Math.round((lifetimeValue / orderCount) * 100) / 100 : 0;
-    const lastOrderDate = mergedHistory.reduce<string | null>(
-      (latest, o) => (!o.date ? latest : !latest || o.date > latest ? o.date : latest),
-      null
-    );
+    const orderTotals = summarizeOrderHistory(mergedHistory);
     const customerSince: string | null = profileData?.customer_since ?? orderDate;
     // ────────────────────────────────────────────────────────────────────────
 
@@ -484,11 +534,10 @@ async function handleInvoicePaymentSucceeded(event: Stripe.Event, res: NextApiRe
           ? new Date(currentPeriodEnd * 1000).toISOString()
           : null,
         stripe_subscription_status: status,
+        stripe_payment_failed_at: null,
+        stripe_failed_invoice_id: null,
         order_history: mergedHistory,
-        order_count: orderCount,
-        lifetime_value: lifetimeValue,
-        avg_order_value: avgOrderValue,
-        last_order_date: lastOrderDate,
+        ...orderTotals,
         customer_since: customerSince,
       })
       .eq('stripe_customer_id', customerId);
@@ -502,7 +551,7 @@ async function handleInvoicePaymentSucceeded(event: Stripe.Event, res: NextApiRe
     }
 
     console.log(
-      `[stripe-webhook] invoice.payment_succeeded: customer ${customerId}, LTV €${lifetimeValue}`
+      `[stripe-webhook] invoice.payment_succeeded: customer ${customerId}, LTV €${orderTotals.lifetime_value}`
     );
   }
 
@@ -538,10 +587,499 @@ async function handleInvoicePaymentFailed(event: Stripe.Event, res: NextApiRespo
     return res.status(500).json({ error: 'Failed to update profile' });
   }
 
+  // Start the dunning sequence (lib/membershipRenewals.ts) on the first failure of an invoice;
+  // Stripe's retries of the same invoice keep the original failure time.
+  const invoiceId = (invoice as any).id as string | undefined;
+  const subscription =
+    (invoice as any).subscription ?? invoice.parent?.subscription_details?.subscription ?? null;
+  if (invoiceId && subscription) {
+    const { error: dunningError } = await supabase
+      .from('profiles')
+      .update({
+        stripe_payment_failed_at: new Date(event.created * 1000).toISOString(),
+        stripe_failed_invoice_id: invoiceId,
+      })
+      .eq('stripe_customer_id', customerId)
+      .or(`stripe_failed_invoice_id.is.null,stripe_failed_invoice_id.neq.${invoiceId}`);
+    if (dunningError) {
+      console.error('[stripe-webhook] Failed to record failed invoice for dunning:', dunningError);
+      return res.status(500).json({ error: 'Failed to update profile' });
+    }
+  }
+
   console.log(`[stripe-webhook] invoice.payment_failed: Payment failed for customer ${customerId}`);
   return res.status(200).json({ received: true });
 }
 
+// ==================== REFUNDS & DISPUTES ====================
+
+type ChargeOrder = {
+  /** order_history entry id (the invoice id); null for one-time checkouts, which are not tracked. */
+  orderId: string | null;
+  subscriptionId: string | null;
+  isMembership: boolean;
+  /** Length of the membership the charge paid for. */
+  membershipPeriodDays: number;
+  /** Profile named in the checkout metadata, if any. */
+  metadataUserId: string | null;
+  /** One-time Checkout Session the charge paid, if any (gift memberships are looked up by it). */
+  checkoutSessionId: string | null;
+};
+
+type RefundProfile = {
+  id: string;
+  order_history: any;
+  membership_expiration: string | null;
+};
+
+function stripeDashboardPaymentUrl(charge: Stripe.Charge): string {
+  const testPath = charge.livemode ? '' : '/test';
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  return `https://dashboard.stripe.com${testPath}/payments/${paymentIntentId ?? charge.id}`;
+}
+
+/** What a charge paid for: a subscription invoice or a one-time Checkout Session. */
+async function resolveChargeOrder(charge: Stripe.Charge): Promise<ChargeOrder> {
+  const order: ChargeOrder = {
+    orderId: null,
+    subscriptionId: null,
+    isMembership: false,
+    membershipPeriodDays: MEMBERSHIP_PERIOD_DAYS,
+    metadataUserId: null,
+    checkoutSessionId: null,
+  };
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!stripe || !paymentIntentId) return order;
+
+  const invoicePayments = await stripe.invoicePayments.list({
+    payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+    limit: 1,
+  });
+  const invoiceRef = invoicePayments.data[0]?.invoice;
+  if (invoiceRef) {
+    const invoice = await stripe.invoices.retrieve(
+      typeof invoiceRef === 'string' ? invoiceRef : invoiceRef.id!
+    );
+    const subscription =
+      (invoice as any).subscription ?? invoice.parent?.subscription_details?.subscription ?? null;
+    const period = (invoice as any).lines?.data?.[0]?.period;
+    order.orderId = invoice.id ?? null;
+    order.subscriptionId = typeof subscription === 'string' ? subscription : subscription?.id ?? null;
+    order.isMembership = Boolean(order.subscriptionId);
+    if (period?.start && period?.end && period.end > period.start) {
+      order.membershipPeriodDays = Math.round((period.end - period.start) / 86400);
+    }
+    return order;
+  }
+
+  const sessions = await stripe.checkout.sessions.list({
+    limit: 1,
+    payment_intent: paymentIntentId,
+  } as Stripe.Checkout.SessionListParams & { payment_intent: string });
+  const session = sessions.data[0];
+  if (session) {
+    order.isMembership = isClubMembershipPurchase(session.metadata?.productSlugs);
+    const userId = session.metadata?.userId;
+    order.metadataUserId = userId && userId !== 'guest' ? userId : null;
+    order.checkoutSessionId = session.id;
+  }
+  return order;
+}
+
+async function findRefundProfile(
+  supabase: SupabaseClient<any>,
+  charge: Stripe.Charge,
+  order: ChargeOrder
+): Promise<RefundProfile | null> {
+  const columns = 'id, order_history, membership_expiration';
+  const customerId = typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+  if (customerId) {
+    const { data } = await supabase
+      .from('profiles')
+      .select(columns)
+      .eq('stripe_customer_id', customerId)
+      .maybeSingle();
+    if (data) return data as RefundProfile;
+  }
+  if (order.metadataUserId) {
+    const { data } = await supabase
+      .from('profiles')
+      .select(columns)
+      .eq('id', order.metadataUserId)
+      .maybeSingle();
+    if (data) return data as RefundProfile;
+  }
+  const email = charge.billing_details?.email ?? charge.receipt_email;
+  if (email) {
+    const { data } = await supabase
+      .from('profiles')
+      .select(columns)
+      .ilike('email', email)
+      .limit(1)
+      .maybeSingle();
+    if (data) return data as RefundProfile;
+  }
+  return null;
+}
+
+/**
+ * Take back the membership a refunded or lost charge paid for: the expiration moves back by the
+ * paid period, and a membership that ends with it is revoked (subscription cancelled in Stripe).
+ * Marked on the charge so webhook retries do not shorten twice.
+ */
+async function revokeChargedMembership(
+  supabase: SupabaseClient<any>,
+  charge: Stripe.Charge,
+  order: ChargeOrder,
+  profile: RefundProfile
+): Promise<string> {
+  if (!stripe || charge.metadata?.[MEMBERSHIP_REVOKED_AT_METADATA_KEY]) {
+    return 'Membership already adjusted';
+  }
+  const today = toDateString(new Date());
+  const expiration = shortenMembershipExpiration(
+    profile.membership_expiration,
+    order.membershipPeriodDays,
+    today
+  );
+  const revoked = expiration <= today;
+
+  if (revoked && order.subscriptionId) {
+    try {
+      await stripe.subscriptions.cancel(order.subscriptionId);
+    } catch (err) {
+      console.error('[stripe-webhook] Failed to cancel subscription after refund:', err);
+    }
+  }
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ membership_expiration: expiration, ...(revoked && { is_member: false }) })
+    .eq('id', profile.id);
+  if (error) {
+    console.error('[stripe-webhook] Failed to adjust membership after refund:', error);
+    return 'Membership could not be adjusted – check the profile';
+  }
+
+  await stripe.charges.update(charge.id, {
+    metadata: { [MEMBERSHIP_REVOKED_AT_METADATA_KEY]: new Date().toISOString() },
+  });
+  return revoked ? 'Membership revoked' : `Membership shortened to ${expiration}`;
+}
+
+/** Write an adjusted order history back with its totals recomputed. */
+async function saveOrderHistory(
+  supabase: SupabaseClient<any>,
+  profileId: string,
+  history: any[]
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ order_history: history, ...summarizeOrderHistory(history) })
+    .eq('id', profileId);
+  if (error) {
+    console.error('[stripe-webhook] Failed to update order history:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Apply a refund or dispute to the profile: order history entry, totals and — when the money for
+ * a membership is gone — the membership. When the money for a checkout is gone, the gift
+ * membership it bought is revoked and its drop purchases stop counting against member limits.
+ * Returns what changed, for the Discord notice.
+ */
+async function adjustOrderForCharge(
+  charge: Stripe.Charge,
+  change: { refundedTotal: number } | { dispute: DisputeOutcome },
+  takesBackMembership: boolean
+): Promise<{ outcome: string; ok: boolean }> {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return { outcome: 'Supabase not configured – nothing updated', ok: false };
+  }
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const order = await resolveChargeOrder(charge);
+  // Gift and drop limits do not depend on the buyer's profile, so they are handled without one.
+  const checkoutNotes: string[] = [];
+  let checkoutOk = true;
+  if (takesBackMembership && order.checkoutSessionId) {
+    const gift = await revokeGiftMembership(
+      supabase,
+      order.checkoutSessionId,
+      toDateString(new Date())
+    );
+    if (gift) {
+      checkoutNotes.push(gift.outcome);
+      checkoutOk = gift.ok;
+    }
+    const released = await releaseRefundedCampaignPurchases(supabase, order.checkoutSessionId);
+    if (released > 0) checkoutNotes.push(`${released} drop purchase(s) released from member limits`);
+  }
+  const profile = await findRefundProfile(supabase, charge, order);
+  if (!profile) {
+    const notes = checkoutNotes.length > 0 ? checkoutNotes : ['No matching profile – nothing updated'];
+    return { outcome: notes.join('\n'), ok: checkoutOk };
+  }
+
+  const notes: string[] = [];
+  const history = Array.isArray(profile.order_history) ? profile.order_history : [];
+  if (order.orderId) {
+    const result =
+      'refundedTotal' in change
+        ? applyRefund(history, order.orderId, change.refundedTotal)
+        : applyDispute(history, order.orderId, change.dispute);
+    if (result.entry) {
+      if (!(await saveOrderHistory(supabase, profile.id, result.history))) {
+        return { outcome: 'Order history update failed', ok: false };
+      }
+      notes.push(`Order ${order.orderId} marked ${result.entry.status}`);
+    }
+  }
+  if (notes.length === 0) notes.push('Not in order history (one-time shop order)');
+  notes.push(...checkoutNotes);
+
+  if (order.isMembership && takesBackMembership) {
+    notes.push(await revokeChargedMembership(supabase, charge, order, profile));
+  }
+  return { outcome: notes.join('\n'), ok: checkoutOk };
+}
+
+async function handleChargeRefunded(event: Stripe.Event, res: NextApiResponse) {
+  const charge = event.data.object as Stripe.Charge;
+  try {
+    const { outcome, ok } = await adjustOrderForCharge(
+      charge,
+      { refundedTotal: fromMinorUnits(charge.amount_refunded, charge.currency) },
+      charge.refunded
+    );
+    const discord = await sendDiscordOrderAdjustmentNotification({
+      title: charge.refunded ? 'Refund' : 'Partial refund',
+      customerEmail: charge.billing_details?.email ?? charge.receipt_email ?? null,
+      customerName: charge.billing_details?.name ?? null,
+      amount: charge.amount_refunded,
+      orderTotal: charge.amount,
+      currency: charge.currency,
+      outcome,
+      reference: charge.id,
+      stripeDashboardUrl: stripeDashboardPaymentUrl(charge),
+    });
+    if (!discord.success) {
+      console.error('[stripe-webhook] Refund Discord notice failed:', discord.error);
+    }
+    if (!ok) return res.status(500).json({ error: outcome });
+  } catch (err) {
+    console.error('[stripe-webhook] charge.refunded handling failed:', err);
+    return res.status(500).json({ error: 'Failed to handle refund' });
+  }
+  console.log(`[stripe-webhook] charge.refunded: ${charge.id} (${charge.amount_refunded})`);
+  return res.status(200).json({ received: true });
+}
+
+async function handleDisputeEvent(event: Stripe.Event, res: NextApiResponse) {
+  if (!stripe) {
+    console.error('[stripe-webhook] Stripe not configured');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  const dispute = event.data.object as Stripe.Dispute;
+  const outcome: DisputeOutcome =
+    event.type === 'charge.dispute.created' ? 'opened' : dispute.status === 'lost' ? 'lost' : 'won';
+  try {
+    const charge =
+      typeof dispute.charge === 'string'
+        ? await stripe.charges.retrieve(dispute.charge)
+        : dispute.charge;
+    const adjusted = await adjustOrderForCharge(charge, { dispute: outcome }, outcome === 'lost');
+    const discord = await sendDiscordOrderAdjustmentNotification({
+      title:
+        outcome === 'opened'
+          ? `Dispute opened (${dispute.reason.replace(/_/g, ' ')})`
+          : `Dispute ${outcome}`,
+      customerEmail: charge.billing_details?.email ?? charge.receipt_email ?? null,
+      customerName: charge.billing_details?.name ?? null,
+      amount: dispute.amount,
+      orderTotal: charge.amount,
+      currency: dispute.currency,
+      outcome: adjusted.outcome,
+      reference: charge.id,
+      stripeDashboardUrl: stripeDashboardPaymentUrl(charge),
+    });
+    if (!discord.success) {
+      console.error('[stripe-webhook] Dispute Discord notice failed:', discord.error);
+    }
+    if (!adjusted.ok) return res.status(500).json({ error: adjusted.outcome });
+  } catch (err) {
+    console.error(`[stripe-webhook] ${event.type} handling failed:`, err);
+    return res.status(500).json({ error: 'Failed to handle dispute' });
+  }
+  console.log(`[stripe-webhook] ${event.type}: ${dispute.id} (${dispute.status})`);
+  return res.status(200).json({ received: true });
+}
+
+// ==================== STOCK LEDGER & DROPS ====================
+
+/**
+ * Commit (paid) or release (expired / payment failed) what /api/stripe-checkout held for a session:
+ * its stock reservation and its drop purchases (counted against per-member limits). Released items
+ * may end a sell-out, so back-in-stock sign-ups are emailed then (lib/stockNotifications.ts).
+ * Failures are logged only; neither is worth failing the order or membership handling for.
+ */
+async function settleCheckoutHolds(
+  session: Stripe.Checkout.Session,
+  outcome: 'commit' | 'release'
+): Promise<void> {
+  const reference = session.metadata?.stockReservation;
+  if (session.mode !== 'payment' || !supabaseUrl || !supabaseServiceKey) return;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  if (reference) {
+    try {
+      const count =
+        outcome === 'commit'
+          ? await commitStock(supabase, reference)
+          : await releaseStock(supabase, reference);
+      console.log(`[stripe-webhook] Stock ${outcome} for ${session.id}: ${count} reservation(s)`);
+      if (outcome === 'release' && count > 0) await notifyRestocks(supabase);
+    } catch (err) {
+      console.error(`[stripe-webhook] Stock ${outcome} failed for ${session.id}:`, err);
+    }
+  }
+  try {
+    const count = await settleCampaignPurchases(
+      supabase,
+      { stripeSessionId: session.id, reference: session.metadata?.campaignReservation },
+      outcome === 'commit' ? 'paid' : 'released'
+    );
+    if (count > 0) {
+      console.log(`[stripe-webhook] Drop purchases ${outcome} for ${session.id}: ${count} row(s)`);
+    }
+  } catch (err) {
+    console.error(`[stripe-webhook] Drop purchases ${outcome} failed for ${session.id}:`, err);
+  }
+}
+
+/** Email back-in-stock sign-ups the ledger now shows available. Failures are logged only. */
+async function notifyRestocks(supabase: SupabaseClient<any>): Promise<void> {
+  const siteUrl =
+    process.env.NEXT_PUBLIC_SITE_URL ??
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://kandiegang.com');
+  try {
+    const stock = await getStockLevels(supabase);
+    if (!stock) return;
+    const { sent } = await notifyRestockedVariants(supabase, stock, siteUrl);
+    if (sent > 0) console.log(`[stripe-webhook] Sent ${sent} back-in-stock email(s)`);
+  } catch (err) {
+    console.error('[stripe-webhook] Back-in-stock emails failed:', err);
+  }
+}
+
+// ==================== SHOP ORDERS ====================
+
+/**
+ * Add a paid checkout with physical products to `shop_orders` for fulfilment and issue its
+ * invoice. Idempotent per session; throws when the order or invoice cannot be stored so Stripe
+ * retries the event.
+ */
+async function recordCheckoutShopOrder(session: Stripe.Checkout.Session): Promise<void> {
+  if (session.mode !== 'payment' || !isShopOrderCheckout(session.metadata?.productSlugs)) return;
+  if (!stripe || !supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Stripe or Supabase not configured');
+  }
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const lineItems = await stripe.checkout.sessions.listLineItems(session.id, { limit: 100 });
+  const shipping = session.collected_information?.shipping_details ?? null;
+  const address = shipping?.address ?? session.customer_details?.address ?? null;
+  const metadataUserId = session.metadata?.userId;
+  await recordShopOrder(supabase, {
+    stripeSessionId: session.id,
+    userId: metadataUserId && metadataUserId !== 'guest' ? metadataUserId : null,
+    email:
+      (session.customer_details?.email as string | undefined) ??
+      (session.customer_email as string | undefined) ??
+      null,
+    customerName: session.customer_details?.name ?? null,
+    items: lineItems.data.map((lineItem) => ({
+      name: lineItem.description ?? 'Kandie Gang product',
+      quantity: lineItem.quantity ?? 1,
+      amountTotal: lineItem.amount_total ?? null,
+      currency: lineItem.currency ?? session.currency ?? null,
+    })),
+    amountTotal: session.amount_total ?? null,
+    currency: session.currency ?? null,
+    shippingOption:
+      typeof session.metadata?.shippingOption === 'string' ? session.metadata.shippingOption : null,
+    shippingAddress: address
+      ? { name: shipping?.name ?? session.customer_details?.name ?? null, ...address }
+      : null,
+  });
+  const order = await getShopOrderBySession(supabase, session.id);
+  if (!order) throw new Error(`Shop order for ${session.id} missing after recording`);
+  const invoice = await issueShopInvoice(supabase, order);
+  console.log(
+    `[stripe-webhook] Shop order recorded for ${session.id}, invoice ${invoice.invoiceNumber}`
+  );
+}
+
+// ==================== GIFT MEMBERSHIPS ====================
+
+/**
+ * Issue the redeem code for a paid gift checkout and email it to the recipient (the buyer when the
+ * recipient email entered at checkout is unusable). Idempotent per session; throws when the gift
+ * cannot be stored so Stripe retries the event.
+ */
+async function issueCheckoutGift(session: Stripe.Checkout.Session): Promise<void> {
+  if (!isGiftMembershipPurchase(session.metadata?.productSlugs)) return;
+  if (!supabaseUrl || !supabaseServiceKey) throw new Error('Supabase not configured');
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const field = (key: string) =>
+    session.custom_fields?.find((f) => f.key === key)?.text?.value?.trim() || null;
+  const buyerEmail =
+    (session.customer_details?.email as string | undefined) ??
+    (session.customer_email as string | undefined) ??
+    null;
+  const enteredRecipient = field(GIFT_RECIPIENT_EMAIL_FIELD);
+  const recipientEmail = isPlausibleEmail(enteredRecipient) ? enteredRecipient : buyerEmail;
+  if (!recipientEmail) {
+    console.error('[stripe-webhook] Gift checkout without any usable email:', session.id);
+    return;
+  }
+  if (recipientEmail !== enteredRecipient) {
+    console.warn(
+      `[stripe-webhook] Gift ${session.id}: recipient email "${enteredRecipient}" unusable, sending to buyer`
+    );
+  }
+  const metadataUserId = session.metadata?.userId;
+  const gift = await issueGiftMembership(supabase, {
+    stripeSessionId: session.id,
+    purchaserUserId: metadataUserId && metadataUserId !== 'guest' ? metadataUserId : null,
+    purchaserEmail: buyerEmail,
+    recipientEmail,
+    message: field(GIFT_MESSAGE_FIELD),
+  });
+  if (gift.status !== 'issued' || gift.email_sent_at) return;
+  const emailResult = await sendGiftMembershipEmail({
+    to: gift.recipient_email,
+    code: gift.code,
+    message: gift.message,
+    from: session.customer_details?.name ?? buyerEmail,
+  });
+  if (emailResult.success) {
+    await markGiftEmailSent(supabase, gift.id);
+    console.log(`[stripe-webhook] Gift membership ${gift.id} sent for ${session.id}`);
+  } else {
+    console.error('[stripe-webhook] Gift email failed:', emailResult.error);
+  }
+}
+
 // ==================== MAIN WEBHOOK HANDLER ====================
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -595,13 +1133,68 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return handlePaymentIntentSucceeded(event, res);
   }
 
+  if (event.type === 'charge.refunded') {
+    return handleChargeRefunded(event, res);
+  }
+
+  if (event.type === 'charge.dispute.created' || event.type === 'charge.dispute.closed') {
+    return handleDisputeEvent(event, res);
+  }
+
+  if (event.type === 'checkout.session.async_payment_succeeded') {
+    const paidSession = event.data.object as Stripe.Checkout.Session;
+    await settleCheckoutHolds(paidSession, 'commit');
+    try {
+      await recordCheckoutShopOrder(paidSession);
+    } catch (err) {
+      console.error('[stripe-webhook] Recording shop order failed for', paidSession.id, err);
+      return res.status(500).json({ error: 'Failed to record shop order' });
+    }
+    await sendCheckoutOrderNotifications(paidSession);
+    try {
+      await issueCheckoutGift(paidSession);
+    } catch (err) {
+      console.error('[stripe-webhook] Gift membership failed for', paidSession.id, err);
+      return res.status(500).json({ error: 'Failed to issue gift membership' });
+    }
+    return res.status(200).json({ received: true });
+  }
+
+  if (
+    event.type === 'checkout.session.expired' ||
+    event.type === 'checkout.session.async_payment_failed'
+  ) {
+    await settleCheckoutHolds(event.data.object as Stripe.Checkout.Session, 'release');
+    return res.status(200).json({ received: true });
+  }
+
   if (event.type !== 'checkout.session.completed') {
     return res.status(200).json({ received: true });
   }
   const session = event.data.object as Stripe.Checkout.Session;
   const sessionId = session.id;
+  // Delayed payment methods complete unpaid; their holds stay in place until async_payment_*.
+  // The order (and its invoice) is recorded first so the confirmation email can link the invoice.
+  if (session.payment_status !== 'unpaid') {
+    await settleCheckoutHolds(session, 'commit');
+    try {
+      await recordCheckoutShopOrder(session);
+    } catch (err) {
+      console.error('[stripe-webhook] Recording shop order failed for', sessionId, err);
+      return res.status(500).json({ error: 'Failed to record shop order' });
+    }
+  }
   await sendCheckoutOrderNotifications(session);
 
+  if (session.payment_status !== 'unpaid') {
+    try {
+      await issueCheckoutGift(session);
+    } catch (err) {
+      console.error('[stripe-webhook] Gift membership failed for', sessionId, err);
+      return res.status(500).json({ error: 'Failed to issue gift membership' });
+    }
+  }
+
   if (!isClubMembershipPurchase(session.metadata?.productSlugs)) {
     return res.status(200).json({ received: true });
   }
@@ -676,6 +1269,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       is_member: true,
       membership_source: 'supabase',
       membership_plans: plans,
+      membership_tier: parseMembershipTier(session.metadata?.membershipTier) ?? 'standard',
+      // A membership of their own takes a household member out of the household.
+      household_owner_id: null,
       member_since: today,
       membership_expiration: newExpiration,
       // Only set customer_since if not already set — preserves the earliest date
@@ -210,6 +210,99 @@ function MergeSearch({
   );
 }
 
+/* ─── No-show policy override ─── */
+function NoShowOverride({
+  member,
+  onUpdate,
+}: {
+  member: MemberAnalytics;
+  onUpdate: (id: string, updates: Partial<MemberAnalytics>) => void;
+}) {
+  const [lifting, setLifting] = useState(false);
+  const [liftMsg, setLiftMsg] = useState<string | null>(null);
+  const restriction = member.no_show_restriction;
+
+  const handleLift = async () => {
+    setLifting(true);
+    setLiftMsg(null);
+    try {
+      const {
+        data: { session },
+      } = (await supabase?.auth.getSession()) ?? { data: { session: null } };
+      if (!session?.access_token) throw new Error('Not authenticated');
+
+      const forgivenAt = new Date().toISOString();
+      const res = await fetch('/api/admin-update-profile', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          memberId: member.id,
+          updates: { no_show_forgiven_at: forgivenAt },
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || `HTTP ${res.status}`);
+      }
+
+      onUpdate(member.id, {
+        no_show_forgiven_at: forgivenAt,
+        recent_no_show_count: 0,
+        no_show_restriction: null,
+      });
+      setLiftMsg('Lifted');
+      setTimeout(() => setLiftMsg(null), 2000);
+    } catch (err) {
+      setLiftMsg(err instanceof Error ? err.message : 'Failed to lift');
+    } finally {
+      setLifting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <DetailField label="Recent no-shows" value={member.recent_no_show_count || 0} />
+      {restriction ? (
+        <div className="space-y-2">
+          <Badge color="#ef4444">
+            {restriction.penalty === 'waitlist-only' ? 'Waitlist only' : 'No early access'} until{' '}
+            {new Date(restriction.until).toLocaleDateString()}
+          </Badge>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={lifting}
+              onClick={handleLift}
+              className="px-3 py-1 rounded text-xs font-medium bg-neutral-900 text-white hover:bg-[#ff611a] transition-colors"
+            >
+              {lifting ? 'Lifting…' : 'Lift restriction'}
+            </button>
+          </div>
+          <p className="text-neutral-300 text-xs">
+            Earlier no-shows stop counting; new ones count from now.
+          </p>
+        </div>
+      ) : (
+        member.no_show_forgiven_at && (
+          <DetailField
+            label="Last lifted"
+            value={new Date(member.no_show_forgiven_at).toLocaleDateString()}
+          />
+        )
+      )}
+      {liftMsg && (
+        <span className={`text-xs ${liftMsg === 'Lifted' ? 'text-emerald-500' : 'text-red-500'}`}>
+          {liftMsg}
+        </span>
+      )}
+    </div>
+  );
+}
+
 /* ─── Expanded detail panel ─── */
 function MemberDetailPanel({
   member,
@@ -441,6 +534,14 @@ function MemberDetailPanel({
               label="Plans"
               value={member.membership_plans?.length ? member.membership_plans.join(', ') : null}
             />
+            <DetailField
+              label="Tier"
+              value={
+                member.is_member
+                  ? `${member.membership_tier ?? 'standard'}${member.household_owner_id ? ' (household member)' : ''}`
+                  : null
+              }
+            />
             <DetailField
               label="Member Since"
               value={
@@ -756,6 +857,11 @@ function MemberDetailPanel({
               )}
             </div>
 
+            <div className="border-t border-neutral-200 pt-4 mt-4">
+              <SectionLabel>No-show Policy</SectionLabel>
+              <NoShowOverride member={member} onUpdate={onUpdate} />
+            </div>
+
             <div className="border-t border-neutral-200 pt-4 mt-4">
               <SectionLabel>Merge Profile</SectionLabel>
               <MergeSearch currentMember={member} allMembers={allMembers} onMerged={onMerged} />
@@ -847,6 +953,11 @@ function MemberRow({
               <Badge color="#ef4444">⚠ {member.days_until_expiration}d</Badge>
             </span>
           )}
+          {member.no_show_restriction && (
+            <span className="ml-1" title="Restricted by the no-show policy">
+              <Badge color="#ef4444">No-shows</Badge>
+            </span>
+          )}
         </td>
         <td className="py-3 px-4 text-neutral-500">
           {member.last_login ? (
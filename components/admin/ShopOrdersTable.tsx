@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { useShopOrders, type ShopOrderFilter } from '../../hooks/useShopOrders';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  ORDER_CARRIERS,
+  SHOP_ORDER_STATUS_LABELS,
+  nextShopOrderStatuses,
+  type ShopOrder,
+  type ShopOrderStatus,
+} from '../../lib/shopOrders';
+import { SHIPPING_RATES } from '../../lib/shipping';
+import { formatMoney } from '../../lib/money';
+
+const FILTERS: { id: ShopOrderFilter; label: string }[] = [
+  { id: 'open', label: 'To do' },
+  { id: 'shipped', label: 'Shipped' },
+  { id: 'picked_up', label: 'Picked up' },
+  { id: 'returned', label: 'Returned' },
+  { id: 'all', label: 'All' },
+];
+
+const STATUS_COLORS: Record<ShopOrderStatus, string> = {
+  paid: '#ff611a',
+  packed: '#7c3aed',
+  shipped: '#16a34a',
+  picked_up: '#16a34a',
+  returned: '#737373',
+};
+
+function Badge({ children, color }: { children: React.ReactNode; color: string }) {
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${color}14`, color, border: `1px solid ${color}30` }}
+    >
+      {children}
+    </span>
+  );
+}
+
+function formatAmount(amount: number | null, currency: string | null): string {
+  if (amount === null) return '—';
+  return formatMoney(amount, currency);
+}
+
+function formatAddress(address: ShopOrder['shippingAddress']): string {
+  if (!address) return '';
+  return [
+    address.name,
+    address.line1,
+    address.line2,
+    [address.postal_code, address.city].filter(Boolean).join(' '),
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+async function postOrderStatus(body: Record<string, unknown>): Promise<void> {
+  const {
+    data: { session },
+  } = (await supabase?.auth.getSession()) ?? { data: { session: null } };
+  if (!session?.access_token) throw new Error('Not authenticated');
+  const res = await fetch('/api/admin-update-profile', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action: 'admin-order-status', ...body }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+}
+
+/* ─── One order with its fulfilment actions ─── */
+function OrderRow({ order, onChanged }: { order: ShopOrder; onChanged: () => void }) {
+  const [shipping, setShipping] = useState(false);
+  const [carrier, setCarrier] = useState(order.carrier ?? 'dhl');
+  const [trackingNumber, setTrackingNumber] = useState(order.trackingNumber ?? '');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shippingLabel =
+    SHIPPING_RATES.find((rate) => rate.option === order.shippingOption)?.label ??
+    order.shippingOption ??
+    '—';
+
+  async function move(status: ShopOrderStatus) {
+    if (status === 'returned' && !window.confirm('Mark this order as returned?')) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await postOrderStatus({
+        orderId: order.id,
+        status,
+        ...(status === 'shipped' && { carrier, trackingNumber }),
+      });
+      setShipping(false);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <tr className="border-t border-neutral-100 align-top">
+      <td className="px-4 py-3 text-neutral-500 whitespace-nowrap">
+        {new Date(order.createdAt).toLocaleDateString('en-GB')}
+      </td>
+      <td className="px-4 py-3">
+        <p className="text-neutral-900">{order.customerName ?? '—'}</p>
+        <p className="text-xs text-neutral-500">{order.email ?? 'no email'}</p>
+        {order.shippingAddress && (
+          <p className="text-xs text-neutral-400 mt-1">{formatAddress(order.shippingAddress)}</p>
+        )}
+      </td>
+      <td className="px-4 py-3 text-neutral-700">
+        {order.items.map((item, i) => (
+          <p key={i}>
+            {item.quantity}× {item.name}
+          </p>
+        ))}
+        <p className="text-xs text-neutral-500 mt-1">
+          {formatAmount(order.amountTotal, order.currency)} · {shippingLabel}
+        </p>
+        {order.invoiceUrl && (
+          <a
+            href={order.invoiceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-neutral-500 underline"
+          >
+            Invoice {order.invoiceNumber}
+          </a>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        <Badge color={STATUS_COLORS[order.status]}>{SHOP_ORDER_STATUS_LABELS[order.status]}</Badge>
+        {order.trackingNumber && (
+          <p className="text-xs text-neutral-500 mt-1">
+            {order.carrier ? `${ORDER_CARRIERS[order.carrier]?.label ?? order.carrier} ` : ''}
+            {order.trackingUrl ? (
+              <a
+                href={order.trackingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+              >
+                {order.trackingNumber}
+              </a>
+            ) : (
+              order.trackingNumber
+            )}
+          </p>
+        )}
+        {order.shippingEmailSentAt && (
+          <p className="text-xs text-neutral-400 mt-1">Customer emailed</p>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        {shipping ? (
+          <div className="flex flex-col gap-2 min-w-[200px]">
+            <select
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              className="rounded-md border border-neutral-300 bg-white px-2 py-1 text-sm"
+            >
+              {Object.entries(ORDER_CARRIERS).map(([id, c]) => (
+                <option key={id} value={id}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Tracking number (optional)"
+              className="rounded-md border border-neutral-300 bg-white px-2 py-1 text-sm"
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={loading}
+                onClick={() => move('shipped')}
+                className="px-3 py-1 bg-neutral-900 text-white text-xs rounded-md hover:bg-neutral-700 disabled:opacity-50"
+              >
+                {order.status === 'shipped' ? 'Save tracking' : 'Mark shipped & email'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShipping(false)}
+                className="px-3 py-1 text-xs text-neutral-500 hover:text-neutral-900"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {nextShopOrderStatuses(order).map((status) => (
+              <button
+                key={status}
+                type="button"
+                disabled={loading}
+                onClick={() => (status === 'shipped' ? setShipping(true) : move(status))}
+                className="px-3 py-1 border border-neutral-300 text-xs rounded-md text-neutral-700 hover:border-neutral-900 disabled:opacity-50"
+              >
+                {status === 'shipped' && order.status === 'shipped'
+                  ? 'Edit tracking'
+                  : status === 'paid'
+                    ? 'Unpack'
+                    : SHOP_ORDER_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Shop orders from the Stripe webhook, for packing and shipping. Marking an order shipped emails
+ * the customer; the members area shows the same status and tracking link.
+ */
+export function ShopOrdersTable() {
+  const [filter, setFilter] = useState<ShopOrderFilter>('open');
+  const { orders, loading, error, refresh } = useShopOrders(filter);
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-xl overflow-hidden">
+      <div className="flex flex-wrap gap-2 p-4 border-b border-neutral-200">
+        {FILTERS.map((f) => (
+          <button
+            key={f.id}
+            type="button"
+            onClick={() => setFilter(f.id)}
+            className={`rounded-md px-3 py-1.5 text-sm transition-colors ${
+              filter === f.id
+                ? 'bg-neutral-900 text-white'
+                : 'text-neutral-600 hover:text-neutral-900'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      {loading ? (
+        <div className="p-6 text-sm text-neutral-400">Loading orders…</div>
+      ) : error ? (
+        <div className="p-6 text-sm text-red-600">{error}</div>
+      ) : orders.length === 0 ? (
+        <div className="p-6 text-sm text-neutral-500">No orders here.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-[0.1em] text-neutral-500">
+                <th className="px-4 py-3 font-medium">Date</th>
+                <th className="px-4 py-3 font-medium">Customer</th>
+                <th className="px-4 py-3 font-medium">Items</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((order) => (
+                <OrderRow key={order.id} order={order} onChanged={refresh} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
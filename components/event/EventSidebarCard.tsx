@@ -2,10 +2,21 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { ChevronDown, Link, Info, User, Clock, X } from 'lucide-react';
 import { motion, useSpring, AnimatePresence } from 'framer-motion';
+import type { RouteSummary } from '../../lib/gpx';
+import { RouteProfile } from './RouteProfile';
+import {
+  formatWaitlistChance,
+  formatWaitlistPosition,
+  type WaitlistStanding,
+} from '../../lib/waitlistOdds';
 
 interface EventSidebarCardProps {
   date: string;
   time?: string;
+  /** Upcoming dates ("YYYY-MM-DD") of a recurring series; renders a date picker when set. */
+  occurrences?: string[];
+  selectedOccurrence?: string | null;
+  onSelectOccurrence?: (date: string) => void;
   location: string;
   category?: string;
   type?: string;
@@ -17,6 +28,8 @@ interface EventSidebarCardProps {
     pace?: string;
     distanceKm?: number | null;
     routeUrl?: string;
+    /** Stats and profile parsed from the level's GPX (see lib/gpx.ts). */
+    route?: RouteSummary | null;
     places?: number;
     spotsLeft?: number;
     isSoldOut?: boolean;
@@ -33,6 +46,8 @@ interface EventSidebarCardProps {
   };
   onSignup?: (level: { levelKey: string; label: string }) => void;
   registrations?: Record<string, { isWaitlist: boolean }>;
+  /** Queue place and odds for the signed-in rider's waitlisted levels (capacity API). */
+  waitlistStandings?: Record<string, WaitlistStanding>;
   onCancelRegistration?: (levelKey: string) => void;
   workshop?: {
     capacity: number;
@@ -114,9 +129,22 @@ const GuideHoverName: React.FC<{
   );
 };
 
+const WaitlistStandingNote: React.FC<{ standing: WaitlistStanding }> = ({ standing }) => {
+  const chance = formatWaitlistChance(standing);
+  return (
+    <>
+      <p className="mt-1 text-xs">{formatWaitlistPosition(standing)}</p>
+      {chance && <p className="mt-0.5 text-xs text-slate-500">{chance}</p>}
+    </>
+  );
+};
+
 const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
   date,
   time,
+  occurrences,
+  selectedOccurrence,
+  onSelectOccurrence,
   location,
   category,
   type,
@@ -128,6 +156,7 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
   signupState,
   onSignup,
   registrations,
+  waitlistStandings,
   onCancelRegistration,
   workshop,
   participantsByLevel,
@@ -197,6 +226,32 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
             {date}
             {time && <span className={`ml-2 ${valueClass}`}>{time}</span>}
           </p>
+          {occurrences && occurrences.length > 1 && onSelectOccurrence && (
+            <div className="flex flex-wrap gap-2 pt-2" role="group" aria-label="Choose a date">
+              {occurrences.map((occurrence) => {
+                const isSelected = occurrence === selectedOccurrence;
+                return (
+                  <button
+                    key={occurrence}
+                    type="button"
+                    onClick={() => onSelectOccurrence(occurrence)}
+                    aria-pressed={isSelected}
+                    className={`rounded-full border px-3 py-1 text-xs transition-colors ${
+                      isSelected
+                        ? 'border-secondary-purple-rain bg-secondary-purple-rain text-white'
+                        : 'border-secondary-purple-rain/30 text-secondary-purple-rain hover:bg-secondary-purple-rain/10'
+                    }`}
+                  >
+                    {new Date(`${occurrence}T12:00:00`).toLocaleDateString([], {
+                      weekday: 'short',
+                      day: 'numeric',
+                      month: 'short',
+                    })}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
         <div className="space-y-3">
           <div>
@@ -279,11 +334,18 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
                               : `${level.places ?? placesPerGuide * level.guides.length} total · ${level.spotsLeft} left`}
                           </p>
                         </div>
-                        {typeof level.distanceKm === 'number' && (
+                        {level.route ? (
                           <div>
-                            <p className={labelClass}>Distance</p>
-                            <p className={valueClass}>{`${level.distanceKm} km`}</p>
+                            <p className={labelClass}>Route profile</p>
+                            <RouteProfile route={level.route} label={level.label} />
                           </div>
+                        ) : (
+                          typeof level.distanceKm === 'number' && (
+                            <div>
+                              <p className={labelClass}>Distance</p>
+                              <p className={valueClass}>{`${level.distanceKm} km`}</p>
+                            </div>
+                          )
                         )}
                         {level.pace && (
                           <div>
@@ -330,6 +392,9 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
                                 ? "You're on the waitlist."
                                 : "You're spot is saved."}
                             </p>
+                            {registration.isWaitlist && waitlistStandings?.[level.levelKey] && (
+                              <WaitlistStandingNote standing={waitlistStandings[level.levelKey]} />
+                            )}
                             <button
                               type="button"
                               onClick={() =>
@@ -437,11 +502,18 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
                                   : `${level.places ?? placesPerGuide * level.guides.length} total · ${level.spotsLeft} left`}
                             </p>
                           </div>
-                          {typeof level.distanceKm === 'number' && (
+                          {level.route ? (
                             <div>
-                              <p className={labelClass}>Distance</p>
-                              <p className={valueClass}>{`${level.distanceKm} km`}</p>
+                              <p className={labelClass}>Route profile</p>
+                              <RouteProfile route={level.route} label={level.label} />
                             </div>
+                          ) : (
+                            typeof level.distanceKm === 'number' && (
+                              <div>
+                                <p className={labelClass}>Distance</p>
+                                <p className={valueClass}>{`${level.distanceKm} km`}</p>
+                              </div>
+                            )
                           )}
                           {level.pace && (
                             <div>
@@ -488,6 +560,9 @@ const EventSidebarCard: React.FC<EventSidebarCardProps> = ({
                                   ? "You're on the waitlist."
                                   : "You're spot is saved."}
                               </p>
+                              {registration.isWaitlist && waitlistStandings?.[level.levelKey] && (
+                                <WaitlistStandingNote standing={waitlistStandings[level.levelKey]} />
+                              )}
                               <button
                                 type="button"
                                 onClick={() =>
@@ -5,6 +5,12 @@ import { supabase } from '../../lib/supabaseClient';
 import { Turnstile } from '@marsidev/react-turnstile';
 import { generateIcs } from '../../lib/ics';
 import { hasActiveMembership } from '../../lib/membership';
+import { CURRENT_WAIVER_VERSION } from '../../lib/waivers';
+import {
+  formatWaitlistChance,
+  formatWaitlistPosition,
+  type WaitlistStanding,
+} from '../../lib/waitlistOdds';
 
 export type EventSignupIntent = {
   eventId: string;
@@ -25,6 +31,8 @@ export type EventSignupIntent = {
   eventTime?: string;
   /** Human-readable location string */
   eventLocation?: string;
+  /** "YYYY-MM-DD" — the chosen date of a recurring series */
+  occurrenceDate?: string;
 };
 
 export interface EventSignupPanelProps {
@@ -61,12 +69,15 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
   const [firstName, setFirstName] = useState(intent.firstName ?? '');
   const [lastName, setLastName] = useState(intent.lastName ?? '');
   const [flintaAttested, setFlintaAttested] = useState(false);
+  const [waiverAccepted, setWaiverAccepted] = useState(false);
   const [registrationCode, setRegistrationCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   // magicLinkSent is unused, removed
   const [signupComplete, setSignupComplete] = useState(false);
   const [waitlisted, setWaitlisted] = useState(false);
+  const [waitlistStanding, setWaitlistStanding] = useState<WaitlistStanding | null>(null);
+  const [noShowNote, setNoShowNote] = useState<string | null>(null);
   const [turnstileToken, setTurnstileToken] = useState<string>('');
   const [manualEmail, setManualEmail] = useState('');
 
@@ -75,6 +86,7 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
   const needsFlintaAttestation = intent.requiresFlintaAttestation;
   const needsRegistrationCode = Boolean(intent.hasRegistrationCode);
   const canSubmit =
+    waiverAccepted &&
     (!needsFlintaAttestation || flintaAttested) &&
     (!needsRegistrationCode || registrationCode.trim().length > 0);
   const hasAuthEmail = user?.email && user.email.length > 0;
@@ -119,6 +131,11 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
         setIsSubmitting(false);
         return;
       }
+      if (!waiverAccepted) {
+        setError('Please accept the ride waiver.');
+        setIsSubmitting(false);
+        return;
+      }
       if (!canSubmit) {
         setError('Please confirm the FLINTA* self-attestation.');
         setIsSubmitting(false);
@@ -144,6 +161,8 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
           eventDate: intent.eventDate,
           eventTime: intent.eventTime,
           eventLocation: intent.eventLocation,
+          occurrenceDate: intent.occurrenceDate,
+          waiverVersion: CURRENT_WAIVER_VERSION,
         }),
       });
       const data = await response.json().catch(() => ({}));
@@ -154,6 +173,8 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
       }
       emitSignupComplete(intent.eventId);
       if (data?.waitlisted) {
+        setWaitlistStanding(data?.waitlist ?? null);
+        setNoShowNote(data?.noShowRestriction?.message ?? null);
         setWaitlisted(true);
       } else {
         setSignupComplete(true);
@@ -178,6 +199,10 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
       setError('Last name is required.');
       return;
     }
+    if (!waiverAccepted) {
+      setError('Please accept the ride waiver.');
+      return;
+    }
     if (!canSubmit) {
       setError('Please confirm the FLINTA* self-attestation.');
       return;
@@ -220,6 +245,8 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
         eventDate: intent.eventDate,
         eventTime: intent.eventTime,
         eventLocation: intent.eventLocation,
+        occurrenceDate: intent.occurrenceDate,
+        waiverVersion: CURRENT_WAIVER_VERSION,
       };
       const response = await fetch('/api/event', {
         method: 'POST',
@@ -241,6 +268,8 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
       }
       emitSignupComplete(intent.eventId);
       if (data?.waitlisted) {
+        setWaitlistStanding(data?.waitlist ?? null);
+        setNoShowNote(data?.noShowRestriction?.message ?? null);
         setWaitlisted(true);
       } else {
         setSignupComplete(true);
@@ -260,6 +289,8 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
     sessionStorage.removeItem(EVENT_SIGNUP_STORAGE_KEY);
     setSignupComplete(false);
     setWaitlisted(false);
+    setWaitlistStanding(null);
+    setNoShowNote(null);
     // setMagicLinkSent is removed to fix TypeScript errors
     setIsSubmitting(false);
     setError(null);
@@ -274,6 +305,19 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
           We have added you to the waitlist for <strong>{levelSummary}</strong>. If a spot opens up,
           we will email you right away.
         </p>
+        {waitlistStanding && (
+          <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            <p className="font-semibold">{formatWaitlistPosition(waitlistStanding)}</p>
+            {formatWaitlistChance(waitlistStanding) && (
+              <p className="mt-1 text-xs text-slate-600">{formatWaitlistChance(waitlistStanding)}</p>
+            )}
+          </div>
+        )}
+        {noShowNote && (
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            {noShowNote}
+          </p>
+        )}
         <button type="button" onClick={handleClose} className={btnPrimary}>
           Close
         </button>
@@ -401,6 +445,28 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
             </div>
           )}
 
+          <label className="flex items-start gap-3 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={waiverAccepted}
+              onChange={(e) => setWaiverAccepted(e.target.checked)}
+              required
+            />
+            <span>
+              I have read and accept the{' '}
+              <a
+                href="/waiver"
+                className="text-secondary-purple-rain hover:underline"
+                target="_blank"
+                rel="noreferrer"
+              >
+                Ride Waiver
+              </a>{' '}
+              (version {CURRENT_WAIVER_VERSION}).
+            </span>
+          </label>
+
           {needsFlintaAttestation && (
             <label className="flex items-start gap-3 text-sm text-slate-700">
               <input
@@ -563,6 +629,28 @@ export const EventSignupPanel: React.FC<EventSignupPanelProps> = ({ intent, onCl
         </div>
       )}
 
+      <label className="flex items-start gap-3 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={waiverAccepted}
+          onChange={(e) => setWaiverAccepted(e.target.checked)}
+          required
+        />
+        <span>
+          I have read and accept the{' '}
+          <a
+            href="/waiver"
+            className="text-secondary-purple-rain hover:underline"
+            target="_blank"
+            rel="noreferrer"
+          >
+            Ride Waiver
+          </a>{' '}
+          (version {CURRENT_WAIVER_VERSION}).
+        </span>
+      </label>
+
       {needsFlintaAttestation && (
         <label className="flex items-start gap-3 text-sm text-slate-700">
           <input
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import type { RouteSummary } from '../../lib/gpx';
+
+type RouteProfileProps = {
+  route: RouteSummary;
+  label: string;
+};
+
+const PROFILE_WIDTH = 240;
+const PROFILE_HEIGHT = 64;
+const OUTLINE_SIZE = 64;
+
+/** Static SVG elevation profile and route outline built from the server-side GPX summary. */
+export const RouteProfile: React.FC<RouteProfileProps> = ({ route, label }) => {
+  const profilePath = useMemo(() => {
+    if (route.profile.length < 2) return null;
+    const total = route.profile[route.profile.length - 1][0] || 1;
+    const min = route.minEleM ?? 0;
+    const range = Math.max((route.maxEleM ?? min) - min, 20);
+    const points = route.profile.map(([km, ele]) => {
+      const x = (km / total) * PROFILE_WIDTH;
+      const y = PROFILE_HEIGHT - ((ele - min) / range) * (PROFILE_HEIGHT - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return `M0,${PROFILE_HEIGHT} L${points.join(' L')} L${PROFILE_WIDTH},${PROFILE_HEIGHT} Z`;
+  }, [route]);
+
+  const outlinePath = useMemo(() => {
+    if (route.outline.length < 2) return null;
+    const lat0 = (route.outline[0][0] * Math.PI) / 180;
+    const xy = route.outline.map(([lat, lon]) => [lon * Math.cos(lat0), -lat]);
+    const xs = xy.map((p) => p[0]);
+    const ys = xy.map((p) => p[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+    const pad = 4;
+    const scale = (OUTLINE_SIZE - pad * 2) / span;
+    return xy
+      .map(
+        ([x, y], i) =>
+          `${i === 0 ? 'M' : 'L'}${(pad + (x - minX) * scale).toFixed(1)},${(pad + (y - minY) * scale).toFixed(1)}`
+      )
+      .join(' ');
+  }, [route]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-700">
+        {route.distanceKm} km
+        {route.elevationGainM !== null && ` · ${route.elevationGainM} m climbing`}
+        {route.maxGradientPct !== null && ` · max ${route.maxGradientPct}%`}
+      </p>
+      <div className="flex items-end gap-3">
+        {profilePath && (
+          <svg
+            viewBox={`0 0 ${PROFILE_WIDTH} ${PROFILE_HEIGHT}`}
+            className="h-16 flex-1 min-w-0"
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={`${label} elevation profile: ${route.minEleM}–${route.maxEleM} m`}
+          >
+            <path
+              d={profilePath}
+              className="fill-secondary-purple-rain/20 stroke-secondary-purple-rain"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+        {outlinePath && (
+          <svg
+            viewBox={`0 0 ${OUTLINE_SIZE} ${OUTLINE_SIZE}`}
+            className="h-16 w-16 shrink-0"
+            role="img"
+            aria-label={`${label} route outline`}
+          >
+            <path
+              d={outlinePath}
+              fill="none"
+              className="stroke-slate-600"
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
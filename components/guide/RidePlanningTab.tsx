@@ -2,6 +2,19 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { ChevronDown } from 'lucide-react';
 import toast, { Toaster } from 'react-hot-toast';
 import { useGuideRidePlanning } from '../../hooks/useGuideRidePlanning';
+import type { RosterSuggestion } from '../../lib/guideRoster';
+import type { GuideSyncResult } from '../../lib/guideEventSync';
+import type { GuideSwapRequest, LevelShortfall } from '../../lib/guideSwaps';
+import type { RidePlanDiscordResult } from '../../lib/ridePlanDiscord';
+import {
+  RIDE_LEVEL_OPTIONS,
+  WEEKDAY_NAMES,
+  choiceForLevel,
+  levelForChoice,
+  levelLabel,
+  slotDates,
+  type RideSlot,
+} from '../../lib/rideSlots';
 import type {
   GuideAssignmentEntry,
   GuideChoice,
@@ -10,17 +23,53 @@ import type {
   RideLevel,
 } from '../../types/guideRidePlanning';
 
-const LEVELS: RideLevel[] = ['2', '2+', '3'];
 const SHOW_ADVANCED_AVAILABILITY = false;
-const GUIDE_CHOICE_OPTIONS: Array<{ value: GuideChoice; label: string }> = [
-  { value: 'level2', label: 'Level 2' },
-  { value: 'level2plus', label: 'Level 2+' },
-  { value: 'level3', label: 'Level 3' },
+/** Shown after the slot's level choices. */
+const NON_GUIDING_CHOICE_OPTIONS: Array<{ value: GuideChoice; label: string }> = [
   { value: 'participant', label: 'Teilnehmer:in' },
   { value: 'no_time', label: 'Keine Zeit' },
   { value: 'injured', label: 'Verletzt' },
 ];
 
+function guideChoiceOptions(slot: RideSlot): Array<{ value: GuideChoice; label: string }> {
+  return [
+    ...slot.levels.flatMap((level) => {
+      const choice = choiceForLevel(level);
+      return choice ? [{ value: choice, label: levelLabel(level) }] : [];
+    }),
+    ...NON_GUIDING_CHOICE_OPTIONS,
+  ];
+}
+
+type SlotForm = {
+  slotId: string;
+  title: string;
+  weekday: number;
+  levels: RideLevel[];
+  guidesPerLevel: number;
+  seasonStart: string;
+  seasonEnd: string;
+  weeksAhead: number;
+  isActive: boolean;
+};
+
+const EMPTY_SLOT_FORM: SlotForm = {
+  slotId: '',
+  title: '',
+  weekday: 6,
+  levels: ['gravel'],
+  guidesPerLevel: 2,
+  seasonStart: '',
+  seasonEnd: '',
+  weeksAhead: 8,
+  isActive: true,
+};
+
+function toSlotForm(slot: RideSlot): SlotForm {
+  const { id, ...rest } = slot;
+  return { slotId: id, ...rest };
+}
+
 function statusBadgeClass(status: GuideDecisionStatus): string {
   if (status === 'assigned') return 'bg-emerald-50 text-emerald-700 border-emerald-200';
   if (status === 'standby') return 'bg-violet-50 text-violet-700 border-violet-200';
@@ -115,26 +164,305 @@ function AvatarStack({
   );
 }
 
-function buildTuesdayWindow(lastOpenedDateIso?: string): string[] {
+function RosterSuggestionPanel({
+  levels,
+  suggestion,
+  assignments,
+  disabled,
+  onApply,
+  onDiscard,
+}: {
+  levels: RideLevel[];
+  suggestion: RosterSuggestion;
+  assignments: GuideAssignmentEntry[];
+  disabled: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+}) {
+  const entryById = Object.fromEntries(assignments.map((entry) => [entry.id, entry]));
+  const guideName = (assignmentId: string) => {
+    const guide = entryById[assignmentId]?.guide;
+    return guide?.display_name ?? guide?.username ?? 'Unknown guide';
+  };
+
+  return (
+    <div className="border border-[#ff611a]/40 bg-orange-50/40 rounded-lg p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-neutral-900">Suggested roster</p>
+        <p className="text-xs text-neutral-500 mt-1">
+          FLINTA priority first, then fewest rides this season. Guides who guided a level together
+          recently are split up where possible. Numbers are rides guided this season.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {levels.map((level) => {
+          const levelEntries = suggestion.entries.filter((entry) => entry.level === level);
+          const assigned = levelEntries.filter((entry) => entry.decisionStatus === 'assigned');
+          const springer = levelEntries.filter((entry) => entry.decisionStatus === 'standby');
+          const missing = suggestion.unfilled[level] ?? 0;
+          return (
+            <div key={level} className="bg-white border border-neutral-200 rounded-lg p-3 text-sm">
+              <p className="text-xs uppercase tracking-[0.08em] text-neutral-500 mb-2">{levelLabel(level)}</p>
+              {assigned.length === 0 && <p className="text-xs text-neutral-400">No guides</p>}
+              {assigned.map((entry) => (
+                <p key={entry.assignmentId} className="text-neutral-900">
+                  {guideName(entry.assignmentId)}{' '}
+                  <span className="text-xs text-neutral-400">({entry.seasonLoad})</span>
+                  {entryById[entry.assignmentId]?.guide?.guide_flinta_priority && (
+                    <span className="ml-1 text-[11px] uppercase tracking-[0.08em] text-violet-600">FLINTA</span>
+                  )}
+                </p>
+              ))}
+              {missing > 0 && (
+                <p className="text-xs text-red-600 mt-1">
+                  {missing} guide{missing === 1 ? '' : 's'} missing
+                </p>
+              )}
+              {springer.length > 0 && (
+                <p className="text-xs text-violet-700 mt-2">
+                  Springer: {springer.map((entry) => guideName(entry.assignmentId)).join(', ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {suggestion.repeatedPairs > 0 && (
+        <p className="text-xs text-amber-700">
+          {suggestion.repeatedPairs === 1
+            ? 'One pairing has guided together in the last weeks; there was no better option.'
+            : `${suggestion.repeatedPairs} pairings have guided together in the last weeks; there was no better option.`}
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={disabled || suggestion.entries.length === 0}
+          className="px-3 py-1.5 rounded-md bg-[#ff611a] text-white text-xs hover:bg-[#e35617] disabled:opacity-50"
+        >
+          Apply roster
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-md border border-neutral-200 text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function GuideSyncPanel({
+  result,
+  disabled,
+  onLink,
+  onClose,
+}: {
+  result: GuideSyncResult;
+  disabled: boolean;
+  onLink: (wpEventId: number) => void;
+  onClose: () => void;
+}) {
+  const [eventIdInput, setEventIdInput] = useState('');
+  const guideNames = (guides: Array<{ name: string }>) =>
+    guides.length ? guides.map((guide) => guide.name).join(', ') : '—';
+
+  return (
+    <div className="border border-neutral-200 bg-neutral-50 rounded-lg p-4 space-y-3">
+      {result.status === 'linked' ? (
+        <>
+          <div>
+            <p className="text-sm font-medium text-neutral-900">
+              Event guides: {result.report.eventTitle} (#{result.report.wpEventId})
+            </p>
+            <p className="text-xs text-neutral-500 mt-1">
+              The event page, capacity and guide tools use the planned guides below. WordPress is
+              only shown for comparison; update its guide fields by hand if you want them to match.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {result.report.levels.map((level) => (
+              <div key={level.level} className="bg-white border border-neutral-200 rounded-lg p-3 text-sm">
+                <p className="text-xs uppercase tracking-[0.08em] text-neutral-500 mb-2">
+                  {levelLabel(levelForChoice(level.level) ?? level.level)}
+                </p>
+                <p className="text-neutral-900">Plan: {guideNames(level.planned)}</p>
+                <p className="text-xs text-neutral-500 mt-1">WordPress: {guideNames(level.wordpress)}</p>
+                {level.missingInWordPress.length > 0 && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Not in WordPress: {guideNames(level.missingInWordPress)}
+                  </p>
+                )}
+                {level.notPlanned.length > 0 && (
+                  <p className="text-xs text-amber-700 mt-1">Not planned: {guideNames(level.notPlanned)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          {result.report.inSync && (
+            <p className="text-xs text-emerald-700">WordPress lists the same guides as the plan.</p>
+          )}
+        </>
+      ) : (
+        <div>
+          <p className="text-sm font-medium text-neutral-900">No WordPress event linked</p>
+          <p className="text-xs text-neutral-500 mt-1">
+            {result.candidates.length === 0
+              ? `No ride event rides on ${toDashboardDate(result.rideDate)}. Enter its WordPress event ID.`
+              : `Several events ride on ${toDashboardDate(result.rideDate)}. Pick the one this plan staffs.`}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {result.candidates.map((event) => (
+              <button
+                key={event.eventId}
+                type="button"
+                onClick={() => onLink(event.eventId)}
+                disabled={disabled}
+                className="px-3 py-1.5 rounded-md border border-neutral-200 bg-white text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+              >
+                {event.title} (#{event.eventId})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          value={eventIdInput}
+          onChange={(e) => setEventIdInput(e.target.value)}
+          placeholder="WordPress event ID"
+          className="w-44 border border-neutral-200 rounded-md px-3 py-1.5 text-xs"
+        />
+        <button
+          type="button"
+          onClick={() => onLink(Number(eventIdInput))}
+          disabled={disabled || !(Number(eventIdInput) > 0)}
+          className="px-3 py-1.5 rounded-md border border-neutral-200 bg-white text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+        >
+          Link event
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-md border border-neutral-200 bg-white text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SwapRequestsPanel({
+  requests,
+  assignments,
+  currentUserId,
+  canCoordinate,
+  disabled,
+  onAccept,
+  onWithdraw,
+}: {
+  requests: GuideSwapRequest[];
+  assignments: GuideAssignmentEntry[];
+  currentUserId: string;
+  canCoordinate: boolean;
+  disabled: boolean;
+  onAccept: (request: GuideSwapRequest) => void;
+  onWithdraw: (request: GuideSwapRequest) => void;
+}) {
+  const guideName = (profileId: string) => {
+    const guide = assignments.find((entry) => entry.guide_profile_id === profileId)?.guide;
+    return guide?.display_name ?? guide?.username ?? 'Unknown guide';
+  };
+
+  return (
+    <div className="border border-amber-200 bg-amber-50/60 rounded-lg p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-neutral-900">Swap and sick-leave requests</p>
+        <p className="text-xs text-neutral-500 mt-1">
+          Standby guides of the level are asked in standby order; the first to take over gets the
+          ride. Requests nobody takes close the day before the ride.
+        </p>
+      </div>
+      {requests.map((request) => {
+        const isOpen = request.status === 'open';
+        return (
+          <div
+            key={request.id}
+            className="bg-white border border-neutral-200 rounded-lg px-3 py-2 flex flex-wrap items-center justify-between gap-2"
+          >
+            <div>
+              <p className="text-sm text-neutral-900">
+                {guideName(request.requested_by)}{' '}
+                {request.kind === 'sick' ? 'reported sick' : 'asks for a swap'} ·{' '}
+                {levelLabel(request.ride_level)} · {toDashboardDate(request.ride_date)}
+              </p>
+              <p className="text-xs text-neutral-500">
+                {isOpen
+                  ? `Offered to ${request.offered_to.map(guideName).join(', ')}`
+                  : 'No standby guide took over.'}
+              </p>
+              {request.note && <p className="text-xs text-neutral-600 mt-1">{request.note}</p>}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`inline-flex border rounded-full px-2 py-1 text-xs font-medium ${
+                  isOpen
+                    ? 'bg-amber-100 text-amber-800 border-amber-200'
+                    : 'bg-red-100 text-red-700 border-red-200'
+                }`}
+              >
+                {request.status}
+              </span>
+              {isOpen && request.offered_to.includes(currentUserId) && (
+                <button
+                  type="button"
+                  onClick={() => onAccept(request)}
+                  disabled={disabled}
+                  className="px-2 py-1 text-xs rounded border border-emerald-200 text-emerald-700 hover:bg-emerald-50 disabled:opacity-50"
+                >
+                  Take over
+                </button>
+              )}
+              {isOpen && (request.requested_by === currentUserId || canCoordinate) && (
+                <button
+                  type="button"
+                  onClick={() => onWithdraw(request)}
+                  disabled={disabled}
+                  className="px-2 py-1 text-xs rounded border border-neutral-200 hover:bg-neutral-100 disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Slot ride dates from the start of this month through next month, plus every opened week. */
+function buildSlotWindow(slot: RideSlot, openedDates: string[]): string[] {
   const now = new Date();
-  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
-  while (start.getUTCDay() !== 2) {
-    start.setUTCDate(start.getUTCDate() + 1);
-  }
-  const defaultEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 2, 0));
-  const openedEnd = lastOpenedDateIso ? new Date(`${lastOpenedDateIso}T00:00:00Z`) : null;
-  const end =
-    openedEnd && !Number.isNaN(openedEnd.getTime()) && openedEnd > defaultEnd
-      ? openedEnd
-      : defaultEnd;
-
-  const dates: string[] = [];
-  const cursor = new Date(start);
-  while (cursor <= end) {
-    dates.push(cursor.toISOString().slice(0, 10));
-    cursor.setUTCDate(cursor.getUTCDate() + 7);
-  }
-  return dates;
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    .toISOString()
+    .slice(0, 10);
+  const defaultEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 2, 0))
+    .toISOString()
+    .slice(0, 10);
+  const dates = new Set([
+    ...slotDates(slot, start, defaultEnd),
+    ...openedDates.filter((dateIso) => dateIso >= start),
+  ]);
+  return [...dates].sort();
 }
 
 export function RidePlanningTab({
@@ -156,6 +484,14 @@ export function RidePlanningTab({
   });
   const [actionError, setActionError] = useState<string | null>(null);
   const [discordPreview, setDiscordPreview] = useState<{ title: string; message: string } | null>(null);
+  /** Roster suggestion under review; applied in one go with "Apply roster". */
+  const [rosterSuggestion, setRosterSuggestion] = useState<{
+    planId: string;
+    rideDate: string;
+    suggestion: RosterSuggestion;
+  } | null>(null);
+  /** Event guide report of a published plan (`publish-plan` / `sync-plan-guides`). */
+  const [guideSync, setGuideSync] = useState<{ planId: string; result: GuideSyncResult } | null>(null);
   const [isWorking, setIsWorking] = useState(false);
   const [workingMessage, setWorkingMessage] = useState<string | null>(null);
   const [showPastEvents, setShowPastEvents] = useState(false);
@@ -194,11 +530,19 @@ export function RidePlanningTab({
   >({});
   const [coordinatorControlsOpen, setCoordinatorControlsOpen] = useState(true);
   const [eventsSectionOpen, setEventsSectionOpen] = useState(true);
+  /** Ride slot shown in the overview; defaults to the first active one. */
+  const [selectedSlotId, setSelectedSlotId] = useState('');
+  const [slotForm, setSlotForm] = useState<SlotForm>(EMPTY_SLOT_FORM);
 
+  const slots = data?.slots ?? [];
+  const slotById = useMemo(() => Object.fromEntries(slots.map((slot) => [slot.id, slot])), [slots]);
+  const selectedSlot =
+    slotById[selectedSlotId] ?? slots.find((slot) => slot.isActive) ?? slots[0] ?? null;
   const plans = data?.plans ?? [];
   const assignments = data?.assignments ?? [];
   const myChoices = data?.myChoices ?? [];
   const guideRoster = data?.guideRoster ?? [];
+  const swapRequests = data?.swapRequests ?? [];
 
   const assignmentsByPlan = useMemo(() => {
     const grouped: Record<string, GuideAssignmentEntry[]> = {};
@@ -209,22 +553,43 @@ export function RidePlanningTab({
     return grouped;
   }, [assignments]);
 
-  const tuesdayPlans = useMemo(
-    () => [...plans].sort((a, b) => a.week_start_date.localeCompare(b.week_start_date)),
-    [plans]
+  /** Open and unfilled requests per plan; filled and withdrawn ones show on the assignments. */
+  const swapRequestsByPlan = useMemo(() => {
+    const grouped: Record<string, GuideSwapRequest[]> = {};
+    for (const request of swapRequests) {
+      if (request.status !== 'open' && request.status !== 'unfilled') continue;
+      if (!grouped[request.plan_id]) grouped[request.plan_id] = [];
+      grouped[request.plan_id].push(request);
+    }
+    return grouped;
+  }, [swapRequests]);
+
+  const slotPlans = useMemo(
+    () =>
+      plans
+        .filter((plan) => plan.slot_id === selectedSlot?.id)
+        .sort((a, b) => a.week_start_date.localeCompare(b.week_start_date)),
+    [plans, selectedSlot?.id]
   );
   const planByDate = useMemo(
-    () => Object.fromEntries(tuesdayPlans.map((plan) => [plan.week_start_date, plan])),
-    [tuesdayPlans]
-  );
-  const lastOpenedDateIso = useMemo(
-    () => tuesdayPlans[tuesdayPlans.length - 1]?.week_start_date,
-    [tuesdayPlans]
+    () => Object.fromEntries(slotPlans.map((plan) => [plan.week_start_date, plan])),
+    [slotPlans]
   );
   const overviewDates = useMemo(
-    () => buildTuesdayWindow(lastOpenedDateIso),
-    [lastOpenedDateIso]
+    () =>
+      selectedSlot
+        ? buildSlotWindow(
+            selectedSlot,
+            slotPlans.map((plan) => plan.week_start_date)
+          )
+        : [],
+    [selectedSlot, slotPlans]
+  );
+  const choiceOptions = useMemo(
+    () => (selectedSlot ? guideChoiceOptions(selectedSlot) : NON_GUIDING_CHOICE_OPTIONS),
+    [selectedSlot]
   );
+  const slotLevels: RideLevel[] = selectedSlot?.levels ?? [];
   const todayDateIso = useMemo(() => {
     const source = data?.nowIso ? new Date(data.nowIso) : new Date();
     return source.toISOString().slice(0, 10);
@@ -244,14 +609,14 @@ export function RidePlanningTab({
   );
 
   const levelGuidesByPlanDate = useMemo(() => {
-    const map: Record<string, Record<RideLevel, Array<{ id: string; display_name: string | null; username: string | null; avatar_url: string | null }>>> = {};
+    const map: Record<string, Partial<Record<RideLevel, Array<{ id: string; display_name: string | null; username: string | null; avatar_url: string | null }>>>> = {};
     for (const row of selectLevelSummaryEntries(assignments)) {
       if (!row.guide) continue;
       const key = `${row.plan_id}|${row.ride_date}`;
-      if (!map[key]) {
-        map[key] = { '2': [], '2+': [], '3': [] };
-      }
-      const bucket = map[key][row.ride_level as RideLevel];
+      if (!map[key]) map[key] = {};
+      const levels = map[key];
+      if (!levels[row.ride_level]) levels[row.ride_level] = [];
+      const bucket = levels[row.ride_level]!;
       if (!bucket.some((g) => g.id === row.guide!.id)) {
         bucket.push({
           id: row.guide.id,
@@ -321,13 +686,38 @@ export function RidePlanningTab({
   }
 
   async function createPlan() {
-    if (!weekStartDateInput) return;
+    if (!weekStartDateInput || !selectedSlot) return;
     await guardedAction(async () => {
-      await mutate({ action: 'create-plan', weekStartDate: weekStartDateInput });
+      await mutate({
+        action: 'create-plan',
+        slotId: selectedSlot.id,
+        weekStartDate: weekStartDateInput,
+      });
       setWeekStartDateInput('');
     });
   }
 
+  async function saveRideSlot() {
+    if (!slotForm.title.trim() || slotForm.levels.length === 0) return;
+    await guardedAction(async () => {
+      const { slotId, ...slot } = slotForm;
+      const result = await runAction<{ slot: RideSlot; opened: number }>({
+        action: 'save-ride-slot',
+        ...(slotId && { slotId }),
+        ...slot,
+      });
+      toast.success(
+        `${result.slot.title} saved${
+          result.opened > 0
+            ? ` · ${result.opened} planning week${result.opened === 1 ? '' : 's'} opened`
+            : ''
+        }.`
+      );
+      setSelectedSlotId(result.slot.id);
+      setSlotForm(toSlotForm(result.slot));
+    }, 'Saving ride slot...');
+  }
+
   async function submitProposal() {
     if (!proposal.planId || !proposal.rideDate) return;
     await guardedAction(async () => {
@@ -401,8 +791,8 @@ export function RidePlanningTab({
       const name = entry.guide?.display_name ?? entry.guide?.username ?? 'Guide';
       toast.success(
         assignmentStatus === 'standby'
-          ? `${name} is Springer for Level ${rideLevel} on ${toDashboardDate(entry.ride_date)}.`
-          : `${name} assigned to Level ${rideLevel} on ${toDashboardDate(entry.ride_date)}.`
+          ? `${name} is Springer for ${levelLabel(rideLevel)} on ${toDashboardDate(entry.ride_date)}.`
+          : `${name} assigned to ${levelLabel(rideLevel)} on ${toDashboardDate(entry.ride_date)}.`
       );
       setSpringerTargetLevelByAssignmentId((prev) => {
         const next = { ...prev };
@@ -439,8 +829,8 @@ export function RidePlanningTab({
         manualAssignment.assignmentStatus === 'standby'
           ? 'as Springer (standby)'
           : manualAssignment.assignmentStatus === 'unavailable'
-            ? `unavailable (Level ${manualAssignment.rideLevel})`
-            : `to Level ${manualAssignment.rideLevel}`;
+            ? `unavailable (${levelLabel(manualAssignment.rideLevel)})`
+            : `to ${levelLabel(manualAssignment.rideLevel)}`;
       const selectedCount = manualAssignment.guideProfileIds.length;
       const previewGuides = manualAssignment.guideProfileIds
         .slice(0, 2)
@@ -516,12 +906,86 @@ export function RidePlanningTab({
     });
   }
 
+  async function requestSwap(entry: GuideAssignmentEntry, kind: 'swap' | 'sick') {
+    const note = window.prompt(
+      kind === 'sick'
+        ? 'Anything the coordinators should know? (optional)'
+        : 'Note for the standby guides (optional):'
+    );
+    if (note === null) return;
+    await guardedAction(async () => {
+      const result = await runAction<{
+        request: GuideSwapRequest;
+        shortfall: LevelShortfall | null;
+        discord?: RidePlanDiscordResult | null;
+      }>({ action: 'request-swap', assignmentId: entry.id, kind, note });
+      const { request, shortfall } = result;
+      const offered = request.offered_to.length;
+      if (request.status === 'open') {
+        toast.success(`Offered to ${offered} standby guide${offered === 1 ? '' : 's'}.`);
+      } else if (shortfall?.cancelled) {
+        toast.error('No standby guide: the level was cancelled and its riders were emailed.');
+      } else if (shortfall) {
+        toast.error('No standby guide: the coordinators were told the level is short of guides.');
+      } else if (kind === 'sick') {
+        toast.success('Reported sick. The level still has enough guides.');
+      } else {
+        toast.error('No standby guide for this level, so you are still on the plan.');
+      }
+      if (result.discord && !result.discord.success) {
+        toast.error(`Discord post failed: ${result.discord.error}`);
+      }
+    }, kind === 'sick' ? 'Reporting sick...' : 'Asking standby guides...');
+  }
+
+  async function acceptSwap(request: GuideSwapRequest) {
+    await guardedAction(async () => {
+      await runAction({ action: 'accept-swap', requestId: request.id });
+      toast.success(
+        `You guide ${levelLabel(request.ride_level)} on ${toDashboardDate(request.ride_date)}.`
+      );
+    }, 'Taking over ride...');
+  }
+
+  async function withdrawSwap(request: GuideSwapRequest) {
+    await guardedAction(async () => {
+      await mutate({ action: 'withdraw-swap', requestId: request.id });
+      toast.success(
+        request.kind === 'sick' ? 'Sick report withdrawn; back on the plan.' : 'Swap request withdrawn.'
+      );
+    });
+  }
+
   async function updatePlanStatus(planId: string, action: 'finalize-plan' | 'publish-plan') {
     await guardedAction(async () => {
-      await mutate({ action, planId });
+      const result = await runAction<{
+        sync?: GuideSyncResult | { status: 'error'; error: string };
+        discord?: RidePlanDiscordResult | null;
+      }>({ action, planId });
+      if (result.discord?.success && !result.discord.skipped) {
+        toast.success(result.discord.edited ? 'Discord post updated.' : 'Posted to Discord.');
+      } else if (result.discord && !result.discord.success) {
+        toast.error(`Discord post failed: ${result.discord.error}`);
+      }
+      if (result.sync?.status === 'error') {
+        toast.error(`Published, but the event guides could not be checked: ${result.sync.error}`);
+      } else if (result.sync) {
+        setGuideSync({ planId, result: result.sync });
+      }
     });
   }
 
+  async function syncPlanGuides(planId: string, wpEventId?: number) {
+    await guardedAction(async () => {
+      const result = await runAction<{ sync: GuideSyncResult }>({
+        action: 'sync-plan-guides',
+        planId,
+        wpEventId,
+      });
+      setGuideSync({ planId, result: result.sync });
+    }, 'Checking event guides...');
+  }
+
   async function buildDiscordCopy(planId: string) {
     await guardedAction(async () => {
       const result = await runAction<{ title: string; message: string }>(
@@ -535,6 +999,34 @@ export function RidePlanningTab({
     });
   }
 
+  async function suggestRosterForPlan(planId: string) {
+    await guardedAction(async () => {
+      const result = await runAction<{ planId: string; rideDate: string; suggestion: RosterSuggestion }>(
+        { action: 'suggest-roster', planId },
+        { refresh: false }
+      );
+      setRosterSuggestion(result);
+    }, 'Building roster suggestion...');
+  }
+
+  async function applyRosterSuggestion() {
+    if (!rosterSuggestion) return;
+    await guardedAction(async () => {
+      const result = await runAction<{ applied: number }>({
+        action: 'apply-roster',
+        planId: rosterSuggestion.planId,
+        entries: rosterSuggestion.suggestion.entries.map((entry) => ({
+          assignmentId: entry.assignmentId,
+          decisionStatus: entry.decisionStatus,
+        })),
+      });
+      toast.success(
+        `Roster applied for ${toDashboardDate(rosterSuggestion.rideDate)} (${result.applied} guides).`
+      );
+      setRosterSuggestion(null);
+    }, 'Applying roster...');
+  }
+
   if (loading && !data) {
     return <div className="text-neutral-400 text-sm">Poller…</div>;
   }
@@ -554,8 +1046,9 @@ export function RidePlanningTab({
         </p>
         <h2 className="text-xl font-light text-neutral-900">Guide Ride Planning</h2>
         <p className="text-neutral-500 text-sm mt-2">
-          Tuesday Social Rides only. FLINTA-first, then first-come-first-serve within the same
-          priority group. Late proposals are accepted only for unfilled slots.
+          One overview per ride slot (weekday, levels and season set by coordinators). FLINTA-first,
+          then first-come-first-serve within the same priority group. Late proposals are accepted
+          only for unfilled slots.
         </p>
       </div>
 
@@ -563,12 +1056,39 @@ export function RidePlanningTab({
       {isWorking && workingMessage && <div className="text-xs text-neutral-500">{workingMessage}</div>}
 
       <div className="bg-white border border-neutral-200 rounded-lg p-5 space-y-3">
-        <h3 className="text-sm uppercase tracking-[0.1em] text-neutral-500">
-          Tuesday Social Ride Overview
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm uppercase tracking-[0.1em] text-neutral-500">
+            {selectedSlot ? `${WEEKDAY_NAMES[selectedSlot.weekday]} ${selectedSlot.title}` : 'Ride'}{' '}
+            Overview
+          </h3>
+          {slots.length > 1 && (
+            <div className="flex flex-wrap gap-2" role="tablist" aria-label="Ride slot">
+              {slots.map((slot) => (
+                <button
+                  key={slot.id}
+                  type="button"
+                  role="tab"
+                  aria-selected={slot.id === selectedSlot?.id}
+                  onClick={() => {
+                    setSelectedSlotId(slot.id);
+                    setManualAssignment((prev) => ({ ...prev, planId: '', rideDate: '' }));
+                  }}
+                  className={`px-3 py-1.5 rounded-md border text-xs ${
+                    slot.id === selectedSlot?.id
+                      ? 'border-[#ff611a] bg-orange-50 text-neutral-900'
+                      : 'border-neutral-200 text-neutral-700 hover:bg-neutral-100'
+                  } ${slot.isActive ? '' : 'opacity-60'}`}
+                >
+                  {WEEKDAY_NAMES[slot.weekday].slice(0, 3)} · {slot.title}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <p className="text-sm text-neutral-500">
-          Plan across multiple Tuesdays at once. Pick one option per date, similar to the Google
-          Sheet flow.
+          {selectedSlot
+            ? `Plan across multiple ${WEEKDAY_NAMES[selectedSlot.weekday]}s at once. Pick one option per date, similar to the Google Sheet flow.`
+            : 'No ride slots yet. A coordinator can add one under Coordinator Controls.'}
         </p>
         <div className="overflow-x-auto">
           <table className="min-w-full text-xs border-collapse">
@@ -622,7 +1142,7 @@ export function RidePlanningTab({
                             <option value="" disabled>
                               —
                             </option>
-                            {GUIDE_CHOICE_OPTIONS.map((option) => (
+                            {choiceOptions.map((option) => (
                               <option key={option.value} value={option.value}>
                                 {option.label}
                               </option>
@@ -637,60 +1157,35 @@ export function RidePlanningTab({
                   );
                 })}
               </tr>
-              <tr className="border-b border-neutral-200 bg-neutral-50">
-                <td className="sticky left-0 z-10 bg-neutral-50 px-2 py-2 font-medium text-neutral-800 whitespace-nowrap">
-                  Guides L2
-                </td>
-                {overviewDates.map((dateIso) => {
-                  const plan = planByDate[dateIso];
-                  const guides = plan ? levelGuidesByPlanDate[`${plan.id}|${dateIso}`]?.['2'] ?? [] : [];
-                  const count = guides.length;
-                  return (
-                    <td key={`${dateIso}-total-l2`} className="px-1 py-1">
-                      <div className="w-full min-w-[150px] px-1 py-1 text-[11px] text-neutral-700 flex items-center justify-start gap-2">
-                        <span className="text-neutral-500">{plan ? count : '—'}</span>
-                        {plan ? <AvatarStack guides={guides} /> : <span className="text-neutral-400">—</span>}
-                      </div>
-                    </td>
-                  );
-                })}
-              </tr>
-              <tr className="border-b border-neutral-200 bg-white">
-                <td className="sticky left-0 z-10 bg-white px-2 py-2 font-medium text-neutral-800 whitespace-nowrap">
-                  Guides L2+
-                </td>
-                {overviewDates.map((dateIso) => {
-                  const plan = planByDate[dateIso];
-                  const guides = plan ? levelGuidesByPlanDate[`${plan.id}|${dateIso}`]?.['2+'] ?? [] : [];
-                  const count = guides.length;
-                  return (
-                    <td key={`${dateIso}-total-l2plus`} className="px-1 py-1">
-                      <div className="w-full min-w-[150px] px-1 py-1 text-[11px] text-neutral-700 flex items-center justify-start gap-2">
-                        <span className="text-neutral-500">{plan ? count : '—'}</span>
-                        {plan ? <AvatarStack guides={guides} /> : <span className="text-neutral-400">—</span>}
-                      </div>
-                    </td>
-                  );
-                })}
-              </tr>
-              <tr className="bg-neutral-50">
-                <td className="sticky left-0 z-10 bg-neutral-50 px-2 py-2 font-medium text-neutral-800 whitespace-nowrap">
-                  Guides L3
-                </td>
-                {overviewDates.map((dateIso) => {
-                  const plan = planByDate[dateIso];
-                  const guides = plan ? levelGuidesByPlanDate[`${plan.id}|${dateIso}`]?.['3'] ?? [] : [];
-                  const count = guides.length;
-                  return (
-                    <td key={`${dateIso}-total-l3`} className="px-1 py-1">
-                      <div className="w-full min-w-[150px] px-1 py-1 text-[11px] text-neutral-700 flex items-center justify-start gap-2">
-                        <span className="text-neutral-500">{plan ? count : '—'}</span>
-                        {plan ? <AvatarStack guides={guides} /> : <span className="text-neutral-400">—</span>}
-                      </div>
+              {slotLevels.map((level, index) => {
+                const rowBg = index % 2 === 0 ? 'bg-neutral-50' : 'bg-white';
+                return (
+                  <tr key={level} className={`border-b border-neutral-200 ${rowBg}`}>
+                    <td
+                      className={`sticky left-0 z-10 ${rowBg} px-2 py-2 font-medium text-neutral-800 whitespace-nowrap`}
+                    >
+                      Guides {level === 'gravel' ? 'Gravel' : `L${level}`}
                     </td>
-                  );
-                })}
-              </tr>
+                    {overviewDates.map((dateIso) => {
+                      const plan = planByDate[dateIso];
+                      const guides = plan
+                        ? levelGuidesByPlanDate[`${plan.id}|${dateIso}`]?.[level] ?? []
+                        : [];
+                      const count = guides.length;
+                      return (
+                        <td key={`${dateIso}-total-${level}`} className="px-1 py-1">
+                          <div className="w-full min-w-[150px] px-1 py-1 text-[11px] text-neutral-700 flex items-center justify-start gap-2">
+                            <span className="text-neutral-500">
+                              {plan ? `${count}/${selectedSlot?.guidesPerLevel ?? count}` : '—'}
+                            </span>
+                            {plan ? <AvatarStack guides={guides} /> : <span className="text-neutral-400">—</span>}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
               <tr className="border-t border-neutral-200 bg-white">
                 <td className="sticky left-0 z-10 bg-white px-2 py-2 font-medium text-neutral-800 whitespace-nowrap">
                   Springer
@@ -744,7 +1239,7 @@ export function RidePlanningTab({
               </select>
             </label>
             <label className="text-sm text-neutral-700">
-              Tuesday ride date
+              Ride date
               <input
                 type="text"
                 className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
@@ -762,11 +1257,13 @@ export function RidePlanningTab({
                   setProposal((prev) => ({ ...prev, rideLevel: e.target.value as RideLevel }))
                 }
               >
-                {LEVELS.map((level) => (
-                  <option key={level} value={level}>
-                    Level {level}
-                  </option>
-                ))}
+                {(slotById[plans.find((plan) => plan.id === proposal.planId)?.slot_id ?? '']?.levels ?? []).map(
+                  (level) => (
+                    <option key={level} value={level}>
+                      {levelLabel(level)}
+                    </option>
+                  )
+                )}
               </select>
             </label>
             <label className="text-sm text-neutral-700">
@@ -833,21 +1330,24 @@ export function RidePlanningTab({
               </h4>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <label className="text-sm text-neutral-700">
-                  Tuesday date
+                  {selectedSlot?.title ?? 'Ride'} date
                   <select
                     className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
                     value={manualAssignment.planId}
                     onChange={(e) => {
-                      const selectedPlan = tuesdayPlans.find((plan) => plan.id === e.target.value);
+                      const selectedPlan = slotPlans.find((plan) => plan.id === e.target.value);
                       setManualAssignment((prev) => ({
                         ...prev,
                         planId: e.target.value,
                         rideDate: selectedPlan?.week_start_date ?? '',
+                        rideLevel: slotLevels.includes(prev.rideLevel)
+                          ? prev.rideLevel
+                          : (slotLevels[0] ?? prev.rideLevel),
                       }));
                     }}
                   >
                     <option value="">Select date</option>
-                    {tuesdayPlans.map((plan) => (
+                    {slotPlans.map((plan) => (
                       <option key={plan.id} value={plan.id}>
                         {toDashboardDate(plan.week_start_date)}
                       </option>
@@ -866,9 +1366,11 @@ export function RidePlanningTab({
                       }))
                     }
                   >
-                    <option value="2">Level 2</option>
-                    <option value="2+">Level 2+</option>
-                    <option value="3">Level 3</option>
+                    {slotLevels.map((level) => (
+                      <option key={level} value={level}>
+                        {levelLabel(level)}
+                      </option>
+                    ))}
                   </select>
                 </label>
                 <label className="text-sm text-neutral-700">
@@ -1057,16 +1559,157 @@ export function RidePlanningTab({
               <button
                 type="button"
                 onClick={createPlan}
-                disabled={isWorking || !weekStartDateInput}
+                disabled={isWorking || !weekStartDateInput || !selectedSlot}
                 className="px-4 py-2 rounded-lg bg-neutral-900 text-white text-sm font-medium hover:bg-black disabled:opacity-50"
               >
                 Save week
               </button>
               <p className="text-xs text-neutral-500">
-                Tuesday-only planning for social rides. This keeps planning in the dashboard while
-                replacing the Google Sheet flow.
+                {selectedSlot
+                  ? `Opens a week for ${selectedSlot.title} (${WEEKDAY_NAMES[selectedSlot.weekday]}s only). Weeks inside the season open automatically ${selectedSlot.weeksAhead} weeks ahead.`
+                  : 'Add a ride slot first.'}
               </p>
             </div>
+
+            <div className="border-t border-neutral-100 pt-4 space-y-3">
+              <h4 className="text-xs uppercase tracking-[0.1em] text-neutral-500">Ride slots</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-sm text-neutral-700 md:col-span-2">
+                  Slot
+                  <select
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.slotId}
+                    onChange={(e) => {
+                      const slot = slotById[e.target.value];
+                      setSlotForm(slot ? toSlotForm(slot) : EMPTY_SLOT_FORM);
+                    }}
+                  >
+                    <option value="">New slot</option>
+                    {slots.map((slot) => (
+                      <option key={slot.id} value={slot.id}>
+                        {WEEKDAY_NAMES[slot.weekday]} · {slot.title}
+                        {slot.isActive ? '' : ' (inactive)'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-neutral-700">
+                  Title
+                  <input
+                    type="text"
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.title}
+                    onChange={(e) => setSlotForm((prev) => ({ ...prev, title: e.target.value }))}
+                    placeholder="Gravel Ride"
+                    maxLength={80}
+                  />
+                </label>
+                <label className="text-sm text-neutral-700">
+                  Weekday
+                  <select
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.weekday}
+                    onChange={(e) =>
+                      setSlotForm((prev) => ({ ...prev, weekday: Number(e.target.value) }))
+                    }
+                  >
+                    {WEEKDAY_NAMES.map((name, weekday) => (
+                      <option key={name} value={weekday}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <fieldset className="text-sm text-neutral-700 md:col-span-2">
+                  <legend>Levels</legend>
+                  <div className="mt-1 flex flex-wrap gap-3">
+                    {RIDE_LEVEL_OPTIONS.map((option) => (
+                      <label key={option.level} className="inline-flex items-center gap-1.5">
+                        <input
+                          type="checkbox"
+                          checked={slotForm.levels.includes(option.level)}
+                          onChange={(e) =>
+                            setSlotForm((prev) => ({
+                              ...prev,
+                              levels: e.target.checked
+                                ? [...prev.levels, option.level]
+                                : prev.levels.filter((level) => level !== option.level),
+                            }))
+                          }
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+                <label className="text-sm text-neutral-700">
+                  Guides per level
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.guidesPerLevel}
+                    onChange={(e) =>
+                      setSlotForm((prev) => ({ ...prev, guidesPerLevel: Number(e.target.value) }))
+                    }
+                  />
+                </label>
+                <label className="text-sm text-neutral-700">
+                  Open weeks ahead
+                  <input
+                    type="number"
+                    min={1}
+                    max={26}
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.weeksAhead}
+                    onChange={(e) =>
+                      setSlotForm((prev) => ({ ...prev, weeksAhead: Number(e.target.value) }))
+                    }
+                  />
+                </label>
+                <label className="text-sm text-neutral-700">
+                  Season start
+                  <input
+                    type="date"
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.seasonStart}
+                    onChange={(e) => setSlotForm((prev) => ({ ...prev, seasonStart: e.target.value }))}
+                  />
+                </label>
+                <label className="text-sm text-neutral-700">
+                  Season end
+                  <input
+                    type="date"
+                    className="w-full mt-1 border border-neutral-200 rounded-lg px-3 py-2 text-sm"
+                    value={slotForm.seasonEnd}
+                    onChange={(e) => setSlotForm((prev) => ({ ...prev, seasonEnd: e.target.value }))}
+                  />
+                </label>
+                <label className="text-sm text-neutral-700 inline-flex items-center gap-2 md:col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={slotForm.isActive}
+                    onChange={(e) => setSlotForm((prev) => ({ ...prev, isActive: e.target.checked }))}
+                  />
+                  Active (opens planning weeks automatically)
+                </label>
+              </div>
+              <button
+                type="button"
+                onClick={saveRideSlot}
+                disabled={
+                  isWorking ||
+                  !slotForm.title.trim() ||
+                  slotForm.levels.length === 0 ||
+                  !slotForm.seasonStart ||
+                  !slotForm.seasonEnd
+                }
+                className="px-4 py-2 rounded-lg border border-neutral-200 text-sm text-neutral-800 hover:bg-neutral-100 disabled:opacity-50"
+              >
+                Save ride slot
+              </button>
+            </div>
               </div>
             )}
           </div>
@@ -1142,17 +1785,29 @@ export function RidePlanningTab({
             grouped.get(key)?.push(row);
           }
           const groups = [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b));
+          const planSlot = slotById[plan.slot_id];
+          const planLevels: RideLevel[] = planSlot?.levels ?? [];
 
           return (
             <div key={plan.id} className="bg-white border border-neutral-200 rounded-lg p-5 space-y-4">
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <div>
                   <h3 className="text-lg font-light text-neutral-900">
-                    Tuesday Social Ride - {toDashboardDate(plan.week_start_date)}
+                    {planSlot?.title ?? 'Ride'} - {toDashboardDate(plan.week_start_date)}
                   </h3>
                   <p className="text-xs text-neutral-500 mt-1">
-                    Required weekly levels: 2, 2+, 3. Missing levels can still publish (available-only policy).
+                    Levels: {planLevels.map(levelLabel).join(', ') || '—'} ({planSlot?.guidesPerLevel ?? '?'} guides
+                    each). Missing levels can still publish (available-only policy).
                   </p>
+                  {plan.status === 'published' && (
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {plan.wp_event_id
+                        ? `Staffs WordPress event #${plan.wp_event_id}.`
+                        : 'Not linked to a WordPress event yet.'}
+                      {plan.discord_posted_at &&
+                        ` Posted to Discord ${new Date(plan.discord_posted_at).toLocaleString('en-GB')}.`}
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <span className={`inline-flex border rounded-full px-2 py-1 text-xs font-medium ${planStatusBadgeClass(plan.status)}`}>
@@ -1160,6 +1815,16 @@ export function RidePlanningTab({
                   </span>
                   {canCoordinate && (
                     <>
+                      {plan.status === 'draft' && (
+                        <button
+                          type="button"
+                          onClick={() => suggestRosterForPlan(plan.id)}
+                          disabled={isWorking}
+                          className="px-3 py-1.5 rounded-md border border-neutral-200 text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+                        >
+                          Suggest roster
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={() => updatePlanStatus(plan.id, 'finalize-plan')}
@@ -1176,6 +1841,16 @@ export function RidePlanningTab({
                       >
                         Publish
                       </button>
+                      {plan.status === 'published' && (
+                        <button
+                          type="button"
+                          onClick={() => syncPlanGuides(plan.id)}
+                          disabled={isWorking}
+                          className="px-3 py-1.5 rounded-md border border-neutral-200 text-xs text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+                        >
+                          Check event guides
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={() => buildDiscordCopy(plan.id)}
@@ -1189,6 +1864,38 @@ export function RidePlanningTab({
                 </div>
               </div>
 
+              {guideSync?.planId === plan.id && (
+                <GuideSyncPanel
+                  result={guideSync.result}
+                  disabled={isWorking}
+                  onLink={(wpEventId) => syncPlanGuides(plan.id, wpEventId)}
+                  onClose={() => setGuideSync(null)}
+                />
+              )}
+
+              {swapRequestsByPlan[plan.id] && (
+                <SwapRequestsPanel
+                  requests={swapRequestsByPlan[plan.id]}
+                  assignments={planAssignments}
+                  currentUserId={currentUserId}
+                  canCoordinate={canCoordinate}
+                  disabled={isWorking}
+                  onAccept={acceptSwap}
+                  onWithdraw={withdrawSwap}
+                />
+              )}
+
+              {rosterSuggestion?.planId === plan.id && (
+                <RosterSuggestionPanel
+                  levels={planLevels}
+                  suggestion={rosterSuggestion.suggestion}
+                  assignments={planAssignments}
+                  disabled={isWorking}
+                  onApply={applyRosterSuggestion}
+                  onDiscard={() => setRosterSuggestion(null)}
+                />
+              )}
+
               {groups.length === 0 && (
                 <p className="text-sm text-neutral-500">No proposals yet.</p>
               )}
@@ -1203,7 +1910,7 @@ export function RidePlanningTab({
                     <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
                       <div>
                         <p className="text-sm font-medium text-neutral-900">
-                          {toDashboardDate(rideDate)} - Level {rideLevel}
+                          {toDashboardDate(rideDate)} - {levelLabel(rideLevel)}
                         </p>
                         {topRecommendation && (
                           <p className="text-xs text-neutral-500 mt-1">
@@ -1218,6 +1925,9 @@ export function RidePlanningTab({
                     <div className="space-y-2">
                       {candidates.map((entry) => {
                         const isOwner = entry.guide_profile_id === currentUserId;
+                        const hasOpenRequest = swapRequests.some(
+                          (request) => request.assignment_id === entry.id && request.status === 'open'
+                        );
                         const submittedAt = toDashboardDateTime(entry.submitted_at);
                         return (
                           <div
@@ -1272,7 +1982,27 @@ export function RidePlanningTab({
                                   </button>
                                 </>
                               )}
-                              {(isOwner || canCoordinate) && entry.decision_status === 'assigned' && (
+                              {isOwner && entry.decision_status === 'assigned' && !hasOpenRequest && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => requestSwap(entry, 'swap')}
+                                    disabled={isWorking}
+                                    className="px-2 py-1 text-xs rounded border border-amber-200 text-amber-700 hover:bg-amber-50 disabled:opacity-50"
+                                  >
+                                    Ask for swap
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => requestSwap(entry, 'sick')}
+                                    disabled={isWorking}
+                                    className="px-2 py-1 text-xs rounded border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                                  >
+                                    Report sick
+                                  </button>
+                                </>
+                              )}
+                              {canCoordinate && entry.decision_status === 'assigned' && (
                                 <button
                                   type="button"
                                   onClick={() => markUnavailable(entry.id)}
@@ -1309,7 +2039,7 @@ export function RidePlanningTab({
                               {entry.guide?.display_name ?? 'Unknown guide'}
                             </p>
                             <p className="text-xs text-neutral-500">
-                              {toDashboardDate(entry.ride_date)} · Level {entry.ride_level} · submitted{' '}
+                              {toDashboardDate(entry.ride_date)} · {levelLabel(entry.ride_level)} · submitted{' '}
                               {toDashboardDateTime(entry.submitted_at)} ·{' '}
                               {entry.source === 'late' ? 'Late' : 'In window'}
                             </p>
@@ -1337,9 +2067,9 @@ export function RidePlanningTab({
                                     }
                                     disabled={isWorking}
                                   >
-                                    {LEVELS.map((lvl) => (
+                                    {planLevels.map((lvl) => (
                                       <option key={lvl} value={lvl}>
-                                        Level {lvl}
+                                        {levelLabel(lvl)}
                                       </option>
                                     ))}
                                   </select>
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CreditCard, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+
+type BillingPortalCardProps = {
+  /** Open the portal straight away (failed payment emails link to `?billing=portal`). */
+  autoOpen?: boolean;
+};
+
+/**
+ * Opens the Stripe customer portal for the signed-in member's subscription: payment method,
+ * invoices and cancellation.
+ */
+export const BillingPortalCard: React.FC<BillingPortalCardProps> = ({ autoOpen }) => {
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoOpened = useRef(false);
+
+  const openPortal = async () => {
+    if (!supabase) return;
+    setOpening(true);
+    setError(null);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        setError('Please log in again to manage your billing.');
+        return;
+      }
+      const response = await fetch('/api/stripe-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ action: 'portal' }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json?.url) {
+        setError(json?.error || 'Could not open the billing portal.');
+        return;
+      }
+      window.location.assign(json.url);
+    } catch {
+      setError('Could not open the billing portal.');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!autoOpen || autoOpened.current) return;
+    autoOpened.current = true;
+    void openPortal();
+  }, [autoOpen]); // eslint-disable-line react-hooks/exhaustive-deps -- open once per visit
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Paying for your membership by subscription? Update your card, download invoices or cancel in
+        the Stripe billing portal.
+      </p>
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={openPortal}
+        disabled={opening}
+        className="inline-flex items-center gap-2 rounded-full bg-secondary-purple-rain px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-secondary-purple-rain/90 disabled:opacity-70"
+      >
+        {opening ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <CreditCard className="w-4 h-4" />
+        )}
+        Manage billing
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarPlus, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+
+type CalendarFeedCardProps = {
+  userId: string;
+};
+
+type FeedLink = { url: string; webcalUrl: string };
+
+/**
+ * Private calendar feed of the member's own registrations. The link is shown once after it is
+ * created (only a hash is stored); creating a new one replaces the old link.
+ */
+export const CalendarFeedCard: React.FC<CalendarFeedCardProps> = ({ userId }) => {
+  const [hasFeed, setHasFeed] = useState(false);
+  const [link, setLink] = useState<FeedLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .from('profiles')
+      .select('calendar_feed_token_created_at')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.warn('[CalendarFeedCard] Failed to load calendar feed status', error);
+        } else {
+          setHasFeed(Boolean(data?.calendar_feed_token_created_at));
+        }
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const updateFeed = async (revoke: boolean) => {
+    if (!supabase) return;
+    if (
+      revoke &&
+      !window.confirm('Turn off your calendar link? Subscribed calendars stop updating.')
+    )
+      return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) return;
+      const response = await fetch('/api/event', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ action: 'calendar-feed-token', revoke }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setMessage({ type: 'error', text: json?.error || 'Could not update your calendar link.' });
+        return;
+      }
+      setHasFeed(!revoke);
+      setLink(revoke ? null : { url: json.url, webcalUrl: json.webcalUrl });
+      setMessage(revoke ? { type: 'success', text: 'Calendar link turned off.' } : null);
+    } catch {
+      setMessage({ type: 'error', text: 'Could not update your calendar link.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setMessage({ type: 'success', text: 'Link copied.' });
+    } catch {
+      setMessage({ type: 'error', text: 'Could not copy. Select the link and copy it manually.' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+        <span>Loading…</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Subscribe to the rides you are registered for in Apple Calendar, Google Calendar or Outlook.
+        Cancelled rides are updated automatically. Keep the link private: anyone with it can see
+        your rides.
+      </p>
+      {link && (
+        <div className="space-y-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-3">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            This link is only shown now. Create a new one if you lose it.
+          </p>
+          <input
+            type="text"
+            readOnly
+            value={link.url}
+            onFocus={(e) => e.target.select()}
+            className="w-full rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 px-2 py-1 text-xs text-primary-ink dark:text-slate-200"
+          />
+          <div className="flex flex-wrap gap-3 text-sm">
+            <a
+              href={link.webcalUrl}
+              className="inline-flex items-center gap-1 font-semibold text-secondary-purple-rain hover:underline"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Subscribe
+            </a>
+            <button
+              type="button"
+              onClick={copyLink}
+              className="text-secondary-purple-rain hover:underline"
+            >
+              Copy link
+            </button>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div
+          className={
+            message.type === 'success'
+              ? 'rounded border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700'
+              : 'rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => updateFeed(false)}
+          disabled={saving}
+          className="inline-flex items-center gap-2 rounded-full bg-secondary-purple-rain px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-secondary-purple-rain/90 disabled:opacity-70"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {hasFeed ? 'Create new link' : 'Create calendar link'}
+        </button>
+        {hasFeed && (
+          <button
+            type="button"
+            onClick={() => updateFeed(true)}
+            disabled={saving}
+            className="text-sm text-red-600 hover:underline disabled:opacity-60"
+          >
+            Turn off
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+import { EMERGENCY_INFO_GRACE_DAYS, type EmergencyInfo } from '../../lib/guideAccess';
+
+type EmergencyInfoCardProps = {
+  userId: string;
+};
+
+type FormState = {
+  contactName: string;
+  contactPhone: string;
+  medicalNotes: string;
+  consent: boolean;
+};
+
+const EMPTY_FORM: FormState = {
+  contactName: '',
+  contactPhone: '',
+  medicalNotes: '',
+  consent: false,
+};
+
+const inputClass =
+  'w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-primary-ink dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-secondary-purple-rain/40';
+
+/**
+ * Emergency contact and medical notes on the member's own profile. Nothing is shared with guides
+ * until the member ticks the consent box; unticking it (or clearing the fields) stops sharing.
+ */
+export const EmergencyInfoCard: React.FC<EmergencyInfoCardProps> = ({ userId }) => {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .from('profiles')
+      .select(
+        'emergency_contact_name, emergency_contact_phone, medical_notes, emergency_info_consent_at'
+      )
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.warn('[EmergencyInfoCard] Failed to load emergency info', error);
+        } else if (data) {
+          const info = data as EmergencyInfo;
+          setForm({
+            contactName: info.emergency_contact_name ?? '',
+            contactPhone: info.emergency_contact_phone ?? '',
+            medicalNotes: info.medical_notes ?? '',
+            consent: Boolean(info.emergency_info_consent_at),
+          });
+        }
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supabase) return;
+    setSaving(true);
+    setMessage(null);
+    const contactName = form.contactName.trim();
+    const contactPhone = form.contactPhone.trim();
+    const medicalNotes = form.medicalNotes.trim();
+    const hasInfo = Boolean(contactName || contactPhone || medicalNotes);
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        emergency_contact_name: contactName || null,
+        emergency_contact_phone: contactPhone || null,
+        medical_notes: medicalNotes || null,
+        emergency_info_consent_at: form.consent && hasInfo ? new Date().toISOString() : null,
+      })
+      .eq('id', userId);
+    setSaving(false);
+    if (error) {
+      setMessage({ type: 'error', text: 'Could not save your emergency info. Please try again.' });
+      return;
+    }
+    setForm((prev) => ({ ...prev, consent: prev.consent && hasInfo }));
+    setMessage({ type: 'success', text: 'Emergency info saved.' });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+        <span>Loading…</span>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Optional. If you consent, the guides of a ride you are confirmed for can see this on ride
+        day and up to {EMERGENCY_INFO_GRACE_DAYS} day after. Every view is logged.
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block text-sm text-slate-700 dark:text-slate-300">
+          Emergency contact name
+          <input
+            type="text"
+            value={form.contactName}
+            onChange={(e) => setForm((prev) => ({ ...prev, contactName: e.target.value }))}
+            maxLength={120}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm text-slate-700 dark:text-slate-300">
+          Emergency contact phone
+          <input
+            type="tel"
+            value={form.contactPhone}
+            onChange={(e) => setForm((prev) => ({ ...prev, contactPhone: e.target.value }))}
+            maxLength={40}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+      <label className="block text-sm text-slate-700 dark:text-slate-300">
+        Medical notes
+        <textarea
+          value={form.medicalNotes}
+          onChange={(e) => setForm((prev) => ({ ...prev, medicalNotes: e.target.value }))}
+          maxLength={1000}
+          rows={3}
+          placeholder="Allergies, conditions or medication a guide should know about"
+          className={`mt-1 ${inputClass}`}
+        />
+      </label>
+      <label className="flex items-start gap-3 text-sm text-slate-700 dark:text-slate-300">
+        <input
+          type="checkbox"
+          checked={form.consent}
+          onChange={(e) => setForm((prev) => ({ ...prev, consent: e.target.checked }))}
+          className="mt-0.5 h-4 w-4 accent-secondary-purple-rain"
+        />
+        <span>
+          I consent to sharing this information with the guides of rides I am registered for.
+        </span>
+      </label>
+      {message && (
+        <div
+          className={
+            message.type === 'success'
+              ? 'rounded border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700'
+              : 'rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={saving}
+        className="inline-flex items-center gap-2 rounded-full bg-secondary-purple-rain px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-secondary-purple-rain/90 disabled:opacity-70"
+      >
+        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+        Save emergency info
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Gift, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+
+type GiftMembershipRedeemCardProps = {
+  /** Code from the gift email link (`/members?gift=…`), pre-filled. */
+  initialCode?: string | null;
+  /** Called after a successful redemption, e.g. to reload the profile. */
+  onRedeemed?: () => void | Promise<void>;
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Redeem a gift membership code on the signed-in account. Active memberships are extended by the
+ * gifted year; otherwise the membership starts today.
+ */
+export const GiftMembershipRedeemCard: React.FC<GiftMembershipRedeemCardProps> = ({
+  initialCode,
+  onRedeemed,
+}) => {
+  const [code, setCode] = useState(initialCode ?? '');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const redeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supabase || !code.trim()) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        setMessage({ type: 'error', text: 'Please log in again to redeem your gift.' });
+        return;
+      }
+      const response = await fetch('/api/stripe-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ action: 'redeem-gift', code }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setMessage({ type: 'error', text: json?.error || 'Could not redeem the gift.' });
+        return;
+      }
+      setCode('');
+      setMessage({
+        type: 'success',
+        text: `Gift redeemed – your membership runs until ${formatDate(json.membershipExpiration)}.`,
+      });
+      await onRedeemed?.();
+    } catch {
+      setMessage({ type: 'error', text: 'Could not redeem the gift.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={redeem} className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Got a gift membership? Enter the code from your email. If you are already a member, the
+        gifted year is added to your current membership.
+      </p>
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="KG-XXXX-XXXX-XXXX"
+        autoComplete="off"
+        spellCheck={false}
+        className="w-full max-w-sm rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 px-3 py-2 font-mono text-sm uppercase tracking-widest text-primary-ink dark:text-slate-200"
+      />
+      {message && (
+        <div
+          className={
+            message.type === 'success'
+              ? 'rounded border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700'
+              : 'rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={saving || !code.trim()}
+        className="inline-flex items-center gap-2 rounded-full bg-secondary-purple-rain px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-secondary-purple-rain/90 disabled:opacity-70"
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+        Redeem gift
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Home, Loader2, UserMinus, UserPlus } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+import type { Household, HouseholdMember } from '../../lib/households';
+
+type HouseholdCardProps = {
+  /** Invite token from the invite email link (`/members/settings?household=…`). */
+  inviteToken?: string | null;
+  /** Called when joining or leaving changed the membership, e.g. to reload the profile. */
+  onMembershipChanged?: () => void | Promise<void>;
+};
+
+function memberLabel(member: HouseholdMember): string {
+  return member.name || member.email || 'Member';
+}
+
+/**
+ * Household membership: owners invite and remove people, members see whose membership they share
+ * and can leave, and invitees accept the invite from their email link.
+ */
+export const HouseholdCard: React.FC<HouseholdCardProps> = ({
+  inviteToken,
+  onMembershipChanged,
+}) => {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [email, setEmail] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const call = useCallback(
+    async (action: string, payload: Record<string, string> = {}): Promise<boolean> => {
+      if (!supabase) return false;
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        setMessage({ type: 'error', text: 'Please log in again to manage your household.' });
+        return false;
+      }
+      const response = await fetch('/api/stripe-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ action, ...payload }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setMessage({ type: 'error', text: json?.error || 'Could not update your household.' });
+        return false;
+      }
+      setHousehold(json.household ?? null);
+      return true;
+    },
+    []
+  );
+
+  useEffect(() => {
+    call('household')
+      .catch(() => false)
+      .then((ok) => {
+        if (!ok) setHousehold({ role: 'none' });
+      });
+  }, [call]);
+
+  const run = async (
+    action: string,
+    payload: Record<string, string>,
+    success: string,
+    membershipChanged = false
+  ) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (await call(action, payload)) {
+        setMessage({ type: 'success', text: success });
+        if (membershipChanged) await onMembershipChanged?.();
+        return true;
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Could not update your household.' });
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    const sent = await run('household-invite', { email }, `Invite sent to ${email.trim()}.`);
+    if (sent) setEmail('');
+  };
+
+  const feedback = message && (
+    <div
+      className={
+        message.type === 'success'
+          ? 'rounded border border-green-200 bg-green-50 px-3 py-2 text-xs text-green-700'
+          : 'rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700'
+      }
+    >
+      {message.text}
+    </div>
+  );
+  const buttonClass =
+    'inline-flex items-center gap-2 rounded-full bg-secondary-purple-rain px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-secondary-purple-rain/90 disabled:opacity-70';
+  const linkButtonClass =
+    'inline-flex items-center gap-1 text-xs font-semibold text-secondary-purple-rain hover:underline disabled:opacity-60';
+
+  if (!household) {
+    return <Loader2 className="w-4 h-4 animate-spin text-slate-400" />;
+  }
+
+  if (household.role === 'member') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          You share the household membership of{' '}
+          <strong className="text-primary-ink dark:text-slate-200">
+            {memberLabel(household.owner)}
+          </strong>
+          . Your membership runs as long as theirs does.
+        </p>
+        {feedback}
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => run('household-remove', {}, 'You have left the household.', true)}
+          className={linkButtonClass}
+        >
+          <UserMinus className="w-4 h-4" />
+          Leave household
+        </button>
+      </div>
+    );
+  }
+
+  if (household.role === 'none') {
+    if (!inviteToken) return null;
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          You have been invited to share a household membership. Accepting makes you a member for as
+          long as the household membership runs.
+        </p>
+        {feedback}
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() =>
+            run('household-accept', { token: inviteToken }, 'Welcome to the household!', true)
+          }
+          className={buttonClass}
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Home className="w-4 h-4" />}
+          Accept invite
+        </button>
+      </div>
+    );
+  }
+
+  const seatsUsed = household.members.length + household.invites.length;
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Your household membership covers up to {household.seats} more people. {seatsUsed} of{' '}
+        {household.seats} seats are taken; open invites hold a seat until they are accepted or
+        expire.
+      </p>
+      {(household.members.length > 0 || household.invites.length > 0) && (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded border border-slate-200 dark:border-slate-700">
+          {household.members.map((member) => (
+            <li key={member.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-primary-ink dark:text-slate-200">{memberLabel(member)}</span>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  run(
+                    'household-remove',
+                    { memberId: member.id },
+                    `${memberLabel(member)} has been removed.`
+                  )
+                }
+                className={linkButtonClass}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+          {household.invites.map((pending) => (
+            <li key={pending.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-slate-500 dark:text-slate-400">{pending.email} · invited</span>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  run('household-revoke', { inviteId: pending.id }, 'Invite withdrawn.')
+                }
+                className={linkButtonClass}
+              >
+                Withdraw
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {feedback}
+      {seatsUsed < household.seats && (
+        <form onSubmit={invite} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            className="w-full max-w-sm rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 px-3 py-2 text-sm text-primary-ink dark:text-slate-200"
+          />
+          <button type="submit" disabled={busy || !email.trim()} className={buttonClass}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            Invite
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ExternalLink, FileText, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../lib/money';
+import {
+  ORDER_CARRIERS,
+  SHOP_ORDER_STATUS_LABELS,
+  isPickupOrder,
+  type ShopOrder,
+} from '../../lib/shopOrders';
+
+function formatOrderDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+/** Where the order is, in the customer's words. */
+function describeOrder(order: ShopOrder): string {
+  if (order.status === 'paid' || order.status === 'packed') {
+    return isPickupOrder(order) ? 'Being prepared for pickup' : 'Being prepared for shipping';
+  }
+  if (order.status === 'shipped') {
+    const carrier = order.carrier ? ORDER_CARRIERS[order.carrier]?.label : null;
+    return carrier ? `Shipped with ${carrier}` : 'Shipped';
+  }
+  return SHOP_ORDER_STATUS_LABELS[order.status];
+}
+
+const statusClass = (status: ShopOrder['status']) =>
+  status === 'shipped' || status === 'picked_up'
+    ? 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700'
+    : status === 'returned'
+      ? 'bg-slate-50 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-600'
+      : 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-200 dark:border-amber-700';
+
+/**
+ * The signed-in customer's shop orders with their fulfilment status and parcel tracking. Orders
+ * placed as a guest show up when they used the account's email address.
+ */
+export const MyOrdersCard: React.FC = () => {
+  const [orders, setOrders] = useState<ShopOrder[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: sessionData } = (await supabase?.auth.getSession()) ?? { data: null };
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        setOrders([]);
+        return;
+      }
+      try {
+        const response = await fetch('/api/stripe-checkout?view=orders', {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        const json = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(json?.error || 'Could not load your orders.');
+          setOrders([]);
+          return;
+        }
+        setOrders(Array.isArray(json.orders) ? json.orders : []);
+      } catch {
+        setError('Could not load your orders.');
+        setOrders([]);
+      }
+    };
+    load();
+  }, []);
+
+  if (!orders) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+        <span>Loading…</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-amber-700 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-lg px-3 py-2">
+        {error}
+      </p>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        No orders yet.{' '}
+        <Link to="/shop" className="text-secondary-purple-rain hover:underline">
+          Visit the shop
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+      {orders.map((order) => (
+        <li
+          key={order.id}
+          className="py-3 flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between"
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-primary-ink dark:text-slate-200">
+              {order.items.map((item) => `${item.quantity}× ${item.name}`).join(', ')}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {formatOrderDate(order.createdAt)}
+              {order.amountTotal !== null && ` · ${formatMoney(order.amountTotal, order.currency)}`}
+            </p>
+            {order.invoiceUrl && (
+              <a
+                href={order.invoiceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-flex items-center gap-1 text-xs text-secondary-purple-rain hover:underline"
+              >
+                <FileText className="w-3 h-3" />
+                Invoice {order.invoiceNumber} (PDF)
+              </a>
+            )}
+            {order.status === 'shipped' && order.trackingNumber && (
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                Tracking:{' '}
+                {order.trackingUrl ? (
+                  <a
+                    href={order.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-secondary-purple-rain hover:underline"
+                  >
+                    {order.trackingNumber}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  order.trackingNumber
+                )}
+              </p>
+            )}
+          </div>
+          <span
+            className={`inline-flex shrink-0 rounded-full border px-2.5 py-0.5 text-xs font-medium ${statusClass(order.status)}`}
+          >
+            {describeOrder(order)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,322 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarPlus, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabaseClient';
+import { generateIcs } from '../../lib/ics';
+import {
+  formatPastStatus,
+  formatUpcomingStatus,
+  type PastRide,
+  type SeasonStats,
+  type UpcomingRide,
+} from '../../lib/myRides';
+
+type MyRidesResponse = {
+  upcoming: UpcomingRide[];
+  past: PastRide[];
+  seasons: SeasonStats[];
+};
+
+const PAST_RIDES_PREVIEW = 10;
+
+const LEVEL_LABELS: Record<string, string> = {
+  level1: 'Level 1',
+  level2: 'Level 2',
+  level2plus: 'Level 2+',
+  level3: 'Level 3',
+  gravel: 'Gravel',
+  workshop: 'Workshop',
+};
+
+function formatRideDate(date: string | null): string {
+  if (!date) return 'Date to be announced';
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function eventPath(ride: UpcomingRide): string | null {
+  if (!ride.link) return null;
+  try {
+    const path = new URL(ride.link, window.location.origin).pathname;
+    return ride.occurrenceDate ? `${path}?date=${ride.occurrenceDate}` : path;
+  } catch {
+    return null;
+  }
+}
+
+async function getAccessToken(): Promise<string | null> {
+  if (!supabase) return null;
+  const { data: sessionData } = await supabase.auth.getSession();
+  return sessionData?.session?.access_token ?? null;
+}
+
+function downloadIcs(ride: UpcomingRide) {
+  if (!ride.date) return;
+  const ics = generateIcs({
+    title: `${ride.title} – ${LEVEL_LABELS[ride.rideLevel] ?? ride.rideLevel}`,
+    date: ride.date,
+    time: ride.time ?? undefined,
+    location: ride.location ?? undefined,
+    description: ride.link ?? undefined,
+  });
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'kandie-gang-event.ics';
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const statusClass = (status: UpcomingRide['status'] | PastRide['status']) =>
+  status === 'confirmed' || status === 'promoted' || status === 'attended'
+    ? 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700'
+    : status === 'no-show'
+      ? 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700'
+      : status === 'offered'
+        ? 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-200 dark:border-amber-700'
+        : 'bg-slate-50 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-600';
+
+/**
+ * The signed-in rider's own registrations: upcoming rides with cancel and calendar download, past
+ * rides with their attendance outcome, and per-season stats. Only rides booked while logged in
+ * show up here; guest signups are still managed through the link in the confirmation email.
+ */
+export const MyRidesCard: React.FC = () => {
+  const [data, setData] = useState<MyRidesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [showAllPast, setShowAllPast] = useState(false);
+
+  const loadRides = useCallback(async () => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const response = await fetch('/api/event?view=my-rides', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(json?.error || 'Could not load your rides.');
+        return;
+      }
+      setError(null);
+      setData(json as MyRidesResponse);
+    } catch {
+      setError('Could not load your rides.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRides();
+  }, [loadRides]);
+
+  const cancelRide = async (ride: UpcomingRide) => {
+    if (!window.confirm(`Cancel your spot for ${ride.title}?`)) return;
+    const accessToken = await getAccessToken();
+    if (!accessToken) return;
+    setCancellingId(ride.registrationId);
+    try {
+      const response = await fetch('/api/event', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          action: 'cancel',
+          eventId: ride.eventId,
+          rideLevel: ride.rideLevel,
+          occurrenceDate: ride.occurrenceDate ?? undefined,
+        }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(json?.error || 'Could not cancel this ride.');
+        return;
+      }
+      await loadRides();
+    } catch {
+      setError('Could not cancel this ride.');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+        <span>Loading…</span>
+      </div>
+    );
+  }
+
+  const upcoming = data?.upcoming ?? [];
+  const past = data?.past ?? [];
+  const seasons = data?.seasons ?? [];
+  const visiblePast = showAllPast ? past : past.slice(0, PAST_RIDES_PREVIEW);
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <p className="text-sm text-amber-700 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      <section>
+        <h3 className="text-lg font-gtplanar font-bold text-secondary-purple-rain dark:text-slate-200 mb-3">
+          Upcoming
+        </h3>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            No upcoming rides.{' '}
+            <Link to="/community" className="text-secondary-purple-rain hover:underline">
+              Find your next ride
+            </Link>
+            .
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {upcoming.map((ride) => {
+              const path = eventPath(ride);
+              return (
+                <li
+                  key={ride.registrationId}
+                  className="py-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-primary-ink dark:text-slate-200 truncate">
+                      {path ? (
+                        <Link to={path} className="hover:underline">
+                          {ride.title}
+                        </Link>
+                      ) : (
+                        ride.title
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {formatRideDate(ride.date)}
+                      {ride.time && ` · ${ride.time}`} ·{' '}
+                      {LEVEL_LABELS[ride.rideLevel] ?? ride.rideLevel}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 shrink-0">
+                    <span
+                      className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-medium ${statusClass(ride.status)}`}
+                    >
+                      {formatUpcomingStatus(ride)}
+                    </span>
+                    {ride.date && ride.status !== 'waitlist' && (
+                      <button
+                        type="button"
+                        onClick={() => downloadIcs(ride)}
+                        className="inline-flex items-center gap-1 text-xs text-secondary-purple-rain hover:underline"
+                      >
+                        <CalendarPlus className="w-3.5 h-3.5" />
+                        Calendar
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => cancelRide(ride)}
+                      disabled={cancellingId === ride.registrationId}
+                      className="inline-flex items-center gap-1 text-xs text-red-600 hover:underline disabled:opacity-60"
+                    >
+                      {cancellingId === ride.registrationId && (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      )}
+                      {ride.status === 'waitlist' ? 'Leave waitlist' : 'Cancel'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      {seasons.length > 0 && (
+        <section>
+          <h3 className="text-lg font-gtplanar font-bold text-secondary-purple-rain dark:text-slate-200 mb-3">
+            Seasons
+          </h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {seasons.map((stats) => (
+              <div
+                key={stats.season}
+                className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/80 px-4 py-3"
+              >
+                <p className="text-xs tracking-[0.08em] text-secondary-purple-rain">
+                  {stats.season}
+                </p>
+                <p className="text-2xl font-light text-primary-ink dark:text-slate-100">
+                  {stats.attended}
+                  <span className="text-sm text-slate-500 dark:text-slate-400">
+                    {' '}
+                    / {stats.rides} rides
+                  </span>
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {stats.noShows} no-show{stats.noShows === 1 ? '' : 's'} · {stats.cancelled}{' '}
+                  cancelled
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {past.length > 0 && (
+        <section>
+          <h3 className="text-lg font-gtplanar font-bold text-secondary-purple-rain dark:text-slate-200 mb-3">
+            Past rides
+          </h3>
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {visiblePast.map((ride) => (
+              <li
+                key={ride.registrationId}
+                className="py-2 flex items-center justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-primary-ink dark:text-slate-200 truncate">
+                    {ride.title}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {formatRideDate(ride.date)} · {LEVEL_LABELS[ride.rideLevel] ?? ride.rideLevel}
+                  </p>
+                </div>
+                <span
+                  className={`inline-flex shrink-0 rounded-full border px-2.5 py-0.5 text-xs font-medium ${statusClass(ride.status)}`}
+                >
+                  {formatPastStatus(ride)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {past.length > PAST_RIDES_PREVIEW && (
+            <button
+              type="button"
+              onClick={() => setShowAllPast((v) => !v)}
+              className="mt-2 text-xs text-secondary-purple-rain hover:underline"
+            >
+              {showAllPast ? 'Show fewer' : `Show all ${past.length} past rides`}
+            </button>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+/**
+ * BackInStockForm.tsx
+ * "Notify me" for a sold-out variant: leaves an email for the restock email
+ * (see lib/stockNotifications.ts). Guests pass Turnstile; signed-in shoppers use their account
+ * email. Render with `key={sku}` so switching variants starts a fresh form.
+ */
+
+import React, { useState } from 'react';
+import { Turnstile } from '@marsidev/react-turnstile';
+import { Bell, Check } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { supabase } from '../../lib/supabaseClient';
+
+interface BackInStockFormProps {
+  /** Stock key of the sold-out variant (see `stockKey`). */
+  sku: string;
+  /** Variant name for the copy, e.g. "M" or "(40-46)". */
+  variantLabel?: string;
+  className?: string;
+}
+
+export const BackInStockForm: React.FC<BackInStockFormProps> = ({
+  sku,
+  variantLabel,
+  className = '',
+}) => {
+  const { user, profile } = useAuth();
+  const accountEmail = profile?.email || user?.email || null;
+  const [email, setEmail] = useState('');
+  const [consent, setConsent] = useState(false);
+  const [turnstileToken, setTurnstileToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<'added' | 'already' | null>(null);
+
+  const isGuest = !user;
+  const canSubmit =
+    consent && !submitting && (isGuest ? email.trim().length > 0 && !!turnstileToken : true);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { data: sessionData } = (await supabase?.auth.getSession()) ?? { data: null };
+      const accessToken = sessionData?.session?.access_token;
+      const response = await fetch('/api/stripe-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({
+          action: 'notify-stock',
+          sku,
+          consent,
+          ...(isGuest && { email: email.trim(), turnstileToken }),
+        }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(json?.error || 'Could not save your sign-up. Please try again.');
+        return;
+      }
+      setDone(json?.alreadyWaiting ? 'already' : 'added');
+    } catch {
+      setError('Could not save your sign-up. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <p
+        className={`flex items-center gap-2 text-xs text-secondary-purple-rain ${className}`}
+        role="status"
+      >
+        <Check className="w-4 h-4 shrink-0" />
+        {done === 'already'
+          ? "You're already on the list for this one."
+          : "Thanks! We'll email you as soon as it's back."}
+      </p>
+    );
+  }
+
+  const name = variantLabel ? `this ${variantLabel}` : 'this item';
+
+  return (
+    <form onSubmit={handleSubmit} className={`flex w-full flex-col gap-3 text-left ${className}`}>
+      <p className="flex items-center gap-2 text-[11px] font-medium uppercase tracking-widest text-secondary-purple-rain/70">
+        <Bell className="w-3.5 h-3.5 shrink-0" />
+        Sold out — get an email when it&apos;s back
+      </p>
+      {isGuest ? (
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Your email"
+          autoComplete="email"
+          maxLength={255}
+          className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-secondary-purple-rain"
+        />
+      ) : (
+        accountEmail && (
+          <p className="text-xs text-slate-600">
+            We&apos;ll write to <span className="font-medium">{accountEmail}</span>.
+          </p>
+        )
+      )}
+      <label className="flex items-start gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={consent}
+          onChange={(e) => setConsent(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Email me once when {name} is back in stock. Every email has a one-click unsubscribe.
+        </span>
+      </label>
+      {isGuest && (
+        <Turnstile
+          siteKey={import.meta.env.VITE_TURNSTILE_SITE_KEY || '1x00000000000000000000AA'}
+          onSuccess={(token) => setTurnstileToken(token)}
+          onError={() => setTurnstileToken('')}
+          onExpire={() => setTurnstileToken('')}
+        />
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="w-full rounded-lg border border-secondary-purple-rain px-4 py-3 text-sm font-medium text-secondary-purple-rain transition-colors hover:bg-secondary-purple-rain hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {submitting ? 'Saving…' : 'Notify me'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * CampaignCountdown.tsx
+ * Countdown for a shop drop on the product page: when members' early access starts, when the
+ * drop opens for everyone and when it ends, plus the per-member limit and member coupon.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  formatCampaignTime,
+  formatCountdown,
+  type CampaignAccess,
+  type ShopCampaign,
+} from '../../lib/shopCampaigns';
+
+interface CampaignCountdownProps {
+  campaign: ShopCampaign;
+  access: CampaignAccess;
+  isMember: boolean;
+  variant: 'desktop' | 'mobile';
+}
+
+function countdownTarget(
+  access: CampaignAccess,
+  isMember: boolean
+): { label: string; at: Date } | null {
+  if (access.phase === 'upcoming') {
+    const earlyAccess =
+      access.membersOpenAt && access.opensAt && access.membersOpenAt < access.opensAt;
+    if (isMember && earlyAccess && access.membersOpenAt) {
+      return { label: 'Members early access in', at: access.membersOpenAt };
+    }
+    const at = access.opensAt ?? access.membersOpenAt;
+    return at ? { label: 'Drop opens in', at } : null;
+  }
+  if (access.phase === 'members' && access.opensAt) {
+    return {
+      label: isMember ? 'Members early access · Opens to everyone in' : 'Opens to everyone in',
+      at: access.opensAt,
+    };
+  }
+  if (access.phase === 'open' && access.endsAt) return { label: 'Drop ends in', at: access.endsAt };
+  return null;
+}
+
+export const CampaignCountdown: React.FC<CampaignCountdownProps> = ({
+  campaign,
+  access,
+  isMember,
+  variant,
+}) => {
+  const [now, setNow] = useState(() => new Date());
+  const target = countdownTarget(access, isMember);
+
+  useEffect(() => {
+    if (!target) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [target?.at.getTime()]);
+
+  const textColorClass =
+    variant === 'desktop' ? 'text-secondary-purple-rain' : 'text-secondary-current';
+  const memberLimit = Math.floor(Number(campaign.memberLimit) || 0);
+
+  return (
+    <div className={`mt-3 flex flex-col gap-1 ${textColorClass}`}>
+      {access.phase === 'ended' ? (
+        <p className="text-xs font-medium text-red-600 uppercase tracking-widest">
+          This drop has ended
+        </p>
+      ) : (
+        target && (
+          <p className="text-xs font-medium uppercase tracking-widest">
+            {target.label}{' '}
+            <span className="tabular-nums font-bold">{formatCountdown(target.at, now)}</span>
+          </p>
+        )
+      )}
+      {access.phase === 'upcoming' && access.opensAt && (
+        <p className="text-xs opacity-70">
+          Opens {formatCampaignTime(access.opensAt)} (Berlin time)
+        </p>
+      )}
+      {access.phase === 'members' && !isMember && (
+        <p className="text-xs opacity-70">
+          Members can already buy this drop.{' '}
+          <Link to="/kandiegangcyclingclub" className="underline">
+            Become a member
+          </Link>
+        </p>
+      )}
+      {memberLimit > 0 && access.phase !== 'ended' && (
+        <p className="text-xs opacity-70">Limited to {memberLimit} per member</p>
+      )}
+      {isMember && campaign.memberCouponId && access.canBuy && (
+        <p className="text-xs text-green-600 font-medium uppercase tracking-widest">
+          Member discount applied at checkout
+        </p>
+      )}
+    </div>
+  );
+};
@@ -10,28 +10,20 @@ import { OffCanvas } from '../layout/OffCanvas';
 import { useCart, CartLineItem } from '../../context/CartContext';
 import { useAuth } from '../../context/AuthContext';
 import { posthog, FUNNEL_EVENTS } from '../../lib/posthog';
-import { isClubMembershipOnly, isStickerSetOnly } from '../../lib/shipping';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  FREE_SHIPPING_THRESHOLD_CENTS,
+  SHIPPING_RATES,
+  calculateShippingCents,
+  type ShippingOption,
+} from '../../lib/shipping';
 import { Loader2, ShoppingBag, Trash2, Minus, Plus, CircleAlert, CircleCheck } from 'lucide-react';
 
-const FREE_SHIPPING_THRESHOLD = 99;
-const SHIPPING_DE = 5.9;
-const SHIPPING_EU = 9.9;
-const SHIPPING_PICKUP = 0;
-const SHIPPING_STICKER_SET = 1.5;
+const FREE_SHIPPING_THRESHOLD = FREE_SHIPPING_THRESHOLD_CENTS / 100;
 
-export type ShippingOption = 'de' | 'eu' | 'pickup';
-
-function getShippingAmount(
-  option: ShippingOption,
-  subtotal: number,
-  cartIsMembershipOnly: boolean,
-  cartIsStickerSetOnly: boolean
-): number {
-  if (cartIsMembershipOnly) return 0;
-  if (option === 'pickup') return SHIPPING_PICKUP;
-  if (cartIsStickerSetOnly) return SHIPPING_STICKER_SET;
-  if (subtotal >= FREE_SHIPPING_THRESHOLD) return 0;
-  return option === 'de' ? SHIPPING_DE : SHIPPING_EU;
+/** Shipping in euros; the checkout API recomputes it from the Stripe prices with the same table. */
+function getShippingAmount(option: ShippingOption, subtotal: number, items: CartLineItem[]): number {
+  return calculateShippingCents(option, Math.round(subtotal * 100), items) / 100;
 }
 
 function CartLineRow({
@@ -108,9 +100,7 @@ export const CartOffcanvas: React.FC = () => {
 
   const subtotal = items.reduce((sum, i) => sum + (i.price ?? 0) * i.quantity, 0);
   const hasAnyPrice = items.some((i) => i.price != null && i.price > 0);
-  const cartIsMembershipOnly = isClubMembershipOnly(items);
-  const cartIsStickerSetOnly = isStickerSetOnly(items);
-  const shippingAmount = getShippingAmount(shippingOption, subtotal, cartIsMembershipOnly, cartIsStickerSetOnly);
+  const shippingAmount = getShippingAmount(shippingOption, subtotal, items);
   const total = subtotal + shippingAmount;
 
   const handleProceedToCheckout = async () => {
@@ -125,13 +115,20 @@ export const CartOffcanvas: React.FC = () => {
         productTitle: i.productTitle,
         productSlug: i.productSlug,
       }));
+      // Signed-in members are priced server-side from their session, not from the basket.
+      const { data: sessionData } = supabase
+        ? await supabase.auth.getSession()
+        : { data: { session: null } };
+      const accessToken = sessionData?.session?.access_token;
       const response = await fetch('/api/stripe-checkout', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        },
         body: JSON.stringify({
           action: 'checkout',
           lineItems,
-          subtotal,
           shippingOption,
           userId: user?.id ?? null,
           userEmail: user?.email ?? null,
@@ -212,7 +209,7 @@ export const CartOffcanvas: React.FC = () => {
                     {subtotal >= FREE_SHIPPING_THRESHOLD ? (
                       <>
                         <CircleCheck className="w-3.5 h-3.5 shrink-0 text-green-600" aria-hidden />
-                        You have qualified for free shipping
+                        You have qualified for free shipping within the EU
                       </>
                     ) : subtotal > 50 ? (
                       <>
@@ -225,51 +222,29 @@ export const CartOffcanvas: React.FC = () => {
                   </p>
                   <fieldset className="space-y-2" aria-label="Shipping option">
                     <legend className="sr-only">Shipping option</legend>
-                    {(
-                      [
-                        {
-                          value: 'de' as const,
-                          label: 'Delivery to Germany',
-                          priceLabel: cartIsStickerSetOnly
-                            ? `€${SHIPPING_STICKER_SET.toFixed(2)}`
-                            : subtotal >= FREE_SHIPPING_THRESHOLD
-                              ? 'Free'
-                              : `€${SHIPPING_DE.toFixed(2)}`,
-                        },
-                        {
-                          value: 'eu' as const,
-                          label: 'Delivery to EU',
-                          priceLabel: cartIsStickerSetOnly
-                            ? `€${SHIPPING_STICKER_SET.toFixed(2)}`
-                            : subtotal >= FREE_SHIPPING_THRESHOLD
-                              ? 'Free'
-                              : `€${SHIPPING_EU.toFixed(2)}`,
-                        },
-                        {
-                          value: 'pickup' as const,
-                          label: 'Local pickup',
-                          priceLabel: 'Free',
-                        },
-                      ] as const
-                    ).map(({ value, label, priceLabel }) => (
-                      <label
-                        key={value}
-                        className="flex items-center justify-between gap-2 cursor-pointer"
-                      >
-                        <span className="flex items-center gap-2">
-                          <input
-                            type="radio"
-                            name="shipping"
-                            value={value}
-                            checked={shippingOption === value}
-                            onChange={() => setShippingOption(value)}
-                            className="text-secondary-purple-rain border-slate-300 focus:ring-secondary-purple-rain"
-                          />
-                          <span className="text-sm text-slate-700">{label}</span>
-                        </span>
-                        <span className="text-sm font-medium text-slate-700">{priceLabel}</span>
-                      </label>
-                    ))}
+                    {SHIPPING_RATES.map(({ option: value, label }) => {
+                      const amount = getShippingAmount(value, subtotal, items);
+                      const priceLabel = amount === 0 ? 'Free' : `€${amount.toFixed(2)}`;
+                      return (
+                        <label
+                          key={value}
+                          className="flex items-center justify-between gap-2 cursor-pointer"
+                        >
+                          <span className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name="shipping"
+                              value={value}
+                              checked={shippingOption === value}
+                              onChange={() => setShippingOption(value)}
+                              className="text-secondary-purple-rain border-slate-300 focus:ring-secondary-purple-rain"
+                            />
+                            <span className="text-sm text-slate-700">{label}</span>
+                          </span>
+                          <span className="text-sm font-medium text-slate-700">{priceLabel}</span>
+                        </label>
+                      );
+                    })}
                   </fieldset>
                   <p className="text-sm font-medium text-slate-700 flex justify-between">
                     <span>Shipping</span>
@@ -2,6 +2,7 @@
  * ProductVariantSelector.tsx
  * Displays product variants as pill buttons (e.g. size ranges (36-39) and (40-46) for socks).
  * User selects one, then adds to basket. Uses the variants array from productFields.
+ * Sold-out variants stay selectable (struck through) so shoppers can sign up for a restock email.
  */
 
 import React from 'react';
@@ -73,7 +74,7 @@ export const ProductVariantSelector: React.FC<ProductVariantSelectorProps> = ({
           aria-label="Choose product variant"
         >
           {variants.map((v, index) => (
-            <option key={index} value={index} disabled={v.inventory <= 0}>
+            <option key={index} value={index}>
               {v.inventory <= 0
                 ? `${formatVariantLabel(v.label)} (Out of stock)`
                 : formatVariantLabel(v.label)}
@@ -108,11 +109,11 @@ export const ProductVariantSelector: React.FC<ProductVariantSelectorProps> = ({
               key={index}
               type="button"
               onClick={() => onVariantChange(index)}
-              disabled={!isInStock}
+              aria-label={isInStock ? undefined : `${v.label} (out of stock)`}
               className={`
                 relative px-2 py-1 rounded-full text-[11px] font-medium transition-all whitespace-nowrap
                 ${isSelected ? 'bg-secondary-purple-rain text-white border border-secondary-purple-rain' : 'bg-white border border-slate-300 text-slate-800 hover:border-slate-400'}
-                ${!isInStock ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+                ${!isInStock ? 'opacity-50 line-through' : ''} cursor-pointer
                 focus:outline-none focus:ring-2 focus:ring-secondary-purple-rain focus:ring-offset-1
               `}
             >
@@ -31,6 +31,10 @@ export interface Profile {
   member_since: string | null;
   /** Latest active membership expiration (YYYY-MM-DD). */
   membership_expiration: string | null;
+  /** Membership tier (standard, reduced, household); null = standard. See lib/membershipTiers.ts. */
+  membership_tier: string | null;
+  /** Household owner whose membership this profile shares, if any. */
+  household_owner_id: string | null;
   /** Whether the user is a Kandie Gang Guide (manual or admin updates). */
   is_guide: boolean;
   /** Whether the user is part of the internal race/team area. */
@@ -217,6 +221,8 @@ async function loadUserAndProfile(): Promise<{
     membership_plans: Array.isArray(raw.membership_plans) ? raw.membership_plans : [],
     member_since: raw.member_since ?? null,
     membership_expiration: raw.membership_expiration ?? null,
+    membership_tier: raw.membership_tier ?? null,
+    household_owner_id: raw.household_owner_id ?? null,
     is_guide: Boolean(raw.is_guide),
     is_team: Boolean(raw.is_team),
     guide_is_coordinator: Boolean(raw.guide_is_coordinator),
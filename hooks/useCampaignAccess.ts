@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import {
+  getCampaignAccess,
+  nextCampaignChange,
+  type CampaignAccess,
+  type ShopCampaign,
+} from '../lib/shopCampaigns';
+
+/** Longest delay setTimeout accepts; later changes are picked up by re-checking then. */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Whether the visitor can buy a drop right now. Re-evaluates when the drop opens for members,
+ * for everyone, or ends, so the page unlocks without a reload.
+ */
+export function useCampaignAccess(
+  campaign: ShopCampaign | null | undefined,
+  isMember: boolean
+): CampaignAccess {
+  const [now, setNow] = useState(() => new Date());
+  const access = getCampaignAccess(campaign, isMember, now);
+  const nextChange = nextCampaignChange(access, now)?.getTime() ?? null;
+
+  useEffect(() => {
+    if (nextChange == null) return;
+    const timer = setTimeout(
+      () => setNow(new Date()),
+      Math.min(MAX_TIMEOUT_MS, Math.max(0, nextChange - Date.now()))
+    );
+    return () => clearTimeout(timer);
+  }, [nextChange]);
+
+  return access;
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabaseClient';
+import type { ShopOrder, ShopOrderStatus } from '../lib/shopOrders';
+
+export type ShopOrderFilter = ShopOrderStatus | 'open' | 'all';
+
+interface ShopOrdersData {
+  orders: ShopOrder[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useShopOrders(filter: ShopOrderFilter): ShopOrdersData {
+  const [tick, setTick] = useState(0);
+  const refresh = useCallback(() => setTick((t) => t + 1), []);
+
+  const [data, setData] = useState<ShopOrdersData>({
+    orders: [],
+    loading: true,
+    error: null,
+    refresh,
+  });
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setData((prev) => ({ ...prev, loading: true, error: null }));
+
+        const {
+          data: { session },
+        } = (await supabase?.auth.getSession()) ?? { data: { session: null } };
+        if (!session?.access_token) throw new Error('Not authenticated');
+
+        const res = await fetch(`/api/analytics-data?section=orders&status=${filter}`, {
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.error || `HTTP ${res.status}`);
+        }
+
+        const json = await res.json();
+        setData({ orders: json.orders ?? [], loading: false, error: null, refresh });
+      } catch (err) {
+        setData((prev) => ({
+          ...prev,
+          loading: false,
+          error: err instanceof Error ? err.message : 'Failed to load shop orders',
+        }));
+      }
+    }
+
+    fetchData();
+  }, [filter, tick, refresh]);
+
+  return data;
+}
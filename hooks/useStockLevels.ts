@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import type { StockLevels } from '../lib/products';
+
+/**
+ * Available stock per SKU from the stock ledger. Null while loading or when the ledger is not
+ * reachable — callers then fall back to the WordPress inventory.
+ */
+export function useStockLevels(): StockLevels | null {
+  const [levels, setLevels] = useState<StockLevels | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/stripe-checkout?view=stock')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json) => {
+        if (!cancelled && json?.stock && typeof json.stock === 'object') {
+          setLevels(json.stock as StockLevels);
+        }
+      })
+      .catch(() => {
+        // Keep the WordPress inventory.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return levels;
+}
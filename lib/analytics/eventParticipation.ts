@@ -1,12 +1,13 @@
 import type { NextApiResponse } from 'next';
 import type { EventParticipationSummary } from '../../types/analytics.js';
+import { maxMemberEarlyAccessDays } from '../membershipTiers.js';
 
 const WP_GRAPHQL_URL =
   process.env.VITE_WP_GRAPHQL_URL ||
   process.env.WP_GRAPHQL_URL ||
   'https://wp-origin.kandiegang.com/graphql';
 const FLINTA_EARLY_DAYS = Number(process.env.FLINTA_EARLY_DAYS ?? 7);
-const MEMBER_EARLY_DAYS = Number(process.env.MEMBER_EARLY_DAYS ?? 5);
+const MEMBER_EARLY_DAYS = maxMemberEarlyAccessDays(Number(process.env.MEMBER_EARLY_DAYS ?? 5));
 
 function normalizeEmail(email: string | null | undefined): string | null {
   if (!email) return null;
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPersonalFeedEntries,
+  buildPublicFeedEntries,
+  parseFeedFilter,
+  rideUid,
+  type FeedEvent,
+} from './calendarFeed';
+import { generateIcsCalendar } from './ics';
+
+const single: FeedEvent = {
+  eventId: 7,
+  title: 'Social Ride',
+  link: 'https://kandiegang.com/event/26/05/12/social-ride',
+  date: '2026-05-12',
+  time: '18:30',
+  location: 'Stadtpark',
+  type: 'ride',
+  levels: ['level1', 'level2'],
+  recurrence: null,
+};
+
+const series: FeedEvent = {
+  ...single,
+  eventId: 9,
+  title: 'Tuesday Ride',
+  date: '2026-05-05',
+  recurrence: {
+    startDate: '2026-05-05',
+    rule: { interval: 1, weekdays: [2], until: '2026-05-26', count: null },
+    exceptions: ['2026-05-19'],
+  },
+};
+
+const workshop: FeedEvent = {
+  ...single,
+  eventId: 11,
+  title: 'Tubeless Workshop',
+  type: 'workshop',
+  levels: [],
+};
+
+describe('parseFeedFilter', () => {
+  it('accepts known types and levels case-insensitively', () => {
+    expect(parseFeedFilter({ type: 'Ride', level: 'LEVEL2' })).toEqual({
+      type: 'ride',
+      level: 'level2',
+    });
+  });
+
+  it('ignores unknown values and uses the first of repeated params', () => {
+    expect(parseFeedFilter({ type: 'party', level: ['gravel', 'level1'] })).toEqual({
+      type: null,
+      level: 'gravel',
+    });
+    expect(parseFeedFilter({})).toEqual({ type: null, level: null });
+  });
+});
+
+describe('rideUid', () => {
+  it('is stable per event, occurrence and level', () => {
+    expect(rideUid(7, null)).toBe('ride-7-once@kandiegang.com');
+    expect(rideUid(9, '2026-05-12', 'level2')).toBe('ride-9-2026-05-12-level2@kandiegang.com');
+  });
+});
+
+describe('buildPublicFeedEntries', () => {
+  const all = { type: null, level: null };
+
+  it('expands series from the start date and skips exceptions', () => {
+    const entries = buildPublicFeedEntries([series], [], all, '2026-05-10');
+    expect(entries.map((e) => e.date)).toEqual(['2026-05-12', '2026-05-26']);
+    expect(entries[0].uid).toBe('ride-9-2026-05-12@kandiegang.com');
+  });
+
+  it('filters by type and level', () => {
+    const events = [single, workshop];
+    expect(
+      buildPublicFeedEntries(events, [], { type: 'workshop', level: null }, '2026-05-01')
+    ).toHaveLength(1);
+    const level2 = buildPublicFeedEntries(
+      events,
+      [],
+      { type: null, level: 'level2' },
+      '2026-05-01'
+    );
+    expect(level2).toHaveLength(1);
+    expect(level2[0].uid).toBe('ride-7-once-level2@kandiegang.com');
+    expect(level2[0].title).toBe('Social Ride – Level 2');
+  });
+
+  it('cancels a ride only when all of its levels are cancelled', () => {
+    const one = [{ event_id: 7, ride_level: 'level1', occurrence_date: null, reason: 'Storm' }];
+    const [partly] = buildPublicFeedEntries([single], one, all, '2026-05-01');
+    expect(partly.status).toBe('CONFIRMED');
+    expect(partly.description).toContain('Level 1 cancelled: Storm');
+
+    const both = [...one, { event_id: 7, ride_level: 'level2', occurrence_date: null }];
+    expect(buildPublicFeedEntries([single], both, all, '2026-05-01')[0].status).toBe('CANCELLED');
+    expect(
+      buildPublicFeedEntries([single], one, { type: null, level: 'level1' }, '2026-05-01')[0].status
+    ).toBe('CANCELLED');
+  });
+
+  it('leaves out past rides', () => {
+    expect(buildPublicFeedEntries([single], [], all, '2026-06-01')).toEqual([]);
+  });
+});
+
+describe('buildPersonalFeedEntries', () => {
+  const events = { 7: single, 9: series };
+  const registration = {
+    event_id: 7,
+    ride_level: 'level2',
+    occurrence_date: null,
+    is_waitlist: false,
+    cancelled_at: null,
+  };
+
+  it('marks waitlist spots tentative and cancelled spots cancelled', () => {
+    const entries = buildPersonalFeedEntries(
+      [
+        { ...registration, is_waitlist: true },
+        {
+          ...registration,
+          event_id: 9,
+          occurrence_date: '2026-05-12',
+          cancelled_at: '2026-05-01T10:00:00Z',
+        },
+      ],
+      events,
+      [],
+      '2026-05-01'
+    );
+    expect(entries.map((e) => [e.date, e.status])).toEqual([
+      ['2026-05-12', 'TENTATIVE'],
+      ['2026-05-12', 'CANCELLED'],
+    ]);
+    expect(entries[0].title).toBe('Social Ride – Level 2 (waitlist)');
+  });
+
+  it('keeps the active registration when a rider signed up again', () => {
+    const entries = buildPersonalFeedEntries(
+      [registration, { ...registration, cancelled_at: '2026-05-01T10:00:00Z' }],
+      events,
+      [],
+      '2026-05-01'
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0].status).toBe('CONFIRMED');
+  });
+
+  it('cancels rides whose level the guides cancelled', () => {
+    const [entry] = buildPersonalFeedEntries(
+      [registration],
+      events,
+      [{ event_id: 7, ride_level: 'level2', occurrence_date: null, reason: null }],
+      '2026-05-01'
+    );
+    expect(entry.status).toBe('CANCELLED');
+    expect(entry.description).toContain('Cancelled by the guides');
+  });
+});
+
+describe('generateIcsCalendar', () => {
+  it('wraps entries in one calendar with a name and refresh hint', () => {
+    const ics = generateIcsCalendar(
+      buildPublicFeedEntries([single], [], { type: null, level: null }, '2026-05-01'),
+      { name: 'Kandie Gang rides' }
+    );
+    expect(ics).toContain('X-WR-CALNAME:Kandie Gang rides');
+    expect(ics).toContain('REFRESH-INTERVAL');
+    expect(ics).toContain('UID:ride-7-once@kandiegang.com');
+    expect(ics).toContain('STATUS:CONFIRMED');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+});
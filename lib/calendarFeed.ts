@@ -0,0 +1,213 @@
+/**
+ * Calendar subscription feeds (webcal).
+ *
+ * The public feed lists every upcoming ride (recurring series expanded), optionally filtered by
+ * event type and level. The private feed lists only the rides one member is registered for. UIDs
+ * are derived from event, occurrence and level, so a subscribed calendar updates the same entry
+ * when a ride changes and marks it cancelled when a guide cancels the level
+ * (`ride_level_cancellations`) or the rider cancels their spot.
+ *
+ * Pure module — api/event.ts loads WordPress events and Supabase rows, this builds the entries.
+ */
+import type { IcsEventInput } from './ics.js';
+import type { EventType } from './eventType.js';
+import { expandOccurrences, formatOccurrenceTitle, type EventRecurrence } from './recurrence.js';
+
+export type FeedEvent = {
+  eventId: number;
+  title: string;
+  link: string | null;
+  /** First (or only) ride, "YYYY-MM-DD". */
+  date: string;
+  time: string | null;
+  location: string | null;
+  type: EventType;
+  /** Level keys with guides (level1 … level3, gravel); empty for workshops. */
+  levels: string[];
+  recurrence: EventRecurrence | null;
+};
+
+export type FeedFilter = {
+  type: EventType | null;
+  level: string | null;
+};
+
+export type LevelCancellation = {
+  event_id: number;
+  ride_level: string;
+  occurrence_date: string | null;
+  reason?: string | null;
+};
+
+export type FeedRegistration = {
+  event_id: number;
+  ride_level: string | null;
+  occurrence_date: string | null;
+  is_waitlist: boolean | null;
+  cancelled_at: string | null;
+};
+
+export const FEED_EVENT_TYPES: EventType[] = ['ride', 'workshop', 'training'];
+export const FEED_LEVELS = ['level1', 'level2', 'level2plus', 'level3', 'gravel'];
+
+/** Occurrences further out than this are left out of the feed. */
+const FEED_HORIZON_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LEVEL_LABELS: Record<string, string> = {
+  level1: 'Level 1',
+  level2: 'Level 2',
+  level2plus: 'Level 2+',
+  level3: 'Level 3',
+  gravel: 'Gravel',
+  workshop: 'Workshop',
+};
+
+function levelLabel(level: string): string {
+  return LEVEL_LABELS[level] ?? level;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Filter from query params; unknown values are ignored rather than rejected. */
+export function parseFeedFilter(query: { type?: unknown; level?: unknown }): FeedFilter {
+  const first = (value: unknown) =>
+    (Array.isArray(value) ? value[0] : value)?.toString().trim().toLowerCase() || null;
+  const type = first(query.type);
+  const level = first(query.level);
+  return {
+    type: type && (FEED_EVENT_TYPES as string[]).includes(type) ? (type as EventType) : null,
+    level: level && FEED_LEVELS.includes(level) ? level : null,
+  };
+}
+
+/** Stable VEVENT UID for a ride (and level). Shared by feeds and signup email attachments. */
+export function rideUid(eventId: number, occurrenceDate: string | null, level?: string | null) {
+  return `ride-${eventId}-${occurrenceDate ?? 'once'}${level ? `-${level}` : ''}@kandiegang.com`;
+}
+
+function cancellationKey(eventId: number, level: string, occurrenceDate: string | null): string {
+  return `${eventId}:${level}:${occurrenceDate ?? ''}`;
+}
+
+function indexCancellations(cancellations: LevelCancellation[]): Map<string, LevelCancellation> {
+  return new Map(
+    cancellations.map((c) => [cancellationKey(c.event_id, c.ride_level, c.occurrence_date), c])
+  );
+}
+
+/** Ride dates of an event from `from` up to the feed horizon. */
+export function feedDates(event: FeedEvent, from: string): string[] {
+  const until = addDays(from, FEED_HORIZON_DAYS);
+  if (!event.recurrence) return event.date >= from && event.date <= until ? [event.date] : [];
+  return expandOccurrences(event.recurrence, { from }).filter((date) => date <= until);
+}
+
+/**
+ * Public feed entries. With a level filter every ride becomes that level's entry (cancelled when
+ * the level is); without one, a ride is cancelled only once all of its levels are.
+ */
+export function buildPublicFeedEntries(
+  events: FeedEvent[],
+  cancellations: LevelCancellation[],
+  filter: FeedFilter,
+  from: string
+): IcsEventInput[] {
+  const cancelled = indexCancellations(cancellations);
+  const entries: IcsEventInput[] = [];
+  for (const event of events) {
+    if (filter.type && event.type !== filter.type) continue;
+    if (filter.level && !event.levels.includes(filter.level)) continue;
+    const levels = filter.level ? [filter.level] : event.levels;
+
+    for (const date of feedDates(event, from)) {
+      const occurrenceDate = event.recurrence ? date : null;
+      const cancelledLevels = levels.filter((level) =>
+        cancelled.has(cancellationKey(event.eventId, level, occurrenceDate))
+      );
+      const allCancelled = levels.length > 0 && cancelledLevels.length === levels.length;
+      const title = formatOccurrenceTitle(event.title, occurrenceDate);
+      const notes = cancelledLevels.map((level) => {
+        const reason = cancelled.get(cancellationKey(event.eventId, level, occurrenceDate))?.reason;
+        return `${levelLabel(level)} cancelled${reason ? `: ${reason}` : ''}`;
+      });
+      entries.push({
+        uid: rideUid(event.eventId, occurrenceDate, filter.level),
+        title: filter.level ? `${title} – ${levelLabel(filter.level)}` : title,
+        date,
+        time: event.time ?? undefined,
+        location: event.location ?? undefined,
+        url: event.link ?? undefined,
+        description:
+          [
+            !filter.level && levels.length > 0
+              ? `Levels: ${levels.map(levelLabel).join(', ')}`
+              : '',
+            ...notes,
+            event.link ?? '',
+          ]
+            .filter(Boolean)
+            .join('\n') || undefined,
+        status: allCancelled ? 'CANCELLED' : 'CONFIRMED',
+      });
+    }
+  }
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Private feed entries: one per registration. Cancelled registrations and cancelled levels stay in
+ * the feed as CANCELLED so subscribed calendars drop them; waitlist spots are TENTATIVE.
+ */
+export function buildPersonalFeedEntries(
+  registrations: FeedRegistration[],
+  eventsById: Record<number, FeedEvent>,
+  cancellations: LevelCancellation[],
+  from: string
+): IcsEventInput[] {
+  const cancelled = indexCancellations(cancellations);
+  const entries = new Map<string, IcsEventInput>();
+  const active = new Set<string>();
+  for (const registration of registrations) {
+    const event = eventsById[registration.event_id];
+    if (!event) continue;
+    const date = registration.occurrence_date ?? event.date;
+    if (date < from) continue;
+    const level = registration.ride_level || 'workshop';
+    const uid = rideUid(event.eventId, registration.occurrence_date, level);
+    // A rider can cancel and sign up again; the active registration wins.
+    if (registration.cancelled_at && active.has(uid)) continue;
+    if (!registration.cancelled_at) active.add(uid);
+
+    const levelCancelled = cancelled.get(
+      cancellationKey(event.eventId, level, registration.occurrence_date)
+    );
+    const title = `${formatOccurrenceTitle(event.title, registration.occurrence_date)} – ${levelLabel(level)}`;
+    entries.set(uid, {
+      uid,
+      title: registration.is_waitlist ? `${title} (waitlist)` : title,
+      date,
+      time: event.time ?? undefined,
+      location: event.location ?? undefined,
+      url: event.link ?? undefined,
+      description:
+        [
+          levelCancelled
+            ? `Cancelled by the guides${levelCancelled.reason ? `: ${levelCancelled.reason}` : ''}`
+            : '',
+          event.link ?? '',
+        ]
+          .filter(Boolean)
+          .join('\n') || undefined,
+      status:
+        registration.cancelled_at || levelCancelled
+          ? 'CANCELLED'
+          : registration.is_waitlist
+            ? 'TENTATIVE'
+            : 'CONFIRMED',
+    });
+  }
+  return Array.from(entries.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -49,6 +49,11 @@ export interface EventDetails {
   level3?: RideLevel;
   isFlintaOnly?: boolean;
   repeatingEvent?: boolean;
+  repeatUntil?: string | null;
+  /** Weekly RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=TU" (see lib/recurrence.ts). */
+  recurrenceRule?: string | null;
+  /** Skipped dates of the series, "YYYY-MM-DD" separated by commas or new lines. */
+  recurrenceExceptions?: string | null;
   meetingPoint?: MeetingPoint;
 }
 
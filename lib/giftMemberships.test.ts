@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateGiftCode,
+  giftedMembershipDates,
+  isPlausibleEmail,
+  normalizeGiftCode,
+} from './giftMemberships';
+
+describe('generateGiftCode', () => {
+  it('builds three groups from the unambiguous alphabet', () => {
+    let next = 0;
+    const code = generateGiftCode(() => next++);
+    expect(code).toBe('KG-ABCD-EFGH-JKMN');
+    expect(generateGiftCode()).toMatch(/^KG-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+  });
+
+  it('draws every character uniformly from the whole alphabet', () => {
+    const bounds: number[] = [];
+    generateGiftCode((max) => {
+      bounds.push(max);
+      return max - 1;
+    });
+    expect(bounds).toEqual(Array(12).fill(31));
+  });
+});
+
+describe('normalizeGiftCode', () => {
+  it('accepts codes as people type them', () => {
+    expect(normalizeGiftCode(' kg-7h3m-q9xa-2rtp ')).toBe('KG-7H3M-Q9XA-2RTP');
+    expect(normalizeGiftCode('7H3M Q9XA 2RTP')).toBe('KG-7H3M-Q9XA-2RTP');
+  });
+
+  it('rejects wrong lengths and ambiguous characters', () => {
+    expect(normalizeGiftCode('KG-7H3M-Q9XA')).toBeNull();
+    expect(normalizeGiftCode('KG-7H3M-Q9XA-2RT0')).toBeNull();
+    expect(normalizeGiftCode(undefined)).toBeNull();
+  });
+});
+
+describe('giftedMembershipDates', () => {
+  it('starts a year today for non-members', () => {
+    expect(giftedMembershipDates(null, '2026-12-24')).toEqual({
+      memberSince: '2026-12-24',
+      membershipExpiration: '2027-12-24',
+    });
+    expect(
+      giftedMembershipDates(
+        { member_since: '2024-03-01', membership_expiration: '2025-03-01' },
+        '2026-12-24'
+      ).memberSince
+    ).toBe('2026-12-24');
+  });
+
+  it('extends an active membership from its end', () => {
+    expect(
+      giftedMembershipDates(
+        { member_since: '2026-01-15', membership_expiration: '2027-01-15' },
+        '2026-12-24'
+      )
+    ).toEqual({ memberSince: '2026-01-15', membershipExpiration: '2028-01-15' });
+  });
+});
+
+describe('isPlausibleEmail', () => {
+  it('catches obvious typos in the recipient field', () => {
+    expect(isPlausibleEmail('friend@example.com')).toBe(true);
+    expect(isPlausibleEmail('friend@example')).toBe(false);
+    expect(isPlausibleEmail('friend example.com')).toBe(false);
+    expect(isPlausibleEmail(null)).toBe(false);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Gift memberships (table in the `create_gift_memberships` migration).
+ *
+ * Buying the gift membership product (`GIFT_MEMBERSHIP_SLUG`) does not make the buyer a member:
+ * Stripe Checkout collects the recipient's email and an optional message, the webhook issues a
+ * redeem code and emails it to the recipient, and the recipient redeems it in the members area
+ * (`POST /api/stripe-checkout` with `action=redeem-gift`), which grants a year on their own profile.
+ * A full refund or lost dispute of the checkout revokes the gift (`revokeGiftMembership`).
+ *
+ * Server-side only (Supabase service role), apart from the pure helpers.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { CLUB_PLAN_NAME } from './memberWelcomeEmail.js';
+import { shortenMembershipExpiration } from './orderHistory.js';
+
+export const GIFT_MEMBERSHIP_PERIOD_DAYS = 365;
+
+/** Stripe Checkout custom field keys (alphanumeric only). */
+export const GIFT_RECIPIENT_EMAIL_FIELD = 'giftrecipientemail';
+export const GIFT_MESSAGE_FIELD = 'giftmessage';
+
+/** No 0/O, 1/I/L: codes get typed in from printed cards. */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+
+export type GiftMembership = {
+  id: string;
+  code: string;
+  stripe_session_id: string;
+  purchaser_user_id: string | null;
+  purchaser_email: string | null;
+  recipient_email: string;
+  message: string | null;
+  period_days: number;
+  status: 'issued' | 'redeemed' | 'revoked';
+  redeemed_by: string | null;
+  redeemed_at: string | null;
+  email_sent_at: string | null;
+};
+
+export type RedeemGiftResult =
+  | { ok: true; memberSince: string; membershipExpiration: string }
+  | { ok: false; status: 400 | 404 | 409 | 500; error: string };
+
+/** What revoking a gift changed, for the webhook's Discord notice. */
+export type RevokeGiftResult = { ok: boolean; outcome: string };
+
+/**
+ * A fresh code like "KG-7H3M-Q9XA-2RTP". `randomIndex(max)` returns a uniform integer below `max`
+ * (a byte modulo the alphabet size would favour its first letters).
+ */
+export function generateGiftCode(
+  randomIndex: (max: number) => number = (max) => crypto.randomInt(max)
+): string {
+  const chars = Array.from(
+    { length: CODE_GROUPS * CODE_GROUP_LENGTH },
+    () => CODE_ALPHABET[randomIndex(CODE_ALPHABET.length)]
+  );
+  const groups: string[] = [];
+  for (let i = 0; i < chars.length; i += CODE_GROUP_LENGTH) {
+    groups.push(chars.slice(i, i + CODE_GROUP_LENGTH).join(''));
+  }
+  return ['KG', ...groups].join('-');
+}
+
+/**
+ * Code as typed (any case, spaces or dashes, with or without "KG") → canonical form, or null
+ * when it cannot be a gift code.
+ */
+export function normalizeGiftCode(input: string | null | undefined): string | null {
+  const compact = String(input ?? '')
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/^KG/, '');
+  const length = CODE_GROUPS * CODE_GROUP_LENGTH;
+  if (compact.length !== length) return null;
+  if ([...compact].some((c) => !CODE_ALPHABET.includes(c))) return null;
+  const groups: string[] = [];
+  for (let i = 0; i < length; i += CODE_GROUP_LENGTH) {
+    groups.push(compact.slice(i, i + CODE_GROUP_LENGTH));
+  }
+  return ['KG', ...groups].join('-');
+}
+
+export function isPlausibleEmail(value: string | null | undefined): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value ?? '').trim());
+}
+
+/**
+ * Membership dates after redeeming a gift on `today`: an active membership is extended from its
+ * current end and keeps its start date; otherwise the gift starts today.
+ */
+export function giftedMembershipDates(
+  profile: { member_since?: string | null; membership_expiration?: string | null } | null,
+  today: string,
+  periodDays: number = GIFT_MEMBERSHIP_PERIOD_DAYS
+): { memberSince: string; membershipExpiration: string } {
+  const currentEnd = profile?.membership_expiration ?? null;
+  const active = Boolean(currentEnd && currentEnd >= today);
+  const base = new Date(`${active ? currentEnd : today}T00:00:00Z`);
+  base.setUTCDate(base.getUTCDate() + periodDays);
+  return {
+    memberSince: active && profile?.member_since ? profile.member_since : today,
+    membershipExpiration: base.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Issue the gift for a paid checkout. Idempotent per Stripe session: webhook retries get the gift
+ * that was issued the first time.
+ */
+export async function issueGiftMembership(
+  adminClient: SupabaseClient<any>,
+  params: {
+    stripeSessionId: string;
+    purchaserUserId: string | null;
+    purchaserEmail: string | null;
+    recipientEmail: string;
+    message: string | null;
+  }
+): Promise<GiftMembership> {
+  const { data: existing, error: existingError } = await adminClient
+    .from('gift_memberships')
+    .select('*')
+    .eq('stripe_session_id', params.stripeSessionId)
+    .maybeSingle();
+  if (existingError) throw new Error(`Could not look up gift: ${existingError.message}`);
+  if (existing) return existing as GiftMembership;
+
+  const { data, error } = await adminClient
+    .from('gift_memberships')
+    .insert({
+      code: generateGiftCode(),
+      stripe_session_id: params.stripeSessionId,
+      purchaser_user_id: params.purchaserUserId,
+      purchaser_email: params.purchaserEmail,
+      recipient_email: params.recipientEmail,
+      message: params.message,
+      period_days: GIFT_MEMBERSHIP_PERIOD_DAYS,
+    })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Could not issue gift: ${error.message}`);
+  return data as GiftMembership;
+}
+
+export async function markGiftEmailSent(
+  adminClient: SupabaseClient<any>,
+  giftId: string
+): Promise<void> {
+  const { error } = await adminClient
+    .from('gift_memberships')
+    .update({ email_sent_at: new Date().toISOString() })
+    .eq('id', giftId);
+  if (error) console.warn('[giftMemberships] Could not mark gift email sent:', error.message);
+}
+
+/**
+ * Redeem a code for `userId`: claims the gift (one redemption, race-safe) and grants the
+ * membership on the user's own profile. The claim is undone if the profile cannot be updated.
+ */
+export async function redeemGiftMembership(
+  adminClient: SupabaseClient<any>,
+  rawCode: string,
+  userId: string,
+  today: string
+): Promise<RedeemGiftResult> {
+  const code = normalizeGiftCode(rawCode);
+  if (!code) {
+    return { ok: false, status: 400, error: 'That does not look like a gift code.' };
+  }
+
+  const { data: claimed, error: claimError } = await adminClient
+    .from('gift_memberships')
+    .update({ status: 'redeemed', redeemed_by: userId, redeemed_at: new Date().toISOString() })
+    .eq('code', code)
+    .eq('status', 'issued')
+    .select('id, period_days')
+    .maybeSingle();
+  if (claimError) {
+    console.error('[giftMemberships] Claim failed:', claimError);
+    return { ok: false, status: 500, error: 'Could not redeem the gift. Please try again.' };
+  }
+  if (!claimed) {
+    const { data: gift } = await adminClient
+      .from('gift_memberships')
+      .select('status, redeemed_by')
+      .eq('code', code)
+      .maybeSingle();
+    if (!gift) return { ok: false, status: 404, error: 'We could not find that gift code.' };
+    if (gift.status === 'redeemed' && gift.redeemed_by === userId) {
+      return { ok: false, status: 409, error: 'You have already redeemed this gift.' };
+    }
+    if (gift.status === 'revoked') {
+      return { ok: false, status: 409, error: 'This gift code is no longer valid.' };
+    }
+    return { ok: false, status: 409, error: 'This gift code has already been used.' };
+  }
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .select(
+      'member_since, membership_expiration, membership_plans, membership_tier, household_owner_id'
+    )
+    .eq('id', userId)
+    .maybeSingle();
+  // A household member's dates are the owner's: the gift starts a membership of their own instead.
+  const ownMembership = profile?.household_owner_id ? null : profile;
+  const dates = giftedMembershipDates(
+    ownMembership,
+    today,
+    Number(claimed.period_days) || undefined
+  );
+  const extendsOwnMembership = Boolean(
+    ownMembership?.membership_expiration && ownMembership.membership_expiration >= today
+  );
+  const plans: string[] = Array.isArray(profile?.membership_plans) ? profile.membership_plans : [];
+  const { error: updateError } = profileError
+    ? { error: profileError }
+    : await adminClient
+        .from('profiles')
+        .update({
+          is_member: true,
+          membership_source: 'supabase',
+          membership_plans: plans.includes(CLUB_PLAN_NAME) ? plans : [...plans, CLUB_PLAN_NAME],
+          // A gift is a standard year; it extends an active membership on the tier it has.
+          membership_tier: (extendsOwnMembership && ownMembership?.membership_tier) || 'standard',
+          household_owner_id: null,
+          member_since: dates.memberSince,
+          membership_expiration: dates.membershipExpiration,
+        })
+        .eq('id', userId);
+  if (updateError) {
+    console.error('[giftMemberships] Profile update failed, releasing gift:', updateError);
+    await adminClient
+      .from('gift_memberships')
+      .update({ status: 'issued', redeemed_by: null, redeemed_at: null })
+      .eq('id', claimed.id);
+    return { ok: false, status: 500, error: 'Could not redeem the gift. Please try again.' };
+  }
+  return { ok: true, ...dates };
+}
+
+/**
+ * Take back the gift a refunded or lost checkout paid for. An unredeemed code is revoked; a
+ * redeemed gift is revoked and the recipient's membership moves back by the gift's period (ended
+ * when nothing is left). A revoked gift is left alone, so webhook retries change nothing. Null when
+ * the checkout bought no gift.
+ */
+export async function revokeGiftMembership(
+  adminClient: SupabaseClient<any>,
+  stripeSessionId: string,
+  today: string
+): Promise<RevokeGiftResult | null> {
+  const { data: gift, error } = await adminClient
+    .from('gift_memberships')
+    .select('id, code, status, redeemed_by, period_days')
+    .eq('stripe_session_id', stripeSessionId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not look up gift: ${error.message}`);
+  if (!gift) return null;
+  if (gift.status === 'revoked') return { ok: true, outcome: `Gift ${gift.code} already revoked` };
+
+  // Conditional on the status read above, so a redemption in between is not missed.
+  const { data: claimed, error: claimError } = await adminClient
+    .from('gift_memberships')
+    .update({ status: 'revoked' })
+    .eq('id', gift.id)
+    .eq('status', gift.status)
+    .select('id')
+    .maybeSingle();
+  if (claimError) throw new Error(`Could not revoke gift: ${claimError.message}`);
+  if (!claimed) throw new Error('Could not revoke gift: it was redeemed meanwhile');
+  if (gift.status !== 'redeemed' || !gift.redeemed_by) {
+    return { ok: true, outcome: `Gift code ${gift.code} revoked` };
+  }
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .select('membership_expiration')
+    .eq('id', gift.redeemed_by)
+    .maybeSingle();
+  const expiration = shortenMembershipExpiration(
+    profile?.membership_expiration ?? null,
+    Number(gift.period_days) || GIFT_MEMBERSHIP_PERIOD_DAYS,
+    today
+  );
+  const ended = expiration <= today;
+  const { error: updateError } =
+    profileError || !profile
+      ? { error: profileError ?? { message: 'recipient profile not found' } }
+      : await adminClient
+          .from('profiles')
+          .update({ membership_expiration: expiration, ...(ended && { is_member: false }) })
+          .eq('id', gift.redeemed_by);
+  if (updateError) {
+    console.error('[giftMemberships] Recipient update failed, gift stays redeemed:', updateError);
+    await adminClient.from('gift_memberships').update({ status: 'redeemed' }).eq('id', gift.id);
+    return {
+      ok: false,
+      outcome: `Gift ${gift.code}: recipient's membership could not be adjusted – check the profile`,
+    };
+  }
+  return {
+    ok: true,
+    outcome: ended
+      ? `Gift ${gift.code} revoked, recipient's membership ended`
+      : `Gift ${gift.code} revoked, recipient's membership shortened to ${expiration}`,
+  };
+}
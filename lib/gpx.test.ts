@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseGpx, simplifyRoute, summarizeGpx, summarizeRoute, type GpxPoint } from './gpx';
+
+/** Points due north along a meridian; one degree of latitude ≈ 111.19 km. */
+function northbound(count: number, stepM: number, eleAt: (i: number) => number | null) {
+  const stepDeg = stepM / 111_195;
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 53.5 + i * stepDeg,
+    lon: 10,
+    ele: eleAt(i),
+  })) as GpxPoint[];
+}
+
+describe('parseGpx', () => {
+  it('reads track points with either attribute order and optional elevation', () => {
+    const points = parseGpx(`<?xml version="1.0"?>
+      <gpx><trk><trkseg>
+        <trkpt lat="53.55" lon="9.99"><ele>12.5</ele></trkpt>
+        <trkpt lon='10.01' lat='53.56'/>
+      </trkseg></trk></gpx>`);
+    expect(points).toEqual([
+      { lat: 53.55, lon: 9.99, ele: 12.5 },
+      { lat: 53.56, lon: 10.01, ele: null },
+    ]);
+  });
+
+  it('falls back to route points when there is no track', () => {
+    const points = parseGpx('<gpx><rte><rtept lat="1" lon="2"></rtept></rte></gpx>');
+    expect(points).toEqual([{ lat: 1, lon: 2, ele: null }]);
+  });
+});
+
+describe('summarizeRoute', () => {
+  it('computes distance, climbing and max gradient', () => {
+    // 2 km flat, then 1 km at 5 %.
+    const points = northbound(31, 100, (i) => (i <= 20 ? 10 : 10 + (i - 20) * 5));
+    const summary = summarizeRoute(points);
+    expect(summary?.distanceKm).toBe(3);
+    expect(summary?.elevationGainM).toBe(50);
+    expect(summary?.maxGradientPct).toBeCloseTo(5, 0);
+    expect(summary?.minEleM).toBe(10);
+    expect(summary?.maxEleM).toBe(60);
+    expect(summary?.profile).toHaveLength(120);
+    expect(summary?.profile[119]).toEqual([3, 60]);
+  });
+
+  it('ignores elevation noise below the threshold', () => {
+    const points = northbound(50, 50, (i) => 20 + (i % 2 === 0 ? 0 : 2));
+    expect(summarizeRoute(points)?.elevationGainM).toBe(0);
+  });
+
+  it('leaves elevation stats empty without elevation data', () => {
+    const summary = summarizeRoute(northbound(10, 100, () => null));
+    expect(summary?.elevationGainM).toBeNull();
+    expect(summary?.profile).toEqual([]);
+  });
+
+  it('returns null for fewer than two points', () => {
+    expect(summarizeGpx('<gpx></gpx>')).toBeNull();
+  });
+});
+
+describe('simplifyRoute', () => {
+  it('keeps the outline below the point limit and preserves the endpoints', () => {
+    const points = northbound(1000, 20, () => null).map((p, i) => ({
+      ...p,
+      lon: 10 + Math.sin(i / 40) * 0.01,
+    }));
+    const outline = simplifyRoute(points, 200);
+    expect(outline.length).toBeLessThanOrEqual(200);
+    expect(outline[0]).toEqual([points[0].lat, points[0].lon]);
+    expect(outline[outline.length - 1]).toEqual([points[999].lat, points[999].lon]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * GPX route parsing and summary stats for ride levels. Runs on the server (api/event.ts parses the
+ * GPX attached in WordPress) so the event page only receives the small RouteSummary, which it
+ * renders as a static SVG elevation profile and route outline.
+ */
+
+export type GpxPoint = { lat: number; lon: number; ele: number | null };
+
+export type RouteSummary = {
+  distanceKm: number;
+  /** Total climbing in metres; null when the GPX has no elevation data. */
+  elevationGainM: number | null;
+  /** Steepest climb over at least GRADIENT_WINDOW_M, in percent. */
+  maxGradientPct: number | null;
+  minEleM: number | null;
+  maxEleM: number | null;
+  /** Simplified route as [lat, lon] pairs. */
+  outline: Array<[number, number]>;
+  /** Evenly spaced [distanceKm, elevationM] samples; empty without elevation data. */
+  profile: Array<[number, number]>;
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+/** Climbs smaller than this between two readings are treated as GPS noise. */
+const ELEVATION_NOISE_M = 3;
+const GRADIENT_WINDOW_M = 100;
+const MAX_OUTLINE_POINTS = 200;
+const PROFILE_SAMPLES = 120;
+
+const POINT_PATTERN = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+
+function readAttribute(attributes: string, name: string): number {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`).exec(attributes);
+  return match ? Number(match[1]) : NaN;
+}
+
+/** Track points of a GPX document (route points when it has no track). */
+export function parseGpx(xml: string): GpxPoint[] {
+  const tracks: GpxPoint[] = [];
+  const routes: GpxPoint[] = [];
+  for (const match of xml.matchAll(POINT_PATTERN)) {
+    const lat = readAttribute(match[2], 'lat');
+    const lon = readAttribute(match[2], 'lon');
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    const eleMatch = /<ele>\s*([^<]+?)\s*<\/ele>/.exec(match[3] ?? '');
+    const ele = eleMatch ? Number(eleMatch[1]) : NaN;
+    const point = { lat, lon, ele: Number.isFinite(ele) ? ele : null };
+    (match[1] === 'trkpt' ? tracks : routes).push(point);
+  }
+  return tracks.length > 0 ? tracks : routes;
+}
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+export function haversineM(a: GpxPoint, b: GpxPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function cumulativeDistances(points: GpxPoint[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + haversineM(points[i - 1], points[i]));
+  }
+  return distances;
+}
+
+function elevationGain(elevations: number[]): number {
+  let gain = 0;
+  let reference = elevations[0];
+  for (const ele of elevations) {
+    if (ele > reference + ELEVATION_NOISE_M) {
+      gain += ele - reference;
+      reference = ele;
+    } else if (ele < reference) {
+      reference = ele;
+    }
+  }
+  return gain;
+}
+
+function maxGradient(distances: number[], elevations: number[]): number | null {
+  let best: number | null = null;
+  let j = 0;
+  for (let i = 0; i < distances.length; i++) {
+    if (j < i) j = i;
+    while (j < distances.length - 1 && distances[j] - distances[i] < GRADIENT_WINDOW_M) j++;
+    const run = distances[j] - distances[i];
+    if (run < GRADIENT_WINDOW_M) break;
+    const gradient = ((elevations[j] - elevations[i]) / run) * 100;
+    if (best === null || gradient > best) best = gradient;
+  }
+  return best;
+}
+
+/** Douglas–Peucker on a local flat projection; tolerance grows until the outline is small enough. */
+export function simplifyRoute(
+  points: GpxPoint[],
+  maxPoints = MAX_OUTLINE_POINTS
+): Array<[number, number]> {
+  if (points.length <= maxPoints) return points.map((p) => [p.lat, p.lon]);
+  const lat0 = toRadians(points[0].lat);
+  const xy = points.map((p) => [
+    toRadians(p.lon) * Math.cos(lat0) * EARTH_RADIUS_M,
+    toRadians(p.lat) * EARTH_RADIUS_M,
+  ]);
+
+  const offset = (p: number[], a: number[], b: number[]) => {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+    return Math.abs(dy * p[0] - dx * p[1] + b[0] * a[1] - b[1] * a[0]) / length;
+  };
+
+  let tolerance = 5;
+  for (;;) {
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+    while (stack.length > 0) {
+      const [start, end] = stack.pop() as [number, number];
+      let farthest = -1;
+      let farthestOffset = tolerance;
+      for (let i = start + 1; i < end; i++) {
+        const d = offset(xy[i], xy[start], xy[end]);
+        if (d > farthestOffset) {
+          farthest = i;
+          farthestOffset = d;
+        }
+      }
+      if (farthest !== -1) {
+        keep[farthest] = 1;
+        stack.push([start, farthest], [farthest, end]);
+      }
+    }
+    const kept = points.filter((_, i) => keep[i] === 1);
+    if (kept.length <= maxPoints) return kept.map((p) => [p.lat, p.lon]);
+    tolerance *= 2;
+  }
+}
+
+function sampleProfile(distances: number[], elevations: number[]): Array<[number, number]> {
+  const total = distances[distances.length - 1];
+  if (total <= 0) return [];
+  const samples: Array<[number, number]> = [];
+  let j = 0;
+  for (let s = 0; s < PROFILE_SAMPLES; s++) {
+    const at = (total * s) / (PROFILE_SAMPLES - 1);
+    while (j < distances.length - 2 && distances[j + 1] < at) j++;
+    const span = distances[j + 1] - distances[j];
+    const t = span > 0 ? Math.min(1, Math.max(0, (at - distances[j]) / span)) : 0;
+    const ele = elevations[j] + (elevations[j + 1] - elevations[j]) * t;
+    samples.push([Math.round(at / 10) / 100, Math.round(ele)]);
+  }
+  return samples;
+}
+
+/** Summary of a parsed route, or null when it has fewer than two points. */
+export function summarizeRoute(points: GpxPoint[]): RouteSummary | null {
+  if (points.length < 2) return null;
+  const distances = cumulativeDistances(points);
+  const hasElevation = points.every((p) => p.ele !== null);
+  const elevations = hasElevation ? points.map((p) => p.ele as number) : [];
+  const gradient = hasElevation ? maxGradient(distances, elevations) : null;
+  return {
+    distanceKm: Math.round(distances[distances.length - 1] / 100) / 10,
+    elevationGainM: hasElevation ? Math.round(elevationGain(elevations)) : null,
+    maxGradientPct: gradient !== null ? Math.round(Math.max(0, gradient) * 10) / 10 : null,
+    // reduce instead of Math.min(...) — long tracks exceed the argument limit.
+    minEleM: hasElevation ? Math.round(elevations.reduce((a, b) => Math.min(a, b))) : null,
+    maxEleM: hasElevation ? Math.round(elevations.reduce((a, b) => Math.max(a, b))) : null,
+    outline: simplifyRoute(points),
+    profile: hasElevation ? sampleProfile(distances, elevations) : [],
+  };
+}
+
+export function summarizeGpx(xml: string): RouteSummary | null {
+  return summarizeRoute(parseGpx(xml));
+}
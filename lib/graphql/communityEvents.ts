@@ -264,6 +264,12 @@ export const GET_KANDIE_EVENT_QUERY = `
           }
         }
 
+        # Recurring series
+        repeatingEvent
+        repeatUntil
+        recurrenceRule
+        recurrenceExceptions
+
         # Logistics & FLINTA
         isFlintaOnly
         meetingPoint {
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { formatEmergencyNotes, isEmergencyInfoWindowOpen } from './guideAccess';
+
+describe('isEmergencyInfoWindowOpen', () => {
+  it('opens on the ride day in Hamburg time', () => {
+    expect(isEmergencyInfoWindowOpen('2026-05-12', new Date('2026-05-11T21:59:00Z'))).toBe(false);
+    expect(isEmergencyInfoWindowOpen('2026-05-12', new Date('2026-05-11T22:00:00Z'))).toBe(true);
+  });
+
+  it('closes at the end of the day after the ride', () => {
+    expect(isEmergencyInfoWindowOpen('2026-05-12', new Date('2026-05-13T21:59:00Z'))).toBe(true);
+    expect(isEmergencyInfoWindowOpen('2026-05-12', new Date('2026-05-13T22:00:00Z'))).toBe(false);
+  });
+
+  it('stays closed without a ride date', () => {
+    expect(isEmergencyInfoWindowOpen(null, new Date())).toBe(false);
+  });
+});
+
+describe('formatEmergencyNotes', () => {
+  it('requires consent', () => {
+    expect(formatEmergencyNotes({ emergency_contact_name: 'Kim', medical_notes: 'Asthma' })).toBe(
+      null
+    );
+  });
+
+  it('summarises contact and medical notes', () => {
+    expect(
+      formatEmergencyNotes({
+        emergency_contact_name: 'Kim',
+        emergency_contact_phone: '+49 170 000000',
+        medical_notes: ' Asthma ',
+        emergency_info_consent_at: '2026-05-01T10:00:00Z',
+      })
+    ).toBe('Contact: Kim, +49 170 000000\nMedical: Asthma');
+  });
+});
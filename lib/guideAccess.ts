@@ -10,3 +10,60 @@ export function isGuideProfile(
   if (!Array.isArray(p.membership_plans)) return false;
   return p.membership_plans.some((name) => name.toLowerCase().includes('guide'));
 }
+
+/** Emergency contact and medical notes a member shared (with consent) on their profile. */
+export type EmergencyInfo = {
+  emergency_contact_name?: string | null;
+  emergency_contact_phone?: string | null;
+  medical_notes?: string | null;
+  emergency_info_consent_at?: string | null;
+};
+
+/** Days after the ride during which assigned guides can still see emergency info. */
+export const EMERGENCY_INFO_GRACE_DAYS = 1;
+
+/** Calendar date (YYYY-MM-DD) in Hamburg for the given instant. */
+export function rideDateKey(at: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Europe/Berlin',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
+/**
+ * Emergency info is visible to assigned guides from the ride day until the end of the day after
+ * (Hamburg time). Outside that window the server refuses to hand it out.
+ */
+export function isEmergencyInfoWindowOpen(rideDate: string | null | undefined, now: Date): boolean {
+  const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(rideDate ?? '');
+  if (!day) return false;
+  const closes = new Date(Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3])));
+  closes.setUTCDate(closes.getUTCDate() + EMERGENCY_INFO_GRACE_DAYS);
+  const today = rideDateKey(now);
+  return today >= day[0] && today <= closes.toISOString().slice(0, 10);
+}
+
+/** Only info the member explicitly consented to share is ever shown. */
+export function hasSharedEmergencyInfo(info: EmergencyInfo | null | undefined): boolean {
+  if (!info?.emergency_info_consent_at) return false;
+  return Boolean(
+    info.emergency_contact_name?.trim() ||
+    info.emergency_contact_phone?.trim() ||
+    info.medical_notes?.trim()
+  );
+}
+
+/** One-line summary for rosters and sign-in sheets. */
+export function formatEmergencyNotes(info: EmergencyInfo | null | undefined): string | null {
+  if (!info || !hasSharedEmergencyInfo(info)) return null;
+  const contact = [info.emergency_contact_name?.trim(), info.emergency_contact_phone?.trim()]
+    .filter(Boolean)
+    .join(', ');
+  const parts = [
+    contact ? `Contact: ${contact}` : null,
+    info.medical_notes?.trim() ? `Medical: ${info.medical_notes.trim()}` : null,
+  ].filter(Boolean);
+  return parts.join('\n');
+}
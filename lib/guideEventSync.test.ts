@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffEventGuides,
+  matchRideEvents,
+  nearestRideDate,
+  plannedGuideCounts,
+  type RideEventSummary,
+} from './guideEventSync';
+import { getEventRecurrence } from './recurrence';
+
+const tuesdaySeries: RideEventSummary = {
+  eventId: 101,
+  title: 'Social Ride',
+  date: '2026-05-12',
+  isGravel: false,
+  isWorkshop: false,
+  recurrence: getEventRecurrence({
+    eventDate: '2026-05-12',
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20260929',
+    recurrenceExceptions: '2026-06-16',
+  }),
+};
+
+const events: RideEventSummary[] = [
+  tuesdaySeries,
+  { ...tuesdaySeries, eventId: 102, title: 'Gravel Tuesday', isGravel: true },
+  { ...tuesdaySeries, eventId: 103, title: 'Bike Fit', isWorkshop: true, recurrence: null },
+  { ...tuesdaySeries, eventId: 104, title: 'Season Finale', date: '2026-10-06', recurrence: null },
+];
+
+describe('matchRideEvents', () => {
+  it('matches road or gravel rides riding on the plan date', () => {
+    const road = matchRideEvents(events, ['level2', 'level2plus', 'level3'], '2026-06-09');
+    expect(road.map((event) => event.eventId)).toEqual([101]);
+    const gravel = matchRideEvents(events, ['gravel'], '2026-06-09');
+    expect(gravel.map((event) => event.eventId)).toEqual([102]);
+  });
+
+  it('skips series exceptions and matches one-off events by their date', () => {
+    expect(matchRideEvents(events, ['level2'], '2026-06-16')).toEqual([]);
+    expect(matchRideEvents(events, ['level2'], '2026-10-06').map((event) => event.eventId)).toEqual(
+      [104]
+    );
+  });
+});
+
+describe('nearestRideDate', () => {
+  it('picks the plan closest to today, the upcoming one on a tie', () => {
+    const dates = ['2026-06-02', '2026-06-09', '2026-06-16'];
+    expect(nearestRideDate(dates, '2026-06-10')).toBe('2026-06-09');
+    expect(nearestRideDate(dates, '2026-06-05')).toBe('2026-06-02');
+    expect(nearestRideDate(['2026-06-01', '2026-06-05'], '2026-06-03')).toBe('2026-06-05');
+    expect(nearestRideDate([], '2026-06-03')).toBeNull();
+  });
+});
+
+describe('diffEventGuides', () => {
+  const anna = { wpUserId: 11, name: 'Anna' };
+  const ben = { wpUserId: 12, name: 'Ben' };
+  const cleo = { wpUserId: 13, name: 'Cleo' };
+  const dana = { wpUserId: null, name: 'Dana' };
+
+  it('reports planned guides missing in WordPress and WordPress guides not planned', () => {
+    const levels = diffEventGuides(
+      { level2: [anna, dana], level3: [cleo] },
+      { level1: [ben], level2: [anna, ben], level3: [cleo] }
+    );
+    expect(levels).toEqual([
+      {
+        level: 'level2',
+        planned: [anna, dana],
+        wordpress: [anna, ben],
+        missingInWordPress: [dana],
+        notPlanned: [ben],
+      },
+      {
+        level: 'level3',
+        planned: [cleo],
+        wordpress: [cleo],
+        missingInWordPress: [],
+        notPlanned: [],
+      },
+    ]);
+  });
+
+  it('counts planned guides per level, unlinked ones included', () => {
+    expect(plannedGuideCounts({ level2: [anna, dana], level3: [] })).toEqual({
+      level2: 2,
+      level3: 0,
+    });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Published guide ride plans → WordPress ride events (`guide_ride_plans.wp_event_id`, see the
+ * `link_guide_ride_plans_to_events` migration). There is no write path to WordPress, so instead of
+ * pushing guides into the event's ACF level fields the event API reads them from the plan:
+ *
+ * - `publish-plan` links the plan to the event riding on its date (or the one the coordinator
+ *   names) and returns a report of where the WordPress guides differ from the plan,
+ * - api/event.ts takes the levels the plan's ride slot covers from the published plan — capacity
+ *   (`PLACES_PER_GUIDE` × guides), the guide-only actions and the guides on the event page. Levels
+ *   outside the slot keep their WordPress guides.
+ *
+ * Level keys are the WordPress ones (lib/rideSlots.ts `choice`). Server-side only.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getEventRecurrence, isOccurrenceDate, type EventRecurrence } from './recurrence.js';
+import { normalizeEventType } from './eventType.js';
+import {
+  RIDE_LEVEL_OPTIONS,
+  choiceForLevel,
+  getRideSlot,
+  type PlanLevelChoice,
+} from './rideSlots.js';
+
+const WP_GRAPHQL_URL =
+  process.env.VITE_WP_GRAPHQL_URL ||
+  process.env.WP_GRAPHQL_URL ||
+  'https://wp-origin.kandiegang.com/graphql';
+
+/** Ride events searched when a plan is published without an event. */
+const MAX_MATCH_EVENTS = 100;
+
+/** A guide on an event level. `wpUserId` is null for planned guides without a WordPress guide. */
+export type EventGuide = { wpUserId: number | null; name: string; avatarUrl?: string | null };
+
+export type EventLevelGuides = Partial<Record<PlanLevelChoice, EventGuide[]>>;
+
+/** Guides of the published plan for one event occurrence, for the levels of its ride slot. */
+export type PlannedEventGuides = { planId: string; rideDate: string; guides: EventLevelGuides };
+
+export type RideEventSummary = {
+  eventId: number;
+  title: string;
+  /** The event's own date (first ride of a series), "YYYY-MM-DD". */
+  date: string;
+  isGravel: boolean;
+  isWorkshop: boolean;
+  recurrence: EventRecurrence | null;
+};
+
+export type GuideSyncLevel = {
+  level: PlanLevelChoice;
+  planned: EventGuide[];
+  wordpress: EventGuide[];
+  /** Planned guides WordPress does not list, including those without a WordPress guide. */
+  missingInWordPress: EventGuide[];
+  /** WordPress guides that are not on the plan. */
+  notPlanned: EventGuide[];
+};
+
+export type GuideSyncReport = {
+  wpEventId: number;
+  eventTitle: string;
+  rideDate: string;
+  levels: GuideSyncLevel[];
+  inSync: boolean;
+};
+
+export type GuideSyncResult =
+  | { status: 'linked'; report: GuideSyncReport }
+  | { status: 'unmatched'; rideDate: string; candidates: RideEventSummary[] };
+
+type PlanRow = { id: string; week_start_date: string; slot_id: string; wp_event_id: number | null };
+
+/** True when the event (or its series) rides on `rideDate`. */
+export function ridesOn(event: Pick<RideEventSummary, 'date' | 'recurrence'>, rideDate: string) {
+  return event.recurrence ? isOccurrenceDate(event.recurrence, rideDate) : event.date === rideDate;
+}
+
+/** Ride events a plan of a slot with `levels` on `rideDate` can staff: same date, road or gravel. */
+export function matchRideEvents(
+  events: RideEventSummary[],
+  levels: string[],
+  rideDate: string
+): RideEventSummary[] {
+  const gravel = levels.length > 0 && levels.every((level) => level === 'gravel');
+  return events.filter(
+    (event) => !event.isWorkshop && event.isGravel === gravel && ridesOn(event, rideDate)
+  );
+}
+
+/** The plan date closest to `todayIso`; on a tie the upcoming one. */
+export function nearestRideDate(dates: string[], todayIso: string): string | null {
+  const today = Date.parse(`${todayIso}T00:00:00Z`);
+  let nearest: string | null = null;
+  let nearestDistance = Infinity;
+  for (const date of [...dates].sort()) {
+    const distance = Math.abs(Date.parse(`${date}T00:00:00Z`) - today);
+    if (distance < nearestDistance || (distance === nearestDistance && date > todayIso)) {
+      nearest = date;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/** Guide counts per level, to lay over the WordPress ones when capacity is checked. */
+export function plannedGuideCounts(guides: EventLevelGuides): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(guides).map(([level, levelGuides]) => [level, levelGuides?.length ?? 0])
+  );
+}
+
+/** WordPress guide ids of a level; planned guides without one can not be matched. */
+export function levelGuideIds(guides: EventGuide[] | undefined): number[] {
+  return (guides ?? []).flatMap((guide) => (guide.wpUserId == null ? [] : [guide.wpUserId]));
+}
+
+/** Where the WordPress guides of the plan's levels differ from the plan. */
+export function diffEventGuides(
+  planned: EventLevelGuides,
+  wordpress: EventLevelGuides
+): GuideSyncLevel[] {
+  return RIDE_LEVEL_OPTIONS.flatMap(({ choice }) => {
+    const plannedGuides = planned[choice];
+    if (!plannedGuides) return [];
+    const wordpressGuides = wordpress[choice] ?? [];
+    const wordpressIds = new Set(levelGuideIds(wordpressGuides));
+    const plannedIds = new Set(levelGuideIds(plannedGuides));
+    return [
+      {
+        level: choice,
+        planned: plannedGuides,
+        wordpress: wordpressGuides,
+        missingInWordPress: plannedGuides.filter(
+          (guide) => guide.wpUserId == null || !wordpressIds.has(guide.wpUserId)
+        ),
+        notPlanned: wordpressGuides.filter(
+          (guide) => guide.wpUserId == null || !plannedIds.has(guide.wpUserId)
+        ),
+      },
+    ];
+  });
+}
+
+async function queryWordPress(query: string, variables: Record<string, unknown>) {
+  const response = await fetch(WP_GRAPHQL_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) throw new Error(`WordPress query failed: ${response.status}`);
+  const json = await response.json();
+  if (json?.errors) throw new Error('WordPress query error');
+  return json?.data;
+}
+
+const EVENT_DETAIL_FIELDS =
+  'primaryType rideCategory eventDate repeatingEvent repeatUntil recurrenceRule recurrenceExceptions';
+
+function toRideEventSummary(node: any): RideEventSummary | null {
+  const details = node?.eventDetails ?? {};
+  const date = typeof details.eventDate === 'string' ? details.eventDate.split('T')[0] : null;
+  if (!node?.databaseId || !date) return null;
+  const isWorkshop = normalizeEventType(details.primaryType) === 'workshop';
+  const rawCategory = Array.isArray(details.rideCategory)
+    ? details.rideCategory[0]
+    : details.rideCategory;
+  return {
+    eventId: node.databaseId,
+    title: node.title || 'Kandie Gang Event',
+    date,
+    isGravel:
+      !isWorkshop &&
+      String(rawCategory ?? '')
+        .toLowerCase()
+        .includes('gravel'),
+    isWorkshop,
+    recurrence: getEventRecurrence(details),
+  };
+}
+
+export async function fetchRideEventSummaries(): Promise<RideEventSummary[]> {
+  const data = await queryWordPress(
+    `query GetRideEventsForPlans($first: Int!) { rideEvents(first: $first) { nodes { databaseId title eventDetails { ${EVENT_DETAIL_FIELDS} } } } }`,
+    { first: MAX_MATCH_EVENTS }
+  );
+  return ((data?.rideEvents?.nodes ?? []) as unknown[]).flatMap((node) => {
+    const summary = toRideEventSummary(node);
+    return summary ? [summary] : [];
+  });
+}
+
+/** The event and the guides WordPress lists per level, or null when there is no such event. */
+export async function fetchEventLevelGuides(
+  eventId: number
+): Promise<(RideEventSummary & { guides: EventLevelGuides }) | null> {
+  const guideFields = '{ nodes { databaseId title } }';
+  const levels = ['level1', 'level2', 'level2plus', 'level3']
+    .map((level) => `${level} { guides ${guideFields} }`)
+    .join(' ');
+  const data = await queryWordPress(
+    `query GetRideEventGuides($id: ID!) { rideEvent(id: $id, idType: DATABASE_ID) { databaseId title eventDetails { ${EVENT_DETAIL_FIELDS} ${levels} gravelGuides ${guideFields} } } }`,
+    { id: eventId }
+  );
+  const summary = toRideEventSummary(data?.rideEvent);
+  if (!summary) return null;
+  const details = data.rideEvent.eventDetails;
+  const toGuides = (nodes: unknown): EventGuide[] =>
+    (Array.isArray(nodes) ? nodes : []).map((node: { databaseId: number; title?: string }) => ({
+      wpUserId: node.databaseId,
+      name: node.title ?? `Guide ${node.databaseId}`,
+    }));
+  return {
+    ...summary,
+    guides: {
+      level1: toGuides(details.level1?.guides?.nodes),
+      level2: toGuides(details.level2?.guides?.nodes),
+      level2plus: toGuides(details.level2plus?.guides?.nodes),
+      level3: toGuides(details.level3?.guides?.nodes),
+      gravel: toGuides(details.gravelGuides?.nodes),
+    },
+  };
+}
+
+/** Assigned guides of the plan, for every level of its ride slot (empty levels included). */
+async function loadPlanGuides(
+  adminClient: SupabaseClient<any>,
+  plan: PlanRow
+): Promise<PlannedEventGuides> {
+  const slot = await getRideSlot(adminClient, plan.slot_id);
+  if (!slot) throw new Error('Could not load planned guides: ride slot not found');
+  const { data: assignments, error } = await adminClient
+    .from('guide_ride_assignments')
+    .select('ride_level, guide_profile_id')
+    .eq('plan_id', plan.id)
+    .eq('decision_status', 'assigned')
+    .order('submitted_at', { ascending: true });
+  if (error) throw new Error(`Could not load planned guides: ${error.message}`);
+
+  const profileIds = [...new Set((assignments ?? []).map((row) => row.guide_profile_id))];
+  const { data: profiles, error: profilesError } = profileIds.length
+    ? await adminClient
+        .from('profiles')
+        .select('id, display_name, avatar_url, wp_user_id')
+        .in('id', profileIds)
+    : { data: [], error: null };
+  if (profilesError) throw new Error(`Could not load planned guides: ${profilesError.message}`);
+  const profileById = new Map((profiles ?? []).map((profile) => [profile.id, profile]));
+
+  const guides: EventLevelGuides = {};
+  for (const level of slot.levels) {
+    const choice = choiceForLevel(level);
+    if (!choice) continue;
+    guides[choice] = (assignments ?? [])
+      .filter((row) => row.ride_level === level)
+      .map((row) => {
+        const profile = profileById.get(row.guide_profile_id);
+        const wpUserId = Number(profile?.wp_user_id);
+        return {
+          wpUserId: Number.isInteger(wpUserId) && wpUserId > 0 ? wpUserId : null,
+          name: profile?.display_name?.trim() || 'Guide',
+          avatarUrl: profile?.avatar_url ?? null,
+        };
+      });
+  }
+  return { planId: plan.id, rideDate: plan.week_start_date, guides };
+}
+
+/**
+ * Guides of the published plan linked to the event. `rideDate` is the occurrence; without one
+ * (one-off events, or guide actions that do not send it) the plan closest to `todayIso` is used.
+ * Null when no published plan covers the event.
+ */
+export async function loadPlannedGuides(
+  adminClient: SupabaseClient<any>,
+  wpEventId: number,
+  rideDate: string | null,
+  todayIso = new Date().toISOString().slice(0, 10)
+): Promise<PlannedEventGuides | null> {
+  const { data, error } = await adminClient
+    .from('guide_ride_plans')
+    .select('id, week_start_date, slot_id, wp_event_id')
+    .eq('wp_event_id', wpEventId)
+    .eq('status', 'published');
+  if (error) throw new Error(`Could not load published plans: ${error.message}`);
+  const plans = (data ?? []) as PlanRow[];
+  const date =
+    rideDate ??
+    nearestRideDate(
+      plans.map((plan) => plan.week_start_date),
+      todayIso
+    );
+  const plan = plans.find((candidate) => candidate.week_start_date === date);
+  return plan ? loadPlanGuides(adminClient, plan) : null;
+}
+
+/**
+ * Link a published plan to its WordPress event and report how the event's guides differ from it.
+ * Uses `wpEventId` when given, else the plan's current link, else the only event riding on the
+ * plan date; with none or several candidates the plan stays unlinked.
+ */
+export async function syncPlanToEvent(
+  adminClient: SupabaseClient<any>,
+  planId: string,
+  wpEventId?: number | null
+): Promise<GuideSyncResult> {
+  const { data, error } = await adminClient
+    .from('guide_ride_plans')
+    .select('id, week_start_date, slot_id, wp_event_id')
+    .eq('id', planId)
+    .single();
+  if (error || !data) throw new Error(`Could not load plan: ${error?.message ?? 'not found'}`);
+  const plan = data as PlanRow;
+  const planned = await loadPlanGuides(adminClient, plan);
+
+  let eventId = wpEventId ?? plan.wp_event_id;
+  if (!eventId) {
+    // Level keys double as levels here: only gravel matters, and it is 'gravel' in both.
+    const candidates = matchRideEvents(
+      await fetchRideEventSummaries(),
+      Object.keys(planned.guides),
+      plan.week_start_date
+    );
+    if (candidates.length !== 1) {
+      return { status: 'unmatched', rideDate: plan.week_start_date, candidates };
+    }
+    eventId = candidates[0].eventId;
+  }
+
+  const event = await fetchEventLevelGuides(eventId);
+  if (!event) throw new Error(`WordPress event ${eventId} not found`);
+  if (!ridesOn(event, plan.week_start_date)) {
+    throw new Error(`${event.title} does not ride on ${plan.week_start_date}`);
+  }
+  if (eventId !== plan.wp_event_id) {
+    const { error: linkError } = await adminClient
+      .from('guide_ride_plans')
+      .update({ wp_event_id: eventId })
+      .eq('id', plan.id);
+    if (linkError?.code === '23505') {
+      throw new Error(`Another plan already staffs ${event.title} on ${plan.week_start_date}`);
+    }
+    if (linkError) throw new Error(`Could not link plan to event: ${linkError.message}`);
+  }
+
+  const levels = diffEventGuides(planned.guides, event.guides);
+  return {
+    status: 'linked',
+    report: {
+      wpEventId: eventId,
+      eventTitle: event.title,
+      rideDate: plan.week_start_date,
+      levels,
+      inSync: levels.every(
+        (level) => level.missingInWordPress.length === 0 && level.notPlanned.length === 0
+      ),
+    },
+  };
+}
@@ -1,4 +1,35 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { suggestRoster, type RosterCandidate } from './guideRoster.js';
+import { syncPlanToEvent, type GuideSyncResult } from './guideEventSync.js';
+import {
+  acceptSwapRequest,
+  getSwapRequest,
+  listSwapRequests,
+  openSwapRequest,
+  withdrawSwapRequest,
+  type GuideSwapRequest,
+} from './guideSwaps.js';
+import {
+  buildRidePlanMessage,
+  sendRidePlanToDiscord,
+  type RidePlanDiscordResult,
+  type RidePlanMessage,
+} from './ridePlanDiscord.js';
+import {
+  choiceForLevel,
+  getRideSlot,
+  isPlanLevel,
+  isSlotDate,
+  levelForChoice,
+  levelLabel,
+  listRideSlots,
+  openRidePlanWeeks,
+  parseRideSlotInput,
+  saveRideSlot,
+  slotChoices,
+  WEEKDAY_NAMES,
+  type RideSlot,
+} from './rideSlots.js';
 
 type CallerProfile = {
   id: string;
@@ -11,54 +42,12 @@ type ActionResult = {
   payload: Record<string, unknown>;
 };
 
-const RIDE_LEVELS = new Set(['2', '2+', '3']);
 const DECISION_STATES = new Set(['proposed', 'assigned', 'standby', 'unavailable']);
-const GUIDE_CHOICES = new Set([
-  'level2',
-  'level2plus',
-  'level3',
-  'participant',
-  'no_time',
-  'injured',
-]);
-
-const LEVEL_BY_CHOICE: Record<string, '2' | '2+' | '3'> = {
-  level2: '2',
-  level2plus: '2+',
-  level3: '3',
-};
-
-const CHOICE_BY_LEVEL: Record<'2' | '2+' | '3', 'level2' | 'level2plus' | 'level3'> = {
-  '2': 'level2',
-  '2+': 'level2plus',
-  '3': 'level3',
-};
 
 function isIsoDate(value: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(value);
 }
 
-function isTuesday(dateIso: string): boolean {
-  const date = new Date(`${dateIso}T00:00:00Z`);
-  return date.getUTCDay() === 2;
-}
-
-function formatWeekday(dateIso: string): string {
-  const date = new Date(`${dateIso}T00:00:00Z`);
-  return date.toLocaleDateString('en-GB', { weekday: 'long' });
-}
-
-function buildGuideTag(username: string | null, displayName: string | null): string {
-  if (username?.trim()) {
-    const trimmed = username.trim();
-    return trimmed.startsWith('@') ? trimmed : `@${trimmed}`;
-  }
-  if (displayName?.trim()) {
-    return `@${displayName.trim().replace(/\s+/g, '')}`;
-  }
-  return '@unknown-guide';
-}
-
 async function loadCallerProfile(adminClient: SupabaseClient, userId: string): Promise<CallerProfile | null> {
   const { data, error } = await adminClient
     .from('profiles')
@@ -70,20 +59,30 @@ async function loadCallerProfile(adminClient: SupabaseClient, userId: string): P
   return data as CallerProfile;
 }
 
+async function loadSlot(
+  adminClient: SupabaseClient,
+  slotId: string
+): Promise<{ ok: true; slot: RideSlot } | { ok: false; status: number; error: string }> {
+  try {
+    const slot = await getRideSlot(adminClient, slotId);
+    return slot ? { ok: true, slot } : { ok: false, status: 404, error: 'Ride slot not found' };
+  } catch (err) {
+    return { ok: false, status: 500, error: err instanceof Error ? err.message : 'Failed to load ride slot' };
+  }
+}
+
+/** The draft plan for `rideDate` and its ride slot, whose levels the caller checks against. */
 async function validatePlanAndDate(
   adminClient: SupabaseClient,
   planId: string,
   rideDate: string
-): Promise<{ ok: true } | { ok: false; status: number; error: string }> {
+): Promise<{ ok: true; slot: RideSlot } | { ok: false; status: number; error: string }> {
   if (!planId) return { ok: false, status: 400, error: 'planId is required' };
   if (!isIsoDate(rideDate)) return { ok: false, status: 400, error: 'rideDate must be YYYY-MM-DD' };
-  if (!isTuesday(rideDate)) {
-    return { ok: false, status: 400, error: 'Only Tuesday social rides are supported in this planning view' };
-  }
 
   const { data: plan, error } = await adminClient
     .from('guide_ride_plans')
-    .select('id, status, week_start_date')
+    .select('id, status, week_start_date, slot_id')
     .eq('id', planId)
     .single();
 
@@ -92,13 +91,26 @@ async function validatePlanAndDate(
     return { ok: false, status: 409, error: 'This plan is locked. Ask a coordinator for changes.' };
   }
   if (plan.week_start_date !== rideDate) {
+    return { ok: false, status: 400, error: 'Ride date must match the selected planning week date' };
+  }
+  const slotResult = await loadSlot(adminClient, plan.slot_id);
+  if (!slotResult.ok) return slotResult;
+  if (!isSlotDate(slotResult.slot, rideDate)) {
     return {
       ok: false,
       status: 400,
-      error: 'For Tuesday social rides, proposal date must match the selected planning week date',
+      error: weekdayError(slotResult.slot),
     };
   }
-  return { ok: true };
+  return slotResult;
+}
+
+function weekdayError(slot: RideSlot): string {
+  return `${slot.title} rides on ${WEEKDAY_NAMES[slot.weekday]}s only`;
+}
+
+function levelError(slot: RideSlot): string {
+  return `rideLevel must be one of: ${slot.levels.join(', ')}`;
 }
 
 async function upsertLevelAssignment(
@@ -201,22 +213,31 @@ async function handleFetch(adminClient: SupabaseClient, userId: string): Promise
 
   const { data: plans, error: plansError } = await adminClient
     .from('guide_ride_plans')
-    .select('id, week_start_date, status, notes, finalized_at, published_at')
+    .select('id, slot_id, week_start_date, status, notes, finalized_at, published_at, wp_event_id, discord_posted_at')
     .gte('week_start_date', fromIso)
     .lte('week_start_date', toIso)
     .order('week_start_date', { ascending: true });
 
   if (plansError) return { status: 500, payload: { error: plansError.message || 'Failed to load plans' } };
 
+  let slots: RideSlot[];
+  try {
+    slots = await listRideSlots(adminClient);
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to load ride slots' } };
+  }
+
   const planIds = (plans ?? []).map((p) => p.id);
   if (planIds.length === 0) {
     return {
       status: 200,
       payload: {
+        slots,
         plans: [],
         assignments: [],
         myChoices: [],
         guideRoster: [],
+        swapRequests: [],
         nowIso: new Date().toISOString(),
         caller: { id: userId, isCoordinator: Boolean(caller.guide_is_coordinator) },
       },
@@ -274,6 +295,13 @@ async function handleFetch(adminClient: SupabaseClient, userId: string): Promise
     return { status: 500, payload: { error: myChoicesError.message || 'Failed to load guide choices' } };
   }
 
+  let swapRequests: GuideSwapRequest[];
+  try {
+    swapRequests = await listSwapRequests(adminClient, planIds);
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to load swap requests' } };
+  }
+
   let guideRoster: Array<{
     id: string;
     display_name: string | null;
@@ -304,10 +332,12 @@ async function handleFetch(adminClient: SupabaseClient, userId: string): Promise
   return {
     status: 200,
     payload: {
+      slots,
       plans: plans ?? [],
       assignments: hydratedAssignments,
       myChoices: myChoices ?? [],
       guideRoster,
+      swapRequests,
       nowIso: new Date().toISOString(),
       caller: { id: userId, isCoordinator: Boolean(caller.guide_is_coordinator) },
     },
@@ -321,21 +351,49 @@ async function handleCreatePlan(
   body: Record<string, unknown>
 ): Promise<ActionResult> {
   if (!caller.guide_is_coordinator) return { status: 403, payload: { error: 'Coordinator access required' } };
+  const slotId = typeof body.slotId === 'string' ? body.slotId : '';
   const weekStartDate = typeof body.weekStartDate === 'string' ? body.weekStartDate : '';
   const notes = typeof body.notes === 'string' ? body.notes.trim() : null;
+  if (!slotId) return { status: 400, payload: { error: 'slotId is required' } };
   if (!isIsoDate(weekStartDate)) return { status: 400, payload: { error: 'weekStartDate must be YYYY-MM-DD' } };
-  if (!isTuesday(weekStartDate)) {
-    return { status: 400, payload: { error: 'Planning weeks must start on Tuesday for social rides' } };
+  const slotResult = await loadSlot(adminClient, slotId);
+  if (!slotResult.ok) return { status: slotResult.status, payload: { error: slotResult.error } };
+  if (!isSlotDate(slotResult.slot, weekStartDate)) {
+    return {
+      status: 400,
+      payload: { error: weekdayError(slotResult.slot) },
+    };
   }
   const { data, error } = await adminClient
     .from('guide_ride_plans')
-    .upsert({ week_start_date: weekStartDate, status: 'draft', notes, created_by: userId }, { onConflict: 'week_start_date' })
-    .select('id, week_start_date, status, notes, finalized_at, published_at')
+    .upsert(
+      { slot_id: slotId, week_start_date: weekStartDate, status: 'draft', notes, created_by: userId },
+      { onConflict: 'slot_id,week_start_date' }
+    )
+    .select('id, slot_id, week_start_date, status, notes, finalized_at, published_at, wp_event_id, discord_posted_at')
     .single();
   if (error || !data) return { status: 500, payload: { error: error?.message || 'Failed to create plan' } };
   return { status: 200, payload: { plan: data } };
 }
 
+async function handleSaveRideSlot(
+  adminClient: SupabaseClient,
+  caller: CallerProfile,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  if (!caller.guide_is_coordinator) return { status: 403, payload: { error: 'Coordinator access required' } };
+  const slotId = typeof body.slotId === 'string' ? body.slotId : '';
+  const parsed = parseRideSlotInput(body);
+  if (!parsed.ok) return { status: 400, payload: { error: parsed.error } };
+  try {
+    const slot = await saveRideSlot(adminClient, parsed.value, slotId || undefined);
+    const opened = await openRidePlanWeeks(adminClient, new Date().toISOString().slice(0, 10), [slot]);
+    return { status: 200, payload: { slot, opened } };
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to save ride slot' } };
+  }
+}
+
 async function handleSubmitProposal(
   adminClient: SupabaseClient,
   userId: string,
@@ -346,9 +404,11 @@ async function handleSubmitProposal(
   const rideLevel = typeof body.rideLevel === 'string' ? body.rideLevel : '';
   const notes = typeof body.notes === 'string' ? body.notes.trim() : null;
   const source = body.source === 'late' ? 'late' : 'in_window';
-  if (!RIDE_LEVELS.has(rideLevel)) return { status: 400, payload: { error: 'rideLevel must be one of: 2, 2+, 3' } };
   const validity = await validatePlanAndDate(adminClient, planId, rideDate);
   if (!validity.ok) return { status: validity.status, payload: { error: validity.error } };
+  if (!validity.slot.levels.some((level) => level === rideLevel)) {
+    return { status: 400, payload: { error: levelError(validity.slot) } };
+  }
   const { data, error } = await upsertLevelAssignment(adminClient, {
     planId,
     rideDate,
@@ -384,7 +444,7 @@ async function handleSetGuideChoice(
     return { status: 200, payload: { choice: null, assignment: null } };
   }
 
-  if (!GUIDE_CHOICES.has(choice)) return { status: 400, payload: { error: 'Invalid choice' } };
+  if (!slotChoices(validity.slot).includes(choice)) return { status: 400, payload: { error: 'Invalid choice' } };
 
   const { data: choiceRow, error: choiceError } = await adminClient
     .from('guide_ride_availability')
@@ -396,7 +456,7 @@ async function handleSetGuideChoice(
     .single();
   if (choiceError || !choiceRow) return { status: 500, payload: { error: choiceError?.message || 'Failed to save guide choice' } };
 
-  const rideLevel = LEVEL_BY_CHOICE[choice];
+  const rideLevel = levelForChoice(choice);
   if (rideLevel) {
     const { data: assignment, error } = await upsertLevelAssignment(adminClient, {
       planId,
@@ -442,7 +502,8 @@ async function handleSetDecision(
     )
     .single();
   if (error || !data) return { status: 500, payload: { error: error?.message || 'Failed to update assignment' } };
-  return { status: 200, payload: { assignment: data } };
+  const discord = await postPlanToDiscord(adminClient, data.plan_id, true);
+  return { status: 200, payload: { assignment: data, discord } };
 }
 
 async function handleMarkUnavailable(
@@ -478,7 +539,112 @@ async function handleMarkUnavailable(
     )
     .single();
   if (error || !data) return { status: 500, payload: { error: error?.message || 'Failed to mark unavailable' } };
-  return { status: 200, payload: { assignment: data } };
+  const discord = await postPlanToDiscord(adminClient, data.plan_id, true);
+  return { status: 200, payload: { assignment: data, discord } };
+}
+
+/** An assigned guide asks for a swap or reports sick; standby guides are offered the ride. */
+async function handleRequestSwap(
+  adminClient: SupabaseClient,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  const assignmentId = typeof body.assignmentId === 'string' ? body.assignmentId : '';
+  const kind = body.kind === 'swap' || body.kind === 'sick' ? body.kind : null;
+  const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+  if (!assignmentId) return { status: 400, payload: { error: 'assignmentId is required' } };
+  if (!kind) return { status: 400, payload: { error: 'kind must be swap or sick' } };
+  const { data: assignment, error: assignmentError } = await adminClient
+    .from('guide_ride_assignments')
+    .select('id, plan_id, ride_date, ride_level, guide_profile_id, decision_status')
+    .eq('id', assignmentId)
+    .single();
+  if (assignmentError || !assignment) return { status: 404, payload: { error: 'Assignment not found' } };
+  if (assignment.guide_profile_id !== userId) {
+    return { status: 403, payload: { error: 'Only the assigned guide can ask for a swap' } };
+  }
+  if (assignment.decision_status !== 'assigned') {
+    return { status: 409, payload: { error: 'Only rides you are assigned to can be swapped' } };
+  }
+  if (assignment.ride_date < new Date().toISOString().slice(0, 10)) {
+    return { status: 409, payload: { error: 'This ride has already taken place' } };
+  }
+  const { data: openRequest } = await adminClient
+    .from('guide_swap_requests')
+    .select('id')
+    .eq('assignment_id', assignmentId)
+    .eq('status', 'open')
+    .maybeSingle();
+  if (openRequest) return { status: 409, payload: { error: 'This ride already has an open swap request' } };
+
+  try {
+    const outcome = await openSwapRequest(adminClient, assignment, kind, note);
+    const discord = kind === 'sick' ? await postPlanToDiscord(adminClient, assignment.plan_id, true) : null;
+    return { status: 200, payload: { ...outcome, discord } };
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to request swap' } };
+  }
+}
+
+async function loadOpenSwapRequest(
+  adminClient: SupabaseClient,
+  requestId: string
+): Promise<{ ok: true; request: GuideSwapRequest } | { ok: false; status: number; error: string }> {
+  if (!requestId) return { ok: false, status: 400, error: 'requestId is required' };
+  let request: GuideSwapRequest | null;
+  try {
+    request = await getSwapRequest(adminClient, requestId);
+  } catch (err) {
+    return { ok: false, status: 500, error: err instanceof Error ? err.message : 'Failed to load swap request' };
+  }
+  if (!request) return { ok: false, status: 404, error: 'Swap request not found' };
+  if (request.status !== 'open') return { ok: false, status: 409, error: 'This swap request is closed' };
+  return { ok: true, request };
+}
+
+/** A standby guide the ride was offered to takes it over; the first to accept gets it. */
+async function handleAcceptSwap(
+  adminClient: SupabaseClient,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  const result = await loadOpenSwapRequest(adminClient, typeof body.requestId === 'string' ? body.requestId : '');
+  if (!result.ok) return { status: result.status, payload: { error: result.error } };
+  if (!result.request.offered_to.includes(userId)) {
+    return { status: 403, payload: { error: 'This ride was not offered to you' } };
+  }
+  let request: GuideSwapRequest | null;
+  try {
+    request = await acceptSwapRequest(adminClient, result.request, userId);
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to take over ride' } };
+  }
+  if (!request) return { status: 409, payload: { error: 'Another guide already took over this ride' } };
+  const discord = await postPlanToDiscord(adminClient, request.plan_id, true);
+  return { status: 200, payload: { request, discord } };
+}
+
+/** The requester (or a coordinator) withdraws an open request; a sick guide is back on the plan. */
+async function handleWithdrawSwap(
+  adminClient: SupabaseClient,
+  caller: CallerProfile,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  const result = await loadOpenSwapRequest(adminClient, typeof body.requestId === 'string' ? body.requestId : '');
+  if (!result.ok) return { status: result.status, payload: { error: result.error } };
+  if (result.request.requested_by !== userId && !caller.guide_is_coordinator) {
+    return { status: 403, payload: { error: 'Only the requesting guide or a coordinator can withdraw' } };
+  }
+  let request: GuideSwapRequest | null;
+  try {
+    request = await withdrawSwapRequest(adminClient, result.request);
+  } catch (err) {
+    return { status: 500, payload: { error: err instanceof Error ? err.message : 'Failed to withdraw request' } };
+  }
+  if (!request) return { status: 409, payload: { error: 'This swap request is closed' } };
+  const discord = request.kind === 'sick' ? await postPlanToDiscord(adminClient, request.plan_id, true) : null;
+  return { status: 200, payload: { request, discord } };
 }
 
 async function handlePlanStatus(
@@ -497,52 +663,257 @@ async function handlePlanStatus(
     .from('guide_ride_plans')
     .update(patch)
     .eq('id', planId)
-    .select('id, week_start_date, status, notes, finalized_at, published_at')
+    .select('id, slot_id, week_start_date, status, notes, finalized_at, published_at, wp_event_id, discord_posted_at')
     .single();
   if (error || !data) return { status: 500, payload: { error: error?.message || 'Failed to update plan' } };
-  return { status: 200, payload: { plan: data } };
+  if (status !== 'published') return { status: 200, payload: { plan: data } };
+  // The plan is published either way; a failed event sync only shows up in the report.
+  const sync = await syncPlan(adminClient, planId, parseEventId(body.wpEventId));
+  const discord = await postPlanToDiscord(adminClient, planId);
+  return { status: 200, payload: { plan: data, sync, discord } };
 }
 
-async function handleDiscordCopy(
+function parseEventId(value: unknown): number | null {
+  const eventId = Number(value);
+  return Number.isInteger(eventId) && eventId > 0 ? eventId : null;
+}
+
+async function syncPlan(
+  adminClient: SupabaseClient,
+  planId: string,
+  wpEventId: number | null
+): Promise<GuideSyncResult | { status: 'error'; error: string }> {
+  try {
+    return await syncPlanToEvent(adminClient, planId, wpEventId);
+  } catch (err) {
+    return { status: 'error', error: err instanceof Error ? err.message : 'Failed to sync event guides' };
+  }
+}
+
+/** Link a published plan to its WordPress event (or re-check it) and report guide mismatches. */
+async function handleSyncPlanGuides(
   adminClient: SupabaseClient,
+  caller: CallerProfile,
   body: Record<string, unknown>
 ): Promise<ActionResult> {
+  if (!caller.guide_is_coordinator) return { status: 403, payload: { error: 'Coordinator access required' } };
   const planId = typeof body.planId === 'string' ? body.planId : '';
   if (!planId) return { status: 400, payload: { error: 'planId is required' } };
-  const { data: plan } = await adminClient.from('guide_ride_plans').select('id, week_start_date').eq('id', planId).single();
+  const wpEventId = parseEventId(body.wpEventId);
+  if (body.wpEventId != null && body.wpEventId !== '' && !wpEventId) {
+    return { status: 400, payload: { error: 'wpEventId must be a WordPress event ID' } };
+  }
+  const { data: plan } = await adminClient.from('guide_ride_plans').select('status').eq('id', planId).single();
   if (!plan) return { status: 404, payload: { error: 'Plan not found' } };
+  if (plan.status !== 'published') {
+    return { status: 409, payload: { error: 'Publish the plan before linking it to an event' } };
+  }
+  const sync = await syncPlan(adminClient, planId, wpEventId);
+  if (sync.status === 'error') return { status: 502, payload: { error: sync.error } };
+  return { status: 200, payload: { sync } };
+}
+
+/** The plan's Discord message; `mentions` pings guides by Discord id (webhook posts only). */
+async function loadPlanMessage(
+  adminClient: SupabaseClient,
+  planId: string,
+  mentions: boolean
+): Promise<
+  | {
+      ok: true;
+      plan: { id: string; status: string; discord_message_id: string | null };
+      message: RidePlanMessage;
+    }
+  | { ok: false; status: number; error: string }
+> {
+  if (!planId) return { ok: false, status: 400, error: 'planId is required' };
+  const { data: plan } = await adminClient
+    .from('guide_ride_plans')
+    .select('id, status, week_start_date, slot_id, discord_message_id')
+    .eq('id', planId)
+    .single();
+  if (!plan) return { ok: false, status: 404, error: 'Plan not found' };
+  const slotResult = await loadSlot(adminClient, plan.slot_id);
+  if (!slotResult.ok) return slotResult;
   const { data: assignments, error } = await adminClient
     .from('guide_ride_assignments')
     .select('id, ride_date, ride_level, decision_status, guide_profile_id')
     .eq('plan_id', planId)
     .order('ride_date', { ascending: true })
     .order('submitted_at', { ascending: true });
-  if (error) return { status: 500, payload: { error: error.message || 'Failed to build Discord copy' } };
+  if (error) return { ok: false, status: 500, error: error.message || 'Failed to build Discord copy' };
 
   const guideIds = [...new Set((assignments ?? []).map((a) => a.guide_profile_id))];
   const { data: guides } = guideIds.length
-    ? await adminClient.from('profiles').select('id, display_name, username').in('id', guideIds)
-    : { data: [] as Array<{ id: string; display_name: string | null; username: string | null }> };
-  const guideLookup = Object.fromEntries((guides ?? []).map((g) => [g.id, g]));
-  const assigned = (assignments ?? []).filter((row) => row.decision_status === 'assigned');
-  const standby = (assignments ?? []).filter((row) => row.decision_status === 'standby');
-  const levelText = (level: '2' | '2+' | '3') => {
-    const handles = assigned
-      .filter((row) => row.ride_level === level)
-      .sort((a, b) => a.ride_date.localeCompare(b.ride_date))
-      .map((row) => {
-        const guide = guideLookup[row.guide_profile_id];
-        return buildGuideTag(guide?.username ?? null, guide?.display_name ?? null);
-      });
-    return handles.length ? handles.join(' ') : '—';
-  };
-  const springerText = standby.length
-    ? standby.map((row) => buildGuideTag(guideLookup[row.guide_profile_id]?.username ?? null, guideLookup[row.guide_profile_id]?.display_name ?? null)).join(' ')
-    : '—';
-  const titleDate = assigned[0]?.ride_date ?? plan.week_start_date;
-  const title = `${titleDate} ${formatWeekday(titleDate)} Social Ride`;
-  const message = ['Level 2', levelText('2'), '', 'Level 2+', levelText('2+'), '', 'Level 3', levelText('3'), '', 'Springer', springerText].join('\n');
-  return { status: 200, payload: { title, message } };
+    ? await adminClient.from('profiles').select('id, display_name, username, discord_id').in('id', guideIds)
+    : { data: [] };
+  const message = buildRidePlanMessage({
+    slot: slotResult.slot,
+    rideDate: plan.week_start_date,
+    assignments: assignments ?? [],
+    guides: guides ?? [],
+    mentions,
+  });
+  return { ok: true, plan, message };
+}
+
+async function handleDiscordCopy(
+  adminClient: SupabaseClient,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  const result = await loadPlanMessage(adminClient, typeof body.planId === 'string' ? body.planId : '', false);
+  if (!result.ok) return { status: result.status, payload: { error: result.error } };
+  return { status: 200, payload: { title: result.message.title, message: result.message.message } };
+}
+
+/**
+ * Post the plan to the guides' Discord channel, or edit its earlier post. With `onlyIfPosted` a
+ * plan that was never posted (or is no longer published) is left alone; returns null then.
+ */
+async function postPlanToDiscord(
+  adminClient: SupabaseClient,
+  planId: string,
+  onlyIfPosted = false
+): Promise<RidePlanDiscordResult | null> {
+  const result = await loadPlanMessage(adminClient, planId, true);
+  if (!result.ok) return { success: false, error: result.error };
+  const { plan, message } = result;
+  if (onlyIfPosted && (plan.status !== 'published' || !plan.discord_message_id)) return null;
+  const sent = await sendRidePlanToDiscord(message, plan.discord_message_id);
+  if (sent.messageId && sent.messageId !== plan.discord_message_id) {
+    const { error } = await adminClient
+      .from('guide_ride_plans')
+      .update({ discord_message_id: sent.messageId, discord_posted_at: new Date().toISOString() })
+      .eq('id', plan.id);
+    if (error) return { ...sent, error: `Posted, but the message id was not saved: ${error.message}` };
+  }
+  return sent;
+}
+
+async function loadDraftPlan(
+  adminClient: SupabaseClient,
+  planId: string
+): Promise<
+  | { ok: true; plan: { id: string; week_start_date: string; slot_id: string } }
+  | { ok: false; status: number; error: string }
+> {
+  if (!planId) return { ok: false, status: 400, error: 'planId is required' };
+  const { data: plan, error } = await adminClient
+    .from('guide_ride_plans')
+    .select('id, status, week_start_date, slot_id')
+    .eq('id', planId)
+    .single();
+  if (error || !plan) return { ok: false, status: 404, error: 'Plan not found' };
+  if (plan.status !== 'draft') {
+    return { ok: false, status: 409, error: 'This plan is locked. Reopen it as a draft to change the roster.' };
+  }
+  return { ok: true, plan };
+}
+
+async function handleSuggestRoster(
+  adminClient: SupabaseClient,
+  caller: CallerProfile,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  if (!caller.guide_is_coordinator) return { status: 403, payload: { error: 'Coordinator access required' } };
+  const planResult = await loadDraftPlan(adminClient, typeof body.planId === 'string' ? body.planId : '');
+  if (!planResult.ok) return { status: planResult.status, payload: { error: planResult.error } };
+  const { plan } = planResult;
+  const slotResult = await loadSlot(adminClient, plan.slot_id);
+  if (!slotResult.ok) return { status: slotResult.status, payload: { error: slotResult.error } };
+  const { slot } = slotResult;
+
+  const { data: rows, error } = await adminClient
+    .from('guide_ride_assignments')
+    .select('id, ride_level, guide_profile_id, decision_status, submitted_at')
+    .eq('plan_id', plan.id)
+    .eq('ride_date', plan.week_start_date)
+    .neq('decision_status', 'unavailable');
+  if (error) return { status: 500, payload: { error: error.message || 'Failed to load guide choices' } };
+
+  const guideIds = [...new Set((rows ?? []).map((row) => row.guide_profile_id))];
+  const { data: guides } = guideIds.length
+    ? await adminClient.from('profiles').select('id, guide_flinta_priority').in('id', guideIds)
+    : { data: [] as Array<{ id: string; guide_flinta_priority: boolean | null }> };
+  const flintaById = new Map((guides ?? []).map((guide) => [guide.id, Boolean(guide.guide_flinta_priority)]));
+  const candidates: RosterCandidate[] = (rows ?? [])
+    .filter((row) => isPlanLevel(row.ride_level))
+    .map((row) => ({
+      assignmentId: row.id,
+      guideId: row.guide_profile_id,
+      level: row.ride_level,
+      flintaPriority: flintaById.get(row.guide_profile_id) ?? false,
+      submittedAt: row.submitted_at,
+    }));
+
+  // Season load counts this slot's rides since its season start.
+  const { data: seasonPlans, error: seasonError } = await adminClient
+    .from('guide_ride_plans')
+    .select('id')
+    .eq('slot_id', slot.id)
+    .gte('week_start_date', slot.seasonStart)
+    .lt('week_start_date', plan.week_start_date);
+  if (seasonError) return { status: 500, payload: { error: seasonError.message || 'Failed to load season' } };
+  const seasonPlanIds = (seasonPlans ?? []).map((row) => row.id);
+  const { data: historyRows, error: historyError } = seasonPlanIds.length
+    ? await adminClient
+        .from('guide_ride_assignments')
+        .select('ride_date, ride_level, guide_profile_id')
+        .in('plan_id', seasonPlanIds)
+        .eq('decision_status', 'assigned')
+    : { data: [] as Array<{ ride_date: string; ride_level: string; guide_profile_id: string }>, error: null };
+  if (historyError) return { status: 500, payload: { error: historyError.message || 'Failed to load season' } };
+
+  const suggestion = suggestRoster(
+    candidates,
+    (historyRows ?? []).map((row) => ({ rideDate: row.ride_date, level: row.ride_level, guideId: row.guide_profile_id })),
+    { levels: slot.levels, guidesPerLevel: slot.guidesPerLevel }
+  );
+  return { status: 200, payload: { planId: plan.id, rideDate: plan.week_start_date, suggestion } };
+}
+
+async function handleApplyRoster(
+  adminClient: SupabaseClient,
+  caller: CallerProfile,
+  body: Record<string, unknown>
+): Promise<ActionResult> {
+  if (!caller.guide_is_coordinator) return { status: 403, payload: { error: 'Coordinator access required' } };
+  const planResult = await loadDraftPlan(adminClient, typeof body.planId === 'string' ? body.planId : '');
+  if (!planResult.ok) return { status: planResult.status, payload: { error: planResult.error } };
+  const entries = Array.isArray(body.entries) ? (body.entries as Array<Record<string, unknown>>) : [];
+  if (entries.length === 0) return { status: 400, payload: { error: 'entries are required' } };
+  for (const entry of entries) {
+    if (typeof entry?.assignmentId !== 'string' || (entry.decisionStatus !== 'assigned' && entry.decisionStatus !== 'standby')) {
+      return { status: 400, payload: { error: 'Each entry needs an assignmentId and decisionStatus assigned or standby' } };
+    }
+  }
+
+  const { data: planRows, error } = await adminClient
+    .from('guide_ride_assignments')
+    .select('id, decision_status')
+    .eq('plan_id', planResult.plan.id);
+  if (error) return { status: 500, payload: { error: error.message || 'Failed to load assignments' } };
+  const statusById = new Map((planRows ?? []).map((row) => [row.id, row.decision_status]));
+  if (entries.some((entry) => !statusById.has(entry.assignmentId as string))) {
+    return { status: 409, payload: { error: 'The plan changed since the suggestion. Suggest the roster again.' } };
+  }
+  if (entries.some((entry) => statusById.get(entry.assignmentId as string) === 'unavailable')) {
+    return { status: 409, payload: { error: 'A suggested guide is now unavailable. Suggest the roster again.' } };
+  }
+
+  let applied = 0;
+  for (const entry of entries) {
+    const { error: updateError } = await adminClient
+      .from('guide_ride_assignments')
+      .update({ decision_status: entry.decisionStatus, override_reason: 'Suggested roster' })
+      .eq('id', entry.assignmentId as string)
+      .eq('plan_id', planResult.plan.id);
+    if (updateError) {
+      return { status: 500, payload: { error: updateError.message || 'Failed to apply roster', applied } };
+    }
+    applied += 1;
+  }
+  return { status: 200, payload: { applied } };
 }
 
 async function handleCoordinatorAssignGuide(
@@ -557,12 +928,14 @@ async function handleCoordinatorAssignGuide(
   const assignmentStatus = typeof body.assignmentStatus === 'string' ? body.assignmentStatus : 'assigned';
   const guideProfileId = typeof body.guideProfileId === 'string' ? body.guideProfileId : '';
   if (!guideProfileId) return { status: 400, payload: { error: 'guideProfileId is required' } };
-  if (!RIDE_LEVELS.has(rideLevel)) return { status: 400, payload: { error: 'rideLevel must be one of: 2, 2+, 3' } };
   if (assignmentStatus !== 'assigned' && assignmentStatus !== 'standby' && assignmentStatus !== 'unavailable') {
     return { status: 400, payload: { error: 'assignmentStatus must be assigned, standby, or unavailable' } };
   }
   const validity = await validatePlanAndDate(adminClient, planId, rideDate);
   if (!validity.ok) return { status: validity.status, payload: { error: validity.error } };
+  if (!validity.slot.levels.some((level) => level === rideLevel)) {
+    return { status: 400, payload: { error: levelError(validity.slot) } };
+  }
   const { data: guide, error: guideError } = await adminClient
     .from('profiles')
     .select('id, is_guide')
@@ -598,7 +971,7 @@ async function handleCoordinatorAssignGuide(
         plan_id: planId,
         ride_date: rideDate,
         guide_profile_id: guideProfileId,
-        choice: CHOICE_BY_LEVEL[rideLevel as '2' | '2+' | '3'],
+        choice: choiceForLevel(rideLevel),
         updated_at: new Date().toISOString(),
       },
       { onConflict: 'plan_id,ride_date,guide_profile_id' }
@@ -685,13 +1058,20 @@ export async function handleGuideRidePlanningAction(params: {
 
   if (action === 'guide-ride-fetch') return handleFetch(adminClient, userId);
   if (action === 'create-plan') return handleCreatePlan(adminClient, userId, caller, body);
+  if (action === 'save-ride-slot') return handleSaveRideSlot(adminClient, caller, body);
   if (action === 'submit-proposal') return handleSubmitProposal(adminClient, userId, body);
   if (action === 'set-guide-choice') return handleSetGuideChoice(adminClient, userId, body);
   if (action === 'set-decision') return handleSetDecision(adminClient, caller, body);
   if (action === 'mark-unavailable') return handleMarkUnavailable(adminClient, caller, userId, body);
+  if (action === 'request-swap') return handleRequestSwap(adminClient, userId, body);
+  if (action === 'accept-swap') return handleAcceptSwap(adminClient, userId, body);
+  if (action === 'withdraw-swap') return handleWithdrawSwap(adminClient, caller, userId, body);
   if (action === 'finalize-plan') return handlePlanStatus(adminClient, caller, body, 'finalized');
   if (action === 'publish-plan') return handlePlanStatus(adminClient, caller, body, 'published');
+  if (action === 'sync-plan-guides') return handleSyncPlanGuides(adminClient, caller, body);
   if (action === 'build-discord-copy') return handleDiscordCopy(adminClient, body);
+  if (action === 'suggest-roster') return handleSuggestRoster(adminClient, caller, body);
+  if (action === 'apply-roster') return handleApplyRoster(adminClient, caller, body);
   if (action === 'coordinator-assign-guide')
     return handleCoordinatorAssignGuide(adminClient, caller, body);
   if (action === 'set-guide-coordinator')
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { suggestRoster, summarizeRosterHistory, type RosterCandidate } from './guideRoster';
+
+function candidate(
+  guideId: string,
+  level: RosterCandidate['level'],
+  overrides: Partial<RosterCandidate> = {}
+): RosterCandidate {
+  return {
+    assignmentId: `a-${guideId}`,
+    guideId,
+    level,
+    flintaPriority: false,
+    submittedAt: '2026-06-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+const assignedOf = (result: ReturnType<typeof suggestRoster>, level: string) =>
+  result.entries
+    .filter((entry) => entry.level === level && entry.decisionStatus === 'assigned')
+    .map((entry) => entry.guideId);
+
+describe('summarizeRosterHistory', () => {
+  it('counts season load and recent pairings per level', () => {
+    const { loadByGuide, recentPairs } = summarizeRosterHistory(
+      [
+        { rideDate: '2026-01-06', level: '2', guideId: 'ann' },
+        { rideDate: '2026-01-06', level: '2', guideId: 'ben' },
+        { rideDate: '2026-05-05', level: '2', guideId: 'ann' },
+        { rideDate: '2026-05-05', level: '2', guideId: 'ben' },
+        { rideDate: '2026-05-12', level: '3', guideId: 'ann' },
+      ],
+      2
+    );
+    expect(loadByGuide.get('ann')).toBe(3);
+    expect(loadByGuide.get('ben')).toBe(2);
+    // January is outside the two-week lookback.
+    expect(recentPairs.get('2|ann|ben')).toBe(1);
+  });
+});
+
+describe('suggestRoster', () => {
+  it('puts FLINTA-priority guides first', () => {
+    const result = suggestRoster(
+      [
+        candidate('ann', '2', { submittedAt: '2026-06-01T08:00:00Z' }),
+        candidate('ben', '2', { submittedAt: '2026-06-01T09:00:00Z' }),
+        candidate('cleo', '2', { flintaPriority: true, submittedAt: '2026-06-02T09:00:00Z' }),
+      ],
+      []
+    );
+    expect(assignedOf(result, '2')).toEqual(['cleo', 'ann']);
+    expect(result.entries.find((entry) => entry.guideId === 'ben')?.decisionStatus).toBe('standby');
+  });
+
+  it('prefers guides with fewer rides this season', () => {
+    const result = suggestRoster(
+      [candidate('ann', '3'), candidate('ben', '3'), candidate('cleo', '3')],
+      [
+        { rideDate: '2026-05-05', level: '3', guideId: 'ann' },
+        { rideDate: '2026-05-12', level: '3', guideId: 'ann' },
+        { rideDate: '2026-05-12', level: '3', guideId: 'cleo' },
+      ]
+    );
+    expect(assignedOf(result, '3')).toEqual(['ben', 'cleo']);
+  });
+
+  it('splits up a pair that guided the same level last week', () => {
+    const history = [
+      { rideDate: '2026-05-26', level: '2+', guideId: 'ann' },
+      { rideDate: '2026-05-26', level: '2+', guideId: 'ben' },
+      { rideDate: '2026-05-19', level: '2+', guideId: 'cleo' },
+    ];
+    const result = suggestRoster(
+      [candidate('ann', '2+'), candidate('ben', '2+'), candidate('cleo', '2+')],
+      history
+    );
+    expect(assignedOf(result, '2+')).toHaveLength(2);
+    expect(assignedOf(result, '2+')).toContain('cleo');
+    expect(result.repeatedPairs).toBe(0);
+  });
+
+  it('reports levels without enough guides', () => {
+    const result = suggestRoster([candidate('ann', '2'), candidate('ben', '3')], [], {
+      guidesPerLevel: 2,
+    });
+    expect(result.unfilled).toEqual({ '2': 1, '2+': 2, '3': 1 });
+    expect(result.entries.every((entry) => entry.decisionStatus === 'assigned')).toBe(true);
+  });
+
+  it('plans only the levels of the ride slot', () => {
+    const result = suggestRoster(
+      [candidate('ann', 'gravel'), candidate('ben', 'gravel'), candidate('cleo', '2')],
+      [],
+      { levels: ['gravel'], guidesPerLevel: 1 }
+    );
+    expect(assignedOf(result, 'gravel')).toEqual(['ann']);
+    expect(result.entries.map((entry) => entry.guideId)).toEqual(['ann', 'ben']);
+    expect(result.unfilled).toEqual({});
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Roster suggestions for a guide ride plan week (coordinator action `suggest-roster` in
+ * lib/guideRidePlanning.ts). Every guide who picked a level for the week is a candidate for that
+ * level; the solver picks who guides and who stays Springer (standby):
+ *
+ * 1. FLINTA priority first (`guide_flinta_priority`), as in the manual planning rules.
+ * 2. Then the lowest season load: guides with fewer assigned rides this season go first.
+ * 3. A pair that guided the same level together in the last few weeks counts as extra load, so
+ *    the same two guides do not end up together every week.
+ * 4. Remaining ties go to the earlier submission (first come, first served).
+ *
+ * Guides are only placed on the level they chose. Levels without enough candidates are reported
+ * as unfilled. The plan's ride slot (lib/rideSlots.ts) sets the levels and guides per level.
+ * Pure functions, shared with the tests.
+ */
+import type { PlanLevel } from './rideSlots.js';
+
+/** Levels when the caller does not pass the slot's (the Tuesday Social Ride). */
+export const DEFAULT_ROSTER_LEVELS: PlanLevel[] = ['2', '2+', '3'];
+
+/** Guides per level unless the caller says otherwise (lead and sweep). */
+export const DEFAULT_GUIDES_PER_LEVEL = 2;
+
+/** Weeks of history in which a repeated pairing counts against a roster. */
+export const PAIR_LOOKBACK_WEEKS = 4;
+
+/** A repeated pairing weighs as much as this many extra rides of season load. */
+const REPEAT_PAIR_WEIGHT = 2;
+
+/** Combinations are only searched among the best-ranked candidates of a level. */
+const MAX_SEARCH_CANDIDATES = 12;
+
+export type RosterCandidate = {
+  assignmentId: string;
+  guideId: string;
+  level: PlanLevel;
+  flintaPriority: boolean;
+  submittedAt: string;
+};
+
+/** One assigned guide on an earlier ride of the season. */
+export type RosterHistoryEntry = { rideDate: string; level: string; guideId: string };
+
+export type RosterSuggestionEntry = {
+  assignmentId: string;
+  guideId: string;
+  level: PlanLevel;
+  decisionStatus: 'assigned' | 'standby';
+  /** Assigned rides this season before this week. */
+  seasonLoad: number;
+};
+
+export type RosterSuggestion = {
+  /** Per level: assigned guides first, then Springer in the order they should be asked. */
+  entries: RosterSuggestionEntry[];
+  /** Guides missing per level. */
+  unfilled: Partial<Record<PlanLevel, number>>;
+  /** Pairings in the suggestion that already guided together within the lookback. */
+  repeatedPairs: number;
+};
+
+function pairKey(level: string, a: string, b: string): string {
+  return a < b ? `${level}|${a}|${b}` : `${level}|${b}|${a}`;
+}
+
+/** Season load per guide and how often each pair shared a level in the most recent weeks. */
+export function summarizeRosterHistory(
+  history: RosterHistoryEntry[],
+  lookbackWeeks = PAIR_LOOKBACK_WEEKS
+): { loadByGuide: Map<string, number>; recentPairs: Map<string, number> } {
+  const loadByGuide = new Map<string, number>();
+  for (const entry of history) {
+    loadByGuide.set(entry.guideId, (loadByGuide.get(entry.guideId) ?? 0) + 1);
+  }
+
+  const recentDates = new Set(
+    [...new Set(history.map((entry) => entry.rideDate))].sort().slice(-lookbackWeeks)
+  );
+  const teams = new Map<string, string[]>();
+  for (const entry of history) {
+    if (!recentDates.has(entry.rideDate)) continue;
+    const key = `${entry.rideDate}|${entry.level}`;
+    teams.set(key, [...(teams.get(key) ?? []), entry.guideId]);
+  }
+  const recentPairs = new Map<string, number>();
+  for (const [key, guideIds] of teams) {
+    const level = key.slice(key.indexOf('|') + 1);
+    const unique = [...new Set(guideIds)];
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const pair = pairKey(level, unique[i], unique[j]);
+        recentPairs.set(pair, (recentPairs.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+  return { loadByGuide, recentPairs };
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  items.forEach((item, index) => {
+    for (const rest of combinations(items.slice(index + 1), size - 1)) {
+      result.push([item, ...rest]);
+    }
+  });
+  return result;
+}
+
+/** Lexicographic: the first differing part decides. */
+function compareCosts(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/** Who guides each level and who stays Springer, from the week's level choices. */
+export function suggestRoster(
+  candidates: RosterCandidate[],
+  history: RosterHistoryEntry[],
+  options: { levels?: PlanLevel[]; guidesPerLevel?: number; lookbackWeeks?: number } = {}
+): RosterSuggestion {
+  const levels = options.levels ?? DEFAULT_ROSTER_LEVELS;
+  const guidesPerLevel = options.guidesPerLevel ?? DEFAULT_GUIDES_PER_LEVEL;
+  const { loadByGuide, recentPairs } = summarizeRosterHistory(history, options.lookbackWeeks);
+  const loadOf = (candidate: RosterCandidate) => loadByGuide.get(candidate.guideId) ?? 0;
+
+  const entries: RosterSuggestionEntry[] = [];
+  const unfilled: Partial<Record<PlanLevel, number>> = {};
+  let repeatedPairs = 0;
+
+  for (const level of levels) {
+    const ranked = candidates
+      .filter((candidate) => candidate.level === level)
+      .sort(
+        (a, b) =>
+          Number(b.flintaPriority) - Number(a.flintaPriority) ||
+          loadOf(a) - loadOf(b) ||
+          a.submittedAt.localeCompare(b.submittedAt) ||
+          a.guideId.localeCompare(b.guideId)
+      );
+    const size = Math.min(guidesPerLevel, ranked.length);
+    const pool = ranked.slice(0, Math.max(size, MAX_SEARCH_CANDIDATES));
+
+    const repeatsOf = (team: RosterCandidate[]) => {
+      let repeats = 0;
+      for (let i = 0; i < team.length; i++) {
+        for (let j = i + 1; j < team.length; j++) {
+          repeats += recentPairs.get(pairKey(level, team[i].guideId, team[j].guideId)) ?? 0;
+        }
+      }
+      return repeats;
+    };
+    const costOf = (team: RosterCandidate[]): number[] => [
+      -team.filter((candidate) => candidate.flintaPriority).length,
+      team.reduce((sum, candidate) => sum + loadOf(candidate), 0) +
+        REPEAT_PAIR_WEIGHT * repeatsOf(team),
+      team.reduce((sum, candidate) => sum + pool.indexOf(candidate), 0),
+    ];
+
+    let best: RosterCandidate[] = [];
+    let bestCost: number[] | null = null;
+    for (const team of combinations(pool, size)) {
+      const cost = costOf(team);
+      if (!bestCost || compareCosts(cost, bestCost) < 0) {
+        best = team;
+        bestCost = cost;
+      }
+    }
+
+    repeatedPairs += repeatsOf(best);
+    const chosen = new Set(best);
+    for (const candidate of ranked) {
+      entries.push({
+        assignmentId: candidate.assignmentId,
+        guideId: candidate.guideId,
+        level,
+        decisionStatus: chosen.has(candidate) ? 'assigned' : 'standby',
+        seasonLoad: loadOf(candidate),
+      });
+    }
+    if (size < guidesPerLevel) unfilled[level] = guidesPerLevel - size;
+  }
+
+  entries.sort(
+    (a, b) =>
+      levels.indexOf(a.level) - levels.indexOf(b.level) ||
+      Number(a.decisionStatus === 'standby') - Number(b.decisionStatus === 'standby')
+  );
+  return { entries, unfilled, repeatedPairs };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { levelCoverage, standbyQueue, type StandbyCandidate } from './guideSwaps';
+
+const candidates: StandbyCandidate[] = [
+  {
+    guide_profile_id: 'late',
+    ride_level: '2',
+    decision_status: 'standby',
+    submitted_at: '2026-06-03T10:00:00Z',
+  },
+  {
+    guide_profile_id: 'early',
+    ride_level: '2',
+    decision_status: 'standby',
+    submitted_at: '2026-06-01T10:00:00Z',
+  },
+  {
+    guide_profile_id: 'requester',
+    ride_level: '2',
+    decision_status: 'assigned',
+    submitted_at: '2026-05-30T10:00:00Z',
+  },
+  {
+    guide_profile_id: 'level3',
+    ride_level: '3',
+    decision_status: 'standby',
+    submitted_at: '2026-05-30T10:00:00Z',
+  },
+  {
+    guide_profile_id: 'proposed',
+    ride_level: '2',
+    decision_status: 'proposed',
+    submitted_at: '2026-05-29T10:00:00Z',
+  },
+];
+
+describe('standbyQueue', () => {
+  it('offers the ride to standby guides of the level, earliest standby first', () => {
+    expect(standbyQueue(candidates, '2', 'requester')).toEqual(['early', 'late']);
+    expect(standbyQueue(candidates, '3', 'requester')).toEqual(['level3']);
+  });
+
+  it('never offers the ride back to the requester', () => {
+    expect(standbyQueue(candidates, '2', 'early')).toEqual(['late']);
+    expect(standbyQueue(candidates, '2+', 'requester')).toEqual([]);
+  });
+});
+
+describe('levelCoverage', () => {
+  it('reports a level short of its guides per level, and one left without guides', () => {
+    expect(levelCoverage(2, 2)).toBe('covered');
+    expect(levelCoverage(3, 2)).toBe('covered');
+    expect(levelCoverage(1, 2)).toBe('short');
+    expect(levelCoverage(0, 2)).toBe('unguided');
+  });
+});
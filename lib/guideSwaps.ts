@@ -0,0 +1,596 @@
+/**
+ * Swap and sick-leave requests for assigned guides (`guide_swap_requests`, see the
+ * `create_guide_swap_requests` migration):
+ *
+ * - a guide asks for a swap (they stay assigned until someone takes over) or reports sick (the
+ *   assignment is marked unavailable right away, as `mark-unavailable` does),
+ * - the level's standby guides are emailed the offer in standby order and the first to accept is
+ *   assigned in the requester's place,
+ * - a request nobody takes closes the day before the ride (`closeExpiredSwapRequests`, daily
+ *   send-reminders run); a sick report without standby guides closes straight away.
+ *
+ * A closed request that leaves the level short of its ride slot's guides per level is emailed to
+ * the coordinators and the level's riders. A level left without guides is cancelled through
+ * lib/rideLevelNotices.ts, the same path as the guide `guide-cancel-level` action. Riders are only
+ * reached for published plans linked to their WordPress event (lib/guideEventSync.ts).
+ *
+ * Server-side only (Supabase service role + Resend).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import { fetchEventLevelGuides } from './guideEventSync.js';
+import { cancelRideLevel, notifyFewerGuides } from './rideLevelNotices.js';
+import { addDays, choiceForLevel, getRideSlot, levelLabel } from './rideSlots.js';
+
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <noreply@kandiegang.com>';
+const BASE_URL =
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://kandiegang.com');
+
+const REQUEST_COLUMNS =
+  'id, assignment_id, plan_id, ride_date, ride_level, requested_by, kind, note, offered_to, status, filled_by, created_at, resolved_at';
+
+/** Reason riders get when a level is cancelled for lack of guides. */
+const NO_GUIDES_REASON =
+  'Our guides for this level had to drop out at short notice and no standby guide could take over.';
+
+export type SwapKind = 'swap' | 'sick';
+
+export type SwapStatus = 'open' | 'filled' | 'unfilled' | 'withdrawn';
+
+export type GuideSwapRequest = {
+  id: string;
+  assignment_id: string;
+  plan_id: string;
+  ride_date: string;
+  ride_level: string;
+  requested_by: string;
+  kind: SwapKind;
+  note: string | null;
+  /** Standby guides offered the ride, in standby order. */
+  offered_to: string[];
+  status: SwapStatus;
+  filled_by: string | null;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+/** The assignment a request is made for. */
+export type SwapAssignment = {
+  id: string;
+  plan_id: string;
+  ride_date: string;
+  ride_level: string;
+  guide_profile_id: string;
+};
+
+export type StandbyCandidate = {
+  guide_profile_id: string;
+  ride_level: string;
+  decision_status: string;
+  submitted_at: string;
+};
+
+export type LevelCoverage = 'covered' | 'short' | 'unguided';
+
+/** What happened to a level left short of guides by an unfilled request. */
+export type LevelShortfall = {
+  rideDate: string;
+  rideLevel: string;
+  coverage: Exclude<LevelCoverage, 'covered'>;
+  assigned: number;
+  needed: number;
+  /** False when the plan is not published or not linked to an event, so riders were not reached. */
+  eventLinked: boolean;
+  cancelled: boolean;
+  ridersEmailed: number;
+  coordinatorsEmailed: number;
+};
+
+export type SwapRequestOutcome = {
+  request: GuideSwapRequest;
+  shortfall: LevelShortfall | null;
+};
+
+/** Standby guides of the level who can take over, earliest standby submission first. */
+export function standbyQueue(
+  candidates: StandbyCandidate[],
+  rideLevel: string,
+  requesterId: string
+): string[] {
+  return candidates
+    .filter(
+      (row) =>
+        row.decision_status === 'standby' &&
+        row.ride_level === rideLevel &&
+        row.guide_profile_id !== requesterId
+    )
+    .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at))
+    .map((row) => row.guide_profile_id);
+}
+
+export function levelCoverage(assigned: number, needed: number): LevelCoverage {
+  if (assigned <= 0) return 'unguided';
+  return assigned < needed ? 'short' : 'covered';
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function formatRideDate(dateIso: string): string {
+  return new Date(`${dateIso}T12:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+function buildGuideNoticeHtml(heading: string, paragraphs: string[]): string {
+  const safeHeading = escapeHtml(heading);
+  const safePlanningUrl = escapeHtml(`${BASE_URL}/guide/analytics`);
+  const rows = paragraphs
+    .map(
+      (paragraph) =>
+        `<tr><td align="left" style="padding:0px 40px 16px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${escapeHtml(paragraph)}</p></td></tr>`
+    )
+    .join('');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?guideswap" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">${safeHeading}</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody>${rows}<tr><td align="center" style="padding:8px 40px 8px;background:rgb(255,255,254);"><a href="${safePlanningUrl}" target="_blank" rel="noopener noreferrer" style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);text-decoration:none;padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">Open ride planning</a></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?guideswap" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+}
+
+function buildGuideNoticeText(heading: string, paragraphs: string[]): string {
+  return [
+    heading,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    `Open ride planning: ${BASE_URL}/guide/analytics`,
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+type GuideContact = { id: string; name: string; email: string | null };
+
+async function loadGuideContacts(
+  adminClient: SupabaseClient<any>,
+  profileIds: string[]
+): Promise<Map<string, GuideContact>> {
+  if (profileIds.length === 0) return new Map();
+  const { data } = await adminClient
+    .from('profiles')
+    .select('id, display_name, username, email')
+    .in('id', profileIds);
+  return new Map(
+    (data ?? []).map((profile) => [
+      profile.id,
+      {
+        id: profile.id,
+        name: profile.display_name?.trim() || profile.username?.trim() || 'A guide',
+        email: profile.email ?? null,
+      },
+    ])
+  );
+}
+
+/** Best effort: failures are logged, never thrown. Returns how many guides were emailed. */
+async function emailGuides(
+  guides: GuideContact[],
+  subject: string,
+  heading: string,
+  paragraphs: string[]
+): Promise<number> {
+  if (!RESEND_API_KEY) return 0;
+  const resend = new Resend(RESEND_API_KEY);
+  let sent = 0;
+  for (const guide of guides) {
+    if (!guide.email) continue;
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: guide.email,
+        subject,
+        html: buildGuideNoticeHtml(heading, paragraphs),
+        text: buildGuideNoticeText(heading, paragraphs),
+      });
+      sent++;
+    } catch (err) {
+      console.warn('[guide-swaps] Email send error for', guide.email, err);
+    }
+  }
+  return sent;
+}
+
+function describeRequest(request: GuideSwapRequest, requesterName: string): string {
+  const ride = `${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)}`;
+  return request.kind === 'sick'
+    ? `${requesterName} reported sick for ${ride}.`
+    : `${requesterName} asked for a swap for ${ride}.`;
+}
+
+async function emailSwapOffers(adminClient: SupabaseClient<any>, request: GuideSwapRequest) {
+  const contacts = await loadGuideContacts(adminClient, [
+    request.requested_by,
+    ...request.offered_to,
+  ]);
+  const requesterName = contacts.get(request.requested_by)?.name ?? 'A guide';
+  const paragraphs = [
+    describeRequest(request, requesterName),
+    'You are on standby for this level. If you can guide instead, take over the ride in ride planning — the first standby guide to accept gets it.',
+    ...(request.note ? [`Note: ${request.note}`] : []),
+  ];
+  await emailGuides(
+    request.offered_to.flatMap((id) => contacts.get(id) ?? []),
+    `Can you guide ${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)}?`,
+    'Can you take over a ride?',
+    paragraphs
+  );
+}
+
+/** Level key, occurrence and planned guide count of the request's ride, for rider notices. */
+async function loadLevelContext(adminClient: SupabaseClient<any>, request: GuideSwapRequest) {
+  const { data: plan, error } = await adminClient
+    .from('guide_ride_plans')
+    .select('id, status, slot_id, wp_event_id')
+    .eq('id', request.plan_id)
+    .single();
+  if (error || !plan) throw new Error(`Could not load plan: ${error?.message ?? 'not found'}`);
+  const slot = await getRideSlot(adminClient, plan.slot_id);
+  if (!slot) throw new Error('Could not load plan: ride slot not found');
+
+  const { count, error: countError } = await adminClient
+    .from('guide_ride_assignments')
+    .select('id', { count: 'exact', head: true })
+    .eq('plan_id', request.plan_id)
+    .eq('ride_date', request.ride_date)
+    .eq('ride_level', request.ride_level)
+    .eq('decision_status', 'assigned');
+  if (countError) throw new Error(`Could not count assigned guides: ${countError.message}`);
+
+  const eventLevel = choiceForLevel(request.ride_level);
+  const event =
+    plan.status === 'published' && plan.wp_event_id && eventLevel
+      ? await fetchEventLevelGuides(plan.wp_event_id)
+      : null;
+  return {
+    slotTitle: slot.title,
+    assigned: count ?? 0,
+    needed: slot.guidesPerLevel,
+    level:
+      event && eventLevel
+        ? {
+            eventId: event.eventId,
+            rideLevel: eventLevel,
+            occurrenceDate: event.recurrence ? request.ride_date : null,
+          }
+        : null,
+  };
+}
+
+/**
+ * After a request closed unfilled: when the level is short of guides, email its riders (or cancel
+ * it when no guide is left) and the coordinators. Null when the level is still covered.
+ */
+async function handleLevelShortfall(
+  adminClient: SupabaseClient<any>,
+  request: GuideSwapRequest
+): Promise<LevelShortfall | null> {
+  const context = await loadLevelContext(adminClient, request);
+  const coverage = levelCoverage(context.assigned, context.needed);
+  if (coverage === 'covered') return null;
+
+  let cancelled = false;
+  let ridersEmailed = 0;
+  if (context.level && coverage === 'unguided') {
+    const result = await cancelRideLevel(adminClient, {
+      ...context.level,
+      reason: NO_GUIDES_REASON,
+      cancelledBy: request.requested_by,
+    });
+    cancelled = true;
+    if (result.status === 'cancelled') ridersEmailed = result.emailsSent;
+  } else if (context.level) {
+    ridersEmailed = await notifyFewerGuides(adminClient, {
+      ...context.level,
+      guideCount: context.assigned,
+      plannedCount: context.needed,
+    });
+  }
+
+  const { data: coordinatorRows } = await adminClient
+    .from('profiles')
+    .select('id')
+    .eq('guide_is_coordinator', true);
+  const contacts = await loadGuideContacts(adminClient, [
+    request.requested_by,
+    ...(coordinatorRows ?? []).map((row) => row.id),
+  ]);
+  const requesterName = contacts.get(request.requested_by)?.name ?? 'A guide';
+  const riders = !context.level
+    ? 'The plan is not published or not linked to a WordPress event, so no riders were emailed.'
+    : cancelled
+      ? `No guide is left, so the level was cancelled and ${ridersEmailed} rider(s) were emailed.`
+      : `${ridersEmailed} rider(s) were told the ride goes ahead with fewer guides.`;
+  const coordinatorsEmailed = await emailGuides(
+    (coordinatorRows ?? []).flatMap((row) => contacts.get(row.id) ?? []),
+    `${context.slotTitle}: ${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)} is short of guides`,
+    'A level is short of guides',
+    [
+      `${describeRequest(request, requesterName)} No standby guide took over.`,
+      `${context.assigned} of ${context.needed} guides are left for the level.`,
+      riders,
+    ]
+  );
+
+  return {
+    rideDate: request.ride_date,
+    rideLevel: request.ride_level,
+    coverage,
+    assigned: context.assigned,
+    needed: context.needed,
+    eventLinked: Boolean(context.level),
+    cancelled,
+    ridersEmailed,
+    coordinatorsEmailed,
+  };
+}
+
+/** Follow-up for a request closed unfilled: a swap requester hears they are still on the ride. */
+async function settleUnfilledRequest(
+  adminClient: SupabaseClient<any>,
+  request: GuideSwapRequest
+): Promise<LevelShortfall | null> {
+  if (request.kind === 'swap') {
+    const contacts = await loadGuideContacts(adminClient, [request.requested_by]);
+    const requester = contacts.get(request.requested_by);
+    await emailGuides(
+      requester ? [requester] : [],
+      `No swap found for ${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)}`,
+      'No one could take over your ride',
+      [
+        `No standby guide took over ${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)}, so you are still on the plan.`,
+        'If you cannot guide, report sick in ride planning so the coordinators and riders know.',
+      ]
+    );
+  }
+  return handleLevelShortfall(adminClient, request);
+}
+
+export async function getSwapRequest(
+  adminClient: SupabaseClient<any>,
+  requestId: string
+): Promise<GuideSwapRequest | null> {
+  const { data, error } = await adminClient
+    .from('guide_swap_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('id', requestId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load swap request: ${error.message}`);
+  return (data as GuideSwapRequest | null) ?? null;
+}
+
+export async function listSwapRequests(
+  adminClient: SupabaseClient<any>,
+  planIds: string[]
+): Promise<GuideSwapRequest[]> {
+  if (planIds.length === 0) return [];
+  const { data, error } = await adminClient
+    .from('guide_swap_requests')
+    .select(REQUEST_COLUMNS)
+    .in('plan_id', planIds)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Could not load swap requests: ${error.message}`);
+  return (data ?? []) as GuideSwapRequest[];
+}
+
+/**
+ * Open a request for the assignment and email the offer to the level's standby guides. A sick
+ * report takes the guide off the plan at once; without standby guides the request closes unfilled
+ * straight away and any shortfall is handled.
+ */
+export async function openSwapRequest(
+  adminClient: SupabaseClient<any>,
+  assignment: SwapAssignment,
+  kind: SwapKind,
+  note: string | null
+): Promise<SwapRequestOutcome> {
+  const { data: rows, error: rowsError } = await adminClient
+    .from('guide_ride_assignments')
+    .select('guide_profile_id, ride_level, decision_status, submitted_at')
+    .eq('plan_id', assignment.plan_id)
+    .eq('ride_date', assignment.ride_date);
+  if (rowsError) throw new Error(`Could not load standby guides: ${rowsError.message}`);
+  const queue = standbyQueue(rows ?? [], assignment.ride_level, assignment.guide_profile_id);
+
+  const { data, error } = await adminClient
+    .from('guide_swap_requests')
+    .insert({
+      assignment_id: assignment.id,
+      plan_id: assignment.plan_id,
+      ride_date: assignment.ride_date,
+      ride_level: assignment.ride_level,
+      requested_by: assignment.guide_profile_id,
+      kind,
+      note,
+      offered_to: queue,
+      status: queue.length > 0 ? 'open' : 'unfilled',
+      resolved_at: queue.length > 0 ? null : new Date().toISOString(),
+    })
+    .select(REQUEST_COLUMNS)
+    .single();
+  if (error?.code === '23505') throw new Error('This ride already has an open swap request');
+  if (error || !data) {
+    throw new Error(`Could not create swap request: ${error?.message ?? 'no row returned'}`);
+  }
+  const request = data as GuideSwapRequest;
+
+  if (kind === 'sick') {
+    const { error: sickError } = await adminClient
+      .from('guide_ride_assignments')
+      .update({
+        decision_status: 'unavailable',
+        is_sick_leave: true,
+        sick_note: note,
+        override_reason: 'Guide reported sick',
+      })
+      .eq('id', assignment.id);
+    if (sickError) throw new Error(`Could not mark guide unavailable: ${sickError.message}`);
+  }
+
+  if (queue.length > 0) {
+    await emailSwapOffers(adminClient, request);
+    return { request, shortfall: null };
+  }
+  try {
+    return { request, shortfall: await settleUnfilledRequest(adminClient, request) };
+  } catch (err) {
+    // The request stands; only the notices failed.
+    console.error('[guide-swaps] Handling unfilled request failed:', request.id, err);
+    return { request, shortfall: null };
+  }
+}
+
+/**
+ * Give the ride to `guideId`, one of the standby guides it was offered to. Returns null when the
+ * request was no longer open (someone else accepted first, or it was closed or withdrawn).
+ */
+export async function acceptSwapRequest(
+  adminClient: SupabaseClient<any>,
+  request: GuideSwapRequest,
+  guideId: string
+): Promise<GuideSwapRequest | null> {
+  const { data: claimed, error } = await adminClient
+    .from('guide_swap_requests')
+    .update({ status: 'filled', filled_by: guideId, resolved_at: new Date().toISOString() })
+    .eq('id', request.id)
+    .eq('status', 'open')
+    .select(REQUEST_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(`Could not accept swap request: ${error.message}`);
+  if (!claimed) return null;
+
+  const contacts = await loadGuideContacts(adminClient, [request.requested_by, guideId]);
+  const requester = contacts.get(request.requested_by);
+  const taker = contacts.get(guideId);
+
+  const { data: takeover, error: takeoverError } = await adminClient
+    .from('guide_ride_assignments')
+    .update({
+      decision_status: 'assigned',
+      ride_level: request.ride_level,
+      override_reason: `Took over from ${requester?.name ?? 'a guide'}`,
+    })
+    .eq('plan_id', request.plan_id)
+    .eq('ride_date', request.ride_date)
+    .eq('guide_profile_id', guideId)
+    .eq('decision_status', 'standby')
+    .select('id');
+  if (takeoverError || !takeover?.length) {
+    // The guide is no longer on standby for this ride; reopen the request for the others.
+    await adminClient
+      .from('guide_swap_requests')
+      .update({ status: 'open', filled_by: null, resolved_at: null })
+      .eq('id', request.id);
+    throw new Error(
+      takeoverError
+        ? `Could not assign guide: ${takeoverError.message}`
+        : 'You are no longer on standby for this ride'
+    );
+  }
+
+  if (request.kind === 'swap') {
+    const { error: swapError } = await adminClient
+      .from('guide_ride_assignments')
+      .update({
+        decision_status: 'unavailable',
+        override_reason: `Swapped with ${taker?.name ?? 'a standby guide'}`,
+      })
+      .eq('id', request.assignment_id);
+    if (swapError) throw new Error(`Could not release requester: ${swapError.message}`);
+  }
+
+  await emailGuides(
+    requester ? [requester] : [],
+    `${taker?.name ?? 'A standby guide'} takes over your ride on ${formatRideDate(request.ride_date)}`,
+    'Your ride is covered',
+    [
+      `${taker?.name ?? 'A standby guide'} takes over ${levelLabel(request.ride_level)} on ${formatRideDate(request.ride_date)}.`,
+      request.kind === 'sick' ? 'Get well soon!' : 'You are off the plan for this ride.',
+    ]
+  );
+  return claimed as GuideSwapRequest;
+}
+
+/**
+ * Withdraw an open request. A withdrawn sick report puts the guide back on the plan. Returns null
+ * when the request was no longer open.
+ */
+export async function withdrawSwapRequest(
+  adminClient: SupabaseClient<any>,
+  request: GuideSwapRequest
+): Promise<GuideSwapRequest | null> {
+  const { data, error } = await adminClient
+    .from('guide_swap_requests')
+    .update({ status: 'withdrawn', resolved_at: new Date().toISOString() })
+    .eq('id', request.id)
+    .eq('status', 'open')
+    .select(REQUEST_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(`Could not withdraw swap request: ${error.message}`);
+  if (!data) return null;
+
+  if (request.kind === 'sick') {
+    const { error: restoreError } = await adminClient
+      .from('guide_ride_assignments')
+      .update({
+        decision_status: 'assigned',
+        is_sick_leave: false,
+        sick_note: null,
+        override_reason: null,
+      })
+      .eq('id', request.assignment_id);
+    if (restoreError) throw new Error(`Could not restore assignment: ${restoreError.message}`);
+  }
+  return data as GuideSwapRequest;
+}
+
+/**
+ * Close open requests whose ride is tomorrow or earlier, so riders still hear about a short level
+ * the day before. Called by the daily send-reminders run. Returns the requests closed.
+ */
+export async function closeExpiredSwapRequests(
+  adminClient: SupabaseClient<any>,
+  todayIso: string
+): Promise<number> {
+  const { data, error } = await adminClient
+    .from('guide_swap_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('status', 'open')
+    .lte('ride_date', addDays(todayIso, 1));
+  if (error) throw new Error(`Could not load open swap requests: ${error.message}`);
+
+  let closed = 0;
+  for (const request of (data ?? []) as GuideSwapRequest[]) {
+    const { data: closedRow } = await adminClient
+      .from('guide_swap_requests')
+      .update({ status: 'unfilled', resolved_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .eq('status', 'open')
+      .select('id')
+      .maybeSingle();
+    if (!closedRow) continue;
+    closed++;
+    try {
+      await settleUnfilledRequest(adminClient, request);
+    } catch (err) {
+      console.error('[guide-swaps] Handling unfilled request failed:', request.id, err);
+    }
+  }
+  return closed;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHouseholdInvite, householdJoinBlock, householdSeatsLeft } from './households';
+
+describe('householdSeatsLeft', () => {
+  const owner = { is_member: true, membership_tier: 'household' };
+
+  it('counts linked members and open invites against the seats', () => {
+    expect(householdSeatsLeft(owner, 0, 0)).toBe(3);
+    expect(householdSeatsLeft(owner, 1, 2)).toBe(0);
+    expect(householdSeatsLeft(owner, 3, 1)).toBe(0);
+  });
+
+  it('has no seats for other tiers or a lapsed household', () => {
+    expect(householdSeatsLeft({ is_member: true }, 0, 0)).toBe(0);
+    expect(householdSeatsLeft({ ...owner, is_member: false }, 0, 0)).toBe(0);
+  });
+
+  it('has no seats for linked members, whatever their tier says', () => {
+    expect(householdSeatsLeft({ ...owner, household_owner_id: 'owner' }, 0, 0)).toBe(0);
+  });
+});
+
+describe('createHouseholdInvite', () => {
+  // Answers every profile lookup with `profile` and records inserts.
+  function fakeClient(profile: Record<string, unknown>) {
+    const inserts: unknown[] = [];
+    const query = {
+      select: () => query,
+      eq: () => query,
+      maybeSingle: async () => ({ data: profile, error: null }),
+      insert: async (row: unknown) => {
+        inserts.push(row);
+        return { error: null };
+      },
+    };
+    const client = { from: () => query } as unknown as SupabaseClient<any>;
+    return { client, inserts };
+  }
+
+  it('refuses invites from linked household members', async () => {
+    const { client, inserts } = fakeClient({
+      id: 'u2',
+      email: 'u2@example.com',
+      is_member: true,
+      membership_tier: 'household',
+      household_owner_id: 'owner',
+    });
+    const result = await createHouseholdInvite(client, 'u2', 'friend@example.com');
+    expect(result).toMatchObject({ ok: false, status: 403 });
+    expect(inserts).toHaveLength(0);
+  });
+});
+
+describe('householdJoinBlock', () => {
+  it('lets people without a membership of their own join', () => {
+    expect(householdJoinBlock({ id: 'u2', is_member: false }, 'owner')).toBeNull();
+  });
+
+  it('keeps owners, existing members and other households out', () => {
+    expect(householdJoinBlock({ id: 'owner', is_member: true }, 'owner')).toMatch(/own household/);
+    expect(householdJoinBlock({ id: 'u2', is_member: true }, 'owner')).toMatch(/of your own/);
+    expect(
+      householdJoinBlock({ id: 'u2', is_member: true, household_owner_id: 'other' }, 'owner')
+    ).toMatch(/another household/);
+    expect(householdJoinBlock(null, 'owner')).toMatch(/could not be found/);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Household memberships. The owner holds a household-tier membership and invites up to
+ * `householdSeats` people by email; each invite carries a one-time link
+ * (`/members/settings?household=<token>`, only its hash is stored). Whoever accepts it is linked
+ * via `profiles.household_owner_id` and the database copies the owner's membership onto their
+ * profile, now and whenever it changes. Owners can remove members; members can leave.
+ *
+ * Server-side only (Supabase service role), apart from the pure helpers.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { hasActiveMembership } from './membership.js';
+import { getMembershipTier, type TieredMembershipLike } from './membershipTiers.js';
+
+export const HOUSEHOLD_INVITE_DAYS = 14;
+
+export type HouseholdMember = { id: string; name: string | null; email: string | null };
+
+export type HouseholdInvite = { id: string; email: string; expiresAt: string };
+
+export type Household =
+  | { role: 'owner'; seats: number; members: HouseholdMember[]; invites: HouseholdInvite[] }
+  | { role: 'member'; owner: HouseholdMember }
+  | { role: 'none' };
+
+export type HouseholdResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string };
+
+type HouseholdProfile = NonNullable<TieredMembershipLike> & {
+  id: string;
+  email?: string | null;
+  display_name?: string | null;
+  household_owner_id?: string | null;
+};
+
+type SeatHolder =
+  | (NonNullable<TieredMembershipLike> & { household_owner_id?: string | null })
+  | null
+  | undefined;
+
+const PROFILE_COLUMNS =
+  'id, email, display_name, is_member, membership_expiration, stripe_subscription_status, membership_tier, household_owner_id';
+
+export function hashHouseholdToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Seats of a household-tier membership. Linked members have none: their membership is the owner's,
+ * so letting them invite would hand out further memberships on the same subscription.
+ */
+export function householdSeats(profile: SeatHolder): number {
+  if (profile?.household_owner_id) return 0;
+  return getMembershipTier(profile)?.householdSeats ?? 0;
+}
+
+/** Seats an owner can still fill; open invites hold a seat until they lapse. */
+export function householdSeatsLeft(
+  owner: SeatHolder,
+  linkedCount: number,
+  openInviteCount: number
+): number {
+  return Math.max(0, householdSeats(owner) - linkedCount - openInviteCount);
+}
+
+/**
+ * Why `profile` cannot join a household, or null when it can. People with a membership of their own
+ * keep it; joining would hide it behind the owner's.
+ */
+export function householdJoinBlock(
+  profile: HouseholdProfile | null,
+  ownerId: string
+): string | null {
+  if (!profile) return 'Your profile could not be found.';
+  if (profile.id === ownerId) return 'You cannot join your own household.';
+  if (profile.household_owner_id === ownerId) return 'You are already in this household.';
+  if (profile.household_owner_id) return 'You are already part of another household.';
+  if (hasActiveMembership(profile)) {
+    return 'You already have a membership of your own. Join the household once it has ended.';
+  }
+  return null;
+}
+
+function toMember(row: HouseholdProfile): HouseholdMember {
+  return { id: row.id, name: row.display_name ?? null, email: row.email ?? null };
+}
+
+async function loadProfile(
+  adminClient: SupabaseClient<any>,
+  userId: string
+): Promise<HouseholdProfile | null> {
+  const { data, error } = await adminClient
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load profile: ${error.message}`);
+  return (data as HouseholdProfile | null) ?? null;
+}
+
+async function loadHouseholdSlots(
+  adminClient: SupabaseClient<any>,
+  ownerId: string,
+  now: Date
+): Promise<{ members: HouseholdProfile[]; invites: HouseholdInvite[] }> {
+  const [{ data: members, error: membersError }, { data: invites, error: invitesError }] =
+    await Promise.all([
+      adminClient.from('profiles').select(PROFILE_COLUMNS).eq('household_owner_id', ownerId),
+      adminClient
+        .from('household_invites')
+        .select('id, email, expires_at')
+        .eq('owner_id', ownerId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .gt('expires_at', now.toISOString())
+        .order('created_at', { ascending: true }),
+    ]);
+  if (membersError) throw new Error(`Could not load household: ${membersError.message}`);
+  if (invitesError) throw new Error(`Could not load household invites: ${invitesError.message}`);
+  return {
+    members: (members ?? []) as HouseholdProfile[],
+    invites: (invites ?? []).map((row: { id: string; email: string; expires_at: string }) => ({
+      id: row.id,
+      email: row.email,
+      expiresAt: row.expires_at,
+    })),
+  };
+}
+
+/** The household as `userId` sees it: owners get members and open invites. */
+export async function getHousehold(
+  adminClient: SupabaseClient<any>,
+  userId: string,
+  now: Date = new Date()
+): Promise<Household> {
+  const profile = await loadProfile(adminClient, userId);
+  if (profile?.household_owner_id) {
+    const owner = await loadProfile(adminClient, profile.household_owner_id);
+    if (owner) return { role: 'member', owner: toMember(owner) };
+  }
+  const seats = householdSeats(profile);
+  const { members, invites } = await loadHouseholdSlots(adminClient, userId, now);
+  if (seats === 0 && members.length === 0) return { role: 'none' };
+  return { role: 'owner', seats, members: members.map(toMember), invites };
+}
+
+/** Create an invite; the caller emails the returned token as a link. */
+export async function createHouseholdInvite(
+  adminClient: SupabaseClient<any>,
+  ownerId: string,
+  email: string,
+  now: Date = new Date()
+): Promise<HouseholdResult<{ token: string; ownerName: string | null }>> {
+  const owner = await loadProfile(adminClient, ownerId);
+  if (!householdSeats(owner)) {
+    return { ok: false, status: 403, error: 'Only household memberships can invite members.' };
+  }
+  const normalizedEmail = email.trim().toLowerCase();
+  if (owner?.email?.toLowerCase() === normalizedEmail) {
+    return { ok: false, status: 400, error: 'You are already in your household.' };
+  }
+  const { members, invites } = await loadHouseholdSlots(adminClient, ownerId, now);
+  if (invites.some((invite) => invite.email.toLowerCase() === normalizedEmail)) {
+    return { ok: false, status: 409, error: `${email} has already been invited.` };
+  }
+  if (householdSeatsLeft(owner, members.length, invites.length) <= 0) {
+    return { ok: false, status: 409, error: 'All seats in your household are taken.' };
+  }
+
+  const token = crypto.randomBytes(24).toString('base64url');
+  const expiresAt = new Date(now.getTime() + HOUSEHOLD_INVITE_DAYS * 24 * 60 * 60 * 1000);
+  const { error } = await adminClient.from('household_invites').insert({
+    owner_id: ownerId,
+    email: normalizedEmail,
+    token_hash: hashHouseholdToken(token),
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) throw new Error(`Could not create household invite: ${error.message}`);
+  return { ok: true, value: { token, ownerName: owner?.display_name ?? owner?.email ?? null } };
+}
+
+/** Accept an invite link: links `userId` to the owner, who must still have a household seat. */
+export async function acceptHouseholdInvite(
+  adminClient: SupabaseClient<any>,
+  token: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<HouseholdResult<{ owner: HouseholdMember }>> {
+  const { data: invite, error: inviteError } = await adminClient
+    .from('household_invites')
+    .select('id, owner_id, expires_at, accepted_at, revoked_at')
+    .eq('token_hash', hashHouseholdToken(token))
+    .maybeSingle();
+  if (inviteError) throw new Error(`Could not load household invite: ${inviteError.message}`);
+  if (!invite || invite.revoked_at) {
+    return { ok: false, status: 404, error: 'This household invite is no longer valid.' };
+  }
+  if (invite.accepted_at) {
+    return { ok: false, status: 409, error: 'This household invite has already been used.' };
+  }
+  if (new Date(invite.expires_at) <= now) {
+    return { ok: false, status: 410, error: 'This household invite has expired.' };
+  }
+
+  const [profile, owner] = await Promise.all([
+    loadProfile(adminClient, userId),
+    loadProfile(adminClient, invite.owner_id),
+  ]);
+  const blocked = householdJoinBlock(profile, invite.owner_id);
+  if (blocked) return { ok: false, status: 409, error: blocked };
+  if (!owner || !householdSeats(owner)) {
+    return { ok: false, status: 409, error: 'This household membership is no longer active.' };
+  }
+
+  const { data: claimed, error: claimError } = await adminClient
+    .from('household_invites')
+    .update({ accepted_at: now.toISOString(), accepted_by: userId })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .select('id')
+    .maybeSingle();
+  if (claimError) throw new Error(`Could not accept household invite: ${claimError.message}`);
+  if (!claimed) {
+    return { ok: false, status: 409, error: 'This household invite has already been used.' };
+  }
+
+  // The database fills in the owner's membership when household_owner_id is set.
+  const { error: linkError } = await adminClient
+    .from('profiles')
+    .update({ household_owner_id: invite.owner_id })
+    .eq('id', userId);
+  if (linkError) {
+    await adminClient
+      .from('household_invites')
+      .update({ accepted_at: null, accepted_by: null })
+      .eq('id', invite.id);
+    throw new Error(`Could not join household: ${linkError.message}`);
+  }
+  return { ok: true, value: { owner: toMember(owner) } };
+}
+
+/**
+ * Unlink `memberId` from the household of `ownerId` and end the membership they inherited.
+ * Owners remove members; members remove themselves (leave).
+ */
+export async function removeHouseholdMember(
+  adminClient: SupabaseClient<any>,
+  ownerId: string,
+  memberId: string
+): Promise<HouseholdResult<null>> {
+  const { data, error } = await adminClient
+    .from('profiles')
+    .update({
+      household_owner_id: null,
+      is_member: false,
+      membership_tier: null,
+      membership_expiration: null,
+    })
+    .eq('id', memberId)
+    .eq('household_owner_id', ownerId)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Could not remove household member: ${error.message}`);
+  if (!data) return { ok: false, status: 404, error: 'Not a member of this household.' };
+  return { ok: true, value: null };
+}
+
+export async function revokeHouseholdInvite(
+  adminClient: SupabaseClient<any>,
+  ownerId: string,
+  inviteId: string
+): Promise<HouseholdResult<null>> {
+  const { data, error } = await adminClient
+    .from('household_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('owner_id', ownerId)
+    .is('accepted_at', null)
+    .select('id')
+    .maybeSingle();
+  if (error) throw new Error(`Could not revoke household invite: ${error.message}`);
+  if (!data) return { ok: false, status: 404, error: 'Invite not found.' };
+  return { ok: true, value: null };
+}
@@ -13,7 +13,18 @@ export type IcsEventInput = {
   durationMinutes?: number;
   location?: string;
   description?: string;
+  /** Stable UID so calendar clients update or cancel the same entry; random when omitted. */
   uid?: string;
+  url?: string;
+  /** CANCELLED removes the entry from subscribed calendars; TENTATIVE marks waitlist spots. */
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+};
+
+export type IcsCalendarOptions = {
+  /** Calendar name shown by subscribing clients (X-WR-CALNAME). */
+  name: string;
+  /** Suggested refresh interval for subscribed feeds, in hours. */
+  refreshHours?: number;
 };
 
 /** Parse a time string to { h, m } or null. Handles "19:00", "7:30", "7:30pm", "7pm". */
@@ -65,7 +76,7 @@ function escapeIcal(s: string): string {
   return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
 }
 
-export function generateIcs(event: IcsEventInput): string {
+function buildVevent(event: IcsEventInput, stamp: string): string[] {
   const parsed = event.time ? parseTime(event.time) : null;
   const startH = parsed?.h ?? 0;
   const startM = parsed?.m ?? 0;
@@ -86,25 +97,48 @@ export function generateIcs(event: IcsEventInput): string {
 
   const uid = event.uid ?? `${Date.now()}-${Math.random().toString(36).slice(2)}@kandiegang.com`;
 
-  const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Kandie Gang//Event//EN',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
+  return [
     'BEGIN:VEVENT',
     `UID:${uid}`,
-    `DTSTAMP:${dtstamp()}`,
+    `DTSTAMP:${stamp}`,
     dtstart,
     dtend,
     fold(`SUMMARY:${escapeIcal(event.title)}`),
     event.location ? fold(`LOCATION:${escapeIcal(event.location)}`) : '',
     event.description ? fold(`DESCRIPTION:${escapeIcal(event.description)}`) : '',
+    event.url ? fold(`URL:${event.url}`) : '',
+    event.status ? `STATUS:${event.status}` : '',
     'END:VEVENT',
+  ].filter((l) => l !== '');
+}
+
+export function generateIcs(event: IcsEventInput): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Kandie Gang//Event//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...buildVevent(event, dtstamp()),
     'END:VCALENDAR',
-  ]
-    .filter((l) => l !== '')
-    .join('\r\n');
+  ].join('\r\n');
+}
 
-  return lines;
+/** A subscribable calendar (webcal feed) with many events. */
+export function generateIcsCalendar(events: IcsEventInput[], options: IcsCalendarOptions): string {
+  const stamp = dtstamp();
+  const refresh = options.refreshHours ?? 6;
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Kandie Gang//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    fold(`X-WR-CALNAME:${escapeIcal(options.name)}`),
+    'X-WR-TIMEZONE:Europe/Berlin',
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}H`,
+    `X-PUBLISHED-TTL:PT${refresh}H`,
+    ...events.flatMap((event) => buildVevent(event, stamp)),
+    'END:VCALENDAR',
+  ].join('\r\n');
 }
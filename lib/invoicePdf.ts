@@ -0,0 +1,297 @@
+/**
+ * Invoice PDF for a shop invoice (lib/invoices.ts). A small PDF writer of our own: A4 pages set in
+ * the built-in Helvetica fonts, so no font files or PDF library are needed in the function bundle.
+ * Text is WinAnsi-encoded (German umlauts and € print; other characters become "?").
+ *
+ * Server-side only (returns a Node Buffer).
+ */
+import { formatMoney } from './money.js';
+import { INVOICE_SELLER, type ShopInvoice } from './invoices.js';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const FOOTER_Y = 48;
+/** Lowest baseline for table rows before a new page starts. */
+const ROWS_BOTTOM = 150;
+
+type TextOptions = { size?: number; bold?: boolean; align?: 'left' | 'right'; gray?: boolean };
+
+/** Characters outside Latin-1 that WinAnsiEncoding has a slot for. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/** Helvetica advance widths (per 1000 em) for characters that appear in amounts. */
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  '\u00a0': 278,
+  '.': 278,
+  ',': 278,
+  ':': 278,
+  '-': 333,
+  '(': 333,
+  ')': 333,
+  '%': 889,
+  '€': 556,
+  '£': 556,
+  '¥': 556,
+  $: 556,
+  C: 722,
+  H: 722,
+  F: 611,
+  G: 778,
+  I: 278,
+  M: 833,
+  W: 944,
+};
+
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char] != null) out += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) out += char;
+    else out += '?';
+  }
+  return out;
+}
+
+function escapePdfText(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+/** Approximate width in points; exact for digits and currency signs (used to right-align). */
+function textWidth(text: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (const char of text) {
+    const width = CHAR_WIDTHS[char] ?? (/[a-z]/.test(char) ? 520 : 620);
+    units += bold && /[A-Za-z]/.test(char) ? width * 1.06 : width;
+  }
+  return (units * size) / 1000;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(value).replace(/0+$/, '');
+}
+
+function countryName(code: string | null | undefined): string {
+  if (!code) return '';
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code.toUpperCase()) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function formatInvoiceDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Europe/Berlin',
+  });
+}
+
+/** The VAT row label, e.g. "VAT 19%" or "VAT 21% (Austria, OSS)". */
+export function invoiceVatLabel(
+  invoice: Pick<ShopInvoice, 'vatTreatment' | 'vatRate' | 'destinationCountry'>
+): string {
+  if (invoice.vatTreatment === 'export') return 'VAT 0% (export)';
+  const rate = `VAT ${formatNumber(invoice.vatRate)}%`;
+  return invoice.vatTreatment === 'oss'
+    ? `${rate} (${countryName(invoice.destinationCountry)}, OSS)`
+    : rate;
+}
+
+function invoiceNotes(invoice: ShopInvoice): string[] {
+  const notes = ['Prices include VAT. Date of supply is the invoice date. Paid in full by card.'];
+  if (invoice.vatTreatment === 'oss') {
+    notes.push(
+      `VAT of ${countryName(invoice.destinationCountry)} charged under the EU One-Stop-Shop scheme.`
+    );
+  }
+  if (invoice.vatTreatment === 'export') {
+    notes.push('Tax-free export delivery (§ 4 No. 1a, § 6 UStG). Import duties and taxes are');
+    notes.push('charged by the destination country.');
+  }
+  return notes;
+}
+
+function addressLines(invoice: ShopInvoice): string[] {
+  const address = invoice.address ?? {};
+  return [
+    invoice.customerName ?? '',
+    address.line1 ?? '',
+    address.line2 ?? '',
+    [address.postal_code, address.city].filter(Boolean).join(' '),
+    countryName(address.country),
+    invoice.customerEmail ?? '',
+  ].filter((line) => line.trim().length > 0);
+}
+
+/** Content streams, one per page. */
+function layoutInvoice(invoice: ShopInvoice): string[] {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  const text = (x: number, at: number, value: string, options: TextOptions = {}) => {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === 'right' ? x - textWidth(value, size, bold) : x;
+    ops.push(
+      `BT ${options.gray ? '0.4 g' : '0 g'} /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${at.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  };
+  const rule = (at: number) =>
+    ops.push(`0.8 G 0.5 w ${MARGIN} ${at.toFixed(2)} m ${RIGHT} ${at.toFixed(2)} l S`);
+
+  const tableHeader = () => {
+    text(MARGIN, y, 'Description', { bold: true, size: 9 });
+    text(RIGHT - 110, y, 'Qty', { bold: true, size: 9, align: 'right' });
+    text(RIGHT, y, 'Amount', { bold: true, size: 9, align: 'right' });
+    rule(y - 6);
+    y -= 22;
+  };
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+    text(MARGIN, y - 14, INVOICE_SELLER.tradingName, { size: 20, bold: true });
+    text(RIGHT, y - 14, 'Invoice', { size: 20, bold: true, align: 'right' });
+    y -= 34;
+    text(MARGIN, y, [INVOICE_SELLER.legalName, ...INVOICE_SELLER.addressLines].join(' · '), {
+      size: 8,
+      gray: true,
+    });
+    y -= 36;
+  };
+
+  newPage();
+
+  // Buyer on the left, invoice facts on the right.
+  const facts: [string, string][] = [
+    ['Invoice no.', invoice.invoiceNumber],
+    ['Invoice date', formatInvoiceDate(invoice.issuedAt)],
+    ['Currency', invoice.currency.toUpperCase()],
+  ];
+  const blockTop = y;
+  text(MARGIN, y, 'Bill to', { size: 8, bold: true, gray: true });
+  y -= 14;
+  for (const line of addressLines(invoice)) {
+    text(MARGIN, y, truncate(line, 50));
+    y -= 13;
+  }
+  let factsY = blockTop;
+  for (const [label, value] of facts) {
+    text(RIGHT - 120, factsY, label, { size: 9, gray: true, align: 'right' });
+    text(RIGHT, factsY, value, { size: 9, align: 'right' });
+    factsY -= 14;
+  }
+  y = Math.min(y, factsY) - 28;
+
+  tableHeader();
+  for (const line of invoice.lines) {
+    if (y < ROWS_BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    text(MARGIN, y, truncate(line.description, 70));
+    text(RIGHT - 110, y, String(line.quantity), { align: 'right' });
+    text(RIGHT, y, money(line.grossAmount), { align: 'right' });
+    y -= 18;
+  }
+  rule(y + 8);
+  y -= 10;
+
+  if (y < ROWS_BOTTOM - 40) newPage();
+  const totals: [string, string, boolean][] = [
+    ['Net amount', money(invoice.netTotal), false],
+    [invoiceVatLabel(invoice), money(invoice.vatTotal), false],
+    ['Total', money(invoice.grossTotal), true],
+  ];
+  for (const [label, value, bold] of totals) {
+    text(RIGHT - 110, y, label, { align: 'right', bold });
+    text(RIGHT, y, value, { align: 'right', bold });
+    y -= 16;
+  }
+
+  y -= 18;
+  for (const note of invoiceNotes(invoice)) {
+    text(MARGIN, y, note, { size: 8, gray: true });
+    y -= 11;
+  }
+
+  const footer = [
+    `${INVOICE_SELLER.legalName} · Managing director: ${INVOICE_SELLER.managingDirector}`,
+    `${INVOICE_SELLER.register} · VAT ID ${INVOICE_SELLER.vatId} · ${INVOICE_SELLER.email}`,
+  ];
+  pages.forEach((pageOps, index) => {
+    ops = pageOps;
+    text(MARGIN, FOOTER_Y + 11, footer[0], { size: 7, gray: true });
+    text(MARGIN, FOOTER_Y, footer[1], { size: 7, gray: true });
+    text(RIGHT, FOOTER_Y, `Page ${index + 1} of ${pages.length}`, {
+      size: 7,
+      gray: true,
+      align: 'right',
+    });
+  });
+
+  return pages.map((pageOps) => pageOps.join('\n'));
+}
+
+/** The invoice as a PDF document. */
+export function renderInvoicePdf(invoice: ShopInvoice): Buffer {
+  const contents = layoutInvoice(invoice);
+  const objects: string[] = [];
+  const pageRefs: string[] = [];
+  // 1 catalog, 2 pages, 3–4 fonts, 5 info, then a page and its content stream per page.
+  const firstPageObject = 6;
+  contents.forEach((content, index) => {
+    const pageObject = firstPageObject + index * 2;
+    pageRefs.push(`${pageObject} 0 R`);
+    objects[pageObject] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+    objects[pageObject + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${contents.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] =
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapePdfText(`Invoice ${invoice.invoiceNumber}`)}) /Author (${escapePdfText(INVOICE_SELLER.legalName)}) >>`;
+
+  // Every character is a single byte (WinAnsi), so string offsets are byte offsets.
+  let pdf = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
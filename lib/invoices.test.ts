@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { buildInvoiceDraft, type ShopInvoice } from './invoices';
+import { invoiceVatLabel, renderInvoicePdf } from './invoicePdf';
+import type { ShopOrder } from './shopOrders';
+
+const order: ShopOrder = {
+  id: 'order-1',
+  stripeSessionId: 'cs_test_1',
+  userId: null,
+  email: 'rider@example.com',
+  customerName: 'Rider One',
+  items: [
+    { name: 'Kandie Gang Cap', quantity: 1, amountTotal: 3500, currency: 'eur' },
+    { name: 'Shipping (Standard – EU)', quantity: 1, amountTotal: 990, currency: 'eur' },
+  ],
+  amountTotal: 4490,
+  currency: 'eur',
+  shippingOption: 'eu',
+  shippingAddress: {
+    name: 'Rider Österreich',
+    line1: 'Hauptstraße 1',
+    line2: null,
+    postal_code: '1010',
+    city: 'Wien',
+    country: 'AT',
+  },
+  status: 'paid',
+  carrier: null,
+  trackingNumber: null,
+  trackingUrl: null,
+  createdAt: '2026-10-19T10:00:00Z',
+  packedAt: null,
+  shippedAt: null,
+  pickedUpAt: null,
+  returnedAt: null,
+  shippingEmailSentAt: null,
+  invoiceNumber: null,
+  invoiceUrl: null,
+};
+
+describe('buildInvoiceDraft', () => {
+  it("bills EU orders with the destination's VAT", () => {
+    const draft = buildInvoiceDraft(order);
+    expect(draft).toMatchObject({
+      customerName: 'Rider Österreich',
+      destinationCountry: 'AT',
+      vatTreatment: 'oss',
+      vatRate: 20,
+      currency: 'eur',
+      grossTotal: 4490,
+    });
+    expect(draft.netTotal + draft.vatTotal).toBe(4490);
+    expect(draft.lines).toHaveLength(2);
+  });
+
+  it('bills Swiss orders as exports in their currency', () => {
+    const draft = buildInvoiceDraft({
+      ...order,
+      currency: 'CHF',
+      shippingOption: 'ch',
+      shippingAddress: { ...order.shippingAddress, country: 'CH' },
+    });
+    expect(draft).toMatchObject({
+      vatTreatment: 'export',
+      vatRate: 0,
+      vatTotal: 0,
+      currency: 'chf',
+    });
+  });
+});
+
+describe('renderInvoicePdf', () => {
+  const invoice: ShopInvoice = {
+    ...buildInvoiceDraft(order),
+    id: 'invoice-1',
+    orderId: order.id,
+    invoiceNumber: 'KG-2026-00042',
+    issuedAt: '2026-10-19T10:05:00Z',
+    accessToken: 'token',
+  };
+
+  it('labels the VAT row by treatment', () => {
+    expect(invoiceVatLabel(invoice)).toBe('VAT 20% (Austria, OSS)');
+    expect(invoiceVatLabel({ ...invoice, vatTreatment: 'domestic', vatRate: 19 })).toBe('VAT 19%');
+  });
+
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const pdf = renderInvoicePdf(invoice).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(KG-2026-00042)');
+    expect(pdf).toContain('Hauptstraße 1');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = pdf
+      .slice(startxref)
+      .split('\n')
+      .filter((line) => / 00000 n $/.test(line))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('starts a new page for long orders', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => ({
+      description: `Item ${i + 1}`,
+      quantity: 1,
+      grossAmount: 100,
+      netAmount: 83,
+      vatAmount: 17,
+    }));
+    const pdf = renderInvoicePdf({ ...invoice, lines }).toString('latin1');
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Page 2 of 2)');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Invoices for shop orders (`shop_invoices`, see the `create_shop_invoices` migration).
+ *
+ * The Stripe webhook issues an invoice right after recording a paid shop order: the order's lines
+ * split into net and VAT (lib/vat.ts) for its destination, numbered gaplessly per year
+ * (KG-2026-00001). The PDF (lib/invoicePdf.ts) is rendered on request from the stored row at
+ * `GET /api/stripe-checkout?view=invoice&number=…&token=…`; the link goes out in the order
+ * confirmation email and is shown in the members area and the Shop Orders dashboard.
+ *
+ * Server-side only (Supabase service role), apart from `buildInvoiceDraft`.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { shopInvoicePath, type ShopOrder } from './shopOrders.js';
+import { orderVat, vatBreakdown, type VatLine, type VatTreatment } from './vat.js';
+
+/** Our details as printed on every invoice (see the imprint). */
+export const INVOICE_SELLER = {
+  tradingName: 'Kandie Gang',
+  legalName: 'Kandie Kollektiv UG (haftungsbeschränkt)',
+  addressLines: ['Bindestraße 24', '20146 Hamburg', 'Germany'],
+  email: 'hallo@kandiegang.com',
+  vatId: 'DE358341015',
+  register: 'Amtsgericht Hamburg, HRB 169684',
+  managingDirector: 'Jeremy Tai Abbett',
+} as const;
+
+export type InvoiceDraft = {
+  customerName: string | null;
+  customerEmail: string | null;
+  address: Record<string, string | null> | null;
+  destinationCountry: string;
+  vatTreatment: VatTreatment;
+  vatRate: number;
+  currency: string;
+  lines: VatLine[];
+  netTotal: number;
+  vatTotal: number;
+  grossTotal: number;
+};
+
+export type ShopInvoice = InvoiceDraft & {
+  id: string;
+  orderId: string;
+  invoiceNumber: string;
+  issuedAt: string;
+  accessToken: string;
+};
+
+type ShopInvoiceRow = {
+  id: string;
+  order_id: string;
+  invoice_number: string;
+  issued_at: string;
+  access_token: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  address: Record<string, string | null> | null;
+  destination_country: string | null;
+  vat_treatment: VatTreatment;
+  vat_rate: number | string;
+  currency: string;
+  lines: VatLine[] | null;
+  net_total: number;
+  vat_total: number;
+  gross_total: number;
+};
+
+function toShopInvoice(row: ShopInvoiceRow): ShopInvoice {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    invoiceNumber: row.invoice_number,
+    issuedAt: row.issued_at,
+    accessToken: row.access_token,
+    customerName: row.customer_name,
+    customerEmail: row.customer_email,
+    address: row.address,
+    destinationCountry: row.destination_country ?? '',
+    vatTreatment: row.vat_treatment,
+    vatRate: Number(row.vat_rate),
+    currency: row.currency,
+    lines: Array.isArray(row.lines) ? row.lines : [],
+    netTotal: row.net_total,
+    vatTotal: row.vat_total,
+    grossTotal: row.gross_total,
+  };
+}
+
+/** What the invoice for `order` says, before it gets a number. */
+export function buildInvoiceDraft(order: ShopOrder): InvoiceDraft {
+  const vat = orderVat(order.shippingOption, order.shippingAddress?.country);
+  const breakdown = vatBreakdown(
+    order.items.map((item) => ({
+      description: item.name,
+      quantity: item.quantity,
+      grossAmount: item.amountTotal ?? 0,
+    })),
+    vat.rate
+  );
+  return {
+    customerName: order.shippingAddress?.name || order.customerName,
+    customerEmail: order.email,
+    address: order.shippingAddress,
+    destinationCountry: vat.country,
+    vatTreatment: vat.treatment,
+    vatRate: vat.rate,
+    currency: (order.currency ?? 'eur').toLowerCase(),
+    ...breakdown,
+  };
+}
+
+/** Issue the invoice for a recorded order; returns the existing one on webhook retries. */
+export async function issueShopInvoice(
+  adminClient: SupabaseClient<any>,
+  order: ShopOrder
+): Promise<ShopInvoice> {
+  const draft = buildInvoiceDraft(order);
+  const { data, error } = await adminClient.rpc('create_shop_invoice', {
+    p_order_id: order.id,
+    p_invoice: {
+      access_token: crypto.randomBytes(24).toString('base64url'),
+      customer_name: draft.customerName,
+      customer_email: draft.customerEmail,
+      address: draft.address,
+      destination_country: draft.destinationCountry,
+      vat_treatment: draft.vatTreatment,
+      vat_rate: draft.vatRate,
+      currency: draft.currency,
+      lines: draft.lines,
+      net_total: draft.netTotal,
+      vat_total: draft.vatTotal,
+      gross_total: draft.grossTotal,
+    },
+  });
+  if (error || !data) {
+    throw new Error(`Could not issue invoice: ${error?.message ?? 'no invoice returned'}`);
+  }
+  return toShopInvoice(data as ShopInvoiceRow);
+}
+
+/** The invoice a download link points to; null when number and token do not match. */
+export async function getShopInvoice(
+  adminClient: SupabaseClient<any>,
+  invoiceNumber: string,
+  accessToken: string
+): Promise<ShopInvoice | null> {
+  if (!invoiceNumber || !accessToken) return null;
+  const { data, error } = await adminClient
+    .from('shop_invoices')
+    .select('*')
+    .eq('invoice_number', invoiceNumber)
+    .eq('access_token', accessToken)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load invoice: ${error.message}`);
+  return data ? toShopInvoice(data as ShopInvoiceRow) : null;
+}
+
+/** Absolute download link, for emails. */
+export function shopInvoiceUrl(siteUrl: string, invoice: ShopInvoice): string {
+  return `${siteUrl}${shopInvoicePath(invoice.invoiceNumber, invoice.accessToken)}`;
+}
@@ -1,14 +1,21 @@
 /**
- * Welcome email for new Kandie Gang Cycling Club members.
- * Used by the Stripe webhook after granting membership.
+ * Welcome email for new Kandie Gang Cycling Club members, the gift membership email sent to the
+ * recipient of a gifted membership, the renewal reminder / failed payment emails sent by the
+ * daily membership cron, and household invites (all in the same branded layout).
+ * Used by the Stripe webhook after granting membership or issuing a gift.
  * HTML matches the design system preview in DesignSystemWIP.tsx.
  */
 
 import { Resend } from 'resend';
+import { HOUSEHOLD_INVITE_DAYS } from './households.js';
 
 const RESEND_API_KEY = process.env.RESEND_API_KEY;
 const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <jeremy@kandiegang.com>';
 
+const BASE_URL =
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://kandiegang.com');
+
 const CLUB_PLAN_NAME = 'Kandie Gang Cycling Club Membership';
 
 export interface WelcomeEmailParams {
@@ -17,7 +24,79 @@ export interface WelcomeEmailParams {
   membershipExpiration: string; // YYYY-MM-DD
 }
 
-function buildWelcomeHtml(_params: WelcomeEmailParams): string {
+export interface GiftMembershipEmailParams {
+  to: string;
+  code: string;
+  /** Personal message from the buyer, shown as typed. */
+  message?: string | null;
+  /** Who the gift is from (buyer's name or email); omitted when unknown. */
+  from?: string | null;
+}
+
+export interface RenewalReminderEmailParams {
+  to: string;
+  membershipExpiration: string; // YYYY-MM-DD
+  /** Whole days until the membership ends (0 = ends today). */
+  daysLeft: number;
+}
+
+export interface PaymentFailedEmailParams {
+  to: string;
+  /** Position in the dunning sequence, from 0. */
+  step: number;
+  /** Last email of the sequence: says the membership is about to end. */
+  isFinal: boolean;
+}
+
+export interface HouseholdInviteEmailParams {
+  to: string;
+  /** One-time invite token for the accept link. */
+  token: string;
+  /** Household owner's name or email; omitted when unknown. */
+  ownerName?: string | null;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function giftRedeemUrl(code: string): string {
+  return `${BASE_URL}/members?gift=${encodeURIComponent(code)}`;
+}
+
+const RENEW_URL = `${BASE_URL}/shop/kandie-gang-cycling-club-membership`;
+
+/** Opens the Stripe customer portal (settings page calls the `portal` checkout action). */
+const BILLING_PORTAL_URL = `${BASE_URL}/members/settings?billing=portal`;
+
+function householdAcceptUrl(token: string): string {
+  return `${BASE_URL}/members/settings?household=${encodeURIComponent(token)}`;
+}
+
+function formatLongDate(ymd: string): string {
+  return new Date(`${ymd}T12:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/** Content of a club email; the branded header, card, button and footer are shared. */
+interface MemberEmailContent {
+  heading: string;
+  /** `<tr>` rows of the card body, between heading and button. */
+  bodyRows: string;
+  ctaHref: string;
+  ctaLabel: string;
+}
+
+function buildMemberEmailHtml(content: MemberEmailContent): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -68,7 +147,7 @@ function buildWelcomeHtml(_params: WelcomeEmailParams): string {
                     <tr>
                       <td align="center" style="padding: 0 40px 20px; background: #fffffe;">
                         <h2 style="font-family: 'IvyOra Disp Lt', RoobertPRO, Helvetica, Arial, sans-serif; font-size: 32px; line-height: 40px; font-weight: 300; margin: 0; color: #1c1c1e;">
-                          Welcome to the Kandie Gang Cycling Club
+                          ${content.heading}
                         </h2>
                       </td>
                     </tr>
@@ -77,35 +156,7 @@ function buildWelcomeHtml(_params: WelcomeEmailParams): string {
                 <!-- Body -->
                 <table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width: 600px; margin: 0 auto; border-collapse: collapse;">
                   <tbody>
-                    <tr>
-                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
-                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
-                          We are pleased to welcome you to the Kandie Gang Cycling Club and will do everything in our power to make it an exciting year.
-                        </p>
-                        <br>
-                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
-                          If you have any questions, concerns or feedback, don't hesitate to contact us. We hope you enjoy your rides this year and look forward to your experience as a member of the club.
-                        </p>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="center" style="padding: 0 0 16px; background: #fafafc;">
-                        <a href="https://www.kandiegang.com/members?kandiegangcyclingclub-welcome" target="_blank" rel="noopener noreferrer">
-                          <img src="https://leckerbisschen.s3.eu-central-1.amazonaws.com/wp-content/uploads/2026/02/18200520/kandegangcyclingclub_members.jpg" alt="Kandie Gang Members" style="display: block; width: 100%; max-width: 602px; margin: 0 auto;">
-                        </a>
-                      </td>
-                    </tr>
-                    <tr>
-                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
-                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
-                          Parallel to supporting our mission, you have access to exclusive <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://www.kandiegang.com/community?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">member benefits</a>, including early access to events, special discounts on <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://www.kandiegang.com/shop?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">products</a>, and the opportunity to <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://discord.gg/zddt89Q4hm?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">connect on Discord</a> and in real-life with fellow cycling enthusiasts in our community.
-                        </p>
-                        <br>
-                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
-                          If you have any questions, concerns or feedback, don't hesitate to contact us. We hope you enjoy your rides this year and look forward to your experience as a member of the club.
-                        </p>
-                      </td>
-                    </tr>
+${content.bodyRows}
                   </tbody>
                 </table>
                 <!-- CTA -->
@@ -117,8 +168,8 @@ function buildWelcomeHtml(_params: WelcomeEmailParams): string {
                           <tbody>
                             <tr>
                               <td align="center">
-                                <a href="https://kandiegang.com/members?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer" style="display: inline-block; font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #fffefe; background-color: rgb(72, 81, 151); text-decoration: none; padding: 11px 24px 13px; border-radius: 9999px; text-align: center; font-weight: bold;">
-                                  Visit the Members Area
+                                <a href="${content.ctaHref}" target="_blank" rel="noopener noreferrer" style="display: inline-block; font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #fffefe; background-color: rgb(72, 81, 151); text-decoration: none; padding: 11px 24px 13px; border-radius: 9999px; text-align: center; font-weight: bold;">
+                                  ${content.ctaLabel}
                                 </a>
                               </td>
                             </tr>
@@ -175,6 +226,210 @@ function buildWelcomeHtml(_params: WelcomeEmailParams): string {
 </html>`;
 }
 
+function buildWelcomeHtml(_params: WelcomeEmailParams): string {
+  return buildMemberEmailHtml({
+    heading: 'Welcome to the Kandie Gang Cycling Club',
+    bodyRows: `                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
+                          We are pleased to welcome you to the Kandie Gang Cycling Club and will do everything in our power to make it an exciting year.
+                        </p>
+                        <br>
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
+                          If you have any questions, concerns or feedback, don't hesitate to contact us. We hope you enjoy your rides this year and look forward to your experience as a member of the club.
+                        </p>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td align="center" style="padding: 0 0 16px; background: #fafafc;">
+                        <a href="https://www.kandiegang.com/members?kandiegangcyclingclub-welcome" target="_blank" rel="noopener noreferrer">
+                          <img src="https://leckerbisschen.s3.eu-central-1.amazonaws.com/wp-content/uploads/2026/02/18200520/kandegangcyclingclub_members.jpg" alt="Kandie Gang Members" style="display: block; width: 100%; max-width: 602px; margin: 0 auto;">
+                        </a>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
+                          Parallel to supporting our mission, you have access to exclusive <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://www.kandiegang.com/community?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">member benefits</a>, including early access to events, special discounts on <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://www.kandiegang.com/shop?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">products</a>, and the opportunity to <a style="font-weight: bold; text-decoration: none; color: rgb(72, 81, 151);" href="https://discord.gg/zddt89Q4hm?kandiegangcyclingclub-welcomeemail" target="_blank" rel="noopener noreferrer">connect on Discord</a> and in real-life with fellow cycling enthusiasts in our community.
+                        </p>
+                        <br>
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">
+                          If you have any questions, concerns or feedback, don't hesitate to contact us. We hope you enjoy your rides this year and look forward to your experience as a member of the club.
+                        </p>
+                      </td>
+                    </tr>`,
+    ctaHref: 'https://kandiegang.com/members?kandiegangcyclingclub-welcomeemail',
+    ctaLabel: 'Visit the Members Area',
+  });
+}
+
+function buildGiftHtml(params: GiftMembershipEmailParams): string {
+  const paragraph = (html: string) =>
+    `<p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">${html}</p>`;
+  const intro = params.from
+    ? `${escapeHtml(params.from)} has given you a year in the Kandie Gang Cycling Club.`
+    : 'Someone has given you a year in the Kandie Gang Cycling Club.';
+  const message = params.message?.trim()
+    ? `
+                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0; padding-left: 16px; border-left: 3px solid rgb(72, 81, 151); font-style: italic; white-space: pre-line;">${escapeHtml(params.message.trim())}</p>
+                      </td>
+                    </tr>`
+    : '';
+  return buildMemberEmailHtml({
+    heading: 'A Kandie Gang membership for you',
+    bodyRows: `
+                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        ${paragraph(intro)}
+                      </td>
+                    </tr>${message}
+                    <tr>
+                      <td align="center" style="padding: 0 40px 24px; background: #fffffe;">
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 20px; color: #1c1c1e; margin: 0 0 8px;">Your gift code</p>
+                        <p style="font-family: 'Courier New', Courier, monospace; font-size: 24px; line-height: 32px; font-weight: bold; letter-spacing: 2px; color: rgb(72, 81, 151); margin: 0;">${escapeHtml(params.code)}</p>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        ${paragraph('Log in or create your Kandie Gang account with this email address, then redeem the code in the members area. Your membership starts the day you redeem it and includes early access to events, member prices in the shop and the club on Discord.')}
+                      </td>
+                    </tr>`,
+    ctaHref: giftRedeemUrl(params.code),
+    ctaLabel: 'Redeem your membership',
+  });
+}
+
+function buildGiftText(params: GiftMembershipEmailParams): string {
+  return [
+    'A Kandie Gang membership for you',
+    '',
+    params.from
+      ? `${params.from} has given you a year in the Kandie Gang Cycling Club.`
+      : 'Someone has given you a year in the Kandie Gang Cycling Club.',
+    ...(params.message?.trim() ? ['', params.message.trim()] : []),
+    '',
+    `Your gift code: ${params.code}`,
+    '',
+    `Redeem it in the members area: ${giftRedeemUrl(params.code)}`,
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+function renewalSubject(daysLeft: number): string {
+  if (daysLeft <= 0) return 'Your Kandie Gang membership ends today';
+  if (daysLeft === 1) return 'Your Kandie Gang membership ends tomorrow';
+  return `Your Kandie Gang membership ends in ${daysLeft} days`;
+}
+
+function emailParagraphRow(html: string): string {
+  return `
+                    <tr>
+                      <td align="left" style="padding: 0 40px 24px; background: #fffffe;">
+                        <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0;">${html}</p>
+                      </td>
+                    </tr>`;
+}
+
+function buildRenewalHtml(params: RenewalReminderEmailParams): string {
+  return buildMemberEmailHtml({
+    heading: 'Time to renew your membership',
+    bodyRows: [
+      emailParagraphRow(
+        `Your Kandie Gang Cycling Club membership runs until <strong>${escapeHtml(formatLongDate(params.membershipExpiration))}</strong>.`
+      ),
+      emailParagraphRow(
+        'Renew now to keep early access to events, member prices in the shop and the club on Discord. Your new year starts when the current one ends, so renewing early costs you nothing.'
+      ),
+    ].join(''),
+    ctaHref: RENEW_URL,
+    ctaLabel: 'Renew your membership',
+  });
+}
+
+function buildRenewalText(params: RenewalReminderEmailParams): string {
+  return [
+    'Time to renew your membership',
+    '',
+    `Your Kandie Gang Cycling Club membership runs until ${formatLongDate(params.membershipExpiration)}.`,
+    '',
+    'Renew now to keep early access to events, member prices in the shop and the club on Discord. Your new year starts when the current one ends, so renewing early costs you nothing.',
+    '',
+    `Renew your membership: ${RENEW_URL}`,
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+function paymentFailedLines(params: PaymentFailedEmailParams): string[] {
+  const intro =
+    params.step === 0
+      ? 'We could not collect the payment for your Kandie Gang Cycling Club membership.'
+      : 'The payment for your Kandie Gang Cycling Club membership is still outstanding.';
+  const outcome = params.isFinal
+    ? 'This is our last reminder: if the payment keeps failing, your membership ends and with it early access to events and member prices.'
+    : 'Stripe will retry the payment automatically. Please check your card or update your payment method so your membership continues without interruption.';
+  return [intro, outcome];
+}
+
+function buildPaymentFailedHtml(params: PaymentFailedEmailParams): string {
+  return buildMemberEmailHtml({
+    heading: 'Your membership payment failed',
+    bodyRows: paymentFailedLines(params)
+      .map((line) => emailParagraphRow(escapeHtml(line)))
+      .join(''),
+    ctaHref: BILLING_PORTAL_URL,
+    ctaLabel: 'Update payment method',
+  });
+}
+
+function buildPaymentFailedText(params: PaymentFailedEmailParams): string {
+  return [
+    'Your membership payment failed',
+    '',
+    ...paymentFailedLines(params).flatMap((line) => [line, '']),
+    `Update your payment method: ${BILLING_PORTAL_URL}`,
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+function householdInviteIntro(params: HouseholdInviteEmailParams): string {
+  return params.ownerName
+    ? `${params.ownerName} has invited you to share their household membership of the Kandie Gang Cycling Club.`
+    : 'You have been invited to share a household membership of the Kandie Gang Cycling Club.';
+}
+
+const HOUSEHOLD_INVITE_DETAILS = `Log in or create your Kandie Gang account, then accept the invite. You get the same member benefits for as long as the household membership runs. The invite link is valid for ${HOUSEHOLD_INVITE_DAYS} days.`;
+
+function buildHouseholdInviteHtml(params: HouseholdInviteEmailParams): string {
+  return buildMemberEmailHtml({
+    heading: 'Join a Kandie Gang household',
+    bodyRows: [
+      emailParagraphRow(escapeHtml(householdInviteIntro(params))),
+      emailParagraphRow(HOUSEHOLD_INVITE_DETAILS),
+    ].join(''),
+    ctaHref: householdAcceptUrl(params.token),
+    ctaLabel: 'Accept the invite',
+  });
+}
+
+function buildHouseholdInviteText(params: HouseholdInviteEmailParams): string {
+  return [
+    'Join a Kandie Gang household',
+    '',
+    householdInviteIntro(params),
+    '',
+    HOUSEHOLD_INVITE_DETAILS,
+    '',
+    `Accept the invite: ${householdAcceptUrl(params.token)}`,
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
 function buildWelcomeText(_params: WelcomeEmailParams): string {
   return [
     'Welcome to the Kandie Gang Cycling Club',
@@ -187,8 +442,9 @@ function buildWelcomeText(_params: WelcomeEmailParams): string {
   ].join('\n');
 }
 
-export async function sendMemberWelcomeEmail(
-  params: WelcomeEmailParams
+async function sendClubEmail(
+  email: { to: string; subject: string; html: string; text: string },
+  label: string
 ): Promise<{ success: boolean; error?: string }> {
   if (!RESEND_API_KEY) {
     return { success: false, error: 'RESEND_API_KEY is not set' };
@@ -197,24 +453,90 @@ export async function sendMemberWelcomeEmail(
   const resend = new Resend(RESEND_API_KEY);
 
   try {
-    const { error } = await resend.emails.send({
-      from: FROM_EMAIL,
-      to: params.to,
-      subject: 'Welcome to the Kandie Gang Cycling Club',
-      html: buildWelcomeHtml(params),
-      text: buildWelcomeText(params),
-    });
+    const { error } = await resend.emails.send({ from: FROM_EMAIL, ...email });
 
     if (error) {
-      console.error('[memberWelcomeEmail] Resend error:', error);
+      console.error(`[memberWelcomeEmail] ${label} Resend error:`, error);
       return { success: false, error: error.message };
     }
     return { success: true };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error('[memberWelcomeEmail] Send failed:', message);
+    console.error(`[memberWelcomeEmail] ${label} send failed:`, message);
     return { success: false, error: message };
   }
 }
 
+export async function sendMemberWelcomeEmail(
+  params: WelcomeEmailParams
+): Promise<{ success: boolean; error?: string }> {
+  return sendClubEmail(
+    {
+      to: params.to,
+      subject: 'Welcome to the Kandie Gang Cycling Club',
+      html: buildWelcomeHtml(params),
+      text: buildWelcomeText(params),
+    },
+    'Welcome email'
+  );
+}
+
+export async function sendGiftMembershipEmail(
+  params: GiftMembershipEmailParams
+): Promise<{ success: boolean; error?: string }> {
+  return sendClubEmail(
+    {
+      to: params.to,
+      subject: 'A Kandie Gang Cycling Club membership for you',
+      html: buildGiftHtml(params),
+      text: buildGiftText(params),
+    },
+    'Gift email'
+  );
+}
+
+export async function sendRenewalReminderEmail(
+  params: RenewalReminderEmailParams
+): Promise<{ success: boolean; error?: string }> {
+  return sendClubEmail(
+    {
+      to: params.to,
+      subject: renewalSubject(params.daysLeft),
+      html: buildRenewalHtml(params),
+      text: buildRenewalText(params),
+    },
+    'Renewal reminder'
+  );
+}
+
+export async function sendPaymentFailedEmail(
+  params: PaymentFailedEmailParams
+): Promise<{ success: boolean; error?: string }> {
+  return sendClubEmail(
+    {
+      to: params.to,
+      subject: params.isFinal
+        ? 'Last reminder: your Kandie Gang membership payment failed'
+        : 'Your Kandie Gang membership payment failed',
+      html: buildPaymentFailedHtml(params),
+      text: buildPaymentFailedText(params),
+    },
+    'Payment failed email'
+  );
+}
+
+export async function sendHouseholdInviteEmail(
+  params: HouseholdInviteEmailParams
+): Promise<{ success: boolean; error?: string }> {
+  return sendClubEmail(
+    {
+      to: params.to,
+      subject: 'You are invited to a Kandie Gang household membership',
+      html: buildHouseholdInviteHtml(params),
+      text: buildHouseholdInviteText(params),
+    },
+    'Household invite'
+  );
+}
+
 export { CLUB_PLAN_NAME };
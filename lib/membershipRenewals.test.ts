@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { dueDunningEmail, dueRenewalReminder, parseDayOffsets } from './membershipRenewals';
+
+describe('parseDayOffsets', () => {
+  it('reads whole days, largest first, and falls back when nothing is usable', () => {
+    expect(parseDayOffsets('1, 30,7,7', [14])).toEqual([30, 7, 1]);
+    expect(parseDayOffsets('soon,-3', [14])).toEqual([14]);
+    expect(parseDayOffsets(undefined, [30, 7, 1])).toEqual([30, 7, 1]);
+  });
+});
+
+describe('dueRenewalReminder', () => {
+  const member = { is_member: true, membership_expiration: '2027-03-01' };
+  const days = [30, 7, 1];
+
+  it('sends the reminder of the window the member is in', () => {
+    expect(dueRenewalReminder(member, '2027-01-30', days)).toEqual({
+      key: 'renewal:2027-03-01:30',
+      daysLeft: 30,
+    });
+    expect(dueRenewalReminder(member, '2027-02-25', days)).toEqual({
+      key: 'renewal:2027-03-01:7',
+      daysLeft: 4,
+    });
+    expect(dueRenewalReminder(member, '2027-03-01', days)?.key).toBe('renewal:2027-03-01:1');
+  });
+
+  it('skips reminders already sent and windows not reached yet', () => {
+    const reminded = { ...member, membership_emails_sent: { 'renewal:2027-03-01:7': 'x' } };
+    expect(dueRenewalReminder(reminded, '2027-02-25', days)).toBeNull();
+    expect(dueRenewalReminder(member, '2027-01-29', days)).toBeNull();
+    expect(dueRenewalReminder(member, '2027-03-02', days)).toBeNull();
+  });
+
+  it('leaves running subscriptions and non-members alone', () => {
+    const subscriber = {
+      ...member,
+      stripe_subscription_id: 'sub_1',
+      stripe_subscription_status: 'active',
+    };
+    expect(dueRenewalReminder(subscriber, '2027-02-25', days)).toBeNull();
+    expect(
+      dueRenewalReminder(
+        { ...subscriber, stripe_subscription_status: 'canceled' },
+        '2027-02-25',
+        days
+      )?.key
+    ).toBe('renewal:2027-03-01:7');
+    expect(dueRenewalReminder({ ...member, is_member: false }, '2027-02-25', days)).toBeNull();
+  });
+});
+
+describe('dueDunningEmail', () => {
+  const failed = {
+    stripe_subscription_status: 'past_due',
+    stripe_payment_failed_at: '2027-02-01T10:00:00Z',
+    stripe_failed_invoice_id: 'in_1',
+  };
+  const days = [0, 3, 7];
+
+  it('sends the latest step that is due', () => {
+    expect(dueDunningEmail(failed, new Date('2027-02-01T10:05:00Z'), days)).toEqual({
+      key: 'dunning:in_1:0',
+      step: 0,
+      isFinal: false,
+    });
+    expect(dueDunningEmail(failed, new Date('2027-02-09T08:00:00Z'), days)).toEqual({
+      key: 'dunning:in_1:2',
+      step: 2,
+      isFinal: true,
+    });
+  });
+
+  it('never repeats a step and stops once the payment went through', () => {
+    const emailed = { ...failed, membership_emails_sent: { 'dunning:in_1:1': 'x' } };
+    expect(dueDunningEmail(emailed, new Date('2027-02-05T10:00:00Z'), days)).toBeNull();
+    expect(
+      dueDunningEmail(
+        { ...failed, stripe_subscription_status: 'active' },
+        new Date('2027-02-05T10:00:00Z'),
+        days
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Membership renewal reminders and the failed-payment (dunning) sequence, sent once a day by the
+ * `api/send-reminders?job=membership` cron.
+ *
+ * - Renewal reminders go to members without a running Stripe subscription (one-off, gifted or
+ *   WordPress memberships) `MEMBERSHIP_RENEWAL_REMINDER_DAYS` days before `membership_expiration`.
+ * - Dunning emails go to subscribers whose invoice failed (`stripe_payment_failed_at`, set by the
+ *   Stripe webhook on `invoice.payment_failed`) `MEMBERSHIP_DUNNING_DAYS` days after the failure,
+ *   with a link to the Stripe customer portal. A paid invoice ends the sequence.
+ *
+ * Every email sent is recorded in `profiles.membership_emails_sent` under a send key, so reruns and
+ * late cron runs never send the same email twice. Server-side only (Supabase service role + Resend).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendPaymentFailedEmail, sendRenewalReminderEmail } from './memberWelcomeEmail.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RENEWAL_REMINDER_DAYS = [30, 7, 1];
+const DEFAULT_DUNNING_DAYS = [0, 3, 7];
+
+/** Subscriptions that renew by themselves or are already in Stripe's own retry flow. */
+const LIVE_SUBSCRIPTION_STATUSES = new Set(['active', 'trialing', 'past_due', 'unpaid']);
+/** Subscriptions whose failed invoice is still being retried. */
+const DUNNING_STATUSES = new Set(['past_due', 'unpaid']);
+
+export type MembershipEmailsSent = Record<string, string>;
+
+export type RenewalCandidate = {
+  is_member?: boolean | null;
+  membership_expiration?: string | null;
+  stripe_subscription_id?: string | null;
+  stripe_subscription_status?: string | null;
+  membership_emails_sent?: MembershipEmailsSent | null;
+};
+
+export type DunningCandidate = {
+  stripe_subscription_status?: string | null;
+  stripe_payment_failed_at?: string | null;
+  stripe_failed_invoice_id?: string | null;
+  membership_emails_sent?: MembershipEmailsSent | null;
+};
+
+export type DueRenewalReminder = { key: string; daysLeft: number };
+export type DueDunningEmail = { key: string; step: number; isFinal: boolean };
+
+export type MembershipEmailRunResult = {
+  renewalsSent: number;
+  dunningSent: number;
+  failed: number;
+};
+
+/**
+ * Whole days from a comma-separated env value ("30,7,1"), largest first. Falls back to the default
+ * when unset or when nothing in it is a valid number.
+ */
+export function parseDayOffsets(value: string | null | undefined, fallback: number[]): number[] {
+  const days = String(value ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => Number.isInteger(n) && n >= 0);
+  return [...new Set(days.length > 0 ? days : fallback)].sort((a, b) => b - a);
+}
+
+export function getRenewalReminderDays(): number[] {
+  return parseDayOffsets(
+    process.env.MEMBERSHIP_RENEWAL_REMINDER_DAYS,
+    DEFAULT_RENEWAL_REMINDER_DAYS
+  );
+}
+
+export function getDunningDays(): number[] {
+  return parseDayOffsets(process.env.MEMBERSHIP_DUNNING_DAYS, DEFAULT_DUNNING_DAYS);
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round(
+    (new Date(`${toYmd}T00:00:00Z`).getTime() - new Date(`${fromYmd}T00:00:00Z`).getTime()) / DAY_MS
+  );
+}
+
+/**
+ * The renewal reminder due on `today`, if any. Each offset covers the days down to the next one,
+ * so a member who joins (or a cron run that catches up) inside a window gets that window's
+ * reminder once, never all earlier ones at the same time.
+ */
+export function dueRenewalReminder(
+  profile: RenewalCandidate,
+  today: string,
+  reminderDays: number[]
+): DueRenewalReminder | null {
+  if (profile.is_member !== true) return null;
+  const expiration = profile.membership_expiration?.trim();
+  if (!expiration || !/^\d{4}-\d{2}-\d{2}$/.test(expiration)) return null;
+  const status = profile.stripe_subscription_status?.trim().toLowerCase();
+  if (profile.stripe_subscription_id && status && LIVE_SUBSCRIPTION_STATUSES.has(status)) {
+    return null;
+  }
+
+  const daysLeft = daysBetween(today, expiration);
+  if (daysLeft < 0) return null;
+  const offset = [...reminderDays].sort((a, b) => a - b).find((days) => days >= daysLeft);
+  if (offset === undefined) return null;
+
+  const key = `renewal:${expiration}:${offset}`;
+  if (profile.membership_emails_sent?.[key]) return null;
+  return { key, daysLeft };
+}
+
+/**
+ * The dunning email due at `now`, if any: the latest step whose delay since the failure has
+ * passed. Steps missed by the cron are skipped rather than sent in a burst.
+ */
+export function dueDunningEmail(
+  profile: DunningCandidate,
+  now: Date,
+  dunningDays: number[]
+): DueDunningEmail | null {
+  const status = profile.stripe_subscription_status?.trim().toLowerCase();
+  if (!status || !DUNNING_STATUSES.has(status)) return null;
+  if (!profile.stripe_payment_failed_at || !profile.stripe_failed_invoice_id) return null;
+  const failedAt = new Date(profile.stripe_payment_failed_at);
+  if (Number.isNaN(failedAt.getTime())) return null;
+
+  const steps = [...dunningDays].sort((a, b) => a - b);
+  const daysSinceFailure = (now.getTime() - failedAt.getTime()) / DAY_MS;
+  let step = -1;
+  steps.forEach((days, index) => {
+    if (days <= daysSinceFailure) step = index;
+  });
+  if (step < 0) return null;
+
+  const key = `dunning:${profile.stripe_failed_invoice_id}:${step}`;
+  if (profile.membership_emails_sent?.[key]) return null;
+  return { key, step, isFinal: step === steps.length - 1 };
+}
+
+type ProfileRow = RenewalCandidate &
+  DunningCandidate & {
+    id: string;
+    email: string | null;
+  };
+
+/**
+ * Record `key` before sending: a failed database write skips the email instead of risking a
+ * duplicate. A failed send removes the key again so the next run retries.
+ */
+async function sendOnce(
+  adminClient: SupabaseClient<any>,
+  profile: ProfileRow,
+  key: string,
+  send: () => Promise<{ success: boolean; error?: string }>
+): Promise<boolean> {
+  const sent = profile.membership_emails_sent ?? {};
+  const { error } = await adminClient
+    .from('profiles')
+    .update({ membership_emails_sent: { ...sent, [key]: new Date().toISOString() } })
+    .eq('id', profile.id);
+  if (error) {
+    console.error(`[membershipRenewals] Could not record ${key} for ${profile.id}:`, error);
+    return false;
+  }
+
+  const result = await send();
+  if (result.success) return true;
+  console.warn(`[membershipRenewals] ${key} for ${profile.id} not sent:`, result.error);
+  await adminClient.from('profiles').update({ membership_emails_sent: sent }).eq('id', profile.id);
+  return false;
+}
+
+/** Send every renewal reminder and dunning email due today. */
+export async function sendMembershipEmails(
+  adminClient: SupabaseClient<any>,
+  now: Date = new Date()
+): Promise<MembershipEmailRunResult> {
+  const today = now.toISOString().slice(0, 10);
+  const reminderDays = getRenewalReminderDays();
+  const dunningDays = getDunningDays();
+  const result: MembershipEmailRunResult = { renewalsSent: 0, dunningSent: 0, failed: 0 };
+  const columns =
+    'id, email, is_member, membership_expiration, stripe_subscription_id, stripe_subscription_status, stripe_payment_failed_at, stripe_failed_invoice_id, membership_emails_sent';
+
+  const lastReminderDate = new Date(now.getTime() + (reminderDays[0] ?? 0) * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+  const { data: renewals, error: renewalError } = await adminClient
+    .from('profiles')
+    .select(columns)
+    .eq('is_member', true)
+    .gte('membership_expiration', today)
+    .lte('membership_expiration', lastReminderDate);
+  if (renewalError) throw new Error(`Could not load renewals: ${renewalError.message}`);
+
+  for (const profile of (renewals ?? []) as ProfileRow[]) {
+    const due = dueRenewalReminder(profile, today, reminderDays);
+    if (!due || !profile.email || !profile.membership_expiration) continue;
+    const sent = await sendOnce(adminClient, profile, due.key, () =>
+      sendRenewalReminderEmail({
+        to: profile.email!,
+        membershipExpiration: profile.membership_expiration!,
+        daysLeft: due.daysLeft,
+      })
+    );
+    if (sent) result.renewalsSent++;
+    else result.failed++;
+  }
+
+  const { data: dunning, error: dunningError } = await adminClient
+    .from('profiles')
+    .select(columns)
+    .not('stripe_payment_failed_at', 'is', null);
+  if (dunningError) throw new Error(`Could not load failed payments: ${dunningError.message}`);
+
+  for (const profile of (dunning ?? []) as ProfileRow[]) {
+    const due = dueDunningEmail(profile, now, dunningDays);
+    if (!due || !profile.email) continue;
+    const sent = await sendOnce(adminClient, profile, due.key, () =>
+      sendPaymentFailedEmail({ to: profile.email!, step: due.step, isFinal: due.isFinal })
+    );
+    if (sent) result.dunningSent++;
+    else result.failed++;
+  }
+
+  return result;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MEMBER_EARLY_DAYS,
+  MEMBERSHIP_TIERS,
+  getMembershipTier,
+  hasMemberPerk,
+  maxMemberEarlyAccessDays,
+  memberEarlyAccessDays,
+  membershipTierForPrice,
+  parseMembershipTier,
+} from './membershipTiers';
+
+describe('getMembershipTier', () => {
+  it('treats members from before tiers as standard and non-members as no tier', () => {
+    expect(getMembershipTier({ is_member: true })?.id).toBe('standard');
+    expect(getMembershipTier({ is_member: true, membership_tier: 'Household' })?.id).toBe(
+      'household'
+    );
+    expect(getMembershipTier({ is_member: true, membership_tier: 'gold' })?.id).toBe('standard');
+    expect(getMembershipTier({ is_member: false, membership_tier: 'household' })).toBeNull();
+    expect(getMembershipTier(null)).toBeNull();
+  });
+
+  it('parses only known tiers', () => {
+    expect(parseMembershipTier(' reduced ')).toBe('reduced');
+    expect(parseMembershipTier('')).toBeNull();
+  });
+});
+
+describe('memberEarlyAccessDays', () => {
+  it("uses the member's tier and the longest window for everyone else", () => {
+    expect(memberEarlyAccessDays({ is_member: true, membership_tier: 'reduced' })).toBe(
+      MEMBERSHIP_TIERS.reduced.perks.earlyAccessDays
+    );
+    expect(memberEarlyAccessDays(null)).toBe(maxMemberEarlyAccessDays());
+    expect(maxMemberEarlyAccessDays()).toBeGreaterThanOrEqual(DEFAULT_MEMBER_EARLY_DAYS);
+  });
+
+  it("gives standard and household members the deployment's early access", () => {
+    expect(memberEarlyAccessDays({ is_member: true }, 7)).toBe(7);
+    expect(memberEarlyAccessDays({ is_member: true, membership_tier: 'household' })).toBe(
+      DEFAULT_MEMBER_EARLY_DAYS
+    );
+    expect(memberEarlyAccessDays({ is_member: true, membership_tier: 'reduced' }, 7)).toBe(3);
+    expect(memberEarlyAccessDays(null, 7)).toBe(7);
+    expect(maxMemberEarlyAccessDays(2)).toBe(3);
+  });
+});
+
+describe('hasMemberPerk', () => {
+  it('grants perks to active members only', () => {
+    expect(hasMemberPerk({ is_member: true }, 'memberShopPrices')).toBe(true);
+    expect(
+      hasMemberPerk(
+        { is_member: true, stripe_subscription_status: 'canceled' },
+        'membersOnlyContent'
+      )
+    ).toBe(false);
+  });
+});
+
+describe('membershipTierForPrice', () => {
+  const env = {
+    STRIPE_MEMBERSHIP_PRICES_REDUCED: 'price_student, price_student_member',
+    STRIPE_MEMBERSHIP_PRICES_HOUSEHOLD: 'price_family',
+  };
+
+  it('maps configured prices to their tier and everything else to standard', () => {
+    expect(membershipTierForPrice('price_student_member', env)).toBe('reduced');
+    expect(membershipTierForPrice('price_family', env)).toBe('household');
+    expect(membershipTierForPrice('price_club', env)).toBe('standard');
+    expect(membershipTierForPrice(null, env)).toBe('standard');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Membership tiers and their perks. `profiles.membership_tier` says which tier a member holds;
+ * members from before tiers existed (null) count as standard. Whether someone is a member at all is
+ * still `hasActiveMembership`; the tier only decides what the membership includes.
+ *
+ * Household members (`profiles.household_owner_id`) inherit the owner's membership: the database
+ * copies it onto their profile (see the `add_membership_tiers_and_households` migration).
+ */
+import { hasActiveMembership, type MembershipLike } from './membership.js';
+
+export type MembershipTierId = 'standard' | 'reduced' | 'household';
+
+/** Member early access when the deployment sets no `MEMBER_EARLY_DAYS` / `VITE_MEMBER_EARLY_DAYS`. */
+export const DEFAULT_MEMBER_EARLY_DAYS = 5;
+
+export type MembershipPerks = {
+  /**
+   * Days before an event's public release that sign-up opens for this tier. Null: the deployment's
+   * member early access (`MEMBER_EARLY_DAYS` in the API, `VITE_MEMBER_EARLY_DAYS` in the frontend).
+   */
+  earlyAccessDays: number | null;
+  /** Shop member prices (`stripePriceIdMember`) instead of public prices. */
+  memberShopPrices: boolean;
+  /** Members-only shop products and members-only stories. */
+  membersOnlyContent: boolean;
+};
+
+export type MembershipTier = {
+  id: MembershipTierId;
+  label: string;
+  perks: MembershipPerks;
+  /** Linked profiles the owner may add besides themselves; 0 = not a household tier. */
+  householdSeats: number;
+};
+
+export const MEMBERSHIP_TIERS: Record<MembershipTierId, MembershipTier> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    perks: { earlyAccessDays: null, memberShopPrices: true, membersOnlyContent: true },
+    householdSeats: 0,
+  },
+  reduced: {
+    id: 'reduced',
+    label: 'Reduced (student)',
+    perks: { earlyAccessDays: 3, memberShopPrices: true, membersOnlyContent: true },
+    householdSeats: 0,
+  },
+  household: {
+    id: 'household',
+    label: 'Household',
+    perks: { earlyAccessDays: null, memberShopPrices: true, membersOnlyContent: true },
+    householdSeats: 3,
+  },
+};
+
+/**
+ * Stripe price IDs (comma-separated, public and member prices) that sell each non-standard tier.
+ * Any other membership price sells the standard tier.
+ */
+const TIER_PRICE_ENV: Partial<Record<MembershipTierId, string>> = {
+  reduced: 'STRIPE_MEMBERSHIP_PRICES_REDUCED',
+  household: 'STRIPE_MEMBERSHIP_PRICES_HOUSEHOLD',
+};
+
+export type TieredMembershipLike =
+  | (NonNullable<MembershipLike> & { membership_tier?: string | null })
+  | null
+  | undefined;
+
+export function parseMembershipTier(value: string | null | undefined): MembershipTierId | null {
+  const id = value?.trim().toLowerCase();
+  return id && id in MEMBERSHIP_TIERS ? (id as MembershipTierId) : null;
+}
+
+/** The tier of an active member; null for non-members. */
+export function getMembershipTier(profile: TieredMembershipLike): MembershipTier | null {
+  if (!profile || !hasActiveMembership(profile)) return null;
+  return MEMBERSHIP_TIERS[parseMembershipTier(profile.membership_tier) ?? 'standard'];
+}
+
+export function getMembershipPerks(profile: TieredMembershipLike): MembershipPerks | null {
+  return getMembershipTier(profile)?.perks ?? null;
+}
+
+export function hasMemberPerk(
+  profile: TieredMembershipLike,
+  perk: 'memberShopPrices' | 'membersOnlyContent'
+): boolean {
+  return getMembershipPerks(profile)?.[perk] === true;
+}
+
+/** The longest member early-access window of any tier; `defaultDays` is the deployment's. */
+export function maxMemberEarlyAccessDays(defaultDays = DEFAULT_MEMBER_EARLY_DAYS): number {
+  return Math.max(
+    ...Object.values(MEMBERSHIP_TIERS).map((tier) => tier.perks.earlyAccessDays ?? defaultDays)
+  );
+}
+
+/**
+ * Early-access days that apply to `profile`: their tier's for members, and for everyone else the
+ * longest member window (the time during which "members only" is shown). `defaultDays` is the
+ * deployment's member early access, used by tiers without their own.
+ */
+export function memberEarlyAccessDays(
+  profile: TieredMembershipLike,
+  defaultDays = DEFAULT_MEMBER_EARLY_DAYS
+): number {
+  const perks = getMembershipPerks(profile);
+  if (!perks) return maxMemberEarlyAccessDays(defaultDays);
+  return perks.earlyAccessDays ?? defaultDays;
+}
+
+/** The tier a membership Stripe price sells (server-side; reads the price lists from the env). */
+export function membershipTierForPrice(
+  priceId: string | null | undefined,
+  env: Record<string, string | undefined> = process.env
+): MembershipTierId {
+  if (priceId) {
+    for (const [tier, name] of Object.entries(TIER_PRICE_ENV)) {
+      const prices = (env[name] ?? '').split(',').map((p) => p.trim());
+      if (prices.includes(priceId)) return tier as MembershipTierId;
+    }
+  }
+  return 'standard';
+}
@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { fromMinorUnits } from './money';
+
+describe('fromMinorUnits', () => {
+  it("uses the currency's own number of decimals", () => {
+    expect(fromMinorUnits(1250, 'eur')).toBe(12.5);
+    expect(fromMinorUnits(1200, 'JPY')).toBe(1200);
+    expect(fromMinorUnits(12345, 'kwd')).toBe(12.345);
+    expect(fromMinorUnits(1999, null)).toBe(19.99);
+  });
+});
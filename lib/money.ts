@@ -0,0 +1,36 @@
+/**
+ * Money formatting for amounts in a currency's minor unit, as Stripe stores them (cents for EUR,
+ * whole yen for JPY). Shared by emails, invoices and the order lists.
+ */
+
+/** Digits after the decimal point in `currency` (2 for EUR, 0 for JPY). */
+export function currencyDecimals(currency: string | null | undefined): number {
+  try {
+    return (
+      new Intl.NumberFormat('en-DE', {
+        style: 'currency',
+        currency: currency?.toUpperCase() || 'EUR',
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/** Stripe's minor-unit amount in whole currency units: 1250 EUR → 12.5, 1200 JPY → 1200. */
+export function fromMinorUnits(amountMinor: number, currency: string | null | undefined): number {
+  const decimals = currencyDecimals(currency);
+  return Math.round(amountMinor) / 10 ** decimals;
+}
+
+/** "€12.50", "CHF 12.50", "¥1,200". Falls back to "12.50 XYZ" for codes Intl does not know. */
+export function formatMoney(amountMinor: number, currency: string | null | undefined): string {
+  const code = currency?.toUpperCase() || 'EUR';
+  const decimals = currencyDecimals(code);
+  const amount = amountMinor / 10 ** decimals;
+  try {
+    return new Intl.NumberFormat('en-DE', { style: 'currency', currency: code }).format(amount);
+  } catch {
+    return `${amount.toFixed(decimals)} ${code}`;
+  }
+}
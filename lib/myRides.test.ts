@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSeasonStats,
+  formatUpcomingStatus,
+  getPastStatus,
+  getUpcomingStatus,
+  isPastRide,
+  type MyRide,
+  type PastRide,
+} from './myRides';
+
+const row = {
+  id: 'r1',
+  event_id: 1,
+  ride_level: 'level2',
+  occurrence_date: null,
+  is_waitlist: false,
+};
+
+const ride: MyRide = {
+  registrationId: 'r1',
+  eventId: 1,
+  rideLevel: 'level2',
+  occurrenceDate: null,
+  title: 'Social Ride',
+  link: null,
+  date: '2026-05-12',
+  time: null,
+  location: null,
+};
+
+describe('getUpcomingStatus', () => {
+  const now = new Date('2026-05-10T10:00:00Z');
+
+  it('tells confirmed and promoted riders apart', () => {
+    expect(getUpcomingStatus(row, now)).toBe('confirmed');
+    expect(getUpcomingStatus({ ...row, waitlist_promoted_at: '2026-05-09T10:00:00Z' }, now)).toBe(
+      'promoted'
+    );
+  });
+
+  it('shows open claim offers', () => {
+    const waitlisted = { ...row, is_waitlist: true };
+    expect(getUpcomingStatus(waitlisted, now)).toBe('waitlist');
+    expect(
+      getUpcomingStatus({ ...waitlisted, waitlist_offer_expires_at: '2026-05-10T12:00:00Z' }, now)
+    ).toBe('offered');
+    expect(
+      getUpcomingStatus({ ...waitlisted, waitlist_offer_expires_at: '2026-05-10T08:00:00Z' }, now)
+    ).toBe('waitlist');
+  });
+});
+
+describe('getPastStatus', () => {
+  it('prefers cancellation, then attendance', () => {
+    expect(getPastStatus({ ...row, cancelled_at: 'x', checked_in_at: 'x' })).toBe('cancelled');
+    expect(getPastStatus({ ...row, checked_in_at: 'x' })).toBe('attended');
+    expect(getPastStatus({ ...row, no_show_at: 'x' })).toBe('no-show');
+    expect(getPastStatus({ ...row, is_waitlist: true })).toBe('waitlist');
+    expect(getPastStatus(row)).toBe('unrecorded');
+  });
+});
+
+describe('isPastRide', () => {
+  it('treats the ride day itself as upcoming', () => {
+    expect(isPastRide('2026-05-12', '2026-05-12')).toBe(false);
+    expect(isPastRide('2026-05-11', '2026-05-12')).toBe(true);
+    expect(isPastRide(null, '2026-05-12')).toBe(true);
+  });
+});
+
+describe('buildSeasonStats', () => {
+  it('counts per calendar year, newest first', () => {
+    const past: PastRide[] = [
+      { ...ride, date: '2025-06-01', status: 'attended' },
+      { ...ride, date: '2026-04-01', status: 'attended' },
+      { ...ride, date: '2026-04-08', status: 'no-show' },
+      { ...ride, date: '2026-04-15', status: 'cancelled' },
+      { ...ride, date: '2026-04-22', status: 'waitlist' },
+      { ...ride, date: '2026-04-29', status: 'unrecorded' },
+    ];
+    expect(buildSeasonStats(past)).toEqual([
+      { season: 2026, rides: 3, attended: 1, noShows: 1, cancelled: 1 },
+      { season: 2025, rides: 1, attended: 1, noShows: 0, cancelled: 0 },
+    ]);
+  });
+});
+
+describe('formatUpcomingStatus', () => {
+  it('includes the waitlist position', () => {
+    expect(formatUpcomingStatus({ ...ride, status: 'waitlist', waitlistPosition: 3 })).toBe(
+      'Waitlist #3'
+    );
+    expect(formatUpcomingStatus({ ...ride, status: 'promoted' })).toBe('Promoted from waitlist');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * "My rides" in the members area: a rider's own registrations split into upcoming and past, with
+ * a status per ride and attendance stats per season. api/event.ts (`GET ?view=my-rides`) builds
+ * the list; the members area renders it.
+ */
+
+export type UpcomingRideStatus = 'confirmed' | 'promoted' | 'offered' | 'waitlist';
+export type PastRideStatus = 'attended' | 'no-show' | 'cancelled' | 'waitlist' | 'unrecorded';
+
+export type MyRideRegistration = {
+  id: string;
+  event_id: number;
+  ride_level: string | null;
+  occurrence_date: string | null;
+  is_waitlist: boolean | null;
+  waitlist_promoted_at?: string | null;
+  waitlist_offer_expires_at?: string | null;
+  cancelled_at?: string | null;
+  checked_in_at?: string | null;
+  no_show_at?: string | null;
+};
+
+export type MyRide = {
+  registrationId: string;
+  eventId: number;
+  rideLevel: string;
+  occurrenceDate: string | null;
+  title: string;
+  link: string | null;
+  /** YYYY-MM-DD; null when WordPress has no date for the event. */
+  date: string | null;
+  time: string | null;
+  location: string | null;
+  /** 1-based waitlist place for upcoming waitlisted rides. */
+  waitlistPosition?: number | null;
+};
+
+export type UpcomingRide = MyRide & { status: UpcomingRideStatus };
+export type PastRide = MyRide & { status: PastRideStatus };
+
+export type SeasonStats = {
+  season: number;
+  /** Rides with a confirmed spot (attended, no-shows and rides without a recorded outcome). */
+  rides: number;
+  attended: number;
+  noShows: number;
+  cancelled: number;
+};
+
+export function getUpcomingStatus(
+  row: MyRideRegistration,
+  now: Date = new Date()
+): UpcomingRideStatus {
+  if (row.is_waitlist === true) {
+    const expires = row.waitlist_offer_expires_at ? new Date(row.waitlist_offer_expires_at) : null;
+    return expires && expires > now ? 'offered' : 'waitlist';
+  }
+  return row.waitlist_promoted_at ? 'promoted' : 'confirmed';
+}
+
+export function getPastStatus(row: MyRideRegistration): PastRideStatus {
+  if (row.cancelled_at) return 'cancelled';
+  if (row.is_waitlist === true) return 'waitlist';
+  if (row.checked_in_at) return 'attended';
+  if (row.no_show_at) return 'no-show';
+  return 'unrecorded';
+}
+
+/** Whether a ride on `date` (YYYY-MM-DD) is over, given today's date key. Undated rides count as past. */
+export function isPastRide(date: string | null, todayKey: string): boolean {
+  return !date || date < todayKey;
+}
+
+/** Per-season (calendar year) counts, newest season first. Waitlist-only rides are not counted. */
+export function buildSeasonStats(rides: PastRide[]): SeasonStats[] {
+  const bySeason = new Map<number, SeasonStats>();
+  rides.forEach((ride) => {
+    if (!ride.date || ride.status === 'waitlist') return;
+    const season = Number(ride.date.slice(0, 4));
+    const stats = bySeason.get(season) ?? {
+      season,
+      rides: 0,
+      attended: 0,
+      noShows: 0,
+      cancelled: 0,
+    };
+    if (ride.status === 'cancelled') {
+      stats.cancelled += 1;
+    } else {
+      stats.rides += 1;
+      if (ride.status === 'attended') stats.attended += 1;
+      if (ride.status === 'no-show') stats.noShows += 1;
+    }
+    bySeason.set(season, stats);
+  });
+  return Array.from(bySeason.values()).sort((a, b) => b.season - a.season);
+}
+
+const UPCOMING_LABELS: Record<UpcomingRideStatus, string> = {
+  confirmed: 'Confirmed',
+  promoted: 'Promoted from waitlist',
+  offered: 'Spot offered – check your email',
+  waitlist: 'Waitlist',
+};
+
+const PAST_LABELS: Record<PastRideStatus, string> = {
+  attended: 'Attended',
+  'no-show': 'No-show',
+  cancelled: 'Cancelled',
+  waitlist: "Didn't get a spot",
+  unrecorded: 'Registered',
+};
+
+export function formatUpcomingStatus(ride: UpcomingRide): string {
+  if (ride.status === 'waitlist' && ride.waitlistPosition)
+    return `Waitlist #${ride.waitlistPosition}`;
+  return UPCOMING_LABELS[ride.status];
+}
+
+export function formatPastStatus(ride: PastRide): string {
+  return PAST_LABELS[ride.status];
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeNoShowRestriction,
+  evaluateNoShowRestriction,
+  getNoShowPolicy,
+  joinsWaitlist,
+  type NoShowPolicy,
+} from './noShowPolicy';
+
+const policy: NoShowPolicy = { limit: 3, windowDays: 60, penalty: 'early-access', penaltyDays: 28 };
+const now = new Date('2026-06-01T12:00:00Z');
+
+describe('getNoShowPolicy', () => {
+  it('defaults to 3 no-shows in 60 days costing early access for 28 days', () => {
+    expect(getNoShowPolicy({})).toEqual(policy);
+  });
+
+  it('reads overrides and turns off with a limit of 0', () => {
+    expect(
+      getNoShowPolicy({
+        NO_SHOW_LIMIT: '2',
+        NO_SHOW_PENALTY: 'waitlist-only',
+        NO_SHOW_PENALTY_DAYS: '14',
+      })
+    ).toEqual({ limit: 2, windowDays: 60, penalty: 'waitlist-only', penaltyDays: 14 });
+    expect(getNoShowPolicy({ NO_SHOW_LIMIT: '0' })).toBeNull();
+    expect(getNoShowPolicy({ NO_SHOW_LIMIT: 'lots' })?.limit).toBe(3);
+  });
+});
+
+describe('evaluateNoShowRestriction', () => {
+  const noShows = ['2026-04-20T18:00:00Z', '2026-05-05T18:00:00Z', '2026-05-19T18:00:00Z'];
+
+  it('restricts for the penalty period after the no-show that reaches the limit', () => {
+    expect(evaluateNoShowRestriction(noShows, policy, now)).toEqual({
+      penalty: 'early-access',
+      noShows: 3,
+      triggeredAt: '2026-05-19T18:00:00.000Z',
+      until: '2026-06-16T18:00:00.000Z',
+    });
+  });
+
+  it('ignores no-shows spread over more than the window', () => {
+    const spread = ['2026-02-01T18:00:00Z', '2026-05-05T18:00:00Z', '2026-05-19T18:00:00Z'];
+    expect(evaluateNoShowRestriction(spread, policy, now)).toBeNull();
+  });
+
+  it('ends once the penalty period is over', () => {
+    expect(evaluateNoShowRestriction(noShows, policy, new Date('2026-06-17T00:00:00Z'))).toBeNull();
+  });
+
+  it('extends the restriction with each further no-show', () => {
+    const more = [...noShows, '2026-05-26T18:00:00Z'];
+    expect(evaluateNoShowRestriction(more, policy, now)?.until).toBe('2026-06-23T18:00:00.000Z');
+  });
+
+  it('does not count no-shows before an admin lifted the restriction', () => {
+    expect(evaluateNoShowRestriction(noShows, policy, now, '2026-05-20T09:00:00Z')).toBeNull();
+  });
+});
+
+describe('describeNoShowRestriction', () => {
+  it('explains the reason and what changes until when', () => {
+    const restriction = evaluateNoShowRestriction(
+      ['2026-04-20T18:00:00Z', '2026-05-05T18:00:00Z', '2026-05-19T18:00:00Z'],
+      { ...policy, penalty: 'waitlist-only' },
+      now
+    )!;
+    expect(describeNoShowRestriction(restriction, policy)).toBe(
+      'You missed 3 rides you were registered for in the last 60 days without cancelling. Until 16 June 2026 new signups go to the waitlist.'
+    );
+  });
+});
+
+describe('joinsWaitlist', () => {
+  const waitlistOnly = { penalty: 'waitlist-only' as const };
+
+  it('waitlists full levels only', () => {
+    expect(joinsWaitlist(14, 13, null)).toBe(false);
+    expect(joinsWaitlist(14, 14, null)).toBe(true);
+    expect(joinsWaitlist(null, null, null)).toBe(false);
+    expect(joinsWaitlist(14, 20, { penalty: 'early-access' })).toBe(true);
+  });
+
+  it('waitlists restricted riders whatever the capacity', () => {
+    expect(joinsWaitlist(14, 0, waitlistOnly)).toBe(true);
+    expect(joinsWaitlist(null, null, waitlistOnly)).toBe(true);
+  });
+});
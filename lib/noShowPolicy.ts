@@ -0,0 +1,280 @@
+/**
+ * No-show policy.
+ *
+ * Guides (`guide-finalize-attendance`) and admins (`admin-no-show`) record `registrations.no_show_at`.
+ * Riders who collect `NO_SHOW_LIMIT` no-shows within `NO_SHOW_WINDOW_DAYS` are restricted for
+ * `NO_SHOW_PENALTY_DAYS` after the last of them:
+ *   - `early-access` (default): no member / FLINTA early-access window, signup opens at public release
+ *   - `waitlist-only`: every signup goes to the waitlist, whether or not the ride has a capacity
+ * `handleSignup` in api/event.ts enforces the restriction; the rider gets an email when it starts.
+ * Admins lift it from the member table, which sets `profiles.no_show_forgiven_at` — no-shows
+ * recorded before that no longer count. `NO_SHOW_LIMIT=0` turns the policy off.
+ *
+ * Server-side only (Supabase service role + Resend).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <noreply@kandiegang.com>';
+const BASE_URL =
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://kandiegang.com');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NoShowPenalty = 'early-access' | 'waitlist-only';
+
+export type NoShowPolicy = {
+  /** No-shows within the window that trigger the restriction. */
+  limit: number;
+  windowDays: number;
+  penalty: NoShowPenalty;
+  /** How long the restriction lasts after the no-show that triggered it. */
+  penaltyDays: number;
+};
+
+export type NoShowRestriction = {
+  penalty: NoShowPenalty;
+  /** No-shows within the window ending at the triggering no-show. */
+  noShows: number;
+  /** The no-show that started (or last extended) the restriction. */
+  triggeredAt: string;
+  until: string;
+};
+
+type NoShowRow = {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  no_show_at: string | null;
+};
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? fallback);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/** Policy from env; null when `NO_SHOW_LIMIT` is 0 (policy off). */
+export function getNoShowPolicy(
+  env: Record<string, string | undefined> = process.env
+): NoShowPolicy | null {
+  const limit = Math.floor(positiveNumber(env.NO_SHOW_LIMIT, 3));
+  const windowDays = positiveNumber(env.NO_SHOW_WINDOW_DAYS, 60);
+  const penaltyDays = positiveNumber(env.NO_SHOW_PENALTY_DAYS, 28);
+  if (limit === 0 || windowDays === 0 || penaltyDays === 0) return null;
+  return {
+    limit,
+    windowDays,
+    penalty: env.NO_SHOW_PENALTY?.trim() === 'waitlist-only' ? 'waitlist-only' : 'early-access',
+    penaltyDays,
+  };
+}
+
+/**
+ * Restriction in force at `now`, or null. Every no-show that completes `limit` no-shows within the
+ * window starts a restriction; the latest one wins, so further no-shows extend it.
+ */
+export function evaluateNoShowRestriction(
+  noShowTimes: string[],
+  policy: NoShowPolicy,
+  now: Date,
+  forgivenAt?: string | null
+): NoShowRestriction | null {
+  const forgiven = forgivenAt ? Date.parse(forgivenAt) : Number.NEGATIVE_INFINITY;
+  const times = noShowTimes
+    .map((value) => Date.parse(value))
+    .filter((time) => Number.isFinite(time) && time > forgiven && time <= now.getTime())
+    .sort((a, b) => a - b);
+
+  let restriction: NoShowRestriction | null = null;
+  for (let i = 0; i < times.length; i++) {
+    const windowStart = times[i] - policy.windowDays * DAY_MS;
+    const inWindow = times.slice(0, i + 1).filter((time) => time > windowStart).length;
+    if (inWindow < policy.limit) continue;
+    restriction = {
+      penalty: policy.penalty,
+      noShows: inWindow,
+      triggeredAt: new Date(times[i]).toISOString(),
+      until: new Date(times[i] + policy.penaltyDays * DAY_MS).toISOString(),
+    };
+  }
+  return restriction && Date.parse(restriction.until) > now.getTime() ? restriction : null;
+}
+
+function formatUntil(until: string): string {
+  return new Date(until).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Europe/Berlin',
+  });
+}
+
+/** Rider-facing explanation, used for signup errors and the restriction email. */
+export function describeNoShowRestriction(
+  restriction: NoShowRestriction,
+  policy: Pick<NoShowPolicy, 'windowDays'>
+): string {
+  const reason = `You missed ${restriction.noShows} rides you were registered for in the last ${policy.windowDays} days without cancelling.`;
+  const effect =
+    restriction.penalty === 'waitlist-only'
+      ? `Until ${formatUntil(restriction.until)} new signups go to the waitlist.`
+      : `Until ${formatUntil(restriction.until)} you can sign up once registration opens to everyone, but not during early access.`;
+  return `${reason} ${effect}`;
+}
+
+/**
+ * Whether a signup joins the waitlist: its level is full (`taken` of `capacity` places; levels
+ * without a capacity never are) or the rider is restricted to waitlists.
+ */
+export function joinsWaitlist(
+  capacity: number | null,
+  taken: number | null,
+  restriction: Pick<NoShowRestriction, 'penalty'> | null
+): boolean {
+  if (restriction?.penalty === 'waitlist-only') return true;
+  return capacity != null && taken != null && taken >= capacity;
+}
+
+/**
+ * Restriction for a rider. Signed-in riders are matched by user id, guests by email. Errors are
+ * logged and treated as "no restriction" so a lookup failure never blocks a signup.
+ */
+export async function fetchNoShowRestriction(
+  adminClient: SupabaseClient<any>,
+  rider: { userId: string | null; email: string | null },
+  policy: NoShowPolicy | null = getNoShowPolicy(),
+  now: Date = new Date()
+): Promise<NoShowRestriction | null> {
+  if (!policy || (!rider.userId && !rider.email)) return null;
+  try {
+    let forgivenAt: string | null = null;
+    if (rider.userId) {
+      const { data: profile, error: profileError } = await adminClient
+        .from('profiles')
+        .select('no_show_forgiven_at')
+        .eq('id', rider.userId)
+        .single();
+      if (profileError) throw profileError;
+      forgivenAt = profile?.no_show_forgiven_at ?? null;
+    }
+
+    const since = new Date(now.getTime() - (policy.windowDays + policy.penaltyDays) * DAY_MS);
+    let query = adminClient
+      .from('registrations')
+      .select('no_show_at')
+      .not('no_show_at', 'is', null)
+      .is('cancelled_at', null)
+      .gte('no_show_at', since.toISOString());
+    query = rider.userId ? query.eq('user_id', rider.userId) : query.eq('email', rider.email!);
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return evaluateNoShowRestriction(
+      (data ?? []).map((row: { no_show_at: string }) => row.no_show_at),
+      policy,
+      now,
+      forgivenAt
+    );
+  } catch (err) {
+    console.warn('[no-show-policy] Restriction lookup failed:', err);
+    return null;
+  }
+}
+
+// ─── Restriction email ────────────────────────────────────────────────────────
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function buildRestrictionText(explanation: string): string {
+  return [
+    'About your ride signups',
+    '',
+    explanation,
+    '',
+    'Every missed ride is a spot another rider could have had. If you cannot make it, please cancel from the link in your confirmation email or under My Rides:',
+    `${BASE_URL}/members`,
+    '',
+    'Think this is a mistake? Just reply to this email.',
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+function buildRestrictionHtml(explanation: string): string {
+  const safeExplanation = escapeHtml(explanation);
+  const safeMembersUrl = escapeHtml(`${BASE_URL}/members`);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?noshow" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">About your ride signups</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="left" style="padding:0px 40px 16px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${safeExplanation}</p></td></tr><tr><td align="left" style="padding:0px 40px 24px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">Every missed ride is a spot another rider could have had. If you cannot make it, please cancel from the link in your confirmation email or under <a href="${safeMembersUrl}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">My Rides</a>.</p></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">Think this is a mistake? Just reply to this email.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?noshow" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?noshow" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?noshow" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+}
+
+/**
+ * Email riders whose restriction was started (or extended) by the given, just-recorded no-shows.
+ * Best effort: failures are logged, never thrown. Returns how many riders were emailed.
+ */
+export async function notifyNoShowRestrictions(
+  adminClient: SupabaseClient<any>,
+  registrationIds: string[]
+): Promise<number> {
+  const policy = getNoShowPolicy();
+  if (!policy || !RESEND_API_KEY || registrationIds.length === 0) return 0;
+  let sent = 0;
+  try {
+    const { data: rows, error } = await adminClient
+      .from('registrations')
+      .select('id, user_id, email, no_show_at')
+      .in('id', registrationIds);
+    if (error) throw error;
+
+    const seen = new Set<string>();
+    const resend = new Resend(RESEND_API_KEY);
+    for (const row of (rows ?? []) as NoShowRow[]) {
+      const riderKey = row.user_id ?? row.email;
+      if (!riderKey || !row.no_show_at || seen.has(riderKey)) continue;
+      seen.add(riderKey);
+
+      const restriction = await fetchNoShowRestriction(
+        adminClient,
+        { userId: row.user_id, email: row.email },
+        policy
+      );
+      if (!restriction || Date.parse(restriction.triggeredAt) !== Date.parse(row.no_show_at))
+        continue;
+
+      let to = row.email;
+      if (!to && row.user_id) {
+        const { data: profile } = await adminClient
+          .from('profiles')
+          .select('email')
+          .eq('id', row.user_id)
+          .single();
+        to = profile?.email ?? null;
+      }
+      if (!to) continue;
+
+      const explanation = describeNoShowRestriction(restriction, policy);
+      try {
+        await resend.emails.send({
+          from: FROM_EMAIL,
+          to,
+          subject: 'About your ride signups',
+          html: buildRestrictionHtml(explanation),
+          text: buildRestrictionText(explanation),
+        });
+        sent += 1;
+      } catch (emailErr) {
+        console.warn('[no-show-policy] Restriction email failed:', emailErr);
+      }
+    }
+  } catch (err) {
+    console.warn('[no-show-policy] Restriction notification failed:', err);
+  }
+  return sent;
+}
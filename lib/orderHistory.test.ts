@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDispute,
+  applyRefund,
+  shortenMembershipExpiration,
+  summarizeOrderHistory,
+} from './orderHistory';
+import type { OrderHistoryEntry } from '../types/analytics';
+
+const history: OrderHistoryEntry[] = [
+  { order_id: 'in_1', date: '2025-03-01', total: 60, status: 'completed' },
+  { order_id: 'in_2', date: '2026-03-01', total: '60.00', status: 'completed' },
+  { order_id: 4711, date: '2024-11-20', total: 35.5, status: 'completed' },
+];
+
+describe('summarizeOrderHistory', () => {
+  it('sums totals and finds the last order', () => {
+    expect(summarizeOrderHistory(history)).toEqual({
+      order_count: 3,
+      lifetime_value: 155.5,
+      avg_order_value: 51.83,
+      last_order_date: '2026-03-01',
+    });
+  });
+});
+
+describe('applyRefund', () => {
+  it('marks partial refunds and takes them off the lifetime value', () => {
+    const { history: next, entry } = applyRefund(history, 'in_2', 20);
+    expect(entry).toMatchObject({ refunded: 20, status: 'partially_refunded' });
+    expect(summarizeOrderHistory(next)).toMatchObject({ order_count: 3, lifetime_value: 135.5 });
+  });
+
+  it('drops fully refunded orders from count and value but keeps them listed', () => {
+    const { history: next, entry } = applyRefund(history, 'in_2', 60);
+    expect(entry?.status).toBe('refunded');
+    expect(next).toHaveLength(3);
+    expect(summarizeOrderHistory(next)).toEqual({
+      order_count: 2,
+      lifetime_value: 95.5,
+      avg_order_value: 47.75,
+      last_order_date: '2025-03-01',
+    });
+  });
+
+  it('is idempotent for the cumulative refunded amount and ignores unknown orders', () => {
+    const once = applyRefund(history, 'in_1', 10).history;
+    expect(applyRefund(once, 'in_1', 10).history).toEqual(once);
+    expect(applyRefund(history, 'in_404', 10).entry).toBeNull();
+  });
+});
+
+describe('applyDispute', () => {
+  it('flags open disputes and voids lost ones', () => {
+    const opened = applyDispute(history, 'in_1', 'opened');
+    expect(opened.entry?.status).toBe('disputed');
+    expect(summarizeOrderHistory(opened.history).lifetime_value).toBe(155.5);
+
+    const lost = applyDispute(opened.history, 'in_1', 'lost');
+    expect(summarizeOrderHistory(lost.history)).toMatchObject({
+      order_count: 2,
+      lifetime_value: 95.5,
+    });
+  });
+
+  it('restores the previous state when the dispute is won', () => {
+    const refunded = applyRefund(history, 'in_1', 5).history;
+    const won = applyDispute(applyDispute(refunded, 'in_1', 'opened').history, 'in_1', 'won');
+    expect(won.entry?.status).toBe('partially_refunded');
+  });
+});
+
+describe('shortenMembershipExpiration', () => {
+  it('ends the membership when the current period is refunded', () => {
+    expect(shortenMembershipExpiration('2027-02-01', 365, '2026-06-01')).toBe('2026-02-01');
+  });
+
+  it('keeps later paid time when an older period is refunded', () => {
+    expect(shortenMembershipExpiration('2028-02-01', 365, '2026-06-01')).toBe('2027-02-01');
+  });
+});
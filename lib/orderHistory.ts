@@ -0,0 +1,116 @@
+/**
+ * Profile order history (`profiles.order_history`) and the totals derived from it. Shared by the
+ * Stripe webhook, `api/stripe-sync` and profile merges so refunds and disputes count the same way
+ * everywhere: refunded money leaves the lifetime value, fully refunded or lost orders leave the
+ * order count but stay in the history.
+ */
+import type { OrderHistoryEntry } from '../types/analytics.js';
+
+export type OrderHistorySummary = {
+  order_count: number;
+  lifetime_value: number;
+  avg_order_value: number;
+  last_order_date: string | null;
+};
+
+/** Outcome of a Stripe dispute as it affects the order. */
+export type DisputeOutcome = 'opened' | 'won' | 'lost';
+
+/** Statuses of orders that no longer count as revenue. */
+const VOIDED_STATUSES = new Set(['refunded', 'dispute_lost']);
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function orderTotal(entry: OrderHistoryEntry): number {
+  return parseFloat(String(entry.total)) || 0;
+}
+
+/** What an order still brings in after refunds. */
+export function orderNetValue(entry: OrderHistoryEntry): number {
+  if (entry.status && VOIDED_STATUSES.has(entry.status)) return 0;
+  return Math.max(0, roundCents(orderTotal(entry) - (Number(entry.refunded) || 0)));
+}
+
+export function summarizeOrderHistory(history: OrderHistoryEntry[]): OrderHistorySummary {
+  const counted = history.filter((o) => !(o.status && VOIDED_STATUSES.has(o.status)));
+  const orderCount = counted.length;
+  const lifetimeValue = roundCents(history.reduce((sum, o) => sum + orderNetValue(o), 0));
+  return {
+    order_count: orderCount,
+    lifetime_value: lifetimeValue,
+    avg_order_value: orderCount > 0 ? roundCents(lifetimeValue / orderCount) : 0,
+    last_order_date: counted.reduce<string | null>((latest, o) => {
+      if (!o.date) return latest;
+      const date = String(o.date).substring(0, 10);
+      return !latest || date > latest ? date : latest;
+    }, null),
+  };
+}
+
+function updateEntry(
+  history: OrderHistoryEntry[],
+  orderId: string,
+  update: (entry: OrderHistoryEntry) => OrderHistoryEntry
+): { history: OrderHistoryEntry[]; entry: OrderHistoryEntry | null } {
+  let updated: OrderHistoryEntry | null = null;
+  const next = history.map((entry) => {
+    if (String(entry.order_id) !== orderId) return entry;
+    updated = update(entry);
+    return updated;
+  });
+  return { history: next, entry: updated };
+}
+
+/**
+ * Record the total refunded so far (in whole currency units, see `fromMinorUnits`; Stripe reports
+ * it cumulatively) on an order.
+ * Returns `entry: null` when the order is not in the history.
+ */
+export function applyRefund(
+  history: OrderHistoryEntry[],
+  orderId: string,
+  refundedTotal: number
+): { history: OrderHistoryEntry[]; entry: OrderHistoryEntry | null } {
+  return updateEntry(history, orderId, (entry) => {
+    const refunded = Math.min(roundCents(refundedTotal), orderTotal(entry));
+    const status =
+      refunded <= 0
+        ? 'completed'
+        : refunded >= orderTotal(entry)
+          ? 'refunded'
+          : 'partially_refunded';
+    return { ...entry, refunded, status: entry.status === 'dispute_lost' ? entry.status : status };
+  });
+}
+
+export function applyDispute(
+  history: OrderHistoryEntry[],
+  orderId: string,
+  outcome: DisputeOutcome
+): { history: OrderHistoryEntry[]; entry: OrderHistoryEntry | null } {
+  return updateEntry(history, orderId, (entry) => {
+    if (outcome === 'opened') return { ...entry, status: 'disputed' };
+    if (outcome === 'lost') return { ...entry, status: 'dispute_lost' };
+    const refunded = Number(entry.refunded) || 0;
+    return { ...entry, status: refunded > 0 ? 'partially_refunded' : 'completed' };
+  });
+}
+
+/**
+ * Membership end after the money for `periodDays` of it was returned: the expiration moves back
+ * by that period. A refund of the current period therefore ends the membership (the result is today
+ * or earlier); refunding an older year shortens a membership that later payments extended.
+ */
+export function shortenMembershipExpiration(
+  currentExpiration: string | null,
+  periodDays: number,
+  today: string
+): string {
+  const base =
+    currentExpiration && /^\d{4}-\d{2}-\d{2}$/.test(currentExpiration) ? currentExpiration : today;
+  const shortened = new Date(`${base}T00:00:00Z`);
+  shortened.setUTCDate(shortened.getUTCDate() - Math.max(0, Math.round(periodDays)));
+  return shortened.toISOString().slice(0, 10);
+}
@@ -1,4 +1,6 @@
 import { Resend } from 'resend';
+import { formatMoney } from './money.js';
+import { SHIPPING_RATES } from './shipping.js';
 
 const RESEND_API_KEY = process.env.RESEND_API_KEY;
 const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <noreply@kandiegang.com>';
@@ -24,6 +26,9 @@ export interface OrderNotificationParams {
   paymentStatus: string | null;
   stripeDashboardUrl: string | null;
   siteUrl: string;
+  /** Invoice number and PDF link (lib/invoices.ts), when the invoice was issued. */
+  invoiceNumber?: string | null;
+  invoiceUrl?: string | null;
 }
 
 export interface NotificationResult {
@@ -43,27 +48,13 @@ function escapeHtml(value: string): string {
 
 function formatCurrency(amountCents: number | null | undefined, currency: string | null): string {
   if (typeof amountCents !== 'number') return 'Not available';
-
-  try {
-    return new Intl.NumberFormat('en-DE', {
-      style: 'currency',
-      currency: currency?.toUpperCase() || 'EUR',
-    }).format(amountCents / 100);
-  } catch {
-    return `${(amountCents / 100).toFixed(2)} ${(currency || 'eur').toUpperCase()}`;
-  }
+  return formatMoney(amountCents, currency || 'eur');
 }
 
 function formatShippingOption(shippingOption: string | null): string {
   if (!shippingOption) return 'Not specified';
 
-  const labels: Record<string, string> = {
-    de: 'Standard - Germany',
-    eu: 'Standard - EU',
-    pickup: 'Local pickup',
-  };
-
-  return labels[shippingOption] ?? shippingOption;
+  return SHIPPING_RATES.find((rate) => rate.option === shippingOption)?.label ?? shippingOption;
 }
 
 function orderItemsText(items: OrderNotificationItem[]): string {
@@ -103,9 +94,8 @@ function orderItemsHtml(items: OrderNotificationItem[]): string {
     </table>`;
 }
 
-function buildOrderConfirmationHtml(params: OrderNotificationParams): string {
-  const greeting = params.customerName ? `Hi ${escapeHtml(params.customerName)},` : 'Hi,';
-
+/** Page frame of customer emails: logo, white card with `title` and `bodyHtml`, reply footer. */
+function buildCustomerEmailHtml(siteUrl: string, title: string, bodyHtml: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -121,7 +111,7 @@ function buildOrderConfirmationHtml(params: OrderNotificationParams): string {
             <tbody>
               <tr>
                 <td align="center" style="padding: 0 0 20px;">
-                  <a href="${escapeHtml(params.siteUrl)}" target="_blank" rel="noopener noreferrer">
+                  <a href="${escapeHtml(siteUrl)}" target="_blank" rel="noopener noreferrer">
                     <img src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" alt="Kandie Gang" style="display: block; width: 138px; max-width: 138px; margin: 0 auto;" width="138">
                   </a>
                 </td>
@@ -129,26 +119,9 @@ function buildOrderConfirmationHtml(params: OrderNotificationParams): string {
               <tr>
                 <td style="background: #fffffe; border-radius: 16px; padding: 40px;">
                   <h1 style="font-family: 'IvyOra Disp Lt', RoobertPRO, Helvetica, Arial, sans-serif; font-size: 32px; line-height: 40px; font-weight: 300; margin: 0 0 20px; color: #1c1c1e;">
-                    We received your order
+                    ${escapeHtml(title)}
                   </h1>
-                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0 0 16px;">
-                    ${greeting}
-                  </p>
-                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0 0 24px;">
-                    Thank you for ordering from Kandie Gang. Your payment was received and we will process your order shortly.
-                  </p>
-                  ${orderItemsHtml(params.items)}
-                  <table border="0" cellpadding="0" cellspacing="0" width="100%" style="border-collapse: collapse; margin-top: 24px;">
-                    <tbody>
-                      <tr>
-                        <td style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; font-weight: bold;">Total</td>
-                        <td align="right" style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; font-weight: bold;">${escapeHtml(formatCurrency(params.amountTotal, params.currency))}</td>
-                      </tr>
-                    </tbody>
-                  </table>
-                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 20px; color: #64748b; margin: 24px 0 0;">
-                    Order reference: ${escapeHtml(params.sessionId)}
-                  </p>
+                  ${bodyHtml}
                 </td>
               </tr>
               <tr>
@@ -168,6 +141,39 @@ function buildOrderConfirmationHtml(params: OrderNotificationParams): string {
 </html>`;
 }
 
+function buildOrderConfirmationHtml(params: OrderNotificationParams): string {
+  const greeting = params.customerName ? `Hi ${escapeHtml(params.customerName)},` : 'Hi,';
+  const invoiceLink = params.invoiceUrl
+    ? `<br><a href="${escapeHtml(params.invoiceUrl)}" style="color: #485197;">Download invoice${
+        params.invoiceNumber ? ` ${escapeHtml(params.invoiceNumber)}` : ''
+      } (PDF)</a>`
+    : '';
+
+  return buildCustomerEmailHtml(
+    params.siteUrl,
+    'We received your order',
+    `
+                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0 0 16px;">
+                    ${greeting}
+                  </p>
+                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: 0 0 24px;">
+                    Thank you for ordering from Kandie Gang. Your payment was received and we will process your order shortly.
+                  </p>
+                  ${orderItemsHtml(params.items)}
+                  <table border="0" cellpadding="0" cellspacing="0" width="100%" style="border-collapse: collapse; margin-top: 24px;">
+                    <tbody>
+                      <tr>
+                        <td style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; font-weight: bold;">Total</td>
+                        <td align="right" style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; font-weight: bold;">${escapeHtml(formatCurrency(params.amountTotal, params.currency))}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 20px; color: #64748b; margin: 24px 0 0;">
+                    Order reference: ${escapeHtml(params.sessionId)}${invoiceLink}
+                  </p>`
+  );
+}
+
 function buildOrderConfirmationText(params: OrderNotificationParams): string {
   return [
     'We received your order',
@@ -181,6 +187,11 @@ function buildOrderConfirmationText(params: OrderNotificationParams): string {
     '',
     `Total: ${formatCurrency(params.amountTotal, params.currency)}`,
     `Order reference: ${params.sessionId}`,
+    ...(params.invoiceUrl
+      ? [
+          `Invoice${params.invoiceNumber ? ` ${params.invoiceNumber}` : ''} (PDF): ${params.invoiceUrl}`,
+        ]
+      : []),
     '',
     'If you have any questions, just reply to this email.',
   ].join('\n');
@@ -336,3 +347,270 @@ export async function sendDiscordOrderNotification(
     return { success: false, error: err instanceof Error ? err.message : String(err) };
   }
 }
+
+export interface OrderAdjustmentNotificationParams {
+  /** E.g. "Refund", "Partial refund", "Dispute opened", "Dispute lost". */
+  title: string;
+  customerEmail: string | null;
+  customerName: string | null;
+  /** Amount refunded or disputed, in cents. */
+  amount: number | null;
+  /** Original charge, in cents. */
+  orderTotal: number | null;
+  currency: string | null;
+  /** What changed on our side (order history, membership). */
+  outcome: string;
+  reference: string;
+  stripeDashboardUrl: string | null;
+}
+
+/** Discord notice for refunds and disputes, posted to the same channel as new orders. */
+export async function sendDiscordOrderAdjustmentNotification(
+  params: OrderAdjustmentNotificationParams
+): Promise<NotificationResult> {
+  if (!DISCORD_ORDER_WEBHOOK_URL) {
+    return { success: true, skipped: true, error: 'DISCORD_ORDER_WEBHOOK_URL is not set' };
+  }
+
+  const fields = [
+    {
+      name: 'Customer',
+      value: params.customerEmail
+        ? `${params.customerName ? `${params.customerName}\n` : ''}${params.customerEmail}`
+        : params.customerName || 'Not provided',
+      inline: true,
+    },
+    {
+      name: 'Amount',
+      value: formatCurrency(params.amount, params.currency),
+      inline: true,
+    },
+    {
+      name: 'Order total',
+      value: formatCurrency(params.orderTotal, params.currency),
+      inline: true,
+    },
+    {
+      name: 'Outcome',
+      value: params.outcome.slice(0, 1000),
+      inline: false,
+    },
+    {
+      name: 'Stripe payment',
+      value: params.stripeDashboardUrl
+        ? `[${params.reference}](${params.stripeDashboardUrl})`
+        : params.reference,
+      inline: false,
+    },
+  ];
+
+  try {
+    const response = await fetch(DISCORD_ORDER_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: 'Kandie Gang Orders',
+        embeds: [
+          {
+            title: params.title,
+            color: 0xd9534f,
+            fields,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `Discord webhook returned ${response.status}` };
+    }
+
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export interface OrderShippedNotificationParams {
+  customerEmail: string | null;
+  customerName: string | null;
+  /** Stripe Checkout Session id, the reference from the order confirmation. */
+  orderReference: string;
+  items: OrderNotificationItem[];
+  carrierLabel: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  siteUrl: string;
+}
+
+function buildOrderShippedHtml(params: OrderShippedNotificationParams): string {
+  const greeting = params.customerName ? `Hi ${escapeHtml(params.customerName)},` : 'Hi,';
+  const paragraph = (html: string, margin = '0 0 16px') =>
+    `<p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: ${margin};">${html}</p>`;
+  const tracking = params.trackingNumber
+    ? paragraph(
+        `${params.carrierLabel ? `${escapeHtml(params.carrierLabel)} tracking number` : 'Tracking number'}: ${
+          params.trackingUrl
+            ? `<a href="${escapeHtml(params.trackingUrl)}" style="color: #485197;">${escapeHtml(params.trackingNumber)}</a>`
+            : escapeHtml(params.trackingNumber)
+        }`,
+        '0 0 24px'
+      )
+    : '';
+
+  return buildCustomerEmailHtml(
+    params.siteUrl,
+    'Your order is on its way',
+    `
+                  ${paragraph(greeting)}
+                  ${paragraph(
+                    `Your Kandie Gang order has been shipped${params.carrierLabel ? ` with ${escapeHtml(params.carrierLabel)}` : ''}.`
+                  )}
+                  ${tracking}
+                  ${orderItemsHtml(params.items)}
+                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 20px; color: #64748b; margin: 24px 0 0;">
+                    Order reference: ${escapeHtml(params.orderReference)}<br>
+                    You can also follow your order in the <a href="${escapeHtml(`${params.siteUrl}/members`)}" style="color: #64748b;">members area</a>.
+                  </p>`
+  );
+}
+
+function buildOrderShippedText(params: OrderShippedNotificationParams): string {
+  return [
+    'Your order is on its way',
+    '',
+    params.customerName ? `Hi ${params.customerName},` : 'Hi,',
+    '',
+    `Your Kandie Gang order has been shipped${params.carrierLabel ? ` with ${params.carrierLabel}` : ''}.`,
+    ...(params.trackingNumber ? [`Tracking number: ${params.trackingNumber}`] : []),
+    ...(params.trackingUrl ? [`Track your parcel: ${params.trackingUrl}`] : []),
+    '',
+    'Order items:',
+    orderItemsText(params.items),
+    '',
+    `Order reference: ${params.orderReference}`,
+    `Your orders: ${params.siteUrl}/members`,
+    '',
+    'If you have any questions, just reply to this email.',
+  ].join('\n');
+}
+
+/** Tell the customer their order has shipped, with the tracking link when there is one. */
+export async function sendOrderShippedEmail(
+  params: OrderShippedNotificationParams
+): Promise<NotificationResult> {
+  if (!params.customerEmail) {
+    return { success: true, skipped: true, error: 'No customer email on order' };
+  }
+
+  if (!RESEND_API_KEY) {
+    return { success: false, skipped: true, error: 'RESEND_API_KEY is not set' };
+  }
+
+  const resend = new Resend(RESEND_API_KEY);
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: params.customerEmail,
+      subject: 'Your Kandie Gang order has shipped',
+      html: buildOrderShippedHtml(params),
+      text: buildOrderShippedText(params),
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export interface BackInStockNotificationParams {
+  to: string;
+  productTitle: string;
+  variantLabel: string | null;
+  productUrl: string;
+  /** Page that confirms the unsubscribe (linked in the email). */
+  unsubscribeUrl: string;
+  /** Endpoint for mail clients' one-click unsubscribe (RFC 8058). */
+  oneClickUnsubscribeUrl: string;
+  siteUrl: string;
+}
+
+function backInStockName(params: BackInStockNotificationParams): string {
+  return params.variantLabel
+    ? `${params.productTitle} (${params.variantLabel})`
+    : params.productTitle;
+}
+
+function buildBackInStockHtml(params: BackInStockNotificationParams): string {
+  const paragraph = (html: string, margin = '0 0 16px') =>
+    `<p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; color: #1c1c1e; margin: ${margin};">${html}</p>`;
+
+  return buildCustomerEmailHtml(
+    params.siteUrl,
+    "It's back in stock",
+    `
+                  ${paragraph('Hi,')}
+                  ${paragraph(
+                    `<strong>${escapeHtml(backInStockName(params))}</strong> is available again in the Kandie Gang shop. Stock is limited and not reserved for you, so be quick.`,
+                    '0 0 24px'
+                  )}
+                  <a href="${escapeHtml(params.productUrl)}" style="display: inline-block; background: #485197; color: #fffffe; font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 16px; line-height: 24px; text-decoration: none; border-radius: 999px; padding: 12px 24px;">Shop now</a>
+                  <p style="font-family: NotoSans, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 20px; color: #64748b; margin: 24px 0 0;">
+                    You get this email because you asked to be told when this item is back. We only send it once.
+                    <a href="${escapeHtml(params.unsubscribeUrl)}" style="color: #64748b;">Unsubscribe from back-in-stock emails</a>.
+                  </p>`
+  );
+}
+
+function buildBackInStockText(params: BackInStockNotificationParams): string {
+  return [
+    "It's back in stock",
+    '',
+    'Hi,',
+    '',
+    `${backInStockName(params)} is available again in the Kandie Gang shop. Stock is limited and not reserved for you, so be quick.`,
+    '',
+    `Shop now: ${params.productUrl}`,
+    '',
+    'You get this email because you asked to be told when this item is back. We only send it once.',
+    `Unsubscribe from back-in-stock emails: ${params.unsubscribeUrl}`,
+  ].join('\n');
+}
+
+/** Tell someone waiting for a sold-out variant that it is available again. */
+export async function sendBackInStockEmail(
+  params: BackInStockNotificationParams
+): Promise<NotificationResult> {
+  if (!RESEND_API_KEY) {
+    return { success: false, skipped: true, error: 'RESEND_API_KEY is not set' };
+  }
+
+  const resend = new Resend(RESEND_API_KEY);
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: params.to,
+      subject: `Back in stock: ${backInStockName(params)}`,
+      html: buildBackInStockHtml(params),
+      text: buildBackInStockText(params),
+      headers: {
+        'List-Unsubscribe': `<${params.oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -2,6 +2,7 @@
  * products.ts
  * Product and variant type definitions and utility functions.
  */
+import type { ShopCampaign } from './shopCampaigns.js';
 
 export interface ProductVariant {
   label: string;
@@ -30,6 +31,8 @@ export interface ShopProduct {
     variants?: ProductVariant[];
     membersOnly: boolean;
     inStock: boolean;
+    /** Drop window, members' early access and limits; see `lib/shopCampaigns.ts`. */
+    campaign?: ShopCampaign | null;
   };
 }
 
@@ -67,16 +70,26 @@ export function getStripePriceId(
   if (variants?.length) {
     const idx = variantIndex != null && variantIndex >= 0 ? variantIndex : 0;
     const variant = variants[idx];
-    if (variant) {
-      if (isMember && variant.stripePriceIdMember) {
-        return variant.stripePriceIdMember;
-      }
-      return variant.stripePriceIdPublic ?? '';
-    }
+    if (variant) return getVariantStripePriceId(variant, isMember);
   }
   return '';
 }
 
+/**
+ * Stripe Price ID of one variant: the member price for members when the variant has one.
+ * Also applied server-side by /api/stripe-checkout, so a basket cannot carry member prices for
+ * non-members.
+ */
+export function getVariantStripePriceId(
+  variant: Pick<ProductVariant, 'stripePriceIdPublic' | 'stripePriceIdMember'>,
+  isMember: boolean
+): string {
+  if (isMember && variant.stripePriceIdMember) {
+    return variant.stripePriceIdMember;
+  }
+  return variant.stripePriceIdPublic ?? '';
+}
+
 /**
  * Check if product/variant is available for purchase.
  * Uses inventory directly - inStock is computed from inventory in WordPress.
@@ -105,3 +118,33 @@ export function canPurchase(
   // Fallback to product-level inventory
   return (product.productFields.inventory ?? 0) > 0;
 }
+
+/** Available stock per stock key, from the stock ledger (`GET /api/stripe-checkout?view=stock`). */
+export type StockLevels = Record<string, number>;
+
+/**
+ * Key a variant's stock is tracked under: its SKU, or product id + label for variants without one.
+ * The member and public prices of a variant share the same stock.
+ */
+export function stockKey(
+  productId: string,
+  variant: Pick<ProductVariant, 'label' | 'sku'>
+): string {
+  return variant.sku?.trim() || `${productId}:${variant.label}`;
+}
+
+/**
+ * Variants with `inventory` replaced by the ledger's available stock. Variants the ledger does
+ * not know yet (never synced) keep their WordPress inventory.
+ */
+export function withStockLevels<T extends Pick<ProductVariant, 'label' | 'sku' | 'inventory'>>(
+  productId: string,
+  variants: T[],
+  levels: StockLevels | null
+): T[] {
+  if (!levels) return variants;
+  return variants.map((variant) => {
+    const available = levels[stockKey(productId, variant)];
+    return available == null ? variant : { ...variant, inventory: Math.max(0, available) };
+  });
+}
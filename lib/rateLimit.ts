@@ -7,6 +7,8 @@ type RateLimitOptions = {
   windowMs: number;
   max: number;
   keyPrefix: string;
+  /** Who is limited; defaults to the caller's IP (e.g. pass a user id to limit per account). */
+  identifier?: string;
 };
 
 type Bucket = { count: number; resetAt: number };
@@ -26,7 +28,8 @@ try {
   console.error('[rateLimit] Redis init failed, falling back to in-memory:', e);
 }
 
-function getClientIp(req: any): string {
+/** The caller's IP as seen through the proxy (also used for Turnstile checks). */
+export function getClientIp(req: any): string {
   // Try x-forwarded-for (works for both Next.js and Vercel)
   const forwarded = req.headers['x-forwarded-for'];
   const value = Array.isArray(forwarded) ? forwarded[0] : forwarded;
@@ -51,8 +54,7 @@ export async function checkRateLimit(
   options: RateLimitOptions
 ): Promise<boolean> {
   const now = Date.now();
-  const ip = getClientIp(req);
-  const key = `${options.keyPrefix}:${ip}`;
+  const key = `${options.keyPrefix}:${options.identifier ?? getClientIp(req)}`;
 
   // Prefer Redis when configured so limits are shared across all instances.
   if (redis) {
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandOccurrences,
+  getEventRecurrence,
+  isOccurrenceDate,
+  parseExceptionDates,
+  parseRecurrenceRule,
+  shiftToOccurrence,
+} from './recurrence';
+
+describe('parseRecurrenceRule', () => {
+  it('parses a weekly rule with weekday and end date', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;BYDAY=TU;UNTIL=20260929T235959Z')).toEqual({
+      interval: 1,
+      weekdays: [2],
+      until: '2026-09-29',
+      count: null,
+    });
+  });
+
+  it('returns null for empty input and non-weekly frequencies', () => {
+    expect(parseRecurrenceRule('')).toBeNull();
+    expect(parseRecurrenceRule(null)).toBeNull();
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3')).toBeNull();
+  });
+
+  it('ignores invalid interval and count values', () => {
+    expect(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=0;COUNT=-2')).toEqual({
+      interval: 1,
+      weekdays: [],
+      until: null,
+      count: null,
+    });
+  });
+});
+
+describe('parseExceptionDates', () => {
+  it('accepts mixed separators and formats, dropping duplicates and junk', () => {
+    expect(parseExceptionDates('2026-06-02, 20260526;\n2026-06-02 nope')).toEqual([
+      '2026-05-26',
+      '2026-06-02',
+    ]);
+  });
+});
+
+describe('getEventRecurrence', () => {
+  it('returns null for one-off events', () => {
+    expect(getEventRecurrence({ eventDate: '2026-05-12T18:00:00' })).toBeNull();
+  });
+
+  it('falls back to weekly on the first ride weekday for repeatingEvent', () => {
+    expect(
+      getEventRecurrence({
+        eventDate: '2026-05-12',
+        repeatingEvent: true,
+        repeatUntil: '2026-06-02',
+      })
+    ).toEqual({
+      startDate: '2026-05-12',
+      rule: { interval: 1, weekdays: [], until: '2026-06-02', count: null },
+      exceptions: [],
+    });
+  });
+});
+
+describe('expandOccurrences', () => {
+  const tuesdays = getEventRecurrence({
+    eventDate: '2026-05-12',
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20260609',
+    recurrenceExceptions: '2026-05-26',
+  })!;
+
+  it('expands weekly dates and skips exception dates', () => {
+    expect(expandOccurrences(tuesdays)).toEqual([
+      '2026-05-12',
+      '2026-05-19',
+      '2026-06-02',
+      '2026-06-09',
+    ]);
+  });
+
+  it('applies from and limit', () => {
+    expect(expandOccurrences(tuesdays, { from: '2026-05-20', limit: 1 })).toEqual(['2026-06-02']);
+  });
+
+  it('supports intervals, several weekdays and COUNT', () => {
+    const recurrence = getEventRecurrence({
+      eventDate: '2026-05-12',
+      recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=4',
+    })!;
+    expect(expandOccurrences(recurrence)).toEqual([
+      '2026-05-12',
+      '2026-05-14',
+      '2026-05-26',
+      '2026-05-28',
+    ]);
+  });
+
+  it('validates single dates against the series', () => {
+    expect(isOccurrenceDate(tuesdays, '2026-06-02')).toBe(true);
+    expect(isOccurrenceDate(tuesdays, '2026-05-26')).toBe(false);
+    expect(isOccurrenceDate(tuesdays, '2026-05-13')).toBe(false);
+  });
+});
+
+describe('shiftToOccurrence', () => {
+  it('keeps the lead time of the first ride', () => {
+    expect(shiftToOccurrence('2026-05-05T16:00:00.000Z', '2026-05-12', '2026-05-19')).toBe(
+      '2026-05-12T16:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Recurring ride series helpers.
+ *
+ * A series is a single WordPress `rideEvent` whose ACF `recurrenceRule` describes the days it
+ * repeats on (a weekly subset of RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=TU;UNTIL=20260929")
+ * and whose `recurrenceExceptions` lists dates that are skipped. Every expanded date is an
+ * occurrence with its own registrations (`registrations.occurrence_date`).
+ *
+ * Pure module — no platform-specific imports; safe to use in browser and Node.
+ */
+
+export type RecurrenceRule = {
+  /** Repeat every N weeks (RRULE INTERVAL, default 1). */
+  interval: number;
+  /** JS weekday numbers (0 = Sunday … 6 = Saturday). Empty = weekday of the first ride. */
+  weekdays: number[];
+  /** Last possible occurrence, "YYYY-MM-DD" inclusive. */
+  until: string | null;
+  /** Maximum number of occurrences before exceptions are removed (RRULE COUNT). */
+  count: number | null;
+};
+
+export type EventRecurrence = {
+  /** First ride of the series, "YYYY-MM-DD" (the event's own eventDate). */
+  startDate: string;
+  rule: RecurrenceRule;
+  /** Skipped dates, "YYYY-MM-DD", sorted. */
+  exceptions: string[];
+};
+
+/** Subset of `eventDetails` that describes a series. */
+export type RecurrenceSource = {
+  eventDate?: string | null;
+  repeatingEvent?: boolean | null;
+  repeatUntil?: string | null;
+  recurrenceRule?: string | null;
+  recurrenceExceptions?: string | null;
+};
+
+const BYDAY: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Safety cap so a rule without UNTIL or COUNT never expands forever (~5 seasons of weekly rides). */
+const MAX_OCCURRENCES = 260;
+
+/** Normalize "YYYY-MM-DD", "YYYYMMDD", or an ISO / RRULE datetime to "YYYY-MM-DD". */
+function toIsoDate(raw: string | null | undefined): string | null {
+  const value = raw?.trim();
+  if (!value) return null;
+  const dashed = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (dashed) return `${dashed[1]}-${dashed[2]}-${dashed[3]}`;
+  const compact = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return null;
+}
+
+function dayNumber(isoDate: string): number {
+  return Math.floor(Date.parse(`${isoDate}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a weekly RRULE. Returns null for empty input or unsupported frequencies so callers can
+ * fall back to treating the event as a one-off.
+ */
+export function parseRecurrenceRule(raw: string | null | undefined): RecurrenceRule | null {
+  const value = raw?.trim().replace(/^RRULE:/i, '');
+  if (!value) return null;
+
+  const parts: Record<string, string> = {};
+  for (const segment of value.split(';')) {
+    const [key, val] = segment.split('=');
+    if (key && val) parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+  }
+  if (parts.FREQ !== 'WEEKLY') return null;
+
+  const weekdays = (parts.BYDAY ?? '')
+    .split(',')
+    .map((day) => BYDAY[day.trim()])
+    .filter((day): day is number => typeof day === 'number');
+  const interval = Number(parts.INTERVAL ?? 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+
+  return {
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    weekdays: [...new Set(weekdays)].sort((a, b) => a - b),
+    until: toIsoDate(parts.UNTIL),
+    count: count != null && Number.isInteger(count) && count > 0 ? count : null,
+  };
+}
+
+/** Parse exception dates separated by commas, semicolons, or whitespace. */
+export function parseExceptionDates(raw: string | string[] | null | undefined): string[] {
+  const values = Array.isArray(raw) ? raw : (raw ?? '').split(/[\s,;]+/);
+  const dates = values.map((value) => toIsoDate(value)).filter((d): d is string => Boolean(d));
+  return [...new Set(dates)].sort();
+}
+
+/**
+ * Resolve the series definition of an event. Events flagged `repeatingEvent` without an explicit
+ * rule repeat weekly on the weekday of their first ride until `repeatUntil`.
+ */
+export function getEventRecurrence(
+  source: RecurrenceSource | null | undefined
+): EventRecurrence | null {
+  const startDate = toIsoDate(source?.eventDate);
+  if (!source || !startDate) return null;
+
+  let rule = parseRecurrenceRule(source.recurrenceRule);
+  if (!rule && source.repeatingEvent) {
+    rule = { interval: 1, weekdays: [], until: null, count: null };
+  }
+  if (!rule) return null;
+  if (!rule.until && !rule.count) rule = { ...rule, until: toIsoDate(source.repeatUntil) };
+
+  return { startDate, rule, exceptions: parseExceptionDates(source.recurrenceExceptions) };
+}
+
+/**
+ * Expand a series into its occurrence dates ("YYYY-MM-DD", ascending).
+ * `from` drops dates before it (e.g. today); `limit` caps the result length.
+ */
+export function expandOccurrences(
+  recurrence: EventRecurrence,
+  options: { from?: string; limit?: number } = {}
+): string[] {
+  const { startDate, rule, exceptions } = recurrence;
+  const start = dayNumber(startDate);
+  const startWeekday = new Date(start * DAY_MS).getUTCDay();
+  const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [startWeekday];
+  // Weeks start on Monday (RRULE WKST default).
+  const firstWeekMonday = start - ((startWeekday + 6) % 7);
+  const until = rule.until ? dayNumber(rule.until) : Number.POSITIVE_INFINITY;
+  const skipped = new Set(exceptions);
+  const from = options.from ? toIsoDate(options.from) : null;
+
+  const result: string[] = [];
+  let generated = 0;
+  for (let day = start; day <= until; day++) {
+    if (rule.count != null && generated >= rule.count) break;
+    if (generated >= MAX_OCCURRENCES) break;
+    const week = Math.floor((day - firstWeekMonday) / 7);
+    if (week % rule.interval !== 0) continue;
+    if (!weekdays.includes(new Date(day * DAY_MS).getUTCDay())) continue;
+
+    generated++;
+    const date = fromDayNumber(day);
+    if (skipped.has(date)) continue;
+    if (from && date < from) continue;
+    result.push(date);
+    if (options.limit != null && result.length >= options.limit) break;
+  }
+  return result;
+}
+
+export function isOccurrenceDate(recurrence: EventRecurrence, date: string): boolean {
+  const target = toIsoDate(date);
+  if (!target) return false;
+  return expandOccurrences(recurrence, { from: target, limit: 1 })[0] === target;
+}
+
+/**
+ * Move a timestamp that belongs to the first ride (e.g. `publicReleaseDate`) onto an occurrence,
+ * keeping the same lead time before the ride.
+ */
+export function shiftToOccurrence(
+  isoDateTime: string,
+  startDate: string,
+  occurrenceDate: string
+): string {
+  const time = Date.parse(isoDateTime);
+  if (Number.isNaN(time)) return isoDateTime;
+  const offsetDays = dayNumber(occurrenceDate) - dayNumber(startDate);
+  return new Date(time + offsetDays * DAY_MS).toISOString();
+}
+
+/** Append the occurrence date to a series title for emails, e.g. "Tuesday Ride (Tue, 12 May)". */
+export function formatOccurrenceTitle(eventTitle: string, occurrenceDate: string | null): string {
+  if (!occurrenceDate) return eventTitle;
+  const label = new Date(`${occurrenceDate}T12:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+  return `${eventTitle} (${label})`;
+}
+
+type OccurrenceFilterable = {
+  filter(column: string, operator: string, value: unknown): unknown;
+};
+
+/**
+ * Narrow a Supabase query on `registrations` / `ride_level_cancellations` to one occurrence.
+ * A null date matches one-off events, whose rows have no `occurrence_date`.
+ */
+export function scopeToOccurrence<Q extends OccurrenceFilterable>(
+  query: Q,
+  occurrenceDate: string | null
+): Q {
+  return (
+    occurrenceDate
+      ? query.filter('occurrence_date', 'eq', occurrenceDate)
+      : query.filter('occurrence_date', 'is', null)
+  ) as Q;
+}
@@ -0,0 +1,263 @@
+/**
+ * Notices to the riders of one event level (one occurrence for a recurring series):
+ *
+ * - `cancelRideLevel` records a `ride_level_cancellations` row, cancels the level's registrations
+ *   and emails the riders the reason. The guide `guide-cancel-level` action in api/event.ts uses it,
+ *   and so does lib/guideSwaps.ts when a level loses its last guide.
+ * - `notifyFewerGuides` tells the riders their level goes ahead with fewer guides than planned.
+ *
+ * Server-side only (Supabase service role + Resend).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import { formatOccurrenceTitle, scopeToOccurrence } from './recurrence.js';
+import { fetchRideMeta } from './waitlistOffers.js';
+
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <noreply@kandiegang.com>';
+
+export type RideLevelRef = {
+  eventId: number;
+  /** WordPress level key (level1, level2, level2plus, level3, gravel). */
+  rideLevel: string;
+  /** Occurrence of a recurring series; null for one-off events. */
+  occurrenceDate: string | null;
+};
+
+export type LevelCancellationResult =
+  | { status: 'cancelled'; cancelledCount: number; emailsSent: number }
+  | { status: 'already-cancelled' };
+
+type LevelNotice = {
+  eventTitle: string;
+  rideLevel: string;
+  heading: string;
+  intro: string;
+  label: string;
+  body: string;
+  eventUrl?: string;
+  /** Query tag on the email's links, e.g. `ridecancelled`. */
+  tag: string;
+};
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function formatRideLevel(rideLevel: string): string {
+  const map: Record<string, string> = {
+    level1: 'Level 1',
+    level2: 'Level 2',
+    level2plus: 'Level 2+',
+    level3: 'Level 3',
+    gravel: 'Gravel',
+    workshop: 'Workshop',
+  };
+  return map[rideLevel] ?? rideLevel;
+}
+
+function buildLevelNoticeHtml(notice: LevelNotice): string {
+  const safeTitle = escapeHtml(notice.eventTitle);
+  const levelLabel = escapeHtml(formatRideLevel(notice.rideLevel));
+  const safeHeading = escapeHtml(notice.heading);
+  const safeIntro = escapeHtml(notice.intro);
+  const safeLabel = escapeHtml(notice.label);
+  const safeBody = escapeHtml(notice.body);
+  const safeUrl = notice.eventUrl ? escapeHtml(notice.eventUrl) : undefined;
+  const tag = encodeURIComponent(notice.tag);
+  const pill = safeUrl
+    ? `<a href="${safeUrl}" target="_blank" rel="noopener noreferrer" style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);text-decoration:none;padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${levelLabel}</a>`
+    : `<span style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${levelLabel}</span>`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?${tag}" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">${safeHeading}</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${safeIntro}</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center">${pill}</td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="left" style="padding:0px 40px 24px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(100,100,105);margin:0 0 4px 0;text-transform:uppercase;letter-spacing:0.08em;">${safeLabel}</p><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${safeBody}</p></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">If you have any questions, just reply to this email — we're always happy to help.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?${tag}" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?${tag}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?${tag}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+}
+
+function buildLevelNoticeText(notice: LevelNotice): string {
+  return [
+    notice.heading.replace(/\.$/, ''),
+    '',
+    notice.intro,
+    `${notice.eventTitle} - ${formatRideLevel(notice.rideLevel)}`,
+    '',
+    `${notice.label}:`,
+    notice.body,
+    '',
+    "If you have any questions, just reply to this email — we're always happy to help.",
+    '',
+    "Kandie Gang — It's a love story 💜",
+  ].join('\n');
+}
+
+/** Riders' cancellation email for a cancelled level. */
+function rideCancelledNotice(
+  eventTitle: string,
+  rideLevel: string,
+  reason: string,
+  eventUrl?: string
+): LevelNotice {
+  return {
+    eventTitle,
+    rideLevel,
+    heading: 'Your ride has been cancelled.',
+    intro: "We're sorry to let you know that the following ride has been cancelled:",
+    label: 'Reason',
+    body: reason,
+    eventUrl,
+    tag: 'ridecancelled',
+  };
+}
+
+/** Riders' email for a level that rides with `guideCount` guides instead of `plannedCount`. */
+function fewerGuidesNotice(
+  eventTitle: string,
+  rideLevel: string,
+  guideCount: number,
+  plannedCount: number,
+  eventUrl?: string
+): LevelNotice {
+  const guides = (count: number) => `${count} guide${count === 1 ? '' : 's'}`;
+  return {
+    eventTitle,
+    rideLevel,
+    heading: 'Your ride has fewer guides.',
+    intro: 'A guide for the following ride had to drop out and no standby guide could take over:',
+    label: 'What this means',
+    body: `The ride goes ahead with ${guides(guideCount)} instead of ${guides(plannedCount)}. If you can no longer make it, please cancel your spot on the event page so someone else can ride.`,
+    eventUrl,
+    tag: 'fewerguides',
+  };
+}
+
+/** Active registrations of the level with a resolved email address (member profile fallback). */
+async function loadLevelRiders(
+  adminClient: SupabaseClient<any>,
+  level: RideLevelRef
+): Promise<Array<{ id: string; email: string | null }>> {
+  const { data, error } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, user_id, email')
+      .eq('event_id', level.eventId)
+      .eq('ride_level', level.rideLevel)
+      .is('cancelled_at', null),
+    level.occurrenceDate
+  );
+  if (error) throw new Error(`Could not load registrations: ${error.message}`);
+  const registrations = (data ?? []) as Array<{
+    id: string;
+    user_id: string | null;
+    email: string | null;
+  }>;
+
+  const userIds = registrations
+    .filter((r) => !r.email && r.user_id)
+    .map((r) => r.user_id as string);
+  const profileEmails: Record<string, string> = {};
+  if (userIds.length > 0) {
+    const { data: profiles } = await adminClient
+      .from('profiles')
+      .select('id, email')
+      .in('id', userIds);
+    for (const profile of profiles ?? []) {
+      if (profile.email) profileEmails[profile.id] = profile.email;
+    }
+  }
+  return registrations.map((r) => ({
+    id: r.id,
+    email: r.email ?? (r.user_id ? (profileEmails[r.user_id] ?? null) : null),
+  }));
+}
+
+async function emailRiders(
+  riders: Array<{ email: string | null }>,
+  subject: string,
+  notice: LevelNotice
+): Promise<number> {
+  if (!RESEND_API_KEY) return 0;
+  const resend = new Resend(RESEND_API_KEY);
+  let sent = 0;
+  for (const rider of riders) {
+    if (!rider.email) continue;
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: rider.email,
+        subject,
+        html: buildLevelNoticeHtml(notice),
+        text: buildLevelNoticeText(notice),
+      });
+      sent++;
+    } catch (err) {
+      console.warn('[ride-level-notices] Email send error for', rider.email, err);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Cancel the level: record the cancellation, cancel its registrations and email the riders.
+ * `cancelledBy` is the guide (auth user) the cancellation is recorded for.
+ */
+export async function cancelRideLevel(
+  adminClient: SupabaseClient<any>,
+  level: RideLevelRef & { reason: string; cancelledBy: string }
+): Promise<LevelCancellationResult> {
+  const { data: existing } = await scopeToOccurrence(
+    adminClient
+      .from('ride_level_cancellations')
+      .select('id')
+      .eq('event_id', level.eventId)
+      .eq('ride_level', level.rideLevel),
+    level.occurrenceDate
+  ).maybeSingle();
+  if (existing) return { status: 'already-cancelled' };
+
+  const { error: insertError } = await adminClient.from('ride_level_cancellations').insert({
+    event_id: level.eventId,
+    ride_level: level.rideLevel,
+    cancelled_by: level.cancelledBy,
+    reason: level.reason,
+    occurrence_date: level.occurrenceDate,
+  });
+  if (insertError) throw new Error(`Could not record cancellation: ${insertError.message}`);
+
+  const riders = await loadLevelRiders(adminClient, level);
+  if (riders.length > 0) {
+    await adminClient
+      .from('registrations')
+      .update({ cancelled_at: new Date().toISOString() })
+      .in(
+        'id',
+        riders.map((r) => r.id)
+      );
+  }
+
+  const meta = await fetchRideMeta(level.eventId);
+  const eventTitle = formatOccurrenceTitle(meta.title, level.occurrenceDate);
+  const emailsSent = await emailRiders(
+    riders,
+    `Your ${eventTitle} - ${formatRideLevel(level.rideLevel)} ride has been cancelled`,
+    rideCancelledNotice(eventTitle, level.rideLevel, level.reason, meta.link)
+  );
+  return { status: 'cancelled', cancelledCount: riders.length, emailsSent };
+}
+
+/** Email the level's riders that it rides with fewer guides. Returns the emails sent. */
+export async function notifyFewerGuides(
+  adminClient: SupabaseClient<any>,
+  level: RideLevelRef & { guideCount: number; plannedCount: number }
+): Promise<number> {
+  const riders = await loadLevelRiders(adminClient, level);
+  if (riders.length === 0) return 0;
+  const meta = await fetchRideMeta(level.eventId);
+  const eventTitle = formatOccurrenceTitle(meta.title, level.occurrenceDate);
+  return emailRiders(
+    riders,
+    `Fewer guides on your ${eventTitle} - ${formatRideLevel(level.rideLevel)} ride`,
+    fewerGuidesNotice(eventTitle, level.rideLevel, level.guideCount, level.plannedCount, meta.link)
+  );
+}
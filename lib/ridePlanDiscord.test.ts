@@ -0,0 +1,122 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, it, expect } from 'vitest';
+import {
+  buildRidePlanMessage,
+  ridePlanContent,
+  sendRidePlanToDiscord,
+  type RidePlanMessageAssignment,
+  type RidePlanMessageGuide,
+} from './ridePlanDiscord';
+import type { RideSlot } from './rideSlots';
+
+const slot: Pick<RideSlot, 'title' | 'levels'> = { title: 'Social Ride', levels: ['2', '3'] };
+
+const guides: RidePlanMessageGuide[] = [
+  { id: 'g1', display_name: 'Anna Berg', username: 'anna', discord_id: '112233445566778899' },
+  { id: 'g2', display_name: 'Ben Roth', username: null, discord_id: null },
+  { id: 'g3', display_name: 'Cleo', username: 'cleo', discord_id: '998877665544332211' },
+];
+
+const assignments: RidePlanMessageAssignment[] = [
+  { ride_date: '2026-06-09', ride_level: '2', decision_status: 'assigned', guide_profile_id: 'g1' },
+  { ride_date: '2026-06-09', ride_level: '2', decision_status: 'assigned', guide_profile_id: 'g2' },
+  { ride_date: '2026-06-09', ride_level: '3', decision_status: 'standby', guide_profile_id: 'g3' },
+];
+
+describe('buildRidePlanMessage', () => {
+  it('lists the slot levels and Springer with hand-typed handles for the copy text', () => {
+    const message = buildRidePlanMessage({
+      slot,
+      rideDate: '2026-06-09',
+      assignments,
+      guides,
+    });
+    expect(message.title).toBe('2026-06-09 Tuesday Social Ride');
+    expect(message.message).toBe(
+      ['Level 2', '@anna @BenRoth', '', 'Level 3', '—', '', 'Springer', '@cleo'].join('\n')
+    );
+    expect(message.mentionIds).toEqual([]);
+  });
+
+  it('mentions guides by Discord id and keeps the handle for guides without one', () => {
+    const message = buildRidePlanMessage({
+      slot,
+      rideDate: '2026-06-09',
+      assignments,
+      guides,
+      mentions: true,
+    });
+    expect(message.message).toContain('<@112233445566778899> @BenRoth');
+    expect(message.message).toContain('Springer\n<@998877665544332211>');
+    expect(message.mentionIds).toEqual(['112233445566778899', '998877665544332211']);
+    expect(ridePlanContent(message).startsWith('**2026-06-09 Tuesday Social Ride**\n\n')).toBe(
+      true
+    );
+  });
+});
+
+describe('sendRidePlanToDiscord (stub webhook server)', () => {
+  type StubRequest = { method: string; url: string; body: Record<string, unknown> };
+  let server: Server;
+  let webhookUrl: string;
+  let requests: StubRequest[] = [];
+  let missingMessages = new Set<string>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method ?? '', url: req.url ?? '', body: JSON.parse(raw) });
+        const messageId = /\/messages\/(\w+)/.exec(req.url ?? '')?.[1];
+        if (messageId && missingMessages.has(messageId)) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id: messageId ?? `msg${requests.length}` }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests = [];
+    missingMessages = new Set();
+  });
+
+  const message = { title: 'Plan', message: 'Level 2\n<@1>', mentionIds: ['1'] };
+
+  it('posts a new message and returns its id', async () => {
+    const result = await sendRidePlanToDiscord(message, null, webhookUrl);
+    expect(result).toEqual({ success: true, messageId: 'msg1', edited: false });
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/api/webhooks/1/token?wait=true');
+    expect(requests[0].body.allowed_mentions).toEqual({ parse: [], users: ['1'] });
+  });
+
+  it('edits the earlier message in place', async () => {
+    const result = await sendRidePlanToDiscord(message, 'msg7', `${webhookUrl}?thread_id=42`);
+    expect(result).toEqual({ success: true, messageId: 'msg7', edited: true });
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'PATCH /api/webhooks/1/token/messages/msg7?thread_id=42',
+    ]);
+  });
+
+  it('posts again when the earlier message was deleted in Discord', async () => {
+    missingMessages.add('msg7');
+    const result = await sendRidePlanToDiscord(message, 'msg7', webhookUrl);
+    expect(result).toEqual({ success: true, messageId: 'msg2', edited: false });
+    expect(requests.map((request) => request.method)).toEqual(['PATCH', 'POST']);
+  });
+
+  it('skips without a webhook URL', async () => {
+    const result = await sendRidePlanToDiscord(message, null, '');
+    expect(result.skipped).toBe(true);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Discord message for a guide ride plan: the text `build-discord-copy` returns for pasting, and
+ * the message `publish-plan` posts to the guides' channel by webhook
+ * (`DISCORD_RIDE_PLAN_WEBHOOK_URL`). Posted messages mention guides by their `profiles.discord_id`
+ * and are edited in place when the published plan changes (`guide_ride_plans.discord_message_id`).
+ *
+ * Server-side only.
+ */
+import { levelLabel, type RideSlot } from './rideSlots.js';
+
+/** Discord rejects message content longer than this. */
+const MAX_CONTENT_LENGTH = 2000;
+
+export type RidePlanMessageGuide = {
+  id: string;
+  display_name: string | null;
+  username: string | null;
+  discord_id: string | null;
+};
+
+export type RidePlanMessageAssignment = {
+  ride_date: string;
+  ride_level: string;
+  decision_status: string;
+  guide_profile_id: string;
+};
+
+export type RidePlanMessage = {
+  title: string;
+  message: string;
+  /** Discord user ids mentioned in `message` (empty for the copy text). */
+  mentionIds: string[];
+};
+
+export type RidePlanDiscordResult = {
+  success: boolean;
+  skipped?: boolean;
+  /** The posted (or edited) message. */
+  messageId?: string;
+  /** True when an existing message was edited rather than a new one posted. */
+  edited?: boolean;
+  error?: string;
+};
+
+/** Guessed `@handle` from the username or display name, as typed by hand in Discord. */
+export function guideHandle(guide: Pick<RidePlanMessageGuide, 'username' | 'display_name'> | null) {
+  if (guide?.username?.trim()) {
+    const trimmed = guide.username.trim();
+    return trimmed.startsWith('@') ? trimmed : `@${trimmed}`;
+  }
+  if (guide?.display_name?.trim()) {
+    return `@${guide.display_name.trim().replace(/\s+/g, '')}`;
+  }
+  return '@unknown-guide';
+}
+
+/** A Discord user id (snowflake), or null. */
+export function discordUserId(guide: Pick<RidePlanMessageGuide, 'discord_id'> | null) {
+  const id = guide?.discord_id?.trim();
+  return id && /^\d{15,21}$/.test(id) ? id : null;
+}
+
+function formatWeekday(dateIso: string): string {
+  return new Date(`${dateIso}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * The plan message: one section per slot level with its assigned guides, then Springer.
+ * With `mentions`, guides with a Discord id are mentioned (`<@id>`); the others keep their handle.
+ */
+export function buildRidePlanMessage(params: {
+  slot: Pick<RideSlot, 'title' | 'levels'>;
+  rideDate: string;
+  assignments: RidePlanMessageAssignment[];
+  guides: RidePlanMessageGuide[];
+  mentions?: boolean;
+}): RidePlanMessage {
+  const guideById = new Map(params.guides.map((guide) => [guide.id, guide]));
+  const mentionIds = new Set<string>();
+  const tag = (guideId: string) => {
+    const guide = guideById.get(guideId) ?? null;
+    const discordId = params.mentions ? discordUserId(guide) : null;
+    if (!discordId) return guideHandle(guide);
+    mentionIds.add(discordId);
+    return `<@${discordId}>`;
+  };
+  const tags = (rows: RidePlanMessageAssignment[]) =>
+    rows.length ? rows.map((row) => tag(row.guide_profile_id)).join(' ') : '—';
+
+  const assigned = params.assignments.filter((row) => row.decision_status === 'assigned');
+  const standby = params.assignments.filter((row) => row.decision_status === 'standby');
+  const titleDate = assigned[0]?.ride_date ?? params.rideDate;
+  const title = `${titleDate} ${formatWeekday(titleDate)} ${params.slot.title}`;
+  const message = [
+    ...params.slot.levels.flatMap((level) => [
+      levelLabel(level),
+      tags(
+        assigned
+          .filter((row) => row.ride_level === level)
+          .sort((a, b) => a.ride_date.localeCompare(b.ride_date))
+      ),
+      '',
+    ]),
+    'Springer',
+    tags(standby),
+  ].join('\n');
+  return { title, message, mentionIds: [...mentionIds] };
+}
+
+/** Message content for the webhook: bold title, then the plan, cut to Discord's limit. */
+export function ridePlanContent(message: RidePlanMessage): string {
+  const content = `**${message.title}**\n\n${message.message}`;
+  return content.length > MAX_CONTENT_LENGTH
+    ? `${content.slice(0, MAX_CONTENT_LENGTH - 1)}…`
+    : content;
+}
+
+async function sendWebhook(url: string, method: 'POST' | 'PATCH', body: Record<string, unknown>) {
+  return fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  });
+}
+
+/**
+ * Post the plan message, or edit `messageId` when the plan was posted before. A message deleted in
+ * Discord is posted again. Only the guides in `mentionIds` are pinged.
+ */
+export async function sendRidePlanToDiscord(
+  message: RidePlanMessage,
+  messageId: string | null,
+  webhookUrl = process.env.DISCORD_RIDE_PLAN_WEBHOOK_URL
+): Promise<RidePlanDiscordResult> {
+  if (!webhookUrl) {
+    return { success: true, skipped: true, error: 'DISCORD_RIDE_PLAN_WEBHOOK_URL is not set' };
+  }
+  const body = {
+    username: 'Kandie Gang Ride Planning',
+    content: ridePlanContent(message),
+    allowed_mentions: { parse: [], users: message.mentionIds },
+  };
+  // Query parameters (e.g. thread_id) apply to both posting and editing.
+  const webhookUrlFor = (path: string, wait = false) => {
+    const url = new URL(webhookUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}${path}`;
+    if (wait) url.searchParams.set('wait', 'true');
+    return url.toString();
+  };
+
+  try {
+    if (messageId) {
+      const response = await sendWebhook(webhookUrlFor(`/messages/${messageId}`), 'PATCH', body);
+      if (response.ok) return { success: true, messageId, edited: true };
+      if (response.status !== 404) {
+        return { success: false, error: `Discord webhook returned ${response.status}` };
+      }
+    }
+    // wait=true makes Discord return the message, whose id later edits need.
+    const response = await sendWebhook(webhookUrlFor('', true), 'POST', body);
+    if (!response.ok) {
+      return { success: false, error: `Discord webhook returned ${response.status}` };
+    }
+    const posted = (await response.json().catch(() => null)) as { id?: string } | null;
+    if (!posted?.id) return { success: false, error: 'Discord webhook returned no message id' };
+    return { success: true, messageId: posted.id, edited: false };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
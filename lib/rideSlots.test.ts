@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isSlotDate,
+  levelForChoice,
+  parseRideSlotInput,
+  slotChoices,
+  slotDates,
+  slotDatesToOpen,
+  type RideSlot,
+} from './rideSlots';
+
+const gravel: RideSlot = {
+  id: 'slot-gravel',
+  title: 'Gravel Ride',
+  weekday: 6,
+  levels: ['gravel'],
+  guidesPerLevel: 2,
+  seasonStart: '2026-04-01',
+  seasonEnd: '2026-10-31',
+  weeksAhead: 4,
+  isActive: true,
+};
+
+describe('slotDates', () => {
+  it('lists the slot weekday inside both the range and the season', () => {
+    expect(slotDates(gravel, '2026-03-20', '2026-04-20')).toEqual([
+      '2026-04-04',
+      '2026-04-11',
+      '2026-04-18',
+    ]);
+    expect(slotDates(gravel, '2026-10-20', '2026-11-30')).toEqual(['2026-10-24', '2026-10-31']);
+  });
+
+  it('includes the start date when it is a ride day', () => {
+    expect(slotDates({ ...gravel, weekday: 2 }, '2026-05-12', '2026-05-19')).toEqual([
+      '2026-05-12',
+      '2026-05-19',
+    ]);
+  });
+});
+
+describe('slotDatesToOpen', () => {
+  it('opens the weeks ahead of today, and none for inactive slots', () => {
+    expect(slotDatesToOpen(gravel, '2026-06-01')).toEqual([
+      '2026-06-06',
+      '2026-06-13',
+      '2026-06-20',
+      '2026-06-27',
+    ]);
+    expect(slotDatesToOpen({ ...gravel, isActive: false }, '2026-06-01')).toEqual([]);
+  });
+});
+
+describe('slot levels and choices', () => {
+  it('checks the weekday of a ride date', () => {
+    expect(isSlotDate(gravel, '2026-06-06')).toBe(true);
+    expect(isSlotDate(gravel, '2026-06-09')).toBe(false);
+  });
+
+  it('offers the slot levels as WordPress level keys, then the non-guiding choices', () => {
+    expect(slotChoices({ levels: ['2+', '3'] })).toEqual([
+      'level2plus',
+      'level3',
+      'participant',
+      'no_time',
+      'injured',
+    ]);
+    expect(levelForChoice('gravel')).toBe('gravel');
+    expect(levelForChoice('participant')).toBeNull();
+  });
+});
+
+describe('parseRideSlotInput', () => {
+  const body = {
+    title: ' Thursday Training ',
+    weekday: 4,
+    levels: ['3', '2+'],
+    guidesPerLevel: 1,
+    seasonStart: '2026-05-07',
+    seasonEnd: '2026-09-24',
+  };
+
+  it('normalizes a valid slot and sorts its levels into ride order', () => {
+    const result = parseRideSlotInput(body);
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        title: 'Thursday Training',
+        weekday: 4,
+        levels: ['2+', '3'],
+        guidesPerLevel: 1,
+        seasonStart: '2026-05-07',
+        seasonEnd: '2026-09-24',
+        weeksAhead: 8,
+        isActive: true,
+      },
+    });
+  });
+
+  it('rejects unknown levels, bad weekdays and reversed seasons', () => {
+    expect(parseRideSlotInput({ ...body, levels: ['4'] }).ok).toBe(false);
+    expect(parseRideSlotInput({ ...body, weekday: 7 }).ok).toBe(false);
+    expect(parseRideSlotInput({ ...body, seasonEnd: '2026-05-01' }).ok).toBe(false);
+  });
+});
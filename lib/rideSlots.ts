@@ -0,0 +1,276 @@
+/**
+ * Ride slots for guide ride planning (`guide_ride_slots`, see the `create_guide_ride_slots`
+ * migration). A slot is a recurring ride — weekday, levels offered, guides needed per level and the
+ * season it runs in — and every planning week belongs to one. The slot drives:
+ *
+ * - opening planning weeks (`openRidePlanWeeks`: daily send-reminders run and on save),
+ * - which dates and levels lib/guideRidePlanning.ts accepts,
+ * - the level choices and rows in the Ride Planning tab, and the Discord copy.
+ *
+ * Level choices use the WordPress event level keys (level1, level2, level2plus, level3, gravel).
+ * Pure helpers are shared with the frontend; the Supabase functions are server-side only.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const RIDE_LEVEL_OPTIONS = [
+  { level: '1', choice: 'level1', label: 'Level 1' },
+  { level: '2', choice: 'level2', label: 'Level 2' },
+  { level: '2+', choice: 'level2plus', label: 'Level 2+' },
+  { level: '3', choice: 'level3', label: 'Level 3' },
+  { level: 'gravel', choice: 'gravel', label: 'Gravel' },
+] as const;
+
+export type PlanLevel = (typeof RIDE_LEVEL_OPTIONS)[number]['level'];
+export type PlanLevelChoice = (typeof RIDE_LEVEL_OPTIONS)[number]['choice'];
+
+/** Availability choices that do not put the guide on a level. */
+export const NON_GUIDING_CHOICES = ['participant', 'no_time', 'injured'] as const;
+
+export const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+export type RideSlot = {
+  id: string;
+  title: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  weekday: number;
+  /** In ride order. */
+  levels: PlanLevel[];
+  guidesPerLevel: number;
+  seasonStart: string;
+  seasonEnd: string;
+  /** How far ahead planning weeks are opened. */
+  weeksAhead: number;
+  isActive: boolean;
+};
+
+export type RideSlotInput = Omit<RideSlot, 'id'>;
+
+type RideSlotRow = {
+  id: string;
+  title: string;
+  weekday: number;
+  levels: string[] | null;
+  guides_per_level: number;
+  season_start: string;
+  season_end: string;
+  weeks_ahead: number;
+  is_active: boolean;
+};
+
+const SLOT_COLUMNS =
+  'id, title, weekday, levels, guides_per_level, season_start, season_end, weeks_ahead, is_active';
+
+export function isPlanLevel(value: string): value is PlanLevel {
+  return RIDE_LEVEL_OPTIONS.some((option) => option.level === value);
+}
+
+export function levelLabel(level: string): string {
+  return RIDE_LEVEL_OPTIONS.find((option) => option.level === level)?.label ?? `Level ${level}`;
+}
+
+export function choiceForLevel(level: string): PlanLevelChoice | null {
+  return RIDE_LEVEL_OPTIONS.find((option) => option.level === level)?.choice ?? null;
+}
+
+export function levelForChoice(choice: string): PlanLevel | null {
+  return RIDE_LEVEL_OPTIONS.find((option) => option.choice === choice)?.level ?? null;
+}
+
+/** Level choices of the slot (in ride order), then the non-guiding ones. */
+export function slotChoices(slot: Pick<RideSlot, 'levels'>): string[] {
+  return [...slot.levels.map((level) => choiceForLevel(level) ?? level), ...NON_GUIDING_CHOICES];
+}
+
+export function weekdayOf(dateIso: string): number {
+  return new Date(`${dateIso}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(dateIso: string, days: number): string {
+  const date = new Date(`${dateIso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** True when the slot rides on this date (weekday only; extra dates outside the season are fine). */
+export function isSlotDate(slot: Pick<RideSlot, 'weekday'>, dateIso: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(dateIso) && weekdayOf(dateIso) === slot.weekday;
+}
+
+/** Ride dates of the slot's season between `fromIso` and `untilIso` (inclusive). */
+export function slotDates(
+  slot: Pick<RideSlot, 'weekday' | 'seasonStart' | 'seasonEnd'>,
+  fromIso: string,
+  untilIso: string
+): string[] {
+  const start = fromIso > slot.seasonStart ? fromIso : slot.seasonStart;
+  const end = untilIso < slot.seasonEnd ? untilIso : slot.seasonEnd;
+  const dates: string[] = [];
+  let cursor = addDays(start, (slot.weekday - weekdayOf(start) + 7) % 7);
+  while (cursor <= end) {
+    dates.push(cursor);
+    cursor = addDays(cursor, 7);
+  }
+  return dates;
+}
+
+/** Dates that should have an open planning week on `todayIso`. */
+export function slotDatesToOpen(slot: RideSlot, todayIso: string): string[] {
+  if (!slot.isActive) return [];
+  return slotDates(slot, todayIso, addDays(todayIso, slot.weeksAhead * 7));
+}
+
+function integerIn(value: unknown, min: number, max: number): number | null {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
+
+/** Validate a slot from the coordinator form. Levels come back in ride order. */
+export function parseRideSlotInput(
+  body: Record<string, unknown>
+): { ok: true; value: RideSlotInput } | { ok: false; error: string } {
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  if (!title || title.length > 80) {
+    return { ok: false, error: 'title is required (max 80 characters)' };
+  }
+  const weekday = integerIn(body.weekday, 0, 6);
+  if (weekday === null) return { ok: false, error: 'weekday must be 0 (Sunday) to 6 (Saturday)' };
+  const requested = Array.isArray(body.levels) ? body.levels.map(String) : [];
+  if (requested.length === 0 || !requested.every(isPlanLevel)) {
+    return {
+      ok: false,
+      error: `levels must be a non-empty list of: ${RIDE_LEVEL_OPTIONS.map((option) => option.level).join(', ')}`,
+    };
+  }
+  const levels = RIDE_LEVEL_OPTIONS.map((option) => option.level).filter((level) =>
+    requested.includes(level)
+  );
+  const guidesPerLevel = integerIn(body.guidesPerLevel, 1, 10);
+  if (guidesPerLevel === null) return { ok: false, error: 'guidesPerLevel must be 1 to 10' };
+  const seasonStart = typeof body.seasonStart === 'string' ? body.seasonStart : '';
+  const seasonEnd = typeof body.seasonEnd === 'string' ? body.seasonEnd : '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(seasonStart) || !/^\d{4}-\d{2}-\d{2}$/.test(seasonEnd)) {
+    return { ok: false, error: 'seasonStart and seasonEnd must be YYYY-MM-DD' };
+  }
+  if (seasonEnd < seasonStart) {
+    return { ok: false, error: 'seasonEnd must not be before seasonStart' };
+  }
+  const weeksAhead = body.weeksAhead == null ? 8 : integerIn(body.weeksAhead, 1, 26);
+  if (weeksAhead === null) return { ok: false, error: 'weeksAhead must be 1 to 26' };
+  return {
+    ok: true,
+    value: {
+      title,
+      weekday,
+      levels,
+      guidesPerLevel,
+      seasonStart,
+      seasonEnd,
+      weeksAhead,
+      isActive: body.isActive !== false,
+    },
+  };
+}
+
+function toRideSlot(row: RideSlotRow): RideSlot {
+  return {
+    id: row.id,
+    title: row.title,
+    weekday: row.weekday,
+    levels: (row.levels ?? []).filter(isPlanLevel),
+    guidesPerLevel: row.guides_per_level,
+    seasonStart: row.season_start,
+    seasonEnd: row.season_end,
+    weeksAhead: row.weeks_ahead,
+    isActive: row.is_active,
+  };
+}
+
+function toRideSlotRow(input: RideSlotInput) {
+  return {
+    title: input.title,
+    weekday: input.weekday,
+    levels: input.levels,
+    guides_per_level: input.guidesPerLevel,
+    season_start: input.seasonStart,
+    season_end: input.seasonEnd,
+    weeks_ahead: input.weeksAhead,
+    is_active: input.isActive,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** All slots, active first, then by weekday. */
+export async function listRideSlots(adminClient: SupabaseClient<any>): Promise<RideSlot[]> {
+  const { data, error } = await adminClient
+    .from('guide_ride_slots')
+    .select(SLOT_COLUMNS)
+    .order('is_active', { ascending: false })
+    .order('weekday', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Could not load ride slots: ${error.message}`);
+  return ((data ?? []) as RideSlotRow[]).map(toRideSlot);
+}
+
+export async function getRideSlot(
+  adminClient: SupabaseClient<any>,
+  slotId: string
+): Promise<RideSlot | null> {
+  if (!slotId) return null;
+  const { data, error } = await adminClient
+    .from('guide_ride_slots')
+    .select(SLOT_COLUMNS)
+    .eq('id', slotId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load ride slot: ${error.message}`);
+  return data ? toRideSlot(data as RideSlotRow) : null;
+}
+
+/** Create a slot, or update it when `slotId` is given. */
+export async function saveRideSlot(
+  adminClient: SupabaseClient<any>,
+  input: RideSlotInput,
+  slotId?: string
+): Promise<RideSlot> {
+  const query = slotId
+    ? adminClient.from('guide_ride_slots').update(toRideSlotRow(input)).eq('id', slotId)
+    : adminClient.from('guide_ride_slots').insert(toRideSlotRow(input));
+  const { data, error } = await query.select(SLOT_COLUMNS).single();
+  if (error || !data) {
+    throw new Error(`Could not save ride slot: ${error?.message ?? 'no slot returned'}`);
+  }
+  return toRideSlot(data as RideSlotRow);
+}
+
+/**
+ * Open the draft planning weeks each active slot needs on `todayIso`. Existing weeks are left
+ * as they are (finalized and published plans stay locked). Returns how many weeks were opened.
+ */
+export async function openRidePlanWeeks(
+  adminClient: SupabaseClient<any>,
+  todayIso: string,
+  slots?: RideSlot[]
+): Promise<number> {
+  const rows = (slots ?? (await listRideSlots(adminClient))).flatMap((slot) =>
+    slotDatesToOpen(slot, todayIso).map((date) => ({
+      slot_id: slot.id,
+      week_start_date: date,
+      status: 'draft',
+      notes: `Auto-opened from ride slot "${slot.title}"`,
+    }))
+  );
+  if (rows.length === 0) return 0;
+  const { data, error } = await adminClient
+    .from('guide_ride_plans')
+    .upsert(rows, { onConflict: 'slot_id,week_start_date', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(`Could not open planning weeks: ${error.message}`);
+  return data?.length ?? 0;
+}
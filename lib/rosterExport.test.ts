@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRosterCsv,
+  buildRosterSheetHtml,
+  buildRosterVcards,
+  rosterFilename,
+  sortRoster,
+  type RosterEntry,
+} from './rosterExport';
+import { CURRENT_WAIVER_VERSION } from './waivers';
+
+const rider = (overrides: Partial<RosterEntry>): RosterEntry => ({
+  firstName: 'Anna',
+  lastName: 'Berg',
+  email: 'anna@example.com',
+  isWaitlist: false,
+  waitlistPosition: null,
+  flintaAttested: false,
+  checkedIn: false,
+  emergencyNotes: null,
+  waiverVersion: CURRENT_WAIVER_VERSION,
+  ...overrides,
+});
+
+const header = {
+  eventTitle: 'Tuesday Social',
+  levelLabel: 'Level 2+',
+  rideDate: '2026-05-12',
+  rideTime: '18:30',
+};
+
+describe('sortRoster', () => {
+  it('lists confirmed riders by name, then the waitlist in queue order', () => {
+    const sorted = sortRoster([
+      rider({ firstName: 'Zoe', isWaitlist: true, waitlistPosition: 2 }),
+      rider({ firstName: 'Max' }),
+      rider({ firstName: 'Ida', isWaitlist: true, waitlistPosition: 1 }),
+      rider({ firstName: 'Bea' }),
+    ]);
+    expect(sorted.map((e) => e.firstName)).toEqual(['Bea', 'Max', 'Ida', 'Zoe']);
+  });
+});
+
+describe('buildRosterCsv', () => {
+  it('quotes cells and neutralises spreadsheet formulas', () => {
+    const csv = buildRosterCsv([
+      rider({
+        lastName: 'Berg, "Speedy"',
+        emergencyNotes: '=HYPERLINK("x")',
+        flintaAttested: true,
+      }),
+    ]);
+    const [head, line] = csv.replace('\uFEFF', '').trim().split('\r\n');
+    expect(head.split(',')).toContain('emergency_notes');
+    expect(line).toContain('"Berg, ""Speedy"""');
+    expect(line).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(line).toContain(`"confirmed","","yes","no","accepted (${CURRENT_WAIVER_VERSION})"`);
+  });
+});
+
+describe('buildRosterSheetHtml', () => {
+  it('escapes names and splits confirmed riders from the waitlist', () => {
+    const html = buildRosterSheetHtml(header, [
+      rider({ firstName: '<b>Eve</b>' }),
+      rider({ firstName: 'Ida', isWaitlist: true, waitlistPosition: 1 }),
+    ]);
+    expect(html).toContain('&lt;b&gt;Eve&lt;/b&gt;');
+    expect(html).toContain('Confirmed (1)');
+    expect(html).toContain('Waitlist (1)');
+    expect(html).toContain('>W1<');
+    expect(html).toContain('class="waiver">accepted');
+    expect(html).not.toMatch(/<script|<link/);
+  });
+
+  it('flags riders without an accepted waiver', () => {
+    const html = buildRosterSheetHtml(header, [rider({ waiverVersion: null })]);
+    expect(html).toContain('class="waiver missing">missing<');
+  });
+});
+
+describe('buildRosterVcards', () => {
+  it('emits one card per rider with escaped fields', () => {
+    const vcf = buildRosterVcards(header, [
+      rider({ emergencyNotes: 'Asthma; inhaler in jersey' }),
+      rider({ firstName: 'Ida', email: null, isWaitlist: true, waitlistPosition: 1 }),
+    ]);
+    expect(vcf.match(/BEGIN:VCARD/g)).toHaveLength(2);
+    expect(vcf).toContain('N:Berg;Anna;;;');
+    expect(vcf).toContain('NOTE:Confirmed\\nEmergency: Asthma\\; inhaler in jersey');
+    expect(vcf).toContain('NOTE:Waitlist #1');
+  });
+});
+
+describe('rosterFilename', () => {
+  it('builds a date and level based file name', () => {
+    expect(rosterFilename(header, 'csv')).toBe('roster-2026-05-12-level-2plus.csv');
+    expect(rosterFilename(header, 'sheet')).toBe('roster-2026-05-12-level-2plus-sign-in.html');
+    expect(rosterFilename({ rideDate: null, levelLabel: 'Workshop' }, 'vcard')).toBe(
+      'roster-undated-workshop.vcf'
+    );
+  });
+});
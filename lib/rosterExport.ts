@@ -0,0 +1,248 @@
+/**
+ * Guide roster exports for one (event, ride level): CSV, a printable sign-in sheet and a vCard
+ * bundle. The sheet is a self-contained HTML document (inline styles, no scripts or external
+ * assets) so it can be saved to a phone, opened offline at the meeting point, or printed / saved
+ * as PDF from the browser.
+ */
+
+import { getWaiverStatus } from './waivers.js';
+
+export type RosterFormat = 'csv' | 'sheet' | 'vcard';
+
+export const ROSTER_FORMATS: RosterFormat[] = ['csv', 'sheet', 'vcard'];
+
+export type RosterEntry = {
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  isWaitlist: boolean;
+  /** 1-based position on the waitlist; null for confirmed riders. */
+  waitlistPosition: number | null;
+  flintaAttested: boolean;
+  checkedIn: boolean;
+  emergencyNotes: string | null;
+  /** Waiver version accepted at signup; null when no acceptance is on record. */
+  waiverVersion: string | null;
+};
+
+export type RosterHeader = {
+  eventTitle: string;
+  levelLabel: string;
+  /** YYYY-MM-DD of the ride (occurrence date for series). */
+  rideDate: string | null;
+  rideTime?: string | null;
+  meetingPoint?: string | null;
+};
+
+export function isRosterFormat(value: unknown): value is RosterFormat {
+  return typeof value === 'string' && (ROSTER_FORMATS as string[]).includes(value);
+}
+
+function fullName(entry: RosterEntry): string {
+  return [entry.firstName, entry.lastName].filter(Boolean).join(' ').trim() || 'Unnamed rider';
+}
+
+/** Confirmed riders first (alphabetical), then the waitlist in queue order. */
+export function sortRoster(entries: RosterEntry[]): RosterEntry[] {
+  const confirmed = entries
+    .filter((e) => !e.isWaitlist)
+    .sort((a, b) => fullName(a).localeCompare(fullName(b), 'de'));
+  const waitlisted = entries
+    .filter((e) => e.isWaitlist)
+    .sort((a, b) => (a.waitlistPosition ?? Infinity) - (b.waitlistPosition ?? Infinity));
+  return [...confirmed, ...waitlisted];
+}
+
+function waiverLabel(entry: RosterEntry): string {
+  const status = getWaiverStatus(entry.waiverVersion);
+  if (status === 'missing') return 'missing';
+  return status === 'current'
+    ? `accepted (${entry.waiverVersion})`
+    : `outdated (${entry.waiverVersion})`;
+}
+
+function csvCell(value: string): string {
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheet apps.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function buildRosterCsv(entries: RosterEntry[]): string {
+  const header = [
+    'first_name',
+    'last_name',
+    'email',
+    'status',
+    'waitlist_position',
+    'flinta',
+    'checked_in',
+    'waiver',
+    'emergency_notes',
+  ];
+  const lines = [header.join(',')];
+  for (const entry of sortRoster(entries)) {
+    lines.push(
+      [
+        entry.firstName ?? '',
+        entry.lastName ?? '',
+        entry.email ?? '',
+        entry.isWaitlist ? 'waitlist' : 'confirmed',
+        entry.waitlistPosition != null ? String(entry.waitlistPosition) : '',
+        entry.flintaAttested ? 'yes' : 'no',
+        entry.checkedIn ? 'yes' : 'no',
+        waiverLabel(entry),
+        entry.emergencyNotes ?? '',
+      ]
+        .map(csvCell)
+        .join(',')
+    );
+  }
+  // BOM so Excel opens umlauts correctly.
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function formatSheetDate(date: string | null): string {
+  if (!date) return '';
+  const parsed = new Date(`${date.slice(0, 10)}T12:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Europe/Berlin',
+  });
+}
+
+export function buildRosterSheetHtml(header: RosterHeader, entries: RosterEntry[]): string {
+  const sorted = sortRoster(entries);
+  const confirmed = sorted.filter((e) => !e.isWaitlist);
+  const waitlisted = sorted.filter((e) => e.isWaitlist);
+  const title = `${header.eventTitle} – ${header.levelLabel}`;
+  const meta = [formatSheetDate(header.rideDate), header.rideTime, header.meetingPoint]
+    .filter(Boolean)
+    .map((part) => escapeHtml(String(part)))
+    .join(' · ');
+
+  const row = (entry: RosterEntry, index: number) => {
+    const label = entry.isWaitlist ? `W${entry.waitlistPosition ?? index + 1}` : String(index + 1);
+    return `<tr>
+      <td class="num">${label}</td>
+      <td>${escapeHtml(fullName(entry))}${entry.flintaAttested ? ' <span class="tag">FLINTA</span>' : ''}</td>
+      <td class="waiver${getWaiverStatus(entry.waiverVersion) === 'current' ? '' : ' missing'}">${escapeHtml(waiverLabel(entry))}</td>
+      <td class="notes">${entry.emergencyNotes ? escapeHtml(entry.emergencyNotes).replace(/\n/g, '<br>') : ''}</td>
+      <td class="box">${entry.checkedIn ? '&#10003;' : ''}</td>
+      <td class="sign"></td>
+    </tr>`;
+  };
+
+  const table = (rows: RosterEntry[]) => `<table>
+    <thead><tr><th class="num">#</th><th>Name</th><th class="waiver">Waiver</th><th>Emergency notes</th><th class="box">Here</th><th class="sign">Signature</th></tr></thead>
+    <tbody>${rows.map(row).join('')}</tbody>
+  </table>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} – Sign-in sheet</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #1a1a1a; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; color: #46519C; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  p.meta { margin: 0 0 16px; color: #555; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #999; padding: 8px 6px; text-align: left; vertical-align: top; }
+  th { background: #f2f2f2; }
+  .num { width: 32px; text-align: center; }
+  .box { width: 44px; text-align: center; }
+  .sign { width: 24%; }
+  .notes { width: 26%; color: #8a1c1c; }
+  .waiver { width: 90px; font-size: 11px; }
+  .waiver.missing { color: #8a4b00; font-weight: bold; }
+  .tag { font-size: 10px; border: 1px solid #46519C; color: #46519C; border-radius: 8px; padding: 0 4px; }
+  footer { margin-top: 16px; font-size: 11px; color: #777; }
+  @media print {
+    body { margin: 12mm; }
+    tr { page-break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${meta ? `<p class="meta">${meta}</p>` : ''}
+<h2>Confirmed (${confirmed.length})</h2>
+${confirmed.length > 0 ? table(confirmed) : '<p class="meta">No confirmed riders.</p>'}
+${waitlisted.length > 0 ? `<h2>Waitlist (${waitlisted.length})</h2>\n${table(waitlisted)}` : ''}
+<footer>Contains personal data – please destroy after the ride.</footer>
+</body>
+</html>
+`;
+}
+
+function vcardEscape(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** One vCard 3.0 per rider, concatenated into a single .vcf file. */
+export function buildRosterVcards(header: RosterHeader, entries: RosterEntry[]): string {
+  const org = vcardEscape(`Kandie Gang – ${header.eventTitle} (${header.levelLabel})`);
+  return sortRoster(entries)
+    .map((entry) => {
+      const note = [
+        entry.isWaitlist ? `Waitlist #${entry.waitlistPosition ?? '?'}` : 'Confirmed',
+        entry.emergencyNotes ? `Emergency: ${entry.emergencyNotes}` : null,
+      ]
+        .filter(Boolean)
+        .join('\n');
+      return [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `N:${vcardEscape(entry.lastName ?? '')};${vcardEscape(entry.firstName ?? '')};;;`,
+        `FN:${vcardEscape(fullName(entry))}`,
+        entry.email ? `EMAIL;TYPE=INTERNET:${vcardEscape(entry.email)}` : '',
+        `ORG:${org}`,
+        `NOTE:${vcardEscape(note)}`,
+        'END:VCARD',
+      ]
+        .filter((line) => line !== '')
+        .join('\r\n');
+    })
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+export function rosterFilename(
+  header: Pick<RosterHeader, 'rideDate' | 'levelLabel'>,
+  format: RosterFormat
+): string {
+  const slug = header.levelLabel
+    .toLowerCase()
+    .replace(/\+/g, 'plus')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const date = header.rideDate ? header.rideDate.slice(0, 10) : 'undated';
+  const ext = format === 'csv' ? 'csv' : format === 'vcard' ? 'vcf' : 'html';
+  const suffix = format === 'sheet' ? '-sign-in' : '';
+  return `roster-${date}-${slug || 'ride'}${suffix}.${ext}`;
+}
+
+export function rosterContentType(format: RosterFormat): string {
+  if (format === 'csv') return 'text/csv; charset=utf-8';
+  if (format === 'vcard') return 'text/vcard; charset=utf-8';
+  return 'text/html; charset=utf-8';
+}
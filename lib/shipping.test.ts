@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHIPPING_RATES,
+  calculateShippingCents,
+  getShippingRate,
+  shippingCountries,
+} from './shipping';
+
+const tee = { productSlug: 'kandie-gang-tee' };
+const stickers = { productSlug: 'kandie-gang-sticker-set' };
+const membership = { productSlug: 'kandie-gang-cycling-club-membership' };
+const giftMembership = { productSlug: 'kandie-gang-cycling-club-gift-membership' };
+
+describe('getShippingRate', () => {
+  it('falls back to Germany for unknown options', () => {
+    expect(getShippingRate('mars').option).toBe('de');
+    expect(getShippingRate(undefined)).toBe(SHIPPING_RATES[0]);
+    expect(getShippingRate('uk').label).toBe('Delivery to UK');
+  });
+});
+
+describe('calculateShippingCents', () => {
+  it('charges the flat rate below the free shipping threshold', () => {
+    expect(calculateShippingCents('de', 4500, [tee])).toBe(590);
+    expect(calculateShippingCents('eu', 4500, [tee])).toBe(990);
+  });
+
+  it('ships free from €99 within the EU only', () => {
+    expect(calculateShippingCents('de', 9900, [tee])).toBe(0);
+    expect(calculateShippingCents('eu', 12000, [tee])).toBe(0);
+    expect(calculateShippingCents('ch', 12000, [tee])).toBe(1990);
+    expect(calculateShippingCents('uk', 12000, [tee])).toBe(1990);
+  });
+
+  it('sends sticker-only baskets as a letter and membership-only baskets not at all', () => {
+    expect(calculateShippingCents('eu', 500, [stickers, stickers])).toBe(150);
+    expect(calculateShippingCents('pickup', 500, [stickers])).toBe(0);
+    expect(calculateShippingCents('de', 6000, [membership])).toBe(0);
+    expect(calculateShippingCents('uk', 6000, [giftMembership])).toBe(0);
+    expect(calculateShippingCents('de', 6500, [membership, tee])).toBe(590);
+  });
+});
+
+describe('shippingCountries', () => {
+  it('limits the address to the countries the option ships to', () => {
+    expect(shippingCountries('de')).toEqual(['DE']);
+    expect(shippingCountries('eu')).toContain('AT');
+    expect(shippingCountries('eu')).not.toContain('DE');
+    expect(shippingCountries('uk')).toEqual(['GB']);
+    expect(shippingCountries('pickup')).toBeNull();
+  });
+});
@@ -1,18 +1,130 @@
 /**
  * shipping.ts
  * Shipping rules: thresholds, rates, and product-specific rules (e.g. no shipping for Club Membership).
+ * Single source for the cart (CartOffcanvas) and the checkout API, which recomputes shipping from
+ * the Stripe prices instead of trusting the cart's numbers. Amounts are in cents of the basket's
+ * currency (euro for the whole catalog today).
  */
+import { EU_COUNTRIES, SELLER_COUNTRY } from './vat.js';
 
 /** Product slug for Kandie Gang Club Membership – digital product, no shipping. */
 export const CLUB_MEMBERSHIP_SLUG = 'kandie-gang-cycling-club-membership';
 
+/** Product slug for the gift membership – delivered as a redeem code by email, no shipping. */
+export const GIFT_MEMBERSHIP_SLUG = 'kandie-gang-cycling-club-gift-membership';
+
+/** Baskets of memberships only (own or gifted): nothing to ship. */
 export function isClubMembershipOnly<T extends { productSlug: string }>(items: T[]): boolean {
-  return items.length > 0 && items.every((i) => i.productSlug === CLUB_MEMBERSHIP_SLUG);
+  return (
+    items.length > 0 &&
+    items.every(
+      (i) => i.productSlug === CLUB_MEMBERSHIP_SLUG || i.productSlug === GIFT_MEMBERSHIP_SLUG
+    )
+  );
 }
 
-/** Product slug for Kandie Gang Sticker Set – ships at a flat €1.50 rate. */
+/** Product slug for Kandie Gang Sticker Set – ships as a letter at a flat rate. */
 export const STICKER_SET_SLUG = 'kandie-gang-sticker-set';
 
 export function isStickerSetOnly<T extends { productSlug: string }>(items: T[]): boolean {
   return items.length > 0 && items.every((i) => i.productSlug === STICKER_SET_SLUG);
 }
+
+/** Orders from this subtotal ship free within the EU. */
+export const FREE_SHIPPING_THRESHOLD_CENTS = 9900;
+
+export type ShippingOption = 'de' | 'eu' | 'ch' | 'uk' | 'pickup';
+
+export type ShippingRate = {
+  option: ShippingOption;
+  /** Shown next to the option in the cart. */
+  label: string;
+  /** Name of the shipping line on the Stripe checkout page and receipt. */
+  checkoutLabel: string;
+  amountCents: number;
+  /** Subtotal from which shipping is free; null = never free. */
+  freeFromCents: number | null;
+  /** Flat rate when the basket only holds sticker sets (sent as a letter). */
+  stickerSetCents: number;
+};
+
+/** Available shipping options, in the order the cart lists them. The first is the default. */
+export const SHIPPING_RATES: readonly ShippingRate[] = [
+  {
+    option: 'de',
+    label: 'Delivery to Germany',
+    checkoutLabel: 'Shipping (Standard – Germany)',
+    amountCents: 590,
+    freeFromCents: FREE_SHIPPING_THRESHOLD_CENTS,
+    stickerSetCents: 150,
+  },
+  {
+    option: 'eu',
+    label: 'Delivery to EU',
+    checkoutLabel: 'Shipping (Standard – EU)',
+    amountCents: 990,
+    freeFromCents: FREE_SHIPPING_THRESHOLD_CENTS,
+    stickerSetCents: 150,
+  },
+  {
+    option: 'ch',
+    label: 'Delivery to Switzerland',
+    checkoutLabel: 'Shipping (Standard – Switzerland)',
+    amountCents: 1990,
+    freeFromCents: null,
+    stickerSetCents: 150,
+  },
+  {
+    option: 'uk',
+    label: 'Delivery to UK',
+    checkoutLabel: 'Shipping (Standard – UK)',
+    amountCents: 1990,
+    freeFromCents: null,
+    stickerSetCents: 150,
+  },
+  {
+    option: 'pickup',
+    label: 'Local pickup',
+    checkoutLabel: 'Shipping (Local pickup)',
+    amountCents: 0,
+    freeFromCents: null,
+    stickerSetCents: 0,
+  },
+];
+
+/** Rate for an option; unknown or missing options fall back to the default (Germany). */
+export function getShippingRate(option: string | null | undefined): ShippingRate {
+  return SHIPPING_RATES.find((rate) => rate.option === option) ?? SHIPPING_RATES[0];
+}
+
+/**
+ * Countries Stripe Checkout accepts as shipping address for an option (ISO codes), so the order's
+ * destination and VAT match what was paid for. Null for pickup: no address is asked.
+ */
+export function shippingCountries(option: ShippingOption): string[] | null {
+  switch (option) {
+    case 'de':
+      return [SELLER_COUNTRY];
+    case 'eu':
+      return EU_COUNTRIES.filter((country) => country !== SELLER_COUNTRY);
+    case 'ch':
+      return ['CH'];
+    case 'uk':
+      return ['GB'];
+    case 'pickup':
+      return null;
+  }
+}
+
+/** Shipping for a basket in cents. Membership-only baskets ship nothing and cost nothing. */
+export function calculateShippingCents<T extends { productSlug: string }>(
+  option: string | null | undefined,
+  subtotalCents: number,
+  items: T[]
+): number {
+  if (isClubMembershipOnly(items)) return 0;
+  const rate = getShippingRate(option);
+  if (isStickerSetOnly(items)) return rate.stickerSetCents;
+  if (rate.freeFromCents != null && subtotalCents >= rate.freeFromCents) return 0;
+  return rate.amountCents;
+}
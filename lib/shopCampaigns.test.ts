@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCampaignBlock,
+  formatCountdown,
+  getCampaignAccess,
+  nextCampaignChange,
+  remainingCampaignAllowance,
+  type ShopCampaign,
+} from './shopCampaigns';
+
+const drop: ShopCampaign = {
+  startsAt: '2026-10-24T18:00:00+02:00',
+  endsAt: '2026-10-31T23:59:00+01:00',
+  memberEarlyAccessHours: 24,
+  memberLimit: 2,
+  memberCouponId: 'DROP10',
+};
+
+describe('getCampaignAccess', () => {
+  it('is open for everyone without a campaign', () => {
+    expect(getCampaignAccess(null, false).canBuy).toBe(true);
+  });
+
+  it('opens for members first, then for everyone, then ends', () => {
+    const at = (iso: string) => [
+      getCampaignAccess(drop, true, new Date(iso)),
+      getCampaignAccess(drop, false, new Date(iso)),
+    ];
+
+    const [memberBefore, guestBefore] = at('2026-10-23T15:00:00Z');
+    expect(memberBefore.phase).toBe('upcoming');
+    expect(memberBefore.canBuy || guestBefore.canBuy).toBe(false);
+
+    const [memberEarly, guestEarly] = at('2026-10-23T16:00:00Z');
+    expect(memberEarly.phase).toBe('members');
+    expect(memberEarly.canBuy).toBe(true);
+    expect(guestEarly.canBuy).toBe(false);
+
+    const [, guestOpen] = at('2026-10-24T16:00:00Z');
+    expect(guestOpen.phase).toBe('open');
+    expect(guestOpen.canBuy).toBe(true);
+
+    const [memberAfter] = at('2026-11-01T00:00:00Z');
+    expect(memberAfter.phase).toBe('ended');
+    expect(memberAfter.canBuy).toBe(false);
+  });
+});
+
+describe('nextCampaignChange', () => {
+  it('returns the next boundary still ahead', () => {
+    const now = new Date('2026-10-23T17:00:00Z');
+    const access = getCampaignAccess(drop, false, now);
+    expect(nextCampaignChange(access, now)?.toISOString()).toBe('2026-10-24T16:00:00.000Z');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows days only when needed and never goes negative', () => {
+    const now = new Date('2026-10-23T00:00:00Z');
+    expect(formatCountdown(new Date('2026-10-24T02:03:04Z'), now)).toBe('1d 02:03:04');
+    expect(formatCountdown(new Date('2026-10-23T00:00:59Z'), now)).toBe('00:00:59');
+    expect(formatCountdown(new Date('2026-10-22T00:00:00Z'), now)).toBe('00:00:00');
+  });
+});
+
+describe('describeCampaignBlock', () => {
+  it('explains when this customer can buy, in Berlin time', () => {
+    const early = getCampaignAccess(drop, false, new Date('2026-10-24T10:00:00Z'));
+    expect(describeCampaignBlock('Drop Jersey', early, false)).toBe(
+      "Drop Jersey is in members' early access until Sat 24 Oct, 18:00."
+    );
+    const upcoming = getCampaignAccess(drop, true, new Date('2026-10-20T10:00:00Z'));
+    expect(describeCampaignBlock('Drop Jersey', upcoming, true)).toBe(
+      'Drop Jersey goes on sale Fri 23 Oct, 18:00.'
+    );
+    const open = getCampaignAccess(drop, false, new Date('2026-10-25T10:00:00Z'));
+    expect(describeCampaignBlock('Drop Jersey', open, false)).toBeNull();
+  });
+});
+
+describe('remainingCampaignAllowance', () => {
+  it('subtracts earlier purchases and ignores drops without a limit', () => {
+    expect(remainingCampaignAllowance(drop, 1)).toBe(1);
+    expect(remainingCampaignAllowance(drop, 3)).toBe(0);
+    expect(remainingCampaignAllowance({ ...drop, memberLimit: null }, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Time-limited shop drops ("campaigns"), set per product in WordPress (`productFields.campaign`).
+ *
+ * A drop opens for everyone at `startsAt`; members may buy `memberEarlyAccessHours` before that and
+ * get the Stripe coupon `memberCouponId` applied automatically. `memberLimit` caps how many units
+ * one account can buy over the whole drop, counted in `shop_campaign_purchases` (paid purchases plus
+ * open checkouts; `reserve_campaign_purchases` counts and holds in one step). The product page shows
+ * the countdown; checkout enforces window, limit and coupon.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ShopCampaign = {
+  /** ISO 8601; opening for everyone. */
+  startsAt?: string | null;
+  /** ISO 8601; end of the drop for everyone. */
+  endsAt?: string | null;
+  memberEarlyAccessHours?: number | null;
+  /** Units per member over the whole drop; null = unlimited. */
+  memberLimit?: number | null;
+  memberCouponId?: string | null;
+};
+
+/** `members`: early access, only members can buy. */
+export type CampaignPhase = 'upcoming' | 'members' | 'open' | 'ended';
+
+export type CampaignAccess = {
+  phase: CampaignPhase;
+  /** Whether this customer can buy right now. */
+  canBuy: boolean;
+  membersOpenAt: Date | null;
+  opensAt: Date | null;
+  endsAt: Date | null;
+};
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Where a drop stands at `now` and whether a member / non-member may buy. No campaign = open. */
+export function getCampaignAccess(
+  campaign: ShopCampaign | null | undefined,
+  isMember: boolean,
+  now: Date = new Date()
+): CampaignAccess {
+  const opensAt = parseDate(campaign?.startsAt);
+  const endsAt = parseDate(campaign?.endsAt);
+  const earlyAccessMs = Math.max(0, Number(campaign?.memberEarlyAccessHours) || 0) * 3600 * 1000;
+  const membersOpenAt = opensAt ? new Date(opensAt.getTime() - earlyAccessMs) : null;
+
+  let phase: CampaignPhase = 'open';
+  if (endsAt && now >= endsAt) phase = 'ended';
+  else if (membersOpenAt && now < membersOpenAt) phase = 'upcoming';
+  else if (opensAt && now < opensAt) phase = 'members';
+
+  return {
+    phase,
+    canBuy: phase === 'open' || (phase === 'members' && isMember),
+    membersOpenAt,
+    opensAt,
+    endsAt,
+  };
+}
+
+/** Next moment the access changes (for timers); null when nothing is left to wait for. */
+export function nextCampaignChange(access: CampaignAccess, now: Date = new Date()): Date | null {
+  const upcoming = [access.membersOpenAt, access.opensAt, access.endsAt]
+    .filter((date): date is Date => date != null && date > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return upcoming[0] ?? null;
+}
+
+/** "2d 04:05:06" / "04:05:06" until `target`; "00:00:00" once it has passed. */
+export function formatCountdown(target: Date, now: Date = new Date()): string {
+  const totalSeconds = Math.max(0, Math.floor((target.getTime() - now.getTime()) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const clock = [
+    pad(Math.floor((totalSeconds % 86400) / 3600)),
+    pad(Math.floor((totalSeconds % 3600) / 60)),
+    pad(totalSeconds % 60),
+  ].join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/** Drop times as the club reads them, e.g. "Sat 24 Oct, 18:00" (Berlin time). */
+export function formatCampaignTime(date: Date): string {
+  return date.toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Berlin',
+  });
+}
+
+/** Customer-facing reason why `title` cannot be bought right now; null when it can. */
+export function describeCampaignBlock(
+  title: string,
+  access: CampaignAccess,
+  isMember: boolean
+): string | null {
+  if (access.canBuy) return null;
+  if (access.phase === 'ended') return `The ${title} drop has ended.`;
+  if (access.phase === 'members' && access.opensAt) {
+    return `${title} is in members' early access until ${formatCampaignTime(access.opensAt)}.`;
+  }
+  const opensAt = isMember ? access.membersOpenAt : access.opensAt;
+  return opensAt
+    ? `${title} goes on sale ${formatCampaignTime(opensAt)}.`
+    : `${title} is not on sale yet.`;
+}
+
+/**
+ * Units a member may still add, given what they already bought or hold in open
+ * checkouts. Null when the drop has no limit.
+ */
+export function remainingCampaignAllowance(
+  campaign: ShopCampaign | null | undefined,
+  alreadyPurchased: number
+): number | null {
+  const limit = Math.floor(Number(campaign?.memberLimit) || 0);
+  if (limit <= 0) return null;
+  return Math.max(0, limit - alreadyPurchased);
+}
+
+export function describeCampaignLimit(title: string, limit: number, remaining: number): string {
+  return remaining > 0
+    ? `${title} is limited to ${limit} per member – you can add ${remaining} more.`
+    : `${title} is limited to ${limit} per member and you already have ${limit}.`;
+}
+
+// ─── Purchase counts (server-side, Supabase service role) ─────────────────────
+
+export type CampaignPurchaseItem = { productId: string; quantity: number; memberLimit: number };
+
+/** A limited product the basket would take over the member's limit, and what they may still add. */
+export type CampaignShortage = { productId: string; remaining: number };
+
+export type ReserveCampaignResult = { ok: true } | { ok: false; shortages: CampaignShortage[] };
+
+/**
+ * Hold the checkout's units against the member's limits until `expiresAt`. Counting earlier
+ * purchases and holding the new units happen in one transaction under a lock per member and
+ * product (`reserve_campaign_purchases`), so parallel checkouts cannot pass a limit. All or
+ * nothing: when any product is over its limit nothing is held and the shortages are returned.
+ * Throws when the limit cannot be checked.
+ */
+export async function reserveCampaignPurchases(
+  adminClient: SupabaseClient<any>,
+  params: {
+    userId: string;
+    reference: string;
+    items: CampaignPurchaseItem[];
+    expiresAt: Date;
+  }
+): Promise<ReserveCampaignResult> {
+  if (params.items.length === 0) return { ok: true };
+  const { data, error } = await adminClient.rpc('reserve_campaign_purchases', {
+    p_user_id: params.userId,
+    p_reference: params.reference,
+    p_items: params.items.map((item) => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+      member_limit: item.memberLimit,
+    })),
+    p_expires_at: params.expiresAt.toISOString(),
+  });
+  if (error) throw new Error(`Could not reserve campaign purchases: ${error.message}`);
+  const rows = (data ?? []) as { item_product_id: string; remaining: number }[];
+  if (rows.length === 0) return { ok: true };
+  return {
+    ok: false,
+    shortages: rows.map((row) => ({ productId: row.item_product_id, remaining: row.remaining })),
+  };
+}
+
+/** Record the Stripe session held units belong to and hold them until the session expires. */
+export async function linkCampaignPurchases(
+  adminClient: SupabaseClient<any>,
+  reference: string,
+  session: { id: string; expiresAt: Date }
+): Promise<void> {
+  const { error } = await adminClient
+    .from('shop_campaign_purchases')
+    .update({ stripe_session_id: session.id, expires_at: session.expiresAt.toISOString() })
+    .eq('checkout_reference', reference)
+    .eq('status', 'pending');
+  if (error) console.warn('[shopCampaigns] Could not link purchases to session:', error.message);
+}
+
+/**
+ * Checkout paid (units count for good) or expired/failed (units free again). Rows are found by
+ * the Stripe session or the checkout reference they were held under. Idempotent.
+ */
+export async function settleCampaignPurchases(
+  adminClient: SupabaseClient<any>,
+  checkout: { stripeSessionId?: string | null; reference?: string | null },
+  outcome: 'paid' | 'released'
+): Promise<number> {
+  const filters = [
+    checkout.stripeSessionId && `stripe_session_id.eq.${checkout.stripeSessionId}`,
+    checkout.reference && `checkout_reference.eq.${checkout.reference}`,
+  ].filter(Boolean);
+  if (filters.length === 0) return 0;
+  const { data, error } = await adminClient
+    .from('shop_campaign_purchases')
+    .update({
+      status: outcome,
+      ...(outcome === 'paid' && { paid_at: new Date().toISOString() }),
+    })
+    .or(filters.join(','))
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw new Error(`Could not settle campaign purchases: ${error.message}`);
+  return data?.length ?? 0;
+}
+
+/**
+ * A paid checkout was fully refunded or its dispute lost: its units stop counting against the
+ * member's limit. Idempotent; returns rows released.
+ */
+export async function releaseRefundedCampaignPurchases(
+  adminClient: SupabaseClient<any>,
+  stripeSessionId: string
+): Promise<number> {
+  const { data, error } = await adminClient
+    .from('shop_campaign_purchases')
+    .update({ status: 'released' })
+    .eq('stripe_session_id', stripeSessionId)
+    .eq('status', 'paid')
+    .select('id');
+  if (error) throw new Error(`Could not release refunded campaign purchases: ${error.message}`);
+  return data?.length ?? 0;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildShopCatalog } from './shopCatalog';
+import { getVariantStripePriceId } from './products';
+
+const cap = {
+  id: 'cap',
+  title: 'Cap',
+  slug: 'kandie-gang-cap',
+  productFields: {
+    membersOnly: false,
+    variants: [
+      {
+        label: 'Black',
+        sku: ' CAP-BLK ',
+        inventory: 12,
+        stripePriceIdPublic: 'price_cap_pub',
+        stripePriceIdMember: 'price_cap_mem',
+      },
+      { label: 'Pink', inventory: 3, stripePriceIdPublic: 'price_cap_pink' },
+    ],
+  },
+};
+
+describe('buildShopCatalog', () => {
+  it('maps public and member prices to the same variant', () => {
+    const catalog = buildShopCatalog([cap]);
+    expect(catalog.get('price_cap_pub')).toEqual({
+      productId: 'cap',
+      title: 'Cap',
+      slug: 'kandie-gang-cap',
+      label: 'Black',
+      sku: 'CAP-BLK',
+      wpInventory: 12,
+      membersOnly: false,
+      campaign: null,
+      stripePriceIdPublic: 'price_cap_pub',
+      stripePriceIdMember: 'price_cap_mem',
+    });
+    expect(catalog.get('price_cap_mem')).toBe(catalog.get('price_cap_pub'));
+  });
+
+  it('keys variants without a SKU by product and label', () => {
+    expect(buildShopCatalog([cap]).get('price_cap_pink')?.sku).toBe('cap:Pink');
+  });
+
+  it('flags members-only products', () => {
+    const jersey = {
+      id: 'jersey',
+      title: 'Club Jersey',
+      productFields: {
+        membersOnly: true,
+        variants: [{ label: 'M', inventory: 1, stripePriceIdPublic: 'price_jersey' }],
+      },
+    };
+    expect(buildShopCatalog([jersey]).get('price_jersey')?.membersOnly).toBe(true);
+  });
+});
+
+describe('getVariantStripePriceId', () => {
+  it('re-prices a basket line by membership, whichever price the basket sent', () => {
+    const entry = buildShopCatalog([cap]).get('price_cap_mem')!;
+    expect(getVariantStripePriceId(entry, false)).toBe('price_cap_pub');
+    expect(getVariantStripePriceId(entry, true)).toBe('price_cap_mem');
+    const pink = buildShopCatalog([cap]).get('price_cap_pink')!;
+    expect(getVariantStripePriceId(pink, true)).toBe('price_cap_pink');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Server-side view of the shop's products: every Stripe price id the shop sells, mapped to the
+ * WordPress variant it belongs to. Checkout uses it to validate baskets (member prices, members-only
+ * products, drop campaigns) and the stock ledger to know which SKU a price draws from.
+ *
+ * Server-side only.
+ */
+import { getOrSetMemoryCache } from './serverMemoryCache.js';
+import { stockKey, type ProductVariant } from './products.js';
+import type { ShopCampaign } from './shopCampaigns.js';
+
+const WP_GRAPHQL_URL =
+  process.env.VITE_WP_GRAPHQL_URL ||
+  process.env.WP_GRAPHQL_URL ||
+  'https://wp-origin.kandiegang.com/graphql';
+
+const CATALOG_CACHE_KEY = 'shop-catalog';
+const CATALOG_TTL_MS = 60 * 1000;
+
+export type ShopCatalogEntry = {
+  productId: string;
+  title: string;
+  slug: string;
+  label: string;
+  /** Stock key (see `stockKey`). */
+  sku: string;
+  wpInventory: number;
+  membersOnly: boolean;
+  campaign: ShopCampaign | null;
+  stripePriceIdPublic: string;
+  stripePriceIdMember?: string;
+};
+
+/** Stripe price id (public or member) → the variant it sells. */
+export type ShopCatalog = Map<string, ShopCatalogEntry>;
+
+export type ShopCatalogProduct = {
+  id: string;
+  title: string;
+  slug?: string | null;
+  productFields?: {
+    membersOnly?: boolean | null;
+    campaign?: ShopCampaign | null;
+    variants?:
+      | Pick<
+          ProductVariant,
+          'label' | 'sku' | 'inventory' | 'stripePriceIdPublic' | 'stripePriceIdMember'
+        >[]
+      | null;
+  } | null;
+};
+
+const CATALOG_PRODUCTS_QUERY = `
+  query GetShopCatalog {
+    shopProducts(first: 500) {
+      nodes {
+        id
+        title
+        slug
+        productFields {
+          membersOnly
+          variants {
+            label
+            sku
+            inventory
+            stripePriceIdPublic
+            stripePriceIdMember
+          }
+          campaign {
+            startsAt
+            endsAt
+            memberEarlyAccessHours
+            memberLimit
+            memberCouponId
+          }
+        }
+      }
+    }
+  }
+`;
+
+export function buildShopCatalog(products: ShopCatalogProduct[]): ShopCatalog {
+  const catalog: ShopCatalog = new Map();
+  for (const product of products) {
+    for (const variant of product.productFields?.variants ?? []) {
+      const entry: ShopCatalogEntry = {
+        productId: product.id,
+        title: product.title,
+        slug: product.slug ?? '',
+        label: variant.label,
+        sku: stockKey(product.id, variant),
+        wpInventory: Math.max(0, Math.floor(Number(variant.inventory) || 0)),
+        membersOnly: product.productFields?.membersOnly === true,
+        campaign: product.productFields?.campaign ?? null,
+        stripePriceIdPublic: variant.stripePriceIdPublic?.trim() ?? '',
+        stripePriceIdMember: variant.stripePriceIdMember?.trim() || undefined,
+      };
+      for (const priceId of [entry.stripePriceIdPublic, entry.stripePriceIdMember]) {
+        if (priceId) catalog.set(priceId, entry);
+      }
+    }
+  }
+  return catalog;
+}
+
+/** Price id → variant, from WordPress. Cached briefly; empty when WordPress is unreachable. */
+export async function fetchShopCatalog(): Promise<ShopCatalog> {
+  try {
+    const { value } = await getOrSetMemoryCache(CATALOG_CACHE_KEY, CATALOG_TTL_MS, async () => {
+      const response = await fetch(WP_GRAPHQL_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: CATALOG_PRODUCTS_QUERY }),
+      });
+      if (!response.ok) throw new Error(`WordPress responded ${response.status}`);
+      const json = await response.json();
+      const nodes = json?.data?.shopProducts?.nodes;
+      if (!Array.isArray(nodes)) throw new Error('No shopProducts in WordPress response');
+      return buildShopCatalog(nodes as ShopCatalogProduct[]);
+    });
+    return value;
+  } catch (err) {
+    console.warn('[shopCatalog] Could not load products from WordPress:', err);
+    return new Map();
+  }
+}
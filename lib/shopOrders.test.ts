@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { isShopOrderCheckout, nextShopOrderStatuses, orderTrackingUrl } from './shopOrders';
+
+describe('nextShopOrderStatuses', () => {
+  it('ships parcels and hands pickup orders over', () => {
+    expect(nextShopOrderStatuses({ status: 'paid', shippingOption: 'de' })).toEqual([
+      'packed',
+      'shipped',
+      'returned',
+    ]);
+    expect(nextShopOrderStatuses({ status: 'packed', shippingOption: 'pickup' })).toEqual([
+      'paid',
+      'picked_up',
+      'returned',
+    ]);
+  });
+
+  it('keeps shipped orders editable and returned orders closed', () => {
+    expect(nextShopOrderStatuses({ status: 'shipped', shippingOption: 'eu' })).toEqual([
+      'shipped',
+      'returned',
+    ]);
+    expect(nextShopOrderStatuses({ status: 'picked_up', shippingOption: 'pickup' })).toEqual([
+      'returned',
+    ]);
+    expect(nextShopOrderStatuses({ status: 'returned', shippingOption: 'de' })).toEqual([]);
+  });
+});
+
+describe('orderTrackingUrl', () => {
+  it('fills the tracking number into the carrier page', () => {
+    expect(orderTrackingUrl('dhl', ' 00340434 ')).toBe(
+      'https://www.dhl.de/de/privatkunden/pakete-empfangen/verfolgen.html?piececode=00340434'
+    );
+    expect(orderTrackingUrl('ups', '1Z 99')).toBe('https://www.ups.com/track?tracknum=1Z%2099');
+  });
+
+  it('has no link without a number or for carriers without a tracking page', () => {
+    expect(orderTrackingUrl('dhl', '')).toBeNull();
+    expect(orderTrackingUrl('other', '123')).toBeNull();
+    expect(orderTrackingUrl('pigeon', '123')).toBeNull();
+    expect(orderTrackingUrl(null, '123')).toBeNull();
+  });
+});
+
+describe('isShopOrderCheckout', () => {
+  it('records checkouts with products to ship', () => {
+    expect(isShopOrderCheckout('kandie-gang-sticker-set')).toBe(true);
+    expect(isShopOrderCheckout('kandie-gang-cycling-club-membership, kandie-gang-cap')).toBe(true);
+  });
+
+  it('skips membership-only checkouts', () => {
+    expect(isShopOrderCheckout('kandie-gang-cycling-club-membership')).toBe(false);
+    expect(isShopOrderCheckout('kandie-gang-cycling-club-gift-membership')).toBe(false);
+    expect(isShopOrderCheckout('')).toBe(false);
+    expect(isShopOrderCheckout(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Shop orders and their fulfilment (`shop_orders`, see the `create_shop_orders` migration).
+ *
+ * The Stripe webhook records every paid one-time checkout with something to ship or pick up.
+ * The team moves orders along in the analytics dashboard (paid → packed → shipped or picked up,
+ * or returned); marking an order shipped emails the customer the carrier and tracking number.
+ * Customers see their orders in the members area, matched by account or checkout email. Each
+ * order's invoice (lib/invoices.ts) is linked from both lists.
+ *
+ * The status and carrier helpers are shared with the frontend; the rest is server-side only
+ * (Supabase service role).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CLUB_MEMBERSHIP_SLUG, GIFT_MEMBERSHIP_SLUG } from './shipping.js';
+
+export const SHOP_ORDER_STATUSES = ['paid', 'packed', 'shipped', 'picked_up', 'returned'] as const;
+
+export type ShopOrderStatus = (typeof SHOP_ORDER_STATUSES)[number];
+
+export const SHOP_ORDER_STATUS_LABELS: Record<ShopOrderStatus, string> = {
+  paid: 'Paid',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  picked_up: 'Picked up',
+  returned: 'Returned',
+};
+
+export type OrderCarrier = {
+  label: string;
+  /** Tracking page with `{number}` standing in for the tracking number. */
+  trackingUrl: string | null;
+};
+
+/** Carriers the team ships with; `other` has no tracking page. */
+export const ORDER_CARRIERS: Record<string, OrderCarrier> = {
+  dhl: {
+    label: 'DHL',
+    trackingUrl:
+      'https://www.dhl.de/de/privatkunden/pakete-empfangen/verfolgen.html?piececode={number}',
+  },
+  deutsche_post: {
+    label: 'Deutsche Post',
+    trackingUrl: 'https://www.deutschepost.de/de/s/sendungsverfolgung.html?piececode={number}',
+  },
+  dpd: { label: 'DPD', trackingUrl: 'https://tracking.dpd.de/status/en_US/parcel/{number}' },
+  hermes: {
+    label: 'Hermes',
+    trackingUrl:
+      'https://www.myhermes.de/empfangen/sendungsverfolgung/sendungsinformation#{number}',
+  },
+  gls: { label: 'GLS', trackingUrl: 'https://gls-group.com/DE/en/parcel-tracking?match={number}' },
+  ups: { label: 'UPS', trackingUrl: 'https://www.ups.com/track?tracknum={number}' },
+  other: { label: 'Other', trackingUrl: null },
+};
+
+export type ShopOrderItem = {
+  name: string;
+  quantity: number;
+  /** Line total in cents. */
+  amountTotal: number | null;
+  currency: string | null;
+};
+
+export type ShopOrder = {
+  id: string;
+  stripeSessionId: string;
+  userId: string | null;
+  email: string | null;
+  customerName: string | null;
+  items: ShopOrderItem[];
+  /** Order total in cents, shipping included. */
+  amountTotal: number | null;
+  currency: string | null;
+  shippingOption: string | null;
+  shippingAddress: Record<string, string | null> | null;
+  status: ShopOrderStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  createdAt: string;
+  packedAt: string | null;
+  shippedAt: string | null;
+  pickedUpAt: string | null;
+  returnedAt: string | null;
+  shippingEmailSentAt: string | null;
+  invoiceNumber: string | null;
+  /** Site-relative PDF download link (see `shopInvoicePath`). */
+  invoiceUrl: string | null;
+};
+
+export type ShopOrderResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string };
+
+type ShopOrderRow = {
+  id: string;
+  stripe_session_id: string;
+  user_id: string | null;
+  email: string | null;
+  customer_name: string | null;
+  items: ShopOrderItem[] | null;
+  amount_total: number | null;
+  currency: string | null;
+  shipping_option: string | null;
+  shipping_address: Record<string, string | null> | null;
+  status: ShopOrderStatus;
+  carrier: string | null;
+  tracking_number: string | null;
+  created_at: string;
+  packed_at: string | null;
+  shipped_at: string | null;
+  picked_up_at: string | null;
+  returned_at: string | null;
+  shipping_email_sent_at: string | null;
+  shop_invoices?: InvoiceLinkRow | InvoiceLinkRow[] | null;
+};
+
+type InvoiceLinkRow = { invoice_number: string; access_token: string };
+
+const ORDER_COLUMNS =
+  'id, stripe_session_id, user_id, email, customer_name, items, amount_total, currency, shipping_option, shipping_address, status, carrier, tracking_number, created_at, packed_at, shipped_at, picked_up_at, returned_at, shipping_email_sent_at, shop_invoices(invoice_number, access_token)';
+
+export function isShopOrderStatus(value: unknown): value is ShopOrderStatus {
+  return typeof value === 'string' && (SHOP_ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function isPickupOrder(order: { shippingOption: string | null }): boolean {
+  return order.shippingOption === 'pickup';
+}
+
+/** Carrier tracking page for a parcel, or null when the carrier has none. */
+export function orderTrackingUrl(
+  carrier: string | null | undefined,
+  trackingNumber: string | null | undefined
+): string | null {
+  const template = carrier ? ORDER_CARRIERS[carrier]?.trackingUrl : null;
+  const number = trackingNumber?.trim();
+  if (!template || !number) return null;
+  return template.replace('{number}', encodeURIComponent(number));
+}
+
+/** Download path of an invoice PDF (`GET /api/stripe-checkout?view=invoice`). */
+export function shopInvoicePath(invoiceNumber: string, accessToken: string): string {
+  return `/api/stripe-checkout?view=invoice&number=${encodeURIComponent(invoiceNumber)}&token=${encodeURIComponent(accessToken)}`;
+}
+
+/**
+ * Statuses an order can move to from where it is. Pickup orders are picked up rather than
+ * shipped; shipped orders stay "shipped" while their tracking details are corrected.
+ */
+export function nextShopOrderStatuses(
+  order: Pick<ShopOrder, 'status' | 'shippingOption'>
+): ShopOrderStatus[] {
+  const handover: ShopOrderStatus = isPickupOrder(order) ? 'picked_up' : 'shipped';
+  switch (order.status) {
+    case 'paid':
+      return ['packed', handover, 'returned'];
+    case 'packed':
+      return ['paid', handover, 'returned'];
+    case 'shipped':
+      return ['shipped', 'returned'];
+    case 'picked_up':
+      return ['returned'];
+    case 'returned':
+      return [];
+  }
+}
+
+/** Whether a checkout (by its `productSlugs` metadata) has anything to ship or hand over. */
+export function isShopOrderCheckout(productSlugs: string | null | undefined): boolean {
+  const slugs = (productSlugs ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return slugs.some((slug) => slug !== CLUB_MEMBERSHIP_SLUG && slug !== GIFT_MEMBERSHIP_SLUG);
+}
+
+function toShopOrder(row: ShopOrderRow): ShopOrder {
+  const invoice = Array.isArray(row.shop_invoices) ? row.shop_invoices[0] : row.shop_invoices;
+  return {
+    id: row.id,
+    stripeSessionId: row.stripe_session_id,
+    userId: row.user_id,
+    email: row.email,
+    customerName: row.customer_name,
+    items: Array.isArray(row.items) ? row.items : [],
+    amountTotal: row.amount_total,
+    currency: row.currency,
+    shippingOption: row.shipping_option,
+    shippingAddress: row.shipping_address,
+    status: row.status,
+    carrier: row.carrier,
+    trackingNumber: row.tracking_number,
+    trackingUrl: orderTrackingUrl(row.carrier, row.tracking_number),
+    createdAt: row.created_at,
+    packedAt: row.packed_at,
+    shippedAt: row.shipped_at,
+    pickedUpAt: row.picked_up_at,
+    returnedAt: row.returned_at,
+    shippingEmailSentAt: row.shipping_email_sent_at,
+    invoiceNumber: invoice?.invoice_number ?? null,
+    invoiceUrl: invoice ? shopInvoicePath(invoice.invoice_number, invoice.access_token) : null,
+  };
+}
+
+export type RecordShopOrderInput = {
+  stripeSessionId: string;
+  userId: string | null;
+  email: string | null;
+  customerName: string | null;
+  items: ShopOrderItem[];
+  amountTotal: number | null;
+  currency: string | null;
+  shippingOption: string | null;
+  shippingAddress: Record<string, string | null> | null;
+};
+
+/** Add a paid checkout as an order; webhook retries of the same session leave it as it is. */
+export async function recordShopOrder(
+  adminClient: SupabaseClient<any>,
+  input: RecordShopOrderInput
+): Promise<void> {
+  const { error } = await adminClient.from('shop_orders').upsert(
+    {
+      stripe_session_id: input.stripeSessionId,
+      user_id: input.userId,
+      email: input.email?.trim().toLowerCase() || null,
+      customer_name: input.customerName,
+      items: input.items,
+      amount_total: input.amountTotal,
+      currency: input.currency,
+      shipping_option: input.shippingOption,
+      shipping_address: input.shippingAddress,
+    },
+    { onConflict: 'stripe_session_id', ignoreDuplicates: true }
+  );
+  if (error) throw new Error(`Could not record shop order: ${error.message}`);
+}
+
+/** The order recorded for a Stripe Checkout session, if any. */
+export async function getShopOrderBySession(
+  adminClient: SupabaseClient<any>,
+  stripeSessionId: string
+): Promise<ShopOrder | null> {
+  const { data, error } = await adminClient
+    .from('shop_orders')
+    .select(ORDER_COLUMNS)
+    .eq('stripe_session_id', stripeSessionId)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load shop order: ${error.message}`);
+  return data ? toShopOrder(data as ShopOrderRow) : null;
+}
+
+/** Orders for the dashboard, newest first; open orders only unless a status is given. */
+export async function listShopOrders(
+  adminClient: SupabaseClient<any>,
+  options: { status?: ShopOrderStatus | 'open' | 'all'; limit?: number } = {}
+): Promise<ShopOrder[]> {
+  const status = options.status ?? 'open';
+  let query = adminClient
+    .from('shop_orders')
+    .select(ORDER_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 200);
+  if (status === 'open') query = query.in('status', ['paid', 'packed']);
+  else if (status !== 'all') query = query.eq('status', status);
+  const { data, error } = await query;
+  if (error) throw new Error(`Could not load shop orders: ${error.message}`);
+  return ((data ?? []) as ShopOrderRow[]).map(toShopOrder);
+}
+
+/** A customer's orders: placed while logged in, or as a guest with their account email. */
+export async function listCustomerOrders(
+  adminClient: SupabaseClient<any>,
+  userId: string,
+  email: string | null
+): Promise<ShopOrder[]> {
+  const normalizedEmail = email?.trim().toLowerCase();
+  const filter = normalizedEmail
+    ? `user_id.eq.${userId},email.eq.${JSON.stringify(normalizedEmail)}`
+    : `user_id.eq.${userId}`;
+  const { data, error } = await adminClient
+    .from('shop_orders')
+    .select(ORDER_COLUMNS)
+    .or(filter)
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) throw new Error(`Could not load orders: ${error.message}`);
+  return ((data ?? []) as ShopOrderRow[]).map(toShopOrder);
+}
+
+export type ShopOrderUpdate = {
+  status: ShopOrderStatus;
+  carrier?: string | null;
+  trackingNumber?: string | null;
+};
+
+/**
+ * Move an order to `update.status`. The update only applies while the order is still in the
+ * status it was loaded in, so two people working the same order cannot skip a step. Returns the
+ * order and whether it has just been shipped (the caller sends the shipping email).
+ */
+export async function updateShopOrderStatus(
+  adminClient: SupabaseClient<any>,
+  orderId: string,
+  update: ShopOrderUpdate,
+  now: Date = new Date()
+): Promise<ShopOrderResult<{ order: ShopOrder; shippedNow: boolean }>> {
+  const { data: row, error: loadError } = await adminClient
+    .from('shop_orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .maybeSingle();
+  if (loadError) throw new Error(`Could not load shop order: ${loadError.message}`);
+  if (!row) return { ok: false, status: 404, error: 'Order not found.' };
+  const order = toShopOrder(row as ShopOrderRow);
+
+  if (!nextShopOrderStatuses(order).includes(update.status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `A ${SHOP_ORDER_STATUS_LABELS[order.status].toLowerCase()} order cannot be marked ${SHOP_ORDER_STATUS_LABELS[update.status].toLowerCase()}.`,
+    };
+  }
+  const carrier = update.carrier?.trim() || null;
+  if (carrier && !ORDER_CARRIERS[carrier]) {
+    return { ok: false, status: 400, error: 'Unknown carrier.' };
+  }
+  const trackingNumber = update.trackingNumber?.trim() || null;
+  if (trackingNumber && trackingNumber.length > 100) {
+    return { ok: false, status: 400, error: 'Tracking number is too long.' };
+  }
+
+  const at = now.toISOString();
+  const changes: Record<string, unknown> = { status: update.status, updated_at: at };
+  if (update.status === 'shipped') {
+    changes.carrier = carrier;
+    changes.tracking_number = trackingNumber;
+    if (order.status !== 'shipped') changes.shipped_at = at;
+  }
+  if (update.status === 'packed') changes.packed_at = at;
+  if (update.status === 'paid') changes.packed_at = null;
+  if (update.status === 'picked_up') changes.picked_up_at = at;
+  if (update.status === 'returned') changes.returned_at = at;
+
+  const { data: updated, error } = await adminClient
+    .from('shop_orders')
+    .update(changes)
+    .eq('id', orderId)
+    .eq('status', order.status)
+    .select(ORDER_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(`Could not update shop order: ${error.message}`);
+  if (!updated) {
+    return { ok: false, status: 409, error: 'The order was changed meanwhile. Please reload.' };
+  }
+  return {
+    ok: true,
+    value: {
+      order: toShopOrder(updated as ShopOrderRow),
+      shippedNow: update.status === 'shipped' && order.status !== 'shipped',
+    },
+  };
+}
+
+/** Note that the shipping email went out; returns the time recorded. */
+export async function markShippingEmailSent(
+  adminClient: SupabaseClient<any>,
+  orderId: string
+): Promise<string> {
+  const sentAt = new Date().toISOString();
+  const { error } = await adminClient
+    .from('shop_orders')
+    .update({ shipping_email_sent_at: sentAt })
+    .eq('id', orderId);
+  if (error) throw new Error(`Could not mark shipping email sent: ${error.message}`);
+  return sentAt;
+}
@@ -0,0 +1,113 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  STOCK_RESERVATION_MINUTES,
+  buildStockRequest,
+  availableStock,
+  checkoutSessionExpiry,
+  describeStockShortages,
+  reserveStock,
+} from './stockLedger';
+import { buildShopCatalog, type ShopCatalogProduct } from './shopCatalog';
+import { withStockLevels } from './products';
+
+const cap: ShopCatalogProduct = {
+  id: 'cap',
+  title: 'Cap',
+  productFields: {
+    variants: [
+      {
+        label: 'Black',
+        sku: 'CAP-BLK',
+        inventory: 12,
+        stripePriceIdPublic: 'price_cap_pub',
+        stripePriceIdMember: 'price_cap_mem',
+      },
+      { label: 'Pink', inventory: 3, stripePriceIdPublic: 'price_cap_pink' },
+    ],
+  },
+};
+
+describe('buildStockRequest', () => {
+  it('sums lines of the same SKU and skips untracked prices', () => {
+    const items = buildStockRequest(
+      [
+        { priceId: 'price_cap_pub', quantity: 1 },
+        { priceId: 'price_cap_mem', quantity: 2 },
+        { priceId: 'price_unknown', quantity: 1 },
+      ],
+      buildShopCatalog([cap])
+    );
+    expect(items).toEqual([
+      { sku: 'CAP-BLK', title: 'Cap', label: 'Black', wpInventory: 12, quantity: 3 },
+    ]);
+  });
+});
+
+describe('describeStockShortages', () => {
+  it('names what is left and what is sold out', () => {
+    expect(
+      describeStockShortages([
+        { sku: 'CAP-BLK', title: 'Cap', label: 'Black', available: 1 },
+        { sku: 'cap:Pink', title: 'Cap', label: 'Pink', available: 0 },
+      ])
+    ).toBe('Only 1 left of Cap (Black). Cap (Pink) is sold out.');
+  });
+});
+
+describe('withStockLevels', () => {
+  it('uses ledger stock, never below zero, and keeps variants without levels', () => {
+    const variants = cap.productFields!.variants!;
+    const result = withStockLevels('cap', variants, { 'CAP-BLK': 2, 'cap:Pink': -1 });
+    expect(result.map((v) => v.inventory)).toEqual([2, 0]);
+    expect(withStockLevels('cap', variants, null)).toBe(variants);
+  });
+});
+
+describe('checkoutSessionExpiry', () => {
+  it("leaves a margin above Stripe's 30 minute minimum and stays under 24 hours", () => {
+    const now = Date.parse('2026-06-09T10:00:00.900Z');
+    const lifetime = checkoutSessionExpiry(now) - now / 1000;
+    expect(lifetime).toBeGreaterThanOrEqual(STOCK_RESERVATION_MINUTES * 60 + 60);
+    expect(lifetime).toBeGreaterThanOrEqual(31 * 60);
+    expect(lifetime).toBeLessThan(24 * 60 * 60);
+    expect(Number.isInteger(checkoutSessionExpiry(now))).toBe(true);
+  });
+});
+
+describe('availableStock', () => {
+  it('subtracts live reservations from on hand and ignores unknown SKUs', () => {
+    expect(
+      availableStock(
+        [
+          { sku: 'CAP-BLK', on_hand: 5 },
+          { sku: 'cap:Pink', on_hand: 1 },
+        ],
+        [
+          { sku: 'CAP-BLK', quantity: 2 },
+          { sku: 'CAP-BLK', quantity: 1 },
+          { sku: 'SOCK-S', quantity: 1 },
+        ]
+      )
+    ).toEqual({ 'CAP-BLK': 2, 'cap:Pink': 1 });
+  });
+});
+
+describe('reserveStock', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('throws instead of selling without a reservation when the ledger fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ data: { shopProducts: { nodes: [cap] } } }))
+    );
+    const client = {
+      rpc: async () => ({ data: null, error: { message: 'connection refused' } }),
+    } as unknown as SupabaseClient<any>;
+    await expect(
+      reserveStock(client, 'ref', [{ priceId: 'price_cap_pub', quantity: 1 }], new Date())
+    ).rejects.toThrow(/Could not reserve stock: connection refused/);
+  });
+});
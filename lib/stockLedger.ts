@@ -0,0 +1,235 @@
+/**
+ * Shop stock ledger (tables and functions in the `create_stock_ledger` migration).
+ *
+ * Stock is entered per variant in WordPress; the ledger tracks what is actually left. Checkout
+ * reserves the basket's items per SKU when the Stripe session is created, the webhook commits the
+ * reservation on payment (on hand goes down) and releases it when the session expires. The shop
+ * reads available stock (on hand minus live reservations) from `GET /api/stripe-checkout?view=stock`.
+ * That read never writes: WordPress inventory changes are applied by `getStockLevels` (webhook and
+ * cron) and by each reservation.
+ *
+ * Checkout fails closed: when the ledger cannot be reached no session is created, so the shop
+ * cannot sell more than it has.
+ *
+ * Server-side only (Supabase service role).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StockLevels } from './products.js';
+import { fetchShopCatalog, type ShopCatalog } from './shopCatalog.js';
+
+/**
+ * How long a checkout holds its items: Stripe's shortest session lifetime. The session expiry is
+ * set a few minutes later (see `checkoutSessionExpiry`) and the reservation is moved to it, so an
+ * unpaid basket is back on the shelf when the session lapses, not before.
+ */
+export const STOCK_RESERVATION_MINUTES = 30;
+
+/**
+ * Stripe rejects an `expires_at` less than 30 minutes after the session is created. The margin
+ * covers the time between computing the expiry and Stripe creating the session.
+ */
+const SESSION_EXPIRY_MARGIN_MINUTES = 5;
+
+/** `expires_at` (Unix seconds) for a checkout session created now that holds stock. */
+export function checkoutSessionExpiry(nowMs = Date.now()): number {
+  return (
+    Math.floor(nowMs / 1000) + (STOCK_RESERVATION_MINUTES + SESSION_EXPIRY_MARGIN_MINUTES) * 60
+  );
+}
+
+/** One SKU of a checkout, quantities of the same SKU summed. */
+export type StockRequestItem = {
+  sku: string;
+  title: string;
+  label: string;
+  wpInventory: number;
+  quantity: number;
+};
+
+export type StockShortage = { sku: string; title: string; label: string; available: number };
+
+export type ReserveStockResult = { ok: true } | { ok: false; shortages: StockShortage[] };
+
+/**
+ * Basket lines → one item per SKU. Lines whose price is not a product variant (e.g. shipping) are
+ * not stock-tracked and left out.
+ */
+export function buildStockRequest(
+  lineItems: { priceId: string; quantity: number }[],
+  catalog: ShopCatalog
+): StockRequestItem[] {
+  const bySku = new Map<string, StockRequestItem>();
+  for (const line of lineItems) {
+    const entry = catalog.get(line.priceId);
+    if (!entry) continue;
+    const existing = bySku.get(entry.sku);
+    if (existing) existing.quantity += line.quantity;
+    else {
+      const { sku, title, label, wpInventory } = entry;
+      bySku.set(sku, { sku, title, label, wpInventory, quantity: line.quantity });
+    }
+  }
+  return Array.from(bySku.values());
+}
+
+/** Customer-facing message for a failed reservation, e.g. "Only 1 left of Cap (Black)." */
+export function describeStockShortages(shortages: StockShortage[]): string {
+  return shortages
+    .map(({ title, label, available }) => {
+      const name = label ? `${title} (${label})` : title;
+      return available > 0 ? `Only ${available} left of ${name}.` : `${name} is sold out.`;
+    })
+    .join(' ');
+}
+
+function uniqueSkus(catalog: ShopCatalog): { sku: string; wp_inventory: number }[] {
+  const bySku = new Map<string, number>();
+  for (const entry of catalog.values()) bySku.set(entry.sku, entry.wpInventory);
+  return Array.from(bySku, ([sku, wpInventory]) => ({ sku, wp_inventory: wpInventory }));
+}
+
+/** On hand minus live reservations, per SKU in `onHand`. */
+export function availableStock(
+  onHand: { sku: string; on_hand: number }[],
+  reservations: { sku: string; quantity: number }[]
+): StockLevels {
+  const levels: StockLevels = {};
+  for (const row of onHand) levels[row.sku] = row.on_hand;
+  for (const row of reservations) {
+    if (row.sku in levels) levels[row.sku] -= row.quantity;
+  }
+  return levels;
+}
+
+/**
+ * Available stock per SKU as the ledger has it, without applying WordPress changes (read-only, for
+ * the shop's `view=stock`). SKUs the ledger has not seen yet are missing. Null when the ledger
+ * cannot be read (show WordPress stock).
+ */
+export async function readStockLevels(
+  adminClient: SupabaseClient<any>
+): Promise<StockLevels | null> {
+  const [{ data: onHand, error }, { data: reservations, error: reservationsError }] =
+    await Promise.all([
+      adminClient.from('stock_levels').select('sku, on_hand'),
+      adminClient
+        .from('stock_reservations')
+        .select('sku, quantity')
+        .eq('status', 'reserved')
+        .gt('expires_at', new Date().toISOString()),
+    ]);
+  if (error || reservationsError) {
+    console.warn(
+      '[stockLedger] Could not read stock levels:',
+      (error ?? reservationsError)?.message
+    );
+    return null;
+  }
+  return availableStock(
+    (onHand ?? []) as { sku: string; on_hand: number }[],
+    (reservations ?? []) as { sku: string; quantity: number }[]
+  );
+}
+
+/**
+ * Apply WordPress inventory changes to the ledger and return available stock per SKU. Writes, so
+ * only the webhook and the cron call it. Null when the ledger cannot be read.
+ */
+export async function getStockLevels(
+  adminClient: SupabaseClient<any>
+): Promise<StockLevels | null> {
+  const catalog = await fetchShopCatalog();
+  if (catalog.size === 0) return null;
+  const { data, error } = await adminClient.rpc('sync_stock_levels', {
+    p_items: uniqueSkus(catalog),
+  });
+  if (error) {
+    console.warn('[stockLedger] sync_stock_levels failed:', error.message);
+    return null;
+  }
+  const levels: StockLevels = {};
+  for (const row of (data ?? []) as { item_sku: string; available: number }[]) {
+    levels[row.item_sku] = row.available;
+  }
+  return levels;
+}
+
+/**
+ * Hold the basket's items for one checkout until `expiresAt`. All or nothing: when any SKU is
+ * short nothing is reserved and the shortages are returned. Throws when the ledger cannot be
+ * reached.
+ */
+export async function reserveStock(
+  adminClient: SupabaseClient<any>,
+  reference: string,
+  lineItems: { priceId: string; quantity: number }[],
+  expiresAt: Date
+): Promise<ReserveStockResult> {
+  const catalog = await fetchShopCatalog();
+  const items = buildStockRequest(lineItems, catalog);
+  if (items.length === 0) return { ok: true };
+
+  const { data, error } = await adminClient.rpc('reserve_stock', {
+    p_reference: reference,
+    p_items: items.map((item) => ({
+      sku: item.sku,
+      wp_inventory: item.wpInventory,
+      quantity: item.quantity,
+    })),
+    p_expires_at: expiresAt.toISOString(),
+  });
+  if (error) throw new Error(`Could not reserve stock: ${error.message}`);
+
+  const rows = (data ?? []) as { item_sku: string; available: number }[];
+  if (rows.length === 0) return { ok: true };
+  const bySku = new Map(items.map((item) => [item.sku, item]));
+  return {
+    ok: false,
+    shortages: rows.map((row) => {
+      const item = bySku.get(row.item_sku);
+      return {
+        sku: row.item_sku,
+        title: item?.title ?? row.item_sku,
+        label: item?.label ?? '',
+        available: row.available,
+      };
+    }),
+  };
+}
+
+/**
+ * Record the Stripe session a reservation belongs to (for support lookups) and hold the items
+ * until the session itself expires.
+ */
+export async function linkStockReservation(
+  adminClient: SupabaseClient<any>,
+  reference: string,
+  session: { id: string; expiresAt: Date }
+): Promise<void> {
+  const { error } = await adminClient
+    .from('stock_reservations')
+    .update({ stripe_session_id: session.id, expires_at: session.expiresAt.toISOString() })
+    .eq('checkout_reference', reference)
+    .eq('status', 'reserved');
+  if (error) console.warn('[stockLedger] Could not link reservation to session:', error.message);
+}
+
+/** Payment received: take the reserved items off the shelf. Idempotent; returns rows committed. */
+export async function commitStock(
+  adminClient: SupabaseClient<any>,
+  reference: string
+): Promise<number> {
+  const { data, error } = await adminClient.rpc('commit_stock', { p_reference: reference });
+  if (error) throw new Error(`commit_stock failed: ${error.message}`);
+  return Number(data ?? 0);
+}
+
+/** Checkout expired or failed: put the items back. Idempotent; returns rows released. */
+export async function releaseStock(
+  adminClient: SupabaseClient<any>,
+  reference: string
+): Promise<number> {
+  const { data, error } = await adminClient.rpc('release_stock', { p_reference: reference });
+  if (error) throw new Error(`release_stock failed: ${error.message}`);
+  return Number(data ?? 0);
+}
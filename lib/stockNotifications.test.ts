@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildShopCatalog } from './shopCatalog';
+import {
+  findCatalogVariant,
+  marketingOptOuts,
+  restockedSkus,
+  withdrawnConsents,
+} from './stockNotifications';
+
+const socks = {
+  id: 'socks',
+  title: 'Socks',
+  slug: 'kandie-gang-socks',
+  productFields: {
+    membersOnly: false,
+    variants: [
+      { label: '36-39', sku: 'SOCK-S', inventory: 0, stripePriceIdPublic: 'price_sock_s' },
+      {
+        label: '40-46',
+        inventory: 4,
+        stripePriceIdPublic: 'price_sock_l',
+        stripePriceIdMember: 'price_sock_l_mem',
+      },
+    ],
+  },
+};
+
+describe('findCatalogVariant', () => {
+  it('finds a variant by its stock key', () => {
+    const catalog = buildShopCatalog([socks]);
+    expect(findCatalogVariant(catalog, 'SOCK-S')?.label).toBe('36-39');
+    expect(findCatalogVariant(catalog, 'socks:40-46')?.stripePriceIdPublic).toBe('price_sock_l');
+  });
+
+  it('returns null for unknown SKUs', () => {
+    expect(findCatalogVariant(buildShopCatalog([socks]), 'socks:36-39')).toBeNull();
+    expect(findCatalogVariant(new Map(), 'SOCK-S')).toBeNull();
+  });
+});
+
+describe('restockedSkus', () => {
+  it('keeps each waited-for SKU that is available again once', () => {
+    expect(
+      restockedSkus(['SOCK-S', 'CAP-BLK', 'SOCK-S', 'socks:40-46'], {
+        'SOCK-S': 2,
+        'CAP-BLK': 0,
+        'socks:40-46': 1,
+      })
+    ).toEqual(['SOCK-S', 'socks:40-46']);
+  });
+
+  it('waits on SKUs the ledger does not know', () => {
+    expect(restockedSkus(['SOCK-S'], {})).toEqual([]);
+  });
+});
+
+describe('withdrawnConsents', () => {
+  const signUp = (id: string, email: string, consentedAt: string | null) => ({
+    id,
+    email,
+    consented_at: consentedAt,
+  });
+
+  it('withdraws sign-ups consented to before their address unsubscribed', () => {
+    const withdrawn = withdrawnConsents(
+      [
+        signUp('before', 'ana@example.com', '2026-06-01T10:00:00Z'),
+        signUp('after', 'ana@example.com', '2026-06-03T10:00:00Z'),
+        signUp('other', 'ben@example.com', '2026-06-01T10:00:00Z'),
+      ],
+      [{ email: 'Ana@Example.com', unsubscribed_at: '2026-06-02T10:00:00Z' }]
+    );
+    expect(Array.from(withdrawn)).toEqual([['before', '2026-06-02T10:00:00Z']]);
+  });
+
+  it('withdraws sign-ups without recorded consent', () => {
+    const withdrawn = withdrawnConsents([signUp('none', 'ana@example.com', null)], []);
+    expect(Array.from(withdrawn)).toEqual([['none', null]]);
+  });
+});
+
+describe('marketingOptOuts', () => {
+  it('holds back account sign-ups without marketing consent and leaves guests alone', () => {
+    const signUps = [
+      { id: 'a', user_id: 'u1' },
+      { id: 'b', user_id: 'u2' },
+      { id: 'c', user_id: 'u3' },
+      { id: 'd', user_id: null },
+    ];
+    const consent = new Map<string, boolean | null>([
+      ['u1', true],
+      ['u2', false],
+    ]);
+    expect(Array.from(marketingOptOuts(signUps, consent))).toEqual(['b', 'c']);
+  });
+});
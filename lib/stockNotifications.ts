@@ -0,0 +1,334 @@
+/**
+ * Back-in-stock sign-ups (`stock_notifications`). Shoppers leave their email on a sold-out variant
+ * (`POST /api/stripe-checkout` action=notify-stock; guests pass Turnstile). When an expired or
+ * failed checkout puts its items back (`stripe-webhook`) and in the daily `send-reminders` cron,
+ * SKUs that are available again email everyone waiting, once.
+ *
+ * Every sign-up needs the shopper's explicit consent, checked and stored here (`consented_at`), and
+ * is checked again before the email goes out. The restock email carries a one-click unsubscribe
+ * link (`/shop/unsubscribe?token=`, only its hash is stored) that closes all of the address's
+ * sign-ups; any sign-up consented to before an unsubscribe of its address is never emailed.
+ * Sign-ups of an account also need the account's marketing consent (`profiles.accepts_marketing`):
+ * without it the sign-up is refused, and one made before it was withdrawn waits unsent.
+ *
+ * Server-side only (Supabase service role), apart from the pure helpers.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import type { StockLevels } from './products.js';
+import type { ShopCatalog, ShopCatalogEntry } from './shopCatalog.js';
+import { sendBackInStockEmail } from './orderNotifications.js';
+
+export type StockNotificationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string };
+
+/** A claimed sign-up, ready to email. The token is fresh; the stored hash was replaced. */
+export type RestockNotice = {
+  id: string;
+  email: string;
+  productTitle: string;
+  productSlug: string | null;
+  variantLabel: string | null;
+  unsubscribeToken: string;
+};
+
+type StockNotificationRow = {
+  id: string;
+  sku: string;
+  email: string;
+  product_title: string;
+  product_slug: string | null;
+  variant_label: string | null;
+  consented_at: string | null;
+  user_id: string | null;
+};
+
+/** A sign-up's consent, or an unsubscribe of an address. */
+export type ConsentRecord = { id: string; email: string; consented_at: string | null };
+export type UnsubscribeRecord = { email: string; unsubscribed_at: string };
+
+export function hashStockNotificationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function createToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(24).toString('base64url');
+  return { token, hash: hashStockNotificationToken(token) };
+}
+
+/** The catalog variant a stock key belongs to (the catalog is keyed by price id). */
+export function findCatalogVariant(catalog: ShopCatalog, sku: string): ShopCatalogEntry | null {
+  for (const entry of catalog.values()) {
+    if (entry.sku === sku) return entry;
+  }
+  return null;
+}
+
+/** Of the SKUs people wait for, those the ledger shows available again. */
+export function restockedSkus(waiting: Iterable<string>, levels: StockLevels): string[] {
+  return Array.from(new Set(waiting)).filter((sku) => (levels[sku] ?? 0) > 0);
+}
+
+/**
+ * Sign-ups whose consent no longer holds, by id: the address unsubscribed after it was given
+ * (mapped to that unsubscribe), or none was recorded (mapped to null).
+ */
+export function withdrawnConsents(
+  signUps: ConsentRecord[],
+  unsubscribes: UnsubscribeRecord[]
+): Map<string, string | null> {
+  const lastUnsubscribe = new Map<string, string>();
+  for (const record of unsubscribes) {
+    const email = record.email.toLowerCase();
+    const last = lastUnsubscribe.get(email);
+    if (!last || Date.parse(record.unsubscribed_at) > Date.parse(last)) {
+      lastUnsubscribe.set(email, record.unsubscribed_at);
+    }
+  }
+  const withdrawn = new Map<string, string | null>();
+  for (const signUp of signUps) {
+    const consentedAt = signUp.consented_at ? Date.parse(signUp.consented_at) : NaN;
+    const unsubscribedAt = lastUnsubscribe.get(signUp.email.toLowerCase());
+    if (Number.isNaN(consentedAt)) {
+      withdrawn.set(signUp.id, null);
+    } else if (unsubscribedAt && Date.parse(unsubscribedAt) >= consentedAt) {
+      withdrawn.set(signUp.id, unsubscribedAt);
+    }
+  }
+  return withdrawn;
+}
+
+/**
+ * Ids of account sign-ups whose account does not accept marketing emails. `marketingConsent` maps
+ * user ids to `profiles.accepts_marketing`; accounts missing from it count as not accepting.
+ */
+export function marketingOptOuts(
+  signUps: { id: string; user_id: string | null }[],
+  marketingConsent: Map<string, boolean | null>
+): Set<string> {
+  return new Set(
+    signUps
+      .filter((signUp) => signUp.user_id && marketingConsent.get(signUp.user_id) !== true)
+      .map((signUp) => signUp.id)
+  );
+}
+
+async function loadMarketingConsent(
+  adminClient: SupabaseClient<any>,
+  userIds: string[]
+): Promise<Map<string, boolean | null>> {
+  const consent = new Map<string, boolean | null>();
+  if (userIds.length === 0) return consent;
+  const { data, error } = await adminClient
+    .from('profiles')
+    .select('id, accepts_marketing')
+    .in('id', userIds);
+  if (error) throw new Error(`Could not load marketing consent: ${error.message}`);
+  for (const row of (data ?? []) as { id: string; accepts_marketing: boolean | null }[]) {
+    consent.set(row.id, row.accepts_marketing);
+  }
+  return consent;
+}
+
+/**
+ * Sign `email` up for `entry`'s restock email. Needs the shopper's explicit consent (`consent`
+ * exactly `true`), stored with the sign-up, and for signed-in shoppers an account that accepts
+ * marketing emails. Signing up twice for the same variant is a no-op (`alreadyWaiting`).
+ */
+export async function createStockNotification(
+  adminClient: SupabaseClient<any>,
+  entry: ShopCatalogEntry,
+  signUp: { email: string; userId: string | null; consent: unknown }
+): Promise<StockNotificationResult<{ alreadyWaiting: boolean }>> {
+  if (signUp.consent !== true) {
+    return { ok: false, status: 400, error: 'Please agree to receive the back-in-stock email.' };
+  }
+  if (signUp.userId) {
+    const consent = await loadMarketingConsent(adminClient, [signUp.userId]);
+    if (consent.get(signUp.userId) !== true) {
+      return {
+        ok: false,
+        status: 403,
+        error:
+          'Your account is set to receive no marketing emails, so we cannot send you a back-in-stock email.',
+      };
+    }
+  }
+  const { hash } = createToken();
+  const { error } = await adminClient.from('stock_notifications').insert({
+    sku: entry.sku,
+    product_id: entry.productId,
+    product_title: entry.title,
+    product_slug: entry.slug || null,
+    variant_label: entry.label || null,
+    email: signUp.email.trim().toLowerCase(),
+    user_id: signUp.userId,
+    unsubscribe_token_hash: hash,
+    consented_at: new Date().toISOString(),
+  });
+  if (error?.code === '23505') return { ok: true, value: { alreadyWaiting: true } };
+  if (error) throw new Error(`Could not save stock notification: ${error.message}`);
+  return { ok: true, value: { alreadyWaiting: false } };
+}
+
+/**
+ * Close the open sign-ups of every SKU that is available again and hand them back for emailing.
+ * Sign-ups whose consent was withdrawn are closed as unsubscribed instead; those of accounts that no
+ * longer accept marketing emails stay open and unsent. Each row is claimed with a conditional
+ * update, so concurrent runs never email twice.
+ */
+export async function claimRestockNotifications(
+  adminClient: SupabaseClient<any>,
+  levels: StockLevels
+): Promise<RestockNotice[]> {
+  const { data: waiting, error } = await adminClient
+    .from('stock_notifications')
+    .select('sku')
+    .is('notified_at', null)
+    .is('unsubscribed_at', null)
+    .limit(1000);
+  if (error) throw new Error(`Could not load stock notifications: ${error.message}`);
+  const skus = restockedSkus(
+    ((waiting ?? []) as { sku: string }[]).map((row) => row.sku),
+    levels
+  );
+  if (skus.length === 0) return [];
+
+  const { data: rows, error: rowsError } = await adminClient
+    .from('stock_notifications')
+    .select('id, sku, email, product_title, product_slug, variant_label, consented_at, user_id')
+    .in('sku', skus)
+    .is('notified_at', null)
+    .is('unsubscribed_at', null);
+  if (rowsError) throw new Error(`Could not load stock notifications: ${rowsError.message}`);
+  const signUps = (rows ?? []) as StockNotificationRow[];
+  if (signUps.length === 0) return [];
+
+  const { data: unsubscribes, error: unsubscribesError } = await adminClient
+    .from('stock_notifications')
+    .select('email, unsubscribed_at')
+    .in('email', Array.from(new Set(signUps.map((row) => row.email))))
+    .not('unsubscribed_at', 'is', null);
+  if (unsubscribesError) {
+    throw new Error(`Could not load stock unsubscribes: ${unsubscribesError.message}`);
+  }
+  const withdrawn = withdrawnConsents(signUps, (unsubscribes ?? []) as UnsubscribeRecord[]);
+  for (const [id, unsubscribedAt] of withdrawn) {
+    // Closed as of the unsubscribe that withdrew it, so later sign-ups keep their consent.
+    if (!unsubscribedAt) continue;
+    const { error: closeError } = await adminClient
+      .from('stock_notifications')
+      .update({ unsubscribed_at: unsubscribedAt })
+      .eq('id', id)
+      .is('unsubscribed_at', null);
+    if (closeError) {
+      console.warn('[stockNotifications] Could not close withdrawn sign-up:', closeError.message);
+    }
+  }
+
+  const optedOut = marketingOptOuts(
+    signUps,
+    await loadMarketingConsent(
+      adminClient,
+      Array.from(new Set(signUps.flatMap((row) => (row.user_id ? [row.user_id] : []))))
+    )
+  );
+
+  const notices: RestockNotice[] = [];
+  for (const row of signUps) {
+    if (withdrawn.has(row.id) || optedOut.has(row.id)) continue;
+    const { token, hash } = createToken();
+    const { data: claimed, error: claimError } = await adminClient
+      .from('stock_notifications')
+      .update({ notified_at: new Date().toISOString(), unsubscribe_token_hash: hash })
+      .eq('id', row.id)
+      .is('notified_at', null)
+      .is('unsubscribed_at', null)
+      .select('id')
+      .maybeSingle();
+    if (claimError) {
+      console.warn('[stockNotifications] Could not claim sign-up:', claimError.message);
+      continue;
+    }
+    if (!claimed) continue;
+    notices.push({
+      id: row.id,
+      email: row.email,
+      productTitle: row.product_title,
+      productSlug: row.product_slug,
+      variantLabel: row.variant_label,
+      unsubscribeToken: token,
+    });
+  }
+  return notices;
+}
+
+/** Put a claimed sign-up back in the queue after its email failed. */
+export async function reopenStockNotification(
+  adminClient: SupabaseClient<any>,
+  id: string
+): Promise<void> {
+  const { error } = await adminClient
+    .from('stock_notifications')
+    .update({ notified_at: null })
+    .eq('id', id);
+  if (error) console.warn('[stockNotifications] Could not reopen sign-up:', error.message);
+}
+
+/** Email everyone waiting for a SKU that `levels` shows in stock. */
+export async function notifyRestockedVariants(
+  adminClient: SupabaseClient<any>,
+  levels: StockLevels,
+  siteUrl: string
+): Promise<{ sent: number; failed: number }> {
+  const notices = await claimRestockNotifications(adminClient, levels);
+  let sent = 0;
+  let failed = 0;
+  for (const notice of notices) {
+    const result = await sendBackInStockEmail({
+      to: notice.email,
+      productTitle: notice.productTitle,
+      variantLabel: notice.variantLabel,
+      productUrl: notice.productSlug ? `${siteUrl}/shop/${notice.productSlug}` : `${siteUrl}/shop`,
+      unsubscribeUrl: `${siteUrl}/shop/unsubscribe?token=${encodeURIComponent(notice.unsubscribeToken)}`,
+      oneClickUnsubscribeUrl: `${siteUrl}/api/stripe-checkout?action=stock-unsubscribe&token=${encodeURIComponent(notice.unsubscribeToken)}`,
+      siteUrl,
+    });
+    if (result.success) {
+      sent += 1;
+    } else {
+      failed += 1;
+      console.error('[stockNotifications] Back-in-stock email failed:', result.error);
+      if (!result.skipped) await reopenStockNotification(adminClient, notice.id);
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * One-click unsubscribe: close every sign-up of the token's email address. The timestamp withdraws
+ * the consent of any sign-up given before it, including one saved while this runs.
+ */
+export async function unsubscribeStockNotifications(
+  adminClient: SupabaseClient<any>,
+  token: string
+): Promise<StockNotificationResult<{ email: string }>> {
+  if (!token) return { ok: false, status: 400, error: 'Missing unsubscribe token.' };
+  const { data: row, error } = await adminClient
+    .from('stock_notifications')
+    .select('id, email')
+    .eq('unsubscribe_token_hash', hashStockNotificationToken(token))
+    .maybeSingle();
+  if (error) throw new Error(`Could not load stock notification: ${error.message}`);
+  if (!row) return { ok: false, status: 404, error: 'This unsubscribe link is not valid.' };
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await adminClient
+    .from('stock_notifications')
+    .update({ unsubscribed_at: now })
+    .eq('email', row.email)
+    .is('unsubscribed_at', null);
+  if (updateError) throw new Error(`Could not unsubscribe: ${updateError.message}`);
+  return { ok: true, value: { email: row.email } };
+}
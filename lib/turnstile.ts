@@ -0,0 +1,36 @@
+/**
+ * Cloudflare Turnstile check for guest forms (event guest signup, back-in-stock sign-ups). The
+ * widget on the page hands the browser a token; the server confirms it with Cloudflare.
+ *
+ * Server-side only.
+ */
+const TURNSTILE_SECRET_KEY = process.env.TURNSTILE_SECRET_KEY;
+
+/** True when a secret is configured, i.e. guest forms must send a token. */
+export function isTurnstileRequired(): boolean {
+  return !!TURNSTILE_SECRET_KEY;
+}
+
+/** Whether Cloudflare accepts `token`. Passes when no secret is configured (local development). */
+export async function verifyTurnstile(token: string, remoteIp: string): Promise<boolean> {
+  if (!TURNSTILE_SECRET_KEY) {
+    console.warn('[turnstile] Turnstile secret key not configured');
+    return true;
+  }
+  try {
+    const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        secret: TURNSTILE_SECRET_KEY,
+        response: token,
+        remoteip: remoteIp,
+      }),
+    });
+    const data = await response.json();
+    return data.success === true;
+  } catch (error) {
+    console.error('[turnstile] Turnstile verification failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { orderVat, splitGross, vatBreakdown } from './vat';
+
+describe('orderVat', () => {
+  it('charges German VAT at home and for pickup', () => {
+    expect(orderVat('de', 'DE')).toEqual({ treatment: 'domestic', rate: 19, country: 'DE' });
+    expect(orderVat('pickup', null)).toEqual({ treatment: 'domestic', rate: 19, country: 'DE' });
+  });
+
+  it("charges the destination's rate within the EU (OSS)", () => {
+    expect(orderVat('eu', 'at')).toEqual({ treatment: 'oss', rate: 20, country: 'AT' });
+    expect(orderVat('eu', 'FI')).toEqual({ treatment: 'oss', rate: 25.5, country: 'FI' });
+  });
+
+  it('falls back to German VAT when the EU destination is unknown', () => {
+    expect(orderVat('eu', null).treatment).toBe('domestic');
+    expect(orderVat('eu', 'NO').treatment).toBe('domestic');
+  });
+
+  it('treats Switzerland and the UK as exports', () => {
+    expect(orderVat('ch', 'CH')).toEqual({ treatment: 'export', rate: 0, country: 'CH' });
+    expect(orderVat('uk', undefined)).toEqual({ treatment: 'export', rate: 0, country: 'GB' });
+  });
+});
+
+describe('splitGross', () => {
+  it('takes the VAT out of gross amounts', () => {
+    expect(splitGross(11900, 19)).toEqual({ net: 10000, vat: 1900 });
+    expect(splitGross(3500, 19)).toEqual({ net: 2941, vat: 559 });
+    expect(splitGross(1990, 0)).toEqual({ net: 1990, vat: 0 });
+  });
+});
+
+describe('vatBreakdown', () => {
+  it('splits every line and adds the lines up', () => {
+    const breakdown = vatBreakdown(
+      [
+        { description: 'Kandie Gang Tee', quantity: 2, grossAmount: 7000 },
+        { description: 'Shipping', quantity: 1, grossAmount: 990 },
+      ],
+      21
+    );
+    expect(breakdown.lines.map((line) => [line.netAmount, line.vatAmount])).toEqual([
+      [5785, 1215],
+      [818, 172],
+    ]);
+    expect(breakdown).toMatchObject({ netTotal: 6603, vatTotal: 1387, grossTotal: 7990 });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * VAT on shop orders. Kandie Kollektiv sells from Germany; prices and shipping include VAT.
+ *
+ * - Germany and local pickup: German VAT.
+ * - Other EU countries (`eu` shipping): the destination country's standard rate, declared through
+ *   the One-Stop-Shop (OSS), as Stripe Tax would charge it.
+ * - Switzerland and the UK: export delivery, no German VAT (import VAT is the buyer's).
+ *
+ * Every line of an order uses the same rate; the shop only sells standard-rated goods.
+ */
+
+export const SELLER_COUNTRY = 'DE';
+
+/** Standard VAT rates in percent by ISO country code (EU member states). */
+export const EU_VAT_RATES: Readonly<Record<string, number>> = {
+  AT: 20,
+  BE: 21,
+  BG: 20,
+  CY: 19,
+  CZ: 21,
+  DE: 19,
+  DK: 25,
+  EE: 24,
+  ES: 21,
+  FI: 25.5,
+  FR: 20,
+  GR: 24,
+  HR: 25,
+  HU: 27,
+  IE: 23,
+  IT: 22,
+  LT: 21,
+  LU: 17,
+  LV: 21,
+  MT: 18,
+  NL: 21,
+  PL: 23,
+  PT: 23,
+  RO: 21,
+  SE: 25,
+  SI: 22,
+  SK: 23,
+};
+
+export const EU_COUNTRIES: readonly string[] = Object.keys(EU_VAT_RATES);
+
+export type VatTreatment = 'domestic' | 'oss' | 'export';
+
+export type OrderVat = {
+  treatment: VatTreatment;
+  /** Percent, e.g. 19 or 25.5. */
+  rate: number;
+  /** Country whose rules apply (destination for OSS and exports). */
+  country: string;
+};
+
+export type VatLineInput = { description: string; quantity: number; grossAmount: number };
+
+export type VatLine = VatLineInput & { netAmount: number; vatAmount: number };
+
+export type VatBreakdown = {
+  lines: VatLine[];
+  netTotal: number;
+  vatTotal: number;
+  grossTotal: number;
+};
+
+/** How an order is taxed, from its shipping option and the country it goes to. */
+export function orderVat(
+  shippingOption: string | null | undefined,
+  destinationCountry: string | null | undefined
+): OrderVat {
+  const country = destinationCountry?.trim().toUpperCase() || null;
+  if (shippingOption === 'ch' || shippingOption === 'uk') {
+    return {
+      treatment: 'export',
+      rate: 0,
+      country: country ?? (shippingOption === 'ch' ? 'CH' : 'GB'),
+    };
+  }
+  if (
+    shippingOption === 'eu' &&
+    country &&
+    country !== SELLER_COUNTRY &&
+    EU_VAT_RATES[country] != null
+  ) {
+    return { treatment: 'oss', rate: EU_VAT_RATES[country], country };
+  }
+  return { treatment: 'domestic', rate: EU_VAT_RATES[SELLER_COUNTRY], country: SELLER_COUNTRY };
+}
+
+/** Net and VAT parts of a VAT-inclusive amount (minor units). */
+export function splitGross(grossAmount: number, rate: number): { net: number; vat: number } {
+  const net = Math.round((grossAmount * 100) / (100 + rate));
+  return { net, vat: grossAmount - net };
+}
+
+/** Per-line net/VAT split of VAT-inclusive lines; totals are the sums of the lines. */
+export function vatBreakdown(lines: VatLineInput[], rate: number): VatBreakdown {
+  const split = lines.map((line) => {
+    const { net, vat } = splitGross(line.grossAmount, rate);
+    return { ...line, netAmount: net, vatAmount: vat };
+  });
+  return {
+    lines: split,
+    netTotal: split.reduce((sum, line) => sum + line.netAmount, 0),
+    vatTotal: split.reduce((sum, line) => sum + line.vatAmount, 0),
+    grossTotal: split.reduce((sum, line) => sum + line.grossAmount, 0),
+  };
+}
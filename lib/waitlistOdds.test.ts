@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildWaitlistStanding,
+  countFreedSpots,
+  estimatePromotionChance,
+  formatWaitlistChance,
+  formatWaitlistPosition,
+  getWaitlistPlace,
+} from './waitlistOdds';
+
+describe('getWaitlistPlace', () => {
+  const queue = [
+    { id: 'c', waitlist_joined_at: '2026-05-03T10:00:00Z' },
+    { id: 'a', waitlist_joined_at: '2026-05-01T10:00:00Z' },
+    { id: 'lapsed', waitlist_joined_at: '2026-04-30T10:00:00Z', waitlist_offer_lapsed_at: 'x' },
+    { id: 'b', waitlist_joined_at: null, created_at: '2026-05-02T10:00:00Z' },
+  ];
+
+  it('orders by join time and skips lapsed offers', () => {
+    expect(getWaitlistPlace(queue, 'a')).toEqual({ position: 1, ahead: 0 });
+    expect(getWaitlistPlace(queue, 'c')).toEqual({ position: 3, ahead: 2 });
+  });
+
+  it('gives riders with a lapsed offer no place', () => {
+    expect(getWaitlistPlace(queue, 'lapsed')).toEqual({ position: null, ahead: 3 });
+  });
+
+  it('returns null for registrations not on the waitlist', () => {
+    expect(getWaitlistPlace(queue, 'nope')).toBe(null);
+  });
+});
+
+describe('countFreedSpots', () => {
+  it('counts confirmed cancellations per waitlisted ride', () => {
+    const freed = countFreedSpots(
+      [
+        { event_id: 1, occurrence_date: null },
+        { event_id: 1, occurrence_date: null },
+        { event_id: 2, occurrence_date: '2026-05-05' },
+        { event_id: 3 },
+      ],
+      [
+        { event_id: 1 },
+        { event_id: 1 },
+        { event_id: 2, occurrence_date: '2026-05-12' },
+        { event_id: 4 },
+      ]
+    );
+    expect(freed.sort()).toEqual([0, 0, 2]);
+  });
+
+  it('leaves out rides cancelled by a guide', () => {
+    expect(
+      countFreedSpots([{ event_id: 1 }, { event_id: 2 }], [{ event_id: 1 }], [{ event_id: 1 }])
+    ).toEqual([0]);
+  });
+});
+
+describe('estimatePromotionChance', () => {
+  it('needs enough history', () => {
+    expect(estimatePromotionChance([3, 3, 3, 3], 1)).toBe(null);
+  });
+
+  it('is the share of rides freeing at least that many spots', () => {
+    expect(estimatePromotionChance([0, 1, 2, 3, 4], 1)).toBe(0.8);
+    expect(estimatePromotionChance([0, 1, 2, 3, 4], 4)).toBe(0.2);
+  });
+});
+
+describe('formatting', () => {
+  it('describes position and chance', () => {
+    const standing = buildWaitlistStanding({ position: 2, ahead: 1 }, [0, 2, 2, 3, 5]);
+    expect(standing.likelihood).toBe('likely');
+    expect(formatWaitlistPosition(standing)).toBe(
+      'You are #2 on the waitlist (1 person ahead of you).'
+    );
+    expect(formatWaitlistChance(standing)).toBe(
+      'Good chance: 4 of 5 past full rides at this level freed enough spots.'
+    );
+  });
+
+  it('omits the chance without history', () => {
+    const standing = buildWaitlistStanding({ position: 1, ahead: 0 }, [1]);
+    expect(formatWaitlistPosition(standing)).toBe('You are #1 on the waitlist (next in line).');
+    expect(formatWaitlistChance(standing)).toBe(null);
+  });
+});
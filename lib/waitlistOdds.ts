@@ -0,0 +1,140 @@
+/**
+ * Waitlist position and promotion odds for waitlisted riders.
+ *
+ * The odds are historical: across past rides of the same level that had a waitlist, how often did
+ * at least as many confirmed riders cancel as this rider's place in the queue? api/event.ts loads
+ * that history from `registrations`; this module only does the counting and the wording, so the
+ * signup panel, the event sidebar and the waitlist email say the same thing.
+ */
+
+export type WaitlistLikelihood = 'likely' | 'possible' | 'unlikely';
+
+export type WaitlistStanding = {
+  /** 1-based place in the queue; null when the rider's claim offer lapsed. */
+  position: number | null;
+  /** Riders ahead in the queue (including anyone holding an open claim offer). */
+  ahead: number;
+  /** Share (0–1) of comparable past rides where this place would have got a spot. */
+  chance: number | null;
+  likelihood: WaitlistLikelihood | null;
+  /** Number of past rides the chance is based on. */
+  sampleSize: number;
+};
+
+export type WaitlistQueueRow = {
+  id: string;
+  waitlist_joined_at?: string | null;
+  created_at?: string | null;
+  waitlist_offer_lapsed_at?: string | null;
+};
+
+export type RideRef = { event_id: number; occurrence_date?: string | null };
+
+/** Fewer past rides than this are too few to quote a chance. */
+export const MIN_HISTORY_RIDES = 5;
+
+const LIKELY_THRESHOLD = 0.6;
+const POSSIBLE_THRESHOLD = 0.25;
+
+export function rideKey(ride: RideRef): string {
+  return `${ride.event_id}:${ride.occurrence_date ?? ''}`;
+}
+
+/**
+ * Place of one registration in a level's waitlist, ordered by join time. Riders whose claim offer
+ * lapsed are skipped by automatic promotion, so they are neither counted ahead nor given a place.
+ */
+export function getWaitlistPlace(
+  queue: WaitlistQueueRow[],
+  registrationId: string
+): { position: number | null; ahead: number } | null {
+  const self = queue.find((row) => row.id === registrationId);
+  if (!self) return null;
+  const active = queue
+    .filter((row) => !row.waitlist_offer_lapsed_at)
+    .sort((a, b) =>
+      String(a.waitlist_joined_at ?? a.created_at ?? '').localeCompare(
+        String(b.waitlist_joined_at ?? b.created_at ?? '')
+      )
+    );
+  const index = active.findIndex((row) => row.id === registrationId);
+  if (index === -1) return { position: null, ahead: active.length };
+  return { position: index + 1, ahead: index };
+}
+
+/**
+ * Confirmed cancellations per past ride that had a waitlist. Rides a guide cancelled outright are
+ * left out — everyone was cancelled there, which says nothing about freed spots.
+ */
+export function countFreedSpots(
+  waitlistedRides: RideRef[],
+  confirmedCancellations: RideRef[],
+  cancelledRides: RideRef[] = []
+): number[] {
+  const excluded = new Set(cancelledRides.map(rideKey));
+  const freed = new Map<string, number>();
+  waitlistedRides.forEach((ride) => {
+    const key = rideKey(ride);
+    if (!excluded.has(key)) freed.set(key, 0);
+  });
+  confirmedCancellations.forEach((ride) => {
+    const key = rideKey(ride);
+    const current = freed.get(key);
+    if (current !== undefined) freed.set(key, current + 1);
+  });
+  return Array.from(freed.values());
+}
+
+/** Share of past rides that freed at least `position` spots; null without enough history. */
+export function estimatePromotionChance(freedSpots: number[], position: number): number | null {
+  if (freedSpots.length < MIN_HISTORY_RIDES || position < 1) return null;
+  const hits = freedSpots.filter((count) => count >= position).length;
+  return hits / freedSpots.length;
+}
+
+export function getLikelihood(chance: number | null): WaitlistLikelihood | null {
+  if (chance === null) return null;
+  if (chance >= LIKELY_THRESHOLD) return 'likely';
+  if (chance >= POSSIBLE_THRESHOLD) return 'possible';
+  return 'unlikely';
+}
+
+export function buildWaitlistStanding(
+  place: { position: number | null; ahead: number },
+  freedSpots: number[]
+): WaitlistStanding {
+  const chance =
+    place.position !== null ? estimatePromotionChance(freedSpots, place.position) : null;
+  return {
+    position: place.position,
+    ahead: place.ahead,
+    chance,
+    likelihood: getLikelihood(chance),
+    sampleSize: freedSpots.length,
+  };
+}
+
+const LIKELIHOOD_LABELS: Record<WaitlistLikelihood, string> = {
+  likely: 'Good chance',
+  possible: 'Some chance',
+  unlikely: 'Slim chance',
+};
+
+/** One-line summary, e.g. "You are #3 on the waitlist (2 people ahead of you)." */
+export function formatWaitlistPosition(standing: WaitlistStanding): string {
+  if (standing.position === null) {
+    return 'Your claim offer lapsed. A guide can still move you up if a spot opens.';
+  }
+  const ahead =
+    standing.ahead === 0
+      ? 'next in line'
+      : `${standing.ahead} ${standing.ahead === 1 ? 'person' : 'people'} ahead of you`;
+  return `You are #${standing.position} on the waitlist (${ahead}).`;
+}
+
+/** Chance line, e.g. "Good chance: 7 of 10 past full rides freed enough spots."; null without history. */
+export function formatWaitlistChance(standing: WaitlistStanding): string | null {
+  if (standing.chance === null || standing.likelihood === null) return null;
+  const hits = Math.round(standing.chance * standing.sampleSize);
+  return `${LIKELIHOOD_LABELS[standing.likelihood]}: ${hits} of ${standing.sampleSize} past full rides at this level freed enough spots.`;
+}
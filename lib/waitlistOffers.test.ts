@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  WAITLIST_SWEEP_INTERVAL_MS,
+  getOfferExpiry,
+  holdsOfferedSpot,
+  isWaitlistSweepDue,
+  parseRideStart,
+  sweepWaitlistOffersIfDue,
+} from './waitlistOffers';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getOfferExpiry', () => {
+  const now = new Date('2026-05-10T08:00:00Z');
+
+  it('returns null when offers are disabled', () => {
+    expect(getOfferExpiry(now, null, 0)).toBeNull();
+  });
+
+  it('uses the full claim window when the ride is far away', () => {
+    const ride = new Date(now.getTime() + 72 * HOUR);
+    expect(getOfferExpiry(now, ride, 12)?.toISOString()).toBe('2026-05-10T20:00:00.000Z');
+  });
+
+  it('shrinks the window to half the time left before the ride', () => {
+    const ride = new Date(now.getTime() + 6 * HOUR);
+    expect(getOfferExpiry(now, ride, 12)?.toISOString()).toBe('2026-05-10T11:00:00.000Z');
+  });
+
+  it('promotes directly when the ride is too close for an offer', () => {
+    const ride = new Date(now.getTime() + 45 * 60 * 1000);
+    expect(getOfferExpiry(now, ride, 12)).toBeNull();
+  });
+});
+
+describe('parseRideStart', () => {
+  it('reads the ride time as Hamburg local time', () => {
+    expect(parseRideStart('2026-05-12', '18:30')?.toISOString()).toBe('2026-05-12T16:30:00.000Z');
+    expect(parseRideStart('2026-01-13', '6:30pm')?.toISOString()).toBe('2026-01-13T17:30:00.000Z');
+  });
+
+  it('falls back to the start of the day without a usable time', () => {
+    expect(parseRideStart('2026-05-12T00:00:00', null)?.toISOString()).toBe(
+      '2026-05-11T22:00:00.000Z'
+    );
+    expect(parseRideStart(null, '18:30')).toBeNull();
+  });
+});
+
+describe('holdsOfferedSpot', () => {
+  const now = new Date('2026-05-10T08:00:00Z');
+
+  it('is true only for waitlisted rows with an open offer', () => {
+    expect(
+      holdsOfferedSpot(
+        { is_waitlist: true, waitlist_offer_expires_at: '2026-05-10T09:00:00Z' },
+        now
+      )
+    ).toBe(true);
+    expect(
+      holdsOfferedSpot(
+        { is_waitlist: true, waitlist_offer_expires_at: '2026-05-10T07:00:00Z' },
+        now
+      )
+    ).toBe(false);
+    expect(
+      holdsOfferedSpot(
+        { is_waitlist: false, waitlist_offer_expires_at: '2026-05-10T09:00:00Z' },
+        now
+      )
+    ).toBe(false);
+  });
+});
+
+describe('sweepWaitlistOffersIfDue', () => {
+  it('is due once the interval has passed since the last full sweep', () => {
+    const last = Date.parse('2026-05-10T08:00:00Z');
+    expect(isWaitlistSweepDue(last, last + WAITLIST_SWEEP_INTERVAL_MS - 1)).toBe(false);
+    expect(isWaitlistSweepDue(last, last + WAITLIST_SWEEP_INTERVAL_MS)).toBe(true);
+  });
+
+  it('sweeps all events, then waits for the interval before sweeping again', async () => {
+    const eventFilters: unknown[] = [];
+    let sweeps = 0;
+    const query = {
+      update: () => query,
+      is: () => query,
+      not: () => query,
+      lt: () => query,
+      eq: (column: string, value: unknown) => {
+        if (column === 'event_id') eventFilters.push(value);
+        return query;
+      },
+      select: async () => {
+        sweeps += 1;
+        return { data: [], error: null };
+      },
+    };
+    const client = { from: () => query } as unknown as SupabaseClient<any>;
+    const now = Date.parse('2030-01-01T07:00:00Z');
+
+    await sweepWaitlistOffersIfDue(client, now);
+    await sweepWaitlistOffersIfDue(client, now + WAITLIST_SWEEP_INTERVAL_MS - 1);
+    expect(sweeps).toBe(1);
+    await sweepWaitlistOffersIfDue(client, now + WAITLIST_SWEEP_INTERVAL_MS);
+    expect(sweeps).toBe(2);
+    expect(eventFilters).toEqual([]);
+  });
+});
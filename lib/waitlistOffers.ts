@@ -0,0 +1,504 @@
+/**
+ * Waitlist promotion with an optional claim window.
+ *
+ * When a confirmed spot frees up, the next rider on the waitlist either gets the spot straight away
+ * (default) or — when `WAITLIST_CLAIM_HOURS` is set — a time-limited offer with a claim link. The
+ * spot is held for them until the offer expires; unclaimed offers lapse and pass to the next rider.
+ * Lapsed offers are swept lazily by `api/event.ts` — the event at hand on every capacity read and
+ * signup, all events at most every `WAITLIST_SWEEP_INTERVAL_MS` — and once a day by the
+ * `api/send-reminders` cron (Hobby plan crons only run daily, and windows can be 30 minutes).
+ *
+ * Server-side only (Supabase service role + Resend).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import crypto from 'crypto';
+import { formatOccurrenceTitle, scopeToOccurrence } from './recurrence.js';
+
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const FROM_EMAIL = process.env.RESEND_FROM_EMAIL ?? 'Kandie Gang <noreply@kandiegang.com>';
+const BASE_URL =
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://kandiegang.com');
+const WP_GRAPHQL_URL =
+  process.env.VITE_WP_GRAPHQL_URL ||
+  process.env.WP_GRAPHQL_URL ||
+  'https://wp-origin.kandiegang.com/graphql';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Offers shorter than this are pointless; the spot is given away directly instead. */
+const MIN_CLAIM_WINDOW_MS = 30 * 60 * 1000;
+/** Rides are announced in Hamburg local time. */
+const RIDE_TIME_ZONE = 'Europe/Berlin';
+/** How often the event API sweeps the lapsed offers of all events (per function instance). */
+export const WAITLIST_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+let lastFullSweepMs = 0;
+
+export type WaitlistPromotionResult = 'offered' | 'promoted' | null;
+
+export type ClaimOfferResult =
+  | { status: 'claimed'; eventId: number; rideLevel: string; occurrenceDate: string | null }
+  | { status: 'expired' }
+  | { status: 'invalid' };
+
+type WaitlistRow = {
+  id: string;
+  event_id: number;
+  user_id: string | null;
+  email: string | null;
+  ride_level: string;
+  occurrence_date: string | null;
+};
+
+export type RideMeta = { title: string; link: string; date: string | null; time: string | null };
+
+/** Claim window in hours from `WAITLIST_CLAIM_HOURS`; 0 (unset) keeps immediate promotion. */
+export function getWaitlistClaimHours(): number {
+  const hours = Number(process.env.WAITLIST_CLAIM_HOURS ?? 0);
+  return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+/**
+ * When an offer made at `now` expires. The window is `claimHours` but never more than half the
+ * time left before the ride, so late offers still leave room to pass the spot on. Returns null
+ * when offers are disabled or the ride is too close — the spot is then promoted directly.
+ */
+export function getOfferExpiry(now: Date, rideStart: Date | null, claimHours: number): Date | null {
+  if (claimHours <= 0) return null;
+  let windowMs = claimHours * HOUR_MS;
+  if (rideStart) {
+    windowMs = Math.min(windowMs, (rideStart.getTime() - now.getTime()) / 2);
+  }
+  if (windowMs < MIN_CLAIM_WINDOW_MS) return null;
+  return new Date(now.getTime() + windowMs);
+}
+
+function timeZoneOffsetMs(at: Date, timeZone: string): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+    .formatToParts(at)
+    .find((part) => part.type === 'timeZoneName')?.value;
+  const match = /GMT([+-])(\d{1,2})(?::(\d{2}))?/.exec(name ?? '');
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+  return (match[1] === '-' ? -1 : 1) * minutes * 60 * 1000;
+}
+
+/**
+ * Ride start from a "YYYY-MM-DD" date and an ACF time ("18:30", "6:30pm"), read as Hamburg local
+ * time. Without a usable time the start of the day is used, which errs towards shorter windows.
+ */
+export function parseRideStart(date: string | null, time: string | null): Date | null {
+  const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(date ?? '');
+  if (!day) return null;
+  let hours = 0;
+  let minutes = 0;
+  const clock = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/i.exec(time?.trim() ?? '');
+  if (clock) {
+    hours = Number(clock[1]);
+    minutes = Number(clock[2] ?? 0);
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) hours = minutes = 0;
+  }
+  const asUtc = Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3]), hours, minutes);
+  return new Date(asUtc - timeZoneOffsetMs(new Date(asUtc), RIDE_TIME_ZONE));
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function createToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(24).toString('base64url');
+  return { token, hash: hashToken(token) };
+}
+
+export async function fetchRideMeta(eventId: number): Promise<RideMeta> {
+  const fallback: RideMeta = {
+    title: 'Kandie Gang Event',
+    link: `${BASE_URL}/community`,
+    date: null,
+    time: null,
+  };
+  try {
+    const query = `query GetRideEventOfferMeta($id: ID!) { rideEvent(id: $id, idType: DATABASE_ID) { title link eventDetails { eventDate rideTime workshopStartTime } } }`;
+    const response = await fetch(WP_GRAPHQL_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables: { id: eventId } }),
+    });
+    if (!response.ok) return fallback;
+    const json = await response.json().catch(() => ({}));
+    const rideEvent = json?.data?.rideEvent;
+    if (!rideEvent) return fallback;
+    const details = rideEvent.eventDetails ?? {};
+    return {
+      title: rideEvent.title || fallback.title,
+      link: rideEvent.link || fallback.link,
+      date: typeof details.eventDate === 'string' ? details.eventDate.split('T')[0] : null,
+      time: details.workshopStartTime?.trim() || details.rideTime?.trim() || null,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+async function resolveEmail(
+  adminClient: SupabaseClient<any>,
+  row: Pick<WaitlistRow, 'email' | 'user_id'>
+): Promise<string | null> {
+  if (row.email) return row.email;
+  if (!row.user_id) return null;
+  const { data: profile } = await adminClient
+    .from('profiles')
+    .select('email')
+    .eq('id', row.user_id)
+    .single();
+  return profile?.email ?? null;
+}
+
+// ─── Email builders ───────────────────────────────────────────────────────────
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function formatRideLevel(rideLevel: string): string {
+  const map: Record<string, string> = {
+    level1: 'Level 1',
+    level2: 'Level 2',
+    level2plus: 'Level 2+',
+    level3: 'Level 3',
+    gravel: 'Gravel',
+    workshop: 'Workshop',
+  };
+  return map[rideLevel] ?? rideLevel;
+}
+
+function formatDeadline(expiresAt: Date): string {
+  return expiresAt.toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: RIDE_TIME_ZONE,
+  });
+}
+
+/** Shared layout of the "A spot opened up" emails: intro line, event pill, footer note + link. */
+function buildSpotEmailHtml(options: {
+  eventTitle: string;
+  rideLevel: string;
+  intro: string;
+  pillUrl?: string;
+  footerNote: string;
+  footerLinkLabel: string;
+  footerUrl: string;
+}): string {
+  const safeTitle = escapeHtml(options.eventTitle);
+  const safeLevel = escapeHtml(formatRideLevel(options.rideLevel));
+  const safeIntro = escapeHtml(options.intro);
+  const safeNote = escapeHtml(options.footerNote);
+  const safeLinkLabel = escapeHtml(options.footerLinkLabel);
+  const safeFooterUrl = escapeHtml(options.footerUrl);
+  const pill = options.pillUrl
+    ? `<a href="${escapeHtml(options.pillUrl)}" target="_blank" rel="noopener noreferrer" style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);text-decoration:none;padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${safeLevel}</a>`
+    : `<span style="display:inline-block;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(255,254,254);background-color:rgb(72,81,151);padding:11px 16px 13px;border-radius:9999px;font-weight:bold;">${safeTitle} - ${safeLevel}</span>`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head><body style="margin:0;padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:0;background:rgb(250,250,252);"><table border="0" cellpadding="0" cellspacing="0" width="100%" style="min-width:100%;border-collapse:collapse;margin:0;padding:0;text-align:center;table-layout:fixed;background:rgb(250,250,252);"><tbody><tr><td align="center" style="padding:24px 0px 16px;background:rgb(250,250,252);"><a href="https://kandiegang.com?spotopened" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:602px;border-collapse:separate;background:rgb(255,255,254);border-radius:16px;border:1px solid rgb(221,221,221);margin:0 auto;"><tbody><tr><td align="center" style="padding:40px 0px;border-radius:16px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px 20px;background:rgb(255,255,254);"><h2 style="font-family:RoobertPRO,Helvetica,Arial,sans-serif;font-size:32px;line-height:40px;font-weight:normal;margin:0;color:rgb(72,81,151);">A spot opened up!</h2></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:16px;line-height:24px;color:rgb(28,28,30);margin:0;">${safeIntro}</p></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" width="100%" align="center" style="max-width:600px;margin:0 auto;border-collapse:collapse;"><tbody><tr><td align="center" style="padding:0px 40px;background:rgb(255,255,254);"><table border="0" cellpadding="0" cellspacing="0" align="center" style="border-collapse:collapse;"><tbody><tr><td align="center">${pill}</td></tr></tbody></table></td></tr><tr><td align="center" style="padding:20px 0px 0px;background:rgb(255,255,254);"></td></tr></tbody></table></td></tr></tbody></table><table border="0" cellpadding="0" cellspacing="0" align="center" style="width:100%;max-width:600px;border-collapse:collapse;margin:0 auto;"><tbody><tr><td align="center" style="padding:60px 0px 0px;background:rgb(250,250,252);"></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);">${safeNote}</p></td></tr><tr><td align="center" style="padding:0px 40px 40px;background:rgb(250,250,252);"><p style="font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;margin:0;color:rgb(28,28,30);"><a href="${safeFooterUrl}" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">${safeLinkLabel}</a>.</p></td></tr><tr><td align="center" style="padding:0px 40px 24px;background:rgb(250,250,252);"><a href="https://kandiegang.com?spotopened" target="_blank" rel="noopener noreferrer"><img alt="Kandie Gang" width="138" src="https://www.kandiegang.com/logos/kandiegang_logo_purplerain_pill.png" style="display:block;width:138px;max-width:138px;margin:0 auto;"></a></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;color:rgb(28,28,30);"><span>Kandie Gang<br>It's a love story 💜</span><br><br></td></tr><tr><td align="center" style="padding:0px 40px;font-family:NotoSans,Helvetica,Arial,sans-serif;font-size:14px;line-height:20px;"><span><a href="https://www.kandiegang.com/privacy-policy?spotopened" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">Privacy Policy</a> | <a href="https://www.kandiegang.com/about?spotopened" target="_blank" rel="noopener noreferrer" style="font-weight:bold;text-decoration:none;color:rgb(72,81,151);">About Us</a></span></td></tr></tbody></table></td></tr></tbody></table></body></html>`;
+}
+
+export function buildPromotedHtml(
+  eventTitle: string,
+  rideLevel: string,
+  cancelUrl: string
+): string {
+  return buildSpotEmailHtml({
+    eventTitle,
+    rideLevel,
+    intro: 'You are now confirmed for:',
+    footerNote: 'Need to cancel? Use the link below.',
+    footerLinkLabel: 'Cancel my spot',
+    footerUrl: cancelUrl,
+  });
+}
+
+export function buildPromotedText(
+  eventTitle: string,
+  rideLevel: string,
+  cancelUrl: string
+): string {
+  return [
+    'A spot opened up',
+    '',
+    'You are now confirmed for:',
+    `${eventTitle} - ${formatRideLevel(rideLevel)}`,
+    '',
+    'Need to cancel? Use this link:',
+    cancelUrl,
+  ].join('\n');
+}
+
+function buildOfferHtml(
+  eventTitle: string,
+  rideLevel: string,
+  claimUrl: string,
+  expiresAt: Date
+): string {
+  return buildSpotEmailHtml({
+    eventTitle,
+    rideLevel,
+    intro: `We are holding a spot for you until ${formatDeadline(expiresAt)}:`,
+    pillUrl: claimUrl,
+    footerNote:
+      "Can't make it? Just ignore this email — the spot passes to the next rider on the waitlist.",
+    footerLinkLabel: 'Claim my spot',
+    footerUrl: claimUrl,
+  });
+}
+
+function buildOfferText(
+  eventTitle: string,
+  rideLevel: string,
+  claimUrl: string,
+  expiresAt: Date
+): string {
+  return [
+    'A spot opened up',
+    '',
+    `We are holding a spot for you until ${formatDeadline(expiresAt)}:`,
+    `${eventTitle} - ${formatRideLevel(rideLevel)}`,
+    '',
+    'Claim my spot:',
+    claimUrl,
+    '',
+    "Can't make it? Just ignore this email — the spot passes to the next rider on the waitlist.",
+  ].join('\n');
+}
+
+// ─── Promotion flow ───────────────────────────────────────────────────────────
+
+async function sendPromotedEmail(
+  adminClient: SupabaseClient<any>,
+  row: WaitlistRow,
+  cancelToken: string,
+  meta?: RideMeta
+): Promise<void> {
+  if (!RESEND_API_KEY) return;
+  try {
+    const to = await resolveEmail(adminClient, row);
+    if (!to) return;
+    const { title } = meta ?? (await fetchRideMeta(Number(row.event_id)));
+    const eventTitle = formatOccurrenceTitle(title, row.occurrence_date);
+    const cancelUrl = `${BASE_URL}/event/cancel?token=${encodeURIComponent(cancelToken)}`;
+    await new Resend(RESEND_API_KEY).emails.send({
+      from: FROM_EMAIL,
+      to,
+      subject: 'A spot opened up for your event',
+      html: buildPromotedHtml(eventTitle, row.ride_level, cancelUrl),
+      text: buildPromotedText(eventTitle, row.ride_level, cancelUrl),
+    });
+  } catch (emailErr) {
+    console.warn('Waitlist promotion email failed:', emailErr);
+  }
+}
+
+/**
+ * Give a freed spot to the next rider on the waitlist of one level (and occurrence). Riders whose
+ * earlier offer lapsed are skipped — they stay on the waitlist and can still be promoted by a guide.
+ */
+export async function offerNextWaitlistSpot(
+  adminClient: SupabaseClient<any>,
+  params: { eventId: number; rideLevel: string; occurrenceDate: string | null }
+): Promise<WaitlistPromotionResult> {
+  const { data: nextInLine } = await scopeToOccurrence(
+    adminClient
+      .from('registrations')
+      .select('id, event_id, user_id, email, ride_level, occurrence_date')
+      .eq('event_id', params.eventId)
+      .eq('ride_level', params.rideLevel)
+      .eq('is_waitlist', true)
+      .is('cancelled_at', null)
+      .is('waitlist_offer_token_hash', null)
+      .is('waitlist_offer_lapsed_at', null),
+    params.occurrenceDate
+  )
+    .order('waitlist_joined_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (!nextInLine) return null;
+  const row = nextInLine as WaitlistRow;
+
+  const claimHours = getWaitlistClaimHours();
+  const meta = claimHours > 0 ? await fetchRideMeta(params.eventId) : undefined;
+  const now = new Date();
+  const expiresAt = meta
+    ? getOfferExpiry(now, parseRideStart(params.occurrenceDate ?? meta.date, meta.time), claimHours)
+    : null;
+
+  if (!expiresAt) {
+    const { token: cancelToken, hash: cancelTokenHash } = createToken();
+    await adminClient
+      .from('registrations')
+      .update({
+        is_waitlist: false,
+        waitlist_promoted_at: now.toISOString(),
+        cancel_token_hash: cancelTokenHash,
+        cancel_token_issued_at: now.toISOString(),
+      })
+      .eq('id', row.id);
+    await sendPromotedEmail(adminClient, row, cancelToken, meta);
+    return 'promoted';
+  }
+
+  const { token: claimToken, hash: claimTokenHash } = createToken();
+  const { data: offered } = await adminClient
+    .from('registrations')
+    .update({
+      waitlist_offer_token_hash: claimTokenHash,
+      waitlist_offered_at: now.toISOString(),
+      waitlist_offer_expires_at: expiresAt.toISOString(),
+    })
+    .eq('id', row.id)
+    .is('waitlist_offer_token_hash', null)
+    .select('id')
+    .maybeSingle();
+  if (!offered) return null;
+
+  if (RESEND_API_KEY && meta) {
+    try {
+      const to = await resolveEmail(adminClient, row);
+      if (to) {
+        const eventTitle = formatOccurrenceTitle(meta.title, row.occurrence_date);
+        const claimUrl = `${BASE_URL}/event/claim?token=${encodeURIComponent(claimToken)}`;
+        await new Resend(RESEND_API_KEY).emails.send({
+          from: FROM_EMAIL,
+          to,
+          subject: `A spot opened up — claim it by ${formatDeadline(expiresAt)}`,
+          html: buildOfferHtml(eventTitle, row.ride_level, claimUrl, expiresAt),
+          text: buildOfferText(eventTitle, row.ride_level, claimUrl, expiresAt),
+        });
+      }
+    } catch (emailErr) {
+      console.warn('Waitlist offer email failed:', emailErr);
+    }
+  }
+  return 'offered';
+}
+
+/**
+ * Lapse offers past their deadline and pass each spot on. Scoped to one event when called lazily
+ * from the event API; the cron sweeps everything.
+ */
+export async function sweepExpiredWaitlistOffers(
+  adminClient: SupabaseClient<any>,
+  options: { eventId?: number } = {}
+): Promise<number> {
+  const nowIso = new Date().toISOString();
+  let query = adminClient
+    .from('registrations')
+    .update({ waitlist_offer_token_hash: null, waitlist_offer_lapsed_at: nowIso })
+    .eq('is_waitlist', true)
+    .is('cancelled_at', null)
+    .not('waitlist_offer_token_hash', 'is', null)
+    .lt('waitlist_offer_expires_at', nowIso);
+  if (options.eventId) query = query.eq('event_id', options.eventId);
+
+  const { data: lapsed, error } = await query.select('event_id, ride_level, occurrence_date');
+  if (error) {
+    console.warn('Waitlist offer sweep failed:', error);
+    return 0;
+  }
+
+  for (const row of lapsed ?? []) {
+    await offerNextWaitlistSpot(adminClient, {
+      eventId: Number(row.event_id),
+      rideLevel: row.ride_level,
+      occurrenceDate: row.occurrence_date ?? null,
+    });
+  }
+  return (lapsed ?? []).length;
+}
+
+export function isWaitlistSweepDue(lastSweepMs: number, nowMs: number): boolean {
+  return nowMs - lastSweepMs >= WAITLIST_SWEEP_INTERVAL_MS;
+}
+
+/**
+ * Sweep the lapsed offers of all events when the last full sweep of this instance is at least
+ * `WAITLIST_SWEEP_INTERVAL_MS` ago, so offers of quiet events are passed on without waiting for the
+ * daily cron. Returns the offers lapsed (0 when not due).
+ */
+export async function sweepWaitlistOffersIfDue(
+  adminClient: SupabaseClient<any>,
+  nowMs: number = Date.now()
+): Promise<number> {
+  if (!isWaitlistSweepDue(lastFullSweepMs, nowMs)) return 0;
+  lastFullSweepMs = nowMs;
+  return sweepExpiredWaitlistOffers(adminClient);
+}
+
+/** Turn an offer into a confirmed registration. Expired offers are lapsed and passed on. */
+export async function claimWaitlistOffer(
+  adminClient: SupabaseClient<any>,
+  token: string
+): Promise<ClaimOfferResult> {
+  const tokenHash = hashToken(token);
+  const { data: offer } = await adminClient
+    .from('registrations')
+    .select('id, event_id, user_id, email, ride_level, occurrence_date, waitlist_offer_expires_at')
+    .eq('waitlist_offer_token_hash', tokenHash)
+    .eq('is_waitlist', true)
+    .is('cancelled_at', null)
+    .maybeSingle();
+  if (!offer) return { status: 'invalid' };
+
+  const expiresAt = offer.waitlist_offer_expires_at
+    ? new Date(offer.waitlist_offer_expires_at)
+    : null;
+  if (!expiresAt || expiresAt.getTime() <= Date.now()) {
+    await sweepExpiredWaitlistOffers(adminClient, { eventId: Number(offer.event_id) });
+    return { status: 'expired' };
+  }
+
+  const nowIso = new Date().toISOString();
+  const { token: cancelToken, hash: cancelTokenHash } = createToken();
+  const { data: claimed } = await adminClient
+    .from('registrations')
+    .update({
+      is_waitlist: false,
+      waitlist_promoted_at: nowIso,
+      waitlist_offer_token_hash: null,
+      cancel_token_hash: cancelTokenHash,
+      cancel_token_issued_at: nowIso,
+    })
+    .eq('id', offer.id)
+    .eq('waitlist_offer_token_hash', tokenHash)
+    .select('id')
+    .maybeSingle();
+  if (!claimed) return { status: 'invalid' };
+
+  await sendPromotedEmail(adminClient, offer as WaitlistRow, cancelToken);
+  return {
+    status: 'claimed',
+    eventId: Number(offer.event_id),
+    rideLevel: offer.ride_level,
+    occurrenceDate: offer.occurrence_date ?? null,
+  };
+}
+
+/** Whether a waitlisted row currently holds a spot through an open offer. */
+export function holdsOfferedSpot(
+  row: { is_waitlist?: boolean | null; waitlist_offer_expires_at?: string | null },
+  now: Date = new Date()
+): boolean {
+  if (row.is_waitlist !== true || !row.waitlist_offer_expires_at) return false;
+  return new Date(row.waitlist_offer_expires_at).getTime() > now.getTime();
+}
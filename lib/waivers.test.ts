@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_WAIVER_VERSION, getWaiverStatus, isCurrentWaiverVersion } from './waivers';
+
+describe('isCurrentWaiverVersion', () => {
+  it('accepts only the current version string', () => {
+    expect(isCurrentWaiverVersion(CURRENT_WAIVER_VERSION)).toBe(true);
+    expect(isCurrentWaiverVersion('2020-01')).toBe(false);
+    expect(isCurrentWaiverVersion(undefined)).toBe(false);
+  });
+});
+
+describe('getWaiverStatus', () => {
+  it('distinguishes current, outdated and missing acceptances', () => {
+    expect(getWaiverStatus(CURRENT_WAIVER_VERSION)).toBe('current');
+    expect(getWaiverStatus('2020-01')).toBe('outdated');
+    expect(getWaiverStatus(null)).toBe('missing');
+  });
+});
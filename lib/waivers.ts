@@ -0,0 +1,35 @@
+/**
+ * Ride waiver versions. Bump the version (append an entry) whenever the waiver text in
+ * pages/site/WaiverPage.tsx changes: riders then have to accept the new version on their next
+ * signup, and every acceptance is stored per registration and version in `waiver_acceptances`.
+ */
+
+export type WaiverVersion = {
+  version: string;
+  /** YYYY-MM-DD */
+  effectiveFrom: string;
+  summary: string;
+};
+
+export const WAIVER_VERSIONS: WaiverVersion[] = [
+  {
+    version: '2026-10',
+    effectiveFrom: '2026-10-19',
+    summary: 'Haftungsausschluss für gemeinsame sportliche Aktivitäten der Kandie Gang.',
+  },
+];
+
+export const CURRENT_WAIVER = WAIVER_VERSIONS[WAIVER_VERSIONS.length - 1];
+export const CURRENT_WAIVER_VERSION = CURRENT_WAIVER.version;
+
+export type WaiverStatus = 'current' | 'outdated' | 'missing';
+
+export function isCurrentWaiverVersion(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() === CURRENT_WAIVER_VERSION;
+}
+
+/** Status of the waiver a rider accepted for a registration, as shown on guide rosters. */
+export function getWaiverStatus(acceptedVersion: string | null | undefined): WaiverStatus {
+  if (!acceptedVersion) return 'missing';
+  return acceptedVersion === CURRENT_WAIVER_VERSION ? 'current' : 'outdated';
+}
@@ -6,6 +6,7 @@
 
 import { STORY_BLOCKS_QUERY } from './graphql/storyBlocks.ts';
 import type { StoryBlocksData } from './storyGalleries.ts';
+import type { ShopCampaign } from './shopCampaigns.ts';
 
 // WordPress GraphQL endpoint from environment variable
 // Falls back to demo endpoint if not configured
@@ -707,6 +708,7 @@ export interface WPProduct {
     inventory?: number;
     inStock?: boolean;
     variants?: WPProductVariantShape[];
+    campaign?: ShopCampaign | null;
   };
 }
 
@@ -760,6 +762,13 @@ export const GET_PRODUCTS_QUERY = `
             sku
             inventory
           }
+          campaign {
+            startsAt
+            endsAt
+            memberEarlyAccessHours
+            memberLimit
+            memberCouponId
+          }
         }
       }
     }
@@ -820,6 +829,13 @@ export const GET_PRODUCT_QUERY = `
           sku
           inventory
         }
+        campaign {
+          startsAt
+          endsAt
+          memberEarlyAccessHours
+          memberLimit
+          memberCouponId
+        }
       }
     }
     mediaItems(first: 200) {
@@ -980,6 +996,13 @@ export const GET_PRODUCT_BY_SLUG_QUERY = `
             sku
             inventory
           }
+          campaign {
+            startsAt
+            endsAt
+            memberEarlyAccessHours
+            memberLimit
+            memberCouponId
+          }
         }
       }
     }
@@ -1389,6 +1412,9 @@ export interface EventDetailsMetadata {
   level3?: RideLevel;
   isFlintaOnly?: boolean;
   repeatingEvent?: boolean;
+  repeatUntil?: string | null;
+  recurrenceRule?: string | null;
+  recurrenceExceptions?: string | null;
   meetingPoint?: {
     name?: string;
     street?: string;
@@ -12,10 +12,11 @@ import { MarketingOptInCard } from '../../components/admin/MarketingOptInCard';
 import { ChurnRiskCard } from '../../components/admin/ChurnRiskCard';
 import { MemberTable } from '../../components/admin/MemberTable';
 import { EventParticipationTable } from '../../components/admin/EventParticipationTable';
+import { ShopOrdersTable } from '../../components/admin/ShopOrdersTable';
 import { MemberAnalytics, WebsiteAnalytics } from '../../types/analytics';
 
 type MetricFilter = 'all' | 'active_subs' | 'at_risk' | 'has_ltv' | 'has_events';
-type AnalyticsTab = 'website' | 'member' | 'events';
+type AnalyticsTab = 'website' | 'member' | 'events' | 'orders';
 
 type WebsiteMetric = {
   label: string;
@@ -283,6 +284,17 @@ export const AnalyticsDashboardPage: React.FC = () => {
             >
               Event Participation
             </button>
+            <button
+              type="button"
+              onClick={() => setActiveTab('orders')}
+              className={`rounded-md px-4 py-2 text-sm transition-colors ${
+                activeTab === 'orders'
+                  ? 'bg-neutral-900 text-white'
+                  : 'text-neutral-600 hover:text-neutral-900'
+              }`}
+            >
+              Shop Orders
+            </button>
           </div>
         </div>
 
@@ -464,6 +476,19 @@ export const AnalyticsDashboardPage: React.FC = () => {
                   <MemberTable members={filteredMembers} />
                 </div>
               </>
+            ) : activeTab === 'orders' ? (
+              <>
+                <div className="bg-white border border-neutral-200 rounded-xl p-6 md:p-7">
+                  <h2 className="text-2xl font-light text-neutral-900 tracking-tight">
+                    Shop Orders
+                  </h2>
+                  <p className="text-sm text-neutral-500 mt-2">
+                    Paid shop orders to pack and ship. Marking an order shipped emails the customer
+                    their tracking number.
+                  </p>
+                </div>
+                <ShopOrdersTable />
+              </>
             ) : (
               <>
                 <div className="bg-white border border-neutral-200 rounded-xl p-6 md:p-7">
@@ -7,7 +7,7 @@
 import * as React from 'react';
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { Loader2, AlertCircle, CalendarPlus } from 'lucide-react';
 import { Helmet } from 'react-helmet-async';
 // ...existing code (removed unused Link import)
 import { AnimatedBlob } from '../../components/visual/AnimatedBlob';
@@ -212,6 +212,17 @@ export const CommunityPage: React.FC = () => {
             >
               Join us for upcoming rides, events and workshops.
             </motion.p>
+            <motion.a
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              href={`webcal://${typeof window !== 'undefined' ? window.location.host : 'kandiegang.com'}/calendar.ics`}
+              title="Adds all upcoming rides to your calendar app. Filter with ?type=ride or ?level=level2."
+              className="inline-flex items-center gap-2 text-sm font-medium text-secondary-purple-rain hover:underline whitespace-nowrap"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Subscribe to calendar
+            </motion.a>
           </div>
         </div>
       </section>
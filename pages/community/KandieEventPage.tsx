@@ -1,7 +1,7 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { imageSrc } from '../../lib/images';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
 import toast, { Toaster } from 'react-hot-toast';
 import EventHeader from '../../components/event/EventHeader';
@@ -23,17 +23,35 @@ import rehypeSanitize from 'rehype-sanitize';
 import { usePageMeta } from '../../hooks/usePageMeta';
 import { normalizeEventType } from '../../lib/eventType';
 import { hasActiveMembership } from '../../lib/membership';
+import { memberEarlyAccessDays } from '../../lib/membershipTiers';
+import { isEmergencyInfoWindowOpen } from '../../lib/guideAccess';
+import { getWaiverStatus } from '../../lib/waivers';
+import type { RouteSummary } from '../../lib/gpx';
+import type { WaitlistStanding } from '../../lib/waitlistOdds';
+import type { EventLevelGuides } from '../../lib/guideEventSync';
 import { normalizeWordPressEventDescription } from '../../lib/normalizeWordPressEventDescription';
+import {
+  expandOccurrences,
+  getEventRecurrence,
+  isOccurrenceDate,
+  scopeToOccurrence,
+  shiftToOccurrence,
+} from '../../lib/recurrence';
+
+type EventLevelGuide = { id: string | number; name: string; image?: string };
 
 export const KandieEventPage: React.FC = () => {
   const { yy, mm, dd, slug } = useParams<{ yy: string; mm: string; dd: string; slug: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, profile } = useAuth();
   const { openEventSignup, openMemberLogin } = useMemberLoginOffcanvas();
   const [eventData, setEventData] = useState<KandieEventData | null>(null);
   const [loading, setLoading] = useState(true);
   const [restoredSignup, setRestoredSignup] = useState(false);
   const [capacityCounts, setCapacityCounts] = useState<Record<string, number> | null>(null);
+  const [waitlistStandings, setWaitlistStandings] = useState<Record<string, WaitlistStanding>>({});
+  const [plannedGuides, setPlannedGuides] = useState<EventLevelGuides | null>(null);
   const [hasRegistrationCode, setHasRegistrationCode] = useState(false);
   const [nowMs, setNowMs] = useState(() => Date.now());
   const [registrations, setRegistrations] = useState<Record<string, { isWaitlist: boolean }>>({});
@@ -49,6 +67,7 @@ export const KandieEventPage: React.FC = () => {
         created_at: string;
         checked_in_at?: string | null;
         no_show_at?: string | null;
+        waiver_version?: string | null;
       }>
     >
   >({});
@@ -73,6 +92,18 @@ export const KandieEventPage: React.FC = () => {
     label: string;
   } | null>(null);
   const [finalizeAttendanceLoading, setFinalizeAttendanceLoading] = useState(false);
+  const [rosterExportLoading, setRosterExportLoading] = useState<string | null>(null);
+  const [routeSummaries, setRouteSummaries] = useState<Record<string, RouteSummary>>({});
+  const [emergencyInfoByLevel, setEmergencyInfoByLevel] = useState<
+    Record<
+      string,
+      Record<
+        string,
+        { contactName: string | null; contactPhone: string | null; medicalNotes: string | null }
+      >
+    >
+  >({});
+  const [emergencyInfoLoading, setEmergencyInfoLoading] = useState<string | null>(null);
 
   // Dynamic page meta and Open Graph tags for event sharing.
   // Always call this hook (even before data is loaded) to keep hook order stable.
@@ -92,15 +123,51 @@ export const KandieEventPage: React.FC = () => {
       : null;
 
   usePageMeta(pageTitle, ogDescription, ogImageUrl, eventPageUrl);
+
+  // Recurring series: each date is registered separately. The selected date lives in ?date=
+  // so links to a specific ride can be shared; it defaults to the next upcoming occurrence.
+  const recurrence = useMemo(
+    () => getEventRecurrence(eventData?.eventDetails),
+    [eventData?.eventDetails]
+  );
+  const upcomingOccurrences = useMemo(() => {
+    if (!recurrence) return [];
+    const today = new Date();
+    const todayKey = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    return expandOccurrences(recurrence, { from: todayKey, limit: 12 });
+  }, [recurrence]);
+  const requestedOccurrence = searchParams.get('date');
+  const occurrenceDate = recurrence
+    ? requestedOccurrence && isOccurrenceDate(recurrence, requestedOccurrence)
+      ? requestedOccurrence
+      : (upcomingOccurrences[0] ?? null)
+    : null;
+  const selectOccurrence = useCallback(
+    (date: string) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          next.set('date', date);
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
   // Fetch all participants for the event and group by ride_level
   const refreshParticipantsByLevel = useCallback(async () => {
     if (!eventData?.databaseId || !supabase) return;
     try {
-      const { data, error } = await supabase
-        .from('registrations')
-        .select('id,ride_level,first_name,last_name,user_id,is_waitlist,created_at,checked_in_at,no_show_at')
-        .eq('event_id', Number(eventData.databaseId))
-        .is('cancelled_at', null);
+      const { data, error } = await scopeToOccurrence(
+        supabase
+          .from('registrations')
+          .select('id,ride_level,first_name,last_name,user_id,is_waitlist,created_at,checked_in_at,no_show_at')
+          .eq('event_id', Number(eventData.databaseId))
+          .is('cancelled_at', null),
+        occurrenceDate
+      );
       console.debug('[KandieEventPage] Supabase participants query result:', { data, error });
       if (error) {
         console.warn('Participant lookup failed:', error);
@@ -118,8 +185,20 @@ export const KandieEventPage: React.FC = () => {
           created_at: string;
           checked_in_at?: string | null;
           no_show_at?: string | null;
+          waiver_version?: string | null;
         }>
       > = {};
+      // Only guides can read waiver acceptances (RLS); everyone else gets an empty list.
+      const waiverVersions: Record<string, string> = {};
+      if (profile?.is_guide && (data ?? []).length > 0) {
+        const { data: acceptances } = await supabase
+          .from('waiver_acceptances')
+          .select('registration_id,waiver_version')
+          .in('registration_id', (data ?? []).map((row) => row.id));
+        (acceptances ?? []).forEach((a) => {
+          if (a.registration_id) waiverVersions[a.registration_id] = a.waiver_version;
+        });
+      }
       (data ?? []).forEach((row) => {
         const level =
           typeof row.ride_level === 'string' && row.ride_level.trim() ? row.ride_level : 'workshop';
@@ -133,6 +212,7 @@ export const KandieEventPage: React.FC = () => {
           created_at: row.created_at,
           checked_in_at: row.checked_in_at ?? null,
           no_show_at: row.no_show_at ?? null,
+          waiver_version: waiverVersions[row.id] ?? null,
         });
       });
 
@@ -150,15 +230,18 @@ export const KandieEventPage: React.FC = () => {
       console.warn('Participant lookup failed:', err);
       setParticipantsLoaded(false);
     }
-  }, [eventData?.databaseId, supabase]);
+  }, [eventData?.databaseId, occurrenceDate, profile?.is_guide, supabase]);
 
   const refreshCancelledLevels = useCallback(async () => {
     if (!eventData?.databaseId || !supabase) return;
     try {
-      const { data } = await supabase
-        .from('ride_level_cancellations')
-        .select('ride_level, reason, cancelled_at')
-        .eq('event_id', Number(eventData.databaseId));
+      const { data } = await scopeToOccurrence(
+        supabase
+          .from('ride_level_cancellations')
+          .select('ride_level, reason, cancelled_at')
+          .eq('event_id', Number(eventData.databaseId)),
+        occurrenceDate
+      );
       const map: Record<string, { reason: string; cancelled_at: string }> = {};
       (data ?? []).forEach((row) => {
         map[row.ride_level] = { reason: row.reason, cancelled_at: row.cancelled_at };
@@ -167,14 +250,22 @@ export const KandieEventPage: React.FC = () => {
     } catch (err) {
       console.warn('Cancelled levels lookup failed:', err);
     }
-  }, [eventData?.databaseId, supabase]);
+  }, [eventData?.databaseId, occurrenceDate, supabase]);
 
   const refreshCapacity = useCallback(async () => {
     if (!eventData?.databaseId) return;
     const controller = new AbortController();
     try {
-      const response = await fetch(`/api/event?eventId=${eventData.databaseId}`, {
+      const occurrenceQuery = occurrenceDate ? `&occurrence=${occurrenceDate}` : '';
+      // Signed-in riders also get their waitlist position back
+      let accessToken: string | undefined;
+      if (user?.id && supabase) {
+        const { data: sessionData } = await supabase.auth.getSession();
+        accessToken = sessionData?.session?.access_token;
+      }
+      const response = await fetch(`/api/event?eventId=${eventData.databaseId}${occurrenceQuery}`, {
         signal: controller.signal,
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
       });
       if (!response.ok) {
         console.warn('[refreshCapacity] Capacity API returned', response.status, 'for eventId', eventData.databaseId);
@@ -185,6 +276,10 @@ export const KandieEventPage: React.FC = () => {
       if (data && typeof data === 'object' && 'counts' in data) {
         setCapacityCounts(data.counts as Record<string, number>);
       }
+      setWaitlistStandings(
+        ((data as { waitlist?: Record<string, WaitlistStanding> } | null)?.waitlist) ?? {}
+      );
+      setPlannedGuides((data as { plannedGuides?: EventLevelGuides | null } | null)?.plannedGuides ?? null);
       if (data && typeof data === 'object' && 'hasRegistrationCode' in data) {
         setHasRegistrationCode(Boolean((data as { hasRegistrationCode?: boolean }).hasRegistrationCode));
       }
@@ -194,17 +289,20 @@ export const KandieEventPage: React.FC = () => {
     } finally {
       controller.abort();
     }
-  }, [eventData?.databaseId]);
+  }, [eventData?.databaseId, occurrenceDate, user?.id, supabase]);
 
   const refreshRegistrations = useCallback(async () => {
     if (!eventData?.databaseId || !user?.id || !supabase) return;
     try {
-      const { data, error } = await supabase
-        .from('registrations')
-        .select('ride_level,is_waitlist')
-        .eq('event_id', Number(eventData.databaseId))
-        .eq('user_id', user.id)
-        .is('cancelled_at', null);
+      const { data, error } = await scopeToOccurrence(
+        supabase
+          .from('registrations')
+          .select('ride_level,is_waitlist')
+          .eq('event_id', Number(eventData.databaseId))
+          .eq('user_id', user.id)
+          .is('cancelled_at', null),
+        occurrenceDate
+      );
 
       if (error) {
         console.warn('Registration lookup failed:', error);
@@ -220,7 +318,7 @@ export const KandieEventPage: React.FC = () => {
     } catch (err) {
       console.warn('Registration lookup failed:', err);
     }
-  }, [eventData?.databaseId, user?.id]);
+  }, [eventData?.databaseId, occurrenceDate, user?.id]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -312,6 +410,23 @@ export const KandieEventPage: React.FC = () => {
     refreshCancelledLevels();
   }, [eventData?.databaseId, refreshCancelledLevels]);
 
+  // GPX stats and profiles per level, parsed server-side (api/event.ts ?view=routes).
+  useEffect(() => {
+    if (!eventData?.databaseId) return;
+    const controller = new AbortController();
+    fetch(`/api/event?view=routes&eventId=${eventData.databaseId}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { routes?: Record<string, RouteSummary> } | null) => {
+        setRouteSummaries(data?.routes ?? {});
+      })
+      .catch((err) => {
+        if ((err as Error)?.name !== 'AbortError') {
+          console.warn('[KandieEventPage] Failed to load route summaries', err);
+        }
+      });
+    return () => controller.abort();
+  }, [eventData?.databaseId]);
+
   useEffect(() => {
     if (!eventData?.databaseId || typeof window === 'undefined') return;
     const handler = (event: Event) => {
@@ -364,7 +479,12 @@ export const KandieEventPage: React.FC = () => {
     );
   }
 
-  const { title, featuredImage, eventDetails, excerpt, publicReleaseDate } = eventData;
+  const { title, featuredImage, eventDetails, excerpt } = eventData;
+  // Each occurrence opens for signups with the same lead time as the first ride.
+  const publicReleaseDate =
+    eventData.publicReleaseDate && recurrence && occurrenceDate
+      ? shiftToOccurrence(eventData.publicReleaseDate, recurrence.startDate, occurrenceDate)
+      : eventData.publicReleaseDate;
   const description = eventDetails?.description || '';
   const rawExcerpt = excerpt || eventDetails?.excerpt || '';
   const normalizedDescription = normalizeWordPressEventDescription(description);
@@ -402,6 +522,27 @@ export const KandieEventPage: React.FC = () => {
     'Level 2+': '28 - 30 km/h',
     'Level 3': '30 - 33 km/h',
   };
+  // Levels staffed by a published ride plan show the planned guides (with the WordPress photo when known)
+  const withPlannedGuides = <T extends { levelKey: string }>(
+    level: T & { guides: EventLevelGuide[] }
+  ): T & { guides: EventLevelGuide[] } => {
+    const planned = plannedGuides?.[level.levelKey as keyof EventLevelGuides];
+    if (!planned) return level;
+    return {
+      ...level,
+      guides: planned.map((guide, index) => {
+        const known = guides.find(
+          (node) => guide.wpUserId != null && String(node.databaseId) === String(guide.wpUserId)
+        );
+        const image = known?.featuredImage?.node?.sourceUrl;
+        return {
+          id: guide.wpUserId ?? `planned-${index}`,
+          name: known?.title ?? guide.name,
+          image: image ? transformMediaUrl(image) : (guide.avatarUrl ?? undefined),
+        };
+      }),
+    };
+  };
   const baseLevelsWithGuides = [
     {
       levelKey: 'level1',
@@ -414,6 +555,7 @@ export const KandieEventPage: React.FC = () => {
       pace: paceByLevel['Level 1'],
       distanceKm: eventDetails?.level1?.distanceKm ?? null,
       routeUrl: eventDetails?.level1?.routeUrl,
+      route: routeSummaries['level1'] ?? null,
     },
     {
       levelKey: 'level2',
@@ -426,6 +568,7 @@ export const KandieEventPage: React.FC = () => {
       pace: paceByLevel['Level 2'],
       distanceKm: eventDetails?.level2?.distanceKm ?? null,
       routeUrl: eventDetails?.level2?.routeUrl,
+      route: routeSummaries['level2'] ?? null,
     },
     {
       levelKey: 'level2plus',
@@ -438,6 +581,7 @@ export const KandieEventPage: React.FC = () => {
       pace: paceByLevel['Level 2+'],
       distanceKm: eventDetails?.level2plus?.distanceKm ?? null,
       routeUrl: eventDetails?.level2plus?.routeUrl,
+      route: routeSummaries['level2plus'] ?? null,
     },
     {
       levelKey: 'level3',
@@ -452,13 +596,16 @@ export const KandieEventPage: React.FC = () => {
       pace: paceByLevel['Level 3'],
       distanceKm: eventDetails?.level3?.distanceKm ?? null,
       routeUrl: eventDetails?.level3?.routeUrl,
+      route: routeSummaries['level3'] ?? null,
     },
-  ].filter((level) => level.guides.length > 0);
+  ]
+    .map(withPlannedGuides)
+    .filter((level) => level.guides.length > 0);
 
   const isGravelRide = !isWorkshop && rideCategory.includes('gravel');
 
   const gravelLevelsWithGuides =
-    isGravelRide && gravelGuideNodes.length > 0
+    isGravelRide && (gravelGuideNodes.length > 0 || Boolean(plannedGuides?.gravel?.length))
       ? [
           {
             levelKey: 'gravel',
@@ -474,7 +621,7 @@ export const KandieEventPage: React.FC = () => {
             distanceKm: eventDetails?.gravelDistanceKm ?? null,
             routeUrl: eventDetails?.gravelRouteUrl ?? undefined,
           },
-        ]
+        ].map(withPlannedGuides)
       : [];
 
   const levelsWithGuides = isGravelRide ? gravelLevelsWithGuides : baseLevelsWithGuides;
@@ -493,7 +640,10 @@ export const KandieEventPage: React.FC = () => {
     : [];
   const isFlintaOnly = Boolean(eventDetails?.isFlintaOnly);
   const dayMs = 24 * 60 * 60 * 1000;
-  const memberEarlyDays = Number(import.meta.env.VITE_MEMBER_EARLY_DAYS ?? 5);
+  const memberEarlyDays = memberEarlyAccessDays(
+    profile,
+    Number(import.meta.env.VITE_MEMBER_EARLY_DAYS ?? 5)
+  );
   const flintaEarlyDays = Number(import.meta.env.VITE_FLINTA_EARLY_DAYS ?? 7);
   const memberRelease = hasValidPublicRelease
     ? new Date((publicRelease as Date).getTime() - memberEarlyDays * dayMs)
@@ -585,6 +735,7 @@ export const KandieEventPage: React.FC = () => {
       requiresFlintaAttestation,
       hasRegistrationCode,
       eventDate: eventDatePart || undefined,
+      occurrenceDate: occurrenceDate ?? undefined,
       eventTime: timeLabel || undefined,
       eventLocation: [locationName, locationStreetCity].filter(Boolean).join(', ') || undefined,
     };
@@ -603,7 +754,12 @@ export const KandieEventPage: React.FC = () => {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ action: 'cancel', eventId: eventData.databaseId, rideLevel: levelKey }),
+        body: JSON.stringify({
+          action: 'cancel',
+          eventId: eventData.databaseId,
+          rideLevel: levelKey,
+          occurrenceDate,
+        }),
       });
       if (!response.ok) return;
       refreshCapacity();
@@ -629,7 +785,13 @@ export const KandieEventPage: React.FC = () => {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ action: 'guide-cancel-level', eventId: eventData.databaseId, rideLevel: levelKey, reason }),
+        body: JSON.stringify({
+          action: 'guide-cancel-level',
+          eventId: eventData.databaseId,
+          rideLevel: levelKey,
+          reason,
+          occurrenceDate,
+        }),
       });
       if (response.ok) {
         toast.success('Ride cancelled. Riders have been notified by email.');
@@ -664,7 +826,13 @@ export const KandieEventPage: React.FC = () => {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ action: 'guide-message-participants', eventId: eventData.databaseId, rideLevel: levelKey, message }),
+        body: JSON.stringify({
+          action: 'guide-message-participants',
+          eventId: eventData.databaseId,
+          rideLevel: levelKey,
+          message,
+          occurrenceDate,
+        }),
       });
       if (response.ok) {
         const json = await response.json().catch(() => ({}));
@@ -683,7 +851,9 @@ export const KandieEventPage: React.FC = () => {
     }
   };
 
-  const eventDateValue = eventDetails?.eventDate || '';
+  const eventDateValue = occurrenceDate
+    ? `${occurrenceDate}T12:00:00`
+    : eventDetails?.eventDate || '';
   const eventDate = eventDateValue ? new Date(eventDateValue) : null;
   const eventDatePart = eventDateValue.split('T')[0];
   const eventDateForWeekday = eventDatePart ? new Date(`${eventDatePart}T12:00:00`) : null;
@@ -723,6 +893,7 @@ export const KandieEventPage: React.FC = () => {
   const localDateKey = (d: Date) =>
     `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
   const isEventDay = Boolean(eventDatePart && localDateKey(now) === eventDatePart);
+  const isEmergencyInfoOpen = isEmergencyInfoWindowOpen(eventDatePart, now);
 
   const updateAttendance = async (levelKey: string, registrationId: string, present: boolean) => {
     if (!supabase || !eventData?.databaseId) return;
@@ -745,6 +916,7 @@ export const KandieEventPage: React.FC = () => {
           rideLevel: levelKey,
           registrationId,
           present,
+          occurrenceDate,
         }),
       });
       if (!response.ok) {
@@ -778,6 +950,7 @@ export const KandieEventPage: React.FC = () => {
           action: 'guide-finalize-attendance',
           eventId: eventData.databaseId,
           rideLevel: levelKey,
+          occurrenceDate,
         }),
       });
       const json = await response.json().catch(() => ({}));
@@ -795,6 +968,106 @@ export const KandieEventPage: React.FC = () => {
     }
   };
 
+  const loadEmergencyInfo = async (levelKey: string) => {
+    if (!supabase || !eventData?.databaseId) return;
+    setEmergencyInfoLoading(levelKey);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        toast.error('You must be logged in to view emergency info.');
+        return;
+      }
+      const response = await fetch('/api/event', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          action: 'guide-emergency-info',
+          eventId: eventData.databaseId,
+          rideLevel: levelKey,
+          occurrenceDate,
+        }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error((json as { error?: string })?.error || 'Failed to load emergency info.');
+        return;
+      }
+      const entries =
+        (
+          json as {
+            entries?: Array<{
+              registrationId: string;
+              contactName: string | null;
+              contactPhone: string | null;
+              medicalNotes: string | null;
+            }>;
+          }
+        ).entries ?? [];
+      setEmergencyInfoByLevel((prev) => ({
+        ...prev,
+        [levelKey]: Object.fromEntries(
+          entries.map(({ registrationId, ...info }) => [registrationId, info])
+        ),
+      }));
+      if (entries.length === 0) toast('None of your riders shared emergency info.');
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setEmergencyInfoLoading(null);
+    }
+  };
+
+  const exportRoster = async (levelKey: string, format: 'csv' | 'sheet' | 'vcard') => {
+    if (!supabase || !eventData?.databaseId) return;
+    setRosterExportLoading(`${levelKey}:${format}`);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
+        toast.error('You must be logged in to export the roster.');
+        return;
+      }
+      const response = await fetch('/api/event', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          action: 'guide-export-roster',
+          eventId: eventData.databaseId,
+          rideLevel: levelKey,
+          occurrenceDate,
+          format,
+        }),
+      });
+      if (!response.ok) {
+        const json = await response.json().catch(() => ({}));
+        toast.error((json as { error?: string })?.error || 'Failed to export the roster.');
+        return;
+      }
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `roster-${levelKey}`;
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setRosterExportLoading(null);
+    }
+  };
+
   return (
     <>
       <Toaster />
@@ -974,6 +1247,39 @@ export const KandieEventPage: React.FC = () => {
                                               {p.no_show_at ? ' (no-show)' : ''}
                                             </span>
                                           )}
+                                          {getWaiverStatus(p.waiver_version) !== 'current' && (
+                                            <span className="ml-9 md:ml-7 block text-xs text-amber-700">
+                                              {getWaiverStatus(p.waiver_version) === 'missing'
+                                                ? 'No waiver on record'
+                                                : `Outdated waiver (${p.waiver_version})`}
+                                            </span>
+                                          )}
+                                          {emergencyInfoByLevel[level.levelKey]?.[p.id] &&
+                                            (() => {
+                                              const info = emergencyInfoByLevel[level.levelKey][p.id];
+                                              const contact = [info.contactName, info.contactPhone]
+                                                .filter(Boolean)
+                                                .join(', ');
+                                              return (
+                                                <div className="ml-9 md:ml-7 mt-1 rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-800">
+                                                  {contact && (
+                                                    <p>
+                                                      Emergency contact:{' '}
+                                                      {info.contactPhone ? (
+                                                        <a href={`tel:${info.contactPhone}`} className="underline">
+                                                          {contact}
+                                                        </a>
+                                                      ) : (
+                                                        contact
+                                                      )}
+                                                    </p>
+                                                  )}
+                                                  {info.medicalNotes && (
+                                                    <p className="whitespace-pre-line">Medical: {info.medicalNotes}</p>
+                                                  )}
+                                                </div>
+                                              );
+                                            })()}
                                         </li>
                                       ))}
                                     </ul>
@@ -1033,6 +1339,38 @@ export const KandieEventPage: React.FC = () => {
                                   </button>
                                 </div>
                               )}
+                              {allParticipants.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span className="text-xs tracking-[0.08em] text-slate-500">Roster</span>
+                                  {(
+                                    [
+                                      { format: 'sheet', label: 'Sign-in sheet' },
+                                      { format: 'csv', label: 'CSV' },
+                                      { format: 'vcard', label: 'Contacts (vCard)' },
+                                    ] as const
+                                  ).map(({ format, label }) => (
+                                    <button
+                                      key={format}
+                                      type="button"
+                                      onClick={() => exportRoster(level.levelKey, format)}
+                                      disabled={rosterExportLoading !== null}
+                                      className="rounded-full border border-slate-300 px-3 py-1 text-xs text-slate-600 hover:border-secondary-purple-rain hover:text-secondary-purple-rain transition-colors disabled:opacity-50"
+                                    >
+                                      {rosterExportLoading === `${level.levelKey}:${format}` ? 'Exporting…' : label}
+                                    </button>
+                                  ))}
+                                  {isEmergencyInfoOpen && confirmed.length > 0 && (
+                                    <button
+                                      type="button"
+                                      onClick={() => loadEmergencyInfo(level.levelKey)}
+                                      disabled={emergencyInfoLoading !== null}
+                                      className="rounded-full border border-red-300 px-3 py-1 text-xs text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                                    >
+                                      {emergencyInfoLoading === level.levelKey ? 'Loading…' : 'Emergency info'}
+                                    </button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           </div>
                         );
@@ -1239,6 +1577,9 @@ export const KandieEventPage: React.FC = () => {
                   <EventSidebarCard
                     date={dateLabel}
                     time={timeLabel}
+                    occurrences={upcomingOccurrences}
+                    selectedOccurrence={occurrenceDate}
+                    onSelectOccurrence={selectOccurrence}
                     location={locationLabel}
                     category={rideCategory || undefined}
                     type={eventType}
@@ -1272,6 +1613,7 @@ export const KandieEventPage: React.FC = () => {
                     }}
                     onSignup={handleSignup}
                     registrations={registrations}
+                    waitlistStandings={waitlistStandings}
                     onCancelRegistration={handleCancelRegistration}
                     workshop={
                       isWorkshop && workshopCapacity
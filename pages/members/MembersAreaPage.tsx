@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../context/AuthContext';
 import { posthog, FUNNEL_EVENTS } from '../../lib/posthog';
@@ -13,12 +13,16 @@ import {
   type WPPost,
   type WPProduct,
 } from '../../lib/wordpress';
-import { canPurchase, type ShopProduct } from '../../lib/products';
+import { canPurchase, withStockLevels, type ShopProduct } from '../../lib/products';
 import { hasActiveMembership } from '../../lib/membership';
 import { Loader2, ArrowRight, Moon, Sun, ChevronDown } from 'lucide-react';
 import { AnimatedHeadline } from '../../components/visual/AnimatedHeadline';
 import { MembersConfetti } from '../../components/common/MembersConfetti';
 import { MemberMetaCard } from '../../components/member/MemberMetaCard';
+import { MyRidesCard } from '../../components/member/MyRidesCard';
+import { MyOrdersCard } from '../../components/member/MyOrdersCard';
+import { GiftMembershipRedeemCard } from '../../components/member/GiftMembershipRedeemCard';
+import { useStockLevels } from '../../hooks/useStockLevels';
 import { KandieGangCyclingClubPage } from '../site/KandieGangCyclingClubPage';
 import { PHOTO_GALLERY_CATEGORY_SLUG } from '../../lib/photoGalleryCategory';
 const MEMBERS_ONLY_POSTS_FIRST = 20;
@@ -97,6 +101,8 @@ function scrollToTop() {
 export const MembersAreaPage: React.FC = () => {
   const { status, user, profile, refreshProfile } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const giftCode = searchParams.get('gift');
 
   const [initialMembershipCheckDone, setInitialMembershipCheckDone] = useState(false);
   const [membersOnlyPosts, setMembersOnlyPosts] = useState<WPPost[]>([]);
@@ -106,6 +112,7 @@ export const MembersAreaPage: React.FC = () => {
   const [memberOnlyProducts, setMemberOnlyProducts] = useState<WPProduct[]>([]);
   const [memberOnlyProductsLoading, setMemberOnlyProductsLoading] = useState(false);
   const [memberOnlyProductsError, setMemberOnlyProductsError] = useState<string | null>(null);
+  const stockLevels = useStockLevels();
 
   const [greeting] = useState(
     () => HELLO_GREETINGS[Math.floor(Math.random() * HELLO_GREETINGS.length)]
@@ -157,13 +164,15 @@ export const MembersAreaPage: React.FC = () => {
       typeof window !== 'undefined' &&
       sessionStorage.getItem('logoutRedirecting') !== '1'
     ) {
-      navigate('/login/member', { replace: true, state: { from: '/members' } });
+      // Keep ?gift= so a gift recipient lands back on the redeem form after logging in.
+      const from = giftCode ? `/members?gift=${encodeURIComponent(giftCode)}` : '/members';
+      navigate('/login/member', { replace: true, state: { from } });
       return;
     }
     if (status === 'authenticated' && user) {
       posthog.capture(FUNNEL_EVENTS.MEMBERS_AREA_VIEWED);
     }
-  }, [status, user, navigate]);
+  }, [status, user, navigate, giftCode]);
 
   useEffect(() => {
     if (!user?.id) return;
@@ -249,7 +258,19 @@ export const MembersAreaPage: React.FC = () => {
   }
 
   if (!cyclingMember && !guide) {
-    return <KandieGangCyclingClubPage />;
+    return (
+      <>
+        <section className="bg-primary-breath pt-32 md:pt-40 pb-10">
+          <div className="max-w-7xl mx-auto px-6">
+            <h2 className="mb-4 text-4xl font-light font-heading-thin tracking-normal text-secondary-purple-rain">
+              Redeem a gift membership
+            </h2>
+            <GiftMembershipRedeemCard initialCode={giftCode} onRedeemed={refreshProfile} />
+          </div>
+        </section>
+        <KandieGangCyclingClubPage />
+      </>
+    );
   }
 
   return (
@@ -318,6 +339,45 @@ export const MembersAreaPage: React.FC = () => {
         {(cyclingMember || guide) && (
           <MembersConfetti originRef={pillRef} enabled={initialMembershipCheckDone} />
         )}
+        {/* Gift link opened by someone who is already a member: extend their membership */}
+        {giftCode && (
+          <div className="mx-auto max-w-7xl mt-10 pt-8 border-t border-slate-200 dark:border-slate-700">
+            <div className="mb-6 md:mb-8">
+              <h2 className="text-4xl font-light font-heading-thin tracking-normal text-secondary-purple-rain dark:text-secondary-purple-rain/90">
+                Redeem a gift membership
+              </h2>
+            </div>
+            <GiftMembershipRedeemCard initialCode={giftCode} onRedeemed={refreshProfile} />
+          </div>
+        )}
+        {/* My rides */}
+        {initialMembershipCheckDone && user && (
+          <div className="mx-auto max-w-7xl mt-10 pt-8 border-t border-slate-200 dark:border-slate-700">
+            <div className="mb-6 md:mb-8">
+              <h2 className="text-4xl font-light font-heading-thin tracking-normal text-secondary-purple-rain dark:text-secondary-purple-rain/90">
+                My Rides
+              </h2>
+              <p className="mt-1 text-sm md:text-base font-gtplanar font-normal tracking-normal text-slate-500 dark:text-slate-400">
+                your registrations and attendance
+              </p>
+            </div>
+            <MyRidesCard />
+          </div>
+        )}
+        {/* My orders */}
+        {initialMembershipCheckDone && user && (
+          <div className="mx-auto max-w-7xl mt-10 pt-8 border-t border-slate-200 dark:border-slate-700">
+            <div className="mb-6 md:mb-8">
+              <h2 className="text-4xl font-light font-heading-thin tracking-normal text-secondary-purple-rain dark:text-secondary-purple-rain/90">
+                My Orders
+              </h2>
+              <p className="mt-1 text-sm md:text-base font-gtplanar font-normal tracking-normal text-slate-500 dark:text-slate-400">
+                shop orders and shipping
+              </p>
+            </div>
+            <MyOrdersCard />
+          </div>
+        )}
         {/* Begin members-only products */}
         {initialMembershipCheckDone && canSeeMembersOnlyPosts && (
           <>
@@ -360,7 +420,9 @@ export const MembersAreaPage: React.FC = () => {
                       productFields: {
                         inventory: product.productFields?.inventory,
                         sku: product.productFields?.sku,
-                        variants: product.productFields?.variants,
+                        variants: product.productFields?.variants
+                          ? withStockLevels(product.id, product.productFields.variants, stockLevels)
+                          : undefined,
                         membersOnly: true,
                         inStock: product.productFields?.inStock ?? true,
                       },
@@ -2,14 +2,20 @@
  * MembersSettingsPage.tsx
  * Route: /members/settings
  * Connected accounts: link/unlink Email and Discord for the current user.
+ * Emergency info: contact and medical notes shared (with consent) with ride guides.
  */
 
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Loader2, Mail, Unlink } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 import { useAuthProviders } from '../../hooks/useAuthProviders';
+import { EmergencyInfoCard } from '../../components/member/EmergencyInfoCard';
+import { CalendarFeedCard } from '../../components/member/CalendarFeedCard';
+import { GiftMembershipRedeemCard } from '../../components/member/GiftMembershipRedeemCard';
+import { BillingPortalCard } from '../../components/member/BillingPortalCard';
+import { HouseholdCard } from '../../components/member/HouseholdCard';
 
 function DiscordIcon({ className }: { className?: string }) {
   return (
@@ -39,7 +45,8 @@ function providerLabel(identity: {
 
 export const MembersSettingsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { status, user, refreshProfile } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { status, user, profile, refreshProfile } = useAuth();
   const { loading, error, linkDiscord, unlinkProvider, canUnlink, identities } = useAuthProviders();
 
   const [unlinkConfirm, setUnlinkConfirm] = useState<{ id: string; provider: string } | null>(null);
@@ -48,15 +55,22 @@ export const MembersSettingsPage: React.FC = () => {
   const [discordSuccess, setDiscordSuccess] = useState<string | null>(null);
   const [discordError, setDiscordError] = useState<string | null>(null);
 
+  const householdInvite = searchParams.get('household');
   const hasDiscord = identities.some((i) => i.provider === 'discord');
   const hasEmail = identities.some((i) => i.provider === 'email');
 
   React.useEffect(() => {
     if (status === 'loading') return;
     if (!user && typeof window !== 'undefined') {
-      navigate('/login/member', { replace: true, state: { from: '/members/settings' } });
+      // Keep ?billing=portal and ?household= so links from emails still work after logging in.
+      const from = searchParams.get('household')
+        ? `/members/settings?household=${encodeURIComponent(searchParams.get('household')!)}`
+        : searchParams.get('billing') === 'portal'
+          ? '/members/settings?billing=portal'
+          : '/members/settings';
+      navigate('/login/member', { replace: true, state: { from } });
     }
-  }, [status, user, navigate]);
+  }, [status, user, navigate, searchParams]);
 
   // After returning from Discord OAuth (or any link), refresh session and sync auth_providers
   React.useEffect(() => {
@@ -272,6 +286,39 @@ export const MembersSettingsPage: React.FC = () => {
           </div>
         </section>
 
+        <section className="mt-12 space-y-6">
+          <h2 className="text-xl font-medium text-primary-ink dark:text-slate-200">
+            Emergency info
+          </h2>
+          <EmergencyInfoCard userId={user.id} />
+        </section>
+
+        <section className="mt-12 space-y-6">
+          <h2 className="text-xl font-medium text-primary-ink dark:text-slate-200">Calendar</h2>
+          <CalendarFeedCard userId={user.id} />
+        </section>
+
+        <section className="mt-12 space-y-6">
+          <h2 className="text-xl font-medium text-primary-ink dark:text-slate-200">Billing</h2>
+          <BillingPortalCard autoOpen={searchParams.get('billing') === 'portal'} />
+        </section>
+
+        {(householdInvite ||
+          profile?.membership_tier === 'household' ||
+          profile?.household_owner_id) && (
+          <section className="mt-12 space-y-6">
+            <h2 className="text-xl font-medium text-primary-ink dark:text-slate-200">Household</h2>
+            <HouseholdCard inviteToken={householdInvite} onMembershipChanged={refreshProfile} />
+          </section>
+        )}
+
+        <section className="mt-12 space-y-6">
+          <h2 className="text-xl font-medium text-primary-ink dark:text-slate-200">
+            Gift membership
+          </h2>
+          <GiftMembershipRedeemCard onRedeemed={refreshProfile} />
+        </section>
+
         <p className="mt-10 text-xs text-slate-500 dark:text-slate-400">
           If you link a provider that is already used by another account, you’ll see an error. Each
           Discord or email can only be linked to one account.
@@ -18,9 +18,21 @@ import { AnimatedHeadline } from '../../components/visual/AnimatedHeadline';
 import { AddToCartButton } from '../../components/shop/AddToCartButton';
 import { ProductVariantSelector } from '../../components/shop/ProductVariantSelector';
 import { StripePaymentTrustBar } from '../../components/shop/StripePaymentTrustBar';
-import { getProductPrice, getStripePriceId, canPurchase, ShopProduct } from '../../lib/products';
+import { CampaignCountdown } from '../../components/shop/CampaignCountdown';
+import { BackInStockForm } from '../../components/shop/BackInStockForm';
+import {
+  getProductPrice,
+  getStripePriceId,
+  canPurchase,
+  ShopProduct,
+  stockKey,
+  withStockLevels,
+} from '../../lib/products';
 import { hasActiveMembership } from '../../lib/membership';
+import { hasMemberPerk } from '../../lib/membershipTiers';
 import { usePageMeta } from '../../hooks/usePageMeta';
+import { useStockLevels } from '../../hooks/useStockLevels';
+import { useCampaignAccess } from '../../hooks/useCampaignAccess';
 import { useAuth } from '../../context/AuthContext';
 import { StickySidecarLayout } from '../../components/layout/StickySidecarLayout';
 
@@ -180,6 +192,9 @@ export const ProductPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const stockLevels = useStockLevels();
+  const campaign = product?.productFields?.campaign ?? null;
+  const campaignAccess = useCampaignAccess(campaign, hasActiveMembership(profile));
   const mobileCarouselRef = useRef<HTMLDivElement>(null);
   const imageScrollRefs = useRef<(HTMLDivElement | null)[]>([]);
 
@@ -323,7 +338,10 @@ export const ProductPage: React.FC = () => {
   }
 
   const isMember = hasActiveMembership(profile);
-  const variants = product.productFields?.variants ?? [];
+  // What the membership includes depends on its tier (lib/membershipTiers.ts).
+  const memberPrices = hasMemberPerk(profile, 'memberShopPrices');
+  const membersOnlyAccess = hasMemberPerk(profile, 'membersOnlyContent');
+  const variants = withStockLevels(product.id, product.productFields?.variants ?? [], stockLevels);
   const hasVariants = variants.length > 1;
   const variantIndex = hasVariants ? selectedVariantIndex : undefined;
 
@@ -340,13 +358,29 @@ export const ProductPage: React.FC = () => {
       variants,
       membersOnly: product.productFields?.membersOnly ?? false,
       inStock: product.productFields?.inStock ?? true,
+      campaign,
     },
   };
 
   // Calculate pricing using helper functions
-  const displayPrice = getProductPrice(shopProduct, isMember, variantIndex);
-  const stripePriceId = getStripePriceId(shopProduct, isMember, variantIndex);
-  const canPurchaseProduct = canPurchase(shopProduct, isMember, variantIndex);
+  const displayPrice = getProductPrice(shopProduct, memberPrices, variantIndex);
+  const stripePriceId = getStripePriceId(shopProduct, memberPrices, variantIndex);
+  const canPurchaseProduct = canPurchase(shopProduct, membersOnlyAccess, variantIndex);
+  // Drops lock the button outside their window; stock and membership rules still apply inside it.
+  const campaignBlocksPurchase = !campaignAccess.canBuy;
+  // A sold-out variant (the chosen one, or the only one) shoppers can ask to be emailed about.
+  const chosenVariant = hasVariants
+    ? selectedVariantIndex >= 0
+      ? variants[selectedVariantIndex]
+      : null
+    : (variants[0] ?? null);
+  const restockSku =
+    chosenVariant &&
+    chosenVariant.inventory <= 0 &&
+    !campaignBlocksPurchase &&
+    (!shopProduct.productFields.membersOnly || membersOnlyAccess)
+      ? stockKey(product.id, chosenVariant)
+      : null;
 
   // Calculate public price and discount status for display
   let publicPrice = displayPrice;
@@ -355,11 +389,11 @@ export const ProductPage: React.FC = () => {
   if (selectedVariantIndex >= 0 && variants[selectedVariantIndex]) {
     const variant = variants[selectedVariantIndex];
     publicPrice = variant.pricePublic;
-    hasDiscount = isMember && !!variant.priceMember;
+    hasDiscount = memberPrices && !!variant.priceMember;
   } else {
     const firstVariant = shopProduct.productFields.variants?.[0];
     publicPrice = firstVariant?.pricePublic ?? 0;
-    hasDiscount = isMember && !!firstVariant?.priceMember;
+    hasDiscount = memberPrices && !!firstVariant?.priceMember;
   }
 
   const _variantLabel =
@@ -482,16 +516,26 @@ export const ProductPage: React.FC = () => {
                       €{displayPrice.toFixed(2)}
                     </p>
                   )}
-                  {!canPurchaseProduct && (hasVariants ? selectedVariantIndex >= 0 : true) && (
-                    <p className="text-xs font-medium text-red-600 uppercase tracking-widest mt-1.5">
-                      Out of Stock
-                    </p>
-                  )}
-                  {shopProduct.productFields.membersOnly && !isMember && (
+                  {!campaignBlocksPurchase &&
+                    !canPurchaseProduct &&
+                    (hasVariants ? selectedVariantIndex >= 0 : true) && (
+                      <p className="text-xs font-medium text-red-600 uppercase tracking-widest mt-1.5">
+                        Out of Stock
+                      </p>
+                    )}
+                  {shopProduct.productFields.membersOnly && !membersOnlyAccess && (
                     <p className="text-xs font-medium text-secondary-purple-rain/70 uppercase tracking-widest mt-1.5">
                       Members Only Product
                     </p>
                   )}
+                  {campaign && (
+                    <CampaignCountdown
+                      campaign={campaign}
+                      access={campaignAccess}
+                      isMember={isMember}
+                      variant="desktop"
+                    />
+                  )}
                 </div>
               )}
               {product.content && getFirstParagraph(product.content) && (
@@ -533,9 +577,10 @@ export const ProductPage: React.FC = () => {
                   }
                   price={displayPrice > 0 ? displayPrice : undefined}
                   disabled={
-                    hasVariants && selectedVariantIndex < 0
+                    campaignBlocksPurchase ||
+                    (hasVariants && selectedVariantIndex < 0
                       ? false
-                      : !stripePriceId || !canPurchaseProduct
+                      : !stripePriceId || !canPurchaseProduct)
                   }
                   onBeforeAdd={() => {
                     if (hasVariants && selectedVariantIndex < 0) {
@@ -545,6 +590,13 @@ export const ProductPage: React.FC = () => {
                     return true;
                   }}
                 />
+                {restockSku && (
+                  <BackInStockForm
+                    key={restockSku}
+                    sku={restockSku}
+                    variantLabel={hasVariants ? chosenVariant?.label : undefined}
+                  />
+                )}
               </div>
               <div className="mt-2 w-full">
                 <StripePaymentTrustBar
@@ -687,16 +739,26 @@ export const ProductPage: React.FC = () => {
                     €{displayPrice.toFixed(2)}
                   </p>
                 )}
-                {!canPurchaseProduct && (hasVariants ? selectedVariantIndex >= 0 : true) && (
-                  <p className="text-xs font-medium text-red-600 uppercase tracking-widest mt-1.5">
-                    Out of Stock
-                  </p>
-                )}
-                {shopProduct.productFields.membersOnly && !isMember && (
+                {!campaignBlocksPurchase &&
+                  !canPurchaseProduct &&
+                  (hasVariants ? selectedVariantIndex >= 0 : true) && (
+                    <p className="text-xs font-medium text-red-600 uppercase tracking-widest mt-1.5">
+                      Out of Stock
+                    </p>
+                  )}
+                {shopProduct.productFields.membersOnly && !membersOnlyAccess && (
                   <p className="text-xs font-medium text-secondary-purple-rain/70 uppercase tracking-widest mt-1.5">
                     Members Only Product
                   </p>
                 )}
+                {campaign && (
+                  <CampaignCountdown
+                    campaign={campaign}
+                    access={campaignAccess}
+                    isMember={isMember}
+                    variant="mobile"
+                  />
+                )}
               </div>
             )}
 
@@ -738,9 +800,10 @@ export const ProductPage: React.FC = () => {
                 }
                 price={displayPrice > 0 ? displayPrice : undefined}
                 disabled={
-                  hasVariants && selectedVariantIndex < 0
+                  campaignBlocksPurchase ||
+                  (hasVariants && selectedVariantIndex < 0
                     ? false
-                    : !stripePriceId || !canPurchaseProduct
+                    : !stripePriceId || !canPurchaseProduct)
                 }
                 className="w-full self-start"
                 onBeforeAdd={() => {
@@ -751,6 +814,13 @@ export const ProductPage: React.FC = () => {
                   return true;
                 }}
               />
+              {restockSku && (
+                <BackInStockForm
+                  key={restockSku}
+                  sku={restockSku}
+                  variantLabel={hasVariants ? chosenVariant?.label : undefined}
+                />
+              )}
               <div className="mt-2 w-full">
                 <StripePaymentTrustBar
                   region="EU"
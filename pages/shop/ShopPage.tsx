@@ -17,10 +17,13 @@ import {
   transformMediaUrl,
   getProductImageUrl,
 } from '../../lib/wordpress';
-import { canPurchase, ShopProduct } from '../../lib/products';
+import { canPurchase, ShopProduct, withStockLevels } from '../../lib/products';
 import { hasActiveMembership } from '../../lib/membership';
+import { hasMemberPerk } from '../../lib/membershipTiers';
+import { formatCampaignTime, getCampaignAccess } from '../../lib/shopCampaigns';
 import { AnimatedHeadline } from '../../components/visual/AnimatedHeadline';
 import { usePageMeta } from '../../hooks/usePageMeta';
+import { useStockLevels } from '../../hooks/useStockLevels';
 import { useAuth } from '../../context/AuthContext';
 
 export const ShopPage: React.FC = () => {
@@ -28,6 +31,7 @@ export const ShopPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { profile } = useAuth();
+  const stockLevels = useStockLevels();
 
   usePageMeta(
     'Shop | Kandie Gang',
@@ -150,9 +154,10 @@ export const ShopPage: React.FC = () => {
                 {shopProducts.length > 0 ? (
                   shopProducts.map((product, i) => {
                     const isMember = hasActiveMembership(profile);
+                    const memberPrices = hasMemberPerk(profile, 'memberShopPrices');
                     const firstVariant = product.productFields?.variants?.[0];
                     const displayPrice = firstVariant
-                      ? isMember && firstVariant.priceMember
+                      ? memberPrices && firstVariant.priceMember
                         ? firstVariant.priceMember
                         : firstVariant.pricePublic
                       : undefined;
@@ -167,13 +172,29 @@ export const ShopPage: React.FC = () => {
                       productFields: {
                         inventory: product.productFields?.inventory,
                         sku: product.productFields?.sku,
-                        variants: product.productFields?.variants,
+                        variants: product.productFields?.variants
+                          ? withStockLevels(product.id, product.productFields.variants, stockLevels)
+                          : undefined,
                         membersOnly: false,
                         inStock: product.productFields?.inStock ?? true,
+                        campaign: product.productFields?.campaign ?? null,
                       },
                     };
 
                     const isInStock = canPurchase(shopProduct, isMember);
+                    const campaignAccess = shopProduct.productFields.campaign
+                      ? getCampaignAccess(shopProduct.productFields.campaign, isMember)
+                      : null;
+                    const campaignBadge =
+                      campaignAccess?.phase === 'ended'
+                        ? 'Drop ended'
+                        : campaignAccess?.phase === 'members'
+                          ? isMember
+                            ? 'Members early access'
+                            : 'Members only until launch'
+                          : campaignAccess?.phase === 'upcoming' && campaignAccess.opensAt
+                            ? `Drop · ${formatCampaignTime(campaignAccess.opensAt)}`
+                            : null;
                     const productSlug = product.slug || '';
                     const productHref = productSlug ? `/shop/${productSlug}` : '#';
 
@@ -197,7 +218,12 @@ export const ShopPage: React.FC = () => {
                               alt={product.featuredImage?.node?.altText || product.title}
                               loading="lazy"
                             />
-                            {!isInStock && (
+                            {campaignBadge && (
+                              <span className="absolute top-3 left-3 rounded-full bg-secondary-purple-rain px-3 py-1 text-xs font-light text-white font-body tracking-tight">
+                                {campaignBadge}
+                              </span>
+                            )}
+                            {!isInStock && campaignAccess?.phase !== 'ended' && (
                               <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
                                 <span className="text-white font-bold uppercase tracking-widest text-xs">
                                   Out of Stock
@@ -214,7 +240,7 @@ export const ShopPage: React.FC = () => {
                           {displayPrice && (
                             <p className="text-secondary-purple-rain font-gtplanar font-medium text-base md:text-lg mt-4 mb-8">
                               € {displayPrice}
-                              {isMember &&
+                              {memberPrices &&
                                 firstVariant?.priceMember &&
                                 firstVariant?.pricePublic && (
                                   <span className="text-slate-500 text-sm font-normal ml-2 line-through">
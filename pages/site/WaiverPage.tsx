@@ -3,9 +3,11 @@
  * Ride Waiver (Haftungsausschluss) page for Kandie Gang group activities.
  * Layout matches ImprintPage: hero title, structured sections.
  * Content sourced from kandiegang.com/waiver.
+ * When changing the text, add a new entry to WAIVER_VERSIONS in lib/waivers.ts.
  */
 
 import React from 'react';
+import { CURRENT_WAIVER } from '../../lib/waivers';
 
 const SECTION_SPACING = 'mb-12 md:mb-16';
 const PARAGRAPH_CLASS = 'text-slate-600 text-[15px] md:text-base leading-relaxed mb-4';
@@ -41,6 +43,9 @@ export const WaiverContent: React.FC<{
             <p className="text-slate-500 text-sm md:text-base">
               Haftungsausschluss für gemeinsame sportliche Aktivitäten der Kandie Gang
             </p>
+            <p className="text-slate-400 text-xs mt-2">
+              Version {CURRENT_WAIVER.version} · gültig ab {CURRENT_WAIVER.effectiveFrom}
+            </p>
           </div>
           {isModal && headerAction && <div className="shrink-0">{headerAction}</div>}
         </div>
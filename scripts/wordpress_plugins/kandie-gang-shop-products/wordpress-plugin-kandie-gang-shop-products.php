@@ -1,8 +1,8 @@
 <?php
 /**
  * Plugin Name: Kandie Gang Shop Products
- * Description: Shop Products CPT with 10 Variants + WPGraphQL + Stripe Support + Featured Images
- * Version: 7.0
+ * Description: Shop Products CPT with 10 Variants + Drop Campaigns + WPGraphQL + Stripe Support + Featured Images
+ * Version: 7.1
  */
 
 if (!defined('ABSPATH')) exit;
@@ -83,6 +83,45 @@ add_action('acf/init', function () {
             'ui' => 1,
             'show_in_graphql' => true
         ],
+
+        // Drop campaign (optional): sale window, members' early access, per-member limit and coupon.
+        // Read through the computed `campaign` GraphQL field below.
+        [
+            'key' => 'field_campaign_starts_at',
+            'label' => 'Drop Opens (everyone)',
+            'name' => 'campaign_starts_at',
+            'type' => 'date_time_picker',
+            'display_format' => 'd.m.Y H:i',
+            'return_format' => 'Y-m-d H:i:s',
+        ],
+        [
+            'key' => 'field_campaign_ends_at',
+            'label' => 'Drop Ends',
+            'name' => 'campaign_ends_at',
+            'type' => 'date_time_picker',
+            'display_format' => 'd.m.Y H:i',
+            'return_format' => 'Y-m-d H:i:s',
+        ],
+        [
+            'key' => 'field_campaign_member_early_access_hours',
+            'label' => 'Members Early Access (hours before opening)',
+            'name' => 'campaign_member_early_access_hours',
+            'type' => 'number',
+            'min' => 0,
+        ],
+        [
+            'key' => 'field_campaign_member_limit',
+            'label' => 'Limit per Member',
+            'name' => 'campaign_member_limit',
+            'type' => 'number',
+            'min' => 0,
+        ],
+        [
+            'key' => 'field_campaign_member_coupon',
+            'label' => 'Member Coupon (Stripe coupon ID)',
+            'name' => 'campaign_member_coupon',
+            'type' => 'text',
+        ],
     ];
 
     // 10 Variant Slots
@@ -186,6 +225,17 @@ add_action('graphql_register_types', function () {
         ],
     ]);
 
+    register_graphql_object_type('ShopProductCampaign', [
+        'description' => 'Time-limited drop',
+        'fields' => [
+            'startsAt' => ['type' => 'String'],
+            'endsAt' => ['type' => 'String'],
+            'memberEarlyAccessHours' => ['type' => 'Float'],
+            'memberLimit' => ['type' => 'Int'],
+            'memberCouponId' => ['type' => 'String'],
+        ],
+    ]);
+
     // Helper to extract post ID from various $source shapes WPGraphQL may pass.
     // Confirmed shape: array with 'node' => WPGraphQL\Model\Post (databaseId) + 'acf_field_group'.
     $get_post_id = function ($source) {
@@ -241,4 +291,35 @@ add_action('graphql_register_types', function () {
             return false;
         }
     ]);
+
+    // ACF stores date/times in the site timezone without an offset; expose them as ISO 8601.
+    $to_iso = function ($value) {
+        if (!$value) return null;
+        try {
+            return (new DateTimeImmutable($value, wp_timezone()))->format(DATE_ATOM);
+        } catch (Exception $e) {
+            return null;
+        }
+    };
+
+    register_graphql_field('ProductFields', 'campaign', [
+        'type' => 'ShopProductCampaign',
+        'resolve' => function ($source) use ($get_post_id, $to_iso) {
+            $post_id = $get_post_id($source);
+            if (!$post_id) return null;
+            $starts_at = $to_iso(get_post_meta($post_id, 'campaign_starts_at', true));
+            $ends_at = $to_iso(get_post_meta($post_id, 'campaign_ends_at', true));
+            if (!$starts_at && !$ends_at) return null;
+            $early_access = get_post_meta($post_id, 'campaign_member_early_access_hours', true);
+            $limit = (int) get_post_meta($post_id, 'campaign_member_limit', true);
+            $coupon = trim((string) get_post_meta($post_id, 'campaign_member_coupon', true));
+            return [
+                'startsAt' => $starts_at,
+                'endsAt' => $ends_at,
+                'memberEarlyAccessHours' => $early_access !== '' ? (float) $early_access : null,
+                'memberLimit' => $limit > 0 ? $limit : null,
+                'memberCouponId' => $coupon !== '' ? $coupon : null,
+            ];
+        }
+    ]);
 });
\ No newline at end of file
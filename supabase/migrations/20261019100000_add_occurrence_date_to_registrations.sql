@@ -0,0 +1,37 @@
+-- Recurring ride series: one WordPress rideEvent can repeat (e.g. weekly on Tuesday).
+-- Each dated occurrence gets its own registrations, capacity, waitlist and cancellations.
+-- occurrence_date is null for one-off events, so existing rows keep their meaning.
+
+alter table public.registrations
+  add column if not exists occurrence_date date;
+
+comment on column public.registrations.occurrence_date is
+  'Date of the series occurrence this registration belongs to. Null for one-off events.';
+
+drop index if exists registrations_active_unique_auth;
+drop index if exists registrations_active_unique_guest;
+
+create unique index registrations_active_unique_auth
+  on public.registrations (event_id, ride_level, coalesce(occurrence_date, '1970-01-01'::date), user_id)
+  where cancelled_at is null and user_id is not null;
+
+create unique index registrations_active_unique_guest
+  on public.registrations (event_id, ride_level, coalesce(occurrence_date, '1970-01-01'::date), lower(email))
+  where cancelled_at is null and user_id is null and email is not null;
+
+create index if not exists registrations_event_occurrence_level_idx
+  on public.registrations (event_id, occurrence_date, ride_level)
+  where cancelled_at is null;
+
+-- Guide cancellations are per occurrence as well.
+alter table public.ride_level_cancellations
+  add column if not exists occurrence_date date;
+
+alter table public.ride_level_cancellations
+  drop constraint if exists ride_level_cancellations_event_id_ride_level_key;
+
+create unique index if not exists ride_level_cancellations_unique_occurrence
+  on public.ride_level_cancellations (event_id, ride_level, coalesce(occurrence_date, '1970-01-01'::date));
+
+comment on column public.ride_level_cancellations.occurrence_date is
+  'Date of the cancelled series occurrence. Null for one-off events.';
@@ -0,0 +1,24 @@
+-- Waitlist claim offers: when WAITLIST_CLAIM_HOURS is set, a freed spot is offered to the next
+-- waitlisted rider with a time-limited claim link instead of being assigned straight away.
+-- While the offer is open the spot is held (counted as taken); unclaimed offers lapse and pass on.
+
+alter table public.registrations
+  add column if not exists waitlist_offer_token_hash text,
+  add column if not exists waitlist_offered_at timestamptz,
+  add column if not exists waitlist_offer_expires_at timestamptz,
+  add column if not exists waitlist_offer_lapsed_at timestamptz;
+
+comment on column public.registrations.waitlist_offer_token_hash is
+  'sha256 of the claim token of the open offer. Cleared when the offer is claimed or lapses.';
+comment on column public.registrations.waitlist_offer_expires_at is
+  'Deadline of the latest offer. The spot is held for the rider until then.';
+comment on column public.registrations.waitlist_offer_lapsed_at is
+  'Set when an offer expired unclaimed; the rider is skipped for further automatic offers.';
+
+create unique index if not exists registrations_waitlist_offer_token_hash_idx
+  on public.registrations (waitlist_offer_token_hash)
+  where waitlist_offer_token_hash is not null;
+
+create index if not exists registrations_open_waitlist_offers_idx
+  on public.registrations (waitlist_offer_expires_at)
+  where waitlist_offer_token_hash is not null and cancelled_at is null;
@@ -0,0 +1,50 @@
+-- Emergency contact and medical notes on profiles. Members fill these in on /members/settings and
+-- must consent explicitly; without emergency_info_consent_at nothing is shown to guides.
+-- Guides never read these columns directly (profiles RLS is owner-only): /api/event hands them
+-- out to the assigned guides of a level, on ride day and the day after, and logs every view.
+
+alter table public.profiles
+  add column if not exists emergency_contact_name text,
+  add column if not exists emergency_contact_phone text,
+  add column if not exists medical_notes text,
+  add column if not exists emergency_info_consent_at timestamptz;
+
+comment on column public.profiles.emergency_contact_name is
+  'Who to call in an emergency during a ride. Shared with assigned guides only with consent.';
+comment on column public.profiles.medical_notes is
+  'Ride-relevant medical info (allergies, conditions, medication). Shared with assigned guides only with consent.';
+comment on column public.profiles.emergency_info_consent_at is
+  'When the member consented to share emergency info with guides. Null = do not share.';
+
+-- Audit log: one row per rider whose emergency info was handed to a guide.
+create table if not exists public.emergency_info_access_log (
+  id uuid primary key default gen_random_uuid(),
+  viewer_id uuid not null references auth.users (id) on delete cascade,
+  subject_user_id uuid not null references auth.users (id) on delete cascade,
+  registration_id uuid references public.registrations (id) on delete set null,
+  event_id integer not null,
+  ride_level text not null,
+  occurrence_date date,
+  context text not null,
+  viewed_at timestamptz not null default now()
+);
+
+create index if not exists emergency_info_access_log_subject_idx
+  on public.emergency_info_access_log (subject_user_id, viewed_at desc);
+
+create index if not exists emergency_info_access_log_event_idx
+  on public.emergency_info_access_log (event_id, ride_level);
+
+alter table public.emergency_info_access_log enable row level security;
+
+-- Members can see who looked at their info.
+create policy emergency_info_access_log_subject_read
+  on public.emergency_info_access_log
+  for select
+  to authenticated
+  using (subject_user_id = auth.uid());
+
+-- Inserts happen exclusively via the service role (API), so no insert policy.
+
+comment on table public.emergency_info_access_log is
+  'Audit trail of guides viewing or exporting emergency contact / medical notes. context = roster | export-csv | export-sheet | export-vcard.';
@@ -0,0 +1,63 @@
+-- Ride waiver acceptances: one row per registration, recording which waiver version the rider
+-- accepted at signup (guests and logged-in members alike). Written by /api/event (service role);
+-- signup is rejected when the current version (lib/waivers.ts) was not accepted.
+
+create table if not exists public.waiver_acceptances (
+  id uuid primary key default gen_random_uuid(),
+  waiver_version text not null,
+  registration_id uuid references public.registrations (id) on delete set null,
+  event_id integer not null,
+  ride_level text,
+  occurrence_date date,
+  user_id uuid references auth.users (id) on delete set null,
+  email text,
+  first_name text,
+  last_name text,
+  ip_address text,
+  user_agent text,
+  accepted_at timestamptz not null default now()
+);
+
+create unique index if not exists waiver_acceptances_registration_idx
+  on public.waiver_acceptances (registration_id)
+  where registration_id is not null;
+
+create index if not exists waiver_acceptances_user_version_idx
+  on public.waiver_acceptances (user_id, waiver_version);
+
+create index if not exists waiver_acceptances_email_version_idx
+  on public.waiver_acceptances (lower(email), waiver_version);
+
+alter table public.waiver_acceptances enable row level security;
+
+-- Riders can see their own acceptances.
+create policy waiver_acceptances_own_read
+  on public.waiver_acceptances
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Guides can see acceptance status on their rosters (level filtering happens in the UI, as for
+-- registrations_guide_read). Column grants below keep IP and user agent service-role only.
+create policy waiver_acceptances_guide_read
+  on public.waiver_acceptances
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+      and profiles.is_guide = true
+    )
+  );
+
+revoke select on public.waiver_acceptances from anon, authenticated;
+grant select (id, waiver_version, registration_id, event_id, ride_level, occurrence_date, user_id, accepted_at)
+  on public.waiver_acceptances to authenticated;
+
+-- Inserts happen exclusively via the service role (API), so no insert policy.
+
+comment on table public.waiver_acceptances is
+  'Proof of ride waiver acceptance per registration and waiver version (insurance requirement).';
+comment on column public.waiver_acceptances.waiver_version is
+  'Version from lib/waivers.ts that was shown and accepted at signup.';
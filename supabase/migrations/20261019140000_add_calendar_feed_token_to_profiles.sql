@@ -0,0 +1,16 @@
+-- Private calendar feed per member. /api/event (action=calendar-feed-token) creates a random token,
+-- shows the feed URL once and stores only its SHA-256 hash here; GET /calendar/<token>.ics looks
+-- the member up by hash. Creating a new link replaces the old one.
+
+alter table public.profiles
+  add column if not exists calendar_feed_token_hash text,
+  add column if not exists calendar_feed_token_created_at timestamptz;
+
+create unique index if not exists profiles_calendar_feed_token_hash_idx
+  on public.profiles (calendar_feed_token_hash)
+  where calendar_feed_token_hash is not null;
+
+comment on column public.profiles.calendar_feed_token_hash is
+  'SHA-256 of the private calendar feed token. Null = no private feed.';
+comment on column public.profiles.calendar_feed_token_created_at is
+  'When the current private calendar feed link was created.';
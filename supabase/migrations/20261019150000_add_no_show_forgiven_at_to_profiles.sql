@@ -0,0 +1,14 @@
+-- No-show policy override (lib/noShowPolicy.ts). Riders with too many recent no-shows lose early
+-- access or are limited to the waitlist; an admin lifts that from the member table by setting
+-- no_show_forgiven_at. No-shows recorded before it no longer count.
+
+alter table public.profiles
+  add column if not exists no_show_forgiven_at timestamptz;
+
+comment on column public.profiles.no_show_forgiven_at is
+  'Set by an admin to lift a no-show restriction. No-shows before this time are ignored by the policy.';
+
+-- Restriction lookups filter a rider's registrations by no_show_at.
+create index if not exists registrations_user_no_show_idx
+  on public.registrations (user_id, no_show_at)
+  where no_show_at is not null;
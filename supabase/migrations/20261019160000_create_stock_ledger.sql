@@ -0,0 +1,186 @@
+-- Shop stock ledger (lib/stockLedger.ts). WordPress stays where stock is entered, but the numbers the
+-- shop shows and sells against live here:
+--   stock_levels        on-hand count per SKU. Seeded from the WordPress inventory the first time a
+--                       SKU is seen; later changes to the WordPress number are applied as a delta
+--                       (restock / correction), sales are not.
+--   stock_reservations  one row per SKU and checkout. Reserved when /api/stripe-checkout creates a
+--                       session, committed (on_hand decremented) on checkout.session.completed,
+--                       released on checkout.session.expired. Reservations past expires_at stop
+--                       counting even if the expiry webhook never arrives.
+-- All access goes through the service role and the functions below, which lock the SKU rows so
+-- two checkouts cannot both take the last item.
+
+create table if not exists public.stock_levels (
+  sku text primary key,
+  on_hand integer not null,
+  -- Last WordPress inventory applied; a different value from WordPress is added as a delta.
+  wp_inventory integer not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.stock_reservations (
+  id uuid primary key default gen_random_uuid(),
+  checkout_reference text not null,
+  stripe_session_id text,
+  sku text not null references public.stock_levels (sku) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  status text not null default 'reserved' check (status in ('reserved', 'committed', 'released')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  committed_at timestamptz,
+  released_at timestamptz
+);
+
+create index if not exists stock_reservations_reference_idx
+  on public.stock_reservations (checkout_reference);
+
+create index if not exists stock_reservations_active_idx
+  on public.stock_reservations (sku, expires_at)
+  where status = 'reserved';
+
+alter table public.stock_levels enable row level security;
+alter table public.stock_reservations enable row level security;
+-- No policies: only the service role (API) reads or writes stock.
+
+-- Apply WordPress inventory and return what is available per SKU (on hand minus live reservations).
+-- p_items: [{ "sku": "CAP-BLK", "wp_inventory": 40 }, …]
+create or replace function public.sync_stock_levels(p_items jsonb)
+returns table (item_sku text, available integer)
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into stock_levels as s (sku, on_hand, wp_inventory)
+  select i.sku, greatest(i.wp_inventory, 0), i.wp_inventory
+  from jsonb_to_recordset(p_items) as i (sku text, wp_inventory integer)
+  where i.sku is not null and i.wp_inventory is not null
+  on conflict (sku) do update
+    set on_hand = s.on_hand + (excluded.wp_inventory - s.wp_inventory),
+        wp_inventory = excluded.wp_inventory,
+        updated_at = now()
+    where s.wp_inventory is distinct from excluded.wp_inventory;
+
+  return query
+    select l.sku,
+           (l.on_hand - coalesce(sum(r.quantity), 0))::integer
+    from stock_levels l
+    left join stock_reservations r
+      on r.sku = l.sku and r.status = 'reserved' and r.expires_at > now()
+    where l.sku in (select i.sku from jsonb_to_recordset(p_items) as i (sku text))
+    group by l.sku, l.on_hand;
+end;
+$$;
+
+-- Reserve every item of one checkout, or nothing. Returns the SKUs that are short (with what is
+-- still available); an empty result means the reservation was made.
+-- p_items: [{ "sku": "CAP-BLK", "wp_inventory": 40, "quantity": 2 }, …] — one entry per SKU.
+create or replace function public.reserve_stock(
+  p_reference text,
+  p_items jsonb,
+  p_expires_at timestamptz
+)
+returns table (item_sku text, available integer)
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_item record;
+  v_available integer;
+  v_short boolean := false;
+begin
+  perform public.sync_stock_levels(p_items);
+
+  -- Lock in a fixed order so concurrent checkouts for overlapping baskets cannot deadlock.
+  perform 1
+  from stock_levels
+  where sku in (select i.sku from jsonb_to_recordset(p_items) as i (sku text))
+  order by sku
+  for update;
+
+  for v_item in
+    select i.sku, i.quantity
+    from jsonb_to_recordset(p_items) as i (sku text, quantity integer)
+  loop
+    select l.on_hand - coalesce((
+      select sum(r.quantity)
+      from stock_reservations r
+      where r.sku = l.sku and r.status = 'reserved' and r.expires_at > now()
+    ), 0)
+    into v_available
+    from stock_levels l
+    where l.sku = v_item.sku;
+
+    if v_available is null or v_available < v_item.quantity then
+      v_short := true;
+      item_sku := v_item.sku;
+      available := greatest(coalesce(v_available, 0), 0);
+      return next;
+    end if;
+  end loop;
+
+  if v_short then
+    return;
+  end if;
+
+  insert into stock_reservations (checkout_reference, sku, quantity, expires_at)
+  select p_reference, i.sku, i.quantity, p_expires_at
+  from jsonb_to_recordset(p_items) as i (sku text, quantity integer);
+end;
+$$;
+
+-- Payment received: take the reserved items off the shelf. Also commits reservations that were
+-- released or lapsed in the meantime — the customer paid, so the items are sold either way
+-- (on_hand may then go below zero, which shows up as an oversell to fix by hand). Idempotent.
+create or replace function public.commit_stock(p_reference text)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  with moved as (
+    update stock_reservations
+    set status = 'committed', committed_at = now()
+    where checkout_reference = p_reference and status <> 'committed'
+    returning sku, quantity
+  ), totals as (
+    select sku, sum(quantity)::integer as quantity from moved group by sku
+  ), updated as (
+    update stock_levels l
+    set on_hand = l.on_hand - t.quantity, updated_at = now()
+    from totals t
+    where l.sku = t.sku
+    returning 1
+  )
+  select count(*) into v_count from moved;
+  return v_count;
+end;
+$$;
+
+-- Checkout abandoned or expired: give the items back. Idempotent.
+create or replace function public.release_stock(p_reference text)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update stock_reservations
+  set status = 'released', released_at = now()
+  where checkout_reference = p_reference and status = 'reserved';
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.sync_stock_levels(jsonb) from public, anon, authenticated;
+revoke execute on function public.reserve_stock(text, jsonb, timestamptz) from public, anon, authenticated;
+revoke execute on function public.commit_stock(text) from public, anon, authenticated;
+revoke execute on function public.release_stock(text) from public, anon, authenticated;
+
+comment on table public.stock_levels is
+  'On-hand stock per SKU; source of the stock the shop shows. WordPress inventory changes apply as deltas.';
+comment on table public.stock_reservations is
+  'Stock held by a Stripe checkout: reserved at session creation, committed on payment, released on expiry.';
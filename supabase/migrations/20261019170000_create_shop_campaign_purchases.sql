@@ -0,0 +1,26 @@
+-- Per-member purchase counts for shop drops (lib/shopCampaigns.ts). /api/stripe-checkout adds a
+-- pending row per limited product when it creates a session; the Stripe webhook marks the rows paid
+-- on checkout.session.completed or released when the session expires or payment fails. Pending rows
+-- past expires_at stop counting even if the expiry webhook never arrives.
+
+create table if not exists public.shop_campaign_purchases (
+  id uuid primary key default gen_random_uuid(),
+  -- WordPress ShopProduct id (global GraphQL id).
+  product_id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  stripe_session_id text not null,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'released')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  paid_at timestamptz
+);
+
+create index if not exists shop_campaign_purchases_user_product_idx
+  on public.shop_campaign_purchases (user_id, product_id);
+
+create index if not exists shop_campaign_purchases_session_idx
+  on public.shop_campaign_purchases (stripe_session_id);
+
+alter table public.shop_campaign_purchases enable row level security;
+-- No policies: only the service role (API) reads or writes purchase counts.
@@ -0,0 +1,22 @@
+-- Gift memberships (lib/giftMemberships.ts). One row per paid gift checkout: the Stripe webhook
+-- issues the redeem code and emails it to the recipient; redeeming it in the members area grants
+-- the membership on the redeemer's own profile. A code can be redeemed once.
+
+create table if not exists public.gift_memberships (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  stripe_session_id text not null unique,
+  purchaser_user_id uuid references auth.users (id) on delete set null,
+  purchaser_email text,
+  recipient_email text not null,
+  message text,
+  period_days integer not null default 365 check (period_days > 0),
+  status text not null default 'issued' check (status in ('issued', 'redeemed', 'revoked')),
+  redeemed_by uuid references auth.users (id) on delete set null,
+  redeemed_at timestamptz,
+  email_sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.gift_memberships enable row level security;
+-- No policies: codes are only read and redeemed through the service role (API).
@@ -0,0 +1,21 @@
+-- Membership renewal reminders and the failed-payment (dunning) sequence (lib/membershipRenewals.ts).
+-- The Stripe webhook records the first failed subscription invoice and clears it once an invoice is
+-- paid; the daily cron sends the emails and records each one in membership_emails_sent so nobody
+-- gets the same email twice.
+
+alter table public.profiles
+  add column if not exists membership_emails_sent jsonb not null default '{}'::jsonb,
+  add column if not exists stripe_payment_failed_at timestamptz,
+  add column if not exists stripe_failed_invoice_id text;
+
+comment on column public.profiles.membership_emails_sent is
+  'Renewal and dunning emails already sent: send key (e.g. renewal:2027-03-01:7, dunning:in_123:1) -> sent at.';
+comment on column public.profiles.stripe_payment_failed_at is
+  'When the current unpaid subscription invoice first failed. Null once an invoice is paid.';
+comment on column public.profiles.stripe_failed_invoice_id is
+  'Stripe invoice (in_xxx) whose failed payment started the current dunning sequence.';
+
+-- The cron looks up members in dunning.
+create index if not exists profiles_stripe_payment_failed_at_idx
+  on public.profiles (stripe_payment_failed_at)
+  where stripe_payment_failed_at is not null;
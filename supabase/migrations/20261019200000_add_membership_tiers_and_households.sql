@@ -0,0 +1,102 @@
+-- Membership tiers and households (lib/membershipTiers.ts, lib/households.ts).
+-- membership_tier says which tier a member holds (null = standard, for members from before tiers).
+-- Household members point at the owner's profile and inherit the owner's membership: the triggers
+-- below copy it when they join and whenever the owner's membership changes. Leaving a household
+-- clears the inherited membership in the app (removeHouseholdMember).
+
+alter table public.profiles
+  add column if not exists membership_tier text
+    check (membership_tier in ('standard', 'reduced', 'household')),
+  add column if not exists household_owner_id uuid references public.profiles (id) on delete set null;
+
+comment on column public.profiles.membership_tier is
+  'Membership tier: standard, reduced or household. Null = standard (members from before tiers).';
+comment on column public.profiles.household_owner_id is
+  'Household owner this profile is linked to; its membership is copied from the owner.';
+
+create index if not exists profiles_household_owner_id_idx
+  on public.profiles (household_owner_id)
+  where household_owner_id is not null;
+
+create table if not exists public.household_invites (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references public.profiles (id) on delete cascade,
+  email text not null,
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  accepted_by uuid references public.profiles (id) on delete set null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists household_invites_owner_idx on public.household_invites (owner_id);
+
+alter table public.household_invites enable row level security;
+
+-- Joining: take the owner's membership.
+create or replace function public.join_household_membership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner public.profiles%rowtype;
+begin
+  if new.household_owner_id is null then
+    return new;
+  end if;
+  select * into owner from public.profiles where id = new.household_owner_id;
+  if found then
+    new.is_member := coalesce(owner.is_member and owner.membership_tier = 'household', false);
+    new.membership_tier := 'household';
+    new.membership_expiration := owner.membership_expiration;
+    new.membership_source := owner.membership_source;
+    new.membership_plans := owner.membership_plans;
+    new.member_since := coalesce(new.member_since, owner.member_since);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_join_household on public.profiles;
+create trigger profiles_join_household
+  before update of household_owner_id on public.profiles
+  for each row
+  when (new.household_owner_id is distinct from old.household_owner_id)
+  execute function public.join_household_membership();
+
+-- Owner's membership changed: pass it on. A household ends for its members when the owner's
+-- membership does or the owner moves to another tier.
+create or replace function public.sync_household_membership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles
+  set
+    is_member = coalesce(new.is_member and new.membership_tier = 'household', false),
+    membership_expiration = new.membership_expiration,
+    membership_source = new.membership_source,
+    membership_plans = new.membership_plans
+  where household_owner_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_sync_household on public.profiles;
+create trigger profiles_sync_household
+  after update of is_member, membership_tier, membership_expiration, membership_source, membership_plans
+  on public.profiles
+  for each row
+  when (
+    new.is_member is distinct from old.is_member
+    or new.membership_tier is distinct from old.membership_tier
+    or new.membership_expiration is distinct from old.membership_expiration
+    or new.membership_source is distinct from old.membership_source
+    or new.membership_plans is distinct from old.membership_plans
+  )
+  execute function public.sync_household_membership();
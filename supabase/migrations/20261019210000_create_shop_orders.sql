@@ -0,0 +1,39 @@
+-- Shop orders and their fulfilment (lib/shopOrders.ts). The Stripe webhook adds one row per paid
+-- one-time checkout that has something to ship or pick up; the team moves it through
+-- paid → packed → shipped / picked_up (or returned) in the analytics dashboard. Marking an order
+-- shipped emails the customer their tracking details. Customers see their orders in the members
+-- area. Orders from before this table are only in profiles.order_history / Stripe.
+
+create table if not exists public.shop_orders (
+  id uuid primary key default gen_random_uuid(),
+  stripe_session_id text not null unique,
+  user_id uuid references auth.users (id) on delete set null,
+  email text,
+  customer_name text,
+  -- [{ name, quantity, amountTotal, currency }] as listed on the Stripe session.
+  items jsonb not null default '[]'::jsonb,
+  amount_total integer,
+  currency text,
+  -- ShippingOption from lib/shipping.ts ('de', 'eu', 'ch', 'uk', 'pickup').
+  shipping_option text,
+  -- Stripe address ({ line1, line2, postal_code, city, country, ... }) the order ships to.
+  shipping_address jsonb,
+  status text not null default 'paid'
+    check (status in ('paid', 'packed', 'shipped', 'picked_up', 'returned')),
+  carrier text,
+  tracking_number text,
+  packed_at timestamptz,
+  shipped_at timestamptz,
+  picked_up_at timestamptz,
+  returned_at timestamptz,
+  shipping_email_sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists shop_orders_user_idx on public.shop_orders (user_id);
+create index if not exists shop_orders_email_idx on public.shop_orders (lower(email));
+create index if not exists shop_orders_status_idx on public.shop_orders (status, created_at);
+
+alter table public.shop_orders enable row level security;
+-- No policies: orders are read and updated through the service role (API).
@@ -0,0 +1,32 @@
+-- Back-in-stock sign-ups (lib/stockNotifications.ts). Shoppers leave an email on a sold-out
+-- variant; when the stock ledger shows the SKU available again, everyone waiting gets one email
+-- and the row is closed (notified_at). Each row carries its own email consent and a one-click
+-- unsubscribe token (stored hashed).
+
+create table if not exists public.stock_notifications (
+  id uuid primary key default gen_random_uuid(),
+  -- Stock key (lib/products.ts stockKey): the variant's SKU or "<productId>:<label>".
+  sku text not null,
+  product_id text not null,
+  product_title text not null,
+  product_slug text,
+  variant_label text,
+  email text not null,
+  user_id uuid references auth.users (id) on delete set null,
+  unsubscribe_token_hash text not null unique,
+  consented_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  notified_at timestamptz,
+  unsubscribed_at timestamptz
+);
+
+-- One open sign-up per variant and address; signing up again after an email is fine.
+create unique index if not exists stock_notifications_open_idx
+  on public.stock_notifications (sku, lower(email))
+  where notified_at is null and unsubscribed_at is null;
+
+create index if not exists stock_notifications_email_idx
+  on public.stock_notifications (lower(email));
+
+alter table public.stock_notifications enable row level security;
+-- No policies: sign-ups are read and written through the service role (API).
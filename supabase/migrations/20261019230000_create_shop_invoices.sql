@@ -0,0 +1,99 @@
+-- Invoices for shop orders (lib/invoices.ts). The Stripe webhook issues one per paid shop order
+-- right after recording it; the PDF is rendered on demand from the stored row, so an invoice reads
+-- the same every time it is downloaded.
+--   invoice_counters  last number used per calendar year (Europe/Berlin). Numbers are gapless:
+--                     KG-2026-00001, KG-2026-00002, …
+--   shop_invoices     the invoice as issued: buyer, VAT treatment, lines and totals in the order's
+--                     currency (minor units, prices include VAT).
+-- All access goes through the service role and create_shop_invoice, which locks the order and the
+-- year's counter so retries and concurrent webhooks neither skip nor reuse a number.
+
+create table if not exists public.invoice_counters (
+  year integer primary key,
+  last_number integer not null default 0
+);
+
+create table if not exists public.shop_invoices (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.shop_orders (id) on delete restrict,
+  invoice_number text not null unique,
+  issued_at timestamptz not null default now(),
+  -- Secret part of the download link (email, members area). Kept in the clear: it only unlocks
+  -- this row, and the links have to be rebuilt for the order lists.
+  access_token text not null unique,
+  customer_name text,
+  customer_email text,
+  -- Stripe address the order ships to ({ name, line1, line2, postal_code, city, country }).
+  address jsonb,
+  destination_country text,
+  -- domestic = German VAT, oss = destination country's VAT (One-Stop-Shop), export = no VAT.
+  vat_treatment text not null check (vat_treatment in ('domestic', 'oss', 'export')),
+  vat_rate numeric(5, 2) not null,
+  currency text not null,
+  -- [{ description, quantity, grossAmount, netAmount, vatAmount }]
+  lines jsonb not null default '[]'::jsonb,
+  net_total integer not null,
+  vat_total integer not null,
+  gross_total integer not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.invoice_counters enable row level security;
+alter table public.shop_invoices enable row level security;
+-- No policies: invoices are read through the service role (API).
+
+-- Issue the invoice for an order, or return the one it already has. p_invoice carries every
+-- column except id, order_id, invoice_number and the timestamps.
+create or replace function public.create_shop_invoice(p_order_id uuid, p_invoice jsonb)
+returns public.shop_invoices
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_invoice public.shop_invoices;
+  v_year integer := extract(year from (now() at time zone 'Europe/Berlin'))::integer;
+  v_number integer;
+begin
+  perform 1 from public.shop_orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Shop order % not found', p_order_id;
+  end if;
+
+  select * into v_invoice from public.shop_invoices where order_id = p_order_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  insert into public.invoice_counters (year, last_number)
+  values (v_year, 1)
+  on conflict (year) do update set last_number = public.invoice_counters.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.shop_invoices (
+    order_id, invoice_number, access_token, customer_name, customer_email, address,
+    destination_country, vat_treatment, vat_rate, currency, lines, net_total, vat_total,
+    gross_total
+  )
+  values (
+    p_order_id,
+    'KG-' || v_year || '-' || lpad(v_number::text, 5, '0'),
+    p_invoice ->> 'access_token',
+    p_invoice ->> 'customer_name',
+    p_invoice ->> 'customer_email',
+    p_invoice -> 'address',
+    p_invoice ->> 'destination_country',
+    p_invoice ->> 'vat_treatment',
+    (p_invoice ->> 'vat_rate')::numeric,
+    p_invoice ->> 'currency',
+    coalesce(p_invoice -> 'lines', '[]'::jsonb),
+    (p_invoice ->> 'net_total')::integer,
+    (p_invoice ->> 'vat_total')::integer,
+    (p_invoice ->> 'gross_total')::integer
+  )
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
+
+revoke execute on function public.create_shop_invoice(uuid, jsonb) from public, anon, authenticated;
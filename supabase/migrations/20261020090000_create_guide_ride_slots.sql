@@ -0,0 +1,69 @@
+-- Ride slots for guide ride planning (lib/rideSlots.ts). A slot is a recurring ride the guides
+-- plan for: its weekday, the levels it offers, how many guides each level needs and the season it
+-- runs in. Planning weeks now belong to a slot and are opened from it automatically (daily
+-- send-reminders run, and whenever a coordinator saves a slot), so no more migrations per season.
+--   guide_ride_slots       one row per recurring ride (Tuesday Social Ride, Saturday Gravel, …)
+--   guide_ride_plans       + slot_id; a slot has at most one plan per date
+-- Levels widen to Level 1 and Gravel, matching the WordPress event levels.
+
+create table if not exists public.guide_ride_slots (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  -- 0 = Sunday … 6 = Saturday
+  weekday smallint not null check (weekday between 0 and 6),
+  -- In ride order; a subset of '1', '2', '2+', '3', 'gravel'.
+  levels text[] not null
+    check (cardinality(levels) > 0 and levels <@ array['1', '2', '2+', '3', 'gravel']),
+  guides_per_level smallint not null default 2 check (guides_per_level between 1 and 10),
+  season_start date not null,
+  season_end date not null,
+  -- How far ahead planning weeks are opened.
+  weeks_ahead smallint not null default 8 check (weeks_ahead between 1 and 26),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (season_end >= season_start)
+);
+
+alter table public.guide_ride_slots enable row level security;
+
+drop policy if exists guide_ride_slots_read_for_guides on public.guide_ride_slots;
+create policy guide_ride_slots_read_for_guides
+  on public.guide_ride_slots
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.is_guide = true
+    )
+  );
+
+-- The Tuesday Social Ride as planned so far.
+insert into public.guide_ride_slots (title, weekday, levels, guides_per_level, season_start, season_end)
+select 'Social Ride', 2, array['2', '2+', '3'], 2, '2026-05-12', '2026-09-29'
+where not exists (select 1 from public.guide_ride_slots);
+
+alter table public.guide_ride_plans
+  add column if not exists slot_id uuid references public.guide_ride_slots (id) on delete restrict;
+
+update public.guide_ride_plans
+set slot_id = (select id from public.guide_ride_slots where weekday = 2 order by created_at limit 1)
+where slot_id is null;
+
+alter table public.guide_ride_plans alter column slot_id set not null;
+
+-- Two slots may ride on the same date (e.g. Saturday road and gravel).
+alter table public.guide_ride_plans drop constraint if exists guide_ride_plans_week_start_date_key;
+create unique index if not exists guide_ride_plans_slot_date_key
+  on public.guide_ride_plans (slot_id, week_start_date);
+
+alter table public.guide_ride_assignments drop constraint if exists guide_ride_assignments_ride_level_check;
+alter table public.guide_ride_assignments
+  add constraint guide_ride_assignments_ride_level_check
+  check (ride_level in ('1', '2', '2+', '3', 'gravel'));
+
+alter table public.guide_ride_availability drop constraint if exists guide_ride_availability_choice_check;
+alter table public.guide_ride_availability
+  add constraint guide_ride_availability_choice_check
+  check (choice in ('level1', 'level2', 'level2plus', 'level3', 'gravel', 'participant', 'no_time', 'injured'));
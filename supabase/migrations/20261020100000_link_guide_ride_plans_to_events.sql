@@ -0,0 +1,11 @@
+-- Published guide ride plans drive the WordPress ride event they staff (lib/guideEventSync.ts).
+-- Publishing a plan links it to the event riding on its date; from then on api/event.ts reads the
+-- event's guides (capacity, guide actions, event page) from the plan instead of the ACF fields.
+--   guide_ride_plans       + wp_event_id; one plan per event occurrence
+
+alter table public.guide_ride_plans
+  add column if not exists wp_event_id integer;
+
+create unique index if not exists guide_ride_plans_event_date_key
+  on public.guide_ride_plans (wp_event_id, week_start_date)
+  where wp_event_id is not null;
@@ -0,0 +1,8 @@
+-- Published guide ride plans are posted to the guides' Discord channel by webhook
+-- (lib/ridePlanDiscord.ts, DISCORD_RIDE_PLAN_WEBHOOK_URL). The message id is kept so later
+-- changes to the plan edit the same message instead of posting a new one.
+--   guide_ride_plans       + discord_message_id, discord_posted_at
+
+alter table public.guide_ride_plans
+  add column if not exists discord_message_id text,
+  add column if not exists discord_posted_at timestamptz;
@@ -0,0 +1,45 @@
+-- Swap and sick-leave requests for assigned guides (lib/guideSwaps.ts). A guide who cannot ride
+-- asks for a swap (they stay on the plan until someone takes over) or reports sick (they come off
+-- the plan right away). The standby guides of the level are offered the ride in standby order and
+-- the first to accept is assigned. Requests nobody takes are closed the day before the ride by the
+-- daily send-reminders run; a level left short of guides is reported to the coordinators and its
+-- riders, and cancelled when no guide is left.
+--   guide_swap_requests    one row per request; at most one open request per assignment
+
+create table if not exists public.guide_swap_requests (
+  id uuid primary key default gen_random_uuid(),
+  assignment_id uuid not null references public.guide_ride_assignments(id) on delete cascade,
+  plan_id uuid not null references public.guide_ride_plans(id) on delete cascade,
+  ride_date date not null,
+  ride_level text not null,
+  requested_by uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('swap', 'sick')),
+  note text,
+  -- Standby guides of the level the ride was offered to, in standby order.
+  offered_to uuid[] not null default '{}',
+  status text not null default 'open' check (status in ('open', 'filled', 'unfilled', 'withdrawn')),
+  filled_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create unique index if not exists guide_swap_requests_open_key
+  on public.guide_swap_requests (assignment_id)
+  where status = 'open';
+
+create index if not exists guide_swap_requests_plan_idx
+  on public.guide_swap_requests (plan_id, ride_date);
+
+alter table public.guide_swap_requests enable row level security;
+
+drop policy if exists guide_swap_requests_read_for_guides on public.guide_swap_requests;
+create policy guide_swap_requests_read_for_guides
+  on public.guide_swap_requests
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.is_guide = true
+    )
+  );
@@ -0,0 +1,70 @@
+-- Count and hold drop purchases in one step (lib/shopCampaigns.ts reserveCampaignPurchases).
+-- Checking a member's limit and adding the pending rows used to be two requests, so parallel
+-- checkouts of the same member could both pass the check. reserve_campaign_purchases does both in
+-- one transaction under an advisory lock per member and product, like reserve_stock does per SKU.
+-- Rows are held by a checkout reference (also in the session's metadata) before the Stripe session
+-- exists; the session id is added once it is created.
+--   shop_campaign_purchases    + checkout_reference; stripe_session_id nullable until linked
+
+alter table public.shop_campaign_purchases
+  add column if not exists checkout_reference text;
+
+alter table public.shop_campaign_purchases
+  alter column stripe_session_id drop not null;
+
+create index if not exists shop_campaign_purchases_reference_idx
+  on public.shop_campaign_purchases (checkout_reference);
+
+-- Hold the basket's units of limited drops for one checkout until p_expires_at. p_items is a JSON
+-- array of { product_id, quantity, member_limit }. All or nothing: when any product would go over
+-- its limit nothing is held and one row per such product is returned with what the member may
+-- still add. Paid rows and pending rows that have not expired count against the limit.
+create or replace function public.reserve_campaign_purchases(
+  p_user_id uuid,
+  p_reference text,
+  p_items jsonb,
+  p_expires_at timestamptz
+)
+returns table (item_product_id text, remaining integer)
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_item record;
+  v_used integer;
+  v_short boolean := false;
+begin
+  -- Lock in a fixed order so concurrent checkouts for overlapping baskets cannot deadlock.
+  for v_item in
+    select i.product_id, i.quantity, i.member_limit
+    from jsonb_to_recordset(p_items) as i (product_id text, quantity integer, member_limit integer)
+    order by i.product_id
+  loop
+    perform pg_advisory_xact_lock(hashtextextended(p_user_id::text || ':' || v_item.product_id, 0));
+
+    select coalesce(sum(p.quantity), 0)
+    into v_used
+    from shop_campaign_purchases p
+    where p.user_id = p_user_id
+      and p.product_id = v_item.product_id
+      and (p.status = 'paid' or (p.status = 'pending' and p.expires_at > now()));
+
+    if v_used + v_item.quantity > v_item.member_limit then
+      v_short := true;
+      item_product_id := v_item.product_id;
+      remaining := greatest(v_item.member_limit - v_used, 0);
+      return next;
+    end if;
+  end loop;
+
+  if v_short then
+    return;
+  end if;
+
+  insert into shop_campaign_purchases (product_id, user_id, quantity, checkout_reference, expires_at)
+  select i.product_id, p_user_id, i.quantity, p_reference, p_expires_at
+  from jsonb_to_recordset(p_items) as i (product_id text, quantity integer);
+end;
+$$;
+
+revoke execute on function public.reserve_campaign_purchases(uuid, text, jsonb, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,36 @@
+-- Linked household members hold the standard tier (lib/households.ts).
+-- join_household_membership used to copy the owner's 'household' tier onto linked members, which
+-- gave them household seats of their own: they could invite people, who could invite more. The
+-- perks of both tiers are the same; only the owner's tier carries seats. Membership status still
+-- follows the owner's household tier.
+--   profiles    linked members' membership_tier 'household' -> 'standard'
+
+create or replace function public.join_household_membership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner public.profiles%rowtype;
+begin
+  if new.household_owner_id is null then
+    return new;
+  end if;
+  select * into owner from public.profiles where id = new.household_owner_id;
+  if found then
+    new.is_member := coalesce(owner.is_member and owner.membership_tier = 'household', false);
+    new.membership_tier := 'standard';
+    new.membership_expiration := owner.membership_expiration;
+    new.membership_source := owner.membership_source;
+    new.membership_plans := owner.membership_plans;
+    new.member_since := coalesce(new.member_since, owner.member_since);
+  end if;
+  return new;
+end;
+$$;
+
+update public.profiles
+set membership_tier = 'standard'
+where household_owner_id is not null
+  and membership_tier = 'household';
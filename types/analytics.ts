@@ -7,6 +7,8 @@ export interface OrderHistoryEntry {
   discount?: number;
   net_total?: number;
   returning_customer?: boolean;
+  /** Amount refunded so far (refunds and lost disputes), in euros. */
+  refunded?: number;
 }
 
 export interface MemberAnalytics {
@@ -29,6 +31,10 @@ export interface MemberAnalytics {
   is_team: boolean;
   is_archived: boolean | null;
   event_participation_count?: number;
+  // No-show policy (see lib/noShowPolicy.ts)
+  no_show_forgiven_at?: string | null;
+  recent_no_show_count?: number;
+  no_show_restriction?: { penalty: 'early-access' | 'waitlist-only'; until: string } | null;
   days_until_expiration?: number;
   is_at_risk?: boolean;
   // Profile details
@@ -52,6 +58,8 @@ export interface MemberAnalytics {
   // Membership
   membership_source: string | null;
   membership_plans: string[] | null;
+  membership_tier: string | null;
+  household_owner_id: string | null;
   member_since: string | null;
   // Orders
   avg_order_value: number | null;
@@ -1,19 +1,27 @@
-export type RideLevel = '2' | '2+' | '3';
+import type { GuideSwapRequest } from '../lib/guideSwaps';
+import type { PlanLevel, PlanLevelChoice, RideSlot } from '../lib/rideSlots';
+
+export type RideLevel = PlanLevel;
 
 export type GuidePlanStatus = 'draft' | 'finalized' | 'published';
 
 export type GuideDecisionStatus = 'proposed' | 'assigned' | 'standby' | 'unavailable';
 
 export type ProposalSource = 'in_window' | 'late';
-export type GuideChoice = 'level2' | 'level2plus' | 'level3' | 'participant' | 'no_time' | 'injured';
+export type GuideChoice = PlanLevelChoice | 'participant' | 'no_time' | 'injured';
 
 export interface GuidePlanWeek {
   id: string;
+  slot_id: string;
   week_start_date: string;
   status: GuidePlanStatus;
   notes: string | null;
   finalized_at: string | null;
   published_at: string | null;
+  /** WordPress ride event the published plan staffs (lib/guideEventSync.ts). */
+  wp_event_id: number | null;
+  /** When the plan was last posted to Discord (lib/ridePlanDiscord.ts). */
+  discord_posted_at: string | null;
 }
 
 export interface GuideAssignmentEntry {
@@ -39,6 +47,7 @@ export interface GuideAssignmentEntry {
 }
 
 export interface RidePlanningData {
+  slots: RideSlot[];
   plans: GuidePlanWeek[];
   assignments: GuideAssignmentEntry[];
   myChoices: Array<{
@@ -57,6 +66,8 @@ export interface RidePlanningData {
     guide_flinta_priority: boolean;
     guide_is_coordinator: boolean;
   }>;
+  /** Swap and sick-leave requests of the listed plans (lib/guideSwaps.ts). */
+  swapRequests: GuideSwapRequest[];
   nowIso: string;
   caller: {
     id: string;